@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { Switch, Route } from "wouter";
-import { queryClient } from "./lib/queryClient";
+import { queryClient, apiRequest } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -33,20 +33,27 @@ function App() {
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    // Verificar se há dados de usuário salvos
-    const savedUserData = localStorage.getItem("userData");
-    if (savedUserData) {
-      setUserData(JSON.parse(savedUserData));
-    }
-    setIsLoading(false);
+    // Verificar se já existe uma sessão ativa no servidor
+    fetch("/api/user", { credentials: "include" })
+      .then(res => (res.ok ? res.json() : null))
+      .then(user => setUserData(user))
+      .catch(() => setUserData(null))
+      .finally(() => setIsLoading(false));
   }, []);
 
   const handleLogin = (user: { name: string; email: string; profileImage?: string }) => {
+    queryClient.clear();
     setUserData(user);
   };
 
   const handleLogout = () => {
-    setUserData(null);
+    apiRequest("/api/logout", "POST")
+      .catch(error => console.error("Erro ao encerrar sessão:", error))
+      .finally(() => {
+        // Não manter dados do usuário anterior em cache
+        queryClient.clear();
+        setUserData(null);
+      });
   };
 
   const handleUpdateProfile = (user: { name: string; email: string; profileImage?: string }) => {
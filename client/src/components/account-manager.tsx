@@ -0,0 +1,432 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/financial-utils";
+import AccountSelect, { accountTypeLabels, type AccountWithBalance } from "@/components/account-select";
+import ReconciliationDialog from "@/components/reconciliation-dialog";
+import { ArrowLeftRight, Landmark, ListChecks, Pencil, Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+
+interface AccountStatementEntry {
+  id: string;
+  kind: "income" | "expense" | "transfer_in" | "transfer_out" | "invoice_payment";
+  date: string;
+  description: string;
+  amount: string;
+  balance: string;
+  clearedStatus: "uncleared" | "cleared" | "reconciled";
+}
+
+interface AccountStatement {
+  startDate: string;
+  endDate: string;
+  startingBalance: string;
+  entries: AccountStatementEntry[];
+  endingBalance: string;
+}
+
+interface AccountFormState {
+  name: string;
+  type: AccountWithBalance["type"];
+  bank: string;
+  color: string;
+  openingBalance: string;
+  openingDate: string;
+  isActive: boolean;
+}
+
+const emptyAccountForm = (): AccountFormState => ({
+  name: "",
+  type: "checking",
+  bank: "",
+  color: "#10B981",
+  openingBalance: "0",
+  openingDate: format(new Date(), "yyyy-MM-dd"),
+  isActive: true,
+});
+
+export default function AccountManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<AccountWithBalance | null>(null);
+  const [form, setForm] = useState<AccountFormState>(emptyAccountForm);
+  const [statementAccountId, setStatementAccountId] = useState<string | null>(null);
+  const [reconcileAccount, setReconcileAccount] = useState<AccountWithBalance | null>(null);
+  const [transferFrom, setTransferFrom] = useState("");
+  const [transferTo, setTransferTo] = useState("");
+  const [transferAmount, setTransferAmount] = useState("");
+  const [transferDate, setTransferDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const { data: accountsResponse } = useQuery<{ success: boolean; data: AccountWithBalance[] }>({
+    queryKey: ["/api/accounts"],
+  });
+  const accounts = accountsResponse?.data || [];
+  const statementAccount = accounts.find(account => account.id === statementAccountId) || null;
+
+  const { data: statementResponse } = useQuery<{ success: boolean; data: AccountStatement }>({
+    queryKey: ["/api/accounts/", statementAccountId, "/statement"],
+    enabled: !!statementAccountId,
+  });
+  const statement = statementResponse?.data;
+
+  const onAccountsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts/"] });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Erro",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        ...form,
+        bank: form.bank.trim() || null,
+        openingBalance: form.openingBalance.replace(",", "."),
+      };
+      return editingAccount
+        ? apiRequest(`/api/accounts/${editingAccount.id}`, "PUT", payload)
+        : apiRequest("/api/accounts", "POST", payload);
+    },
+    onSuccess: () => {
+      onAccountsChanged();
+      setIsFormOpen(false);
+      toast({ title: "Sucesso", description: editingAccount ? "Conta atualizada!" : "Conta criada!" });
+    },
+    onError: onError("Erro ao salvar a conta"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/accounts/${id}`, "DELETE"),
+    onSuccess: (_, id) => {
+      onAccountsChanged();
+      if (statementAccountId === id) setStatementAccountId(null);
+    },
+    onError: onError("Erro ao excluir a conta"),
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("/api/account-transfers", "POST", {
+        fromAccountId: transferFrom,
+        toAccountId: transferTo,
+        amount: transferAmount.replace(",", "."),
+        date: transferDate,
+      });
+    },
+    onSuccess: () => {
+      onAccountsChanged();
+      setTransferAmount("");
+      toast({ title: "Sucesso", description: "Transferência registrada!" });
+    },
+    onError: onError("Erro ao registrar a transferência"),
+  });
+
+  const deleteTransferMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/account-transfers/${id}`, "DELETE"),
+    onSuccess: onAccountsChanged,
+    onError: onError("Erro ao remover a transferência"),
+  });
+
+  const openForm = (account: AccountWithBalance | null) => {
+    setEditingAccount(account);
+    setForm(account ? {
+      name: account.name,
+      type: account.type,
+      bank: account.bank || "",
+      color: account.color,
+      openingBalance: account.openingBalance,
+      openingDate: account.openingDate,
+      isActive: account.isActive,
+    } : emptyAccountForm());
+    setIsFormOpen(true);
+  };
+
+  const isOpeningBalanceValid = /^-?\d+([.,]\d{1,2})?$/.test(form.openingBalance);
+  const isTransferValid = !!transferFrom && !!transferTo && transferFrom !== transferTo
+    && /^\d+([.,]\d{1,2})?$/.test(transferAmount) && Number(transferAmount.replace(",", ".")) > 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Landmark className="w-5 h-5" />
+              Contas e carteiras
+            </CardTitle>
+            <CardDescription>
+              O saldo parte do saldo inicial e soma as receitas e despesas vinculadas, as transferências
+              e as faturas de cartão pagas pela conta.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openForm(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Nova conta
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {accounts.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhuma conta cadastrada</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {accounts.map((account) => (
+                <div
+                  key={account.id}
+                  className={`border rounded-lg p-4 space-y-2 cursor-pointer ${statementAccountId === account.id ? "ring-2 ring-primary" : ""}`}
+                  onClick={() => setStatementAccountId(account.id)}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center gap-2 font-medium">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: account.color }} />
+                      {account.name}
+                    </span>
+                    <span className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Conciliar com o extrato"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setReconcileAccount(account);
+                        }}
+                      >
+                        <ListChecks className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openForm(account);
+                        }}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-gray-400 hover:text-red-600"
+                        disabled={deleteMutation.isPending}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteMutation.mutate(account.id);
+                        }}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <Badge variant="secondary">{accountTypeLabels[account.type]}</Badge>
+                    {account.bank}
+                    {!account.isActive && <Badge variant="outline">Inativa</Badge>}
+                  </div>
+                  <p className={`text-xl font-semibold ${Number(account.balance) < 0 ? "text-red-600" : "text-gray-900"}`}>
+                    {formatCurrency(account.balance)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {accounts.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowLeftRight className="w-5 h-5" />
+              Transferir entre contas
+            </CardTitle>
+            <CardDescription>Transferências mudam o saldo das contas, mas não contam como receita nem despesa.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+              <div>
+                <Label htmlFor="transfer-from">De</Label>
+                <AccountSelect id="transfer-from" value={transferFrom} onChange={setTransferFrom} />
+              </div>
+              <div>
+                <Label htmlFor="transfer-to">Para</Label>
+                <AccountSelect id="transfer-to" value={transferTo} onChange={setTransferTo} />
+              </div>
+              <div>
+                <Label htmlFor="transfer-amount">Valor (R$)</Label>
+                <Input
+                  id="transfer-amount"
+                  inputMode="decimal"
+                  placeholder="0,00"
+                  value={transferAmount}
+                  onChange={(e) => setTransferAmount(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="transfer-date">Data</Label>
+                <Input id="transfer-date" type="date" value={transferDate} onChange={(e) => setTransferDate(e.target.value)} />
+              </div>
+              <Button onClick={() => transferMutation.mutate()} disabled={!isTransferValid || transferMutation.isPending}>
+                {transferMutation.isPending ? "Registrando..." : "Transferir"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {statementAccount && statement && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Extrato — {statementAccount.name}</CardTitle>
+            <CardDescription>
+              Saldo em {format(parseISO(statement.startDate), "dd/MM/yyyy")}: {formatCurrency(statement.startingBalance)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {statement.entries.length === 0 ? (
+              <p className="text-sm text-gray-500">Nenhuma movimentação</p>
+            ) : (
+              statement.entries.map((entry) => (
+                <div key={`${entry.kind}-${entry.id}`} className="flex items-center justify-between text-sm border-b py-1">
+                  <span className="flex items-center gap-2">
+                    <span className="text-gray-500">{format(parseISO(entry.date), "dd/MM/yyyy")}</span>
+                    {entry.description}
+                    {entry.clearedStatus !== "uncleared" && (
+                      <Badge variant="outline">{entry.clearedStatus === "reconciled" ? "Conciliado" : "Conferido"}</Badge>
+                    )}
+                  </span>
+                  <span className="flex items-center gap-4">
+                    <span className={Number(entry.amount) < 0 ? "text-red-600" : "text-green-600"}>
+                      {formatCurrency(entry.amount)}
+                    </span>
+                    <span className="w-28 text-right text-gray-500">{formatCurrency(entry.balance)}</span>
+                    {(entry.kind === "transfer_in" || entry.kind === "transfer_out") && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-gray-400 hover:text-red-600"
+                        onClick={() => deleteTransferMutation.mutate(entry.id)}
+                        disabled={deleteTransferMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </span>
+                </div>
+              ))
+            )}
+            <p className="text-sm font-medium text-right pt-2">
+              Saldo final: {formatCurrency(statement.endingBalance)}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <ReconciliationDialog
+        target={reconcileAccount && { accountId: reconcileAccount.id, title: reconcileAccount.name }}
+        isOpen={!!reconcileAccount}
+        onClose={() => setReconcileAccount(null)}
+      />
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? "Editar conta" : "Nova conta"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="account-name">Nome</Label>
+              <Input
+                id="account-name"
+                placeholder="Ex: Conta Nubank, Carteira"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Tipo</Label>
+                <Select value={form.type} onValueChange={(type) => setForm({ ...form, type: type as AccountFormState["type"] })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(accountTypeLabels).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="account-bank">Banco</Label>
+                <Input id="account-bank" value={form.bank} onChange={(e) => setForm({ ...form, bank: e.target.value })} />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="account-opening-balance">Saldo inicial (R$)</Label>
+                <Input
+                  id="account-opening-balance"
+                  inputMode="decimal"
+                  value={form.openingBalance}
+                  onChange={(e) => setForm({ ...form, openingBalance: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="account-opening-date">Data do saldo inicial</Label>
+                <Input
+                  id="account-opening-date"
+                  type="date"
+                  value={form.openingDate}
+                  onChange={(e) => setForm({ ...form, openingDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Label htmlFor="account-color">Cor</Label>
+                <Input
+                  id="account-color"
+                  type="color"
+                  className="w-12 h-8 p-1"
+                  value={form.color}
+                  onChange={(e) => setForm({ ...form, color: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="account-active"
+                  checked={form.isActive}
+                  onCheckedChange={(isActive) => setForm({ ...form, isActive })}
+                />
+                <Label htmlFor="account-active">Ativa</Label>
+              </div>
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.name.trim() || !form.openingDate || !isOpeningBalanceValid || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Salvando..." : "Salvar"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
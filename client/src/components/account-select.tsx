@@ -0,0 +1,63 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatCurrency } from "@/lib/financial-utils";
+
+// Conta devolvida por GET /api/accounts, com o saldo de hoje
+export interface AccountWithBalance {
+  id: string;
+  name: string;
+  type: "checking" | "savings" | "wallet" | "digital";
+  bank: string | null;
+  color: string;
+  openingBalance: string;
+  openingDate: string;
+  isActive: boolean;
+  balance: string;
+}
+
+export const accountTypeLabels: Record<AccountWithBalance["type"], string> = {
+  checking: "Conta corrente",
+  savings: "Poupança",
+  wallet: "Carteira",
+  digital: "Conta digital",
+};
+
+// Valor do Select para "sem conta" (o Radix não aceita item com valor vazio)
+const NO_ACCOUNT = "none";
+
+interface AccountSelectProps {
+  id?: string;
+  value?: string | null;
+  onChange: (accountId: string) => void;
+  placeholder?: string;
+}
+
+/**
+ * Picks the account money comes out of / goes into; "" means no account
+ */
+export default function AccountSelect({ id, value, onChange, placeholder = "Selecione a conta" }: AccountSelectProps) {
+  const { data: accountsResponse } = useQuery<{ success: boolean; data: AccountWithBalance[] }>({
+    queryKey: ["/api/accounts"],
+  });
+  const accounts = (accountsResponse?.data || []).filter((account) => account.isActive || account.id === value);
+
+  return (
+    <Select value={value || NO_ACCOUNT} onValueChange={(selected) => onChange(selected === NO_ACCOUNT ? "" : selected)}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_ACCOUNT}>Sem conta</SelectItem>
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: account.color }} />
+              <span>{account.name}</span>
+              <span className="text-xs text-gray-500">{formatCurrency(account.balance)}</span>
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Download, Upload, DatabaseBackup } from "lucide-react";
+
+type RestoreMode = "merge" | "replace";
+
+interface RestoreSummary {
+  mode: RestoreMode;
+  counts: Record<string, { created: number; skipped: number }>;
+  warnings: string[];
+}
+
+const entityLabels: Record<string, string> = {
+  categories: "Categorias",
+  creditCards: "Cartões",
+  accounts: "Contas",
+  accountTransfers: "Transferências entre contas",
+  incomeSources: "Fontes de renda",
+  transactions: "Transações",
+  vacations: "Férias",
+  budgets: "Orçamentos",
+  settings: "Configurações",
+  subscriptions: "Assinaturas",
+  creditCardInvoices: "Faturas",
+  creditCardInvoiceItems: "Itens de faturas",
+  creditCardInvoicePayments: "Pagamentos de faturas",
+  reconciliations: "Conciliações",
+  importProfiles: "Perfis de importação",
+  exchangeRates: "Cotações",
+  rewardPrograms: "Programas de pontos",
+  rewardRedemptions: "Resgates de pontos",
+};
+
+export default function BackupManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [summary, setSummary] = useState<RestoreSummary | null>(null);
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/backup/export", "GET");
+      const filename = /filename="([^"]+)"/.exec(response.headers.get("Content-Disposition") || "")?.[1]
+        || "backup-financeiro.json";
+      return { blob: await response.blob(), filename };
+    },
+    onSuccess: ({ blob, filename }) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao gerar backup",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (backupFile: File) => {
+      let archive: unknown;
+      try {
+        archive = JSON.parse(await backupFile.text());
+      } catch {
+        throw new Error("O arquivo selecionado não é um JSON válido");
+      }
+      const response = await apiRequest("/api/backup/restore", "POST", { archive, mode });
+      return (await response.json()).data as RestoreSummary;
+    },
+    onSuccess: (data) => {
+      // Tudo pode ter mudado: recarregar todas as consultas
+      queryClient.invalidateQueries();
+      setSummary(data);
+      setFile(null);
+      toast({
+        title: "Sucesso",
+        description: "Backup restaurado com sucesso!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao restaurar",
+        description: error.message || "Erro ao restaurar backup",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRestore = () => {
+    if (!file) return;
+    if (mode === "replace") {
+      setConfirmOpen(true);
+    } else {
+      restoreMutation.mutate(file);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DatabaseBackup className="w-5 h-5" />
+          Backup e restauração
+        </CardTitle>
+        <CardDescription>
+          Baixe uma cópia de todos os seus dados (categorias, transações, cartões, faturas, assinaturas e configurações)
+          ou restaure um backup anterior.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Button variant="outline" onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending}>
+          <Download className="w-4 h-4 mr-2" />
+          {exportMutation.isPending ? "Gerando backup..." : "Baixar backup"}
+        </Button>
+
+        <div className="space-y-4 border-t pt-6">
+          <div>
+            <Label htmlFor="backup-file">Arquivo de backup (.json)</Label>
+            <Input
+              id="backup-file"
+              type="file"
+              accept=".json,application/json"
+              onChange={(event) => {
+                setFile(event.target.files?.[0] || null);
+                setSummary(null);
+              }}
+            />
+          </div>
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="space-y-2">
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="merge" id="restore-merge" className="mt-1" />
+              <Label htmlFor="restore-merge" className="font-normal">
+                <span className="font-medium">Mesclar</span> — mantém os dados atuais e adiciona apenas o que ainda não existe
+              </Label>
+            </div>
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="replace" id="restore-replace" className="mt-1" />
+              <Label htmlFor="restore-replace" className="font-normal">
+                <span className="font-medium">Substituir</span> — apaga todos os dados atuais antes de restaurar
+              </Label>
+            </div>
+          </RadioGroup>
+
+          <Button
+            onClick={handleRestore}
+            disabled={!file || restoreMutation.isPending}
+            variant={mode === "replace" ? "destructive" : "default"}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {restoreMutation.isPending ? "Restaurando..." : "Restaurar backup"}
+          </Button>
+
+          {summary && (
+            <div className="bg-green-50 p-4 rounded-lg text-sm text-green-900 space-y-2">
+              <p className="font-medium">Resultado da restauração ({summary.mode === "replace" ? "substituir" : "mesclar"}):</p>
+              <ul className="space-y-1">
+                {Object.entries(summary.counts).map(([entity, count]) => (
+                  <li key={entity}>
+                    • {entityLabels[entity] || entity}: {count.created} restaurado(s)
+                    {count.skipped > 0 && `, ${count.skipped} já existente(s)`}
+                  </li>
+                ))}
+              </ul>
+              {summary.warnings.length > 0 && (
+                <ul className="text-amber-800 space-y-1">
+                  {summary.warnings.map((warning) => (
+                    <li key={warning}>⚠️ {warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Substituir todos os dados?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Todas as suas categorias, transações, cartões, faturas, assinaturas e configurações atuais serão apagadas
+              e trocadas pelo conteúdo do backup. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => file && restoreMutation.mutate(file)}
+            >
+              Substituir dados
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
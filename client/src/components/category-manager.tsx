@@ -45,9 +45,10 @@ export function CategoryManager() {
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const queryClient = useQueryClient();
 
-  const { data: categories = [], isLoading } = useQuery<Category[]>({
+  const { data: categoriesResponse, isLoading } = useQuery<{ success: boolean; data: Category[] }>({
     queryKey: ["/api/categories"],
   });
+  const categories = categoriesResponse?.data || [];
 
   const form = useForm<CategoryFormData>({
     resolver: zodResolver(categoryFormSchema),
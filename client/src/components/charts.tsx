@@ -122,7 +122,7 @@ export default function Charts({ summary, categories, selectedMonth, selectedYea
         try {
           const response = await fetch(`/api/financial-summary?month=${month + 1}&year=${year}`);
           if (response.ok) {
-            const monthData = await response.json();
+            const { data: monthData } = await response.json();
             const income = monthData.totalIncome || 0;
             const expense = monthData.totalExpenses || 0;
             incomeData.push(income);
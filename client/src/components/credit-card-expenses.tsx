@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
@@ -11,10 +11,12 @@ import { Badge } from "@/components/ui/badge";
 import { Trash2, Edit, CreditCard as CreditCardIcon } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { insertTransactionSchema, type Transaction, type Category, type CreditCard } from "@shared/schema";
+import { insertTransactionSchema, type Transaction, type Category, type CreditCard, type ExchangeRate } from "@shared/schema";
 import { z } from "zod";
 import { format, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { formatCurrency } from "@/lib/financial-utils";
+import { Money } from "@shared/money";
 
 const creditCardExpenseSchema = insertTransactionSchema.extend({
   categoryId: z.string().min(1, "Categoria é obrigatória"),
@@ -31,9 +33,12 @@ const creditCardExpenseSchema = insertTransactionSchema.extend({
 
 type CreditCardExpenseFormData = z.infer<typeof creditCardExpenseSchema>;
 
+const CURRENCIES = ["USD", "EUR", "GBP", "ARS", "CAD", "JPY", "CHF"];
+
 function CreditCardExpenses() {
   const queryClient = useQueryClient();
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [isInternational, setIsInternational] = useState(false);
 
   const form = useForm<CreditCardExpenseFormData>({
     resolver: zodResolver(creditCardExpenseSchema),
@@ -44,9 +49,10 @@ function CreditCardExpenses() {
   });
 
   // Fetch data
-  const { data: categories = [] } = useQuery<Category[]>({
+  const { data: categoriesResponse } = useQuery<{ success: boolean; data: Category[] }>({
     queryKey: ["/api/categories"],
   });
+  const categories = categoriesResponse?.data || [];
 
   const { data: creditCardsResponse } = useQuery<{ success: boolean; data: CreditCard[] }>({
     queryKey: ["/api/credit-cards"],
@@ -56,6 +62,24 @@ function CreditCardExpenses() {
     queryKey: ["/api/transactions"],
   });
 
+  // Compra internacional: o valor em reais sai do valor original pela cotação informada ou pela da tabela
+  const originalCurrency = form.watch("originalCurrency");
+  const originalAmount = form.watch("originalAmount");
+  const exchangeRate = form.watch("exchangeRate");
+  const purchaseDate = form.watch("date");
+  const { data: tableRateResponse, error: tableRateError } = useQuery<{ success: boolean; data: ExchangeRate }>({
+    queryKey: [`/api/exchange-rates/${originalCurrency}/${purchaseDate}`],
+    enabled: isInternational && !!originalCurrency && !!purchaseDate,
+    retry: false,
+  });
+  const effectiveRate = exchangeRate || tableRateResponse?.data.rate;
+
+  useEffect(() => {
+    if (isInternational && originalAmount && effectiveRate) {
+      form.setValue("amount", Money.from(originalAmount).times(Number(effectiveRate)).toString());
+    }
+  }, [isInternational, originalAmount, effectiveRate]);
+
   const creditCards = creditCardsResponse?.data || [];
   const allTransactions = transactionsResponse?.data || [];
 
@@ -84,6 +108,7 @@ function CreditCardExpenses() {
         date: new Date().toISOString().split('T')[0],
         installments: 1,
       });
+      setIsInternational(false);
       toast({
         title: "Sucesso",
         description: "Despesa no cartão de crédito cadastrada com sucesso!",
@@ -127,14 +152,11 @@ function CreditCardExpenses() {
   });
 
   const onSubmit = (data: CreditCardExpenseFormData) => {
-    createCreditCardExpenseMutation.mutate(data);
-  };
-
-  const formatCurrency = (amount: string) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(parseFloat(amount));
+    if (!isInternational) {
+      createCreditCardExpenseMutation.mutate({ ...data, originalCurrency: null, originalAmount: null, exchangeRate: null });
+      return;
+    }
+    createCreditCardExpenseMutation.mutate({ ...data, installments: 1, exchangeRate: data.exchangeRate || null });
   };
 
   const formatDate = (dateString: string) => {
@@ -251,6 +273,75 @@ function CreditCardExpenses() {
               )}
             </div>
 
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={isInternational}
+                onChange={(e) => {
+                  setIsInternational(e.target.checked);
+                  form.setValue("originalCurrency", e.target.checked ? "USD" : null);
+                  form.setValue("installments", 1);
+                }}
+              />
+              Compra internacional (em moeda estrangeira)
+            </label>
+
+            {isInternational && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="originalCurrency">Moeda</Label>
+                  <Select
+                    value={originalCurrency || undefined}
+                    onValueChange={(value) => form.setValue("originalCurrency", value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Moeda" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCIES.map((currency) => (
+                        <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="originalAmount">Valor na moeda</Label>
+                  <Input
+                    id="originalAmount"
+                    type="number"
+                    step="0.01"
+                    {...form.register("originalAmount")}
+                    placeholder="0.00"
+                  />
+                  {form.formState.errors.originalAmount && (
+                    <p className="text-sm text-red-600 mt-1">{form.formState.errors.originalAmount.message}</p>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="exchangeRate">Cotação (R$)</Label>
+                  <Input
+                    id="exchangeRate"
+                    type="number"
+                    step="0.000001"
+                    {...form.register("exchangeRate")}
+                    placeholder={tableRateResponse?.data.rate ?? "Informe a cotação"}
+                  />
+                  <p className="text-xs text-gray-600 mt-1">
+                    {tableRateResponse
+                      ? `Tabela: ${tableRateResponse.data.rate} em ${formatDate(tableRateResponse.data.date)}`
+                      : tableRateError
+                        ? "Sem cotação cadastrada para a data: informe a da compra"
+                        : "Em branco, usa a cotação da tabela"}
+                  </p>
+                  {form.formState.errors.exchangeRate && (
+                    <p className="text-sm text-red-600 mt-1">{form.formState.errors.exchangeRate.message}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div>
                 <Label htmlFor="amount">Valor (R$)</Label>
@@ -258,9 +349,13 @@ function CreditCardExpenses() {
                   id="amount"
                   type="number"
                   step="0.01"
+                  readOnly={isInternational}
                   {...form.register("amount")}
                   placeholder="0,00"
                 />
+                {isInternational && (
+                  <p className="text-xs text-gray-600 mt-1">Sem o IOF, lançado na fatura</p>
+                )}
                 {form.formState.errors.amount && (
                   <p className="text-sm text-red-600 mt-1">{form.formState.errors.amount.message}</p>
                 )}
@@ -283,6 +378,7 @@ function CreditCardExpenses() {
                 <Select
                   value={form.watch("installments")?.toString()}
                   onValueChange={(value) => form.setValue("installments", parseInt(value))}
+                  disabled={isInternational}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="1x" />
@@ -290,7 +386,7 @@ function CreditCardExpenses() {
                   <SelectContent>
                     {Array.from({ length: 24 }, (_, i) => i + 1).map((num) => (
                       <SelectItem key={num} value={num.toString()}>
-                        {num === 1 ? "À Vista" : `${num}x${num > 1 ? ` (${formatCurrency((parseFloat(form.watch("amount") || "0") / num).toString())} cada)` : ""}`}
+                        {num === 1 ? "À Vista" : `${num}x${num > 1 ? ` (${formatCurrency(Money.from(parseFloat(form.watch("amount")) || 0).allocate(num)[0])} cada)` : ""}`}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -346,6 +442,14 @@ function CreditCardExpenses() {
                           <span className="flex items-center gap-1">
                             {brandInfo.icon} {card?.name || "Cartão"}
                           </span>
+                          {transaction.originalCurrency && (
+                            <>
+                              <span className="mx-2">•</span>
+                              <span>
+                                {transaction.originalCurrency} {transaction.originalAmount} × {Number(transaction.exchangeRate)}
+                              </span>
+                            </>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/financial-utils";
+import { Money } from "@shared/money";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
@@ -14,6 +16,9 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { CalendarIcon, CreditCard, DollarSignIcon, CheckCircleIcon, XCircleIcon, ClockIcon } from "lucide-react";
 import { format, parseISO, addMonths, subMonths, startOfMonth, endOfMonth } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import CreditCardPurchaseCalendar from "./credit-card-purchase-calendar";
+import AccountSelect from "./account-select";
+import ReconciliationDialog from "./reconciliation-dialog";
 
 interface CreditCard {
   id: string;
@@ -40,19 +45,99 @@ interface Transaction {
   installmentNumber?: number;
 }
 
+// Linhas da fatura: compras e estornos (congelados no fechamento), ajustes de alterações feitas depois do fechamento
+// o saldo não pago da fatura anterior com seus encargos (rotativo) e as parcelas de faturas parceladas
+type InvoiceItemKind = 'purchase' | 'refund' | 'adjustment' | 'balance' | 'interest' | 'iof' | 'late_fee' | 'late_interest' | 'installment'
+  | 'international_iof' | 'fx_adjustment' | 'annual_fee' | 'annual_fee_waiver';
+
+interface InvoiceItem {
+  id: string;
+  transactionId?: string | null;
+  // Cartão (titular, virtual ou adicional) que fez a compra
+  creditCardId?: string | null;
+  kind: InvoiceItemKind;
+  description: string;
+  amount: string;
+  date: string;
+  installmentNumber?: number | null;
+  installments?: number | null;
+}
+
 interface CreditCardInvoice {
   id: string;
   creditCardId: string;
+  // Fechamento identifica a fatura; o vencimento é o dia de vencimento do cartão depois dele
+  closingDate: string;
   dueDate: string;
   totalAmount: string;
   paidAmount: string;
-  status: 'pending' | 'paid' | 'partial' | 'overdue';
+  status: 'open' | 'closed' | 'paid' | 'partial' | 'overdue';
+  carriedAmount?: string;
+  carriedToInvoiceId?: string | null;
+  items: InvoiceItem[];
+  minimumPayment: string;
+  // Quanto vai para a próxima fatura pagando só o mínimo no vencimento
+  minimumPaymentCost: {
+    balance: string;
+    interest: string;
+    iof: string;
+    lateFee: string;
+    lateInterest: string;
+    total: string;
+  } | null;
   isInstallment?: boolean;
   installmentCount?: number;
   installmentNumber?: number;
   parentInvoiceId?: string;
+  cardBreakdown?: CardSpending[];
+}
+
+// Gastos de cada cartão que entra nesta fatura: o titular e os seus cartões virtuais e adicionais
+interface CardSpending {
+  creditCardId: string;
+  name: string;
+  cardType: 'main' | 'virtual' | 'additional';
+  holderName: string | null;
+  total: string;
+}
+
+const cardTypeLabels: Record<CardSpending['cardType'], string> = {
+  main: "Titular",
+  virtual: "Virtual",
+  additional: "Adicional",
+};
+
+const itemKindLabels: Partial<Record<InvoiceItemKind, string>> = {
+  refund: "Estorno",
+  adjustment: "Ajuste",
+  balance: "Rotativo",
+  interest: "Juros",
+  iof: "IOF",
+  late_fee: "Multa",
+  late_interest: "Mora",
+  installment: "Parcelamento",
+  international_iof: "IOF internacional",
+  fx_adjustment: "Variação cambial",
+  annual_fee: "Anuidade",
+  annual_fee_waiver: "Isenção de anuidade",
+};
+
+// Simulação do parcelamento devolvida pelo servidor
+interface InstallmentPlan {
+  balance: string;
+  installments: number;
+  interestRate: number;
+  iof: string;
+  installmentAmount: string;
+  totalAmount: string;
+  totalCost: string;
+  monthlyCet: number;
+  annualCet: number;
+  schedule: { installmentNumber: number; closingDate: string; dueDate: string; amount: string }[];
 }
 
+const installmentOptions = Array.from({ length: 23 }, (_, i) => String(i + 2));
+
 interface CreditCardInvoiceModalProps {
   creditCard: CreditCard | null;
   isOpen: boolean;
@@ -65,6 +150,11 @@ export default function CreditCardInvoiceModal({ creditCard, isOpen, onClose }:
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedInvoice, setSelectedInvoice] = useState<CreditCardInvoice | null>(null);
   const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentAccountId, setPaymentAccountId] = useState("");
+  const [isInstallmentPlanOpen, setIsInstallmentPlanOpen] = useState(false);
+  const [planInstallments, setPlanInstallments] = useState("6");
+  const [planInterestRate, setPlanInterestRate] = useState("");
+  const [isReconciliationOpen, setIsReconciliationOpen] = useState(false);
 
   // Generate invoice period based on card's closing day
   const getInvoicePeriod = (date: Date) => {
@@ -119,7 +209,7 @@ export default function CreditCardInvoiceModal({ creditCard, isOpen, onClose }:
   console.log(`  - Transações de 06/08/2025 até 05/09/2025`);
 
   // Fetch transactions for current invoice period - CORRIGIDO URL
-  const { data: transactions = [], refetch: refetchTransactions, isLoading, error } = useQuery({
+  const { data: transactionsResponse, refetch: refetchTransactions, isLoading, error } = useQuery<{ success: boolean; data: Transaction[] }>({
     queryKey: [`/api/transactions/credit-card/${creditCard?.id}/${format(startDate, 'yyyy-MM-dd')}/${format(endDate, 'yyyy-MM-dd')}`],
     enabled: !!creditCard && isOpen,
     retry: 3,
@@ -127,6 +217,7 @@ export default function CreditCardInvoiceModal({ creditCard, isOpen, onClose }:
     // CORREÇÃO: Forçar refetch quando mudar o período
     refetchInterval: false,
   });
+  const transactions = transactionsResponse?.data || [];
 
   // CORREÇÃO: Atualização automática APENAS quando a fatura for aberta (não a cada mudança)
   useEffect(() => {
@@ -174,10 +265,11 @@ export default function CreditCardInvoiceModal({ creditCard, isOpen, onClose }:
   const subscriptions: any[] = [];
 
   // Fetch invoice data - CORRIGIDO URL
-  const { data: invoice = null } = useQuery<CreditCardInvoice | null>({
+  const { data: invoiceResponse } = useQuery<{ success: boolean; data: CreditCardInvoice }>({
     queryKey: [`/api/credit-card-invoices/${creditCard?.id}/${format(endDate, 'yyyy-MM-dd')}`],
     enabled: !!creditCard && isOpen,
   });
+  const invoice = invoiceResponse?.data || null;
 
   // As transações já vêm filtradas do backend para o período correto
   const creditCardTransactions = Array.isArray(transactions) ? transactions : [];
@@ -185,44 +277,59 @@ export default function CreditCardInvoiceModal({ creditCard, isOpen, onClose }:
   // ⚡️ USAR DIRETAMENTE AS ASSINATURAS DO BACKEND - JÁ FILTRADAS
   const creditCardSubscriptions = Array.isArray(subscriptions) ? subscriptions : [];
 
-  // ⚡️ TOTAL APENAS DAS TRANSAÇÕES - ASSINATURAS JÁ VÊM INCLUÍDAS
-  const totalInvoiceAmount = creditCardTransactions.reduce((sum: number, t: Transaction) =>
-    sum + parseFloat(t.amount), 0
-  );
-
-  // CORREÇÃO: Lógica de status baseada no período de fechamento
-  const getInvoiceStatus = () => {
-    const today = new Date();
-    const closingDate = new Date(endDate);
-    const dueDate = new Date(closingDate);
-    dueDate.setDate(creditCard?.dueDay || 10);
-
-    const paidAmount = invoice?.paidAmount ? parseFloat(invoice.paidAmount) : 0;
-    const isInvoiceClosed = today > closingDate;
-
-    // Se a fatura ainda está em aberto, status sempre "ABERTA" independente do pagamento
-    if (!isInvoiceClosed) {
-      return { status: "ABERTA", color: "bg-green-500 text-white" };
-    }
-
-    // Fatura já fechada - pode ter status baseado no pagamento
-    if (paidAmount >= totalInvoiceAmount && totalInvoiceAmount > 0) {
-      return { status: "PAGO", color: "bg-blue-500 text-white" };
-    } else if (paidAmount > 0 && paidAmount < totalInvoiceAmount) {
-      return { status: "PARCIAL", color: "bg-yellow-500 text-white" };
-    } else if (today > dueDate && totalInvoiceAmount > 0) {
-      return { status: "VENCIDA", color: "bg-red-500 text-white" };
-    } else {
-      return { status: "FECHADA", color: "bg-gray-500 text-white" };
-    }
+  // Total vem da fatura (congelado depois do fechamento, com ajustes); as transações só enquanto ela carrega
+  const totalInvoiceAmount = invoice
+    ? Money.from(invoice.totalAmount)
+    : Money.sum(creditCardTransactions.map((t: Transaction) => t.amount));
+  const invoiceItems: InvoiceItem[] = invoice?.items || creditCardTransactions.map((t: Transaction) => ({
+    id: t.id,
+    transactionId: t.id,
+    kind: 'purchase' as const,
+    description: t.description,
+    amount: t.amount,
+    date: t.date,
+    installmentNumber: t.installments && t.installments > 1 ? t.installmentNumber : null,
+    installments: t.installments && t.installments > 1 ? t.installments : null,
+  }));
+  const cardBreakdown = invoice?.cardBreakdown || [];
+  const cardNames = new Map(cardBreakdown.map((spending) => [spending.creditCardId, spending.name]));
+  const paidInvoiceAmount = Money.from(invoice?.paidAmount);
+  const remainingInvoiceAmount = totalInvoiceAmount.minus(paidInvoiceAmount).minus(invoice?.carriedAmount);
+  const minimumPaymentAmount = Money.from(invoice?.minimumPayment);
+  const minimumPaymentCost = invoice?.minimumPaymentCost;
+
+  // Status controlado pelo servidor (aberta → fechada → paga/parcial/vencida)
+  const statusLabels: Record<CreditCardInvoice['status'], { status: string; color: string }> = {
+    open: { status: "ABERTA", color: "bg-green-500 text-white" },
+    closed: { status: "FECHADA", color: "bg-gray-500 text-white" },
+    paid: { status: "PAGO", color: "bg-blue-500 text-white" },
+    partial: { status: "PARCIAL", color: "bg-yellow-500 text-white" },
+    overdue: { status: "VENCIDA", color: "bg-red-500 text-white" },
   };
+  // Parcelamento: só o saldo de faturas fechadas que não foi para o rotativo
+  const canSplitInvoice = !!invoice && ['closed', 'partial', 'overdue'].includes(invoice.status)
+    && !invoice.carriedToInvoiceId && remainingInvoiceAmount.isPositive();
+  const planRate = planInterestRate.replace(',', '.');
+  const isPlanRateValid = /^\d{1,2}(\.\d{1,4})?$/.test(planRate);
+
+  const { data: planResponse, error: planError, isFetching: isSimulatingPlan } = useQuery<{ success: boolean; data: InstallmentPlan }>({
+    queryKey: [`/api/credit-card-invoices/${invoice?.id}/installment-plan?installments=${planInstallments}&interestRate=${planRate}`],
+    enabled: isInstallmentPlanOpen && canSplitInvoice && isPlanRateValid,
+    staleTime: 0,
+  });
+  const installmentPlan = planResponse?.data;
+
+  const getInvoiceStatus = () => statusLabels[invoice?.status || 'open'];
 
   const invoiceStatus = getInvoiceStatus();
 
   // Payment mutation
   const payInvoiceMutation = useMutation({
-    mutationFn: async (data: { invoiceId: string; amount: string }) => {
-      const response = await apiRequest(`/api/credit-card-invoices/${data.invoiceId}/pay`, "PUT", { amount: data.amount });
+    mutationFn: async (data: { invoiceId: string; amount: string; accountId: string | null }) => {
+      const response = await apiRequest(`/api/credit-card-invoices/${data.invoiceId}/pay`, "PUT", {
+        amount: data.amount,
+        accountId: data.accountId,
+      });
       const responseData = await response.json();
       
       if (!responseData.success) {
@@ -242,6 +349,7 @@ export default function CreditCardInvoiceModal({ creditCard, isOpen, onClose }:
       queryClient.invalidateQueries({ queryKey: ["/api/credit-cards"] });
       queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       
       // Invalidar especificamente a query desta fatura
       if (creditCard?.id) {
@@ -264,12 +372,44 @@ export default function CreditCardInvoiceModal({ creditCard, isOpen, onClose }:
     },
   });
 
+  const installmentPlanMutation = useMutation({
+    mutationFn: async (data: { invoiceId: string; installments: number; interestRate: string }) => {
+      const response = await apiRequest(`/api/credit-card-invoices/${data.invoiceId}/installment-plan`, "POST", {
+        installments: data.installments,
+        interestRate: data.interestRate,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Fatura parcelada",
+        description: data.message || "As parcelas foram lançadas nas próximas faturas.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/credit-card-invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credit-cards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      if (creditCard?.id) {
+        queryClient.invalidateQueries({
+          queryKey: [`/api/credit-card-invoices/${creditCard.id}/${format(endDate, 'yyyy-MM-dd')}`]
+        });
+      }
+      setIsInstallmentPlanOpen(false);
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Erro ao parcelar a fatura. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handlePayment = () => {
     if (!invoice || !paymentAmount) return;
 
-    const amount = parseFloat(paymentAmount);
+    const amount = Money.from(paymentAmount);
 
-    if (amount <= 0) {
+    if (!amount.isPositive()) {
       toast({
         title: "Erro",
         description: "Valor do pagamento deve ser maior que zero.",
@@ -280,7 +420,8 @@ export default function CreditCardInvoiceModal({ creditCard, isOpen, onClose }:
 
     payInvoiceMutation.mutate({
       invoiceId: invoice.id,
-      amount: paymentAmount
+      amount: paymentAmount,
+      accountId: paymentAccountId || null
     });
   };
 
@@ -368,7 +509,9 @@ export default function CreditCardInvoiceModal({ creditCard, isOpen, onClose }:
                 {format(startDate, "dd 'de' MMMM", { locale: ptBR })} - {format(endDate, "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
               </h3>
               <p className="text-xs text-gray-600">
-                Vencimento: {format(addMonths(endDate, 0).setDate(creditCard.dueDay), "dd 'de' MMMM", { locale: ptBR })}
+                Vencimento: {invoice
+                  ? format(parseISO(invoice.dueDate), "dd 'de' MMMM", { locale: ptBR })
+                  : format(addMonths(endDate, 0).setDate(creditCard.dueDay), "dd 'de' MMMM", { locale: ptBR })}
               </p>
               {/* Atualização automática - sem botão manual */}
             </div>
@@ -394,59 +537,95 @@ export default function CreditCardInvoiceModal({ creditCard, isOpen, onClose }:
                 <div className="text-center">
                   <p className="text-sm text-gray-600">Valor Total</p>
                   <p className="text-2xl font-bold text-red-600">
-                    R$ {totalInvoiceAmount.toFixed(2)}
+                    {formatCurrency(totalInvoiceAmount)}
                   </p>
                 </div>
                 <div className="text-center">
                   <p className="text-sm text-gray-600">Valor Pago</p>
                   <p className="text-2xl font-bold text-green-600">
-                    R$ {invoice ? parseFloat(invoice.paidAmount).toFixed(2) : "0.00"}
+                    {formatCurrency(paidInvoiceAmount)}
                   </p>
                 </div>
                 <div className="text-center">
                   <p className="text-sm text-gray-600">Saldo Restante</p>
                   <p className="text-2xl font-bold text-orange-600">
-                    R$ {(totalInvoiceAmount - (invoice ? parseFloat(invoice.paidAmount) : 0)).toFixed(2)}
+                    {formatCurrency(remainingInvoiceAmount)}
                   </p>
                 </div>
               </div>
             </CardContent>
           </Card>
 
+          {cardBreakdown.length > 1 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Gastos por cartão</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {cardBreakdown.map((spending) => (
+                  <div key={spending.creditCardId} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2">
+                      {spending.name}
+                      <Badge variant="secondary">{cardTypeLabels[spending.cardType]}</Badge>
+                      {spending.holderName && <span className="text-gray-500">{spending.holderName}</span>}
+                    </span>
+                    <span className="font-medium">{formatCurrency(spending.total)}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           <Tabs defaultValue="transactions" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="transactions">Transações</TabsTrigger>
               <TabsTrigger value="payment">Pagamento</TabsTrigger>
+              <TabsTrigger value="calendar">Quando comprar</TabsTrigger>
             </TabsList>
 
             <TabsContent value="transactions" className="space-y-4">
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
                   <CardTitle>Transações da Fatura</CardTitle>
+                  {/* Conferência com o extrato do banco: só depois do fechamento */}
+                  {invoice && invoice.status !== 'open' && (
+                    <Button variant="outline" size="sm" onClick={() => setIsReconciliationOpen(true)}>
+                      Conciliar com o extrato
+                    </Button>
+                  )}
                 </CardHeader>
                 <CardContent>
-                  {creditCardTransactions.length === 0 ? (
+                  {invoiceItems.length === 0 ? (
                     <p className="text-center text-gray-500 py-8">
                       Nenhuma transação encontrada para este período.
                     </p>
                   ) : (
                     <div className="space-y-2">
-                      {/* Transações regulares */}
-                      {creditCardTransactions.map((transaction: Transaction) => (
-                        <div key={transaction.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      {invoiceItems.map((item) => (
+                        <div key={item.id} className="flex items-center justify-between p-3 border rounded-lg">
                           <div>
-                            <p className="font-medium">{transaction.description}</p>
+                            <p className="font-medium">{item.description}</p>
                             <p className="text-sm text-gray-600">
-                              {format(parseISO(transaction.date), "dd 'de' MMMM", { locale: ptBR })}
-                              {transaction.installments && transaction.installments > 1 && (
+                              {format(parseISO(item.date), "dd 'de' MMMM", { locale: ptBR })}
+                              {item.installments && item.installments > 1 && (
                                 <span className="ml-2 text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
-                                  {transaction.installmentNumber || 1}/{transaction.installments}
+                                  {item.installmentNumber || 1}/{item.installments}
+                                </span>
+                              )}
+                              {cardBreakdown.length > 1 && item.creditCardId && cardNames.get(item.creditCardId) && (
+                                <span className="ml-2 text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                                  {cardNames.get(item.creditCardId)}
+                                </span>
+                              )}
+                              {itemKindLabels[item.kind] && (
+                                <span className="ml-2 text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded">
+                                  {itemKindLabels[item.kind]}
                                 </span>
                               )}
                             </p>
                           </div>
-                          <p className="font-bold text-red-600">
-                            R$ {parseFloat(transaction.amount).toFixed(2)}
+                          <p className={`font-bold ${Money.from(item.amount).isNegative() ? 'text-green-600' : 'text-red-600'}`}>
+                            {formatCurrency(item.amount)}
                           </p>
                         </div>
                       ))}
@@ -476,12 +655,20 @@ export default function CreditCardInvoiceModal({ creditCard, isOpen, onClose }:
                     />
                   </div>
 
+                  <div>
+                    <Label htmlFor="paymentAccount">Pago com a conta</Label>
+                    <AccountSelect
+                      id="paymentAccount"
+                      value={paymentAccountId}
+                      onChange={setPaymentAccountId}
+                    />
+                  </div>
+
 
                   <div className="flex gap-2">
                     <Button
                       onClick={() => {
-                        const remainingAmount = totalInvoiceAmount - (invoice ? parseFloat(invoice.paidAmount) : 0);
-                        setPaymentAmount(remainingAmount.toString());
+                        setPaymentAmount(remainingInvoiceAmount.toString());
                       }}
                       variant="outline"
                       className="flex-1"
@@ -489,16 +676,28 @@ export default function CreditCardInvoiceModal({ creditCard, isOpen, onClose }:
                       Pagamento Total
                     </Button>
                     <Button
-                      onClick={() => setPaymentAmount((totalInvoiceAmount * 0.1).toFixed(2))}
+                      onClick={() => setPaymentAmount(minimumPaymentAmount.toString())}
                       variant="outline"
                       className="flex-1"
+                      disabled={!minimumPaymentAmount.isPositive()}
                     >
-                      Pagamento Mínimo (10%)
+                      Pagamento Mínimo ({formatCurrency(minimumPaymentAmount)})
                     </Button>
                   </div>
 
+                  {/* Custo de pagar só o mínimo: o restante entra no rotativo com juros e IOF */}
+                  {minimumPaymentCost && (
+                    <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                      <p className="text-sm text-amber-800">
+                        <strong>Pagando só o mínimo:</strong> {formatCurrency(minimumPaymentCost.balance)} vão para o rotativo
+                        e a próxima fatura traz {formatCurrency(minimumPaymentCost.total)} por eles
+                        (juros {formatCurrency(minimumPaymentCost.interest)} + IOF {formatCurrency(minimumPaymentCost.iof)}).
+                      </p>
+                    </div>
+                  )}
+
                   {/* Informação sobre pagamento total */}
-                  {paymentAmount && parseFloat(paymentAmount) >= (totalInvoiceAmount - (invoice ? parseFloat(invoice.paidAmount) : 0)) && (
+                  {paymentAmount && parseFloat(paymentAmount) >= remainingInvoiceAmount.toNumber() && (
                     <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
                       <p className="text-sm text-blue-800">
                         <strong>💡 Pagamento Total:</strong> Após quitar esta fatura, o limite será liberado e automaticamente reservado para as assinaturas do próximo mês.
@@ -513,11 +712,139 @@ export default function CreditCardInvoiceModal({ creditCard, isOpen, onClose }:
                   >
                     {payInvoiceMutation.isPending ? "Processando..." : "Registrar Pagamento"}
                   </Button>
+
+                  {canSplitInvoice && (
+                    <Button variant="outline" className="w-full" onClick={() => setIsInstallmentPlanOpen(true)}>
+                      Parcelar Fatura ({formatCurrency(remainingInvoiceAmount)})
+                    </Button>
+                  )}
+
+                  {invoice?.isInstallment && (
+                    <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                      <p className="text-sm text-blue-800">
+                        <strong>Fatura parcelada:</strong> o saldo de {formatCurrency(invoice.carriedAmount)} foi dividido
+                        em {invoice.installmentCount}x cobradas nas próximas faturas.
+                      </p>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="calendar" className="space-y-4">
+              <CreditCardPurchaseCalendar creditCardId={creditCard.id} />
+            </TabsContent>
           </Tabs>
         </div>
+
+        {/* Parcelamento da fatura: simulação com IOF e CET antes de confirmar */}
+        <Dialog open={isInstallmentPlanOpen} onOpenChange={setIsInstallmentPlanOpen}>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Parcelar Fatura</DialogTitle>
+              <DialogDescription>
+                O saldo de {formatCurrency(remainingInvoiceAmount)} é dividido em parcelas fixas cobradas nas próximas faturas
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="planInstallments">Parcelas</Label>
+                  <Select value={planInstallments} onValueChange={setPlanInstallments}>
+                    <SelectTrigger id="planInstallments">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {installmentOptions.map((option) => (
+                        <SelectItem key={option} value={option}>{option}x</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="planInterestRate">Juros (% a.m.)</Label>
+                  <Input
+                    id="planInterestRate"
+                    inputMode="decimal"
+                    placeholder="Ex.: 4,99"
+                    value={planInterestRate}
+                    onChange={(e) => setPlanInterestRate(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              {!isPlanRateValid && planInterestRate && (
+                <p className="text-sm text-red-600">Informe a taxa de juros mensal, por exemplo 4,99.</p>
+              )}
+              {planError && (
+                <p className="text-sm text-red-600">Não foi possível simular o parcelamento desta fatura.</p>
+              )}
+              {isSimulatingPlan && <p className="text-sm text-gray-600">Simulando...</p>}
+
+              {installmentPlan && isPlanRateValid && (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    <div className="p-3 border rounded-lg">
+                      <p className="text-gray-600">Parcela</p>
+                      <p className="text-lg font-bold">{installmentPlan.installments}x {formatCurrency(installmentPlan.installmentAmount)}</p>
+                    </div>
+                    <div className="p-3 border rounded-lg">
+                      <p className="text-gray-600">Total a pagar</p>
+                      <p className="text-lg font-bold">{formatCurrency(installmentPlan.totalAmount)}</p>
+                    </div>
+                    <div className="p-3 border rounded-lg">
+                      <p className="text-gray-600">Juros + IOF</p>
+                      <p className="font-semibold text-red-600">
+                        {formatCurrency(installmentPlan.totalCost)} (IOF {formatCurrency(installmentPlan.iof)})
+                      </p>
+                    </div>
+                    <div className="p-3 border rounded-lg">
+                      <p className="text-gray-600">CET</p>
+                      <p className="font-semibold">
+                        {installmentPlan.monthlyCet.toFixed(2)}% a.m. / {installmentPlan.annualCet.toFixed(2)}% a.a.
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    {installmentPlan.schedule.map((entry) => (
+                      <div key={entry.installmentNumber} className="flex justify-between text-sm border-b py-1">
+                        <span>
+                          {entry.installmentNumber}/{installmentPlan.installments} · vence {format(parseISO(entry.dueDate), 'dd/MM/yyyy')}
+                        </span>
+                        <span>{formatCurrency(entry.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={() => setIsInstallmentPlanOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button
+                  className="flex-1"
+                  disabled={!invoice || !installmentPlan || !isPlanRateValid || installmentPlanMutation.isPending}
+                  onClick={() => invoice && installmentPlanMutation.mutate({
+                    invoiceId: invoice.id,
+                    installments: Number(planInstallments),
+                    interestRate: planRate,
+                  })}
+                >
+                  {installmentPlanMutation.isPending ? "Parcelando..." : "Confirmar Parcelamento"}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <ReconciliationDialog
+          target={invoice ? { invoiceId: invoice.id, title: `${creditCard?.name ?? "Cartão"} — fatura de ${format(parseISO(invoice.closingDate), "dd/MM/yyyy")}` } : null}
+          isOpen={isReconciliationOpen}
+          onClose={() => setIsReconciliationOpen(false)}
+        />
       </DialogContent>
     </Dialog>
   );
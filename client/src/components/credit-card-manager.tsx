@@ -14,24 +14,107 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Plus, CreditCard, Trash2, FileText, Edit } from "lucide-react";
+import { Plus, CreditCard, Trash2, FileText, Edit, Gift } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import CreditCardInvoiceModal from "./credit-card-invoice-modal";
+import RewardProgramDialog, { formatRewardAmount, type RewardSummary } from "./reward-program-dialog";
+import { formatCurrency } from "@/lib/financial-utils";
+import { Money } from "@shared/money";
+import { format, parseISO } from "date-fns";
+
+const percentageField = z.string().regex(/^\d{1,3}([.,]\d{1,4})?$/, "Percentual inválido");
 
 // Form schema para cartões de crédito
 const creditCardFormSchema = z.object({
   name: z.string().min(1, "Nome é obrigatório"),
   brand: z.string().min(1, "Bandeira é obrigatória"),
   bank: z.string().min(1, "Banco é obrigatório"),
-  limit: z.string().min(1, "Limite é obrigatório"),
+  // Cartões virtuais e adicionais usam o limite, o ciclo e os encargos do titular
+  cardType: z.enum(["main", "virtual", "additional"]),
+  parentCardId: z.string(),
+  holderName: z.string().optional(),
+  limit: z.string(),
   color: z.string().min(1, "Cor é obrigatória"),
   closingDay: z.coerce.number().min(1).max(31),
   dueDay: z.coerce.number().min(1).max(31),
   isBlocked: z.boolean().optional(),
+  // Encargos do rotativo (%)
+  revolvingInterestRate: percentageField,
+  minimumPaymentRate: percentageField,
+  iofDailyRate: percentageField,
+  iofFixedRate: percentageField,
+  lateFeeRate: percentageField,
+  lateInterestRate: percentageField,
+  // Compras internacionais
+  internationalIofRate: percentageField,
+  exchangeRateRule: z.enum(["purchase_date", "closing_date"]),
+  // Anuidade
+  annualFeeAmount: z.string().regex(/^\d*([.,]\d{1,2})?$/, "Valor inválido"),
+  annualFeeInstallments: z.coerce.number().min(1).max(12),
+  annualFeeWaiverThreshold: z.string().regex(/^\d*([.,]\d{1,2})?$/, "Valor inválido"),
+  annualFeeStartDate: z.string(),
+}).superRefine((data, ctx) => {
+  if (data.cardType === "main" && !data.limit) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["limit"], message: "Limite é obrigatório" });
+  }
+  if (Number(data.annualFeeAmount.replace(',', '.')) > 0 && !data.annualFeeStartDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["annualFeeStartDate"], message: "Informe quando a anuidade começa" });
+  }
+  if (data.cardType !== "main" && !data.parentCardId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["parentCardId"], message: "Escolha o cartão titular" });
+  }
 });
 
+const cardTypeLabels: Record<CreditCardFormData["cardType"], string> = {
+  main: "Titular",
+  virtual: "Virtual",
+  additional: "Adicional",
+};
+
+// Valores padrão dos encargos (IOF, multa e mora seguem os limites usuais no Brasil)
+const defaultChargeRates = {
+  revolvingInterestRate: "0",
+  minimumPaymentRate: "15",
+  iofDailyRate: "0.0082",
+  iofFixedRate: "0.38",
+  lateFeeRate: "2",
+  lateInterestRate: "1",
+};
+
+const chargeRateFields: Array<{ name: keyof typeof defaultChargeRates; label: string }> = [
+  { name: "revolvingInterestRate", label: "Juros do rotativo (% a.m.)" },
+  { name: "minimumPaymentRate", label: "Pagamento mínimo (%)" },
+  { name: "iofDailyRate", label: "IOF diário (%)" },
+  { name: "iofFixedRate", label: "IOF fixo (%)" },
+  { name: "lateFeeRate", label: "Multa por atraso (%)" },
+  { name: "lateInterestRate", label: "Juros de mora (% a.m.)" },
+];
+
 type CreditCardFormData = z.infer<typeof creditCardFormSchema>;
 
+// IOF de compras internacionais (alíquota vigente) e cotação pela data da compra
+const defaultInternationalSettings = {
+  internationalIofRate: "4.38",
+  exchangeRateRule: "purchase_date" as const,
+};
+
+// Cartão sem anuidade
+const defaultAnnualFee = {
+  annualFeeAmount: "",
+  annualFeeInstallments: 12,
+  annualFeeWaiverThreshold: "",
+  annualFeeStartDate: "",
+};
+
+// Aceita vírgula decimal no formulário; a API espera ponto
+const toRates = (data: CreditCardFormData) => ({
+  ...Object.fromEntries(chargeRateFields.map(({ name }) => [name, data[name].replace(',', '.')])),
+  internationalIofRate: data.internationalIofRate.replace(',', '.'),
+  annualFeeAmount: data.annualFeeAmount ? data.annualFeeAmount.replace(',', '.') : "0",
+  annualFeeWaiverThreshold: data.annualFeeWaiverThreshold ? data.annualFeeWaiverThreshold.replace(',', '.') : null,
+  annualFeeStartDate: data.annualFeeStartDate || null,
+});
+
 // Função para obter informações da bandeira
 const getBrandInfo = (brand: string) => {
   const brands: { [key: string]: { name: string; icon: JSX.Element; color: string } } = {
@@ -127,6 +210,21 @@ interface CreditCard {
   dueDay: number;
   isActive: boolean;
   isBlocked: boolean;
+  revolvingInterestRate?: string;
+  minimumPaymentRate?: string;
+  iofDailyRate?: string;
+  iofFixedRate?: string;
+  lateFeeRate?: string;
+  lateInterestRate?: string;
+  internationalIofRate?: string;
+  exchangeRateRule?: string;
+  annualFeeAmount?: string;
+  annualFeeInstallments?: number;
+  annualFeeWaiverThreshold?: string | null;
+  annualFeeStartDate?: string | null;
+  cardType?: CreditCardFormData["cardType"];
+  parentCardId?: string | null;
+  holderName?: string | null;
 }
 
 export default function CreditCardManager() {
@@ -135,6 +233,7 @@ export default function CreditCardManager() {
   const [isEditMode, setIsEditMode] = useState(false);
   const [selectedCreditCard, setSelectedCreditCard] = useState<CreditCard | null>(null);
   const [editingCard, setEditingCard] = useState<CreditCard | null>(null);
+  const [rewardsCard, setRewardsCard] = useState<CreditCard | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -147,6 +246,11 @@ export default function CreditCardManager() {
 
   const creditCards = creditCardsResponse?.data || [];
 
+  const { data: rewardsResponse } = useQuery<{ success: boolean; data: RewardSummary[] }>({
+    queryKey: ["/api/rewards"],
+  });
+  const rewardsByCard = new Map((rewardsResponse?.data || []).map((summary) => [summary.program.creditCardId, summary]));
+
   // Debug: log dos dados recebidos
   console.log('CreditCardsResponse:', creditCardsResponse);
   console.log('CreditCards:', creditCards);
@@ -162,15 +266,33 @@ export default function CreditCardManager() {
       closingDay: 1,
       dueDay: 10,
       isBlocked: false,
+      cardType: "main",
+      parentCardId: "",
+      holderName: "",
+      ...defaultChargeRates,
+      ...defaultInternationalSettings,
+      ...defaultAnnualFee,
     },
   });
 
+  const mainCards = creditCards.filter((card) => !card.parentCardId);
+  const isChildCard = form.watch("cardType") !== "main";
+
+  // Cartão virtual ou adicional: o servidor aplica o limite e o ciclo do titular, o formulário só envia o vínculo
+  const toPayload = (data: CreditCardFormData) => {
+    const mainCard = data.cardType === "main" ? undefined : creditCards.find((card) => card.id === data.parentCardId);
+    return {
+      ...data,
+      ...toRates(data),
+      parentCardId: mainCard ? mainCard.id : null,
+      holderName: data.cardType === "additional" && data.holderName ? data.holderName : null,
+      limit: mainCard ? mainCard.limit : parseFloat(data.limit.replace(/[^\d,.-]/g, '').replace(',', '.')).toString(),
+    };
+  };
+
   const createCardMutation = useMutation({
     mutationFn: (data: CreditCardFormData) => {
-      return apiRequest("/api/credit-cards", "POST", {
-        ...data,
-        limit: parseFloat(data.limit.replace(/[^\d,.-]/g, '').replace(',', '.')).toString(),
-      });
+      return apiRequest("/api/credit-cards", "POST", toPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/credit-cards"] });
@@ -192,10 +314,7 @@ export default function CreditCardManager() {
 
   const updateCardMutation = useMutation({
     mutationFn: ({ id, data }: { id: string; data: CreditCardFormData }) => {
-      return apiRequest(`/api/credit-cards/${id}`, "PUT", {
-        ...data,
-        limit: parseFloat(data.limit.replace(/[^\d,.-]/g, '').replace(',', '.')).toString(),
-      });
+      return apiRequest(`/api/credit-cards/${id}`, "PUT", toPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/credit-cards"] });
@@ -226,10 +345,10 @@ export default function CreditCardManager() {
         description: "Cartão de crédito removido com sucesso.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Erro",
-        description: "Falha ao remover o cartão de crédito.",
+        description: error.message || "Falha ao remover o cartão de crédito.",
         variant: "destructive",
       });
     },
@@ -243,13 +362,6 @@ export default function CreditCardManager() {
     }
   };
 
-  const formatCurrency = (amount: string) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(parseFloat(amount));
-  };
-
   const getUsagePercentage = (used: string, limit: string) => {
     const usedAmount = parseFloat(used);
     const limitAmount = parseFloat(limit);
@@ -308,6 +420,76 @@ export default function CreditCardManager() {
                   )}
                 />
 
+                {!isEditMode && mainCards.length > 0 && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="cardType"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Tipo</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="main">Titular</SelectItem>
+                              <SelectItem value="virtual">Virtual</SelectItem>
+                              <SelectItem value="additional">Adicional</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {isChildCard && (
+                      <FormField
+                        control={form.control}
+                        name="parentCardId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Cartão titular</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Selecione o cartão" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {mainCards.map((card) => (
+                                  <SelectItem key={card.id} value={card.id}>
+                                    {card.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+                )}
+
+                {form.watch("cardType") === "additional" && (
+                  <FormField
+                    control={form.control}
+                    name="holderName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nome do portador</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Ex: Maria" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -367,22 +549,24 @@ export default function CreditCardManager() {
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="limit"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Limite</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="R$ 1.000,00"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                  {!isChildCard && (
+                    <FormField
+                      control={form.control}
+                      name="limit"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Limite</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder="R$ 1.000,00"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
 
                   <FormField
                     control={form.control}
@@ -402,47 +586,171 @@ export default function CreditCardManager() {
                   />
                 </div>
 
-                <div className="grid grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="closingDay"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Dia de Fechamento</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            min="1"
-                            max="31"
-                            placeholder="5"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                {!isChildCard && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="closingDay"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Dia de Fechamento</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="1"
+                                max="31"
+                                placeholder="5"
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                  <FormField
-                    control={form.control}
-                    name="dueDay"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Dia de Vencimento</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            min="1"
-                            max="31"
-                            placeholder="15"
-                            {...field}
+                      <FormField
+                        control={form.control}
+                        name="dueDay"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Dia de Vencimento</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="1"
+                                max="31"
+                                placeholder="15"
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">Encargos do rotativo</p>
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                        {chargeRateFields.map(({ name, label }) => (
+                          <FormField
+                            key={name}
+                            control={form.control}
+                            name={name}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="text-xs">{label}</FormLabel>
+                                <FormControl>
+                                  <Input inputMode="decimal" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
                           />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">Compras internacionais</p>
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="internationalIofRate"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs">IOF (%)</FormLabel>
+                              <FormControl>
+                                <Input inputMode="decimal" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="exchangeRateRule"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs">Cotação na fatura</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="purchase_date">Data da compra</SelectItem>
+                                  <SelectItem value="closing_date">Data do fechamento</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">Anuidade</p>
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="annualFeeAmount"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs">Valor anual (R$)</FormLabel>
+                              <FormControl>
+                                <Input inputMode="decimal" placeholder="Sem anuidade" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="annualFeeInstallments"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs">Parcelas</FormLabel>
+                              <FormControl>
+                                <Input type="number" min="1" max="12" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="annualFeeStartDate"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs">Primeira cobrança</FormLabel>
+                              <FormControl>
+                                <Input type="date" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="annualFeeWaiverThreshold"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs">Isenta com fatura a partir de (R$)</FormLabel>
+                              <FormControl>
+                                <Input inputMode="decimal" placeholder="Sem isenção" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
 
                 {isEditMode && (
                   <FormField
@@ -500,8 +808,12 @@ export default function CreditCardManager() {
           {creditCards.map((card) => {
             const brandInfo = getBrandInfo(card.brand);
             const bankInfo = getBankInfo(card.bank);
-            const usagePercentage = getUsagePercentage(card.currentUsed, card.limit);
-            const remainingLimit = parseFloat(card.limit) - parseFloat(card.currentUsed);
+            // Virtual e adicional mostram o uso do titular, que soma as compras de todos
+            const mainCard = card.parentCardId ? creditCards.find((c) => c.id === card.parentCardId) : undefined;
+            const limitCard = mainCard || card;
+            const usagePercentage = getUsagePercentage(limitCard.currentUsed, limitCard.limit);
+            const remainingLimit = Money.from(limitCard.limit).minus(limitCard.currentUsed);
+            const rewards = rewardsByCard.get(card.id);
 
             return (
               <Card
@@ -531,6 +843,19 @@ export default function CreditCardManager() {
                       >
                         <FileText className="h-4 w-4" />
                       </Button>
+                      {!card.parentCardId && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setRewardsCard(card);
+                          }}
+                          className="text-purple-600 hover:text-purple-700 hover:bg-purple-50"
+                        >
+                          <Gift className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="sm"
@@ -556,13 +881,20 @@ export default function CreditCardManager() {
                   <CardDescription>
                     {brandInfo.name} • {bankInfo.name}
                   </CardDescription>
+                  {card.parentCardId && (
+                    <div className="flex items-center gap-2 text-xs text-gray-600">
+                      <Badge variant="outline">{cardTypeLabels[card.cardType || "virtual"]}</Badge>
+                      {card.holderName && <span>{card.holderName}</span>}
+                      {mainCard && <span>Limite compartilhado com {mainCard.name}</span>}
+                    </div>
+                  )}
                 </CardHeader>
                 <CardContent>
                   <div className={`space-y-4 ${card.isBlocked ? 'blur-[1px]' : ''}`}>
                     <div>
                       <div className="flex justify-between text-sm mb-2">
-                        <span>Usado: {formatCurrency(card.currentUsed)}</span>
-                        <span>Limite: {formatCurrency(card.limit)}</span>
+                        <span>Usado: {formatCurrency(limitCard.currentUsed)}</span>
+                        <span>Limite: {formatCurrency(limitCard.limit)}</span>
                       </div>
                       <div className="relative h-3 bg-gray-200 rounded-full overflow-hidden">
                         <div
@@ -574,7 +906,7 @@ export default function CreditCardManager() {
                         />
                       </div>
                       <p className="text-sm text-gray-600 mt-1">
-                        Disponível: {formatCurrency(remainingLimit.toString())}
+                        Disponível: {formatCurrency(remainingLimit)}
                       </p>
                     </div>
 
@@ -589,6 +921,19 @@ export default function CreditCardManager() {
                       </div>
                     </div>
 
+                    {rewards && (
+                      <div className="text-sm space-y-1">
+                        <p className="text-purple-700">
+                          🎁 {rewards.program.name}: {formatRewardAmount(rewards.unit, rewards.balance)}
+                        </p>
+                        {rewards.expiring.map((expiring) => (
+                          <p key={expiring.expiresAt} className="text-xs text-amber-700">
+                            ⚠️ {formatRewardAmount(rewards.unit, expiring.amount)} vencem em {format(parseISO(expiring.expiresAt), "dd/MM/yyyy")}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+
                     <div className="flex items-center justify-between">
                       <Badge
                         variant={usagePercentage > 80 ? "destructive" : usagePercentage > 60 ? "default" : "secondary"}
@@ -609,6 +954,13 @@ export default function CreditCardManager() {
         </div>
       )}
 
+      <RewardProgramDialog
+        creditCard={rewardsCard}
+        summary={rewardsCard ? rewardsByCard.get(rewardsCard.id) : undefined}
+        isOpen={!!rewardsCard}
+        onClose={() => setRewardsCard(null)}
+      />
+
       <CreditCardInvoiceModal
         creditCard={selectedCreditCard}
         isOpen={isInvoiceModalOpen}
@@ -645,6 +997,21 @@ export default function CreditCardManager() {
       closingDay: card.closingDay,
       dueDay: card.dueDay,
       isBlocked: card.isBlocked,
+      cardType: card.cardType || "main",
+      parentCardId: card.parentCardId || "",
+      holderName: card.holderName || "",
+      revolvingInterestRate: card.revolvingInterestRate ?? defaultChargeRates.revolvingInterestRate,
+      minimumPaymentRate: card.minimumPaymentRate ?? defaultChargeRates.minimumPaymentRate,
+      iofDailyRate: card.iofDailyRate ?? defaultChargeRates.iofDailyRate,
+      iofFixedRate: card.iofFixedRate ?? defaultChargeRates.iofFixedRate,
+      lateFeeRate: card.lateFeeRate ?? defaultChargeRates.lateFeeRate,
+      lateInterestRate: card.lateInterestRate ?? defaultChargeRates.lateInterestRate,
+      internationalIofRate: card.internationalIofRate ?? defaultInternationalSettings.internationalIofRate,
+      exchangeRateRule: card.exchangeRateRule === "closing_date" ? "closing_date" : "purchase_date",
+      annualFeeAmount: Number(card.annualFeeAmount) > 0 ? card.annualFeeAmount! : "",
+      annualFeeInstallments: card.annualFeeInstallments ?? defaultAnnualFee.annualFeeInstallments,
+      annualFeeWaiverThreshold: card.annualFeeWaiverThreshold ?? "",
+      annualFeeStartDate: card.annualFeeStartDate ?? "",
     });
     setIsDialogOpen(true);
   }
@@ -661,6 +1028,12 @@ export default function CreditCardManager() {
       closingDay: 1,
       dueDay: 10,
       isBlocked: false,
+      cardType: "main",
+      parentCardId: "",
+      holderName: "",
+      ...defaultChargeRates,
+      ...defaultInternationalSettings,
+      ...defaultAnnualFee,
     });
     setIsDialogOpen(true);
   }
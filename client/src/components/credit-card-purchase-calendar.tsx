@@ -0,0 +1,89 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { formatCurrency } from "@/lib/financial-utils";
+import { CalendarIcon } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+// Calendário de compra devolvido por GET /api/credit-cards/:id/purchase-calendar
+interface PurchaseCalendar {
+  creditCardId: string;
+  closingDay: number;
+  dueDay: number;
+  bestPurchaseDay: number;
+  nextBestPurchaseDate: string;
+  floatDaysToday: number;
+  bestFloatDays: number;
+  closingDate: string;
+  dueDate: string;
+  limitReleases: Array<{ closingDate: string; dueDate: string; amount: string; installments: number }>;
+}
+
+interface CreditCardPurchaseCalendarProps {
+  creditCardId: string;
+}
+
+export default function CreditCardPurchaseCalendar({ creditCardId }: CreditCardPurchaseCalendarProps) {
+  const { data: calendarResponse, isLoading } = useQuery<{ success: boolean; data: PurchaseCalendar }>({
+    queryKey: [`/api/credit-cards/${creditCardId}/purchase-calendar`],
+  });
+  const calendar = calendarResponse?.data;
+
+  if (isLoading || !calendar) {
+    return <p className="text-center text-gray-500 py-8">Carregando calendário...</p>;
+  }
+
+  const isBestDayToday = calendar.floatDaysToday === calendar.bestFloatDays;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarIcon className="w-5 h-5" />
+            Melhor dia de compra: dia {calendar.bestPurchaseDay}
+          </CardTitle>
+          <CardDescription>
+            Compras feitas logo depois do fechamento (dia {calendar.closingDay}) só vencem na fatura seguinte
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-gray-600">Comprando hoje</p>
+            <p className="text-2xl font-bold">{calendar.floatDaysToday} dias até pagar</p>
+            <p className="text-xs text-gray-500">
+              Fatura fecha em {format(parseISO(calendar.closingDate), "dd/MM")} e vence em {format(parseISO(calendar.dueDate), "dd/MM")}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">
+              Comprando no melhor dia {isBestDayToday ? "(hoje)" : `(${format(parseISO(calendar.nextBestPurchaseDate), "dd/MM")})`}
+            </p>
+            <p className="text-2xl font-bold text-green-600">{calendar.bestFloatDays} dias até pagar</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Liberação de limite</CardTitle>
+          <CardDescription>Quanto do limite volta quando cada fatura for paga no vencimento</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {calendar.limitReleases.map((release) => (
+            <div key={release.closingDate} className="flex items-center justify-between text-sm border-b py-1">
+              <span className="flex items-center gap-2">
+                {format(parseISO(release.dueDate), "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+                {release.installments > 0 && (
+                  <Badge variant="secondary">{release.installments} parcela(s)</Badge>
+                )}
+              </span>
+              <span className="font-medium">{formatCurrency(release.amount)}</span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
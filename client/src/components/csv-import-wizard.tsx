@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { FileSpreadsheet, ArrowLeft, Upload, Plus, Pencil, Trash2 } from "lucide-react";
+import ImportPreviewTable, {
+  defaultSelection,
+  isLockedDuplicate,
+  toImportEntry,
+  type ImportPreviewEntry,
+} from "@/components/import-preview-table";
+import ImportProfileDialog, { type ImportProfileOption } from "@/components/import-profile-dialog";
+import type { Category, CreditCard } from "@shared/schema";
+import type { AccountWithBalance } from "@/components/account-select";
+
+// Valor usado no Select para importar sem conta nem cartão vinculados
+const ACCOUNT_TARGET = "account";
+
+interface CsvPreview {
+  headers: string[];
+  errors: string[];
+  entries: ImportPreviewEntry[];
+}
+
+/**
+ * Decode as UTF-8 and fall back to windows-1252, the encoding most Brazilian banks use for CSV exports
+ */
+async function readCsvFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("windows-1252").decode(buffer);
+  }
+}
+
+// Cabeçalho do arquivo (separador mais frequente na primeira linha), usado como sugestão de colunas
+function guessHeaders(content: string): string[] {
+  const firstLine = content.split(/\r?\n/).find(line => line.trim() !== "") || "";
+  const delimiter = [";", ",", "\t", "|"]
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+  return firstLine.split(delimiter).map(header => header.replace(/^"|"$/g, "").trim()).filter(Boolean);
+}
+
+export default function CsvImportWizard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [target, setTarget] = useState<string>(ACCOUNT_TARGET);
+  const [profileId, setProfileId] = useState<string>("");
+  const [file, setFile] = useState<File | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [preview, setPreview] = useState<CsvPreview | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [profileDialogOpen, setProfileDialogOpen] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<ImportProfileOption | null>(null);
+
+  const { data: creditCardsResponse } = useQuery<{ success: boolean; data: CreditCard[] }>({
+    queryKey: ["/api/credit-cards"],
+  });
+  const creditCards = creditCardsResponse?.data || [];
+
+  const { data: accountsResponse } = useQuery<{ success: boolean; data: AccountWithBalance[] }>({
+    queryKey: ["/api/accounts"],
+  });
+  const accounts = (accountsResponse?.data || []).filter(account => account.isActive);
+  const creditCardId = creditCards.some(card => card.id === target) ? target : null;
+  const accountId = accounts.some(account => account.id === target) ? target : null;
+
+  const { data: profilesResponse } = useQuery<{ success: boolean; data: ImportProfileOption[] }>({
+    queryKey: ["/api/import/profiles"],
+  });
+  const profiles = profilesResponse?.data || [];
+  const selectedProfile = profiles.find(profile => profile.id === profileId) || null;
+
+  const { data: categoriesResponse } = useQuery<{ success: boolean; data: Category[] }>({
+    queryKey: ["/api/categories"],
+  });
+  const categories = categoriesResponse?.data || [];
+
+  const previewMutation = useMutation({
+    mutationFn: async (csvFile: File) => {
+      const content = await readCsvFile(csvFile);
+      const response = await apiRequest("/api/import/csv/preview", "POST", { content, creditCardId, accountId, profileId });
+      return (await response.json()).data as CsvPreview;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setSelected(defaultSelection(data.entries));
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao ler arquivo",
+        description: error.message || "Não foi possível ler o arquivo CSV",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (entries: ImportPreviewEntry[]) => {
+      const response = await apiRequest("/api/import/transactions", "POST", {
+        creditCardId,
+        accountId,
+        entries: entries.map(toImportEntry),
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credit-cards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      toast({
+        title: "Importação concluída",
+        description: result.message,
+      });
+      reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao importar lançamentos",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/import/profiles/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import/profiles"] });
+      setProfileId("");
+      toast({
+        title: "Sucesso",
+        description: "Perfil removido!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao remover perfil",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reset = () => {
+    setFile(null);
+    setHeaders([]);
+    setPreview(null);
+    setSelected(new Set());
+  };
+
+  const handleFileChange = async (csvFile: File | null) => {
+    setFile(csvFile);
+    setHeaders(csvFile ? guessHeaders(await readCsvFile(csvFile)) : []);
+  };
+
+  const openProfileDialog = (profile: ImportProfileOption | null) => {
+    setEditingProfile(profile);
+    setProfileDialogOpen(true);
+  };
+
+  const changeCategory = (key: string, categoryId: string | null) => {
+    setPreview(prev => prev && {
+      ...prev,
+      entries: prev.entries.map(entry => entry.key === key ? { ...entry, categoryId, categorySource: null } : entry),
+    });
+  };
+
+  const selectedEntries = preview?.entries.filter(entry => !isLockedDuplicate(entry) && selected.has(entry.key)) || [];
+  const duplicateCount = preview?.entries.filter(entry => entry.duplicate).length || 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="w-5 h-5" />
+          Importar planilha CSV
+        </CardTitle>
+        <CardDescription>
+          Escolha o perfil do seu banco (ou crie um) para indicar colunas, separadores e formato de data.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!preview ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Destino</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ACCOUNT_TARGET}>📄 Sem conta vinculada</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      🏦 {account.name}
+                    </SelectItem>
+                  ))}
+                  {creditCards.map((card) => (
+                    <SelectItem key={card.id} value={card.id}>
+                      💳 {card.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="csv-file">Arquivo (.csv)</Label>
+              <Input
+                id="csv-file"
+                type="file"
+                accept=".csv,.txt,text/csv"
+                onChange={(event) => handleFileChange(event.target.files?.[0] || null)}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label>Perfil de importação</Label>
+              <div className="flex gap-2">
+                <Select value={profileId} onValueChange={setProfileId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione o layout do banco" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.builtin ? "🏦" : "⭐"} {profile.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  title={selectedProfile?.builtin ? "Criar perfil a partir deste" : "Novo perfil"}
+                  onClick={() => openProfileDialog(selectedProfile?.builtin ? selectedProfile : null)}
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+                {selectedProfile && !selectedProfile.builtin && (
+                  <>
+                    <Button variant="outline" size="icon" title="Editar perfil" onClick={() => openProfileDialog(selectedProfile)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      title="Remover perfil"
+                      onClick={() => deleteProfileMutation.mutate(selectedProfile.id)}
+                      disabled={deleteProfileMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+            <div className="md:col-span-2 flex justify-end">
+              <Button
+                onClick={() => file && previewMutation.mutate(file)}
+                disabled={!file || !profileId || previewMutation.isPending}
+              >
+                {previewMutation.isPending ? "Lendo arquivo..." : "Pré-visualizar"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              <span>{preview.entries.length} lançamento(s) lido(s)</span>
+              {duplicateCount > 0 && <span>• {duplicateCount} possivelmente já cadastrado(s)</span>}
+              {preview.errors.length > 0 && <span className="text-amber-700">• {preview.errors.length} linha(s) ignorada(s)</span>}
+            </div>
+
+            {preview.errors.length > 0 && (
+              <details className="text-sm text-amber-700">
+                <summary className="cursor-pointer">Ver linhas ignoradas</summary>
+                <ul className="list-disc pl-5 mt-2 space-y-1">
+                  {preview.errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            <ImportPreviewTable
+              entries={preview.entries}
+              selected={selected}
+              onSelectedChange={setSelected}
+              categories={categories}
+              onCategoryChange={changeCategory}
+            />
+
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={reset} disabled={importMutation.isPending}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Voltar
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(selectedEntries)}
+                disabled={selectedEntries.length === 0 || importMutation.isPending}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {importMutation.isPending ? "Importando..." : `Importar ${selectedEntries.length} lançamento(s)`}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <ImportProfileDialog
+        open={profileDialogOpen}
+        onOpenChange={setProfileDialogOpen}
+        profile={editingProfile}
+        headers={headers}
+        onSaved={(profile) => setProfileId(profile.id)}
+      />
+    </Card>
+  );
+}
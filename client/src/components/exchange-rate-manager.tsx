@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Globe, Trash2, Upload } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import type { ExchangeRate } from "@shared/schema";
+
+interface PtaxImportResult {
+  imported: number;
+  skipped: number;
+  errors: Array<{ line: number; message: string }>;
+}
+
+// Quantas cotações mostrar na lista (a tabela completa pode ter anos de PTAX)
+const VISIBLE_RATES = 30;
+
+export default function ExchangeRateManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [currency, setCurrency] = useState("USD");
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [rate, setRate] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [importResult, setImportResult] = useState<PtaxImportResult | null>(null);
+
+  const { data: ratesResponse } = useQuery<{ success: boolean; data: ExchangeRate[] }>({
+    queryKey: ["/api/exchange-rates"],
+  });
+  const rates = ratesResponse?.data || [];
+
+  const onRatesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/credit-card-invoices"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("/api/exchange-rates", "POST", {
+        currency: currency.trim().toUpperCase(),
+        date,
+        rate: rate.replace(",", "."),
+      });
+    },
+    onSuccess: () => {
+      onRatesChanged();
+      setRate("");
+      toast({ title: "Sucesso", description: "Cotação salva!" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao salvar a cotação",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (ptaxFile: File) => {
+      const response = await apiRequest("/api/exchange-rates/import", "POST", { content: await ptaxFile.text() });
+      return (await response.json()).data as PtaxImportResult;
+    },
+    onSuccess: (data) => {
+      onRatesChanged();
+      setImportResult(data);
+      setFile(null);
+      toast({ title: "Sucesso", description: `${data.imported} cotação(ões) importada(s)` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao importar",
+        description: error.message || "Erro ao importar o arquivo da PTAX",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/exchange-rates/${id}`, "DELETE"),
+    onSuccess: onRatesChanged,
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao remover a cotação",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isRateValid = /^\d{1,6}([.,]\d{1,6})?$/.test(rate) && Number(rate.replace(",", ".")) > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="w-5 h-5" />
+          Cotações de moedas
+        </CardTitle>
+        <CardDescription>
+          Convertem as compras internacionais no cartão. Cadastre a cotação do dia ou importe o CSV da PTAX
+          baixado do site do Banco Central (usa a cotação de venda).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label htmlFor="rate-currency">Moeda</Label>
+            <Input
+              id="rate-currency"
+              maxLength={3}
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+            />
+          </div>
+          <div>
+            <Label htmlFor="rate-date">Data</Label>
+            <Input id="rate-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="rate-value">Cotação (R$)</Label>
+            <Input
+              id="rate-value"
+              inputMode="decimal"
+              placeholder="5,4321"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!isRateValid || !/^[A-Z]{3}$/.test(currency) || !date || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? "Salvando..." : "Salvar cotação"}
+          </Button>
+        </div>
+
+        <div className="space-y-4 border-t pt-6">
+          <div>
+            <Label htmlFor="ptax-file">Arquivo da PTAX (.csv)</Label>
+            <Input
+              id="ptax-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(event) => {
+                setFile(event.target.files?.[0] || null);
+                setImportResult(null);
+              }}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => file && importMutation.mutate(file)}
+            disabled={!file || importMutation.isPending}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {importMutation.isPending ? "Importando..." : "Importar PTAX"}
+          </Button>
+
+          {importResult && importResult.errors.length > 0 && (
+            <ul className="bg-amber-50 p-4 rounded-lg text-sm text-amber-800 space-y-1">
+              {importResult.errors.map((error) => (
+                <li key={error.line}>⚠️ Linha {error.line}: {error.message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-2 border-t pt-6">
+          {rates.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhuma cotação cadastrada</p>
+          ) : (
+            rates.slice(0, VISIBLE_RATES).map((exchangeRate) => (
+              <div key={exchangeRate.id} className="flex items-center justify-between text-sm border-b py-1">
+                <span className="flex items-center gap-2">
+                  <span className="font-medium">{exchangeRate.currency}</span>
+                  {format(parseISO(exchangeRate.date), "dd/MM/yyyy")}
+                  <Badge variant="secondary">{exchangeRate.source === "ptax" ? "PTAX" : "Manual"}</Badge>
+                </span>
+                <span className="flex items-center gap-2">
+                  R$ {Number(exchangeRate.rate)}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-gray-400 hover:text-red-600"
+                    onClick={() => deleteMutation.mutate(exchangeRate.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -25,6 +25,10 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { Money } from "@shared/money";
+import type { Transaction } from "@shared/schema";
+import AccountSelect from "@/components/account-select";
+import RecurrenceFields, { defaultRecurrenceRule, recurrenceRuleOf, type RecurrenceRuleValue } from "@/components/recurrence-fields";
 
 const expenseSchema = z.object({
   description: z.string().min(1, "Descrição é obrigatória"),
@@ -32,6 +36,7 @@ const expenseSchema = z.object({
   date: z.string().min(1, "Data é obrigatória"),
   categoryId: z.string().min(1, "Categoria é obrigatória"),
   paymentMethod: z.string().min(1, "Método de pagamento é obrigatório"),
+  accountId: z.string().optional(),
   isRecurring: z.boolean().default(false),
 });
 
@@ -49,11 +54,12 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("");
   const [dateFilter, setDateFilter] = useState("");
+  const [recurrence, setRecurrence] = useState<RecurrenceRuleValue>(defaultRecurrenceRule);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: transactionsResponse } = useQuery<{ success: boolean; data: any[] }>({
+  const { data: transactionsResponse } = useQuery<{ success: boolean; data: Transaction[] }>({
     queryKey: ["/api/transactions"],
   });
 
@@ -88,6 +94,7 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
       date: new Date().toISOString().split('T')[0],
       categoryId: "",
       paymentMethod: "pix",
+      accountId: "",
       isRecurring: false,
     },
   });
@@ -99,6 +106,8 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           ...data,
+          ...(data.isRecurring ? recurrence : {}),
+          accountId: data.accountId || null,
           type: "expense",
         }),
       });
@@ -108,7 +117,9 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       form.reset();
+      setRecurrence(defaultRecurrenceRule);
       toast({
         title: "Despesa cadastrada",
         description: "Despesa foi cadastrada com sucesso!",
@@ -135,6 +146,7 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       setDeletingTransaction(null);
       toast({
         title: "Transação excluída",
@@ -166,6 +178,7 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       setDeletingTransaction(null);
       toast({
         title: "Transações recorrentes excluídas",
@@ -193,7 +206,9 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
     form.setValue("date", transaction.date);
     form.setValue("categoryId", transaction.categoryId);
     form.setValue("paymentMethod", transaction.paymentMethod);
+    form.setValue("accountId", transaction.accountId || "");
     form.setValue("isRecurring", transaction.isRecurring || false);
+    setRecurrence(recurrenceRuleOf(allTransactions.find((t) => t.id === (transaction.parentTransactionId || transaction.id))));
   };
 
   const updateTransactionMutation = useMutation({
@@ -205,6 +220,9 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
         },
         body: JSON.stringify({
           ...data,
+          // A regra de uma série existente só muda pelas próximas ou por todas as ocorrências
+          ...(data.isRecurring && !editingTransaction?.isRecurring ? recurrence : {}),
+          accountId: data.accountId || null,
           type: 'expense',
         }),
       });
@@ -218,6 +236,7 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       setEditingTransaction(null);
       form.reset();
       toast({
@@ -235,6 +254,48 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
     },
   });
 
+  const updateFollowingTransactionsMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: ExpenseFormData }) => {
+      const response = await fetch(`/api/transactions/${id}/following`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...data,
+          ...recurrence,
+          accountId: data.accountId || null,
+          type: 'expense',
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Erro ao atualizar as próximas ocorrências');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      setEditingTransaction(null);
+      form.reset();
+      toast({
+        title: "Transações recorrentes atualizadas",
+        description: "Esta e as próximas ocorrências foram atualizadas com sucesso!",
+      });
+    },
+    onError: (error) => {
+      console.error('Erro ao atualizar as próximas ocorrências:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao atualizar as próximas ocorrências. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateRecurringTransactionMutation = useMutation({
     mutationFn: async ({ parentId, data }: { parentId: string; data: ExpenseFormData }) => {
       const response = await fetch(`/api/transactions/recurring/${parentId}`, {
@@ -244,6 +305,8 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
         },
         body: JSON.stringify({
           ...data,
+          ...recurrence,
+          accountId: data.accountId || null,
           type: 'expense',
         }),
       });
@@ -257,6 +320,7 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       setEditingTransaction(null);
       form.reset();
       toast({
@@ -291,11 +355,17 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
     }
   };
 
-  const handleUpdateRecurring = (updateType: 'single' | 'recurring') => {
+  const handleUpdateRecurring = (updateType: 'single' | 'following' | 'recurring') => {
     if (editingTransaction) {
       const formData = form.getValues();
 
-      if (updateType === 'recurring') {
+      if (updateType === 'following') {
+        // Atualizar esta e as próximas ocorrências (a série é dividida a partir desta)
+        updateFollowingTransactionsMutation.mutate({
+          id: editingTransaction.id,
+          data: formData,
+        });
+      } else if (updateType === 'recurring') {
         // Atualizar todas as transações recorrentes
         const parentId = editingTransaction.parentTransactionId || editingTransaction.id;
         updateRecurringTransactionMutation.mutate({
@@ -332,7 +402,7 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
         if (!expensesByCategory[categoryId]) {
           expensesByCategory[categoryId] = { amount: 0, count: 0 };
         }
-        expensesByCategory[categoryId].amount += parseFloat(transaction.amount);
+        expensesByCategory[categoryId].amount = Money.from(expensesByCategory[categoryId].amount).plus(transaction.amount).toNumber();
         expensesByCategory[categoryId].count += 1;
       }
     }
@@ -468,6 +538,15 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
                     )}
                   </div>
 
+                  <div>
+                    <Label htmlFor="accountId">Conta de origem</Label>
+                    <AccountSelect
+                      id="accountId"
+                      value={form.watch("accountId")}
+                      onChange={(accountId) => form.setValue("accountId", accountId)}
+                    />
+                  </div>
+
                   <div className="flex items-center space-x-2">
                     <Checkbox
                       id="isRecurring"
@@ -477,6 +556,10 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
                     <Label htmlFor="isRecurring">Despesa recorrente</Label>
                   </div>
 
+                  {form.watch("isRecurring") && (
+                    <RecurrenceFields id="recurrence" value={recurrence} onChange={setRecurrence} />
+                  )}
+
                   <Button
                     type="submit"
                     className="w-full bg-red-500 hover:bg-red-600 text-white"
@@ -704,7 +787,7 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
                         <span className="text-yellow-600 text-lg mt-0.5 flex-shrink-0">•</span>
                         <div className="text-sm text-yellow-700 flex-1 min-w-0">
                           <span className="font-medium">Excluir apenas esta:</span>
-                          <span className="block text-xs mt-1 text-yellow-600">Remove apenas esta transação específica</span>
+                          <span className="block text-xs mt-1 text-yellow-600">Pula esta ocorrência; as próximas continuam sendo geradas</span>
                         </div>
                       </div>
                       <div className="flex items-start gap-3">
@@ -773,7 +856,8 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
             <AlertDialogDescription>
               {editingTransaction?.isRecurring ? (
                 <p className="text-sm text-gray-600">
-                  Esta despesa é recorrente. Escolha se deseja atualizar apenas esta ou todas as recorrentes.
+                  Esta despesa é recorrente. Escolha se deseja atualizar apenas esta, esta e as próximas ou todas as recorrentes.
+                  Mudanças na regra de repetição valem para as próximas ou para todas.
                 </p>
               ) : (
                 <p className="text-sm text-gray-600">
@@ -880,6 +964,15 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
               </Select>
             </div>
 
+            <div>
+              <Label htmlFor="edit-accountId">Conta de origem</Label>
+              <AccountSelect
+                id="edit-accountId"
+                value={form.watch("accountId")}
+                onChange={(accountId) => form.setValue("accountId", accountId)}
+              />
+            </div>
+
             <div className="flex items-center space-x-2">
               <Checkbox
                 id="edit-isRecurring"
@@ -889,6 +982,10 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
               <Label htmlFor="edit-isRecurring">Despesa recorrente</Label>
             </div>
 
+            {form.watch("isRecurring") && (
+              <RecurrenceFields id="edit-recurrence" value={recurrence} onChange={setRecurrence} />
+            )}
+
             <AlertDialogFooter>
               <AlertDialogCancel onClick={() => setEditingTransaction(null)}>
                 Cancelar
@@ -899,15 +996,24 @@ export default function ExpenseForm({ categories, selectedMonth, selectedYear }:
                     type="button"
                     variant="outline"
                     onClick={() => handleUpdateRecurring('single')}
-                    disabled={updateTransactionMutation.isPending || updateRecurringTransactionMutation.isPending}
+                    disabled={updateTransactionMutation.isPending || updateFollowingTransactionsMutation.isPending || updateRecurringTransactionMutation.isPending}
                     className="flex-1"
                   >
                     Atualizar Apenas Esta
                   </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => handleUpdateRecurring('following')}
+                    disabled={updateTransactionMutation.isPending || updateFollowingTransactionsMutation.isPending || updateRecurringTransactionMutation.isPending}
+                    className="flex-1"
+                  >
+                    Esta e as Próximas
+                  </Button>
                   <Button
                     type="submit"
                     onClick={() => handleUpdateRecurring('recurring')}
-                    disabled={updateTransactionMutation.isPending || updateRecurringTransactionMutation.isPending}
+                    disabled={updateTransactionMutation.isPending || updateFollowingTransactionsMutation.isPending || updateRecurringTransactionMutation.isPending}
                     className="flex-1"
                   >
                     {updateRecurringTransactionMutation.isPending ? "Salvando..." : "Atualizar Todas as Recorrentes"}
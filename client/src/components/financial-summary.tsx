@@ -1,23 +1,27 @@
+import { formatCurrency } from "@/lib/financial-utils";
+import { format, parseISO } from "date-fns";
+import { payrollKindLabels, type PaycheckView } from "@/components/income-source-manager";
+import type { PayrollKind } from "@shared/schema";
+
+// Pagamento do mês em /api/financial-summary (contracheque, parcela do 13º ou férias), com a fonte de renda que o pagou
+export interface MonthlyPaycheck extends PaycheckView {
+  kind: PayrollKind;
+  incomeSourceId: string;
+  name: string;
+  transactionId: string;
+}
+
 interface FinancialSummaryProps {
   summary?: {
     totalIncome: number;
     totalExpenses: number;
     currentBalance: number;
-    monthlySalary?: number;
-    monthlyVT?: number;
-    monthlyVR?: number;
+    paychecks?: MonthlyPaycheck[];
     transactionIncome?: number;
   };
 }
 
 export default function FinancialSummary({ summary }: FinancialSummaryProps) {
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(amount);
-  };
-
   const monthlyProjection = summary ? summary.totalIncome - summary.totalExpenses : 0;
 
   return (
@@ -34,17 +38,17 @@ export default function FinancialSummary({ summary }: FinancialSummaryProps) {
             <p className="text-lg sm:text-2xl font-bold text-secondary truncate">
               {summary ? formatCurrency(summary.totalIncome) : "R$ 0,00"}
             </p>
-            {(summary?.monthlySalary || summary?.monthlyVT || summary?.monthlyVR) && (
+            {summary?.paychecks && summary.paychecks.length > 0 && (
               <div className="text-xs text-gray-500 mt-1 space-y-1">
-                {summary?.monthlySalary && summary.monthlySalary > 0 && (
-                  <div className="truncate">Salário: {formatCurrency(summary.monthlySalary)}</div>
-                )}
-                {summary?.monthlyVT && summary.monthlyVT > 0 && (
-                  <div className="truncate">VT: {formatCurrency(summary.monthlyVT)}</div>
-                )}
-                {summary?.monthlyVR && summary.monthlyVR > 0 && (
-                  <div className="truncate">VR: {formatCurrency(summary.monthlyVR)}</div>
-                )}
+                {summary.paychecks.map((paycheck) => (
+                  <div
+                    key={paycheck.transactionId}
+                    className="truncate"
+                    title={`Bruto ${formatCurrency(paycheck.gross)} · INSS ${formatCurrency(paycheck.inss)} · IRRF ${formatCurrency(paycheck.irrf)}`}
+                  >
+                    {paycheck.kind === "salary" ? paycheck.name : `${paycheck.name} - ${payrollKindLabels[paycheck.kind]}`}: {formatCurrency(paycheck.net)} em {format(parseISO(paycheck.payDate), "dd/MM")}
+                  </div>
+                ))}
               </div>
             )}
           </div>
@@ -10,6 +10,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Trash2, Search, Filter, X } from "lucide-react";
 import TransactionEditModal from "./transaction-edit-modal";
 import RecurringDeleteModal from "./recurring-delete-modal";
+import { formatCurrency } from "@/lib/financial-utils";
 
 interface Transaction {
   id: string;
@@ -69,14 +70,6 @@ export default function HistoryFilters({ transactions, categories }: HistoryFilt
     },
   });
 
-  const formatCurrency = (amount: string) => {
-    const value = parseFloat(amount);
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(value);
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('pt-BR');
   };
@@ -0,0 +1,11 @@
+import OfxImportWizard from "@/components/ofx-import-wizard";
+import CsvImportWizard from "@/components/csv-import-wizard";
+
+export default function ImportManager() {
+  return (
+    <div className="space-y-8">
+      <OfxImportWizard />
+      <CsvImportWizard />
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { formatCurrency } from "@/lib/financial-utils";
+import type { Category } from "@shared/schema";
+
+// Valor usado no Select para deixar o lançamento sem categoria
+const NO_CATEGORY = "none";
+
+export interface ImportPreviewEntry {
+  key: string;
+  fitId?: string | null;
+  date: string;
+  description: string;
+  amount: string;
+  type: "income" | "expense";
+  paymentMethod?: string | null;
+  categoryId?: string | null;
+  categorySource?: "history" | "keyword" | null;
+  duplicate: {
+    reason: "fitid" | "fuzzy" | "file";
+    transactionId?: string;
+    description?: string;
+    date?: string;
+    score?: number;
+  } | null;
+}
+
+export function DuplicateBadge({ duplicate }: { duplicate: ImportPreviewEntry["duplicate"] }) {
+  if (!duplicate) {
+    return <Badge variant="outline" className="text-green-700 border-green-300">Novo</Badge>;
+  }
+
+  if (duplicate.reason === "fitid") {
+    return <Badge variant="secondary">Já importado</Badge>;
+  }
+
+  if (duplicate.reason === "file") {
+    return <Badge variant="secondary">Repetido no arquivo</Badge>;
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className="text-amber-700 border-amber-300"
+      title={duplicate.description ? `Parecido com "${duplicate.description}" (${duplicate.date})` : undefined}
+    >
+      Possível duplicado
+    </Badge>
+  );
+}
+
+// Lançamentos já importados pelo FITID nunca são salvos de novo, então nem podem ser marcados
+export const isLockedDuplicate = (entry: ImportPreviewEntry) =>
+  entry.duplicate?.reason === "fitid" || entry.duplicate?.reason === "file";
+
+// Por padrão, só os lançamentos novos ficam marcados
+export const defaultSelection = (entries: ImportPreviewEntry[]) =>
+  new Set(entries.filter(entry => !entry.duplicate).map(entry => entry.key));
+
+// Remove os campos que só existem na pré-visualização antes de enviar para /api/import/transactions
+export const toImportEntry = ({ key, duplicate, categorySource, ...entry }: ImportPreviewEntry) => entry;
+
+interface ImportPreviewTableProps {
+  entries: ImportPreviewEntry[];
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+  categories: Category[];
+  onCategoryChange: (key: string, categoryId: string | null) => void;
+}
+
+export default function ImportPreviewTable({
+  entries,
+  selected,
+  onSelectedChange,
+  categories,
+  onCategoryChange,
+}: ImportPreviewTableProps) {
+  const selectableEntries = entries.filter(entry => !isLockedDuplicate(entry));
+  const allSelected = selectableEntries.length > 0 && selectableEntries.every(entry => selected.has(entry.key));
+
+  const toggleEntry = (key: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(key);
+    } else {
+      next.delete(key);
+    }
+    onSelectedChange(next);
+  };
+
+  return (
+    <div className="border rounded-md max-h-[480px] overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={(checked) =>
+                  onSelectedChange(checked ? new Set(selectableEntries.map(entry => entry.key)) : new Set())
+                }
+              />
+            </TableHead>
+            <TableHead>Data</TableHead>
+            <TableHead>Descrição</TableHead>
+            <TableHead>Categoria</TableHead>
+            <TableHead className="text-right">Valor</TableHead>
+            <TableHead>Situação</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.map((entry) => (
+            <TableRow key={entry.key} className={isLockedDuplicate(entry) ? "opacity-60" : undefined}>
+              <TableCell>
+                <Checkbox
+                  checked={selected.has(entry.key)}
+                  disabled={isLockedDuplicate(entry)}
+                  onCheckedChange={(checked) => toggleEntry(entry.key, checked === true)}
+                />
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                {format(parseISO(entry.date), "dd/MM/yyyy", { locale: ptBR })}
+              </TableCell>
+              <TableCell>{entry.description}</TableCell>
+              <TableCell className="min-w-[180px]">
+                <Select
+                  value={entry.categoryId || NO_CATEGORY}
+                  onValueChange={(value) => onCategoryChange(entry.key, value === NO_CATEGORY ? null : value)}
+                  disabled={isLockedDuplicate(entry)}
+                >
+                  <SelectTrigger className={entry.categorySource ? "border-blue-300" : undefined}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY}>Sem categoria</SelectItem>
+                    {categories.filter(category => category.type === entry.type).map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.icon} {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {entry.categorySource && (
+                  <p className="text-xs text-blue-600 mt-1">
+                    {entry.categorySource === "history" ? "Sugerida pelo histórico" : "Sugerida pela descrição"}
+                  </p>
+                )}
+              </TableCell>
+              <TableCell className={`text-right whitespace-nowrap ${entry.type === "income" ? "text-green-600" : "text-red-600"}`}>
+                {entry.type === "income" ? "+" : "-"} {formatCurrency(entry.amount)}
+              </TableCell>
+              <TableCell>
+                <DuplicateBadge duplicate={entry.duplicate} />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
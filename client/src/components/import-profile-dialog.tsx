@@ -0,0 +1,354 @@
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { CsvColumnMapping } from "@shared/schema";
+
+export interface ImportProfileOption {
+  id: string;
+  name: string;
+  builtin: boolean;
+  delimiter: string;
+  decimalSeparator: string;
+  dateFormat: string;
+  signConvention: string;
+  hasHeader: boolean;
+  skipRows: number;
+  columns: CsvColumnMapping;
+}
+
+// Form schema para perfis de importação (colunas achatadas para os campos do formulário)
+const profileFormSchema = z.object({
+  name: z.string().min(1, "Nome é obrigatório"),
+  delimiter: z.enum([";", ",", "\t", "|"]),
+  decimalSeparator: z.enum([",", "."]),
+  dateFormat: z.enum(["DD/MM/YYYY", "DD/MM/YY", "YYYY-MM-DD", "MM/DD/YYYY"]),
+  signConvention: z.enum(["negative_expense", "positive_expense", "split_columns"]),
+  hasHeader: z.boolean(),
+  skipRows: z.coerce.number().int().min(0).max(50),
+  dateColumn: z.string().min(1, "Coluna de data é obrigatória"),
+  descriptionColumn: z.string().min(1, "Coluna de descrição é obrigatória"),
+  amountColumn: z.string().optional(),
+  debitColumn: z.string().optional(),
+  creditColumn: z.string().optional(),
+}).refine((data) => data.signConvention === "split_columns" || Boolean(data.amountColumn), {
+  message: "Coluna de valor é obrigatória",
+  path: ["amountColumn"],
+}).refine((data) => data.signConvention !== "split_columns" || Boolean(data.debitColumn && data.creditColumn), {
+  message: "Informe as colunas de débito e crédito",
+  path: ["debitColumn"],
+});
+
+type ProfileFormData = z.infer<typeof profileFormSchema>;
+
+const emptyProfile: ProfileFormData = {
+  name: "",
+  delimiter: ";",
+  decimalSeparator: ",",
+  dateFormat: "DD/MM/YYYY",
+  signConvention: "negative_expense",
+  hasHeader: true,
+  skipRows: 0,
+  dateColumn: "",
+  descriptionColumn: "",
+  amountColumn: "",
+  debitColumn: "",
+  creditColumn: "",
+};
+
+function toFormData(profile: ImportProfileOption): ProfileFormData {
+  return {
+    ...emptyProfile,
+    ...profile,
+    name: profile.builtin ? `${profile.name} (cópia)` : profile.name,
+    dateColumn: profile.columns.date,
+    descriptionColumn: profile.columns.description,
+    amountColumn: profile.columns.amount || "",
+    debitColumn: profile.columns.debit || "",
+    creditColumn: profile.columns.credit || "",
+  } as ProfileFormData;
+}
+
+interface ImportProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Saved profile to edit, or a built-in one to use as a starting point */
+  profile: ImportProfileOption | null;
+  /** Header row of the chosen file, offered as column suggestions */
+  headers: string[];
+  onSaved: (profile: ImportProfileOption) => void;
+}
+
+export default function ImportProfileDialog({ open, onOpenChange, profile, headers, onSaved }: ImportProfileDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isEditing = Boolean(profile && !profile.builtin);
+
+  const form = useForm<ProfileFormData>({
+    resolver: zodResolver(profileFormSchema),
+    defaultValues: emptyProfile,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(profile ? toFormData(profile) : emptyProfile);
+    }
+  }, [open, profile]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ProfileFormData) => {
+      const split = data.signConvention === "split_columns";
+      const payload = {
+        name: data.name,
+        delimiter: data.delimiter,
+        decimalSeparator: data.decimalSeparator,
+        dateFormat: data.dateFormat,
+        signConvention: data.signConvention,
+        hasHeader: data.hasHeader,
+        skipRows: data.skipRows,
+        columns: {
+          date: data.dateColumn,
+          description: data.descriptionColumn,
+          ...(split
+            ? { debit: data.debitColumn, credit: data.creditColumn }
+            : { amount: data.amountColumn }),
+        },
+      };
+
+      const response = isEditing
+        ? await apiRequest(`/api/import/profiles/${profile!.id}`, "PUT", payload)
+        : await apiRequest("/api/import/profiles", "POST", payload);
+      return (await response.json()).data as ImportProfileOption;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import/profiles"] });
+      toast({
+        title: "Sucesso",
+        description: isEditing ? "Perfil atualizado!" : "Perfil salvo!",
+      });
+      onSaved(saved);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao salvar perfil",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const signConvention = form.watch("signConvention");
+  const hasHeader = form.watch("hasHeader");
+
+  const columnField = (name: "dateColumn" | "descriptionColumn" | "amountColumn" | "debitColumn" | "creditColumn", label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              list={hasHeader && headers.length > 0 ? "import-profile-headers" : undefined}
+              placeholder={hasHeader ? "Nome da coluna" : "Número da coluna (1, 2, ...)"}
+              {...field}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Editar perfil de CSV" : "Novo perfil de CSV"}</DialogTitle>
+          <DialogDescription>
+            Descreva o layout do arquivo exportado pelo seu banco. O perfil fica salvo para as próximas importações.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome do perfil</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Bradesco - Conta corrente" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="delimiter"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Separador</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value=";">Ponto e vírgula (;)</SelectItem>
+                        <SelectItem value=",">Vírgula (,)</SelectItem>
+                        <SelectItem value={"\t"}>Tabulação</SelectItem>
+                        <SelectItem value="|">Barra vertical (|)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="decimalSeparator"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Decimais</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value=",">1.234,56</SelectItem>
+                        <SelectItem value=".">1,234.56</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dateFormat"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Formato da data</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="DD/MM/YYYY">DD/MM/AAAA</SelectItem>
+                        <SelectItem value="DD/MM/YY">DD/MM/AA</SelectItem>
+                        <SelectItem value="YYYY-MM-DD">AAAA-MM-DD</SelectItem>
+                        <SelectItem value="MM/DD/YYYY">MM/DD/AAAA</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="signConvention"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Como o arquivo indica despesas</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="negative_expense">Valores negativos são despesas (extrato)</SelectItem>
+                      <SelectItem value="positive_expense">Valores positivos são despesas (fatura de cartão)</SelectItem>
+                      <SelectItem value="split_columns">Colunas separadas de débito e crédito</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="hasHeader"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <FormLabel>Primeira linha é cabeçalho</FormLabel>
+                      <FormDescription>Colunas pelo nome</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="skipRows"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Linhas a ignorar no início</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={50} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {columnField("dateColumn", "Coluna da data")}
+              {columnField("descriptionColumn", "Coluna da descrição")}
+              {signConvention === "split_columns" ? (
+                <>
+                  {columnField("debitColumn", "Coluna de débito")}
+                  {columnField("creditColumn", "Coluna de crédito")}
+                </>
+              ) : (
+                columnField("amountColumn", "Coluna do valor")
+              )}
+            </div>
+
+            <datalist id="import-profile-headers">
+              {headers.map((header) => (
+                <option key={header} value={header} />
+              ))}
+            </datalist>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Salvando..." : "Salvar perfil"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,6 +15,9 @@ import { format, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import AccountSelect from "@/components/account-select";
+import type { Transaction } from "@shared/schema";
+import RecurrenceFields, { defaultRecurrenceRule, recurrenceRuleOf, type RecurrenceRuleValue } from "@/components/recurrence-fields";
 
 const incomeSchema = z.object({
   description: z.string().min(1, "Descrição é obrigatória"),
@@ -22,6 +25,7 @@ const incomeSchema = z.object({
   date: z.string().min(1, "Data é obrigatória"),
   categoryId: z.string().min(1, "Categoria é obrigatória"),
   paymentMethod: z.string().min(1, "Forma de pagamento é obrigatória"),
+  accountId: z.string().optional(),
   isRecurring: z.boolean().default(false),
 });
 
@@ -39,10 +43,11 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("");
   const [dateFilter, setDateFilter] = useState("");
+  const [recurrence, setRecurrence] = useState<RecurrenceRuleValue>(defaultRecurrenceRule);
 
   const queryClient = useQueryClient();
 
-  const { data: transactionsResponse } = useQuery<{ success: boolean; data: any[] } | any[]>({
+  const { data: transactionsResponse } = useQuery<{ success: boolean; data: Transaction[] } | Transaction[]>({
     queryKey: ["/api/transactions"],
   });
 
@@ -83,6 +88,7 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
       date: new Date().toISOString().split('T')[0],
       categoryId: "",
       paymentMethod: "pix",
+      accountId: "",
       isRecurring: false,
     },
   });
@@ -96,6 +102,8 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
         },
         body: JSON.stringify({
           ...data,
+          ...(data.isRecurring ? recurrence : {}),
+          accountId: data.accountId || null,
           type: 'income',
         }),
       });
@@ -109,7 +117,9 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       form.reset();
+      setRecurrence(defaultRecurrenceRule);
       toast({
         title: "Receita cadastrada",
         description: "Receita foi cadastrada com sucesso!",
@@ -141,6 +151,7 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       setDeletingTransaction(null);
       toast({
         title: "Transação excluída",
@@ -173,6 +184,7 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       setDeletingTransaction(null);
       toast({
         title: "Transações recorrentes excluídas",
@@ -217,7 +229,9 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
     editForm.setValue("date", transaction.date);
     editForm.setValue("categoryId", transaction.categoryId);
     editForm.setValue("paymentMethod", transaction.paymentMethod);
+    editForm.setValue("accountId", transaction.accountId || "");
     editForm.setValue("isRecurring", transaction.isRecurring || false);
+    setRecurrence(recurrenceRuleOf(allTransactions.find((t) => t.id === (transaction.parentTransactionId || transaction.id))));
   };
 
   const handleCloseEditModal = () => {
@@ -233,6 +247,7 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
       date: "",
       categoryId: "",
       paymentMethod: "pix",
+      accountId: "",
       isRecurring: false,
     },
   });
@@ -246,6 +261,9 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
         },
         body: JSON.stringify({
           ...data,
+          // A regra de uma série existente só muda pelas próximas ou por todas as ocorrências
+          ...(data.isRecurring && !editingTransaction?.isRecurring ? recurrence : {}),
+          accountId: data.accountId || null,
           type: 'income',
         }),
       });
@@ -259,6 +277,7 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       setEditingTransaction(null);
       editForm.reset();
       toast({
@@ -276,6 +295,48 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
     },
   });
 
+  const updateFollowingTransactionsMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: z.infer<typeof incomeSchema> }) => {
+      const response = await fetch(`/api/transactions/${id}/following`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...data,
+          ...recurrence,
+          accountId: data.accountId || null,
+          type: 'income',
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Erro ao atualizar as próximas ocorrências');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      setEditingTransaction(null);
+      editForm.reset();
+      toast({
+        title: "Transações recorrentes atualizadas",
+        description: "Esta e as próximas ocorrências foram atualizadas com sucesso!",
+      });
+    },
+    onError: (error) => {
+      console.error('Erro ao atualizar as próximas ocorrências:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao atualizar as próximas ocorrências. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateRecurringTransactionMutation = useMutation({
     mutationFn: async ({ parentId, data }: { parentId: string; data: z.infer<typeof incomeSchema> }) => {
       const response = await fetch(`/api/transactions/recurring/${parentId}`, {
@@ -285,6 +346,8 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
         },
         body: JSON.stringify({
           ...data,
+          ...recurrence,
+          accountId: data.accountId || null,
           type: 'income',
         }),
       });
@@ -298,6 +361,7 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       setEditingTransaction(null);
       editForm.reset();
       toast({
@@ -321,11 +385,17 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
     }
   };
 
-  const handleUpdateRecurring = (updateType: 'single' | 'recurring') => {
+  const handleUpdateRecurring = (updateType: 'single' | 'following' | 'recurring') => {
     if (editingTransaction) {
       const formData = editForm.getValues();
 
-      if (updateType === 'recurring') {
+      if (updateType === 'following') {
+        // Atualizar esta e as próximas ocorrências (a série é dividida a partir desta)
+        updateFollowingTransactionsMutation.mutate({
+          id: editingTransaction.id,
+          data: formData,
+        });
+      } else if (updateType === 'recurring') {
         // Atualizar todas as transações recorrentes
         const parentId = editingTransaction.parentTransactionId || editingTransaction.id;
         updateRecurringTransactionMutation.mutate({
@@ -454,6 +524,15 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
                     )}
                   </div>
 
+                  <div>
+                    <Label htmlFor="accountId">Conta de destino</Label>
+                    <AccountSelect
+                      id="accountId"
+                      value={form.watch("accountId")}
+                      onChange={(accountId) => form.setValue("accountId", accountId)}
+                    />
+                  </div>
+
                   <div className="flex items-center space-x-2">
                     <input
                       type="checkbox"
@@ -465,6 +544,10 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
                     <Label htmlFor="isRecurring">Receita recorrente</Label>
                   </div>
 
+                  {form.watch("isRecurring") && (
+                    <RecurrenceFields id="recurrence" value={recurrence} onChange={setRecurrence} />
+                  )}
+
                   <Button type="submit" className="w-full" disabled={createTransactionMutation.isPending}>
                     {createTransactionMutation.isPending ? "Cadastrando..." : "Cadastrar Receita"}
                   </Button>
@@ -744,6 +827,15 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
               )}
             </div>
 
+            <div>
+              <Label htmlFor="edit-accountId">Conta de destino</Label>
+              <AccountSelect
+                id="edit-accountId"
+                value={editForm.watch("accountId")}
+                onChange={(accountId) => editForm.setValue("accountId", accountId)}
+              />
+            </div>
+
             <div className="flex items-center space-x-2">
               <input
                 type="checkbox"
@@ -755,6 +847,10 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
               <Label htmlFor="edit-isRecurring">Receita recorrente</Label>
             </div>
 
+            {editForm.watch("isRecurring") && (
+              <RecurrenceFields id="edit-recurrence" value={recurrence} onChange={setRecurrence} />
+            )}
+
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleCloseEditModal}>
                 Cancelar
@@ -765,15 +861,24 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
                     type="button"
                     variant="outline"
                     onClick={() => handleUpdateRecurring('single')}
-                    disabled={updateTransactionMutation.isPending || updateRecurringTransactionMutation.isPending}
+                    disabled={updateTransactionMutation.isPending || updateFollowingTransactionsMutation.isPending || updateRecurringTransactionMutation.isPending}
                     className="flex-1"
                   >
                     Atualizar Apenas Esta
                   </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => handleUpdateRecurring('following')}
+                    disabled={updateTransactionMutation.isPending || updateFollowingTransactionsMutation.isPending || updateRecurringTransactionMutation.isPending}
+                    className="flex-1"
+                  >
+                    Esta e as Próximas
+                  </Button>
                   <Button
                     type="submit"
                     onClick={() => handleUpdateRecurring('recurring')}
-                    disabled={updateTransactionMutation.isPending || updateRecurringTransactionMutation.isPending}
+                    disabled={updateTransactionMutation.isPending || updateFollowingTransactionsMutation.isPending || updateRecurringTransactionMutation.isPending}
                     className="flex-1"
                   >
                     {updateRecurringTransactionMutation.isPending ? "Salvando..." : "Atualizar Todas as Recorrentes"}
@@ -810,7 +915,7 @@ export default function IncomeForm({ categories, selectedMonth, selectedYear }:
                         <span className="text-yellow-600 text-lg mt-0.5 flex-shrink-0">•</span>
                         <div className="text-sm text-yellow-700 flex-1 min-w-0">
                           <span className="font-medium">Excluir apenas esta:</span>
-                          <span className="block text-xs mt-1 text-yellow-600">Remove apenas esta transação específica</span>
+                          <span className="block text-xs mt-1 text-yellow-600">Pula esta ocorrência; as próximas continuam sendo geradas</span>
                         </div>
                       </div>
                       <div className="flex items-start gap-3">
@@ -0,0 +1,593 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/financial-utils";
+import AccountSelect from "@/components/account-select";
+import { Briefcase, Pencil, Plus, Trash2, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import type { IncomeSource, PayrollDeduction, PayrollKind, Vacation } from "@shared/schema";
+
+export const payrollKindLabels: Record<PayrollKind, string> = {
+  salary: "Salário",
+  thirteenth_first: "13º salário (1ª parcela)",
+  thirteenth_second: "13º salário (2ª parcela)",
+  vacation: "Férias",
+};
+
+/** Payroll breakdown of a payment, as the API returns it (amounts as decimal strings) */
+export interface PaycheckView {
+  payDate: string;
+  workingDays: number;
+  earnings: Array<{ description: string; amount: string; exempt?: boolean }>;
+  gross: string;
+  inss: string;
+  irrf: string;
+  transportAllowance: string;
+  mealAllowance: string;
+  transportDiscount: string;
+  deductions: Array<{ description: string; amount: string }>;
+  net: string;
+  fgts: string;
+}
+
+interface VacationView extends Omit<Vacation, "createdAt"> {
+  pay: PaycheckView;
+}
+
+// Fonte devolvida por GET /api/income-sources, com o próximo contracheque e as férias
+interface IncomeSourceView extends Omit<IncomeSource, "createdAt"> {
+  nextPaycheck: PaycheckView;
+  vacations: VacationView[];
+}
+
+interface FgtsProjectionView {
+  annualYield: string;
+  startingBalance: string;
+  months: Array<{ month: string; deposit: string; yield: string; balance: string }>;
+}
+
+interface IncomeSourceFormState {
+  name: string;
+  grossSalary: string;
+  payBusinessDay: string;
+  dependents: string;
+  dailyTransportAllowance: string;
+  dailyMealAllowance: string;
+  accountId: string;
+  startDate: string;
+  deductions: PayrollDeduction[];
+  fgtsBalance: string;
+  fgtsBalanceDate: string;
+  fgtsAnnualYield: string;
+}
+
+const emptySourceForm = (): IncomeSourceFormState => ({
+  name: "",
+  grossSalary: "",
+  payBusinessDay: "5",
+  dependents: "0",
+  dailyTransportAllowance: "0",
+  dailyMealAllowance: "0",
+  accountId: "",
+  startDate: format(new Date(), "yyyy-MM-dd"),
+  deductions: [],
+  fgtsBalance: "0",
+  fgtsBalanceDate: "",
+  fgtsAnnualYield: "3",
+});
+
+const isAmountValid = (value: string) => /^\d+([.,]\d{1,2})?$/.test(value);
+const toAmount = (value: string) => value.replace(",", ".");
+
+/**
+ * Gross-to-net lines of a payment
+ */
+export function PaycheckBreakdown({ paycheck }: { paycheck: PaycheckView }) {
+  const lines: Array<[string, string, boolean]> = [
+    ...paycheck.earnings.map((e): [string, string, boolean] => [e.exempt ? `${e.description} (isento)` : e.description, e.amount, false]),
+    ["INSS", paycheck.inss, true],
+    ["IRRF", paycheck.irrf, true],
+    ["Desconto de VT (até 6%)", paycheck.transportDiscount, true],
+    ...paycheck.deductions.map((d): [string, string, boolean] => [d.description, d.amount, true]),
+    [`VT (${paycheck.workingDays} dias úteis)`, paycheck.transportAllowance, false],
+    [`VR (${paycheck.workingDays} dias úteis)`, paycheck.mealAllowance, false],
+  ];
+
+  return (
+    <div className="text-sm space-y-1">
+      {lines.filter(([, amount]) => Number(amount) !== 0).map(([label, amount, isDiscount]) => (
+        <div key={label} className="flex justify-between">
+          <span className="text-gray-600">{label}</span>
+          <span className={isDiscount ? "text-red-600" : "text-gray-900"}>
+            {isDiscount ? "− " : ""}{formatCurrency(amount)}
+          </span>
+        </div>
+      ))}
+      <div className="flex justify-between border-t pt-1 font-semibold">
+        <span>Líquido em {format(parseISO(paycheck.payDate), "dd/MM/yyyy")}</span>
+        <span className="text-green-600">{formatCurrency(paycheck.net)}</span>
+      </div>
+      {Number(paycheck.fgts) > 0 && (
+        <p className="text-xs text-gray-500">FGTS depositado pelo empregador: {formatCurrency(paycheck.fgts)}</p>
+      )}
+    </div>
+  );
+}
+
+interface VacationFormState {
+  startDate: string;
+  days: string;
+  soldDays: string;
+}
+
+const emptyVacationForm = (): VacationFormState => ({ startDate: "", days: "30", soldDays: "0" });
+
+/**
+ * 13º installments of the year, vacations (with their pay) and the FGTS projection of a source
+ */
+function PayrollExtras({ source, onChanged, onError }: {
+  source: IncomeSourceView;
+  onChanged: () => void;
+  onError: (fallback: string) => (error: Error) => void;
+}) {
+  const year = new Date().getFullYear();
+  const [vacationForm, setVacationForm] = useState<VacationFormState>(emptyVacationForm);
+
+  const { data: thirteenthResponse } = useQuery<{ success: boolean; data: Array<{ kind: PayrollKind; payroll: PaycheckView }> }>({
+    queryKey: [`/api/income-sources/${source.id}/thirteenth?year=${year}`],
+    retry: false,
+  });
+  const { data: fgtsResponse } = useQuery<{ success: boolean; data: FgtsProjectionView }>({
+    queryKey: [`/api/income-sources/${source.id}/fgts?months=12`],
+  });
+  const thirteenth = thirteenthResponse?.data || [];
+  const fgts = fgtsResponse?.data;
+
+  const createVacationMutation = useMutation({
+    mutationFn: async () => apiRequest(`/api/income-sources/${source.id}/vacations`, "POST", {
+      startDate: vacationForm.startDate,
+      days: parseInt(vacationForm.days, 10),
+      soldDays: parseInt(vacationForm.soldDays, 10) || 0,
+    }),
+    onSuccess: () => {
+      onChanged();
+      setVacationForm(emptyVacationForm());
+    },
+    onError: onError("Erro ao agendar as férias"),
+  });
+
+  const deleteVacationMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/vacations/${id}`, "DELETE"),
+    onSuccess: onChanged,
+    onError: onError("Erro ao cancelar as férias"),
+  });
+
+  const days = parseInt(vacationForm.days, 10);
+  const soldDays = parseInt(vacationForm.soldDays, 10) || 0;
+  const isVacationValid = !!vacationForm.startDate && days >= 5 && soldDays >= 0 && soldDays <= 10 && days + soldDays <= 30;
+
+  return (
+    <div className="text-sm space-y-3 border-t pt-3">
+      {thirteenth.length > 0 && (
+        <div>
+          <p className="font-medium">13º salário {year}</p>
+          {thirteenth.map(({ kind, payroll }) => (
+            <div key={kind} className="flex justify-between text-gray-600">
+              <span>{payrollKindLabels[kind]} em {format(parseISO(payroll.payDate), "dd/MM")}</span>
+              <span>{formatCurrency(payroll.net)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <p className="font-medium">Férias</p>
+        {source.vacations.map((vacation) => (
+          <div key={vacation.id} className="flex items-center justify-between text-gray-600">
+            <span>
+              {format(parseISO(vacation.startDate), "dd/MM/yyyy")} · {vacation.days} dias
+              {vacation.soldDays > 0 && ` + ${vacation.soldDays} vendidos`}
+              {" "}· {formatCurrency(vacation.pay.net)} em {format(parseISO(vacation.pay.payDate), "dd/MM")}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-gray-400 hover:text-red-600"
+              disabled={deleteVacationMutation.isPending}
+              onClick={() => deleteVacationMutation.mutate(vacation.id)}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="grid grid-cols-7 gap-2">
+          <Input
+            className="col-span-3"
+            type="date"
+            aria-label="Início das férias"
+            value={vacationForm.startDate}
+            onChange={(e) => setVacationForm({ ...vacationForm, startDate: e.target.value })}
+          />
+          <Input
+            className="col-span-2"
+            type="number"
+            min={5}
+            max={30}
+            aria-label="Dias de férias"
+            title="Dias de férias"
+            value={vacationForm.days}
+            onChange={(e) => setVacationForm({ ...vacationForm, days: e.target.value })}
+          />
+          <Input
+            type="number"
+            min={0}
+            max={10}
+            aria-label="Dias vendidos (abono pecuniário)"
+            title="Dias vendidos (abono pecuniário)"
+            value={vacationForm.soldDays}
+            onChange={(e) => setVacationForm({ ...vacationForm, soldDays: e.target.value })}
+          />
+          <Button
+            variant="outline"
+            onClick={() => createVacationMutation.mutate()}
+            disabled={!isVacationValid || createVacationMutation.isPending}
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {fgts && fgts.months.length > 0 && (
+        <div>
+          <p className="font-medium">FGTS ({fgts.annualYield}% a.a.)</p>
+          <div className="flex justify-between text-gray-600">
+            <span>Saldo estimado hoje</span>
+            <span>{formatCurrency(fgts.startingBalance)}</span>
+          </div>
+          <div className="flex justify-between text-gray-600">
+            <span>Em {format(parseISO(`${fgts.months[fgts.months.length - 1].month}-01`), "MM/yyyy")}</span>
+            <span>{formatCurrency(fgts.months[fgts.months.length - 1].balance)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function IncomeSourceManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingSource, setEditingSource] = useState<IncomeSourceView | null>(null);
+  const [form, setForm] = useState<IncomeSourceFormState>(emptySourceForm);
+  const [newDeduction, setNewDeduction] = useState<PayrollDeduction>({ description: "", amount: "" });
+
+  const { data: sourcesResponse } = useQuery<{ success: boolean; data: IncomeSourceView[] }>({
+    queryKey: ["/api/income-sources"],
+  });
+  const sources = sourcesResponse?.data || [];
+
+  // Os contracheques são transações: resumo, extrato e listas mudam junto com a fonte
+  const onSourcesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/income-sources"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    // Projeções do 13º e do FGTS de cada fonte
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/income-sources/") });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Erro",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: form.name,
+        grossSalary: toAmount(form.grossSalary),
+        payBusinessDay: parseInt(form.payBusinessDay, 10),
+        dependents: parseInt(form.dependents, 10) || 0,
+        dailyTransportAllowance: toAmount(form.dailyTransportAllowance || "0"),
+        dailyMealAllowance: toAmount(form.dailyMealAllowance || "0"),
+        accountId: form.accountId || null,
+        deductions: form.deductions,
+        fgtsBalance: toAmount(form.fgtsBalance || "0"),
+        fgtsBalanceDate: form.fgtsBalanceDate || null,
+        fgtsAnnualYield: toAmount(form.fgtsAnnualYield || "0"),
+        ...(editingSource ? {} : { startDate: form.startDate }),
+      };
+      return editingSource
+        ? apiRequest(`/api/income-sources/${editingSource.id}`, "PUT", payload)
+        : apiRequest("/api/income-sources", "POST", payload);
+    },
+    onSuccess: () => {
+      onSourcesChanged();
+      setIsFormOpen(false);
+      toast({
+        title: "Sucesso",
+        description: editingSource ? "Os próximos pagamentos foram recalculados!" : "Fonte de renda criada!",
+      });
+    },
+    onError: onError("Erro ao salvar a fonte de renda"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/income-sources/${id}`, "DELETE"),
+    onSuccess: onSourcesChanged,
+    onError: onError("Erro ao excluir a fonte de renda"),
+  });
+
+  const openForm = (source: IncomeSourceView | null) => {
+    setEditingSource(source);
+    setForm(source ? {
+      name: source.name,
+      grossSalary: source.grossSalary,
+      payBusinessDay: String(source.payBusinessDay),
+      dependents: String(source.dependents),
+      dailyTransportAllowance: source.dailyTransportAllowance,
+      dailyMealAllowance: source.dailyMealAllowance,
+      accountId: source.accountId || "",
+      startDate: source.startDate,
+      deductions: source.deductions,
+      fgtsBalance: source.fgtsBalance,
+      fgtsBalanceDate: source.fgtsBalanceDate || "",
+      fgtsAnnualYield: source.fgtsAnnualYield,
+    } : emptySourceForm());
+    setNewDeduction({ description: "", amount: "" });
+    setIsFormOpen(true);
+  };
+
+  const addDeduction = () => {
+    setForm({ ...form, deductions: [...form.deductions, { ...newDeduction, amount: toAmount(newDeduction.amount) }] });
+    setNewDeduction({ description: "", amount: "" });
+  };
+
+  const payBusinessDay = parseInt(form.payBusinessDay, 10);
+  const isFormValid = !!form.name.trim() && isAmountValid(form.grossSalary) && Number(toAmount(form.grossSalary)) > 0
+    && payBusinessDay >= 1 && payBusinessDay <= 23
+    && isAmountValid(form.dailyTransportAllowance || "0") && isAmountValid(form.dailyMealAllowance || "0")
+    && isAmountValid(form.fgtsBalance || "0") && /^\d{1,3}([.,]\d{1,4})?$/.test(form.fgtsAnnualYield || "0")
+    && !!form.startDate;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Briefcase className="w-5 h-5" />
+            Salários
+          </CardTitle>
+          <CardDescription>
+            Cada fonte de renda lança o contracheque no dia útil escolhido, pelo líquido: bruto menos INSS e IRRF
+            das tabelas vigentes, desconto de VT e demais descontos, mais VT e VR dos dias úteis do mês. As parcelas do
+            13º e as férias (com o abono pecuniário) também entram como receitas, e o FGTS é projetado com os depósitos de 8%.
+          </CardDescription>
+        </div>
+        <Button onClick={() => openForm(null)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Nova fonte
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {sources.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhuma fonte de renda cadastrada</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {sources.map((source) => (
+              <div key={source.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{source.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {source.payBusinessDay}º dia útil
+                      {source.dependents > 0 && ` · ${source.dependents} dependente(s)`}
+                    </p>
+                  </div>
+                  <span className="flex items-center">
+                    <Button variant="ghost" size="sm" onClick={() => openForm(source)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-gray-400 hover:text-red-600"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(source.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </span>
+                </div>
+                <PaycheckBreakdown paycheck={source.nextPaycheck} />
+                <PayrollExtras source={source} onChanged={onSourcesChanged} onError={onError} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSource ? "Editar fonte de renda" : "Nova fonte de renda"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="income-source-name">Nome</Label>
+              <Input
+                id="income-source-name"
+                placeholder="Ex: Salário Empresa X"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="income-source-gross">Salário bruto (R$)</Label>
+                <Input
+                  id="income-source-gross"
+                  inputMode="decimal"
+                  placeholder="5000,00"
+                  value={form.grossSalary}
+                  onChange={(e) => setForm({ ...form, grossSalary: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="income-source-pay-day">Dia útil do pagamento</Label>
+                <Input
+                  id="income-source-pay-day"
+                  type="number"
+                  min={1}
+                  max={23}
+                  value={form.payBusinessDay}
+                  onChange={(e) => setForm({ ...form, payBusinessDay: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="income-source-dependents">Dependentes (IR)</Label>
+                <Input
+                  id="income-source-dependents"
+                  type="number"
+                  min={0}
+                  value={form.dependents}
+                  onChange={(e) => setForm({ ...form, dependents: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="income-source-vt">VT por dia útil (R$)</Label>
+                <Input
+                  id="income-source-vt"
+                  inputMode="decimal"
+                  value={form.dailyTransportAllowance}
+                  onChange={(e) => setForm({ ...form, dailyTransportAllowance: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="income-source-vr">VR por dia útil (R$)</Label>
+                <Input
+                  id="income-source-vr"
+                  inputMode="decimal"
+                  value={form.dailyMealAllowance}
+                  onChange={(e) => setForm({ ...form, dailyMealAllowance: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="income-source-account">Conta do depósito</Label>
+                <AccountSelect
+                  id="income-source-account"
+                  value={form.accountId}
+                  onChange={(accountId) => setForm({ ...form, accountId })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="income-source-start">Início</Label>
+                <Input
+                  id="income-source-start"
+                  type="date"
+                  disabled={!!editingSource}
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="income-source-fgts">Saldo do FGTS (R$)</Label>
+                <Input
+                  id="income-source-fgts"
+                  inputMode="decimal"
+                  value={form.fgtsBalance}
+                  onChange={(e) => setForm({ ...form, fgtsBalance: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="income-source-fgts-date">Saldo em</Label>
+                <Input
+                  id="income-source-fgts-date"
+                  type="date"
+                  value={form.fgtsBalanceDate}
+                  onChange={(e) => setForm({ ...form, fgtsBalanceDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="income-source-fgts-yield">Rendimento (% a.a.)</Label>
+                <Input
+                  id="income-source-fgts-yield"
+                  inputMode="decimal"
+                  value={form.fgtsAnnualYield}
+                  onChange={(e) => setForm({ ...form, fgtsAnnualYield: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Outros descontos em folha</Label>
+              {form.deductions.map((deduction, index) => (
+                <div key={`${deduction.description}-${index}`} className="flex items-center justify-between text-sm border-b py-1">
+                  <span>{deduction.description}</span>
+                  <span className="flex items-center gap-2">
+                    {formatCurrency(deduction.amount)}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setForm({ ...form, deductions: form.deductions.filter((_, i) => i !== index) })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </span>
+                </div>
+              ))}
+              <div className="grid grid-cols-5 gap-2">
+                <Input
+                  className="col-span-3"
+                  placeholder="Ex: Plano de saúde"
+                  value={newDeduction.description}
+                  onChange={(e) => setNewDeduction({ ...newDeduction, description: e.target.value })}
+                />
+                <Input
+                  inputMode="decimal"
+                  placeholder="0,00"
+                  value={newDeduction.amount}
+                  onChange={(e) => setNewDeduction({ ...newDeduction, amount: e.target.value })}
+                />
+                <Button
+                  variant="outline"
+                  onClick={addDeduction}
+                  disabled={!newDeduction.description.trim() || !isAmountValid(newDeduction.amount)}
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            {editingSource && (
+              <p className="text-xs text-gray-500">
+                Pagamentos já recebidos ficam como estão; os próximos contracheques, as parcelas do 13º e as férias ainda não pagas são recalculados.
+              </p>
+            )}
+            <Button className="w-full" onClick={() => saveMutation.mutate()} disabled={!isFormValid || saveMutation.isPending}>
+              {saveMutation.isPending ? "Salvando..." : "Salvar"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
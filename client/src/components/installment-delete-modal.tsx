@@ -1,5 +1,7 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/financial-utils";
+import { Money } from "@shared/money";
 import { useToast } from "@/hooks/use-toast";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
@@ -9,7 +11,7 @@ interface Transaction {
   description: string;
   amount: string;
   date: string;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'refund';
   categoryId?: string;
   paymentMethod?: string;
   installments?: number;
@@ -105,7 +107,7 @@ export default function InstallmentDeleteModal({
             <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
               <p className="text-sm text-red-800">
                 <strong>🚨 Regra de negócio:</strong> Compras parceladas no cartão devem ser excluídas completamente.
-                Todas as {transaction.installments || 2} parcelas serão removidas e o limite total (R$ {parseFloat(transaction.amount) * (transaction.installments || 2)}) será liberado no cartão.
+                Todas as {transaction.installments || 2} parcelas serão removidas e o limite total ({formatCurrency(Money.from(transaction.amount).times(transaction.installments || 2))}) será liberado no cartão.
               </p>
             </div>
           </AlertDialogDescription>
@@ -10,7 +10,7 @@ interface Transaction {
   description: string;
   amount: string;
   date: string;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'refund';
   categoryId?: string;
   paymentMethod?: string;
   installments?: number;
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/financial-utils";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { format, parseISO } from "date-fns";
+
+interface Transaction {
+  id: string;
+  description: string;
+  amount: string;
+  date: string;
+  installments?: number;
+  installmentNumber?: number;
+  parentTransactionId?: string;
+  creditCardId?: string;
+}
+
+// Simulação devolvida pelo servidor: parcelas futuras trazidas a valor presente
+interface InstallmentPayoff {
+  discountRate: number;
+  invoiceClosingDate: string;
+  installments: {
+    id: string;
+    installmentNumber: number | null;
+    date: string;
+    amount: string;
+    monthsAhead: number;
+    discountedAmount: string;
+  }[];
+  originalAmount: string;
+  payoffAmount: string;
+  savings: string;
+  explanation: string;
+}
+
+interface InstallmentPayoffModalProps {
+  transaction: Transaction | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function InstallmentPayoffModal({
+  transaction,
+  isOpen,
+  onClose
+}: InstallmentPayoffModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [discountRate, setDiscountRate] = useState("1");
+
+  // Se é a primeira parcela (sem parentTransactionId), usar seu próprio ID
+  const parentId = transaction?.parentTransactionId || transaction?.id;
+  const rate = discountRate.replace(',', '.');
+  const isRateValid = /^\d{1,2}(\.\d{1,4})?$/.test(rate);
+
+  const { data: payoffResponse, error, isFetching } = useQuery<{ success: boolean; data: InstallmentPayoff }>({
+    queryKey: [`/api/transactions/installments/${parentId}/payoff?discountRate=${rate}`],
+    enabled: isOpen && !!parentId && isRateValid,
+    staleTime: 0,
+  });
+  const payoff = payoffResponse?.data;
+
+  const payOffMutation = useMutation({
+    mutationFn: async (data: { parentId: string; discountRate: string }) => {
+      const response = await apiRequest(`/api/transactions/installments/${data.parentId}/payoff`, "POST", {
+        discountRate: data.discountRate,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Parcelas antecipadas",
+        description: data.message || "As parcelas foram lançadas na fatura atual.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credit-cards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credit-card-invoices"] });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Erro ao antecipar as parcelas. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!transaction) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Antecipar parcelas</DialogTitle>
+          <DialogDescription>
+            As parcelas futuras de "{transaction.description}" vão para a fatura atual com desconto
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="discountRate">Desconto (% a.m.)</Label>
+            <Input
+              id="discountRate"
+              inputMode="decimal"
+              value={discountRate}
+              onChange={(e) => setDiscountRate(e.target.value)}
+            />
+          </div>
+
+          {!isRateValid && (
+            <p className="text-sm text-red-600">Informe a taxa de desconto mensal, por exemplo 1,5.</p>
+          )}
+          {error && (
+            <p className="text-sm text-red-600">Não há parcelas futuras desta compra para antecipar.</p>
+          )}
+          {isFetching && <p className="text-sm text-gray-600">Calculando...</p>}
+
+          {payoff && isRateValid && !error && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                {payoff.installments.map((installment) => (
+                  <div key={installment.id} className="flex justify-between text-sm border-b py-1">
+                    <span>
+                      {installment.installmentNumber}/{transaction.installments} · {format(parseISO(installment.date), 'dd/MM/yyyy')}
+                    </span>
+                    <span>
+                      <span className="line-through text-gray-400 mr-2">{formatCurrency(installment.amount)}</span>
+                      {formatCurrency(installment.discountedAmount)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-3 gap-3 text-sm text-center">
+                <div className="p-3 border rounded-lg">
+                  <p className="text-gray-600">Parcelas</p>
+                  <p className="font-semibold">{formatCurrency(payoff.originalAmount)}</p>
+                </div>
+                <div className="p-3 border rounded-lg">
+                  <p className="text-gray-600">Na fatura atual</p>
+                  <p className="font-semibold">{formatCurrency(payoff.payoffAmount)}</p>
+                </div>
+                <div className="p-3 border rounded-lg">
+                  <p className="text-gray-600">Economia</p>
+                  <p className="font-semibold text-green-600">{formatCurrency(payoff.savings)}</p>
+                </div>
+              </div>
+
+              <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                <p className="text-sm text-blue-800">{payoff.explanation}</p>
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button
+              className="flex-1"
+              disabled={!parentId || !payoff || !isRateValid || !!error || payOffMutation.isPending}
+              onClick={() => parentId && payOffMutation.mutate({ parentId, discountRate: rate })}
+            >
+              {payOffMutation.isPending ? "Antecipando..." : "Antecipar"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
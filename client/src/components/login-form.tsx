@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 
 const loginSchema = z.object({
   email: z.string().email("Email inválido"),
@@ -25,7 +26,7 @@ type LoginFormData = z.infer<typeof loginSchema>;
 type RegisterFormData = z.infer<typeof registerSchema>;
 
 interface LoginFormProps {
-  onLogin: (userData: { name: string; email: string }) => void;
+  onLogin: (userData: { name: string; email: string; profileImage?: string }) => void;
 }
 
 export default function LoginForm({ onLogin }: LoginFormProps) {
@@ -50,36 +51,44 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
     },
   });
 
-  const handleLogin = (data: LoginFormData) => {
-    // Simular autenticação
-    const userData = {
-      name: "Usuário Demo",
-      email: data.email,
-    };
-    
-    localStorage.setItem("userData", JSON.stringify(userData));
-    onLogin(userData);
-    
-    toast({
-      title: "Login realizado",
-      description: "Bem-vindo ao sistema!",
-    });
+  const handleLogin = async (data: LoginFormData) => {
+    try {
+      const response = await apiRequest("/api/login", "POST", data);
+      onLogin(await response.json());
+
+      toast({
+        title: "Login realizado",
+        description: "Bem-vindo ao sistema!",
+      });
+    } catch (error) {
+      toast({
+        title: "Não foi possível entrar",
+        description: error instanceof Error && error.message.startsWith("401")
+          ? "Email ou senha inválidos."
+          : "Tente novamente em instantes.",
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleRegister = (data: RegisterFormData) => {
-    // Simular registro
-    const userData = {
-      name: data.name,
-      email: data.email,
-    };
-    
-    localStorage.setItem("userData", JSON.stringify(userData));
-    onLogin(userData);
-    
-    toast({
-      title: "Conta criada",
-      description: "Sua conta foi criada com sucesso!",
-    });
+  const handleRegister = async ({ confirmPassword, ...data }: RegisterFormData) => {
+    try {
+      const response = await apiRequest("/api/register", "POST", data);
+      onLogin(await response.json());
+
+      toast({
+        title: "Conta criada",
+        description: "Sua conta foi criada com sucesso!",
+      });
+    } catch (error) {
+      toast({
+        title: "Não foi possível criar a conta",
+        description: error instanceof Error && error.message.startsWith("409")
+          ? "Já existe uma conta com este email."
+          : "Tente novamente em instantes.",
+        variant: "destructive",
+      });
+    }
   };
 
   return (
@@ -160,7 +169,7 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
                 )}
               </div>
 
-              <Button type="submit" className="w-full">
+              <Button type="submit" className="w-full" disabled={registerForm.formState.isSubmitting}>
                 Criar conta
               </Button>
             </form>
@@ -196,7 +205,7 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
                 )}
               </div>
 
-              <Button type="submit" className="w-full">
+              <Button type="submit" className="w-full" disabled={loginForm.formState.isSubmitting}>
                 Entrar
               </Button>
             </form>
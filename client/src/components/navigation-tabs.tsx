@@ -8,10 +8,12 @@ export default function NavigationTabs({ activeTab, onTabChange }: NavigationTab
     { id: "dashboard", label: "📊 Dashboard", short: "📊" },
     { id: "income", label: "💵 Receitas", short: "💵" },
     { id: "expenses", label: "💸 Despesas", short: "💸" },
+    { id: "accounts", label: "🏦 Contas", short: "🏦" },
     { id: "credit-cards", label: "💳 Cartões", short: "💳" },
     { id: "credit-expenses", label: "💳 Despesas Crédito", short: "💳" },
     { id: "subscriptions", label: "📱 Assinaturas", short: "📱" },
     { id: "categories", label: "🏷️ Categorias", short: "🏷️" },
+    { id: "import", label: "📥 Importar", short: "📥" },
     { id: "settings", label: "⚙️ Configurações", short: "⚙️" },
   ];
 
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import ImportPreviewTable, {
+  defaultSelection,
+  isLockedDuplicate,
+  toImportEntry,
+  type ImportPreviewEntry,
+} from "@/components/import-preview-table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { FileUp, ArrowLeft, Upload } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Category, CreditCard } from "@shared/schema";
+import type { AccountWithBalance } from "@/components/account-select";
+
+// Valor usado no Select para importar sem conta nem cartão vinculados
+const ACCOUNT_TARGET = "account";
+
+interface OfxPreview {
+  statement: {
+    kind: "bank" | "creditcard";
+    version: 1 | 2;
+    currency?: string;
+    bankId?: string;
+    accountId?: string;
+    startDate?: string;
+    endDate?: string;
+    count: number;
+  };
+  ignored: string[];
+  entries: ImportPreviewEntry[];
+}
+
+/**
+ * Decode the file using the charset declared in the OFX header.
+ * Brazilian banks still export OFX 1.x as windows-1252, which breaks accents if read as UTF-8.
+ */
+async function readOfxFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  const head = new TextDecoder("ascii").decode(buffer.slice(0, 512));
+
+  let encoding = "utf-8";
+  if (/CHARSET:\s*1252/i.test(head)) {
+    encoding = "windows-1252";
+  } else {
+    const xmlEncoding = /<\?xml[^>]*encoding=["']([^"']+)["']/i.exec(head);
+    if (xmlEncoding) encoding = xmlEncoding[1];
+  }
+
+  try {
+    return new TextDecoder(encoding).decode(buffer);
+  } catch {
+    return new TextDecoder("utf-8").decode(buffer);
+  }
+}
+
+export default function OfxImportWizard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [target, setTarget] = useState<string>(ACCOUNT_TARGET);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<OfxPreview | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const { data: creditCardsResponse } = useQuery<{ success: boolean; data: CreditCard[] }>({
+    queryKey: ["/api/credit-cards"],
+  });
+  const creditCards = creditCardsResponse?.data || [];
+
+  const { data: accountsResponse } = useQuery<{ success: boolean; data: AccountWithBalance[] }>({
+    queryKey: ["/api/accounts"],
+  });
+  const accounts = (accountsResponse?.data || []).filter(account => account.isActive);
+  const creditCardId = creditCards.some(card => card.id === target) ? target : null;
+  const accountId = accounts.some(account => account.id === target) ? target : null;
+
+  const { data: categoriesResponse } = useQuery<{ success: boolean; data: Category[] }>({
+    queryKey: ["/api/categories"],
+  });
+  const categories = categoriesResponse?.data || [];
+
+  const previewMutation = useMutation({
+    mutationFn: async (ofxFile: File) => {
+      const content = await readOfxFile(ofxFile);
+      const response = await apiRequest("/api/import/ofx/preview", "POST", { content, creditCardId, accountId });
+      return (await response.json()).data as OfxPreview;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setSelected(defaultSelection(data.entries));
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao ler arquivo",
+        description: error.message || "Não foi possível ler o arquivo OFX",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (entries: ImportPreviewEntry[]) => {
+      const response = await apiRequest("/api/import/transactions", "POST", {
+        creditCardId,
+        accountId,
+        entries: entries.map(toImportEntry),
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credit-cards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      toast({
+        title: "Importação concluída",
+        description: result.message,
+      });
+      reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao importar lançamentos",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setSelected(new Set());
+  };
+
+  const changeCategory = (key: string, categoryId: string | null) => {
+    setPreview(prev => prev && {
+      ...prev,
+      entries: prev.entries.map(entry => entry.key === key ? { ...entry, categoryId, categorySource: null } : entry),
+    });
+  };
+
+  const selectedEntries = preview?.entries.filter(entry => !isLockedDuplicate(entry) && selected.has(entry.key)) || [];
+  const duplicateCount = preview?.entries.filter(entry => entry.duplicate).length || 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileUp className="w-5 h-5" />
+          Importar extrato OFX
+        </CardTitle>
+        <CardDescription>
+          Lançamentos já importados são reconhecidos pelo identificador do banco (FITID) ou por valor, data e descrição parecidos.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!preview ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Destino</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ACCOUNT_TARGET}>📄 Sem conta vinculada</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      🏦 {account.name}
+                    </SelectItem>
+                  ))}
+                  {creditCards.map((card) => (
+                    <SelectItem key={card.id} value={card.id}>
+                      💳 {card.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="ofx-file">Arquivo (.ofx)</Label>
+              <Input
+                id="ofx-file"
+                type="file"
+                accept=".ofx,.qfx,application/x-ofx"
+                onChange={(event) => setFile(event.target.files?.[0] || null)}
+              />
+            </div>
+            <div className="md:col-span-2 flex justify-end">
+              <Button
+                onClick={() => file && previewMutation.mutate(file)}
+                disabled={!file || previewMutation.isPending}
+              >
+                {previewMutation.isPending ? "Lendo arquivo..." : "Pré-visualizar"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              <Badge variant="outline">
+                {preview.statement.kind === "creditcard" ? "Fatura de cartão" : "Extrato bancário"}
+              </Badge>
+              {preview.statement.startDate && preview.statement.endDate && (
+                <span>
+                  {format(parseISO(preview.statement.startDate), "dd/MM/yyyy", { locale: ptBR })} a{" "}
+                  {format(parseISO(preview.statement.endDate), "dd/MM/yyyy", { locale: ptBR })}
+                </span>
+              )}
+              <span>• {preview.statement.count} lançamento(s)</span>
+              {duplicateCount > 0 && <span>• {duplicateCount} possivelmente já cadastrado(s)</span>}
+              {preview.ignored.length > 0 && <span className="text-amber-700">• {preview.ignored.length} ignorado(s)</span>}
+            </div>
+
+            {preview.ignored.length > 0 && (
+              <details className="text-sm text-amber-700">
+                <summary className="cursor-pointer">Ver lançamentos ignorados</summary>
+                <ul className="list-disc pl-5 mt-2 space-y-1">
+                  {preview.ignored.map((notice) => (
+                    <li key={notice}>{notice}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            <ImportPreviewTable
+              entries={preview.entries}
+              selected={selected}
+              onSelectedChange={setSelected}
+              categories={categories}
+              onCategoryChange={changeCategory}
+            />
+
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={reset} disabled={importMutation.isPending}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Voltar
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(selectedEntries)}
+                disabled={selectedEntries.length === 0 || importMutation.isPending}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {importMutation.isPending ? "Importando..." : `Importar ${selectedEntries.length} lançamento(s)`}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,302 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/financial-utils";
+import { Money } from "@shared/money";
+import { Lock, LockOpen } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import type { ClearedStatus, Reconciliation } from "@shared/schema";
+
+type ReconciliationItemKind = "transaction" | "transfer" | "invoice_payment";
+
+// Conciliação devolvida por GET /api/reconciliations/:id
+interface ReconciliationView extends Omit<Reconciliation, "completedAt" | "createdAt"> {
+  completedAt: string | null;
+  startingBalance: string;
+  items: Array<{
+    kind: ReconciliationItemKind;
+    id: string;
+    date: string;
+    description: string;
+    amount: string;
+    clearedStatus: ClearedStatus;
+  }>;
+  clearedBalance: string;
+  difference: string;
+}
+
+/** What is being reconciled: an account statement or a closed card invoice */
+export interface ReconciliationTarget {
+  accountId?: string;
+  invoiceId?: string;
+  title: string;
+}
+
+interface ReconciliationDialogProps {
+  target: ReconciliationTarget | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const isBalanceValid = (value: string) => /^-?\d+([.,]\d{1,2})?$/.test(value);
+
+export default function ReconciliationDialog({ target, isOpen, onClose }: ReconciliationDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isInvoice = !!target?.invoiceId;
+  const filter = target?.accountId ? `?accountId=${target.accountId}` : `?invoiceId=${target?.invoiceId}`;
+
+  const [statementDate, setStatementDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [statementBalance, setStatementBalance] = useState("");
+
+  const { data: listResponse } = useQuery<{ success: boolean; data: Reconciliation[] }>({
+    queryKey: ["/api/reconciliations", filter],
+    enabled: isOpen && !!target,
+  });
+  const reconciliations = listResponse?.data || [];
+  // A conciliação em andamento; para faturas, a única que existe
+  const current = reconciliations.find((r) => r.status === "open") || (isInvoice ? reconciliations[0] : undefined);
+  const latestCompleted = reconciliations.find((r) => r.status === "completed");
+
+  const { data: viewResponse } = useQuery<{ success: boolean; data: ReconciliationView }>({
+    queryKey: ["/api/reconciliations/", current?.id],
+    enabled: isOpen && !!current,
+  });
+  const view = current ? viewResponse?.data : undefined;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStatementBalance(view ? view.statementBalance : "");
+  }, [isOpen, view?.id, view?.statementBalance]);
+
+  const onReconciliationChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/reconciliations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reconciliations/"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts/"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Erro", description: error.message || "Erro na conciliação", variant: "destructive" });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async () => apiRequest("/api/reconciliations", "POST", {
+      accountId: target?.accountId ?? null,
+      invoiceId: target?.invoiceId ?? null,
+      statementDate: isInvoice ? undefined : statementDate,
+      statementBalance: statementBalance.replace(",", "."),
+    }),
+    onSuccess: onReconciliationChanged,
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (balance: string) => apiRequest(`/api/reconciliations/${current!.id}`, "PUT", {
+      statementBalance: balance.replace(",", "."),
+    }),
+    onSuccess: onReconciliationChanged,
+    onError,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async (data: { items: Array<{ kind: ReconciliationItemKind; id: string }>; cleared: boolean }) =>
+      apiRequest(`/api/reconciliations/${current!.id}/items`, "PUT", data),
+    onSuccess: onReconciliationChanged,
+    onError,
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async () => apiRequest(`/api/reconciliations/${current!.id}/complete`, "POST"),
+    onSuccess: () => {
+      onReconciliationChanged();
+      toast({ title: "Conciliação concluída", description: "O período ficou travado para edição." });
+    },
+    onError,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/reconciliations/${id}/unlock`, "POST"),
+    onSuccess: onReconciliationChanged,
+    onError,
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async () => apiRequest(`/api/reconciliations/${current!.id}`, "DELETE"),
+    onSuccess: onReconciliationChanged,
+    onError,
+  });
+
+  const isCompleted = view?.status === "completed";
+  // A diferença acompanha o saldo digitado antes mesmo de salvar
+  const difference = view && isBalanceValid(statementBalance)
+    ? Money.from(statementBalance.replace(",", ".")).minus(view.clearedBalance)
+    : view ? Money.from(view.difference) : Money.ZERO;
+  const openItems = view?.items.filter((item) => item.clearedStatus === "uncleared") || [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Conciliação — {target?.title}</DialogTitle>
+          <DialogDescription>
+            Confira cada lançamento com o extrato do banco. A conciliação só fecha quando a diferença zera,
+            e depois disso o período fica travado até ser desbloqueado.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!current ? (
+          <div className="space-y-4">
+            {latestCompleted && (
+              <div className="flex items-center justify-between text-sm bg-gray-50 p-3 rounded-lg">
+                <span className="flex items-center gap-2">
+                  <Lock className="w-4 h-4" />
+                  Conciliada até {format(parseISO(latestCompleted.statementDate), "dd/MM/yyyy")}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => unlockMutation.mutate(latestCompleted.id)}
+                  disabled={unlockMutation.isPending}
+                >
+                  <LockOpen className="w-4 h-4 mr-2" />
+                  Desbloquear
+                </Button>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              {!isInvoice && (
+                <div>
+                  <Label htmlFor="statement-date">Data final do extrato</Label>
+                  <Input id="statement-date" type="date" value={statementDate} onChange={(e) => setStatementDate(e.target.value)} />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="statement-balance">{isInvoice ? "Total da fatura no extrato (R$)" : "Saldo final do extrato (R$)"}</Label>
+                <Input
+                  id="statement-balance"
+                  inputMode="decimal"
+                  placeholder="0,00"
+                  value={statementBalance}
+                  onChange={(e) => setStatementBalance(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => startMutation.mutate()}
+              disabled={!isBalanceValid(statementBalance) || (!isInvoice && !statementDate) || startMutation.isPending}
+            >
+              {startMutation.isPending ? "Iniciando..." : "Iniciar conciliação"}
+            </Button>
+          </div>
+        ) : view && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <Label htmlFor="statement-balance">Saldo do extrato em {format(parseISO(view.statementDate), "dd/MM/yyyy")}</Label>
+                <Input
+                  id="statement-balance"
+                  inputMode="decimal"
+                  value={statementBalance}
+                  disabled={isCompleted}
+                  onChange={(e) => setStatementBalance(e.target.value)}
+                  onBlur={() => {
+                    if (isBalanceValid(statementBalance) && !Money.from(statementBalance.replace(",", ".")).equals(view.statementBalance)) {
+                      updateMutation.mutate(statementBalance);
+                    }
+                  }}
+                />
+              </div>
+              <div className="text-sm">
+                <p className="text-gray-500">Conferido</p>
+                <p className="font-semibold">{formatCurrency(view.clearedBalance)}</p>
+              </div>
+              <div className="text-sm">
+                <p className="text-gray-500">Diferença</p>
+                <p className={`text-lg font-semibold ${difference.isZero() ? "text-green-600" : "text-red-600"}`}>
+                  {formatCurrency(difference)}
+                </p>
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              {isInvoice
+                ? `Juros, IOF, tarifas e ajustes da fatura já entram conferidos: ${formatCurrency(view.startingBalance)}`
+                : `Saldo já conciliado antes deste extrato: ${formatCurrency(view.startingBalance)}`}
+            </p>
+
+            {!isCompleted && openItems.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={clearMutation.isPending}
+                onClick={() => clearMutation.mutate({ items: openItems.map(({ kind, id }) => ({ kind, id })), cleared: true })}
+              >
+                Marcar todos como conferidos
+              </Button>
+            )}
+
+            <div className="space-y-1">
+              {view.items.length === 0 ? (
+                <p className="text-sm text-gray-500">Nenhum lançamento no período</p>
+              ) : (
+                view.items.map((item) => (
+                  <label key={`${item.kind}-${item.id}`} className="flex items-center justify-between text-sm border-b py-1 gap-2">
+                    <span className="flex items-center gap-2">
+                      <Checkbox
+                        checked={item.clearedStatus !== "uncleared"}
+                        disabled={isCompleted || clearMutation.isPending}
+                        onCheckedChange={(checked) => clearMutation.mutate({
+                          items: [{ kind: item.kind, id: item.id }],
+                          cleared: checked === true,
+                        })}
+                      />
+                      <span className="text-gray-500">{format(parseISO(item.date), "dd/MM/yyyy")}</span>
+                      {item.description}
+                    </span>
+                    <span className={Number(item.amount) < 0 ? "text-red-600" : "text-gray-900"}>
+                      {formatCurrency(item.amount)}
+                    </span>
+                  </label>
+                ))
+              )}
+            </div>
+
+            {isCompleted ? (
+              <div className="flex items-center justify-between">
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  <Lock className="w-3 h-3" />
+                  Conciliada
+                </Badge>
+                <Button variant="outline" onClick={() => unlockMutation.mutate(view.id)} disabled={unlockMutation.isPending}>
+                  <LockOpen className="w-4 h-4 mr-2" />
+                  Desbloquear para editar
+                </Button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={() => discardMutation.mutate()} disabled={discardMutation.isPending}>
+                  Descartar
+                </Button>
+                <Button
+                  className="flex-1"
+                  onClick={() => completeMutation.mutate()}
+                  disabled={!difference.isZero() || updateMutation.isPending || completeMutation.isPending}
+                >
+                  {completeMutation.isPending ? "Concluindo..." : "Concluir conciliação"}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
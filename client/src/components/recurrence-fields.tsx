@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format, parseISO } from "date-fns";
+import type { RecurrenceFrequency, Transaction } from "@shared/schema";
+
+/** Recurrence rule of a series, as stored on its first transaction */
+export interface RecurrenceRuleValue {
+  recurrenceFrequency: RecurrenceFrequency;
+  recurrenceInterval: number;
+  recurrenceDay: number | null;
+  recurrenceEndDate: string | null;
+  recurrenceCount: number | null;
+}
+
+export const defaultRecurrenceRule: RecurrenceRuleValue = {
+  recurrenceFrequency: "monthly",
+  recurrenceInterval: 1,
+  recurrenceDay: null,
+  recurrenceEndDate: null,
+  recurrenceCount: null,
+};
+
+const frequencyLabels: Record<RecurrenceFrequency, string> = {
+  monthly: "Mensal (dia do mês)",
+  business_day: "Mensal (dia útil)",
+  weekly: "Semanal",
+  yearly: "Anual",
+};
+
+const intervalUnits: Record<RecurrenceFrequency, [string, string]> = {
+  monthly: ["mês", "meses"],
+  business_day: ["mês", "meses"],
+  weekly: ["semana", "semanas"],
+  yearly: ["ano", "anos"],
+};
+
+type RecurrenceSource = Partial<Pick<Transaction,
+  "recurrenceFrequency" | "recurrenceInterval" | "recurrenceDay" | "recurrenceEndDate" | "recurrenceCount">>;
+
+// Séries antigas não têm frequência gravada: são mensais no dia da primeira ocorrência
+export function recurrenceRuleOf(root?: RecurrenceSource | null): RecurrenceRuleValue {
+  if (!root) return defaultRecurrenceRule;
+  return {
+    recurrenceFrequency: (root.recurrenceFrequency as RecurrenceFrequency | null) ?? "monthly",
+    recurrenceInterval: root.recurrenceInterval ?? 1,
+    recurrenceDay: root.recurrenceDay ?? null,
+    recurrenceEndDate: root.recurrenceEndDate ?? null,
+    recurrenceCount: root.recurrenceCount ?? null,
+  };
+}
+
+/**
+ * Short description of a rule, e.g. "Todo 5º dia útil, 12 vezes"
+ */
+export function describeRecurrence(rule: RecurrenceRuleValue): string {
+  const { recurrenceFrequency: frequency, recurrenceInterval: interval, recurrenceDay: day } = rule;
+  const [singular, plural] = intervalUnits[frequency];
+  let description = interval > 1 ? `A cada ${interval} ${plural}` : frequency === "weekly" ? "Toda semana" : `Todo ${singular}`;
+
+  if (frequency === "business_day") {
+    description += `, no ${day ?? 1}º dia útil`;
+  } else if (frequency === "monthly" && day) {
+    description += `, no dia ${day}`;
+  }
+  if (rule.recurrenceEndDate) {
+    description += `, até ${format(parseISO(rule.recurrenceEndDate), "dd/MM/yyyy")}`;
+  } else if (rule.recurrenceCount) {
+    description += `, ${rule.recurrenceCount} vezes`;
+  }
+  return description;
+}
+
+type EndMode = "never" | "date" | "count";
+
+interface RecurrenceFieldsProps {
+  id: string;
+  value: RecurrenceRuleValue;
+  onChange: (rule: RecurrenceRuleValue) => void;
+}
+
+const toPositiveInt = (value: string) => (value ? Math.max(1, parseInt(value, 10) || 1) : null);
+
+/**
+ * Inputs for a recurrence rule: frequency, interval, day and when the series ends
+ */
+export default function RecurrenceFields({ id, value, onChange }: RecurrenceFieldsProps) {
+  const [endMode, setEndMode] = useState<EndMode>(
+    value.recurrenceEndDate ? "date" : value.recurrenceCount ? "count" : "never"
+  );
+  const update = (changes: Partial<RecurrenceRuleValue>) => onChange({ ...value, ...changes });
+  const frequency = value.recurrenceFrequency;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor={`${id}-frequency`}>Repetir</Label>
+          <Select
+            value={frequency}
+            onValueChange={(selected) => update({
+              recurrenceFrequency: selected as RecurrenceFrequency,
+              recurrenceDay: selected === "business_day" ? value.recurrenceDay ?? 5 : null,
+            })}
+          >
+            <SelectTrigger id={`${id}-frequency`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(frequencyLabels) as RecurrenceFrequency[]).map((option) => (
+                <SelectItem key={option} value={option}>{frequencyLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor={`${id}-interval`}>A cada ({intervalUnits[frequency][1]})</Label>
+          <Input
+            id={`${id}-interval`}
+            type="number"
+            min={1}
+            value={value.recurrenceInterval}
+            onChange={(e) => update({ recurrenceInterval: toPositiveInt(e.target.value) ?? 1 })}
+          />
+        </div>
+      </div>
+
+      {(frequency === "monthly" || frequency === "business_day") && (
+        <div>
+          <Label htmlFor={`${id}-day`}>
+            {frequency === "business_day" ? "Dia útil do mês (ex.: 5 = quinto dia útil)" : "Dia do mês (vazio = dia da primeira ocorrência)"}
+          </Label>
+          <Input
+            id={`${id}-day`}
+            type="number"
+            min={1}
+            max={frequency === "business_day" ? 23 : 31}
+            value={value.recurrenceDay ?? ""}
+            onChange={(e) => update({ recurrenceDay: toPositiveInt(e.target.value) })}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor={`${id}-end`}>Termina</Label>
+          <Select
+            value={endMode}
+            onValueChange={(selected) => {
+              setEndMode(selected as EndMode);
+              update({ recurrenceEndDate: null, recurrenceCount: null });
+            }}
+          >
+            <SelectTrigger id={`${id}-end`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Nunca</SelectItem>
+              <SelectItem value="date">Em uma data</SelectItem>
+              <SelectItem value="count">Após N ocorrências</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {endMode === "date" && (
+          <div>
+            <Label htmlFor={`${id}-end-date`}>Última data</Label>
+            <Input
+              id={`${id}-end-date`}
+              type="date"
+              value={value.recurrenceEndDate ?? ""}
+              onChange={(e) => update({ recurrenceEndDate: e.target.value || null })}
+            />
+          </div>
+        )}
+        {endMode === "count" && (
+          <div>
+            <Label htmlFor={`${id}-count`}>Ocorrências</Label>
+            <Input
+              id={`${id}-count`}
+              type="number"
+              min={1}
+              value={value.recurrenceCount ?? ""}
+              onChange={(e) => update({ recurrenceCount: toPositiveInt(e.target.value) })}
+            />
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">{describeRecurrence(value)}</p>
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ interface Transaction {
   description: string;
   amount: string;
   date: string;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'refund';
   categoryId?: string;
   paymentMethod?: string;
   isRecurring?: boolean;
@@ -101,8 +101,8 @@ export default function RecurringDeleteModal({
           <AlertDialogDescription>
             {isRecurring ? (
               <>
-                Esta é uma transação recorrente. Você deseja excluir apenas esta transação 
-                ou todas as transações recorrentes relacionadas?
+                Esta é uma transação recorrente. Você deseja pular apenas esta ocorrência
+                (as próximas continuam sendo geradas) ou excluir toda a série?
               </>
             ) : (
               `Tem certeza que deseja excluir a transação "${transaction.description}"? Esta ação não pode ser desfeita.`
@@ -119,7 +119,7 @@ export default function RecurringDeleteModal({
                 className="border-red-200 text-red-600 hover:bg-red-50"
                 disabled={deleteSingleMutation.isPending}
               >
-                Apenas esta
+                Pular esta
               </Button>
               <Button
                 onClick={handleDeleteAll}
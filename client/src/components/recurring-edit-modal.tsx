@@ -1,15 +1,20 @@
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import RecurrenceFields, { describeRecurrence, recurrenceRuleOf, type RecurrenceRuleValue } from "./recurrence-fields";
+import type { Transaction as StoredTransaction } from "@shared/schema";
 
 interface Transaction {
   id: string;
   description: string;
   amount: string;
   date: string;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'refund';
   categoryId?: string;
   paymentMethod?: string;
   isRecurring?: boolean;
@@ -35,6 +40,33 @@ export default function RecurringEditModal({
 }: RecurringEditModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [changeRule, setChangeRule] = useState(false);
+  const [rule, setRule] = useState<RecurrenceRuleValue>(recurrenceRuleOf(null));
+
+  // A regra fica na primeira ocorrência da série
+  const { data: transactionsResponse } = useQuery<{ success: boolean; data: StoredTransaction[] }>({
+    queryKey: ["/api/transactions"],
+    enabled: isOpen,
+  });
+  const parentId = transaction ? transaction.parentTransactionId || transaction.id : undefined;
+  const root = transactionsResponse?.data.find((t) => t.id === parentId);
+  const currentRule = recurrenceRuleOf(root);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setChangeRule(false);
+    setRule(recurrenceRuleOf(root));
+  }, [isOpen, root?.id]);
+
+  // Só as edições da série levam a regra; cada ocorrência mantém a própria data
+  const seriesData = () => (changeRule ? { ...editData, ...rule } : editData);
+
+  const invalidateSeries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/credit-cards"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+  };
 
   const editSingleMutation = useMutation({
     mutationFn: async () => {
@@ -61,20 +93,40 @@ export default function RecurringEditModal({
     },
   });
 
+  const editFollowingMutation = useMutation({
+    mutationFn: async () => {
+      if (!transaction || !editData) return;
+      await apiRequest(`/api/transactions/${transaction.id}/following`, "PUT", seriesData());
+    },
+    onSuccess: () => {
+      toast({
+        title: "Transações atualizadas",
+        description: "Esta e as próximas ocorrências foram atualizadas com sucesso!",
+      });
+      invalidateSeries();
+      onEditAll();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao atualizar as próximas ocorrências. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const editAllRecurringMutation = useMutation({
     mutationFn: async () => {
       if (!transaction || !editData) return;
-      const parentId = transaction.parentTransactionId || transaction.id;
-      await apiRequest(`/api/transactions/recurring/${parentId}`, "PUT", editData);
+      await apiRequest(`/api/transactions/recurring/${parentId}`, "PUT", seriesData());
     },
     onSuccess: () => {
       toast({
         title: "Transações atualizadas",
         description: "Todas as transações recorrentes foram atualizadas com sucesso!",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/credit-cards"] });
+      invalidateSeries();
       onEditAll();
       onClose();
     },
@@ -97,7 +149,7 @@ export default function RecurringEditModal({
 
   if (!transaction) return null;
 
-  const isRecurring = transaction.isRecurring || transaction.parentTransactionId;
+  const isPending = editSingleMutation.isPending || editFollowingMutation.isPending || editAllRecurringMutation.isPending;
 
   return (
     <AlertDialog open={isOpen} onOpenChange={onClose}>
@@ -105,24 +157,42 @@ export default function RecurringEditModal({
         <AlertDialogHeader>
           <AlertDialogTitle>Editar transação recorrente</AlertDialogTitle>
           <AlertDialogDescription>
-            Esta é uma transação recorrente. Você deseja aplicar as alterações apenas 
-            para esta transação ou para todas as transações recorrentes relacionadas?
+            Esta é uma transação recorrente ({describeRecurrence(currentRule).toLowerCase()}). Você deseja aplicar
+            as alterações apenas a esta ocorrência, a esta e às próximas ou a todas as ocorrências da série?
           </AlertDialogDescription>
         </AlertDialogHeader>
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="change-recurrence-rule"
+              checked={changeRule}
+              onCheckedChange={(checked) => setChangeRule(checked === true)}
+            />
+            <Label htmlFor="change-recurrence-rule">Mudar também a regra de repetição</Label>
+          </div>
+          {changeRule && <RecurrenceFields id="edit-recurrence" value={rule} onChange={setRule} />}
+        </div>
         <AlertDialogFooter>
           <AlertDialogCancel>Cancelar</AlertDialogCancel>
           <Button
             onClick={handleEditSingle}
             variant="outline"
             className="border-blue-200 text-blue-600 hover:bg-blue-50"
-            disabled={editSingleMutation.isPending}
+            disabled={isPending || changeRule}
           >
             Apenas esta
           </Button>
+          <Button
+            onClick={() => editFollowingMutation.mutate()}
+            variant="outline"
+            disabled={isPending}
+          >
+            Esta e as próximas
+          </Button>
           <Button
             onClick={handleEditAll}
             className="bg-primary hover:bg-green-600"
-            disabled={editAllRecurringMutation.isPending}
+            disabled={isPending}
           >
             Todas as recorrentes
           </Button>
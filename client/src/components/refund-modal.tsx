@@ -0,0 +1,149 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/financial-utils";
+import { Money } from "@shared/money";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { format } from "date-fns";
+
+interface Transaction {
+  id: string;
+  description: string;
+  amount: string;
+  date: string;
+  installments?: number;
+  installmentNumber?: number;
+  isInstallment?: boolean;
+  creditCardId?: string;
+}
+
+interface RefundModalProps {
+  transaction: Transaction | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function RefundModal({ transaction, isOpen, onClose }: RefundModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [wholePurchase, setWholePurchase] = useState(false);
+
+  // Cada abertura começa pelo estorno total desta transação, com data de hoje
+  useEffect(() => {
+    if (transaction && isOpen) {
+      setAmount(transaction.amount);
+      setDate(format(new Date(), 'yyyy-MM-dd'));
+      setWholePurchase(false);
+    }
+  }, [transaction, isOpen]);
+
+  const refundMutation = useMutation({
+    mutationFn: async (data: { id: string; amount?: string; date: string; wholePurchase: boolean }) => {
+      const response = await apiRequest(`/api/transactions/${data.id}/refund`, "POST", {
+        amount: data.amount,
+        date: data.date,
+        wholePurchase: data.wholePurchase,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Estorno registrado",
+        description: data.message || "O valor foi creditado na fatura do cartão.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credit-cards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credit-card-invoices"] });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Erro ao registrar o estorno. Confira o valor disponível e tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!transaction) return null;
+
+  const isInstallment = Boolean(transaction.isInstallment) && (transaction.installments || 0) > 1;
+  const refundAmount = Money.from(amount || "0");
+  const isAmountValid = wholePurchase || (refundAmount.isPositive() && refundAmount.lessThanOrEqual(transaction.amount));
+
+  const handleRefund = () => {
+    refundMutation.mutate({
+      id: transaction.id,
+      amount: wholePurchase ? undefined : refundAmount.toString(),
+      date,
+      wholePurchase,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Estornar compra</DialogTitle>
+          <DialogDescription>
+            O estorno de "{transaction.description}" é creditado na fatura da data informada e devolve o valor ao limite do cartão
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isInstallment && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={wholePurchase}
+                onChange={(e) => setWholePurchase(e.target.checked)}
+              />
+              Estornar a compra inteira (todas as {transaction.installments} parcelas)
+            </label>
+          )}
+
+          {!wholePurchase && (
+            <div>
+              <Label htmlFor="refundAmount">
+                Valor do estorno {isInstallment && `(parcela ${transaction.installmentNumber}/${transaction.installments})`}
+              </Label>
+              <Input
+                id="refundAmount"
+                type="number"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+              <p className="text-xs text-gray-600 mt-1">Até {formatCurrency(transaction.amount)}</p>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="refundDate">Data do estorno</Label>
+            <Input id="refundDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button
+              className="flex-1"
+              disabled={!isAmountValid || !date || refundMutation.isPending}
+              onClick={handleRefund}
+            >
+              {refundMutation.isPending ? "Estornando..." : "Estornar"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,349 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/financial-utils";
+import { Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import type { Category, RewardProgram, RewardRedemption, RewardType } from "@shared/schema";
+
+// Resumo devolvido por GET /api/rewards
+export interface RewardSummary {
+  program: RewardProgram;
+  unit: RewardType;
+  accrued: string;
+  redeemed: string;
+  expired: string;
+  balance: string;
+  pending: string;
+  expiring: Array<{ expiresAt: string; amount: string }>;
+  accruals: Array<{ closingDate: string; earned: string; expiresAt: string | null; pending: boolean; missingRates: number }>;
+  redemptions: RewardRedemption[];
+}
+
+const rewardTypeLabels: Record<RewardType, string> = {
+  points: "Pontos",
+  miles: "Milhas",
+  cashback: "Cashback",
+};
+
+/**
+ * Balance of a program as shown to the user: reais for cashback, "1.234 pontos" otherwise
+ */
+export function formatRewardAmount(unit: RewardType, amount: string): string {
+  if (unit === "cashback") return formatCurrency(amount);
+  return `${Number(amount).toLocaleString("pt-BR")} ${unit === "miles" ? "milhas" : "pontos"}`;
+}
+
+interface RewardProgramDialogProps {
+  creditCard: { id: string; name: string } | null;
+  summary: RewardSummary | undefined;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function RewardProgramDialog({ creditCard, summary, isOpen, onClose }: RewardProgramDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const program = summary?.program;
+
+  const [name, setName] = useState("");
+  const [rewardType, setRewardType] = useState<RewardType>("points");
+  const [pointsPerUnit, setPointsPerUnit] = useState("1");
+  const [spendCurrency, setSpendCurrency] = useState<"BRL" | "USD">("BRL");
+  const [cashbackRate, setCashbackRate] = useState("1");
+  const [expirationMonths, setExpirationMonths] = useState("");
+  const [multipliers, setMultipliers] = useState<Record<string, string>>({});
+  const [redeemAmount, setRedeemAmount] = useState("");
+  const [redeemDate, setRedeemDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [redeemDescription, setRedeemDescription] = useState("");
+
+  const { data: categoriesResponse } = useQuery<{ success: boolean; data: Category[] }>({
+    queryKey: ["/api/categories"],
+  });
+  const expenseCategories = (categoriesResponse?.data || []).filter((category) => category.type === "expense");
+
+  // Cada abertura mostra o programa salvo do cartão (ou os valores padrão de um novo)
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(program?.name ?? "");
+    setRewardType((program?.rewardType as RewardType) ?? "points");
+    setPointsPerUnit(program?.pointsPerUnit ?? "1");
+    setSpendCurrency(program?.spendCurrency === "USD" ? "USD" : "BRL");
+    setCashbackRate(program?.cashbackRate ?? "1");
+    setExpirationMonths(program?.expirationMonths ? String(program.expirationMonths) : "");
+    setMultipliers(Object.fromEntries(
+      Object.entries(program?.categoryMultipliers ?? {}).map(([categoryId, multiplier]) => [categoryId, String(multiplier)])
+    ));
+    setRedeemAmount("");
+    setRedeemDescription("");
+  }, [isOpen, program]);
+
+  const onRewardsChanged = () => queryClient.invalidateQueries({ queryKey: ["/api/rewards"] });
+  const onError = (error: Error) => {
+    toast({ title: "Erro", description: error.message || "Erro ao salvar", variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        creditCardId: creditCard!.id,
+        name,
+        rewardType,
+        pointsPerUnit: pointsPerUnit.replace(",", "."),
+        spendCurrency,
+        cashbackRate: cashbackRate.replace(",", "."),
+        expirationMonths: expirationMonths ? Number(expirationMonths) : null,
+        categoryMultipliers: Object.fromEntries(
+          Object.entries(multipliers)
+            .filter(([, multiplier]) => Number(multiplier.replace(",", ".")) > 0)
+            .map(([categoryId, multiplier]) => [categoryId, Number(multiplier.replace(",", "."))])
+        ),
+      };
+      return program
+        ? apiRequest(`/api/reward-programs/${program.id}`, "PUT", data)
+        : apiRequest("/api/reward-programs", "POST", data);
+    },
+    onSuccess: () => {
+      onRewardsChanged();
+      toast({ title: "Sucesso", description: "Programa de pontos salvo!" });
+    },
+    onError,
+  });
+
+  const deleteProgramMutation = useMutation({
+    mutationFn: async () => apiRequest(`/api/reward-programs/${program!.id}`, "DELETE"),
+    onSuccess: () => {
+      onRewardsChanged();
+      onClose();
+    },
+    onError,
+  });
+
+  const redeemMutation = useMutation({
+    mutationFn: async () => apiRequest(`/api/reward-programs/${program!.id}/redemptions`, "POST", {
+      amount: redeemAmount.replace(",", "."),
+      date: redeemDate,
+      description: redeemDescription,
+    }),
+    onSuccess: () => {
+      onRewardsChanged();
+      setRedeemAmount("");
+      setRedeemDescription("");
+      toast({ title: "Sucesso", description: "Resgate registrado!" });
+    },
+    onError,
+  });
+
+  const deleteRedemptionMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/reward-redemptions/${id}`, "DELETE"),
+    onSuccess: onRewardsChanged,
+    onError,
+  });
+
+  if (!creditCard) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pontos e cashback - {creditCard.name}</DialogTitle>
+          <DialogDescription>
+            Os pontos de cada fatura entram no saldo quando ela fecha. Compras dos cartões virtuais e adicionais também acumulam.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {summary && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+              <div>
+                <p className="text-xs text-gray-600">Saldo</p>
+                <p className="font-bold">{formatRewardAmount(summary.unit, summary.balance)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-600">Fatura aberta</p>
+                <p className="font-medium">{formatRewardAmount(summary.unit, summary.pending)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-600">Resgatado</p>
+                <p className="font-medium">{formatRewardAmount(summary.unit, summary.redeemed)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-600">Expirado</p>
+                <p className="font-medium">{formatRewardAmount(summary.unit, summary.expired)}</p>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="reward-name">Programa</Label>
+                <Input id="reward-name" placeholder="Ex: Inter Loop" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div>
+                <Label>Tipo</Label>
+                <Select value={rewardType} onValueChange={(value) => setRewardType(value as RewardType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(rewardTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {rewardType === "cashback" ? (
+              <div>
+                <Label htmlFor="reward-cashback">Cashback (%)</Label>
+                <Input id="reward-cashback" inputMode="decimal" value={cashbackRate} onChange={(e) => setCashbackRate(e.target.value)} />
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="reward-points">{rewardTypeLabels[rewardType]} por</Label>
+                  <Input id="reward-points" inputMode="decimal" value={pointsPerUnit} onChange={(e) => setPointsPerUnit(e.target.value)} />
+                </div>
+                <div>
+                  <Label>Moeda do gasto</Label>
+                  <Select value={spendCurrency} onValueChange={(value) => setSpendCurrency(value as "BRL" | "USD")}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="BRL">Real gasto</SelectItem>
+                      <SelectItem value="USD">Dólar gasto (cotação da tabela)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="reward-expiration">Validade (meses, vazio se não expira)</Label>
+              <Input
+                id="reward-expiration"
+                type="number"
+                min="1"
+                value={expirationMonths}
+                onChange={(e) => setExpirationMonths(e.target.value)}
+              />
+            </div>
+
+            {expenseCategories.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Multiplicadores por categoria</p>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                  {expenseCategories.map((category) => (
+                    <div key={category.id}>
+                      <Label className="text-xs">{category.icon} {category.name}</Label>
+                      <Input
+                        inputMode="decimal"
+                        placeholder="1"
+                        value={multipliers[category.id] ?? ""}
+                        onChange={(e) => setMultipliers({ ...multipliers, [category.id]: e.target.value })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={() => saveMutation.mutate()} disabled={!name || saveMutation.isPending}>
+                {saveMutation.isPending ? "Salvando..." : "Salvar programa"}
+              </Button>
+              {program && (
+                <Button
+                  variant="outline"
+                  className="text-red-600"
+                  onClick={() => deleteProgramMutation.mutate()}
+                  disabled={deleteProgramMutation.isPending}
+                >
+                  Remover programa
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {summary && program && (
+            <div className="space-y-4 border-t pt-4">
+              <p className="text-sm font-medium">Resgatar</p>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+                <Input
+                  inputMode="decimal"
+                  placeholder={summary.unit === "cashback" ? "R$" : "Quantidade"}
+                  value={redeemAmount}
+                  onChange={(e) => setRedeemAmount(e.target.value)}
+                />
+                <Input type="date" value={redeemDate} onChange={(e) => setRedeemDate(e.target.value)} />
+                <Input
+                  placeholder="Ex: Passagem, crédito na fatura"
+                  value={redeemDescription}
+                  onChange={(e) => setRedeemDescription(e.target.value)}
+                />
+                <Button
+                  onClick={() => redeemMutation.mutate()}
+                  disabled={!(Number(redeemAmount.replace(",", ".")) > 0) || !redeemDescription || redeemMutation.isPending}
+                >
+                  Resgatar
+                </Button>
+              </div>
+
+              {summary.redemptions.map((redemption) => (
+                <div key={redemption.id} className="flex items-center justify-between text-sm border-b py-1">
+                  <span>
+                    {format(parseISO(redemption.date), "dd/MM/yyyy")} • {redemption.description}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    {formatRewardAmount(summary.unit, redemption.amount)}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-gray-400 hover:text-red-600"
+                      onClick={() => deleteRedemptionMutation.mutate(redemption.id)}
+                      disabled={deleteRedemptionMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {summary && summary.accruals.length > 0 && (
+            <div className="space-y-1 border-t pt-4">
+              <p className="text-sm font-medium">Acúmulo por fatura</p>
+              {[...summary.accruals].reverse().map((accrual) => (
+                <div key={accrual.closingDate} className="flex items-center justify-between text-sm">
+                  <span>
+                    Fatura de {format(parseISO(accrual.closingDate), "dd/MM/yyyy")}
+                    {accrual.pending && <span className="text-gray-500"> (aberta)</span>}
+                    {accrual.missingRates > 0 && (
+                      <span className="text-amber-700"> • {accrual.missingRates} compra(s) sem cotação do dólar</span>
+                    )}
+                  </span>
+                  <span>
+                    {formatRewardAmount(summary.unit, accrual.earned)}
+                    {accrual.expiresAt && (
+                      <span className="text-xs text-gray-500"> até {format(parseISO(accrual.expiresAt), "dd/MM/yyyy")}</span>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
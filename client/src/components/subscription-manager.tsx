@@ -14,6 +14,8 @@ import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Plus, Smartphone, Trash2, Calendar, Pencil, CreditCard, Receipt } from "lucide-react";
+import { formatCurrency } from "@/lib/financial-utils";
+import { Money } from "@shared/money";
 
 // Form schema para assinaturas
 const subscriptionFormSchema = z.object({
@@ -160,9 +162,10 @@ export default function SubscriptionManager() {
 
   const subscriptions = subscriptionsResponse?.data || [];
 
-  const { data: categories = [] } = useQuery<Category[]>({
+  const { data: categoriesResponse } = useQuery<{ success: boolean; data: Category[] }>({
     queryKey: ["/api/categories"],
   });
+  const categories = categoriesResponse?.data || [];
 
   const { data: creditCardsResponse } = useQuery<{
     success: boolean;
@@ -328,13 +331,6 @@ export default function SubscriptionManager() {
     form.reset();
   };
 
-  const formatCurrency = (amount: string) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(parseFloat(amount));
-  };
-
   const getServiceInfo = (serviceId: string) => {
     return subscriptionServices.find(s => s.id === serviceId) || subscriptionServices[0];
   };
@@ -344,9 +340,7 @@ export default function SubscriptionManager() {
   };
 
   const getTotalMonthlyAmount = () => {
-    return subscriptions
-      .filter(sub => sub.isActive)
-      .reduce((total, sub) => total + parseFloat(sub.amount), 0);
+    return Money.sum(subscriptions.filter(sub => sub.isActive).map(sub => sub.amount));
   };
 
   const getPaymentMethodLabel = (method: string) => {
@@ -602,7 +596,7 @@ export default function SubscriptionManager() {
               <div>
                 <p className="text-sm text-gray-600">Total Mensal</p>
                 <p className="text-2xl font-bold text-green-600">
-                  {formatCurrency(getTotalMonthlyAmount().toString())}
+                  {formatCurrency(getTotalMonthlyAmount())}
                 </p>
               </div>
             </div>
@@ -628,7 +622,7 @@ export default function SubscriptionManager() {
               <div>
                 <p className="text-sm text-gray-600">Total Anual</p>
                 <p className="text-2xl font-bold text-purple-600">
-                  {formatCurrency((getTotalMonthlyAmount() * 12).toString())}
+                  {formatCurrency(getTotalMonthlyAmount().times(12))}
                 </p>
               </div>
             </div>
@@ -28,7 +28,7 @@ interface Transaction {
   description: string;
   amount: string;
   date: string;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'refund';
   categoryId?: string;
   paymentMethod?: string;
   isRecurring?: boolean;
@@ -154,7 +154,7 @@ export default function TransactionEditModal({
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
             <DialogTitle>
-              Editar {transaction.type === 'income' ? 'Receita' : 'Despesa'}
+              Editar {transaction.type === 'income' ? 'Receita' : transaction.type === 'refund' ? 'Estorno' : 'Despesa'}
             </DialogTitle>
             <DialogDescription>
               Altere os dados da transação
@@ -10,13 +10,19 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import TransactionEditModal from "./transaction-edit-modal";
 import RecurringDeleteModal from "./recurring-delete-modal";
 import InstallmentDeleteModal from "./installment-delete-modal";
+import InstallmentPayoffModal from "./installment-payoff-modal";
+import RefundModal from "./refund-modal";
+import { formatCurrency } from "@/lib/financial-utils";
+import { Download } from "lucide-react";
+import { endOfMonth, format, startOfMonth, subMonths } from "date-fns";
 
 interface Transaction {
   id: string;
   description: string;
   amount: string;
   date: string;
-  type: 'income' | 'expense';
+  // Estornos (refund) aparecem como crédito, abatendo a compra de origem
+  type: 'income' | 'expense' | 'refund';
   categoryId?: string;
   paymentMethod?: string;
   installments?: number;
@@ -24,6 +30,8 @@ interface Transaction {
   parentTransactionId?: string;
   isRecurring?: boolean;
   isInstallment?: boolean;
+  creditCardId?: string;
+  clearedStatus?: 'uncleared' | 'cleared' | 'reconciled';
 }
 
 interface Category {
@@ -34,6 +42,13 @@ interface Category {
   type: string;
 }
 
+// Opções de planilha: formato do arquivo + convenção numérica (pt-BR usa ";" e vírgula decimal)
+const exportOptions: Record<string, { label: string; format: "xlsx" | "csv"; locale: "pt-BR" | "en-US" }> = {
+  xlsx: { label: "Excel (.xlsx)", format: "xlsx", locale: "pt-BR" },
+  "csv-br": { label: "CSV (1.234,56)", format: "csv", locale: "pt-BR" },
+  "csv-us": { label: "CSV (1,234.56)", format: "csv", locale: "en-US" },
+};
+
 interface TransactionHistoryProps {
   transactions: Transaction[];
   categories: Category[];
@@ -55,6 +70,9 @@ export default function TransactionHistory({
   const [deletingTransaction, setDeletingTransaction] = useState<Transaction | null>(null);
   const [showRecurringDeleteModal, setShowRecurringDeleteModal] = useState(false);
   const [showInstallmentDeleteModal, setShowInstallmentDeleteModal] = useState(false);
+  const [payingOffTransaction, setPayingOffTransaction] = useState<Transaction | null>(null);
+  const [refundingTransaction, setRefundingTransaction] = useState<Transaction | null>(null);
+  const [exportOption, setExportOption] = useState("xlsx");
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -83,13 +101,31 @@ export default function TransactionHistory({
     },
   });
 
-  const formatCurrency = (amount: string) => {
-    const value = parseFloat(amount);
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(value);
-  };
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const option = exportOptions[exportOption];
+      const params = new URLSearchParams({ ...filters, format: option.format, locale: option.locale });
+      const response = await apiRequest(`/api/export/transactions?${params}`, "GET");
+      const filename = /filename="([^"]+)"/.exec(response.headers.get("Content-Disposition") || "")?.[1]
+        || `transacoes.${option.format}`;
+      return { blob: await response.blob(), filename };
+    },
+    onSuccess: ({ blob, filename }) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao gerar planilha",
+        variant: "destructive",
+      });
+    },
+  });
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('pt-BR');
@@ -112,8 +148,29 @@ export default function TransactionHistory({
     return methods[method || ""] || "Não informado";
   };
 
+  // Intervalo do período selecionado, no mesmo formato AAAA-MM-DD de transaction.date
+  const getPeriodRange = (): { start: string; end?: string } | null => {
+    const now = new Date();
+    const toIsoDate = (date: Date) => format(date, "yyyy-MM-dd");
+    switch (filters.period) {
+      case "current-month":
+        return { start: toIsoDate(startOfMonth(now)), end: toIsoDate(endOfMonth(now)) };
+      case "last-month":
+        return { start: toIsoDate(startOfMonth(subMonths(now, 1))), end: toIsoDate(endOfMonth(subMonths(now, 1))) };
+      case "last-3-months":
+        return { start: toIsoDate(subMonths(now, 3)) };
+      default:
+        return null;
+    }
+  };
+  const periodRange = getPeriodRange();
+
   // Filter transactions
   const filteredTransactions = transactions.filter(transaction => {
+    if (periodRange && (transaction.date < periodRange.start || (periodRange.end && transaction.date > periodRange.end))) {
+      return false;
+    }
+
     if (filters.type !== "all" && transaction.type !== filters.type) {
       return false;
     }
@@ -143,9 +200,9 @@ export default function TransactionHistory({
             return (
               <div key={transaction.id} className="flex items-center justify-between py-3 border-b border-gray-100 last:border-b-0">
                 <div className="flex items-center">
-                  <div className={`w-10 h-10 bg-opacity-10 rounded-lg flex items-center justify-center mr-3 ${transaction.type === 'income' ? 'bg-secondary' : 'bg-error'
+                  <div className={`w-10 h-10 bg-opacity-10 rounded-lg flex items-center justify-center mr-3 ${transaction.type !== 'expense' ? 'bg-secondary' : 'bg-error'
                     }`}>
-                    <span className={transaction.type === 'income' ? 'text-secondary' : 'text-error'}>
+                    <span className={transaction.type !== 'expense' ? 'text-secondary' : 'text-error'}>
                       {categoryInfo.icon}
                     </span>
                   </div>
@@ -155,8 +212,8 @@ export default function TransactionHistory({
                   </div>
                 </div>
                 <div className="text-right">
-                  <p className={`font-semibold ${transaction.type === 'income' ? 'text-secondary' : 'text-error'}`}>
-                    {transaction.type === 'income' ? '+' : '-'}{formatCurrency(transaction.amount)}
+                  <p className={`font-semibold ${transaction.type !== 'expense' ? 'text-secondary' : 'text-error'}`}>
+                    {transaction.type !== 'expense' ? '+' : '-'}{formatCurrency(transaction.amount)}
                   </p>
                   <p className="text-sm text-gray-600">{formatDate(transaction.date)}</p>
                 </div>
@@ -174,7 +231,25 @@ export default function TransactionHistory({
     <div className="bg-white rounded-xl shadow-sm border border-gray-200">
       {/* Filters Section */}
       <div className="p-6 border-b border-gray-200">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">Histórico de Transações</h3>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Histórico de Transações</h3>
+          <div className="flex gap-2">
+            <Select value={exportOption} onValueChange={setExportOption}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(exportOptions).map(([value, option]) => (
+                  <SelectItem key={value} value={value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending}>
+              <Download className="w-4 h-4 mr-2" />
+              {exportMutation.isPending ? "Gerando..." : "Baixar planilha"}
+            </Button>
+          </div>
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div>
             <Label>Período</Label>
@@ -242,9 +317,9 @@ export default function TransactionHistory({
               return (
                 <div key={transaction.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
                   <div className="flex items-center">
-                    <div className={`w-12 h-12 bg-opacity-10 rounded-lg flex items-center justify-center mr-4 ${transaction.type === 'income' ? 'bg-secondary' : 'bg-error'
+                    <div className={`w-12 h-12 bg-opacity-10 rounded-lg flex items-center justify-center mr-4 ${transaction.type !== 'expense' ? 'bg-secondary' : 'bg-error'
                       }`}>
-                      <span className={`text-lg ${transaction.type === 'income' ? 'text-secondary' : 'text-error'}`}>
+                      <span className={`text-lg ${transaction.type !== 'expense' ? 'text-secondary' : 'text-error'}`}>
                         {categoryInfo.icon}
                       </span>
                     </div>
@@ -256,6 +331,21 @@ export default function TransactionHistory({
                             Parcela {transaction.installmentNumber}/{transaction.installments}
                           </span>
                         )}
+                        {transaction.type === 'refund' && (
+                          <span className="ml-2 text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
+                            Estorno
+                          </span>
+                        )}
+                        {transaction.clearedStatus === 'reconciled' && (
+                          <span className="ml-2 text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded-full" title="Período conciliado: desbloqueie a conciliação para editar">
+                            🔒 Conciliado
+                          </span>
+                        )}
+                        {transaction.clearedStatus === 'cleared' && (
+                          <span className="ml-2 text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded-full">
+                            ✓ Conferido
+                          </span>
+                        )}
                       </p>
                       <div className="flex items-center text-sm text-gray-600">
                         <span>{categoryInfo.name}</span>
@@ -265,12 +355,34 @@ export default function TransactionHistory({
                     </div>
                   </div>
                   <div className="text-right">
-                    <p className={`font-semibold ${transaction.type === 'income' ? 'text-secondary' : 'text-error'}`}>
-                      {transaction.type === 'income' ? '+' : '-'}{formatCurrency(transaction.amount)}
+                    <p className={`font-semibold ${transaction.type !== 'expense' ? 'text-secondary' : 'text-error'}`}>
+                      {transaction.type !== 'expense' ? '+' : '-'}{formatCurrency(transaction.amount)}
                     </p>
                     <p className="text-sm text-gray-600">{formatDate(transaction.date)}</p>
                   </div>
                   <div className="ml-4 flex gap-2">
+                    {transaction.creditCardId && transaction.type === 'expense' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-gray-400 hover:text-green-600"
+                        title="Estornar"
+                        onClick={() => setRefundingTransaction(transaction)}
+                      >
+                        ↩️
+                      </Button>
+                    )}
+                    {transaction.isInstallment && transaction.creditCardId && transaction.type === 'expense' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-gray-400 hover:text-green-600"
+                        title="Antecipar parcelas"
+                        onClick={() => setPayingOffTransaction(transaction)}
+                      >
+                        ⏩
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -356,6 +468,20 @@ export default function TransactionHistory({
         }}
       />
 
+      {/* Installment Payoff Modal */}
+      <InstallmentPayoffModal
+        transaction={payingOffTransaction}
+        isOpen={!!payingOffTransaction}
+        onClose={() => setPayingOffTransaction(null)}
+      />
+
+      {/* Refund Modal */}
+      <RefundModal
+        transaction={refundingTransaction}
+        isOpen={!!refundingTransaction}
+        onClose={() => setRefundingTransaction(null)}
+      />
+
       {/* Simple Delete Confirmation Dialog for regular transactions */}
       <AlertDialog open={!!deletingTransaction && !showRecurringDeleteModal && !showInstallmentDeleteModal} onOpenChange={() => setDeletingTransaction(null)}>
         <AlertDialogContent>
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { User, LogOut, Camera } from "lucide-react";
 import PhotoCropModal from "./photo-crop-modal";
@@ -41,18 +42,27 @@ export default function UserProfile({ userData, onUpdateProfile, onLogout }: Use
     },
   });
 
-  const handleSubmit = (data: ProfileFormData) => {
-    localStorage.setItem("userData", JSON.stringify(data));
-    onUpdateProfile(data);
-    setIsDialogOpen(false);
-    toast({
-      title: "Perfil atualizado",
-      description: "Suas informações foram atualizadas com sucesso!",
-    });
+  const handleSubmit = async (data: ProfileFormData) => {
+    try {
+      const response = await apiRequest("/api/user", "PUT", data);
+      onUpdateProfile(await response.json());
+      setIsDialogOpen(false);
+      toast({
+        title: "Perfil atualizado",
+        description: "Suas informações foram atualizadas com sucesso!",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro ao atualizar perfil",
+        description: error instanceof Error && error.message.startsWith("409")
+          ? "Este email já está em uso por outra conta."
+          : "Não foi possível salvar suas informações.",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleLogout = () => {
-    localStorage.removeItem("userData");
     onLogout();
     toast({
       title: "Logout realizado",
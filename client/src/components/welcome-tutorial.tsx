@@ -35,8 +35,8 @@ export default function WelcomeTutorial({ isOpen, onClose }: WelcomeTutorialProp
               <div>
                 <h4 className="font-semibold text-gray-900">Configurações iniciais</h4>
                 <ul className="mt-2 space-y-1 text-sm text-gray-600">
-                  <li>• Acesse a aba <strong>Configurações</strong> para inserir o valor do seu salário.</li>
-                  <li>• Caso você receba <strong>Vale-Transporte (VT)</strong> e/ou <strong>Vale-Refeição (VR)</strong> em dinheiro, informe os valores diários nos campos indicados. O sistema calculará automaticamente o total mensal com base nos dias úteis.</li>
+                  <li>• Acesse a aba <strong>Configurações</strong> e cadastre seu salário em <strong>Salários</strong>: bruto, dia útil do pagamento, dependentes e descontos em folha. O sistema calcula INSS e IRRF e lança o líquido no dia do pagamento.</li>
+                  <li>• Caso você receba <strong>Vale-Transporte (VT)</strong> e/ou <strong>Vale-Refeição (VR)</strong> em dinheiro, informe os valores diários na mesma fonte de renda. O total entra no contracheque conforme os dias úteis do mês.</li>
                 </ul>
               </div>
             </div>
@@ -1,16 +1,20 @@
 import { useState, useEffect } from "react";
 import NavigationTabs from "@/components/navigation-tabs";
-import FinancialSummary from "@/components/financial-summary";
+import FinancialSummary, { type MonthlyPaycheck } from "@/components/financial-summary";
 import IncomeForm from "@/components/income-form";
 import ExpenseForm from "@/components/expense-form";
 import TransactionHistory from "@/components/transaction-history";
 import Charts from "@/components/charts";
 import MonthSelector from "@/components/month-selector";
-import SettingsManager from "@/components/settings-manager";
+import IncomeSourceManager from "@/components/income-source-manager";
 import CreditCardManager from "@/components/credit-card-manager";
+import AccountManager from "@/components/account-manager";
 import CreditCardExpenses from "@/components/credit-card-expenses";
 import SubscriptionManager from "@/components/subscription-manager";
 import { CategoryManager } from "@/components/category-manager";
+import ImportManager from "@/components/import-manager";
+import BackupManager from "@/components/backup-manager";
+import ExchangeRateManager from "@/components/exchange-rate-manager";
 import UserProfile from "@/components/user-profile";
 import MonthProgress from "@/components/month-progress";
 import WelcomeTutorial from "@/components/welcome-tutorial";
@@ -53,9 +57,7 @@ export default function Dashboard({ userData, onLogout, onUpdateProfile }: Dashb
     totalExpenses: number;
     currentBalance: number;
     expensesByCategory: Record<string, number>;
-    monthlySalary?: number;
-    monthlyVT?: number;
-    monthlyVR?: number;
+    paychecks?: MonthlyPaycheck[];
     transactionIncome?: number;
   }>({
     queryKey: ["/api/financial-summary", selectedMonth, selectedYear],
@@ -65,7 +67,7 @@ export default function Dashboard({ userData, onLogout, onUpdateProfile }: Dashb
       if (!response.ok) {
         throw new Error('Failed to fetch financial summary');
       }
-      const data = await response.json();
+      const { data } = await response.json();
       console.log('Financial summary data:', data);
       return data;
     },
@@ -76,13 +78,16 @@ export default function Dashboard({ userData, onLogout, onUpdateProfile }: Dashb
     gcTime: 0,
   });
 
-  const { data: categories = [], isLoading: categoriesLoading } = useQuery<Array<{
-    id: string;
-    name: string;
-    icon: string;
-    color: string;
-    type: string;
-  }>>({
+  const { data: categoriesResponse, isLoading: categoriesLoading } = useQuery<{
+    success: boolean;
+    data: Array<{
+      id: string;
+      name: string;
+      icon: string;
+      color: string;
+      type: string;
+    }>;
+  }>({
     queryKey: ["/api/categories"],
     queryFn: async () => {
       console.log('Fetching categories');
@@ -99,6 +104,7 @@ export default function Dashboard({ userData, onLogout, onUpdateProfile }: Dashb
     refetchOnReconnect: true,
     staleTime: 0,
   });
+  const categories = categoriesResponse?.data || [];
 
   const { data: transactionsResponse } = useQuery<{
     success: boolean;
@@ -208,6 +214,10 @@ export default function Dashboard({ userData, onLogout, onUpdateProfile }: Dashb
           <CreditCardExpenses />
         )}
 
+        {activeTab === "accounts" && (
+          <AccountManager />
+        )}
+
         {activeTab === "credit-cards" && (
           <CreditCardManager />
         )}
@@ -220,8 +230,16 @@ export default function Dashboard({ userData, onLogout, onUpdateProfile }: Dashb
           <CategoryManager />
         )}
 
+        {activeTab === "import" && (
+          <ImportManager />
+        )}
+
         {activeTab === "settings" && (
-          <SettingsManager />
+          <div className="space-y-8">
+            <IncomeSourceManager />
+            <ExchangeRateManager />
+            <BackupManager />
+          </div>
         )}
       </div>
 
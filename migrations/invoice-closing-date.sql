@@ -0,0 +1,12 @@
+-- A coluna due_date das faturas sempre guardou a data de fechamento e passou a se chamar closing_date.
+-- Rodar antes de `npm run db:push`: sem isto o push removeria due_date e criaria closing_date vazia.
+-- Pode ser executado mais de uma vez (não faz nada quando a coluna já foi renomeada).
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'credit_card_invoices' AND column_name = 'due_date'
+  ) THEN
+    ALTER TABLE credit_card_invoices RENAME COLUMN due_date TO closing_date;
+  END IF;
+END $$;
@@ -0,0 +1,126 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { InvoiceService } from "./services/InvoiceService";
+import { TransactionService } from "./services/TransactionService";
+import { AccountService } from "./services/AccountService";
+import { ConflictError, ValidationError } from "./middleware/ErrorHandlingMiddleware";
+import { useFixture } from "./testing";
+
+describe("bank accounts", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2027, 5, 1, 10, 0));
+  const invoices = new InvoiceService(storage, clock);
+  const transactions = new TransactionService(storage, clock);
+  const accounts = new AccountService(storage, clock);
+  let checkingId: string;
+  let walletId: string;
+  let accountCardId: string;
+
+  before(async () => {
+    checkingId = (await asUser(() => accounts.createAccount({
+      name: "Conta corrente", type: "checking", openingBalance: "1000", openingDate: "2027-06-01",
+    }))).id;
+    walletId = (await asUser(() => accounts.createAccount({
+      name: "Carteira", type: "wallet", openingBalance: "0", openingDate: "2027-06-01",
+    }))).id;
+    accountCardId = (await asUser(() => storage.createCreditCard({
+      name: "Conta", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+    }))).id;
+  });
+
+  const balanceOf = async (accountId: string) =>
+    (await asUser(() => accounts.getAccounts())).find(account => account.id === accountId)!.balance.toString();
+
+  it("adds the income and expenses linked to the account to its opening balance", async () => {
+    await asUser(() => transactions.recordTransaction({
+      description: "Salário", amount: "3000", date: "2027-06-01", type: "income", accountId: checkingId,
+    }));
+    await asUser(() => transactions.recordTransaction({
+      description: "Aluguel", amount: "1500", date: "2027-06-01", type: "expense", accountId: checkingId,
+    }));
+    // Lançamento futuro entra no extrato, mas não no saldo de hoje
+    await asUser(() => transactions.recordTransaction({
+      description: "Luz", amount: "200", date: "2027-06-15", type: "expense", accountId: checkingId,
+    }));
+
+    assert.equal(await balanceOf(checkingId), "2500.00");
+    const statement = await asUser(() => accounts.getStatement(checkingId));
+    assert.deepEqual(statement.entries.map(e => [e.description, e.amount.toString(), e.balance.toString()]), [
+      ["Salário", "3000.00", "4000.00"],
+      ["Aluguel", "-1500.00", "2500.00"],
+      ["Luz", "-200.00", "2300.00"],
+    ]);
+  });
+
+  it("moves money between accounts without counting it as income or expense", async () => {
+    const before = (await asUser(() => storage.getTransactions())).length;
+    await asUser(() => accounts.transfer({
+      fromAccountId: checkingId, toAccountId: walletId, amount: "100", date: "2027-06-01",
+    }));
+
+    assert.equal(await balanceOf(checkingId), "2400.00");
+    assert.equal(await balanceOf(walletId), "100.00");
+    assert.equal((await asUser(() => storage.getTransactions())).length, before);
+    await assert.rejects(
+      asUser(() => accounts.transfer({ fromAccountId: walletId, toAccountId: walletId, amount: "10", date: "2027-06-01" })),
+      ValidationError,
+    );
+  });
+
+  it("takes the card invoice paid from the account out of its balance", async () => {
+    await asUser(() => transactions.recordTransaction({
+      description: "Mercado", amount: "300", date: "2027-06-02", type: "expense", creditCardId: accountCardId,
+    }));
+    clock.set(new Date(2027, 5, 12, 10, 0));
+    const invoice = await asUser(() => invoices.getInvoice(accountCardId, "2027-06-10"));
+    await asUser(() => invoices.payInvoice(invoice.id, "300", { accountId: checkingId }));
+
+    // A compra no cartão não mexe na conta; só o pagamento da fatura
+    assert.equal(await balanceOf(checkingId), "2100.00");
+    const statement = await asUser(() => accounts.getStatement(checkingId, "2027-06-12", "2027-06-30"));
+    assert.equal(statement.startingBalance.toString(), "2400.00");
+    assert.deepEqual(statement.entries.map(e => [e.kind, e.amount.toString()]), [
+      ["invoice_payment", "-300.00"],
+      ["expense", "-200.00"],
+    ]);
+  });
+
+  it("rejects card transactions linked to an account", async () => {
+    await assert.rejects(
+      asUser(() => transactions.recordTransaction({
+        description: "Farmácia", amount: "50", date: "2027-06-12", type: "expense",
+        creditCardId: accountCardId, accountId: checkingId,
+      })),
+      ValidationError,
+    );
+  });
+
+  it("only deletes accounts without any movement, transfers included", async () => {
+    const savingsId = (await asUser(() => accounts.createAccount({
+      name: "Poupança", type: "savings", openingBalance: "0", openingDate: "2027-06-01",
+    }))).id;
+    await asUser(() => accounts.transfer({ fromAccountId: walletId, toAccountId: savingsId, amount: "10", date: "2027-06-12" }));
+
+    await assert.rejects(asUser(() => accounts.deleteAccount(savingsId)), ConflictError);
+    await assert.rejects(asUser(() => accounts.deleteAccount(walletId)), ConflictError);
+    assert.equal((await asUser(() => storage.getAccountTransfers(savingsId))).length, 1);
+    assert.equal(await balanceOf(walletId), "90.00");
+
+    const unusedId = (await asUser(() => accounts.createAccount({
+      name: "Nunca usada", type: "checking", openingBalance: "0", openingDate: "2027-06-01",
+    }))).id;
+    await asUser(() => accounts.deleteAccount(unusedId));
+    assert.equal(await asUser(() => storage.getAccountById(unusedId)), undefined);
+  });
+
+  it("archives used accounts instead of deleting them", async () => {
+    await assert.rejects(asUser(() => accounts.deleteAccount(checkingId)), ConflictError);
+
+    await asUser(() => accounts.updateAccount(walletId, { isActive: false }));
+    await assert.rejects(
+      asUser(() => transactions.recordTransaction({
+        description: "Café", amount: "5", date: "2027-06-12", type: "expense", accountId: walletId,
+      })),
+      ValidationError,
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { InvoiceService } from "./services/InvoiceService";
+import { TransactionService } from "./services/TransactionService";
+import { CreditCardService } from "./services/CreditCardService";
+import { ConflictError, ValidationError } from "./middleware/ErrorHandlingMiddleware";
+import { useFixture } from "./testing";
+
+describe("virtual and additional cards", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2026, 11, 11, 10, 0));
+  const invoices = new InvoiceService(storage, clock);
+  const transactions = new TransactionService(storage, clock);
+  const cards = new CreditCardService(storage, clock);
+  let mainId: string;
+  let virtualId: string;
+  let additionalId: string;
+
+  before(async () => {
+    mainId = (await asUser(() => cards.registerCreditCard({
+      name: "Família", brand: "visa", bank: "itau", limit: "1000", closingDay: 10, dueDay: 20,
+    }))).id;
+  });
+
+  it("creates them with the limit and billing days of the main card", async () => {
+    const virtual = await asUser(() => cards.registerCreditCard({
+      name: "Família virtual", brand: "visa", bank: "itau", limit: "1", closingDay: 3, dueDay: 13, parentCardId: mainId,
+    }));
+    virtualId = virtual.id;
+    assert.deepEqual([virtual.cardType, virtual.limit, virtual.closingDay, virtual.dueDay], ["virtual", "1000", 10, 20]);
+
+    const additional = await asUser(() => cards.registerCreditCard({
+      name: "Família adicional", brand: "visa", bank: "itau", limit: "1", closingDay: 10, dueDay: 20,
+      parentCardId: mainId, cardType: "additional", holderName: "Ana",
+    }));
+    additionalId = additional.id;
+    assert.deepEqual([additional.cardType, additional.holderName], ["additional", "Ana"]);
+
+    await assert.rejects(asUser(() => cards.registerCreditCard({
+      name: "Neto", brand: "visa", bank: "itau", limit: "1", closingDay: 10, dueDay: 20, parentCardId: virtualId,
+    })), ValidationError);
+    await assert.rejects(asUser(() => cards.registerCreditCard({
+      name: "Solto", brand: "visa", bank: "itau", limit: "1", closingDay: 10, dueDay: 20, cardType: "virtual",
+    })), ValidationError);
+  });
+
+  it("bills their purchases on the main card's invoice and used limit", async () => {
+    for (const [creditCardId, description, amount] of [
+      [mainId, "Farmácia", "100"], [virtualId, "Streaming", "300"], [additionalId, "Roupas", "200"],
+    ]) {
+      await asUser(() => transactions.recordTransaction({
+        description, amount, date: "2026-12-15", type: "expense", creditCardId,
+      }));
+    }
+
+    assert.equal((await asUser(() => storage.getCreditCardById(mainId)))!.currentUsed, "600.00");
+    const invoice = await asUser(() => invoices.getInvoice(virtualId, "2027-01-10"));
+    assert.equal(invoice.creditCardId, mainId);
+    assert.equal(invoice.totalAmount, "600.00");
+    assert.deepEqual(invoice.cardBreakdown.map(c => [c.name, c.total.toString()]), [
+      ["Família", "100.00"],
+      ["Família virtual", "300.00"],
+      ["Família adicional", "200.00"],
+    ]);
+  });
+
+  it("checks purchases against the shared limit", async () => {
+    await assert.rejects(asUser(() => transactions.recordTransaction({
+      description: "TV", amount: "500", date: "2026-12-16", type: "expense", creditCardId: additionalId,
+    })), ValidationError);
+    assert.deepEqual(
+      await asUser(() => cards.calculateSmartLimit(virtualId)),
+      await asUser(() => cards.calculateSmartLimit(mainId))
+    );
+  });
+
+  it("keeps the breakdown in the closing snapshot", async () => {
+    clock.set(new Date(2027, 0, 11, 0, 5));
+    await asUser(() => invoices.closeInvoices(clock.now()));
+
+    const closed = await asUser(() => invoices.getInvoice(mainId, "2027-01-10"));
+    assert.equal(closed.status, "closed");
+    assert.deepEqual(closed.cardBreakdown.map(c => c.total.toString()), ["100.00", "300.00", "200.00"]);
+  });
+
+  it("follows the main card's settings and deletes only unused children", async () => {
+    await asUser(() => cards.changeCreditCard(mainId, { limit: "2000" }));
+    await asUser(() => cards.changeCreditCard(virtualId, { limit: "5", name: "Assinaturas" }));
+    const virtual = (await asUser(() => storage.getCreditCardById(virtualId)))!;
+    assert.deepEqual([virtual.name, virtual.limit], ["Assinaturas", "2000"]);
+    assert.equal((await asUser(() => storage.getCreditCardById(additionalId)))!.limit, "2000");
+
+    const unusedId = (await asUser(() => cards.registerCreditCard({
+      name: "Família reserva", brand: "visa", bank: "itau", limit: "1", closingDay: 10, dueDay: 20, parentCardId: mainId,
+    }))).id;
+    await assert.rejects(asUser(() => cards.removeCreditCard(mainId)), ConflictError);
+    // Com compras lançadas, nem o virtual nem o titular (que tem as faturas) podem ser excluídos
+    await assert.rejects(asUser(() => cards.removeCreditCard(virtualId)), ConflictError);
+    await asUser(() => cards.removeCreditCard(unusedId));
+    assert.equal(await asUser(() => storage.getCreditCardById(unusedId)), undefined);
+  });
+});
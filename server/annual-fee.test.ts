@@ -0,0 +1,60 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { InvoiceService } from "./services/InvoiceService";
+import { TransactionService } from "./services/TransactionService";
+import { useFixture } from "./testing";
+
+describe("annual fee", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2027, 4, 1, 10, 0));
+  const invoices = new InvoiceService(storage, clock);
+  const transactions = new TransactionService(storage, clock);
+  let feeCardId: string;
+
+  before(async () => {
+    feeCardId = (await asUser(() => storage.createCreditCard({
+      name: "Anuidade", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+      annualFeeAmount: "100", annualFeeInstallments: 3, annualFeeWaiverThreshold: "500", annualFeeStartDate: "2027-05-01",
+    }))).id;
+  });
+
+  const feeLinesOf = async (closingDate: string) => (await asUser(() => invoices.getInvoice(feeCardId, closingDate))).items
+    .filter(item => item.kind === "annual_fee" || item.kind === "annual_fee_waiver")
+    .map(item => [item.kind, item.amount.toString(), item.installmentNumber, item.installments]);
+
+  it("bills the fee in installments and leaves the rest of the year free", async () => {
+    assert.deepEqual(await feeLinesOf("2027-05-10"), [["annual_fee", "33.34", 1, 3]]);
+    assert.deepEqual(await feeLinesOf("2027-07-10"), [["annual_fee", "33.33", 3, 3]]);
+    assert.deepEqual(await feeLinesOf("2027-08-10"), []);
+    assert.deepEqual(await feeLinesOf("2028-05-10"), [["annual_fee", "33.34", 1, 3]]);
+  });
+
+  it("waives the installment once the invoice spending reaches the threshold", async () => {
+    await asUser(() => transactions.recordTransaction({
+      description: "Mercado", amount: "499.99", date: "2027-05-02", type: "expense", creditCardId: feeCardId,
+    }));
+    assert.equal((await feeLinesOf("2027-05-10")).length, 1);
+
+    await asUser(() => transactions.recordTransaction({
+      description: "Padaria", amount: "0.01", date: "2027-05-03", type: "expense", creditCardId: feeCardId,
+    }));
+    assert.deepEqual(await feeLinesOf("2027-05-10"), [
+      ["annual_fee", "33.34", 1, 3],
+      ["annual_fee_waiver", "-33.34", 1, 3],
+    ]);
+    assert.equal((await asUser(() => invoices.getInvoice(feeCardId, "2027-05-10"))).totalAmount, "500.00");
+  });
+
+  it("keeps the fee lines in the closing snapshot", async () => {
+    clock.set(new Date(2027, 4, 11, 0, 5));
+    await asUser(() => invoices.closeInvoices(clock.now()));
+
+    const closed = await asUser(() => invoices.getInvoice(feeCardId, "2027-05-10"));
+    assert.equal(closed.status, "closed");
+    assert.equal(closed.totalAmount, "500.00");
+    assert.deepEqual(await feeLinesOf("2027-05-10"), [
+      ["annual_fee", "33.34", 1, 3],
+      ["annual_fee_waiver", "-33.34", 1, 3],
+    ]);
+    assert.deepEqual(await feeLinesOf("2027-06-10"), [["annual_fee", "33.33", 2, 3]]);
+  });
+});
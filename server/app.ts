@@ -0,0 +1,32 @@
+import express, { type Express } from "express";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import type { JobScheduler } from "./jobs";
+import { setupAuth } from "./auth";
+import { ErrorHandlingMiddleware } from "./middleware/ErrorHandlingMiddleware";
+
+/**
+ * Build the Express application (middlewares, auth and API routes) without starting a server
+ * The scheduler is only exposed through the admin routes here; starting it is up to the caller
+ */
+export function createApp(scheduler?: JobScheduler): Express {
+  const app = express();
+
+  // Middleware para parsing JSON (limite maior para extratos importados e arquivos de backup)
+  app.use(express.json({ limit: "25mb" }));
+
+  // Middleware para parsing de formulários
+  app.use(express.urlencoded({ extended: true }));
+
+  // Sessão, login e proteção das rotas /api
+  setupAuth(app);
+
+  // Registrar rotas da API
+  registerRoutes(app, storage, scheduler);
+
+  // Rotas /api desconhecidas e erros não tratados respondem no mesmo formato JSON
+  app.use(ErrorHandlingMiddleware.notFound);
+  app.use(ErrorHandlingMiddleware.handle);
+
+  return app;
+}
@@ -0,0 +1,221 @@
+import type { Express, Request } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { AuthMiddleware } from "./middleware/AuthMiddleware";
+import {
+  registerUserSchema,
+  loginUserSchema,
+  updateProfileSchema,
+  type User as SelectUser,
+  type PublicUser
+} from "@shared/auth-schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${derived.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const storedBuffer = Buffer.from(hashed, "hex");
+  const suppliedBuffer = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedBuffer.length === suppliedBuffer.length && timingSafeEqual(storedBuffer, suppliedBuffer);
+}
+
+function splitName(name: string): { firstName: string; lastName: string | null } {
+  const [firstName, ...rest] = name.trim().split(/\s+/);
+  return { firstName, lastName: rest.length > 0 ? rest.join(" ") : null };
+}
+
+export function toPublicUser(user: SelectUser): PublicUser {
+  return {
+    id: user.id,
+    name: [user.firstName, user.lastName].filter(Boolean).join(" "),
+    email: user.email,
+    profileImage: user.profileImageUrl || undefined
+  };
+}
+
+function createSessionStore(): session.Store {
+  const ttlMs = 7 * 24 * 60 * 60 * 1000;
+
+  if (pool) {
+    const PgStore = connectPg(session);
+    return new PgStore({ pool, tableName: "sessions", ttl: ttlMs / 1000 });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000, ttl: ttlMs });
+}
+
+function logIn(req: Request, user: SelectUser): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.login(user, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+/**
+ * Session-based authentication (email + password)
+ * Registers the auth endpoints and protects every other /api route
+ */
+export function setupAuth(app: Express) {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("SESSION_SECRET must be set in production");
+    }
+    console.warn("⚠️ SESSION_SECRET não definido, usando segredo de desenvolvimento");
+    secret = "dev-session-secret";
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: createSessionStore(),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000
+    }
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+    try {
+      const user = await storage.getUserByEmail(email);
+      if (!user || !(await comparePasswords(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res) => {
+    try {
+      const { name, email, password } = registerUserSchema.parse(req.body);
+
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: "Email já cadastrado" });
+      }
+
+      const user = await storage.createUser({
+        ...splitName(name),
+        email,
+        passwordHash: await hashPassword(password)
+      });
+
+      await logIn(req, user);
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid registration data", errors: error.errors });
+      } else {
+        console.error('Error registering user:', error);
+        res.status(500).json({ message: "Failed to register user" });
+      }
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid login data", errors: parsed.error.errors });
+    }
+
+    passport.authenticate("local", async (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Email ou senha inválidos" });
+      }
+
+      try {
+        await logIn(req, user);
+        res.json(toPublicUser(user));
+      } catch (loginError) {
+        next(loginError);
+      }
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(204);
+      });
+    });
+  });
+
+  // Todas as rotas /api registradas depois daqui exigem sessão autenticada
+  app.use("/api", AuthMiddleware.requireAuth);
+
+  app.get("/api/user", (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  app.put("/api/user", async (req, res) => {
+    try {
+      const { name, email, profileImage } = updateProfileSchema.parse(req.body);
+      const currentUser = req.user!;
+
+      const existing = await storage.getUserByEmail(email);
+      if (existing && existing.id !== currentUser.id) {
+        return res.status(409).json({ message: "Email já cadastrado" });
+      }
+
+      const updated = await storage.updateUser(currentUser.id, {
+        ...splitName(name),
+        email,
+        profileImageUrl: profileImage ?? currentUser.profileImageUrl
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(toPublicUser(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid profile data", errors: error.errors });
+      } else {
+        console.error('Error updating user:', error);
+        res.status(500).json({ message: "Failed to update user" });
+      }
+    }
+  });
+}
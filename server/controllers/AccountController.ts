@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import { BaseController } from './BaseController';
+import { AccountService } from '../services/AccountService';
+import { IStorage } from '../storage';
+import { insertAccountSchema, insertAccountTransferSchema } from '@shared/schema';
+
+/**
+ * Account Controller
+ * Handles bank accounts and wallets, their statements and the transfers between them
+ */
+export class AccountController extends BaseController {
+  private accountService: AccountService;
+
+  constructor(storage: IStorage) {
+    super();
+    this.accountService = new AccountService(storage);
+  }
+
+  /**
+   * Every account with its balance today
+   */
+  getAccounts = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_ACCOUNTS', req);
+
+    const accounts = await this.accountService.getAccounts();
+    this.sendSuccess(res, accounts);
+  });
+
+  createAccount = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('CREATE_ACCOUNT', req, req.body);
+
+    const account = await this.accountService.createAccount(insertAccountSchema.parse(req.body));
+    this.sendSuccess(res, account, 'Conta criada com sucesso', 201);
+  });
+
+  updateAccount = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('UPDATE_ACCOUNT', req, req.body);
+
+    const account = await this.accountService.updateAccount(req.params.id, insertAccountSchema.partial().parse(req.body));
+    this.sendSuccess(res, account, 'Conta atualizada com sucesso');
+  });
+
+  deleteAccount = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('DELETE_ACCOUNT', req);
+
+    await this.accountService.deleteAccount(req.params.id);
+    this.sendSuccess(res, undefined, 'Conta excluída com sucesso');
+  });
+
+  /**
+   * Movements of an account with the running balance (startDate/endDate in the query string)
+   */
+  getStatement = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_ACCOUNT_STATEMENT', req);
+
+    const { startDate, endDate } = this.getDateRangeParams(req);
+    const statement = await this.accountService.getStatement(req.params.id, startDate, endDate);
+    this.sendSuccess(res, statement);
+  });
+
+  createTransfer = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('CREATE_ACCOUNT_TRANSFER', req, req.body);
+
+    const transfer = await this.accountService.transfer(insertAccountTransferSchema.parse(req.body));
+    this.sendSuccess(res, transfer, 'Transferência registrada', 201);
+  });
+
+  deleteTransfer = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('DELETE_ACCOUNT_TRANSFER', req);
+
+    await this.accountService.deleteTransfer(req.params.id);
+    this.sendSuccess(res, undefined, 'Transferência removida');
+  });
+}
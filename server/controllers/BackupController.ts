@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { BaseController } from './BaseController';
+import { IStorage } from '../storage';
+import { BackupService } from '../services/BackupService';
+
+const restoreSchema = z.object({
+  mode: z.enum(["merge", "replace"]),
+  archive: z.unknown().refine((archive) => archive !== undefined, "Arquivo de backup é obrigatório"),
+});
+
+/**
+ * Backup Controller
+ * Handles the full JSON backup download and its restore
+ */
+export class BackupController extends BaseController {
+  private backupService: BackupService;
+
+  constructor(storage: IStorage) {
+    super();
+    this.backupService = new BackupService(storage);
+  }
+
+  /**
+   * Download every user record as a versioned JSON archive
+   * The archive itself is the response body, not wrapped in the API envelope
+   */
+  exportBackup = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('EXPORT_BACKUP', req);
+
+    const archive = await this.backupService.exportArchive();
+    const filename = `backup-financeiro-${archive.exportedAt.slice(0, 10)}.json`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.json(archive);
+  });
+
+  /**
+   * Restore an archive (merge keeps the current data, replace wipes it first)
+   */
+  restoreBackup = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('RESTORE_BACKUP', req);
+
+    const { mode, archive } = restoreSchema.parse(req.body);
+    const summary = await this.backupService.restoreArchive(archive, mode);
+    this.sendSuccess(res, summary, 'Backup restaurado com sucesso');
+  });
+}
@@ -1,4 +1,7 @@
 import { Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { ValidationError, NotFoundError, ConflictError } from '../middleware/ErrorHandlingMiddleware';
 
 /**
  * Base Controller Class
@@ -9,36 +12,28 @@ export abstract class BaseController {
    * Send success response
    */
   protected sendSuccess(res: Response, data?: any, message?: string, statusCode: number = 200): void {
-    res.status(statusCode).json({
-      success: true,
-      message,
-      data
-    });
+    res.status(statusCode).json(ResponseFormatter.success(data, message));
   }
 
   /**
    * Send error response
    */
   protected sendError(res: Response, message: string, statusCode: number = 500, errors?: any[]): void {
-    res.status(statusCode).json({
-      success: false,
-      message,
-      errors
-    });
+    res.status(statusCode).json(ResponseFormatter.error(message, errors));
   }
 
   /**
    * Send validation error response
    */
-  protected sendValidationError(res: Response, errors: string[]): void {
-    this.sendError(res, 'Dados inválidos', 400, errors);
+  protected sendValidationError(res: Response, errors: any[]): void {
+    res.status(400).json(ResponseFormatter.validationError(errors));
   }
 
   /**
    * Send not found response
    */
-  protected sendNotFound(res: Response, resource: string = 'Resource'): void {
-    this.sendError(res, `${resource} not found`, 404);
+  protected sendNotFound(res: Response, resource: string = 'Recurso'): void {
+    res.status(404).json(ResponseFormatter.notFound(resource));
   }
 
   /**
@@ -50,6 +45,27 @@ export abstract class BaseController {
         await fn(req, res);
       } catch (error) {
         console.error('Controller error:', error);
+
+        // Erros tipados dos serviços e do zod
+        if (error instanceof ZodError) {
+          this.sendValidationError(res, error.errors);
+          return;
+        }
+
+        if (error instanceof ValidationError) {
+          this.sendError(res, error.message, 400, error.details);
+          return;
+        }
+
+        if (error instanceof NotFoundError) {
+          this.sendError(res, error.message, 404);
+          return;
+        }
+
+        if (error instanceof ConflictError) {
+          this.sendError(res, error.message, 409);
+          return;
+        }
         
         if (error instanceof Error) {
           // Check for validation errors
@@ -61,7 +77,7 @@ export abstract class BaseController {
           
           // Check for specific business logic errors
           if (error.message.includes('not found')) {
-            this.sendNotFound(res);
+            this.sendError(res, error.message, 404);
             return;
           }
           
@@ -74,11 +90,12 @@ export abstract class BaseController {
             this.sendError(res, error.message, 409);
             return;
           }
-          
-          this.sendError(res, error.message);
-        } else {
-          this.sendError(res, 'Erro interno do servidor');
         }
+
+        const message = process.env.NODE_ENV === 'development' && error instanceof Error
+          ? error.message
+          : 'Erro interno do servidor';
+        this.sendError(res, message);
       }
     };
   }
@@ -0,0 +1,38 @@
+import { Request, Response } from 'express';
+import { BaseController } from './BaseController';
+import { IStorage } from '../storage';
+import { insertBudgetSchema } from '@shared/schema';
+
+/**
+ * Budget Controller
+ * Handles HTTP requests related to monthly category budgets
+ */
+export class BudgetController extends BaseController {
+  constructor(private storage: IStorage) {
+    super();
+  }
+
+  /**
+   * List budgets, optionally only the ones of a month (`month` and `year` query params)
+   */
+  getBudgets = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_BUDGETS', req);
+
+    const { month, year } = req.query;
+    const budgets = month && year
+      ? await this.storage.getBudgetsByMonth(parseInt(month as string), parseInt(year as string))
+      : await this.storage.getBudgets();
+
+    this.sendSuccess(res, budgets);
+  });
+
+  /**
+   * Create a new budget
+   */
+  createBudget = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('CREATE_BUDGET', req, req.body);
+
+    const budget = await this.storage.createBudget(insertBudgetSchema.parse(req.body));
+    this.sendSuccess(res, budget, 'Orçamento criado com sucesso', 201);
+  });
+}
@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { BaseController } from './BaseController';
+import { IStorage } from '../storage';
+import { insertCategorySchema } from '@shared/schema';
+import { NotFoundError } from '../middleware/ErrorHandlingMiddleware';
+
+/**
+ * Category Controller
+ * Handles HTTP requests related to income and expense categories
+ */
+export class CategoryController extends BaseController {
+  constructor(private storage: IStorage) {
+    super();
+  }
+
+  /**
+   * List all categories
+   */
+  getCategories = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_CATEGORIES', req);
+
+    const categories = await this.storage.getCategories();
+    this.sendSuccess(res, categories);
+  });
+
+  /**
+   * Create a new category
+   */
+  createCategory = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('CREATE_CATEGORY', req, req.body);
+
+    const category = await this.storage.createCategory(insertCategorySchema.parse(req.body));
+    this.sendSuccess(res, category, 'Categoria criada com sucesso', 201);
+  });
+
+  /**
+   * Update an existing category
+   */
+  updateCategory = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('UPDATE_CATEGORY', req, req.body);
+
+    const category = await this.storage.updateCategory(req.params.id, insertCategorySchema.partial().parse(req.body));
+    if (!category) {
+      throw new NotFoundError('Category');
+    }
+
+    this.sendSuccess(res, category, 'Categoria atualizada com sucesso');
+  });
+
+  /**
+   * Delete a category
+   */
+  deleteCategory = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('DELETE_CATEGORY', req);
+
+    if (!(await this.storage.deleteCategory(req.params.id))) {
+      throw new NotFoundError('Category');
+    }
+
+    this.sendSuccess(res, undefined, 'Categoria excluída com sucesso');
+  });
+}
@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import { BaseController } from './BaseController';
 import { CreditCardService } from '../services/CreditCardService';
 import { IStorage } from '../storage';
+import { insertCreditCardSchema } from '@shared/schema';
+import { NotFoundError } from '../middleware/ErrorHandlingMiddleware';
 
 /**
  * Credit Card Controller
@@ -10,44 +12,19 @@ import { IStorage } from '../storage';
 export class CreditCardController extends BaseController {
   private creditCardService: CreditCardService;
 
-  constructor(storage: IStorage) {
+  constructor(private storage: IStorage) {
     super();
     this.creditCardService = new CreditCardService(storage);
   }
 
   /**
-   * Get all credit cards
+   * Get all credit cards with the used limit recalculated from the current invoice
    */
   getAllCreditCards = this.asyncHandler(async (req: Request, res: Response) => {
     this.logAction('GET_ALL_CREDIT_CARDS', req);
-    
-    const activeOnly = req.query.active === 'true';
-    
-    let creditCards;
-    if (activeOnly) {
-      creditCards = await this.creditCardService.getActiveCreditCards();
-    } else {
-      creditCards = await this.creditCardService.getAllCreditCards();
-    }
 
-    this.sendSuccess(res, creditCards.map(cc => cc.toJSON()));
-  });
-
-  /**
-   * Get credit card by ID
-   */
-  getCreditCardById = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('GET_CREDIT_CARD_BY_ID', req);
-    
-    const { id } = req.params;
-    const creditCard = await this.creditCardService.getCreditCardById(id);
-    
-    if (!creditCard) {
-      this.sendNotFound(res, 'Cartão de crédito');
-      return;
-    }
-
-    this.sendSuccess(res, creditCard.toJSON());
+    const creditCards = await this.creditCardService.refreshSmartLimits();
+    this.sendSuccess(res, creditCards);
   });
 
   /**
@@ -55,9 +32,9 @@ export class CreditCardController extends BaseController {
    */
   createCreditCard = this.asyncHandler(async (req: Request, res: Response) => {
     this.logAction('CREATE_CREDIT_CARD', req, req.body);
-    
-    const creditCard = await this.creditCardService.createCreditCard(req.body);
-    this.sendSuccess(res, creditCard.toJSON(), 'Cartão de crédito criado com sucesso', 201);
+
+    const creditCard = await this.creditCardService.registerCreditCard(insertCreditCardSchema.parse(req.body));
+    this.sendSuccess(res, creditCard, 'Cartão de crédito criado com sucesso', 201);
   });
 
   /**
@@ -65,11 +42,9 @@ export class CreditCardController extends BaseController {
    */
   updateCreditCard = this.asyncHandler(async (req: Request, res: Response) => {
     this.logAction('UPDATE_CREDIT_CARD', req, req.body);
-    
-    const { id } = req.params;
-    const creditCard = await this.creditCardService.updateCreditCard(id, req.body);
-    
-    this.sendSuccess(res, creditCard.toJSON(), 'Cartão de crédito atualizado com sucesso');
+
+    const creditCard = await this.creditCardService.changeCreditCard(req.params.id, insertCreditCardSchema.partial().parse(req.body));
+    this.sendSuccess(res, creditCard, 'Cartão de crédito atualizado com sucesso');
   });
 
   /**
@@ -77,176 +52,72 @@ export class CreditCardController extends BaseController {
    */
   deleteCreditCard = this.asyncHandler(async (req: Request, res: Response) => {
     this.logAction('DELETE_CREDIT_CARD', req);
-    
-    const { id } = req.params;
-    await this.creditCardService.deleteCreditCard(id);
-    
-    res.status(204).send();
-  });
 
-  /**
-   * Block/unblock a credit card
-   */
-  toggleCreditCardBlock = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('TOGGLE_CREDIT_CARD_BLOCK', req, req.body);
-    
-    const { id } = req.params;
-    const { isBlocked } = req.body;
-    
-    if (typeof isBlocked !== 'boolean') {
-      this.sendError(res, 'isBlocked deve ser um valor booleano', 400);
-      return;
-    }
-    
-    const creditCard = await this.creditCardService.toggleCreditCardBlock(id, isBlocked);
-    
-    const message = isBlocked ? 'Cartão bloqueado com sucesso' : 'Cartão desbloqueado com sucesso';
-    this.sendSuccess(res, creditCard.toJSON(), message);
+    await this.creditCardService.removeCreditCard(req.params.id);
+    this.sendSuccess(res, undefined, 'Cartão de crédito excluído com sucesso');
   });
 
   /**
-   * Activate/deactivate a credit card
+   * Get the smart limit of a card together with its current invoice balance
    */
-  toggleCreditCardActive = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('TOGGLE_CREDIT_CARD_ACTIVE', req, req.body);
-    
+  getSmartLimit = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_SMART_LIMIT', req);
+
     const { id } = req.params;
-    const { isActive } = req.body;
-    
-    if (typeof isActive !== 'boolean') {
-      this.sendError(res, 'isActive deve ser um valor booleano', 400);
-      return;
+    const creditCard = await this.storage.getCreditCardById(id);
+    if (!creditCard) {
+      throw new NotFoundError('Credit card');
     }
-    
-    const creditCard = await this.creditCardService.toggleCreditCardActive(id, isActive);
-    
-    const message = isActive ? 'Cartão ativado com sucesso' : 'Cartão desativado com sucesso';
-    this.sendSuccess(res, creditCard.toJSON(), message);
-  });
 
-  /**
-   * Calculate invoice for a credit card
-   */
-  calculateInvoice = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('CALCULATE_INVOICE', req);
-    
-    const { creditCardId } = req.params;
-    const { startDate, endDate } = req.query;
-    
-    if (!startDate || !endDate) {
-      this.sendError(res, 'Data de início e fim são obrigatórias', 400);
-      return;
-    }
-    
-    const invoice = await this.creditCardService.calculateInvoice(
-      creditCardId,
-      new Date(startDate as string),
-      new Date(endDate as string)
-    );
+    const smartLimit = await this.creditCardService.calculateSmartLimit(id);
 
     this.sendSuccess(res, {
-      ...invoice,
-      creditCard: invoice.creditCard.toJSON()
+      creditCard: {
+        id: creditCard.id,
+        name: creditCard.name,
+        limit: creditCard.limit,
+        currentUsed: smartLimit.currentUsed,
+        availableLimit: smartLimit.availableLimit
+      },
+      invoice: {
+        status: smartLimit.invoiceStatus,
+        totalAmount: smartLimit.currentInvoiceAmount,
+        paidAmount: smartLimit.paidAmount,
+        remainingBalance: smartLimit.remainingBalance
+      }
     });
   });
 
   /**
-   * Process credit card payment
+   * Best purchase day, float of a purchase made today and the limit-release calendar of a card
    */
-  processPayment = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('PROCESS_PAYMENT', req, req.body);
-    
-    const { id } = req.params;
-    const { paymentAmount } = req.body;
-    
-    if (!paymentAmount || paymentAmount <= 0) {
-      this.sendError(res, 'Valor do pagamento deve ser positivo', 400);
-      return;
-    }
-    
-    const creditCard = await this.creditCardService.processPayment(id, parseFloat(paymentAmount));
-    
-    this.sendSuccess(res, creditCard.toJSON(), 'Pagamento processado com sucesso');
-  });
+  getPurchaseCalendar = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_PURCHASE_CALENDAR', req);
 
-  /**
-   * Get credit cards summary
-   */
-  getCreditCardsSummary = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('GET_CREDIT_CARDS_SUMMARY', req);
-    
-    const summary = await this.creditCardService.getCreditCardsSummary();
-    this.sendSuccess(res, summary);
+    const calendar = await this.creditCardService.getPurchaseCalendar(req.params.id);
+    this.sendSuccess(res, calendar);
   });
 
   /**
-   * Validate if a purchase can be made
+   * Calculate credit card invoice for a period (`startDate` and `endDate` query params)
    */
-  validatePurchase = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('VALIDATE_PURCHASE', req, req.body);
-    
-    const { id } = req.params;
-    const { amount } = req.body;
-    
-    if (!amount || amount <= 0) {
-      this.sendError(res, 'Valor da compra deve ser positivo', 400);
-      return;
-    }
-    
-    const validation = await this.creditCardService.validatePurchase(id, parseFloat(amount));
-    
-    if (validation.canPurchase) {
-      this.sendSuccess(res, validation, 'Compra pode ser realizada');
-    } else {
-      this.sendError(res, validation.reason || 'Compra não pode ser realizada', 400, [validation]);
-    }
-  });
-
-  /**
-   * Get credit card usage statistics
-   */
-  getUsageStatistics = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('GET_USAGE_STATISTICS', req);
-    
-    const { id } = req.params;
-    const creditCard = await this.creditCardService.getCreditCardById(id);
-    
-    if (!creditCard) {
-      this.sendNotFound(res, 'Cartão de crédito');
-      return;
-    }
+  calculateInvoice = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('CALCULATE_INVOICE', req);
 
-    const statistics = {
-      limit: creditCard.getLimit(),
-      currentUsed: creditCard.getCurrentUsed(),
-      availableLimit: creditCard.getAvailableLimit(),
-      usagePercentage: creditCard.getUsagePercentage(),
-      formattedLimit: creditCard.getFormattedLimit(),
-      formattedCurrentUsed: creditCard.getFormattedCurrentUsed(),
-      formattedAvailableLimit: creditCard.getFormattedAvailableLimit(),
-      isOverLimit: creditCard.getCurrentUsed() > creditCard.getLimit(),
-      isNearLimit: creditCard.getUsagePercentage() > 80
-    };
-
-    this.sendSuccess(res, statistics);
-  });
+    const { creditCardId } = req.params;
+    const { startDate, endDate } = this.getDateRangeParams(req);
 
-  /**
-   * Recalculate credit card limit based on transactions
-   */
-  recalculateLimit = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('RECALCULATE_LIMIT', req);
-    
-    const { id } = req.params;
-    const creditCard = await this.creditCardService.getCreditCardById(id);
-    
-    if (!creditCard) {
-      this.sendNotFound(res, 'Cartão de crédito');
+    if (!startDate || !endDate) {
+      this.sendValidationError(res, ['startDate e endDate são obrigatórios']);
       return;
     }
 
-    // Calculate limit using service layer
-    const totalUsed = await this.creditCardService.recalculateLimit(id);
-    this.sendSuccess(res, { totalUsed }, 'Limite do cartão recalculado com sucesso');
+    const invoice = await this.creditCardService.calculateInvoice(
+      creditCardId,
+      new Date(startDate),
+      new Date(endDate)
+    );
+
+    this.sendSuccess(res, { ...invoice, creditCard: invoice.creditCard.toJSON() });
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,83 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { BaseController } from './BaseController';
+import { ExchangeRateService } from '../services/ExchangeRateService';
+import { IStorage } from '../storage';
+import { insertExchangeRateSchema } from '@shared/schema';
+
+const ptaxImportSchema = z.object({
+  content: z.string().min(1, "Arquivo vazio"),
+});
+
+const rateLookupSchema = z.object({
+  currency: z.string().regex(/^[A-Za-z]{3}$/, 'Moeda inválida'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data deve estar no formato AAAA-MM-DD'),
+});
+
+/**
+ * Exchange Rate Controller
+ * Handles the exchange-rate table (manual entries and PTAX imports)
+ */
+export class ExchangeRateController extends BaseController {
+  private exchangeRateService: ExchangeRateService;
+
+  constructor(storage: IStorage) {
+    super();
+    this.exchangeRateService = new ExchangeRateService(storage);
+  }
+
+  /**
+   * List the stored rates, newest first, optionally of one currency
+   */
+  getRates = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_EXCHANGE_RATES', req);
+
+    const rates = await this.exchangeRateService.getRates(req.query.currency as string | undefined);
+    this.sendSuccess(res, rates);
+  });
+
+  /**
+   * Rate in effect for a currency on a date (the last one on or before it)
+   */
+  getRateOn = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_EXCHANGE_RATE', req);
+
+    const { currency, date } = rateLookupSchema.parse(req.params);
+    const rate = await this.exchangeRateService.rateFor(currency, date);
+    this.sendSuccess(res, rate);
+  });
+
+  /**
+   * Save a rate typed in by the user
+   */
+  saveRate = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('SAVE_EXCHANGE_RATE', req, req.body);
+
+    const rate = await this.exchangeRateService.saveRate({
+      ...insertExchangeRateSchema.parse(req.body),
+      source: 'manual'
+    });
+    this.sendSuccess(res, rate, 'Cotação salva', 201);
+  });
+
+  /**
+   * Import PTAX rates from a Banco Central CSV
+   */
+  importPtax = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('IMPORT_PTAX', req);
+
+    const { content } = ptaxImportSchema.parse(req.body);
+    const result = await this.exchangeRateService.importPtaxCsv(content);
+    this.sendSuccess(res, result, `${result.imported} cotação(ões) importada(s)`, 201);
+  });
+
+  /**
+   * Delete a rate
+   */
+  deleteRate = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('DELETE_EXCHANGE_RATE', req);
+
+    await this.exchangeRateService.deleteRate(req.params.id);
+    this.sendSuccess(res, undefined, 'Cotação removida');
+  });
+}
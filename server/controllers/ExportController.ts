@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { BaseController } from './BaseController';
+import { IStorage } from '../storage';
+import { ExportService, type ExportFile } from '../services/ExportService';
+
+const optionsSchema = z.object({
+  format: z.enum(["csv", "xlsx"]).default("xlsx"),
+  locale: z.enum(["pt-BR", "en-US"]).default("pt-BR"),
+});
+
+const transactionsQuerySchema = optionsSchema.extend({
+  period: z.string().optional(),
+  type: z.enum(["all", "income", "expense"]).optional(),
+  categoryId: z.string().optional(),
+  search: z.string().optional(),
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+});
+
+const summaryQuerySchema = optionsSchema.extend({
+  year: z.coerce.number().int().min(2000).max(2100).default(new Date().getFullYear()),
+  month: z.coerce.number().int().min(1).max(12).optional(),
+});
+
+/**
+ * Export Controller
+ * Serves CSV/XLSX spreadsheets; successful responses are file downloads, errors use the API envelope
+ */
+export class ExportController extends BaseController {
+  private exportService: ExportService;
+
+  constructor(storage: IStorage) {
+    super();
+    this.exportService = new ExportService(storage);
+  }
+
+  /**
+   * Spreadsheet of the transactions, with the same filters as the history screen
+   */
+  exportTransactions = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('EXPORT_TRANSACTIONS', req);
+
+    const { format, locale, ...filters } = transactionsQuerySchema.parse(req.query);
+    this.sendFile(res, await this.exportService.exportTransactions(filters, { format, locale }));
+  });
+
+  /**
+   * Financial summary of a month, or of a whole year with one sheet per month
+   */
+  exportSummary = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('EXPORT_SUMMARY', req);
+
+    const { format, locale, year, month } = summaryQuerySchema.parse(req.query);
+    this.sendFile(res, await this.exportService.exportSummary(year, month, { format, locale }));
+  });
+
+  private sendFile(res: Response, file: ExportFile): void {
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+  }
+}
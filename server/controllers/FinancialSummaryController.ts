@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import { BaseController } from './BaseController';
+import { IStorage } from '../storage';
+import { FinancialSummaryService } from '../services/FinancialSummaryService';
+
+/**
+ * Financial Summary Controller
+ * Serves the monthly dashboard summary
+ */
+export class FinancialSummaryController extends BaseController {
+  private summaryService: FinancialSummaryService;
+
+  constructor(storage: IStorage) {
+    super();
+    this.summaryService = new FinancialSummaryService(storage);
+  }
+
+  /**
+   * Summary of a month (`month` 1-12 and `year` query params, current month by default)
+   */
+  getFinancialSummary = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_FINANCIAL_SUMMARY', req);
+
+    const { month, year } = req.query;
+    const currentDate = new Date();
+    const targetMonth = month ? parseInt(month as string) : currentDate.getMonth() + 1;
+    const targetYear = year ? parseInt(year as string) : currentDate.getFullYear();
+
+    const summary = await this.summaryService.calculateMonthlySummary(targetYear, targetMonth);
+
+    // Valores somados em centavos; convertidos para número apenas na resposta
+    const expensesByCategory = Object.fromEntries(
+      Object.entries(summary.expensesByCategory).map(([categoryId, amount]) => [categoryId, amount.toNumber()])
+    );
+
+    this.sendSuccess(res, {
+      totalIncome: summary.totalIncome.toNumber(),
+      totalExpenses: summary.totalExpenses.toNumber(),
+      currentBalance: summary.currentBalance.toNumber(),
+      expensesByCategory,
+      paychecks: summary.paychecks,
+      transactionIncome: summary.transactionIncome.toNumber(),
+      transactionExpenses: summary.transactionExpenses.toNumber(),
+      subscriptionExpenses: summary.subscriptionExpenses.toNumber(),
+      activeSubscriptions: summary.activeSubscriptions,
+      transactions: summary.transactions.slice(0, 10), // Transações recentes
+    });
+  });
+}
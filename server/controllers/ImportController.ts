@@ -0,0 +1,145 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { BaseController } from './BaseController';
+import { IStorage } from '../storage';
+import { TransactionImportService, BUILTIN_IMPORT_PROFILES } from '../services/TransactionImportService';
+import { NotFoundError } from '../middleware/ErrorHandlingMiddleware';
+import { insertImportProfileSchema } from '@shared/schema';
+import type { CsvLayout } from '../utils/CsvParser';
+
+const targetSchema = z.object({
+  creditCardId: z.string().optional().nullable(),
+  accountId: z.string().optional().nullable(),
+});
+
+const ofxPreviewSchema = targetSchema.extend({
+  content: z.string().min(1, "Arquivo vazio"),
+});
+
+const csvPreviewSchema = targetSchema.extend({
+  content: z.string().min(1, "Arquivo vazio"),
+  profileId: z.string().optional(),
+  layout: insertImportProfileSchema.optional(),
+}).refine((data) => Boolean(data.profileId || data.layout), {
+  message: "Escolha um perfil de importação",
+  path: ["profileId"],
+});
+
+const importEntriesSchema = targetSchema.extend({
+  entries: z.array(z.object({
+    fitId: z.string().optional().nullable(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida"),
+    description: z.string().min(1),
+    amount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Valor inválido"),
+    type: z.enum(["income", "expense"]),
+    paymentMethod: z.string().optional().nullable(),
+    categoryId: z.string().optional().nullable(),
+  })).min(1, "Nenhum lançamento selecionado"),
+});
+
+/**
+ * Import Controller
+ * Handles bank statement imports (OFX and CSV) and the saved CSV column profiles
+ */
+export class ImportController extends BaseController {
+  private importService: TransactionImportService;
+
+  constructor(private storage: IStorage) {
+    super();
+    this.importService = new TransactionImportService(storage);
+  }
+
+  /**
+   * Parse an OFX statement and flag entries that were already imported
+   */
+  previewOfx = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('PREVIEW_OFX', req);
+
+    const { content, ...target } = ofxPreviewSchema.parse(req.body);
+    const preview = await this.importService.previewOfx(content, target);
+    this.sendSuccess(res, preview);
+  });
+
+  /**
+   * Parse a CSV statement with a profile, flag duplicates and suggest categories
+   */
+  previewCsv = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('PREVIEW_CSV', req);
+
+    const { content, profileId, layout, ...target } = csvPreviewSchema.parse(req.body);
+    const preview = await this.importService.previewCsv(content, await this.resolveLayout(profileId, layout), target);
+    this.sendSuccess(res, preview);
+  });
+
+  /**
+   * Save the entries selected in the preview
+   */
+  importTransactions = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('IMPORT_TRANSACTIONS', req);
+
+    const { entries, ...target } = importEntriesSchema.parse(req.body);
+    const result = await this.importService.importEntries(entries, target);
+    this.sendSuccess(res, result, `${result.imported} lançamento(s) importado(s)`, 201);
+  });
+
+  /**
+   * List CSV profiles (built-in layouts followed by the user's saved ones)
+   */
+  getProfiles = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_IMPORT_PROFILES', req);
+
+    const profiles = await this.storage.getImportProfiles();
+    this.sendSuccess(res, [...BUILTIN_IMPORT_PROFILES, ...profiles.map(profile => ({ ...profile, builtin: false }))]);
+  });
+
+  /**
+   * Save a new CSV profile
+   */
+  createProfile = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('CREATE_IMPORT_PROFILE', req, req.body);
+
+    const profile = await this.storage.createImportProfile(insertImportProfileSchema.parse(req.body));
+    this.sendSuccess(res, { ...profile, builtin: false }, 'Perfil de importação salvo', 201);
+  });
+
+  /**
+   * Update a saved CSV profile
+   */
+  updateProfile = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('UPDATE_IMPORT_PROFILE', req, req.body);
+
+    const profile = await this.storage.updateImportProfile(req.params.id, insertImportProfileSchema.parse(req.body));
+    if (!profile) {
+      throw new NotFoundError('Perfil de importação');
+    }
+
+    this.sendSuccess(res, { ...profile, builtin: false }, 'Perfil de importação atualizado');
+  });
+
+  /**
+   * Delete a saved CSV profile
+   */
+  deleteProfile = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('DELETE_IMPORT_PROFILE', req);
+
+    if (!(await this.storage.deleteImportProfile(req.params.id))) {
+      throw new NotFoundError('Perfil de importação');
+    }
+
+    this.sendSuccess(res, undefined, 'Perfil de importação removido');
+  });
+
+  // Perfil pronto, perfil salvo pelo usuário ou layout avulso enviado no corpo
+  private async resolveLayout(profileId: string | undefined, layout: CsvLayout | undefined): Promise<CsvLayout> {
+    if (!profileId) return layout!;
+
+    const builtin = BUILTIN_IMPORT_PROFILES.find(profile => profile.id === profileId);
+    if (builtin) return builtin;
+
+    const saved = await this.storage.getImportProfileById(profileId);
+    if (!saved) {
+      throw new NotFoundError('Perfil de importação');
+    }
+    return saved;
+  }
+}
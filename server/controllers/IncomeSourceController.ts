@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { BaseController } from './BaseController';
+import { IncomeSourceService } from '../services/IncomeSourceService';
+import { IStorage } from '../storage';
+import { insertIncomeSourceSchema, insertVacationSchema } from '@shared/schema';
+
+const paycheckQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+  month: z.coerce.number().int().min(1).max(12),
+});
+
+const thirteenthQuerySchema = paycheckQuerySchema.pick({ year: true });
+
+const fgtsQuerySchema = z.object({
+  months: z.coerce.number().int().min(1).max(120).default(12),
+});
+
+/**
+ * Income Source Controller
+ * Handles the salaries of the user, the payroll breakdown of their paychecks, 13º and vacations,
+ * and the FGTS projection
+ */
+export class IncomeSourceController extends BaseController {
+  private incomeSourceService: IncomeSourceService;
+
+  constructor(storage: IStorage) {
+    super();
+    this.incomeSourceService = new IncomeSourceService(storage);
+  }
+
+  /**
+   * Every income source with its next paycheck
+   */
+  getIncomeSources = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_INCOME_SOURCES', req);
+
+    const sources = await this.incomeSourceService.getIncomeSources();
+    this.sendSuccess(res, sources);
+  });
+
+  /**
+   * Payroll breakdown of the paycheck of a month (`year` and `month` 1-12 query params)
+   */
+  getPaycheck = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_PAYCHECK', req);
+
+    const { year, month } = paycheckQuerySchema.parse(req.query);
+    const paycheck = await this.incomeSourceService.getPaycheck(req.params.id, year, month);
+    this.sendSuccess(res, paycheck);
+  });
+
+  /**
+   * Installments of the 13º of a year (`year` query param)
+   */
+  getThirteenth = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_THIRTEENTH', req);
+
+    const { year } = thirteenthQuerySchema.parse(req.query);
+    const installments = await this.incomeSourceService.getThirteenth(req.params.id, year);
+    this.sendSuccess(res, installments);
+  });
+
+  /**
+   * FGTS balance projected for the next `months` months (12 by default)
+   */
+  getFgtsProjection = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_FGTS_PROJECTION', req);
+
+    const { months } = fgtsQuerySchema.parse(req.query);
+    const projection = await this.incomeSourceService.getFgtsProjection(req.params.id, months);
+    this.sendSuccess(res, projection);
+  });
+
+  createIncomeSource = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('CREATE_INCOME_SOURCE', req, req.body);
+
+    const source = await this.incomeSourceService.createIncomeSource(insertIncomeSourceSchema.parse(req.body));
+    this.sendSuccess(res, source, 'Fonte de renda criada com sucesso', 201);
+  });
+
+  updateIncomeSource = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('UPDATE_INCOME_SOURCE', req, req.body);
+
+    const source = await this.incomeSourceService.updateIncomeSource(req.params.id, insertIncomeSourceSchema.partial().parse(req.body));
+    this.sendSuccess(res, source, 'Fonte de renda atualizada: os próximos pagamentos foram recalculados');
+  });
+
+  deleteIncomeSource = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('DELETE_INCOME_SOURCE', req);
+
+    await this.incomeSourceService.deleteIncomeSource(req.params.id);
+    this.sendSuccess(res, undefined, 'Fonte de renda excluída com sucesso');
+  });
+
+  createVacation = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('CREATE_VACATION', req, req.body);
+
+    const vacationData = insertVacationSchema.omit({ incomeSourceId: true, transactionId: true }).parse(req.body);
+    const vacation = await this.incomeSourceService.createVacation(req.params.id, vacationData);
+    this.sendSuccess(res, vacation, 'Férias agendadas: o pagamento e os próximos contracheques foram recalculados', 201);
+  });
+
+  deleteVacation = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('DELETE_VACATION', req);
+
+    await this.incomeSourceService.deleteVacation(req.params.id);
+    this.sendSuccess(res, undefined, 'Férias canceladas com sucesso');
+  });
+}
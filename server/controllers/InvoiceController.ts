@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { BaseController } from './BaseController';
+import { InvoiceService } from '../services/InvoiceService';
+import { IStorage } from '../storage';
+
+const invoiceParamsSchema = z.object({
+  cardId: z.string(),
+  closingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data deve estar no formato AAAA-MM-DD'),
+});
+
+const paymentSchema = z.object({
+  amount: z.union([z.string(), z.number()]),
+  accountId: z.string().optional().nullable(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data deve estar no formato AAAA-MM-DD').optional(),
+});
+
+// Parcelamento: de 2 a 24 parcelas, juros de até 20% a.m.
+const installmentPlanSchema = z.object({
+  installments: z.coerce.number().int().min(2, 'Mínimo de 2 parcelas').max(24, 'Máximo de 24 parcelas'),
+  interestRate: z.coerce.number().min(0, 'Taxa inválida').max(20, 'Taxa de juros acima de 20% a.m.'),
+});
+
+/**
+ * Invoice Controller
+ * Handles HTTP requests related to credit card invoices
+ */
+export class InvoiceController extends BaseController {
+  private invoiceService: InvoiceService;
+
+  constructor(storage: IStorage) {
+    super();
+    this.invoiceService = new InvoiceService(storage);
+  }
+
+  /**
+   * Get (or open) the invoice of a card that bills the given date, with its line items
+   * The client passes the closing date of the period it shows
+   */
+  getInvoice = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_INVOICE', req);
+
+    const { cardId, closingDate } = invoiceParamsSchema.parse(req.params);
+    const invoice = await this.invoiceService.getInvoice(cardId, closingDate);
+    this.sendSuccess(res, invoice);
+  });
+
+  /**
+   * Register a payment on an invoice
+   */
+  payInvoice = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('PAY_INVOICE', req, req.body);
+
+    const { amount, ...options } = paymentSchema.parse(req.body);
+    const invoice = await this.invoiceService.payInvoice(req.params.invoiceId, amount, options);
+    this.sendSuccess(res, invoice, 'Pagamento registrado com sucesso!');
+  });
+
+  /**
+   * Simulate an installment plan for a closed invoice (installments and rate in the query string)
+   */
+  simulateInstallmentPlan = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('SIMULATE_INVOICE_INSTALLMENTS', req, req.query);
+
+    const { installments, interestRate } = installmentPlanSchema.parse(req.query);
+    const plan = await this.invoiceService.simulateInstallmentPlan(req.params.invoiceId, installments, interestRate);
+    this.sendSuccess(res, plan);
+  });
+
+  /**
+   * Split a closed invoice into installments billed on the next invoices
+   */
+  createInstallmentPlan = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('CREATE_INVOICE_INSTALLMENTS', req, req.body);
+
+    const { installments, interestRate } = installmentPlanSchema.parse(req.body);
+    const result = await this.invoiceService.createInstallmentPlan(req.params.invoiceId, installments, interestRate);
+    this.sendSuccess(res, result, `Fatura parcelada em ${installments}x!`, 201);
+  });
+}
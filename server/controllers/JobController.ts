@@ -0,0 +1,33 @@
+import { Request, Response } from 'express';
+import { BaseController } from './BaseController';
+import { JobScheduler } from '../jobs';
+
+/**
+ * Job Controller
+ * Admin endpoints to inspect the background jobs and run them on demand
+ */
+export class JobController extends BaseController {
+  constructor(private scheduler: JobScheduler) {
+    super();
+  }
+
+  /**
+   * List the jobs with their last run, next run and failure count
+   */
+  getJobs = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_JOBS', req);
+
+    const jobs = await this.scheduler.listJobs();
+    this.sendSuccess(res, jobs);
+  });
+
+  /**
+   * Run a job now for every user
+   */
+  runJob = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('RUN_JOB', req, { name: req.params.name });
+
+    const job = await this.scheduler.runJob(req.params.name);
+    this.sendSuccess(res, job, 'Tarefa executada');
+  });
+}
@@ -0,0 +1,114 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { BaseController } from './BaseController';
+import { ReconciliationService } from '../services/ReconciliationService';
+import { IStorage } from '../storage';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data deve estar no formato AAAA-MM-DD');
+const balanceSchema = z.union([z.string(), z.number()])
+  .transform(String)
+  .pipe(z.string().regex(/^-?\d+(\.\d{1,2})?$/, 'Saldo do extrato inválido'));
+
+const filtersSchema = z.object({
+  accountId: z.string().optional(),
+  invoiceId: z.string().optional(),
+});
+
+const startSchema = z.object({
+  accountId: z.string().optional().nullable(),
+  invoiceId: z.string().optional().nullable(),
+  statementDate: dateSchema.optional(),
+  statementBalance: balanceSchema,
+});
+
+const updateSchema = z.object({
+  statementDate: dateSchema.optional(),
+  statementBalance: balanceSchema.optional(),
+});
+
+const clearItemsSchema = z.object({
+  items: z.array(z.object({
+    kind: z.enum(['transaction', 'transfer', 'invoice_payment']),
+    id: z.string(),
+  })).min(1, 'Selecione ao menos um lançamento'),
+  cleared: z.boolean(),
+});
+
+/**
+ * Reconciliation Controller
+ * Handles statement reconciliations of accounts and card invoices
+ */
+export class ReconciliationController extends BaseController {
+  private reconciliationService: ReconciliationService;
+
+  constructor(storage: IStorage) {
+    super();
+    this.reconciliationService = new ReconciliationService(storage);
+  }
+
+  /**
+   * Reconciliations, optionally only the ones of an account or invoice (`accountId`/`invoiceId` query params)
+   */
+  getReconciliations = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_RECONCILIATIONS', req);
+
+    const reconciliations = await this.reconciliationService.getReconciliations(filtersSchema.parse(req.query));
+    this.sendSuccess(res, reconciliations);
+  });
+
+  /**
+   * A reconciliation with its items, cleared balance and the difference to the statement
+   */
+  getReconciliation = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_RECONCILIATION', req);
+
+    const reconciliation = await this.reconciliationService.getReconciliation(req.params.id);
+    this.sendSuccess(res, reconciliation);
+  });
+
+  startReconciliation = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('START_RECONCILIATION', req, req.body);
+
+    const reconciliation = await this.reconciliationService.start(startSchema.parse(req.body));
+    this.sendSuccess(res, reconciliation, 'Conciliação iniciada', 201);
+  });
+
+  updateReconciliation = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('UPDATE_RECONCILIATION', req, req.body);
+
+    const reconciliation = await this.reconciliationService.update(req.params.id, updateSchema.parse(req.body));
+    this.sendSuccess(res, reconciliation);
+  });
+
+  /**
+   * Mark items as cleared (or not) against the statement
+   */
+  clearItems = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('CLEAR_RECONCILIATION_ITEMS', req, req.body);
+
+    const { items, cleared } = clearItemsSchema.parse(req.body);
+    const reconciliation = await this.reconciliationService.setCleared(req.params.id, items, cleared);
+    this.sendSuccess(res, reconciliation);
+  });
+
+  completeReconciliation = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('COMPLETE_RECONCILIATION', req);
+
+    const reconciliation = await this.reconciliationService.complete(req.params.id);
+    this.sendSuccess(res, reconciliation, 'Conciliação concluída: o período está travado');
+  });
+
+  unlockReconciliation = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('UNLOCK_RECONCILIATION', req);
+
+    const reconciliation = await this.reconciliationService.unlock(req.params.id);
+    this.sendSuccess(res, reconciliation, 'Conciliação desbloqueada');
+  });
+
+  deleteReconciliation = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('DELETE_RECONCILIATION', req);
+
+    await this.reconciliationService.delete(req.params.id);
+    this.sendSuccess(res, undefined, 'Conciliação descartada');
+  });
+}
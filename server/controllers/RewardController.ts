@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { BaseController } from './BaseController';
+import { RewardService } from '../services/RewardService';
+import { IStorage } from '../storage';
+import { insertRewardProgramSchema, insertRewardRedemptionSchema } from '@shared/schema';
+
+/**
+ * Reward Controller
+ * Handles card reward programs (points, miles and cashback) and their redemptions
+ */
+export class RewardController extends BaseController {
+  private rewardService: RewardService;
+
+  constructor(storage: IStorage) {
+    super();
+    this.rewardService = new RewardService(storage);
+  }
+
+  /**
+   * Every program with its balance, accruals per invoice and points about to expire
+   */
+  getSummaries = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_REWARDS', req);
+
+    const summaries = await this.rewardService.getSummaries();
+    this.sendSuccess(res, summaries);
+  });
+
+  createProgram = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('CREATE_REWARD_PROGRAM', req, req.body);
+
+    const program = await this.rewardService.createProgram(insertRewardProgramSchema.parse(req.body));
+    this.sendSuccess(res, program, 'Programa de pontos criado', 201);
+  });
+
+  updateProgram = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('UPDATE_REWARD_PROGRAM', req, req.body);
+
+    const program = await this.rewardService.updateProgram(req.params.id, insertRewardProgramSchema.partial().parse(req.body));
+    this.sendSuccess(res, program, 'Programa de pontos atualizado');
+  });
+
+  deleteProgram = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('DELETE_REWARD_PROGRAM', req);
+
+    await this.rewardService.deleteProgram(req.params.id);
+    this.sendSuccess(res, undefined, 'Programa de pontos removido');
+  });
+
+  /**
+   * Redeem points, miles or cashback from a program
+   */
+  redeem = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('REDEEM_REWARDS', req, req.body);
+
+    const redemption = await this.rewardService.redeem(
+      req.params.id,
+      insertRewardRedemptionSchema.omit({ programId: true }).parse(req.body)
+    );
+    this.sendSuccess(res, redemption, 'Resgate registrado', 201);
+  });
+
+  deleteRedemption = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('DELETE_REWARD_REDEMPTION', req);
+
+    await this.rewardService.deleteRedemption(req.params.id);
+    this.sendSuccess(res, undefined, 'Resgate removido');
+  });
+}
@@ -0,0 +1,43 @@
+import { Request, Response } from 'express';
+import { BaseController } from './BaseController';
+import { IStorage } from '../storage';
+
+/**
+ * Settings Controller
+ * Handles HTTP requests for the user's key/value settings
+ */
+export class SettingsController extends BaseController {
+  constructor(private storage: IStorage) {
+    super();
+  }
+
+  /**
+   * List all settings
+   */
+  getSettings = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_SETTINGS', req);
+
+    const settings = await this.storage.getSettings();
+    this.sendSuccess(res, settings);
+  });
+
+  /**
+   * Create or update a setting by key
+   */
+  saveSetting = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('SAVE_SETTING', req, req.body);
+
+    const errors = this.validateRequiredFields(req, ['key']);
+    if (req.body.value === undefined) {
+      errors.push('value é obrigatório');
+    }
+    if (errors.length > 0) {
+      this.sendValidationError(res, errors);
+      return;
+    }
+
+    const { key, value } = req.body;
+    const setting = await this.storage.createOrUpdateSetting({ key, value });
+    this.sendSuccess(res, setting, 'Configuração salva com sucesso');
+  });
+}
@@ -0,0 +1,155 @@
+import { Request, Response } from 'express';
+import { BaseController } from './BaseController';
+import { IStorage } from '../storage';
+import { insertSubscriptionSchema } from '@shared/schema';
+import { Money } from '@shared/money';
+import { NotFoundError, ValidationError } from '../middleware/ErrorHandlingMiddleware';
+import { billingCardOf } from '../services/InvoiceService';
+
+/**
+ * Subscription Controller
+ * Handles HTTP requests related to recurring subscriptions
+ */
+export class SubscriptionController extends BaseController {
+  constructor(private storage: IStorage) {
+    super();
+  }
+
+  /**
+   * Monthly/yearly totals of the active subscriptions
+   */
+  getSummary = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_SUBSCRIPTIONS_SUMMARY', req);
+
+    const subscriptions = await this.storage.getSubscriptions();
+    const active = subscriptions.filter(s => s.isActive);
+
+    const totalMonthly = Money.sum(active.map(s => s.amount));
+    const byPaymentMethod = active.reduce((acc, s) => {
+      acc[s.paymentMethod] = Money.from(acc[s.paymentMethod]).plus(s.amount).toNumber();
+      return acc;
+    }, {} as Record<string, number>);
+
+    this.sendSuccess(res, {
+      totalMonthly: totalMonthly.toString(),
+      totalYearly: totalMonthly.times(12).toString(),
+      byPaymentMethod,
+      totalActive: active.length,
+      totalInactive: subscriptions.length - active.length
+    });
+  });
+
+  /**
+   * List all subscriptions
+   */
+  getSubscriptions = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_SUBSCRIPTIONS', req);
+
+    const subscriptions = await this.storage.getSubscriptions();
+    this.sendSuccess(res, subscriptions);
+  });
+
+  /**
+   * Get a subscription by ID
+   */
+  getSubscriptionById = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_SUBSCRIPTION_BY_ID', req);
+
+    const subscription = await this.storage.getSubscriptionById(req.params.id);
+    if (!subscription) {
+      throw new NotFoundError('Subscription');
+    }
+
+    this.sendSuccess(res, subscription);
+  });
+
+  /**
+   * Create a new subscription
+   */
+  createSubscription = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('CREATE_SUBSCRIPTION', req, req.body);
+
+    const subscription = await this.storage.createSubscription(insertSubscriptionSchema.parse(req.body));
+    this.sendSuccess(res, subscription, 'Assinatura criada com sucesso!', 201);
+  });
+
+  /**
+   * Update an existing subscription
+   */
+  updateSubscription = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('UPDATE_SUBSCRIPTION', req, req.body);
+
+    const subscription = await this.storage.updateSubscription(req.params.id, insertSubscriptionSchema.partial().parse(req.body));
+    if (!subscription) {
+      throw new NotFoundError('Subscription');
+    }
+
+    this.sendSuccess(res, subscription, 'Assinatura atualizada com sucesso!');
+  });
+
+  /**
+   * Activate or deactivate a subscription
+   */
+  toggleSubscription = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('TOGGLE_SUBSCRIPTION', req);
+
+    const subscription = await this.storage.toggleSubscription(req.params.id);
+    if (!subscription) {
+      throw new NotFoundError('Subscription');
+    }
+
+    this.sendSuccess(res, subscription, `Assinatura ${subscription.isActive ? 'ativada' : 'desativada'} com sucesso!`);
+  });
+
+  /**
+   * Delete a subscription
+   */
+  deleteSubscription = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('DELETE_SUBSCRIPTION', req);
+
+    if (!(await this.storage.deleteSubscription(req.params.id))) {
+      throw new NotFoundError('Subscription');
+    }
+
+    this.sendSuccess(res, undefined, 'Assinatura excluída com sucesso!');
+  });
+
+  /**
+   * Charge a credit card subscription on the card's current invoice
+   */
+  includeInInvoice = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('INCLUDE_SUBSCRIPTION_IN_INVOICE', req);
+
+    const subscription = await this.storage.getSubscriptionById(req.params.id);
+    if (!subscription) {
+      throw new NotFoundError('Subscription');
+    }
+
+    if (subscription.paymentMethod !== 'credito' || !subscription.creditCardId) {
+      throw new ValidationError('Esta assinatura não é de cartão de crédito');
+    }
+
+    const today = new Date();
+    const transaction = await this.storage.createTransaction({
+      description: `${subscription.name} (Assinatura)`,
+      amount: subscription.amount,
+      date: today.toISOString().split('T')[0],
+      type: 'expense',
+      categoryId: subscription.categoryId || null,
+      paymentMethod: 'credito',
+      creditCardId: subscription.creditCardId,
+      isRecurring: true
+    });
+
+    const subscriptionCard = await this.storage.getCreditCardById(subscription.creditCardId);
+    if (subscriptionCard) {
+      // Assinatura em cartão virtual ou adicional ocupa o limite do titular
+      const creditCard = await billingCardOf(this.storage, subscriptionCard);
+      await this.storage.updateCreditCard(creditCard.id, {
+        currentUsed: Money.from(creditCard.currentUsed).plus(subscription.amount).toString()
+      });
+    }
+
+    this.sendSuccess(res, transaction, 'Assinatura incluída na fatura atual com sucesso!');
+  });
+}
@@ -1,7 +1,19 @@
 import { Request, Response } from 'express';
+import { z } from 'zod';
 import { BaseController } from './BaseController';
 import { TransactionService } from '../services/TransactionService';
 import { IStorage } from '../storage';
+import { insertTransactionSchema } from '@shared/schema';
+
+const payoffSchema = z.object({
+  discountRate: z.coerce.number().min(0, 'Taxa inválida').max(20, 'Taxa de desconto acima de 20% a.m.'),
+});
+
+const refundSchema = z.object({
+  amount: z.union([z.string(), z.number()]).optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data deve estar no formato AAAA-MM-DD').optional(),
+  wholePurchase: z.boolean().optional(),
+});
 
 /**
  * Transaction Controller
@@ -20,21 +32,23 @@ export class TransactionController extends BaseController {
    */
   getAllTransactions = this.asyncHandler(async (req: Request, res: Response) => {
     this.logAction('GET_ALL_TRANSACTIONS', req);
-    
+
     const { startDate, endDate } = this.getDateRangeParams(req);
-    const categoryId = req.query.categoryId as string;
-
-    let transactions;
-    
-    if (startDate && endDate) {
-      transactions = await this.transactionService.getTransactionsByDateRange(startDate, endDate);
-    } else if (categoryId) {
-      transactions = await this.transactionService.getTransactionsByCategory(categoryId);
-    } else {
-      transactions = await this.transactionService.getAllTransactions();
-    }
-
-    this.sendSuccess(res, transactions.map(t => t.toJSON()));
+    const categoryId = req.query.categoryId as string | undefined;
+
+    const transactions = await this.transactionService.getTransactions({ startDate, endDate, categoryId });
+    this.sendSuccess(res, transactions);
+  });
+
+  /**
+   * Get the transactions of a credit card in a period
+   */
+  getCreditCardTransactions = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('GET_CREDIT_CARD_TRANSACTIONS', req);
+
+    const { cardId, startDate, endDate } = req.params;
+    const transactions = await this.transactionService.getCreditCardTransactions(cardId, startDate, endDate);
+    this.sendSuccess(res, transactions);
   });
 
   /**
@@ -42,9 +56,9 @@ export class TransactionController extends BaseController {
    */
   createTransaction = this.asyncHandler(async (req: Request, res: Response) => {
     this.logAction('CREATE_TRANSACTION', req, req.body);
-    
-    const transaction = await this.transactionService.createTransaction(req.body);
-    this.sendSuccess(res, transaction.toJSON(), 'Transação criada com sucesso', 201);
+
+    const transaction = await this.transactionService.recordTransaction(insertTransactionSchema.parse(req.body));
+    this.sendSuccess(res, transaction, 'Transação criada com sucesso', 201);
   });
 
   /**
@@ -52,11 +66,14 @@ export class TransactionController extends BaseController {
    */
   updateTransaction = this.asyncHandler(async (req: Request, res: Response) => {
     this.logAction('UPDATE_TRANSACTION', req, req.body);
-    
+
     const { id } = req.params;
-    const transaction = await this.transactionService.updateTransaction(id, req.body);
-    
-    this.sendSuccess(res, transaction.toJSON(), 'Transação atualizada com sucesso');
+    const transaction = await this.transactionService.updateTransaction(
+      id,
+      insertTransactionSchema.partial().parse(req.body)
+    );
+
+    this.sendSuccess(res, transaction, 'Transação atualizada com sucesso');
   });
 
   /**
@@ -64,11 +81,9 @@ export class TransactionController extends BaseController {
    */
   deleteTransaction = this.asyncHandler(async (req: Request, res: Response) => {
     this.logAction('DELETE_TRANSACTION', req);
-    
-    const { id } = req.params;
-    await this.transactionService.deleteTransaction(id);
-    
-    res.status(204).send();
+
+    await this.transactionService.deleteTransaction(req.params.id);
+    this.sendSuccess(res, undefined, 'Transação excluída com sucesso');
   });
 
   /**
@@ -76,125 +91,101 @@ export class TransactionController extends BaseController {
    */
   deleteRecurringTransactions = this.asyncHandler(async (req: Request, res: Response) => {
     this.logAction('DELETE_RECURRING_TRANSACTIONS', req);
-    
-    const { parentId } = req.params;
-    await this.transactionService.deleteRecurringTransactions(parentId);
-    
-    res.status(204).send();
+
+    await this.transactionService.deleteRecurringTransactions(req.params.parentId);
+    this.sendSuccess(res, undefined, 'Transações recorrentes excluídas com sucesso');
+  });
+
+  /**
+   * Update all recurring transactions
+   */
+  updateRecurringTransactions = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('UPDATE_RECURRING_TRANSACTIONS', req, req.body);
+
+    await this.transactionService.updateRecurringTransactions(
+      req.params.parentId,
+      insertTransactionSchema.partial().parse(req.body)
+    );
+    this.sendSuccess(res, undefined, 'Transações recorrentes atualizadas com sucesso');
+  });
+
+  /**
+   * Update an occurrence of a recurring series and the ones after it ("esta e as próximas")
+   */
+  updateFollowingOccurrences = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('UPDATE_FOLLOWING_OCCURRENCES', req, req.body);
+
+    const transaction = await this.transactionService.updateFollowingOccurrences(
+      req.params.id,
+      insertTransactionSchema.partial().parse(req.body)
+    );
+    this.sendSuccess(res, transaction, 'Esta e as próximas ocorrências foram atualizadas');
+  });
+
+  /**
+   * Refund (estorno) a card purchase or installment, fully or partially
+   */
+  refundTransaction = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('REFUND_TRANSACTION', req, req.body);
+
+    const refunds = await this.transactionService.refundTransaction(req.params.id, refundSchema.parse(req.body));
+    this.sendSuccess(res, refunds, 'Estorno registrado com sucesso', 201);
   });
 
   /**
    * Delete all installment transactions
    */
   deleteInstallmentTransactions = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('DELETE_INSTALLMENT_TRANSACTIONS', req);
-    
-    const { parentId } = req.params;
-    await this.transactionService.deleteInstallmentTransactions(parentId);
-    
-    res.status(204).send();
+    this.logAction('DELETE_ALL_INSTALLMENTS', req);
+
+    await this.transactionService.deleteInstallmentTransactions(req.params.parentId);
+    this.sendSuccess(res, undefined, 'Parcelas excluídas com sucesso');
   });
 
   /**
    * Update all installment transactions
+   * `proportionalAmount: true` in the body makes `amount` the new value of each installment
    */
   updateInstallmentTransactions = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('UPDATE_INSTALLMENT_TRANSACTIONS', req, req.body);
-    
-    const { parentId } = req.params;
-    
-    // This would need to be implemented in the service
-    // For now, return a not implemented error
-    this.sendError(res, 'Funcionalidade ainda não implementada', 501);
+    this.logAction('UPDATE_ALL_INSTALLMENTS', req, req.body);
+
+    await this.transactionService.updateInstallmentTransactions(
+      req.params.parentId,
+      insertTransactionSchema.partial().parse(req.body),
+      req.body.proportionalAmount === true
+    );
+    this.sendSuccess(res, undefined, 'Parcelas atualizadas com sucesso');
   });
 
   /**
-   * Get transaction statistics
+   * Simulate paying off the future installments of a card purchase (discountRate in the query string)
    */
-  getTransactionStatistics = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('GET_TRANSACTION_STATISTICS', req);
-    
-    const { startDate, endDate } = this.getDateRangeParams(req);
-    
-    if (!startDate || !endDate) {
-      this.sendError(res, 'Data de início e fim são obrigatórias', 400);
-      return;
-    }
-
-    const transactions = await this.transactionService.getTransactionsByDateRange(startDate, endDate);
-    
-    // Calculate statistics
-    const totalIncome = transactions
-      .filter(t => t.getType() === 'income')
-      .reduce((sum, t) => sum + t.getAmount(), 0);
-      
-    const totalExpenses = transactions
-      .filter(t => t.getType() === 'expense')
-      .reduce((sum, t) => sum + t.getAmount(), 0);
-      
-    const balance = totalIncome - totalExpenses;
-    
-    const statistics = {
-      totalIncome,
-      totalExpenses,
-      balance,
-      transactionCount: transactions.length,
-      incomeTransactions: transactions.filter(t => t.getType() === 'income').length,
-      expenseTransactions: transactions.filter(t => t.getType() === 'expense').length,
-      period: { startDate, endDate }
-    };
-
-    this.sendSuccess(res, statistics);
-  });
+  previewInstallmentPayoff = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('PREVIEW_INSTALLMENT_PAYOFF', req, req.query);
 
-  /**
-   * Get transactions by payment method
-   */
-  getTransactionsByPaymentMethod = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('GET_TRANSACTIONS_BY_PAYMENT_METHOD', req);
-    
-    const { paymentMethod } = req.params;
-    const { startDate, endDate } = this.getDateRangeParams(req);
-    
-    let transactions = await this.transactionService.getAllTransactions();
-    
-    // Filter by payment method
-    transactions = transactions.filter(t => t.getPaymentMethod() === paymentMethod);
-    
-    // Filter by date range if provided
-    if (startDate && endDate) {
-      const start = new Date(startDate);
-      const end = new Date(endDate);
-      transactions = transactions.filter(t => {
-        const transactionDate = t.getDate();
-        return transactionDate >= start && transactionDate <= end;
-      });
-    }
-
-    this.sendSuccess(res, transactions.map(t => t.toJSON()));
+    const { discountRate } = payoffSchema.parse(req.query);
+    const payoff = await this.transactionService.previewInstallmentPayoff(req.params.parentId, discountRate);
+    this.sendSuccess(res, payoff);
   });
 
   /**
-   * Get recurring transactions
+   * Pay off the future installments of a card purchase on the open invoice
    */
-  getRecurringTransactions = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('GET_RECURRING_TRANSACTIONS', req);
-    
-    const transactions = await this.transactionService.getAllTransactions();
-    const recurringTransactions = transactions.filter(t => t.getIsRecurring());
+  payOffInstallments = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('PAY_OFF_INSTALLMENTS', req, req.body);
 
-    this.sendSuccess(res, recurringTransactions.map(t => t.toJSON()));
+    const { discountRate } = payoffSchema.parse(req.body);
+    const result = await this.transactionService.payOffInstallments(req.params.parentId, discountRate);
+    this.sendSuccess(res, result, `Parcelas antecipadas: economia de R$ ${result.payoff.savings}`);
   });
 
   /**
-   * Get installment transactions
+   * Remove every transaction of the user
    */
-  getInstallmentTransactions = this.asyncHandler(async (req: Request, res: Response) => {
-    this.logAction('GET_INSTALLMENT_TRANSACTIONS', req);
-    
-    const transactions = await this.transactionService.getAllTransactions();
-    const installmentTransactions = transactions.filter(t => t.isInstallmentTransaction());
+  clearAllTransactions = this.asyncHandler(async (req: Request, res: Response) => {
+    this.logAction('CLEAR_ALL_TRANSACTIONS', req);
 
-    this.sendSuccess(res, installmentTransactions.map(t => t.toJSON()));
+    await this.transactionService.clearAllTransactions();
+    this.sendSuccess(res, undefined, 'Todas as transações foram removidas com sucesso');
   });
-}
\ No newline at end of file
+}
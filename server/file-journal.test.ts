@@ -0,0 +1,189 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { MemStorage } from "./storage";
+import { FileJournal, type CollectionsSnapshot } from "./utils/FileJournal";
+import { runWithUser } from "./utils/RequestContext";
+import { silenceConsole } from "./testing";
+
+silenceConsole();
+
+// Cada describe grava num diretório temporário próprio, apagado no fim
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "journal-test-"));
+}
+
+describe("FileJournal", () => {
+  let dataDir: string;
+  let collections: CollectionsSnapshot;
+  const journalPath = () => path.join(dataDir, "journal.log");
+  const provider = () => collections;
+
+  before(() => {
+    dataDir = tempDir();
+    collections = {};
+  });
+
+  after(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("starts empty when the directory has no previous state", () => {
+    assert.equal(new FileJournal(dataDir, { snapshotIntervalMs: 0 }).load(), null);
+  });
+
+  it("replays the journal records in order", () => {
+    const journal = new FileJournal(dataDir, { snapshotIntervalMs: 0 });
+    journal.load();
+    journal.open(provider);
+    journal.append({ op: "set", collection: "categories", id: "a", value: { name: "Mercado" } });
+    journal.append({ op: "set", collection: "categories", id: "b", value: { name: "Lazer" } });
+    journal.append({ op: "delete", collection: "categories", id: "a" });
+
+    const state = new FileJournal(dataDir, { snapshotIntervalMs: 0 }).load();
+    assert.deepEqual(state, {
+      collections: {},
+      records: [
+        { seq: 1, op: "set", collection: "categories", id: "a", value: { name: "Mercado" } },
+        { seq: 2, op: "set", collection: "categories", id: "b", value: { name: "Lazer" } },
+        { seq: 3, op: "delete", collection: "categories", id: "a" },
+      ],
+    });
+
+    // Ao fechar, o que estava só no journal vai para o snapshot
+    collections = { categories: [["b", { name: "Lazer" }]] };
+    journal.close();
+  });
+
+  it("writes the snapshot and truncates the journal", () => {
+    assert.equal(fs.statSync(journalPath()).size, 0);
+    const snapshot = JSON.parse(fs.readFileSync(path.join(dataDir, "snapshot.json"), "utf8"));
+    assert.deepEqual([snapshot.version, snapshot.seq, snapshot.collections], [1, 3, collections]);
+
+    assert.deepEqual(new FileJournal(dataDir, { snapshotIntervalMs: 0 }).load(), { collections, records: [] });
+  });
+
+  it("snapshots on its own every snapshotEvery records and keeps counting from the snapshot", () => {
+    const journal = new FileJournal(dataDir, { snapshotEvery: 2, snapshotIntervalMs: 0 });
+    journal.load();
+    journal.open(provider);
+    journal.append({ op: "set", collection: "categories", id: "c", value: { name: "Saúde" } });
+    assert.ok(fs.statSync(journalPath()).size > 0);
+
+    collections = { categories: [["b", { name: "Lazer" }], ["c", { name: "Saúde" }], ["d", { name: "Casa" }]] };
+    journal.append({ op: "set", collection: "categories", id: "d", value: { name: "Casa" } });
+    assert.equal(fs.statSync(journalPath()).size, 0);
+
+    journal.append({ op: "clear", collection: "categories" });
+    const state = new FileJournal(dataDir, { snapshotIntervalMs: 0 }).load();
+    assert.deepEqual(state!.collections, collections);
+    assert.deepEqual(state!.records, [{ seq: 6, op: "clear", collection: "categories" }]);
+
+    collections = {};
+    journal.close();
+  });
+
+  it("drops a torn last line and truncates it away", () => {
+    const journal = new FileJournal(dataDir, { snapshotIntervalMs: 0 });
+    journal.load();
+    journal.open(provider);
+    journal.append({ op: "set", collection: "budgets", id: "x", value: { amount: "100" } });
+    const intactSize = fs.statSync(journalPath()).size;
+    // Queda no meio da escrita: linha sem o \n final
+    fs.appendFileSync(journalPath(), '0123456789abcdef {"seq":8,"op":"set","collec');
+
+    const state = new FileJournal(dataDir, { snapshotIntervalMs: 0 }).load();
+    assert.deepEqual(state!.records.map(r => r.seq), [7]);
+    assert.equal(fs.statSync(journalPath()).size, intactSize);
+    journal.close();
+  });
+
+  it("drops a last line whose checksum does not match, but refuses corruption before it", () => {
+    const journal = new FileJournal(dataDir, { snapshotIntervalMs: 0 });
+    journal.load();
+    journal.open(provider);
+    journal.append({ op: "set", collection: "budgets", id: "y", value: { amount: "200" } });
+    journal.append({ op: "set", collection: "budgets", id: "z", value: { amount: "300" } });
+
+    const lines = fs.readFileSync(journalPath(), "utf8").split("\n");
+    const tampered = [lines[0], lines[1].replace('"300"', '"999"'), ""].join("\n");
+    fs.writeFileSync(journalPath(), tampered);
+    assert.deepEqual(new FileJournal(dataDir, { snapshotIntervalMs: 0 }).load()!.records.map(r => r.seq), [8]);
+    assert.equal(fs.readFileSync(journalPath(), "utf8"), `${lines[0]}\n`);
+
+    fs.writeFileSync(journalPath(), [lines[0].replace('"200"', '"999"'), lines[1], ""].join("\n"));
+    assert.throws(() => new FileJournal(dataDir, { snapshotIntervalMs: 0 }).load(), /Corrupted journal record at byte 0/);
+    fs.writeFileSync(journalPath(), "");
+    journal.close();
+  });
+
+  it("revives the configured date fields", () => {
+    const journal = new FileJournal(dataDir, { snapshotIntervalMs: 0, dateFields: ["createdAt"] });
+    journal.load();
+    journal.open(provider);
+    journal.append({ op: "set", collection: "users", id: "u", value: { createdAt: new Date(2027, 0, 1), note: "2027-01-01T03:00:00.000Z" } });
+
+    const [record] = new FileJournal(dataDir, { snapshotIntervalMs: 0, dateFields: ["createdAt"] }).load()!.records;
+    const value = record.value as { createdAt: Date; note: string };
+    assert.equal(value.createdAt.getTime(), new Date(2027, 0, 1).getTime());
+    assert.equal(typeof value.note, "string");
+    journal.close();
+  });
+});
+
+describe("MemStorage persistence", () => {
+  let dataDir: string;
+
+  before(() => {
+    dataDir = tempDir();
+  });
+
+  after(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("restores every timestamp column as a Date", async () => {
+    const storage = new MemStorage({ dataDir, snapshotIntervalMs: 0 });
+    const userId = (await storage.createUser({ email: "diario@example.com", passwordHash: "x" })).id;
+    const completedAt = new Date(2027, 5, 15, 9, 30);
+    const reconciliationId = await runWithUser(userId, async () => {
+      const account = await storage.createAccount({ name: "Conta", type: "checking", openingBalance: "0", openingDate: "2027-06-01" });
+      const reconciliation = await storage.createReconciliation({
+        accountId: account.id, statementDate: "2027-06-15", statementBalance: "0",
+      });
+      await storage.updateReconciliation(reconciliation.id, { status: "completed", completedAt });
+      return reconciliation.id;
+    });
+    storage.close();
+
+    const restored = new MemStorage({ dataDir, snapshotIntervalMs: 0 });
+    const reconciliation = await runWithUser(userId, () => restored.getReconciliationById(reconciliationId));
+    assert.ok(reconciliation!.completedAt instanceof Date);
+    assert.equal(reconciliation!.completedAt!.getTime(), completedAt.getTime());
+    assert.ok(reconciliation!.createdAt instanceof Date);
+    restored.close();
+  });
+
+  it("reads the invoice closing date that older files kept in dueDate", async () => {
+    const oldDir = tempDir();
+    const invoice = (id: string, dueDate: string) => ({ id, userId: "u", creditCardId: "c", dueDate, status: "closed" });
+    // Arquivos gravados antes da coluna virar closingDate: uma fatura no snapshot e outra só no journal
+    const writer = new FileJournal(oldDir, { snapshotIntervalMs: 0 });
+    writer.load();
+    writer.open(() => ({ creditCardInvoices: [["a", invoice("a", "2027-03-10")]] }));
+    writer.snapshot();
+    writer.append({ op: "set", collection: "creditCardInvoices", id: "b", value: invoice("b", "2027-04-10") });
+
+    const restored = new MemStorage({ dataDir: oldDir, snapshotIntervalMs: 0 });
+    const invoices = await runWithUser("u", () => restored.getCreditCardInvoicesByCard("c"));
+    assert.deepEqual(invoices.map(i => [i.id, i.closingDate, "dueDate" in i]), [["a", "2027-03-10", false], ["b", "2027-04-10", false]]);
+
+    writer.close();
+    restored.close();
+    const snapshot = JSON.parse(fs.readFileSync(path.join(oldDir, "snapshot.json"), "utf8"));
+    assert.deepEqual(snapshot.collections.creditCardInvoices.map(([, i]: [string, { closingDate: string }]) => i.closingDate), ["2027-03-10", "2027-04-10"]);
+    fs.rmSync(oldDir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FinancialSummaryService } from "./services/FinancialSummaryService";
+import { useFixture } from "./testing";
+
+describe("monthly summary", () => {
+  const { storage, asUser } = useFixture(new Date(2026, 10, 3, 10, 0));
+  const summaries = new FinancialSummaryService(storage);
+
+  it("counts card purchases in the invoice month, also on deactivated cards", async () => {
+    const cardId = (await asUser(() => storage.createCreditCard({
+      name: "Antigo", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+    }))).id;
+    const categoryId = (await asUser(() => storage.createCategory({ name: "Livros", icon: "📚", color: "#000000", type: "expense" }))).id;
+    await asUser(() => storage.createTransaction({
+      description: "Livro", amount: "80", date: "2026-11-02", type: "expense", creditCardId: cardId, categoryId,
+    }));
+    await asUser(() => storage.createTransaction({
+      description: "Revista", amount: "20", date: "2026-11-15", type: "expense", creditCardId: cardId, categoryId,
+    }));
+    await asUser(() => storage.updateCreditCard(cardId, { isActive: false }));
+
+    const november = await asUser(() => summaries.calculateMonthlySummary(2026, 11));
+    assert.equal(november.expensesByCategory[categoryId].toString(), "80.00");
+    assert.equal(november.transactionExpenses.toString(), "80.00");
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { parseOfx } from "./utils/OfxParser";
+import { parseCsv, parseCsvAmount, parseCsvDate, parseCsvRecords, type CsvLayout } from "./utils/CsvParser";
+import {
+  BUILTIN_IMPORT_PROFILES,
+  TransactionImportService,
+  descriptionSimilarity,
+  type ImportCandidate,
+} from "./services/TransactionImportService";
+import { ValidationError } from "./middleware/ErrorHandlingMiddleware";
+import { useFixture } from "./testing";
+
+// Exportação OFX 1.x do jeito que os bancos mandam: cabeçalho SGML, folhas sem tag de fechamento e CRLF
+const SGML_STATEMENT = [
+  "OFXHEADER:100",
+  "DATA:OFXSGML",
+  "VERSION:102",
+  "ENCODING:USASCII",
+  "CHARSET:1252",
+  "",
+  "<OFX>",
+  "<BANKMSGSRSV1><STMTTRNRS><STMTRS>",
+  "<CURDEF>BRL",
+  "<BANKACCTFROM><BANKID>0341<ACCTID>12345-6<ACCTTYPE>CHECKING</BANKACCTFROM>",
+  "<BANKTRANLIST>",
+  "<DTSTART>20270301000000[-3:BRT]",
+  "<DTEND>20270331000000[-3:BRT]",
+  "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20270302120000[-3:BRT]<TRNAMT>-1234.56<FITID>A1<NAME>Açougue São João<MEMO>Compra débito</STMTTRN>",
+  "<STMTTRN><TRNTYPE>credit<DTPOSTED>20270305<TRNAMT>+10<FITID>A2<NAME>Pix recebido<MEMO>Pix recebido</STMTTRN>",
+  "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20270307<TRNAMT>45,90<FITID>A3<NAME>Padaria &amp; Café</STMTTRN>",
+  "</BANKTRANLIST>",
+  "</STMTRS></STMTTRNRS></BANKMSGSRSV1>",
+  "</OFX>",
+].join("\r\n");
+
+const XML_STATEMENT = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CURDEF>BRL</CURDEF>
+    <CCACCTFROM><ACCTID>5555</ACCTID></CCACCTFROM>
+    <BANKTRANLIST>
+      <DTSTART>20270210</DTSTART>
+      <DTEND>20270310</DTEND>
+      <STMTTRN>
+        <TRNTYPE>DEBIT</TRNTYPE>
+        <DTPOSTED>20270215</DTPOSTED>
+        <TRNAMT>-89.90</TRNAMT>
+        <FITID>C1</FITID>
+        <NAME>Livraria &#199;edro</NAME>
+      </STMTTRN>
+    </BANKTRANLIST>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+const profile = (id: string): CsvLayout => BUILTIN_IMPORT_PROFILES.find(p => p.id === id)!;
+
+describe("OFX parser", () => {
+  it("reads an SGML 1.x bank statement whose leaves have no closing tags", () => {
+    const statement = parseOfx(SGML_STATEMENT);
+    assert.deepEqual(
+      [statement.kind, statement.version, statement.currency, statement.bankId, statement.accountId],
+      ["bank", 1, "BRL", "0341", "12345-6"]
+    );
+    assert.deepEqual([statement.startDate, statement.endDate], ["2027-03-01", "2027-03-31"]);
+    assert.deepEqual(
+      statement.transactions.map(t => [t.fitId, t.trnType, t.date, t.amount, t.name]),
+      [
+        ["A1", "DEBIT", "2027-03-02", "-1234.56", "Açougue São João"],
+        ["A2", "CREDIT", "2027-03-05", "10", "Pix recebido"],
+        ["A3", "DEBIT", "2027-03-07", "45.90", "Padaria & Café"],
+      ]
+    );
+  });
+
+  it("reads an XML 2.x credit card statement", () => {
+    const statement = parseOfx(XML_STATEMENT);
+    assert.deepEqual([statement.kind, statement.version, statement.accountId], ["creditcard", 2, "5555"]);
+    assert.deepEqual(
+      statement.transactions.map(t => [t.fitId, t.date, t.amount, t.name, t.memo]),
+      [["C1", "2027-02-15", "-89.90", "Livraria Çedro", ""]]
+    );
+  });
+
+  it("keeps the accents of a windows-1252 file decoded as the wizard does", () => {
+    // O navegador decodifica pelo CHARSET do cabeçalho; lido como UTF-8, "ç" e "ã" viram U+FFFD
+    const bytes = Buffer.from(SGML_STATEMENT, "latin1");
+    assert.equal(parseOfx(new TextDecoder("windows-1252").decode(bytes)).transactions[0].name, "Açougue São João");
+    assert.notEqual(parseOfx(new TextDecoder("utf-8").decode(bytes)).transactions[0].name, "Açougue São João");
+  });
+
+  it("skips entries without a date or amount, and rejects a file with nothing valid", () => {
+    const oneBad = SGML_STATEMENT.replace("<TRNAMT>+10", "<TRNAMT>dez");
+    assert.deepEqual(parseOfx(oneBad).transactions.map(t => t.fitId), ["A1", "A3"]);
+
+    const allBad = SGML_STATEMENT.replace(/<DTPOSTED>\d+/g, "<DTPOSTED>ontem");
+    assert.throws(() => parseOfx(allBad), (error: ValidationError) => {
+      assert.ok(error instanceof ValidationError);
+      assert.match(error.message, /Nenhum lançamento válido/);
+      assert.deepEqual(error.details, [1, 2, 3].map(n => `Lançamento ${n}: data ou valor inválido`));
+      return true;
+    });
+    assert.throws(() => parseOfx("Data;Valor\n01/03/2027;10"), /Arquivo OFX inválido/);
+  });
+});
+
+describe("CSV parser", () => {
+  it("splits quoted fields, doubled quotes, CRLF, a BOM and blank lines", () => {
+    const records = parseCsvRecords('\uFEFFa;"b;c";"d ""e"""\r\n\r\n1;"linha\nquebrada";3\n\n', ";");
+    assert.deepEqual(records, [["a", "b;c", 'd "e"'], ["1", "linha\nquebrada", "3"]]);
+  });
+
+  it("normalizes amounts and dates in the separators of each bank", () => {
+    assert.equal(parseCsvAmount("1.234,56", ","), "1234.56");
+    assert.equal(parseCsvAmount("-R$ 10,00", ","), "-10.00");
+    assert.equal(parseCsvAmount("(45.90)", "."), "-45.90");
+    assert.equal(parseCsvAmount("(-45.90)", "."), "45.90");
+    assert.equal(parseCsvAmount("1,234.56", "."), "1234.56");
+    assert.equal(parseCsvAmount("12abc", ","), undefined);
+
+    assert.equal(parseCsvDate("05/03/2027", "DD/MM/YYYY"), "2027-03-05");
+    assert.equal(parseCsvDate("2027-03-05 10:12:00", "YYYY-MM-DD"), "2027-03-05");
+    assert.equal(parseCsvDate("05.03.27", "DD.MM.YY"), "2027-03-05");
+    assert.equal(parseCsvDate("31/02/2027", "DD/MM/YYYY"), undefined);
+    assert.equal(parseCsvDate("2027-03-05", "DD/MM/YYYY"), undefined);
+  });
+
+  it("reads the Nubank card export, where purchases are positive", () => {
+    const content = "date,title,amount\n2027-03-02,Mercado Extra,150.25\n2027-03-04,Pagamento recebido,-500.00\n";
+    const { headers, rows, errors } = parseCsv(content, profile("builtin-nubank-cartao"));
+    assert.deepEqual(headers, ["date", "title", "amount"]);
+    assert.deepEqual(rows.map(r => [r.line, r.date, r.description, r.amount, r.type]), [
+      [2, "2027-03-02", "Mercado Extra", "150.25", "expense"],
+      [3, "2027-03-04", "Pagamento recebido", "500.00", "income"],
+    ]);
+    assert.deepEqual(errors, []);
+  });
+
+  it("reads the Nubank account export, with quoted descriptions and negative debits", () => {
+    const content = [
+      "Data,Valor,Identificador,Descrição",
+      '05/03/2027,-42.90,abc,"Compra no débito - Padaria, Centro"',
+      "06/03/2027,3000.00,def,Transferência recebida",
+    ].join("\n");
+    const { rows } = parseCsv(content, profile("builtin-nubank-conta"));
+    assert.deepEqual(rows.map(r => [r.date, r.description, r.amount, r.type]), [
+      ["2027-03-05", "Compra no débito - Padaria, Centro", "42.90", "expense"],
+      ["2027-03-06", "Transferência recebida", "3000.00", "income"],
+    ]);
+  });
+
+  it("reads the Itaú export by column position, with ; and decimal commas", () => {
+    const content = "02/03/2027;SUPERMERCADO DIA;-1.234,56\n03/03/2027;PIX RECEBIDO;250,00\n04/03/2027;SALDO DO DIA;0,00\n31/03/2027;;10,00\n";
+    const { headers, rows, errors } = parseCsv(content, profile("builtin-itau-extrato"));
+    assert.deepEqual(headers, []);
+    assert.deepEqual(rows.map(r => [r.line, r.amount, r.type]), [[1, "1234.56", "expense"], [2, "250.00", "income"]]);
+    assert.deepEqual(errors, ["Linha 3: valor inválido", "Linha 4: descrição vazia"]);
+  });
+
+  it("reads split debit and credit columns after skipped rows", () => {
+    const layout: CsvLayout = {
+      delimiter: ";", decimalSeparator: ",", dateFormat: "DD/MM/YYYY", signConvention: "split_columns",
+      skipRows: 2, columns: { date: "Data", description: "Histórico", debit: "Débito", credit: "Crédito" },
+    };
+    const content = "Banco X\nAgência 1;Conta 2\nData;Histórico;Débito;Crédito\n02/03/2027;Tarifa;12,50;\n03/03/2027;Depósito;;100,00\n32/03/2027;Erro;1,00;\n";
+    const { rows, errors } = parseCsv(content, layout);
+    assert.deepEqual(rows.map(r => [r.line, r.description, r.amount, r.type]), [
+      [4, "Tarifa", "12.50", "expense"],
+      [5, "Depósito", "100.00", "income"],
+    ]);
+    assert.deepEqual(errors, ['Linha 6: data inválida "32/03/2027"']);
+  });
+
+  it("names the columns the file does not have", () => {
+    assert.throws(() => parseCsv("Data;Valor\n01/03/2027;10", profile("builtin-nubank-conta")), (error: ValidationError) => {
+      assert.equal(error.message, "Colunas não encontradas no arquivo");
+      assert.deepEqual(error.details, ['Coluna "Data"', 'Coluna "Descrição"', 'Coluna "Valor"']);
+      return true;
+    });
+  });
+});
+
+describe("import duplicate detection", () => {
+  const { storage, asUser } = useFixture(new Date(2027, 2, 20, 10, 0));
+  const imports = new TransactionImportService(storage);
+  let cardId: string;
+  let marketId: string;
+
+  const candidate = (overrides: Partial<ImportCandidate>): ImportCandidate => ({
+    date: "2027-03-10", description: "SUPERMERCADO EXTRA 1234", amount: "150.25", type: "expense", ...overrides,
+  });
+
+  before(async () => {
+    cardId = (await asUser(() => storage.createCreditCard({
+      name: "Cartão", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+    }))).id;
+    marketId = (await asUser(() => storage.createTransaction({
+      description: "Supermercado Extra", amount: "150.25", date: "2027-03-10", type: "expense", creditCardId: cardId,
+    }))).id;
+    await asUser(() => storage.createTransaction({
+      description: "Assinatura streaming", amount: "39.90", date: "2027-03-01", type: "expense", creditCardId: cardId,
+      fitId: "F1",
+    }));
+  });
+
+  it("scores descriptions by shared bigrams, ignoring case, accents and punctuation", () => {
+    assert.equal(descriptionSimilarity("Açougue São João", "ACOUGUE SAO JOAO"), 1);
+    assert.equal(descriptionSimilarity("Padaria", "a"), 0);
+    assert.ok(descriptionSimilarity("Supermercado Extra", "SUPERMERCADO EXTRA 1234") >= 0.6);
+    assert.ok(descriptionSimilarity("Supermercado Extra", "Posto Shell") < 0.6);
+  });
+
+  it("flags FITIDs already imported and FITIDs repeated in the file", async () => {
+    const entries = await asUser(() => imports.flagDuplicates([
+      candidate({ fitId: "F1", description: "Outra descrição", date: "2027-01-01" }),
+      candidate({ fitId: "F2", description: "Cinema", amount: "60" }),
+      candidate({ fitId: "F2", description: "Cinema", amount: "60" }),
+    ], { creditCardId: cardId }));
+
+    assert.deepEqual(entries.map(e => e.duplicate?.reason ?? null), ["fitid", null, "file"]);
+    assert.equal(entries[0].duplicate!.description, "Assinatura streaming");
+    assert.deepEqual(entries.map(e => e.key), ["fitid:F1", "fitid:F2", "fitid:F2"]);
+  });
+
+  it("flags a similar entry with the same type and amount up to three days apart", async () => {
+    const [early, late] = await asUser(() => imports.flagDuplicates([
+      candidate({ date: "2027-03-07" }),
+      candidate({ date: "2027-03-13" }),
+    ], { creditCardId: cardId }));
+
+    for (const entry of [early, late]) {
+      assert.equal(entry.duplicate!.reason, "fuzzy");
+      assert.equal(entry.duplicate!.transactionId, marketId);
+      assert.equal(entry.duplicate!.score, Math.round(descriptionSimilarity("Supermercado Extra", entry.description) * 100) / 100);
+    }
+  });
+
+  it("does not flag near misses", async () => {
+    const nearMisses = [
+      candidate({ date: "2027-03-14" }),
+      candidate({ date: "2027-03-06" }),
+      candidate({ amount: "150.24" }),
+      candidate({ type: "income" }),
+      candidate({ description: "Posto Shell" }),
+    ];
+    const onCard = await asUser(() => imports.flagDuplicates(nearMisses, { creditCardId: cardId }));
+    assert.deepEqual(onCard.map(e => e.duplicate), [null, null, null, null, null]);
+
+    // A mesma compra vinda do extrato de uma conta não é a do cartão
+    const [onAccount] = await asUser(() => imports.flagDuplicates([candidate({})], {}));
+    assert.equal(onAccount.duplicate, null);
+  });
+});
+
+describe("card statement import", () => {
+  const { storage, asUser } = useFixture(new Date(2027, 2, 20, 10, 0));
+  const imports = new TransactionImportService(storage);
+  let cardId: string;
+
+  before(async () => {
+    cardId = (await asUser(() => storage.createCreditCard({
+      name: "Cartão", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+    }))).id;
+  });
+
+  it("leaves the invoice payment of an OFX card statement out of the preview", async () => {
+    const payment = "<STMTTRN><TRNTYPE>PAYMENT</TRNTYPE><DTPOSTED>20270220</DTPOSTED><TRNAMT>500.00</TRNAMT>"
+      + "<FITID>C2</FITID><NAME>Pagamento recebido</NAME></STMTTRN>";
+    const content = XML_STATEMENT.replace("</BANKTRANLIST>", `${payment}</BANKTRANLIST>`);
+
+    const preview = await asUser(() => imports.previewOfx(content, { creditCardId: cardId }));
+    assert.equal(preview.statement.count, 2);
+    assert.deepEqual(preview.entries.map(e => [e.fitId, e.type, e.amount]), [["C1", "expense", "89.90"]]);
+    assert.deepEqual(preview.ignored, ["Lançamento 2: crédito no cartão (pagamento ou estorno) não importado"]);
+  });
+
+  it("leaves the credits of a CSV card export out of the preview and never saves them on the card", async () => {
+    const content = "date,title,amount\n2027-03-02,Mercado Extra,150.25\n2027-03-04,Pagamento recebido,-500.00\n";
+    const preview = await asUser(() => imports.previewCsv(content, profile("builtin-nubank-cartao"), { creditCardId: cardId }));
+    assert.deepEqual(preview.entries.map(e => e.description), ["Mercado Extra"]);
+    assert.deepEqual(preview.errors, ["Linha 3: crédito no cartão (pagamento ou estorno) não importado"]);
+
+    const result = await asUser(() => imports.importEntries([
+      { date: "2027-03-02", description: "Mercado Extra", amount: "150.25", type: "expense" },
+      { date: "2027-03-04", description: "Pagamento recebido", amount: "500.00", type: "income" },
+    ], { creditCardId: cardId }));
+    assert.deepEqual([result.imported, result.skipped], [1, 1]);
+    const onCard = (await asUser(() => storage.getTransactions())).filter(t => t.creditCardId === cardId);
+    assert.deepEqual(onCard.map(t => [t.description, t.type]), [["Mercado Extra", "expense"]]);
+  });
+});
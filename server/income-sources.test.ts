@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TransactionService } from "./services/TransactionService";
+import { FinancialSummaryService } from "./services/FinancialSummaryService";
+import { IncomeSourceService } from "./services/IncomeSourceService";
+import { inssContribution, irrfWithholding } from "./utils/Payroll";
+import { Money } from "@shared/money";
+import { useFixture } from "./testing";
+
+describe("income sources", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2027, 10, 1, 10, 0));
+  const transactions = new TransactionService(storage, clock);
+  const incomeSources = new IncomeSourceService(storage, clock);
+  let sourceId: string;
+  const paychecks = async () => (await asUser(() => storage.getTransactions()))
+    .filter(t => t.description === "Empresa")
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(t => [t.date, t.amount]);
+
+  it("withholds INSS and IRRF with the progressive tables of the pay date", () => {
+    const withholding = (gross: string, dependents: number, date: string) => {
+      const inss = inssContribution(Money.from(gross), date);
+      return [inss.toString(), irrfWithholding(Money.from(gross), inss, dependents, date).toString()];
+    };
+    // 2025: o desconto simplificado isenta R$ 3.000; acima do teto o INSS para em 951,63
+    assert.deepEqual(withholding("3000", 0, "2025-08-06"), ["253.41", "0.00"]);
+    assert.deepEqual(withholding("10000", 1, "2025-08-06"), ["951.63", "1527.43"]);
+    // 2026: a redução zera o imposto até R$ 5.000 e diminui até R$ 7.350
+    assert.deepEqual(withholding("5000", 0, "2026-08-06"), ["501.51", "0.00"]);
+    assert.deepEqual(withholding("6000", 0, "2026-08-06"), ["641.51", "385.10"]);
+  });
+
+  it("deposits the net paycheck on the configured business day", async () => {
+    sourceId = (await asUser(() => incomeSources.createIncomeSource({
+      name: "Empresa", grossSalary: "6000", payBusinessDay: 5, startDate: "2027-11-01",
+      deductions: [{ description: "Plano de saúde", amount: "150" }],
+      dailyTransportAllowance: "10", dailyMealAllowance: "30",
+    }))).id;
+
+    // Novembro: 20 dias úteis (VT 200 descontado inteiro, VR 600); dezembro tem 23
+    assert.deepEqual(await paychecks(), [["2027-11-08", "5423.39"], ["2027-12-07", "5513.39"], ["2028-01-07", "5423.39"]]);
+
+    // Novembro também tem a 1ª parcela do 13º: 2/12 avos de 6.000, metade adiantada sem descontos
+    const summary = await asUser(() => new FinancialSummaryService(storage).calculateMonthlySummary(2027, 11));
+    assert.deepEqual(summary.paychecks.map(p => [p.kind, p.payDate, p.net.toString()]).sort(), [
+      ["salary", "2027-11-08", "5423.39"], ["thirteenth_first", "2027-11-30", "500.00"],
+    ]);
+    const november = summary.paychecks.find(p => p.kind === "salary")!;
+    assert.deepEqual(
+      [november.gross, november.inss, november.irrf, november.transportDiscount, november.net].map(String),
+      ["6000.00", "641.51", "385.10", "200.00", "5423.39"]
+    );
+    assert.equal(summary.totalIncome.toString(), "5923.39");
+  });
+
+  it("re-plans the paychecks not paid yet when the source changes", async () => {
+    clock.set(new Date(2027, 10, 10, 10, 0));
+    await asUser(() => incomeSources.updateIncomeSource(sourceId, { grossSalary: "7200", payBusinessDay: 1 }));
+
+    const [paid, december] = await paychecks();
+    assert.deepEqual(paid, ["2027-11-08", "5423.39"]);
+    assert.deepEqual(december, ["2027-12-01", "6101.82"]);
+    // Pagando no primeiro dia útil, fevereiro já entra no horizonte de 3 meses
+    assert.deepEqual((await paychecks()).map(([date]) => date), ["2027-11-08", "2027-12-01", "2028-01-03", "2028-02-01"]);
+
+    const thirteenth = (await asUser(() => storage.getTransactions())).filter(t => t.payrollKind === "thirteenth_first");
+    assert.deepEqual(thirteenth.map(t => [t.description, t.amount]), [["Empresa - 13º salário (1ª parcela)", "600.00"]]);
+  });
+
+  it("keeps the paychecks received when the source is deleted", async () => {
+    await asUser(() => incomeSources.deleteIncomeSource(sourceId));
+
+    assert.deepEqual(await paychecks(), [["2027-11-08", "5423.39"]]);
+    const [paid] = (await asUser(() => storage.getTransactions())).filter(t => t.description === "Empresa");
+    assert.equal(paid.incomeSourceId, null);
+    assert.equal((await asUser(() => storage.getTransactions())).some(t => t.payrollKind?.startsWith("thirteenth")), false);
+
+    clock.set(new Date(2027, 11, 10, 0, 1));
+    await asUser(() => transactions.materializeRecurringTransactions(clock.now()));
+    assert.deepEqual(await paychecks(), [["2027-11-08", "5423.39"]]);
+  });
+});
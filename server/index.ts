@@ -1,22 +1,17 @@
-import express from "express";
-import { registerRoutes } from "./routes";
 import { createServer } from "http";
+import { createApp } from "./app";
+import { storage } from "./storage";
+import { createJobScheduler } from "./jobs";
 
-const app = express();
+// Fechamento de faturas, vencimentos e recorrências rodam em segundo plano no próprio processo
+const scheduler = createJobScheduler(storage);
+const app = createApp(scheduler);
 const PORT = process.env.PORT || 5000;
 
-// Middleware para parsing JSON
-app.use(express.json());
-
-// Middleware para parsing de formulários
-app.use(express.urlencoded({ extended: true }));
-
-// Registrar rotas da API
-registerRoutes(app);
-
 const server = createServer(app);
 
 server.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`🔌 API endpoints available at http://localhost:${PORT}/api/*`);
+  scheduler.start();
 });
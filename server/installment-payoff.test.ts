@@ -0,0 +1,57 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { InvoiceService } from "./services/InvoiceService";
+import { TransactionService } from "./services/TransactionService";
+import { ConflictError } from "./middleware/ErrorHandlingMiddleware";
+import { useFixture } from "./testing";
+
+describe("installment payoff", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2026, 9, 5, 10, 0));
+  const invoices = new InvoiceService(storage, clock);
+  const transactions = new TransactionService(storage, clock);
+  let payoffCardId: string;
+  let parentId: string;
+
+  before(async () => {
+    payoffCardId = (await asUser(() => storage.createCreditCard({
+      name: "Antecipação", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+    }))).id;
+    parentId = (await asUser(() => transactions.recordTransaction({
+      description: "Sofá", amount: "600", date: "2026-10-01", type: "expense", creditCardId: payoffCardId, installments: 6,
+    }))).id;
+  });
+
+  it("discounts each future installment by the months it is brought forward", async () => {
+    const payoff = await asUser(() => transactions.previewInstallmentPayoff(parentId, 2));
+
+    assert.equal(payoff.invoiceClosingDate, "2026-10-10");
+    assert.deepEqual(payoff.installments.map(i => [i.installmentNumber, i.monthsAhead, i.discountedAmount.toString()]), [
+      [2, 1, "98.04"],
+      [3, 2, "96.12"],
+      [4, 3, "94.23"],
+      [5, 4, "92.38"],
+      [6, 5, "90.57"],
+    ]);
+    assert.equal(payoff.originalAmount.toString(), "500.00");
+    assert.equal(payoff.payoffAmount.toString(), "471.34");
+    assert.equal(payoff.savings.toString(), "28.66");
+  });
+
+  it("moves them into the open invoice as one charge and releases the discount", async () => {
+    const { transaction } = await asUser(() => transactions.payOffInstallments(parentId, 2));
+    assert.equal(transaction.amount, "471.34");
+    assert.equal(transaction.date, "2026-10-05");
+
+    const remaining = await asUser(() => storage.getInstallmentTransactions(parentId));
+    assert.deepEqual(remaining.map(t => t.installmentNumber), [1]);
+
+    const october = await asUser(() => invoices.getInvoice(payoffCardId, "2026-10-10"));
+    assert.equal(october.totalAmount, "571.34");
+    assert.equal((await asUser(() => invoices.getInvoice(payoffCardId, "2026-11-10"))).totalAmount, "0");
+
+    const card = await asUser(() => storage.getCreditCardById(payoffCardId));
+    assert.equal(card!.currentUsed, "571.34");
+
+    await assert.rejects(asUser(() => transactions.payOffInstallments(parentId, 2)), ConflictError);
+  });
+});
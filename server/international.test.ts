@@ -0,0 +1,107 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { InvoiceService } from "./services/InvoiceService";
+import { TransactionService } from "./services/TransactionService";
+import { ExchangeRateService } from "./services/ExchangeRateService";
+import { ValidationError } from "./middleware/ErrorHandlingMiddleware";
+import { useFixture } from "./testing";
+
+describe("international purchases", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2026, 11, 3, 10, 0));
+  const invoices = new InvoiceService(storage, clock);
+  const transactions = new TransactionService(storage, clock);
+  let purchaseDateCardId: string;
+  let closingDateCardId: string;
+  let dinnerId: string;
+
+  before(async () => {
+    purchaseDateCardId = (await asUser(() => storage.createCreditCard({
+      name: "Viagem", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+    }))).id;
+    closingDateCardId = (await asUser(() => storage.createCreditCard({
+      name: "Viagem (fechamento)", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+      exchangeRateRule: "closing_date",
+    }))).id;
+  });
+
+  it("imports PTAX sell rates and reports the lines it cannot read", async () => {
+    const result = await asUser(() => new ExchangeRateService(storage).importPtaxCsv([
+      "Data;Cod Moeda;Tipo;Moeda;Taxa Compra;Taxa Venda;Paridade Compra;Paridade Venda",
+      "01122026;220;A;USD;5,0000;5,0100;1,0000;1,0000",
+      "02122026;220;A;USD;5,1000;5,1200;1,0000;1,0000",
+      "31/11/2026;USD;5,2",
+    ].join("\n")));
+
+    assert.deepEqual(result, { imported: 2, skipped: 1, errors: [{ line: 4, message: 'Data inválida: "31/11/2026"' }] });
+    assert.equal((await asUser(() => storage.getExchangeRateOn("USD", "2026-12-03")))!.rate, "5.120000");
+  });
+
+  it("converts the purchase at the rate of its date and bills IOF on it", async () => {
+    const hotel = await asUser(() => transactions.recordTransaction({
+      description: "Hotel", amount: "1", date: "2026-12-02", type: "expense", creditCardId: purchaseDateCardId,
+      originalCurrency: "USD", originalAmount: "100",
+    }));
+    assert.equal(hotel.amount, "512.00");
+    assert.equal(hotel.exchangeRate, "5.120000");
+
+    const invoice = await asUser(() => invoices.getInvoice(purchaseDateCardId, "2026-12-10"));
+    assert.deepEqual(invoice.items.map(i => [i.kind, i.amount]), [
+      ["purchase", "512.00"],
+      ["international_iof", "22.43"],
+    ]);
+    assert.equal(invoice.totalAmount, "534.43");
+    assert.equal((await asUser(() => storage.getCreditCardById(purchaseDateCardId)))!.currentUsed, "512.00");
+  });
+
+  it("adjusts the invoice when the final rate of the purchase date differs", async () => {
+    // Sem a PTAX do dia 3 ainda, a compra usa a do dia 2
+    dinnerId = (await asUser(() => transactions.recordTransaction({
+      description: "Jantar", amount: "1", date: "2026-12-03", type: "expense", creditCardId: purchaseDateCardId,
+      originalCurrency: "USD", originalAmount: "10",
+    }))).id;
+    await asUser(() => storage.saveExchangeRate({ currency: "USD", date: "2026-12-03", rate: "5.2", source: "ptax" }));
+
+    const invoice = await asUser(() => invoices.getInvoice(purchaseDateCardId, "2026-12-10"));
+    assert.deepEqual(
+      invoice.items.filter(i => i.transactionId === dinnerId).map(i => [i.kind, i.amount]),
+      [["purchase", "51.20"], ["fx_adjustment", "0.80"], ["international_iof", "2.28"]]
+    );
+  });
+
+  it("converts at the closing date rate on cards that bill that way", async () => {
+    const ticket = await asUser(() => transactions.recordTransaction({
+      description: "Museu", amount: "1", date: "2026-12-02", type: "expense", creditCardId: closingDateCardId,
+      originalCurrency: "USD", originalAmount: "40",
+    }));
+    assert.equal(ticket.amount, "204.80");
+    await asUser(() => storage.saveExchangeRate({ currency: "USD", date: "2026-12-10", rate: "5.25", source: "manual" }));
+
+    clock.set(new Date(2026, 11, 11, 0, 5));
+    await asUser(() => invoices.closeInvoices(clock.now()));
+    const closed = await asUser(() => invoices.getInvoice(closingDateCardId, "2026-12-10"));
+    assert.equal(closed.status, "closed");
+    assert.deepEqual(closed.items.map(i => [i.kind, i.amount]), [
+      ["purchase", "204.80"],
+      ["international_iof", "9.20"],
+      ["fx_adjustment", "5.20"],
+    ]);
+    assert.equal(closed.totalAmount, "219.20");
+  });
+
+  it("rejects installments and purchases without a rate", async () => {
+    await assert.rejects(asUser(() => transactions.recordTransaction({
+      description: "Loja", amount: "1", date: "2026-12-11", type: "expense", creditCardId: purchaseDateCardId,
+      originalCurrency: "USD", originalAmount: "300", installments: 3,
+    })), ValidationError);
+    await assert.rejects(asUser(() => transactions.recordTransaction({
+      description: "Loja", amount: "1", date: "2026-12-11", type: "expense", creditCardId: purchaseDateCardId,
+      originalCurrency: "EUR", originalAmount: "300",
+    })), ValidationError);
+
+    const withRate = await asUser(() => transactions.recordTransaction({
+      description: "Loja", amount: "1", date: "2026-12-11", type: "expense", creditCardId: purchaseDateCardId,
+      originalCurrency: "EUR", originalAmount: "300", exchangeRate: "6.05",
+    }));
+    assert.equal(withRate.amount, "1815.00");
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { InvoiceService } from "./services/InvoiceService";
+import { TransactionService } from "./services/TransactionService";
+import { ConflictError } from "./middleware/ErrorHandlingMiddleware";
+import { useFixture } from "./testing";
+
+describe("invoice installment plan", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2026, 8, 5, 10, 0));
+  const invoices = new InvoiceService(storage, clock);
+  const transactions = new TransactionService(storage, clock);
+  let planCardId: string;
+  let septemberInvoiceId: string;
+
+  before(async () => {
+    planCardId = (await asUser(() => storage.createCreditCard({
+      name: "Parcelado", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+    }))).id;
+    await asUser(() => transactions.recordTransaction({
+      description: "Notebook", amount: "1200", date: "2026-09-01", type: "expense", creditCardId: planCardId,
+    }));
+    septemberInvoiceId = (await asUser(() => invoices.getInvoice(planCardId, "2026-09-10"))).id;
+  });
+
+  it("only splits closed invoices", async () => {
+    await assert.rejects(asUser(() => invoices.simulateInstallmentPlan(septemberInvoiceId, 6, 3)), ConflictError);
+  });
+
+  it("simulates the installments with IOF and CET", async () => {
+    clock.set(new Date(2026, 8, 12, 9, 0));
+    const plan = await asUser(() => invoices.simulateInstallmentPlan(septemberInvoiceId, 6, 3));
+
+    assert.equal(plan.balance.toString(), "1200.00");
+    assert.equal(plan.iof.toString(), "15.15");
+    assert.equal(plan.installmentAmount.toString(), "224.31");
+    assert.equal(plan.totalAmount.toString(), "1345.86");
+    assert.equal(plan.monthlyCet, 3.38);
+    assert.equal(plan.annualCet, 49.01);
+    assert.deepEqual(plan.schedule.map(s => s.closingDate), [
+      "2026-10-10", "2026-11-10", "2026-12-10", "2027-01-10", "2027-02-10", "2027-03-10",
+    ]);
+  });
+
+  it("bills the installments on the next invoices and settles the original", async () => {
+    const { invoice } = await asUser(() => invoices.createInstallmentPlan(septemberInvoiceId, 6, 3));
+    assert.equal(invoice.status, "paid");
+    assert.equal(invoice.isInstallment, true);
+    assert.equal(invoice.installmentCount, 6);
+    assert.equal(invoice.carriedAmount, "1200.00");
+
+    const october = await asUser(() => invoices.getInvoice(planCardId, "2026-10-10"));
+    assert.deepEqual(october.items.map(i => [i.kind, i.amount, i.installmentNumber, i.installments]), [
+      ["installment", "224.31", 1, 6],
+    ]);
+    const march = await asUser(() => invoices.getInvoice(planCardId, "2027-03-10"));
+    assert.equal(march.totalAmount, "224.31");
+
+    await assert.rejects(asUser(() => invoices.createInstallmentPlan(septemberInvoiceId, 6, 3)), ConflictError);
+  });
+});
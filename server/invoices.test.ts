@@ -0,0 +1,130 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { InvoiceService } from "./services/InvoiceService";
+import { TransactionService } from "./services/TransactionService";
+import { ConflictError, ValidationError } from "./middleware/ErrorHandlingMiddleware";
+import { useFixture } from "./testing";
+
+describe("invoice lifecycle", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2026, 2, 5, 10, 0));
+  const invoices = new InvoiceService(storage, clock);
+  const transactions = new TransactionService(storage, clock);
+  let cardId: string;
+  let groceriesId: string;
+  let marchInvoiceId: string;
+
+  before(async () => {
+    cardId = (await asUser(() => storage.createCreditCard({
+      name: "Cartão", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+    }))).id;
+  });
+
+  it("keeps the invoice open and live until the closing day", async () => {
+    groceriesId = (await asUser(() => transactions.recordTransaction({
+      description: "Mercado", amount: "200", date: "2026-03-02", type: "expense", creditCardId: cardId,
+    }))).id;
+
+    // Qualquer data do período leva à mesma fatura, identificada pelo fechamento
+    const invoice = await asUser(() => invoices.getInvoice(cardId, "2026-02-20"));
+    marchInvoiceId = invoice.id;
+    assert.deepEqual([invoice.closingDate, invoice.dueDate], ["2026-03-10", "2026-03-20"]);
+    assert.equal(invoice.status, "open");
+    assert.equal(invoice.totalAmount, "200.00");
+    assert.deepEqual(invoice.items.map(i => i.description), ["Mercado"]);
+
+    await asUser(() => transactions.recordTransaction({
+      description: "Padaria", amount: "30", date: "2026-03-10", type: "expense", creditCardId: cardId,
+    }));
+    assert.equal((await asUser(() => invoices.getInvoice(cardId, "2026-03-10"))).totalAmount, "230.00");
+  });
+
+  it("freezes a snapshot when the invoice closes", async () => {
+    clock.set(new Date(2026, 2, 11, 8, 0));
+    const closed = await asUser(() => invoices.getInvoice(cardId, "2026-03-10"));
+    assert.equal(closed.status, "closed");
+    assert.equal(closed.totalAmount, "230.00");
+
+    const items = await asUser(() => storage.getCreditCardInvoiceItemsByInvoice(marchInvoiceId));
+    assert.deepEqual(items.map(i => [i.kind, i.description, i.amount]), [
+      ["purchase", "Mercado", "200"],
+      ["purchase", "Padaria", "30"],
+    ]);
+  });
+
+  it("turns late edits of a closed period into adjustments on the open invoice", async () => {
+    await asUser(() => transactions.updateTransaction(groceriesId, { amount: "180" }));
+    await asUser(() => transactions.recordTransaction({
+      description: "Esquecida", amount: "45.50", date: "2026-03-01", type: "expense", creditCardId: cardId,
+    }));
+    // Só a descrição mudou: nada a ajustar
+    await asUser(() => transactions.updateTransaction(groceriesId, { description: "Supermercado" }));
+
+    const march = await asUser(() => invoices.getInvoice(cardId, "2026-03-10"));
+    assert.equal(march.totalAmount, "230.00");
+    assert.deepEqual(march.items.map(i => i.description), ["Mercado", "Padaria"]);
+
+    const april = await asUser(() => invoices.getInvoice(cardId, "2026-04-10"));
+    assert.equal(april.status, "open");
+    assert.deepEqual(
+      april.items.map(i => [i.kind, i.amount]),
+      [["adjustment", "-20.00"], ["adjustment", "45.50"]]
+    );
+    assert.equal(april.totalAmount, "25.50");
+
+    await asUser(() => transactions.deleteTransaction(groceriesId));
+    assert.equal((await asUser(() => invoices.getInvoice(cardId, "2026-04-10"))).totalAmount, "-154.50");
+  });
+
+  it("moves through partial, overdue and paid as payments and due dates arrive", async () => {
+    const partial = await asUser(() => invoices.payInvoice(marchInvoiceId, "100"));
+    assert.equal(partial.status, "partial");
+
+    clock.set(new Date(2026, 2, 21, 0, 10));
+    assert.equal(await asUser(() => invoices.markOverdueInvoices(clock.now())), 1);
+
+    const stillOverdue = await asUser(() => invoices.payInvoice(marchInvoiceId, "30"));
+    assert.equal(stillOverdue.status, "overdue");
+
+    const paid = await asUser(() => invoices.payInvoice(marchInvoiceId, "100"));
+    assert.equal(paid.status, "paid");
+    assert.equal(paid.paidAmount, "230.00");
+
+    await assert.rejects(asUser(() => invoices.payInvoice(marchInvoiceId, "1")), ConflictError);
+  });
+
+  it("settles payments made while open when the invoice closes", async () => {
+    const may = await asUser(() => invoices.getInvoice(cardId, "2026-05-10"));
+    await asUser(() => transactions.recordTransaction({
+      description: "Livro", amount: "60", date: "2026-04-15", type: "expense", creditCardId: cardId,
+    }));
+    const prepaid = await asUser(() => invoices.payInvoice(may.id, "60"));
+    assert.equal(prepaid.status, "open");
+
+    // A fatura de abril também ficou para trás e fecha junto
+    clock.set(new Date(2026, 4, 11, 0, 5));
+    assert.equal(await asUser(() => invoices.closeInvoices(clock.now())), 2);
+    assert.equal((await asUser(() => invoices.getInvoice(cardId, "2026-05-10"))).status, "paid");
+  });
+
+  it("gives back to the limit only what was paid", async () => {
+    const usedLimit = async () => (await asUser(() => storage.getCreditCardById(cardId)))!.currentUsed;
+    assert.equal(await usedLimit(), "0.00");
+    await asUser(() => transactions.recordTransaction({
+      description: "Sofá", amount: "4000", date: "2026-05-20", type: "expense", creditCardId: cardId,
+    }));
+
+    clock.set(new Date(2026, 5, 11, 8, 0));
+    const june = await asUser(() => invoices.getInvoice(cardId, "2026-06-10"));
+    assert.equal((await asUser(() => invoices.payInvoice(june.id, "1000"))).status, "partial");
+    assert.equal(await usedLimit(), "3000.00");
+
+    // Sobram 2.000 de limite: nem um centavo a mais
+    await assert.rejects(asUser(() => transactions.recordTransaction({
+      description: "TV", amount: "2000.01", date: "2026-06-12", type: "expense", creditCardId: cardId,
+    })), ValidationError);
+    await asUser(() => transactions.recordTransaction({
+      description: "TV", amount: "2000", date: "2026-06-12", type: "expense", creditCardId: cardId,
+    }));
+    assert.equal(await usedLimit(), "5000.00");
+  });
+});
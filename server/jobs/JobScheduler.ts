@@ -0,0 +1,171 @@
+import { IStorage } from '../storage';
+import type { JobState } from '@shared/schema';
+import { addDays } from 'date-fns';
+import { Clock, systemClock } from '../utils/Clock';
+import { runWithUser } from '../utils/RequestContext';
+import { ConflictError, NotFoundError } from '../middleware/ErrorHandlingMiddleware';
+
+/** Counters reported by a run, summed over every user (e.g. `{ closed: 3 }`) */
+export type JobResult = Record<string, number>;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  /** Next time the job is due, strictly after `from` */
+  nextRunAfter(from: Date): Date;
+  /** Runs inside the storage scope of one user; must be safe to repeat for the same `now` */
+  runForUser(now: Date): Promise<JobResult>;
+}
+
+export interface JobStatus extends JobState {
+  description: string;
+  running: boolean;
+}
+
+/**
+ * Schedule for a job that runs once a day at the given local time
+ */
+export function dailyAt(hour: number, minute = 0): (from: Date) => Date {
+  return (from: Date) => {
+    const next = new Date(from.getFullYear(), from.getMonth(), from.getDate(), hour, minute);
+    return next > from ? next : addDays(next, 1);
+  };
+}
+
+/**
+ * Job Scheduler
+ * Runs the registered jobs in-process when they are due, once per user, and persists each job's
+ * last/next run and failure count so a restart picks up where it stopped
+ */
+export class JobScheduler {
+  private jobs = new Map<string, JobDefinition>();
+  private running = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private storage: IStorage,
+    private clock: Clock = systemClock,
+    private tickIntervalMs = 60_000
+  ) {}
+
+  register(job: JobDefinition): this {
+    this.jobs.set(job.name, job);
+    return this;
+  }
+
+  /**
+   * Run what is due now and then check again every tick
+   * The timer does not keep the process alive on its own
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const tick = () => this.tick().catch(error => console.error('Falha no agendador de tarefas:', error));
+    this.timer = setInterval(tick, this.tickIntervalMs);
+    this.timer.unref();
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every job whose next run is due (jobs that never ran are due immediately)
+   */
+  async tick(): Promise<void> {
+    const now = this.clock.now();
+    const states = await this.getStates();
+
+    for (const job of Array.from(this.jobs.values())) {
+      const nextRunAt = states.get(job.name)?.nextRunAt;
+      if (this.running.has(job.name) || (nextRunAt && nextRunAt > now)) continue;
+      await this.runJob(job.name);
+    }
+  }
+
+  /**
+   * Run a job now for every user, whether it is due or not
+   * A failure for one user does not stop the others; the run is failed if any user failed
+   */
+  async runJob(name: string): Promise<JobStatus> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new NotFoundError('Job');
+    }
+    if (this.running.has(name)) {
+      throw new ConflictError(`A tarefa ${name} já está em execução`);
+    }
+
+    this.running.add(name);
+    try {
+      const startedAt = this.clock.now();
+      const result: JobResult = {};
+      const errors: string[] = [];
+
+      for (const userId of await this.storage.getUserIds()) {
+        try {
+          const userResult = await runWithUser(userId, () => job.runForUser(startedAt));
+          for (const [key, count] of Object.entries(userResult)) {
+            result[key] = (result[key] || 0) + count;
+          }
+        } catch (error) {
+          errors.push(`${userId}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      const previous = (await this.getStates()).get(name);
+      const succeeded = errors.length === 0;
+      const state = await this.storage.saveJobState({
+        name,
+        lastRunAt: startedAt,
+        lastSuccessAt: succeeded ? startedAt : previous?.lastSuccessAt ?? null,
+        nextRunAt: job.nextRunAfter(startedAt),
+        lastStatus: succeeded ? 'success' : 'failed',
+        lastError: succeeded ? null : errors.join('\n'),
+        lastResult: result,
+        consecutiveFailures: succeeded ? 0 : (previous?.consecutiveFailures ?? 0) + 1,
+        totalRuns: (previous?.totalRuns ?? 0) + 1,
+      });
+
+      if (succeeded) {
+        console.log(`Tarefa ${name} concluída:`, result);
+      } else {
+        console.error(`Tarefa ${name} falhou para ${errors.length} usuário(s):`, errors);
+      }
+
+      return { ...state, description: job.description, running: false };
+    } finally {
+      this.running.delete(name);
+    }
+  }
+
+  /**
+   * Every registered job with its persisted state (empty state for jobs that never ran)
+   */
+  async listJobs(): Promise<JobStatus[]> {
+    const states = await this.getStates();
+    return Array.from(this.jobs.values()).map(job => ({
+      name: job.name,
+      lastRunAt: null,
+      lastSuccessAt: null,
+      nextRunAt: null,
+      lastStatus: null,
+      lastError: null,
+      lastResult: null,
+      consecutiveFailures: 0,
+      totalRuns: 0,
+      ...states.get(job.name),
+      description: job.description,
+      running: this.running.has(job.name),
+    }));
+  }
+
+  private async getStates(): Promise<Map<string, JobState>> {
+    const states = await this.storage.getJobStates();
+    return new Map(states.map(state => [state.name, state]));
+  }
+}
@@ -0,0 +1,45 @@
+import { IStorage } from '../storage';
+import { Clock, systemClock } from '../utils/Clock';
+import { IncomeSourceService } from '../services/IncomeSourceService';
+import { InvoiceService } from '../services/InvoiceService';
+import { TransactionService } from '../services/TransactionService';
+import { JobScheduler, dailyAt } from './JobScheduler';
+
+export { JobScheduler } from './JobScheduler';
+export type { JobDefinition, JobResult, JobStatus } from './JobScheduler';
+
+/**
+ * Scheduler with the application's daily jobs
+ * Recurring transactions run first so the card purchases they create are in the invoice when it closes
+ */
+export function createJobScheduler(storage: IStorage, clock: Clock = systemClock): JobScheduler {
+  const invoiceService = new InvoiceService(storage, clock);
+  const transactionService = new TransactionService(storage, clock);
+  const incomeSourceService = new IncomeSourceService(storage, clock);
+
+  return new JobScheduler(storage, clock)
+    .register({
+      name: 'recurring-transactions',
+      description: 'Gera com antecedência as ocorrências das transações recorrentes',
+      nextRunAfter: dailyAt(0, 1),
+      runForUser: async (now) => ({ created: await transactionService.materializeRecurringTransactions(now) }),
+    })
+    .register({
+      name: 'thirteenth-salary',
+      description: 'Agenda as parcelas do 13º salário que entram no horizonte das recorrentes',
+      nextRunAfter: dailyAt(0, 2),
+      runForUser: async (now) => ({ created: await incomeSourceService.scheduleThirteenthInstallments(now) }),
+    })
+    .register({
+      name: 'invoice-closing',
+      description: 'Fecha as faturas dos cartões no dia de fechamento',
+      nextRunAfter: dailyAt(0, 5),
+      runForUser: async (now) => ({ closed: await invoiceService.closeInvoices(now) }),
+    })
+    .register({
+      name: 'invoice-overdue',
+      description: 'Marca como vencidas as faturas com saldo em aberto após o vencimento',
+      nextRunAfter: dailyAt(0, 10),
+      runForUser: async (now) => ({ overdue: await invoiceService.markOverdueInvoices(now) }),
+    });
+}
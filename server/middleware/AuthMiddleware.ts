@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { runWithUser } from '../utils/RequestContext';
+
+/**
+ * Authentication Middleware
+ * Rejects anonymous API calls and scopes storage access to the logged-in user
+ */
+export class AuthMiddleware {
+  /**
+   * Require an authenticated session for the rest of the request
+   */
+  static requireAuth(req: Request, res: Response, next: NextFunction) {
+    if (!req.isAuthenticated() || !req.user) {
+      res.status(401).json(ResponseFormatter.unauthorized());
+      return;
+    }
+
+    runWithUser(req.user.id, () => next());
+  }
+
+  /**
+   * Require the logged-in user to be an administrator (e-mail listed in ADMIN_EMAILS, comma separated)
+   */
+  static requireAdmin(req: Request, res: Response, next: NextFunction) {
+    const adminEmails = (process.env.ADMIN_EMAILS || '')
+      .split(',')
+      .map(email => email.trim().toLowerCase())
+      .filter(Boolean);
+
+    if (!req.user || !adminEmails.includes(req.user.email.toLowerCase())) {
+      res.status(403).json(ResponseFormatter.forbidden());
+      return;
+    }
+
+    next();
+  }
+}
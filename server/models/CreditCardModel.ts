@@ -1,5 +1,6 @@
 import { BaseModel } from './BaseModel';
 import { z } from 'zod';
+import { Money, formatCurrency } from '@shared/money';
 
 /**
  * Credit Card Model
@@ -73,7 +74,7 @@ export class CreditCardModel extends BaseModel {
    * Get available limit
    */
   getAvailableLimit(): number {
-    return Math.max(0, this.limit - this.currentUsed);
+    return Money.max(Money.ZERO, Money.from(this.limit).minus(this.currentUsed)).toNumber();
   }
 
   /**
@@ -89,14 +90,14 @@ export class CreditCardModel extends BaseModel {
    */
   canAccommodatePurchase(amount: number): boolean {
     if (this.isBlocked || !this.isActive) return false;
-    return this.getAvailableLimit() >= amount;
+    return Money.from(this.getAvailableLimit()).greaterThanOrEqual(amount);
   }
 
   /**
    * Add to current used amount
    */
   addToUsedAmount(amount: number): void {
-    this.currentUsed = Math.min(this.limit, this.currentUsed + amount);
+    this.currentUsed = Money.min(this.limit, Money.from(this.currentUsed).plus(amount)).toNumber();
     this.touch();
   }
 
@@ -104,7 +105,7 @@ export class CreditCardModel extends BaseModel {
    * Subtract from current used amount
    */
   subtractFromUsedAmount(amount: number): void {
-    this.currentUsed = Math.max(0, this.currentUsed - amount);
+    this.currentUsed = Money.max(Money.ZERO, Money.from(this.currentUsed).minus(amount)).toNumber();
     this.touch();
   }
 
@@ -112,30 +113,21 @@ export class CreditCardModel extends BaseModel {
    * Get formatted limit
    */
   getFormattedLimit(): string {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(this.limit);
+    return formatCurrency(this.limit);
   }
 
   /**
    * Get formatted current used
    */
   getFormattedCurrentUsed(): string {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(this.currentUsed);
+    return formatCurrency(this.currentUsed);
   }
 
   /**
    * Get formatted available limit
    */
   getFormattedAvailableLimit(): string {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(this.getAvailableLimit());
+    return formatCurrency(this.getAvailableLimit());
   }
 
   /**
@@ -225,8 +217,8 @@ export class CreditCardModel extends BaseModel {
       name: this.name,
       brand: this.brand,
       bank: this.bank,
-      limit: this.limit.toString(),
-      currentUsed: this.currentUsed.toString(),
+      limit: Money.from(this.limit).toString(),
+      currentUsed: Money.from(this.currentUsed).toString(),
       closingDay: this.closingDay,
       dueDay: this.dueDay,
       color: this.color,
@@ -1,5 +1,6 @@
 import { BaseModel } from './BaseModel';
 import { z } from 'zod';
+import { Money, formatCurrency } from '@shared/money';
 
 /**
  * Transaction Model
@@ -99,10 +100,7 @@ export class TransactionModel extends BaseModel {
    * Get formatted amount as currency
    */
   getFormattedAmount(): string {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(this.amount);
+    return formatCurrency(this.amount);
   }
 
   /**
@@ -113,13 +111,13 @@ export class TransactionModel extends BaseModel {
   }
 
   /**
-   * Calculate monthly installment amount
+   * Calculate monthly installment amount (first installment, which absorbs leftover centavos)
    */
   getInstallmentAmount(): number {
     if (!this.installments || this.installments <= 1) {
       return this.amount;
     }
-    return this.amount / this.installments;
+    return Money.from(this.amount).allocate(this.installments)[0].toNumber();
   }
 
   /**
@@ -180,7 +178,7 @@ export class TransactionModel extends BaseModel {
   toData(): Record<string, any> {
     return {
       description: this.description,
-      amount: this.amount.toString(),
+      amount: Money.from(this.amount).toString(),
       date: this.date.toISOString().split('T')[0],
       type: this.type,
       categoryId: this.categoryId,
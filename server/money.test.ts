@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Money, formatCurrency } from "@shared/money";
+
+const cents = (value: Parameters<typeof Money.from>[0]) => Money.from(value).cents;
+
+describe("Money", () => {
+  it("rounds digits past the centavo half away from zero", () => {
+    assert.equal(cents("0.005"), 1);
+    assert.equal(cents("0.0049"), 0);
+    assert.equal(cents("166.665"), 16667);
+    assert.equal(cents("-0.005"), -1);
+    assert.equal(cents("-2.675"), -268);
+    assert.equal(cents("-2.674999"), -267);
+    // Números passam por toFixed antes: 1.005 não vira 100.4999… centavos
+    assert.equal(cents(1.005), 101);
+    assert.equal(cents(-1.005), -101);
+  });
+
+  it("reads signs, missing digits and empty values", () => {
+    assert.deepEqual(["-10", "+3.", ".5", "-.75", " 12.3 "].map(cents), [-1000, 300, 50, -75, 1230]);
+    assert.deepEqual([null, undefined, ""].map(cents), [0, 0, 0]);
+    assert.ok(Object.is(Money.from("-0.00").cents, 0));
+  });
+
+  it("rejects thousands separators and decimal commas instead of guessing", () => {
+    for (const value of ["1,50", "1.234,56", "1,234.56", "1.2.3", "R$ 10", "-", "."]) {
+      assert.throws(() => Money.from(value), /Invalid monetary value/, value);
+    }
+    assert.throws(() => Money.from(Number.NaN), /Invalid monetary value/);
+    assert.throws(() => Money.fromCents(0.5), /safe integer/);
+  });
+
+  it("allocates the leftover centavos to the first parts so the parts add up exactly", () => {
+    assert.deepEqual(Money.from("500").allocate(3).map(String), ["166.67", "166.67", "166.66"]);
+    assert.deepEqual(Money.from("-100").allocate(3).map(String), ["-33.34", "-33.33", "-33.33"]);
+    assert.deepEqual(Money.from("0.02").allocate(3).map(String), ["0.01", "0.01", "0.00"]);
+
+    for (const [amount, parts] of [["1234.57", 7], ["-0.99", 4], ["0.01", 12], ["1000", 12]] as const) {
+      const allocated = Money.from(amount).allocate(parts);
+      assert.equal(allocated.length, parts);
+      assert.equal(Money.sum(allocated).toString(), Money.from(amount).toString());
+      assert.ok(Math.max(...allocated.map(a => a.cents)) - Math.min(...allocated.map(a => a.cents)) <= 1);
+    }
+    assert.throws(() => Money.from("10").allocate(0), /Cannot allocate/);
+  });
+
+  it("keeps arithmetic in whole centavos", () => {
+    assert.equal(Money.sum(["0.1", "0.2", 0.3]).toString(), "0.60");
+    assert.equal(Money.from("100").times(0.075).toString(), "7.50");
+    assert.equal(Money.from("-0.05").times(0.5).toString(), "-0.03");
+    assert.equal(Money.from("10").minus("10.01").toString(), "-0.01");
+    assert.equal(JSON.stringify({ amount: Money.from(5) }), '{"amount":"5.00"}');
+  });
+
+  it("formats in Brazilian Real", () => {
+    assert.equal(Money.from("1234.56").format(), "R$\u00a01.234,56");
+    assert.equal(Money.from("-0.5").format(), "-R$\u00a00,50");
+    assert.equal(formatCurrency("1000000"), "R$\u00a01.000.000,00");
+    assert.equal(formatCurrency(null), "R$\u00a00,00");
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { IncomeSourceService } from "./services/IncomeSourceService";
+import { calculateThirteenth, calculateVacationPay } from "./utils/Payroll";
+import { ValidationError } from "./middleware/ErrorHandlingMiddleware";
+import { useFixture } from "./testing";
+
+describe("13º salário, vacations and FGTS", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2028, 5, 1, 10, 0));
+  const incomeSources = new IncomeSourceService(storage, clock);
+  let sourceId: string;
+  const entries = async (kind: string) => (await asUser(() => storage.getTransactions()))
+    .filter(t => t.incomeSourceId === sourceId && t.payrollKind === kind)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(t => [t.date, t.amount]);
+
+  it("pays half of the 13º in advance and withholds on the whole of it in the second installment", () => {
+    const input = { grossSalary: "6000", dependents: 0, deductions: [], dailyTransportAllowance: "0", dailyMealAllowance: "0" };
+    const [first, second] = calculateThirteenth(input, 12, "2026-11-30", "2026-12-18");
+
+    assert.deepEqual([first.gross, first.inss, first.irrf, first.net, first.fgts].map(String), ["3000.00", "0.00", "0.00", "3000.00", "240.00"]);
+    assert.deepEqual(
+      [second.gross, second.inss, second.irrf, second.deductions[0].amount, second.net, second.fgts].map(String),
+      ["6000.00", "641.51", "385.10", "3000.00", "1973.39", "240.00"]
+    );
+  });
+
+  it("adds the 1/3 to the vacation pay and leaves the abono pecuniário out of the taxes", () => {
+    const input = { grossSalary: "6000", dependents: 0, deductions: [], dailyTransportAllowance: "0", dailyMealAllowance: "0" };
+    const pay = calculateVacationPay(input, 20, 10, "2026-07-08");
+
+    assert.deepEqual(pay.earnings.map(e => [e.description, e.amount.toString(), Boolean(e.exempt)]), [
+      ["Férias (20 dias)", "4000.00", false], ["1/3 de férias", "1333.33", false],
+      ["Abono pecuniário (10 dias)", "2000.00", true], ["1/3 do abono", "666.67", true],
+    ]);
+    // INSS e IRRF só sobre férias + 1/3 (5.333,33); o FGTS também ignora o abono
+    assert.deepEqual([pay.gross, pay.inss, pay.irrf, pay.net, pay.fgts].map(String), ["5333.33", "548.18", "122.45", "7329.37", "426.67"]);
+  });
+
+  it("schedules the 13º installments as they come within the horizon", async () => {
+    sourceId = (await asUser(() => incomeSources.createIncomeSource({
+      name: "Fábrica", grossSalary: "3000", payBusinessDay: 5, startDate: "2028-03-10",
+      fgtsBalance: "1000", fgtsBalanceDate: "2028-05-31",
+    }))).id;
+    assert.deepEqual(await entries("thirteenth_first"), []);
+
+    // Contratado em 10/03: março conta (22 dias), são 10/12 avos de 3.000
+    assert.equal(await asUser(() => incomeSources.scheduleThirteenthInstallments(new Date(2028, 8, 1))), 1);
+    assert.equal(await asUser(() => incomeSources.scheduleThirteenthInstallments(new Date(2028, 8, 2))), 0);
+    assert.deepEqual(await entries("thirteenth_first"), [["2028-11-30", "1250.00"]]);
+
+    assert.equal(await asUser(() => incomeSources.scheduleThirteenthInstallments(new Date(2028, 8, 25))), 1);
+    assert.deepEqual(await entries("thirteenth_second"), [["2028-12-20", "1049.31"]]);
+  });
+
+  it("pays the vacation in advance and takes its days out of the next paycheck", async () => {
+    assert.deepEqual((await entries("salary")).find(([date]) => date === "2028-08-07"), ["2028-08-07", "2751.40"]);
+
+    const vacation = await asUser(() => incomeSources.createVacation(sourceId, { startDate: "2028-07-10", days: 20, soldDays: 10 }));
+    // Pagamento até 2 dias antes do início: sábado, 08/07, vai para sexta
+    assert.deepEqual(await entries("vacation"), [["2028-07-07", "3784.31"]]);
+    // O contracheque de agosto paga só os 10 dias de julho trabalhados
+    assert.deepEqual((await entries("salary")).find(([date]) => date === "2028-08-07"), ["2028-08-07", "925.00"]);
+
+    await assert.rejects(
+      asUser(() => incomeSources.createVacation(sourceId, { startDate: "2028-07-20", days: 10 })),
+      ValidationError
+    );
+    await assert.rejects(
+      asUser(() => incomeSources.createVacation(sourceId, { startDate: "2028-10-02", days: 25, soldDays: 10 })),
+      ValidationError
+    );
+
+    await asUser(() => incomeSources.deleteVacation(vacation.id));
+    assert.deepEqual(await entries("vacation"), []);
+    assert.deepEqual((await entries("salary")).find(([date]) => date === "2028-08-07"), ["2028-08-07", "2751.40"]);
+  });
+
+  it("projects the FGTS balance with the monthly deposits and the yearly yield", async () => {
+    await asUser(() => incomeSources.createVacation(sourceId, { startDate: "2028-07-10", days: 20, soldDays: 10 }));
+    const projection = await asUser(() => incomeSources.getFgtsProjection(sourceId, 3));
+
+    assert.equal(projection.startingBalance.toString(), "1000.00");
+    // Julho: contracheque cheio e férias + 1/3 (sem o abono); agosto: só os 10 dias de salário
+    assert.deepEqual(projection.months.map(m => [m.month, m.yield.toString(), m.deposit.toString(), m.balance.toString()]), [
+      ["2028-06", "2.47", "240.00", "1242.47"],
+      ["2028-07", "3.06", "453.33", "1698.86"],
+      ["2028-08", "4.19", "80.00", "1783.05"],
+    ]);
+  });
+});
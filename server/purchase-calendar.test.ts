@@ -0,0 +1,61 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { TransactionService } from "./services/TransactionService";
+import { CreditCardService } from "./services/CreditCardService";
+import { useFixture } from "./testing";
+
+describe("purchase calendar", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2027, 0, 15, 10, 0));
+  const transactions = new TransactionService(storage, clock);
+  const cards = new CreditCardService(storage, clock);
+  let calendarCardId: string;
+
+  before(async () => {
+    calendarCardId = (await asUser(() => storage.createCreditCard({
+      name: "Calendário", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+    }))).id;
+  });
+
+  it("points to the day after closing as the best purchase day", async () => {
+    const calendar = await asUser(() => cards.getPurchaseCalendar(calendarCardId));
+    assert.deepEqual(
+      [calendar.bestPurchaseDay, calendar.nextBestPurchaseDate, calendar.bestFloatDays],
+      [11, "2027-02-11", 37]
+    );
+    assert.deepEqual([calendar.closingDate, calendar.dueDate, calendar.floatDaysToday], ["2027-02-10", "2027-02-20", 36]);
+  });
+
+  it("releases the limit of each invoice on its due date over the next 12 months", async () => {
+    await asUser(() => transactions.recordTransaction({
+      description: "Livro", amount: "100", date: "2027-01-05", type: "expense", creditCardId: calendarCardId,
+    }));
+    await asUser(() => transactions.recordTransaction({
+      description: "Geladeira", amount: "1200", date: "2027-01-15", type: "expense", creditCardId: calendarCardId,
+      installments: 3,
+    }));
+
+    const { limitReleases } = await asUser(() => cards.getPurchaseCalendar(calendarCardId));
+    assert.equal(limitReleases.length, 12);
+    assert.deepEqual(limitReleases.slice(0, 5).map(r => [r.dueDate, r.amount.toString(), r.installments]), [
+      ["2027-01-20", "100.00", 0],
+      ["2027-02-20", "400.00", 1],
+      ["2027-03-20", "400.00", 1],
+      ["2027-04-20", "400.00", 1],
+      ["2027-05-20", "0.00", 0],
+    ]);
+    assert.equal(limitReleases[11].dueDate, "2027-12-20");
+  });
+
+  it("checks a purchase against the invoice that bills its date", async () => {
+    assert.equal((await asUser(() => cards.calculateSmartLimit(calendarCardId))).currentInvoiceAmount, 400);
+    assert.deepEqual(
+      await asUser(() => cards.validatePurchase(calendarCardId, 4700, new Date(2027, 0, 20))),
+      { canPurchase: false, reason: "Valor excede o limite disponível para a fatura atual", availableLimit: 4600 }
+    );
+    // Em 11/04 as compras já vão para a fatura de maio, sem parcelas da geladeira
+    assert.deepEqual(
+      await asUser(() => cards.validatePurchase(calendarCardId, 4700, new Date(2027, 3, 11))),
+      { canPurchase: true, availableLimit: 5000 }
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { InvoiceService } from "./services/InvoiceService";
+import { TransactionService } from "./services/TransactionService";
+import { AccountService } from "./services/AccountService";
+import { ReconciliationService } from "./services/ReconciliationService";
+import { ConflictError, ValidationError } from "./middleware/ErrorHandlingMiddleware";
+import { useFixture } from "./testing";
+
+describe("statement reconciliation", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2027, 5, 12, 10, 0));
+  const invoices = new InvoiceService(storage, clock);
+  const transactions = new TransactionService(storage, clock);
+  const accounts = new AccountService(storage, clock);
+  const reconciliations = new ReconciliationService(storage, clock);
+  let accountId: string;
+  let salaryId: string;
+  let marketId: string;
+  let reconciliationId: string;
+
+  before(async () => {
+    accountId = (await asUser(() => accounts.createAccount({
+      name: "Conta conciliada", type: "checking", openingBalance: "100", openingDate: "2027-06-01",
+    }))).id;
+    salaryId = (await asUser(() => transactions.recordTransaction({
+      description: "Salário", amount: "500", date: "2027-06-05", type: "income", accountId,
+    }))).id;
+    marketId = (await asUser(() => transactions.recordTransaction({
+      description: "Mercado", amount: "50", date: "2027-06-10", type: "expense", accountId,
+    }))).id;
+    await asUser(() => transactions.recordTransaction({
+      description: "Depois do extrato", amount: "20", date: "2027-06-20", type: "expense", accountId,
+    }));
+  });
+
+  it("shows the difference to the statement as items are cleared", async () => {
+    const started = await asUser(() => reconciliations.start({ accountId, statementDate: "2027-06-15", statementBalance: "550" }));
+    reconciliationId = started.id;
+    assert.deepEqual(started.items.map(i => [i.description, i.amount.toString()]), [["Salário", "500.00"], ["Mercado", "-50.00"]]);
+    assert.equal(started.difference.toString(), "450.00");
+
+    const partial = await asUser(() => reconciliations.setCleared(reconciliationId, [{ kind: "transaction", id: salaryId }], true));
+    assert.equal(partial.clearedBalance.toString(), "600.00");
+    assert.equal(partial.difference.toString(), "-50.00");
+    await assert.rejects(asUser(() => reconciliations.complete(reconciliationId)), ValidationError);
+
+    const balanced = await asUser(() => reconciliations.setCleared(reconciliationId, [{ kind: "transaction", id: marketId }], true));
+    assert.ok(balanced.difference.isZero());
+  });
+
+  it("locks the reconciled period until it is unlocked", async () => {
+    const completed = await asUser(() => reconciliations.complete(reconciliationId));
+    assert.equal(completed.status, "completed");
+    assert.equal((await asUser(() => storage.getTransactionById(marketId)))!.clearedStatus, "reconciled");
+
+    await assert.rejects(asUser(() => transactions.updateTransaction(marketId, { amount: "55" })), ConflictError);
+    await assert.rejects(asUser(() => transactions.recordTransaction({
+      description: "Esquecida", amount: "10", date: "2027-06-14", type: "expense", accountId,
+    })), ConflictError);
+    await assert.rejects(asUser(() => transactions.updateTransaction(salaryId, { clearedStatus: "uncleared" })), ConflictError);
+    await assert.rejects(asUser(() => reconciliations.start({ accountId, statementDate: "2027-06-15", statementBalance: "550" })), ValidationError);
+
+    const reopened = await asUser(() => reconciliations.unlock(reconciliationId));
+    assert.equal(reopened.status, "open");
+    assert.equal((await asUser(() => storage.getTransactionById(marketId)))!.clearedStatus, "cleared");
+    await asUser(() => transactions.updateTransaction(marketId, { amount: "55" }));
+    assert.equal((await asUser(() => reconciliations.getReconciliation(reconciliationId))).difference.toString(), "5.00");
+  });
+
+  it("only lets a completed reconciliation mark items as reconciled", async () => {
+    await assert.rejects(asUser(() => transactions.updateTransaction(marketId, { clearedStatus: "reconciled" })), ValidationError);
+  });
+
+  it("reconciles a closed card invoice, with the card's own charges already counted", async () => {
+    const reconCardId = (await asUser(() => storage.createCreditCard({
+      name: "Conciliação", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+    }))).id;
+    const purchaseId = (await asUser(() => transactions.recordTransaction({
+      description: "Livraria", amount: "80", date: "2027-06-02", type: "expense", creditCardId: reconCardId,
+    }))).id;
+
+    const open = await asUser(() => invoices.getInvoice(reconCardId, "2027-07-10"));
+    await assert.rejects(asUser(() => reconciliations.start({ invoiceId: open.id, statementBalance: "0" })), ValidationError);
+
+    const closed = await asUser(() => invoices.getInvoice(reconCardId, "2027-06-10"));
+    const started = await asUser(() => reconciliations.start({ invoiceId: closed.id, statementBalance: "80" }));
+    assert.equal(started.statementDate, "2027-06-10");
+    assert.deepEqual(started.items.map(i => [i.id, i.amount.toString()]), [[purchaseId, "80.00"]]);
+    assert.equal(started.difference.toString(), "80.00");
+
+    await asUser(() => reconciliations.setCleared(started.id, [{ kind: "transaction", id: purchaseId }], true));
+    await asUser(() => reconciliations.complete(started.id));
+    await assert.rejects(asUser(() => transactions.deleteTransaction(purchaseId)), ConflictError);
+  });
+});
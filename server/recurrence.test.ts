@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TransactionService } from "./services/TransactionService";
+import { occurrenceDateOf, recurrenceRuleOf, recurrenceSchedule } from "./utils/Recurrence";
+import { ValidationError } from "./middleware/ErrorHandlingMiddleware";
+import { useFixture } from "./testing";
+
+describe("recurrence rules", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2027, 6, 1, 10, 0));
+  const transactions = new TransactionService(storage, clock);
+  let rootId: string;
+  const rentDates = async () => (await asUser(() => storage.getTransactions()))
+    .filter(t => t.description === "Condomínio")
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(t => [t.date, Number(t.amount)]);
+
+  it("schedules business days, weeks and years from the first occurrence", () => {
+    const salary = recurrenceRuleOf({
+      recurrenceFrequency: "business_day", recurrenceInterval: 1, recurrenceDay: 5, recurrenceEndDate: null, recurrenceCount: null,
+    });
+    // Setembro de 2027: o feriado de 7/9 empurra o quinto dia útil para o dia 8
+    assert.deepEqual(recurrenceSchedule(salary, "2027-07-07", "2027-09-30"), ["2027-07-07", "2027-08-06", "2027-09-08"]);
+
+    const biweekly = recurrenceRuleOf({
+      recurrenceFrequency: "weekly", recurrenceInterval: 2, recurrenceDay: null, recurrenceEndDate: null, recurrenceCount: 3,
+    });
+    assert.deepEqual(recurrenceSchedule(biweekly, "2027-07-01", "2027-12-31"), ["2027-07-01", "2027-07-15", "2027-07-29"]);
+
+    const leapDay = recurrenceRuleOf({
+      recurrenceFrequency: "yearly", recurrenceInterval: 1, recurrenceDay: null, recurrenceEndDate: "2031-12-31", recurrenceCount: null,
+    });
+    assert.equal(occurrenceDateOf(leapDay, "2028-02-29", 1), "2029-02-28");
+    assert.equal(occurrenceDateOf(leapDay, "2028-02-29", 4), "2032-02-29");
+    assert.deepEqual(recurrenceSchedule(leapDay, "2028-02-29", "2040-01-01").length, 4);
+  });
+
+  it("materializes the occurrences ahead of time when the series is created", async () => {
+    rootId = (await asUser(() => transactions.recordTransaction({
+      description: "Condomínio", amount: "800", date: "2027-07-10", type: "expense", isRecurring: true, recurrenceFrequency: "monthly",
+    }))).id;
+    assert.deepEqual(await rentDates(), [["2027-07-10", 800], ["2027-08-10", 800], ["2027-09-10", 800]]);
+  });
+
+  it("keeps per-occurrence amounts and skipped occurrences when generating more", async () => {
+    const series = await asUser(() => storage.getTransactions());
+    const august = series.find(t => t.description === "Condomínio" && t.date === "2027-08-10")!;
+    const september = series.find(t => t.description === "Condomínio" && t.date === "2027-09-10")!;
+    await asUser(() => transactions.updateTransaction(august.id, { amount: "850" }));
+    await asUser(() => transactions.deleteTransaction(september.id));
+
+    const root = await asUser(() => storage.getTransactionById(rootId));
+    assert.deepEqual(root!.recurrenceOverrides, { "2027-08-10": { amount: "850" }, "2027-09-10": { skip: true } });
+
+    clock.set(new Date(2027, 8, 15, 0, 1));
+    assert.equal(await asUser(() => transactions.materializeRecurringTransactions(clock.now())), 3);
+    assert.deepEqual(await rentDates(), [
+      ["2027-07-10", 800], ["2027-08-10", 850], ["2027-10-10", 800], ["2027-11-10", 800], ["2027-12-10", 800],
+    ]);
+  });
+
+  it("splits the series when this and the following occurrences change", async () => {
+    const november = (await asUser(() => storage.getTransactions()))
+      .find(t => t.description === "Condomínio" && t.date === "2027-11-10")!;
+    const newRoot = await asUser(() => transactions.updateFollowingOccurrences(november.id, { amount: "900", recurrenceDay: 5 }));
+
+    assert.equal(newRoot.parentTransactionId, null);
+    assert.equal((await asUser(() => storage.getTransactionById(rootId)))!.recurrenceEndDate, "2027-11-09");
+    assert.deepEqual(await rentDates(), [
+      ["2027-07-10", 800], ["2027-08-10", 850], ["2027-10-10", 800], ["2027-11-10", 900], ["2027-12-05", 900],
+    ]);
+
+    clock.set(new Date(2027, 9, 10, 0, 1));
+    assert.equal(await asUser(() => transactions.materializeRecurringTransactions(clock.now())), 1);
+    assert.deepEqual((await rentDates()).slice(-1), [["2028-01-05", 900]]);
+  });
+
+  it("only changes the rule through the series", async () => {
+    const december = (await asUser(() => storage.getTransactions()))
+      .find(t => t.description === "Condomínio" && t.date === "2027-12-05")!;
+    await assert.rejects(asUser(() => transactions.updateTransaction(december.id, { recurrenceDay: 20 })), ValidationError);
+    await assert.rejects(asUser(() => transactions.recordTransaction({
+      description: "Salário", amount: "3000", date: "2027-10-07", type: "income", isRecurring: true, recurrenceFrequency: "business_day",
+    })), ValidationError);
+  });
+});
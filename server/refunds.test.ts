@@ -0,0 +1,81 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { InvoiceService } from "./services/InvoiceService";
+import { TransactionService } from "./services/TransactionService";
+import { FinancialSummaryService } from "./services/FinancialSummaryService";
+import { ConflictError, ValidationError } from "./middleware/ErrorHandlingMiddleware";
+import { useFixture } from "./testing";
+
+describe("refunds", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2026, 10, 3, 10, 0));
+  const invoices = new InvoiceService(storage, clock);
+  const transactions = new TransactionService(storage, clock);
+  let refundCardId: string;
+  let categoryId: string;
+  let purchaseId: string;
+  let installmentIds: string[];
+
+  before(async () => {
+    refundCardId = (await asUser(() => storage.createCreditCard({
+      name: "Estornos", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+    }))).id;
+    categoryId = (await asUser(() => storage.createCategory({ name: "Presentes", icon: "🎁", color: "#000000", type: "expense" }))).id;
+    purchaseId = (await asUser(() => transactions.recordTransaction({
+      description: "Tênis", amount: "300", date: "2026-11-02", type: "expense", creditCardId: refundCardId, categoryId,
+    }))).id;
+    const parentId = (await asUser(() => transactions.recordTransaction({
+      description: "Fone", amount: "600", date: "2026-11-01", type: "expense", creditCardId: refundCardId, installments: 3,
+    }))).id;
+    installmentIds = (await asUser(() => storage.getInstallmentTransactions(parentId))).map(t => t.id);
+  });
+
+  it("credits a partial refund on the invoice, the card limit and the category", async () => {
+    await assert.rejects(asUser(() => transactions.refundTransaction(purchaseId, { amount: "300.01" })), ValidationError);
+
+    const [refund] = await asUser(() => transactions.refundTransaction(purchaseId, { amount: "100" }));
+    assert.equal(refund.type, "refund");
+    assert.equal(refund.refundOfTransactionId, purchaseId);
+
+    const november = await asUser(() => invoices.getInvoice(refundCardId, "2026-11-10"));
+    assert.deepEqual(
+      november.items.filter(i => i.transactionId === purchaseId || i.transactionId === refund.id).map(i => [i.kind, i.amount]),
+      [["purchase", "300"], ["refund", "-100.00"]]
+    );
+
+    const summary = await asUser(() => new FinancialSummaryService(storage).calculateMonthlySummary(2026, 11));
+    assert.equal(summary.expensesByCategory[categoryId].toString(), "200.00");
+    assert.equal((await asUser(() => storage.getCreditCardById(refundCardId)))!.currentUsed, "800.00");
+  });
+
+  it("refunds a single installment or what is left of the whole purchase", async () => {
+    const [single] = await asUser(() => transactions.refundTransaction(installmentIds[2]));
+    assert.equal(single.amount, "200.00");
+    assert.equal(single.description, "Estorno: Fone (3/3)");
+
+    const whole = await asUser(() => transactions.refundTransaction(installmentIds[0], { wholePurchase: true }));
+    assert.deepEqual(whole.map(r => r.refundOfTransactionId), installmentIds.slice(0, 2));
+    assert.equal((await asUser(() => storage.getCreditCardById(refundCardId)))!.currentUsed, "200.00");
+
+    await assert.rejects(asUser(() => transactions.refundTransaction(installmentIds[1], { wholePurchase: true })), ConflictError);
+  });
+
+  it("turns a refund dated in a closed period into an adjustment on the open invoice", async () => {
+    clock.set(new Date(2026, 10, 11, 0, 5));
+    await asUser(() => invoices.closeInvoices(clock.now()));
+    const [late] = await asUser(() => transactions.refundTransaction(purchaseId, { amount: "50", date: "2026-11-05" }));
+
+    const december = await asUser(() => invoices.getInvoice(refundCardId, "2026-12-10"));
+    assert.deepEqual(
+      december.items.filter(i => i.kind !== "purchase").map(i => [i.kind, i.transactionId, i.amount]),
+      [["adjustment", late.id, "-50.00"]]
+    );
+  });
+
+  it("deletes the refunds along with the purchase", async () => {
+    await asUser(() => transactions.deleteTransaction(purchaseId));
+    const remaining = await asUser(() => storage.getTransactions());
+    assert.ok(!remaining.some(t => t.refundOfTransactionId === purchaseId));
+    // Compra de 300 com 150 estornados: só os 150 restantes voltam ao limite
+    assert.equal((await asUser(() => storage.getCreditCardById(refundCardId)))!.currentUsed, "0.00");
+  });
+});
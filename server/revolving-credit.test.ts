@@ -0,0 +1,68 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { InvoiceService } from "./services/InvoiceService";
+import { TransactionService } from "./services/TransactionService";
+import { ConflictError } from "./middleware/ErrorHandlingMiddleware";
+import { useFixture } from "./testing";
+
+describe("revolving credit", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2026, 5, 5, 10, 0));
+  const invoices = new InvoiceService(storage, clock);
+  const transactions = new TransactionService(storage, clock);
+  let revolvingCardId: string;
+  let juneInvoiceId: string;
+
+  before(async () => {
+    revolvingCardId = (await asUser(() => storage.createCreditCard({
+      name: "Rotativo", brand: "visa", bank: "itau", limit: "5000", closingDay: 10, dueDay: 20,
+      revolvingInterestRate: "10",
+    }))).id;
+    await asUser(() => transactions.recordTransaction({
+      description: "Geladeira", amount: "1000", date: "2026-06-01", type: "expense", creditCardId: revolvingCardId,
+    }));
+  });
+
+  it("shows what paying only the minimum costs", async () => {
+    clock.set(new Date(2026, 5, 11, 8, 0));
+    const june = await asUser(() => invoices.getInvoice(revolvingCardId, "2026-06-10"));
+    juneInvoiceId = june.id;
+
+    assert.equal(june.minimumPayment.toString(), "150.00");
+    // 850 financiados do vencimento (20/06) ao fechamento seguinte (10/07)
+    assert.deepEqual(JSON.parse(JSON.stringify(june.minimumPaymentCost)), {
+      balance: "850.00", interest: "55.76", iof: "4.62", lateFee: "0.00", lateInterest: "0.00", total: "910.38",
+    });
+  });
+
+  it("carries the unpaid balance with interest and IOF to the next invoice", async () => {
+    await asUser(() => invoices.payInvoice(juneInvoiceId, "400"));
+
+    clock.set(new Date(2026, 6, 11, 0, 5));
+    await asUser(() => invoices.closeInvoices(clock.now()));
+
+    const july = await asUser(() => invoices.getInvoice(revolvingCardId, "2026-07-10"));
+    assert.deepEqual(july.items.map(i => [i.kind, i.amount]), [
+      ["balance", "600.00"],
+      ["interest", "39.36"],
+      ["iof", "3.26"],
+    ]);
+    assert.equal(july.totalAmount, "642.62");
+
+    const june = await asUser(() => storage.getCreditCardInvoiceById(juneInvoiceId));
+    assert.equal(june!.carriedAmount, "600.00");
+    assert.equal(june!.carriedToInvoiceId, july.id);
+    await assert.rejects(asUser(() => invoices.payInvoice(juneInvoiceId, "600")), ConflictError);
+  });
+
+  it("adds late fee and mora when not even the minimum was paid", async () => {
+    clock.set(new Date(2026, 7, 11, 0, 5));
+    await asUser(() => invoices.closeInvoices(clock.now()));
+
+    const august = await asUser(() => invoices.getInvoice(revolvingCardId, "2026-08-10"));
+    const byKind = Object.fromEntries(august.items.map(i => [i.kind, i.amount]));
+    assert.equal(byKind.balance, "642.62");
+    assert.equal(byKind.late_fee, "12.85");
+    assert.equal(byKind.late_interest, "4.50");
+    assert.ok(byKind.interest && byKind.iof);
+  });
+});
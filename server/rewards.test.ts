@@ -0,0 +1,74 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { TransactionService } from "./services/TransactionService";
+import { RewardService } from "./services/RewardService";
+import { ConflictError, ValidationError } from "./middleware/ErrorHandlingMiddleware";
+import { useFixture } from "./testing";
+
+describe("card rewards", () => {
+  const { storage, clock, asUser } = useFixture(new Date(2027, 2, 1, 10, 0));
+  const transactions = new TransactionService(storage, clock);
+  const rewards = new RewardService(storage, clock);
+  let pointsCardId: string;
+  let cashbackCardId: string;
+  let programId: string;
+
+  before(async () => {
+    [pointsCardId, cashbackCardId] = await Promise.all(["Pontos", "Cashback"].map(async name => (await asUser(() =>
+      storage.createCreditCard({ name, brand: "visa", bank: "inter", limit: "5000", closingDay: 10, dueDay: 20 })
+    )).id));
+    const travelId = (await asUser(() => storage.createCategory({ name: "Viagem", icon: "✈️", color: "#000", type: "expense" }))).id;
+
+    programId = (await asUser(() => rewards.createProgram({
+      creditCardId: pointsCardId, name: "Loop", rewardType: "points", pointsPerUnit: "2",
+      categoryMultipliers: { [travelId]: 3 }, expirationMonths: 2,
+    }))).id;
+    await asUser(() => rewards.createProgram({ creditCardId: cashbackCardId, name: "Cashback", rewardType: "cashback", cashbackRate: "1" }));
+
+    for (const [creditCardId, amount, date, categoryId] of [
+      [pointsCardId, "100.50", "2027-01-05", undefined],
+      [pointsCardId, "50", "2027-02-03", travelId],
+      [pointsCardId, "10", "2027-02-20", undefined],
+      [cashbackCardId, "100.50", "2027-01-05", undefined],
+    ]) {
+      await asUser(() => transactions.recordTransaction({
+        description: "Compra", amount: amount!, date: date!, type: "expense", creditCardId: creditCardId!, categoryId,
+      }));
+    }
+  });
+
+  it("accrues per closed invoice with category multipliers and warns about expiring points", async () => {
+    const summary = await asUser(() => rewards.getSummary(programId));
+    assert.deepEqual(summary.accruals.map(a => [a.closingDate, a.earned, a.pending]), [
+      ["2027-01-10", "201", false],
+      ["2027-02-10", "300", false],
+      ["2027-03-10", "20", true],
+    ]);
+    assert.deepEqual([summary.balance, summary.pending], ["501", "20"]);
+    assert.deepEqual(summary.expiring, [
+      { expiresAt: "2027-03-10", amount: "201" },
+      { expiresAt: "2027-04-10", amount: "300" },
+    ]);
+
+    const [cashback] = (await asUser(() => rewards.getSummaries())).filter(s => s.unit === "cashback");
+    assert.equal(cashback.balance, "1.01");
+  });
+
+  it("redeems the oldest points first and rejects more than the balance", async () => {
+    await asUser(() => rewards.redeem(programId, { amount: "250", date: "2027-03-01", description: "Passagem" }));
+    await assert.rejects(asUser(() => rewards.redeem(programId, { amount: "300", date: "2027-03-01", description: "Hotel" })), ValidationError);
+    await assert.rejects(asUser(() => rewards.redeem(programId, { amount: "1.5", date: "2027-03-01", description: "Hotel" })), ValidationError);
+
+    const summary = await asUser(() => rewards.getSummary(programId));
+    assert.equal(summary.balance, "251");
+    assert.deepEqual(summary.expiring, [{ expiresAt: "2027-04-10", amount: "251" }]);
+  });
+
+  it("expires what was not redeemed in time", async () => {
+    clock.set(new Date(2027, 3, 15, 10, 0));
+    const summary = await asUser(() => rewards.getSummary(programId));
+    assert.deepEqual([summary.expired, summary.balance, summary.redeemed], ["251", "20", "250"]);
+
+    await assert.rejects(asUser(() => rewards.createProgram({ creditCardId: pointsCardId, name: "Outro" })), ConflictError);
+  });
+});
@@ -0,0 +1,543 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type {
+  Budget, Category, CreditCard, CreditCardInvoice, ExchangeRate, ImportProfile, IncomeSource, Setting, Subscription, Transaction,
+} from "@shared/schema";
+import type { BackupArchive, RestoreSummary } from "./services/BackupService";
+import type { ExchangeRateImportResult } from "./services/ExchangeRateService";
+import type { MonthlyPaycheck } from "./services/FinancialSummaryService";
+import type { FgtsProjection, IncomeSourceView, PayrollEntry } from "./services/IncomeSourceService";
+import type { BuiltinImportProfile, ImportPreviewEntry, ImportResult } from "./services/TransactionImportService";
+import type { JobStatus } from "./jobs";
+
+// Sem banco e sem diário em disco: tudo roda no MemStorage
+delete process.env.DATABASE_URL;
+delete process.env.DATA_DIR;
+process.env.SESSION_SECRET = "test-session-secret";
+
+// Importado só depois de limpar o ambiente: carregar o storage antes escolheria o banco ou o diário
+const { silenceConsole } = await import("./testing");
+
+/** Envelope of every JSON answer of the API, with the shape of `data` given by the caller */
+interface ApiEnvelope<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+  errors?: string[];
+  timestamp: string;
+}
+
+interface ApiResponse<T> {
+  status: number;
+  headers: Headers;
+  body: ApiEnvelope<T>;
+  text: string;
+}
+
+/** Card and current invoice returned by GET /api/credit-cards/:id/smart-limit */
+interface SmartLimitView {
+  creditCard: Pick<CreditCard, "id" | "name" | "limit"> & { currentUsed: number; availableLimit: number };
+}
+
+let server: Server;
+let baseUrl: string;
+let cookie = "";
+
+async function api<T = unknown>(method: string, path: string, body?: unknown): Promise<ApiResponse<T>> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      ...(cookie ? { Cookie: cookie } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  const setCookie = response.headers.get("set-cookie");
+  if (setCookie) {
+    cookie = setCookie.split(";")[0];
+  }
+
+  const text = await response.text();
+  const isJson = response.headers.get("content-type")?.includes("application/json");
+  return { status: response.status, headers: response.headers, body: isJson && text ? JSON.parse(text) : undefined, text };
+}
+
+function assertSuccess<T>(response: ApiResponse<T>, status = 200) {
+  assert.equal(response.status, status, response.text);
+  assert.equal(response.body.success, true);
+  assert.equal(typeof response.body.timestamp, "string");
+}
+
+function assertFailure<T>(response: ApiResponse<T>, status: number) {
+  assert.equal(response.status, status, response.text);
+  assert.equal(response.body.success, false);
+  assert.equal(typeof response.body.message, "string");
+}
+
+const today = new Date().toISOString().split("T")[0];
+const email = `teste-${Date.now()}@example.com`;
+
+silenceConsole();
+
+before(async () => {
+  const { createApp } = await import("./app");
+  server = createApp().listen(0);
+  await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe("API", () => {
+  it("rejects anonymous requests", async () => {
+    assertFailure(await api("GET", "/api/categories"), 401);
+  });
+
+  it("registers a user and starts a session", async () => {
+    const response = await api("POST", "/api/register", {
+      name: "Teste",
+      email,
+      password: "senha-segura-123",
+    });
+    assert.equal(response.status, 201, response.text);
+    assert.ok(cookie);
+  });
+
+  it("answers unknown API routes with a 404 envelope", async () => {
+    const response = await api("GET", "/api/does-not-exist");
+    assert.equal(response.status, 404);
+    assert.equal(response.body.success, false);
+  });
+
+  describe("categories", () => {
+    let categoryId: string;
+
+    it("lists, creates, updates and deletes", async () => {
+      const list = await api<Category[]>("GET", "/api/categories");
+      assertSuccess(list);
+      assert.ok(Array.isArray(list.body.data));
+
+      const created = await api<Category>("POST", "/api/categories", { name: "Mercado", icon: "cart", color: "#10B981", type: "expense" });
+      assertSuccess(created, 201);
+      categoryId = created.body.data.id;
+
+      const updated = await api<Category>("PUT", `/api/categories/${categoryId}`, { name: "Supermercado" });
+      assertSuccess(updated);
+      assert.equal(updated.body.data.name, "Supermercado");
+
+      assertSuccess(await api("DELETE", `/api/categories/${categoryId}`));
+      assertFailure(await api("DELETE", `/api/categories/${categoryId}`), 404);
+    });
+
+    it("validates the payload", async () => {
+      const response = await api("POST", "/api/categories", { name: "Sem ícone" });
+      assertFailure(response, 400);
+      assert.ok(response.body.errors!.length > 0);
+    });
+
+    it("returns 404 when updating a missing category", async () => {
+      assertFailure(await api("PUT", "/api/categories/missing", { name: "X" }), 404);
+    });
+  });
+
+  describe("settings and budgets", () => {
+    it("saves and lists settings", async () => {
+      assertSuccess(await api("POST", "/api/settings", { key: "salary", value: "5000.00" }));
+
+      const list = await api<Setting[]>("GET", "/api/settings");
+      assertSuccess(list);
+      assert.equal(list.body.data.find(setting => setting.key === "salary")!.value, "5000.00");
+    });
+
+    it("requires key and value", async () => {
+      assertFailure(await api("POST", "/api/settings", { key: "salary" }), 400);
+    });
+
+    it("creates and lists budgets by month", async () => {
+      assertSuccess(await api("POST", "/api/budgets", { amount: "300.00", month: 1, year: 2025 }), 201);
+
+      const byMonth = await api<Budget[]>("GET", "/api/budgets?month=1&year=2025");
+      assertSuccess(byMonth);
+      assert.equal(byMonth.body.data.length, 1);
+
+      const other = await api<Budget[]>("GET", "/api/budgets?month=2&year=2025");
+      assert.equal(other.body.data.length, 0);
+    });
+  });
+
+  describe("credit cards, transactions and invoices", () => {
+    let cardId: string;
+    let parentId: string;
+    let singleId: string;
+
+    it("creates and lists credit cards", async () => {
+      const created = await api<CreditCard>("POST", "/api/credit-cards", {
+        name: "Cartão Principal", brand: "visa", bank: "nubank", limit: "1000.00", closingDay: 5, dueDay: 12,
+      });
+      assertSuccess(created, 201);
+      cardId = created.body.data.id;
+
+      const list = await api<CreditCard[]>("GET", "/api/credit-cards");
+      assertSuccess(list);
+      assert.equal(list.body.data.length, 1);
+    });
+
+    it("updates a credit card", async () => {
+      const updated = await api<CreditCard>("PUT", `/api/credit-cards/${cardId}`, { color: "#7C3AED" });
+      assertSuccess(updated);
+      assert.equal(updated.body.data.color, "#7C3AED");
+      assertFailure(await api("PUT", "/api/credit-cards/missing", { color: "#000000" }), 404);
+    });
+
+    it("records a single transaction and an installment purchase", async () => {
+      const single = await api<Transaction>("POST", "/api/transactions", {
+        description: "Salário extra", amount: "200.00", date: today, type: "income", paymentMethod: "pix",
+      });
+      assertSuccess(single, 201);
+      singleId = single.body.data.id;
+
+      const installments = await api<Transaction>("POST", "/api/transactions", {
+        description: "Notebook", amount: "500.00", date: today, type: "expense",
+        paymentMethod: "credito", creditCardId: cardId, installments: 3,
+      });
+      assertSuccess(installments, 201);
+      parentId = installments.body.data.id;
+      assert.equal(installments.body.data.amount, "166.67");
+    });
+
+    it("rejects purchases above the available limit", async () => {
+      const response = await api("POST", "/api/transactions", {
+        description: "TV", amount: "5000.00", date: today, type: "expense", paymentMethod: "credito", creditCardId: cardId,
+      });
+      assertFailure(response, 400);
+    });
+
+    it("lists transactions with filters", async () => {
+      const all = await api<Transaction[]>("GET", "/api/transactions");
+      assertSuccess(all);
+      assert.equal(all.body.data.length, 4);
+
+      const byCard = await api<Transaction[]>("GET", `/api/transactions/credit-card/${cardId}/2000-01-01/2100-12-31`);
+      assertSuccess(byCard);
+      assert.equal(byCard.body.data.length, 3);
+    });
+
+    it("updates a single transaction", async () => {
+      const updated = await api<Transaction>("PUT", `/api/transactions/${singleId}`, { description: "Bônus" });
+      assertSuccess(updated);
+      assert.equal(updated.body.data.description, "Bônus");
+      assertFailure(await api("PUT", "/api/transactions/missing", { description: "X" }), 404);
+    });
+
+    it("updates every installment, checking the card limit for proportional amounts", async () => {
+      assertSuccess(await api("PUT", `/api/transactions/installments/${parentId}`, { amount: "150.00", proportionalAmount: true }));
+
+      const byCard = await api<Transaction[]>("GET", `/api/transactions/credit-card/${cardId}/2000-01-01/2100-12-31`);
+      assert.deepEqual(byCard.body.data.map(t => t.amount), ["150.00", "150.00", "150.00"]);
+
+      const overLimit = await api("PUT", `/api/transactions/installments/${parentId}`, { amount: "900.00", proportionalAmount: true });
+      assertFailure(overLimit, 400);
+      assert.ok(overLimit.body.errors![0].includes("Limite disponível"));
+
+      assertFailure(await api("PUT", "/api/transactions/installments/missing", { description: "X" }), 404);
+
+      assertFailure(await api("GET", `/api/transactions/installments/${parentId}/payoff`), 400);
+      assertFailure(await api("POST", "/api/transactions/installments/missing/payoff", { discountRate: 1 }), 404);
+      assertFailure(await api("POST", "/api/transactions/missing/refund", {}), 404);
+    });
+
+    it("reports the smart limit and invoice of a card", async () => {
+      const smartLimit = await api<SmartLimitView>("GET", `/api/credit-cards/${cardId}/smart-limit`);
+      assertSuccess(smartLimit);
+      assert.equal(smartLimit.body.data.creditCard.id, cardId);
+
+      assertFailure(await api("GET", `/api/credit-cards/${cardId}/invoice`), 400);
+      const invoice = await api<{ transactions: Transaction[] }>("GET", `/api/credit-cards/${cardId}/invoice?startDate=2000-01-01&endDate=2100-12-31`);
+      assertSuccess(invoice);
+      assert.equal(invoice.body.data.transactions.length, 3);
+    });
+
+    it("opens and pays an invoice", async () => {
+      const invoice = await api<CreditCardInvoice>("GET", `/api/credit-card-invoices/${cardId}/2099-01-12`);
+      assertSuccess(invoice);
+      const invoiceId = invoice.body.data.id;
+
+      const paid = await api<CreditCardInvoice>("PUT", `/api/credit-card-invoices/${invoiceId}/pay`, { amount: "100.00" });
+      assertSuccess(paid);
+      assert.equal(paid.body.data.paidAmount, "100.00");
+
+      assertFailure(await api("PUT", "/api/credit-card-invoices/missing/pay", { amount: "1.00" }), 404);
+      assertFailure(await api("PUT", `/api/credit-card-invoices/${invoiceId}/pay`, {}), 400);
+
+      // Aberta até 2099: ainda não pode ser parcelada
+      assertFailure(await api("GET", `/api/credit-card-invoices/${invoiceId}/installment-plan?installments=6&interestRate=3`), 409);
+      assertFailure(await api("POST", `/api/credit-card-invoices/${invoiceId}/installment-plan`, { installments: 1, interestRate: 3 }), 400);
+    });
+
+    it("updates and deletes recurring transactions", async () => {
+      const recurring = await api<Transaction>("POST", "/api/transactions", {
+        description: "Aluguel", amount: "1200.00", date: today, type: "expense", paymentMethod: "pix", isRecurring: true,
+      });
+      const recurringId = recurring.body.data.id;
+
+      assertSuccess(await api("PUT", `/api/transactions/recurring/${recurringId}`, { amount: "1300.00" }));
+      assertSuccess(await api("DELETE", `/api/transactions/recurring/${recurringId}`));
+      assertFailure(await api("DELETE", `/api/transactions/recurring/${recurringId}`), 404);
+      assertFailure(await api("PUT", `/api/transactions/recurring/${recurringId}`, { amount: "1.00" }), 404);
+    });
+
+    it("deletes an installment purchase and releases the card limit", async () => {
+      assertSuccess(await api("DELETE", `/api/transactions/installments/${parentId}`));
+      assertFailure(await api("DELETE", `/api/transactions/installments/${parentId}`), 404);
+
+      const card = await api<SmartLimitView>("GET", `/api/credit-cards/${cardId}/smart-limit`);
+      assert.equal(card.body.data.creditCard.currentUsed, 0);
+    });
+
+    it("deletes a single transaction", async () => {
+      assertSuccess(await api("DELETE", `/api/transactions/${singleId}`));
+      assertFailure(await api("DELETE", `/api/transactions/${singleId}`), 404);
+    });
+
+    it("summarizes the month with the paychecks of the income sources", async () => {
+      const now = new Date();
+      const month = now.getMonth() + 1;
+      const source = await api<IncomeSource>("POST", "/api/income-sources", {
+        name: "Empresa", grossSalary: "5000.00", startDate: `${now.getFullYear()}-${String(month).padStart(2, "0")}-01`,
+      });
+      assertSuccess(source, 201);
+
+      const list = await api<IncomeSourceView[]>("GET", "/api/income-sources");
+      assertSuccess(list);
+      assert.equal(list.body.data[0].nextPaycheck.gross, "5000.00");
+      assertFailure(await api("GET", `/api/income-sources/${source.body.data.id}/paycheck?year=2026&month=13`), 400);
+
+      const thirteenth = await api<PayrollEntry[]>("GET", `/api/income-sources/${source.body.data.id}/thirteenth?year=${now.getFullYear()}`);
+      assertSuccess(thirteenth);
+      assert.equal(thirteenth.body.data.at(-1)!.kind, "thirteenth_second");
+      const fgts = await api<FgtsProjection>("GET", `/api/income-sources/${source.body.data.id}/fgts?months=6`);
+      assertSuccess(fgts);
+      assert.equal(fgts.body.data.months.length, 6);
+      assertFailure(await api("POST", `/api/income-sources/${source.body.data.id}/vacations`, {
+        startDate: `${now.getFullYear() + 1}-02-01`, days: 25, soldDays: 10,
+      }), 400);
+      assertFailure(await api("DELETE", "/api/vacations/missing"), 404);
+
+      const summary = await api<{ paychecks: MonthlyPaycheck[]; totalIncome: number }>("GET", `/api/financial-summary?month=${month}&year=${now.getFullYear()}`);
+      assertSuccess(summary);
+      const [paycheck] = summary.body.data.paychecks;
+      assert.equal(paycheck.incomeSourceId, source.body.data.id);
+      assert.equal(Number(paycheck.net) > 0 && Number(paycheck.net) < 5000, true);
+      assert.equal(typeof summary.body.data.totalIncome, "number");
+    });
+
+    describe("subscriptions", () => {
+      let subscriptionId: string;
+
+      it("creates, reads, updates and toggles", async () => {
+        const created = await api<Subscription>("POST", "/api/subscriptions", {
+          name: "Streaming", service: "netflix", amount: "39.90", billingDate: 10,
+          paymentMethod: "credito", creditCardId: cardId,
+        });
+        assertSuccess(created, 201);
+        subscriptionId = created.body.data.id;
+
+        assertSuccess(await api("GET", "/api/subscriptions"));
+        assertSuccess(await api("GET", `/api/subscriptions/${subscriptionId}`));
+        assertFailure(await api("GET", "/api/subscriptions/missing"), 404);
+
+        const summary = await api<{ totalMonthly: string }>("GET", "/api/subscriptions/summary");
+        assertSuccess(summary);
+        assert.equal(summary.body.data.totalMonthly, "39.90");
+
+        const updated = await api<Subscription>("PUT", `/api/subscriptions/${subscriptionId}`, { amount: "44.90" });
+        assert.equal(updated.body.data.amount, "44.90");
+
+        const toggled = await api<Subscription>("PUT", `/api/subscriptions/${subscriptionId}/toggle`);
+        assertSuccess(toggled);
+        assert.equal(toggled.body.data.isActive, false);
+      });
+
+      it("charges a card subscription on the current invoice", async () => {
+        const response = await api<Subscription>("POST", `/api/subscriptions/${subscriptionId}/include-in-invoice`);
+        assertSuccess(response);
+        assert.equal(response.body.data.creditCardId, cardId);
+      });
+
+      it("deletes a subscription", async () => {
+        assertSuccess(await api("DELETE", `/api/subscriptions/${subscriptionId}`));
+        assertFailure(await api("DELETE", `/api/subscriptions/${subscriptionId}`), 404);
+      });
+    });
+
+    it("deletes a credit card", async () => {
+      const created = await api<CreditCard>("POST", "/api/credit-cards", {
+        name: "Reserva", brand: "elo", bank: "itau", limit: "500.00", closingDay: 1, dueDay: 8,
+      });
+      assertSuccess(await api("DELETE", `/api/credit-cards/${created.body.data.id}`));
+      assertFailure(await api("DELETE", `/api/credit-cards/${created.body.data.id}`), 404);
+    });
+
+    it("keeps a credit card that has transactions", async () => {
+      assertFailure(await api("DELETE", `/api/credit-cards/${cardId}`), 409);
+      assertSuccess(await api("GET", `/api/credit-cards/${cardId}/smart-limit`));
+    });
+  });
+
+  describe("import", () => {
+    let profileId: string;
+
+    it("manages CSV profiles", async () => {
+      const list = await api<Array<BuiltinImportProfile | ImportProfile & { builtin: false }>>("GET", "/api/import/profiles");
+      assertSuccess(list);
+      assert.ok(list.body.data.some(profile => profile.builtin));
+
+      const layout = {
+        name: "Meu banco", delimiter: ";", decimalSeparator: ",", dateFormat: "DD/MM/YYYY",
+        signConvention: "negative_expense", hasHeader: true, skipRows: 0,
+        columns: { date: "Data", description: "Histórico", amount: "Valor" },
+      };
+      const created = await api<ImportProfile>("POST", "/api/import/profiles", layout);
+      assertSuccess(created, 201);
+      profileId = created.body.data.id;
+
+      assertSuccess(await api("PUT", `/api/import/profiles/${profileId}`, { ...layout, name: "Meu banco (conta)" }));
+    });
+
+    it("previews CSV and OFX statements and imports the selected entries", async () => {
+      const csv = await api<{ entries: ImportPreviewEntry[] }>("POST", "/api/import/csv/preview", {
+        profileId,
+        content: "Data;Histórico;Valor\n10/01/2025;Padaria;-12,50\n",
+      });
+      assertSuccess(csv);
+      assert.equal(csv.body.data.entries.length, 1);
+
+      const ofx = await api<{ entries: ImportPreviewEntry[] }>("POST", "/api/import/ofx/preview", {
+        content: [
+          "<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>",
+          "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250111<TRNAMT>-30.00<FITID>F1<MEMO>Farmácia</STMTTRN>",
+          "</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>",
+        ].join("\n"),
+      });
+      assertSuccess(ofx);
+      assert.equal(ofx.body.data.entries.length, 1);
+
+      const imported = await api<ImportResult>("POST", "/api/import/transactions", {
+        entries: [{ date: "2025-01-10", description: "Padaria", amount: "12.50", type: "expense" }],
+      });
+      assertSuccess(imported, 201);
+      assert.equal(imported.body.data.imported, 1);
+    });
+
+    it("rejects an empty file", async () => {
+      assertFailure(await api("POST", "/api/import/ofx/preview", { content: "" }), 400);
+    });
+
+    it("deletes a CSV profile", async () => {
+      assertSuccess(await api("DELETE", `/api/import/profiles/${profileId}`));
+      assertFailure(await api("DELETE", `/api/import/profiles/${profileId}`), 404);
+    });
+  });
+
+  describe("exchange rates", () => {
+    it("saves, imports, looks up and deletes rates", async () => {
+      const saved = await api<ExchangeRate>("POST", "/api/exchange-rates", { currency: "USD", date: "2025-01-02", rate: "6.1" });
+      assertSuccess(saved, 201);
+      assertFailure(await api("POST", "/api/exchange-rates", { currency: "usd", date: "2025-01-02", rate: "6.1" }), 400);
+
+      const imported = await api<ExchangeRateImportResult>("POST", "/api/exchange-rates/import", { content: "03012025;220;A;USD;6,1000;6,1200;1,0000;1,0000\n" });
+      assertSuccess(imported, 201);
+      assert.equal(imported.body.data.imported, 1);
+
+      const lookup = await api<ExchangeRate>("GET", "/api/exchange-rates/USD/2025-01-05");
+      assertSuccess(lookup);
+      assert.equal(lookup.body.data.rate, "6.120000");
+      assertFailure(await api("GET", "/api/exchange-rates/EUR/2025-01-05"), 400);
+
+      assertSuccess(await api("DELETE", `/api/exchange-rates/${saved.body.data.id}`));
+      assertFailure(await api("DELETE", `/api/exchange-rates/${saved.body.data.id}`), 404);
+    });
+  });
+
+  describe("backup and export", () => {
+    it("downloads and restores a backup", async () => {
+      const backup = await api("GET", "/api/backup/export");
+      assert.equal(backup.status, 200);
+      assert.match(backup.headers.get("content-disposition") || "", /backup-financeiro-/);
+      // O backup é baixado como arquivo, sem o envelope
+      const archive: BackupArchive = JSON.parse(backup.text);
+
+      const restored = await api<RestoreSummary>("POST", "/api/backup/restore", { mode: "merge", archive });
+      assertSuccess(restored);
+      assert.equal(restored.body.data.mode, "merge");
+
+      assertFailure(await api("POST", "/api/backup/restore", { mode: "merge" }), 400);
+    });
+
+    it("reads the invoice closing date of a version 1 backup from dueDate", async () => {
+      const { computeChecksum } = await import("./services/BackupService");
+      const { data }: BackupArchive = JSON.parse((await api("GET", "/api/backup/export")).text);
+      const invoices = data.creditCardInvoices.map(({ closingDate, ...invoice }) => ({ ...invoice, dueDate: closingDate }));
+      assert.ok(invoices.length > 0);
+      const legacyData = { ...data, creditCardInvoices: invoices };
+      const archive = { format: "financeiro-backup", schemaVersion: 1, exportedAt: today, checksum: computeChecksum(legacyData), data: legacyData };
+
+      const restored = await api<RestoreSummary>("POST", "/api/backup/restore", { mode: "merge", archive });
+      assertSuccess(restored);
+      assert.deepEqual(restored.body.data.counts.creditCardInvoices, { created: 0, skipped: invoices.length });
+    });
+
+    it("downloads spreadsheets", async () => {
+      const transactions = await api("GET", "/api/export/transactions?format=csv&period=all");
+      assert.equal(transactions.status, 200);
+      assert.match(transactions.headers.get("content-type") || "", /text\/csv/);
+      assert.ok(transactions.text.includes("Padaria"));
+
+      const summary = await api("GET", "/api/export/summary?format=xlsx&year=2025&month=1");
+      assert.equal(summary.status, 200);
+      assert.match(summary.headers.get("content-disposition") || "", /\.xlsx"/);
+
+      assertFailure(await api("GET", "/api/export/transactions?period=forever"), 400);
+    });
+  });
+
+  describe("admin jobs", () => {
+    it("is only available to the e-mails in ADMIN_EMAILS", async () => {
+      process.env.ADMIN_EMAILS = "outra-pessoa@example.com";
+      assertFailure(await api("GET", "/api/admin/jobs"), 403);
+      assertFailure(await api("POST", "/api/admin/jobs/invoice-closing/run"), 403);
+    });
+
+    it("lists the jobs and runs one on demand", async () => {
+      process.env.ADMIN_EMAILS = `outra-pessoa@example.com, ${email.toUpperCase()}`;
+
+      const list = await api<JobStatus[]>("GET", "/api/admin/jobs");
+      assertSuccess(list);
+      assert.deepEqual(list.body.data.map(job => job.name), ["recurring-transactions", "thirteenth-salary", "invoice-closing", "invoice-overdue"]);
+
+      const run = await api<JobStatus>("POST", "/api/admin/jobs/invoice-closing/run");
+      assertSuccess(run);
+      assert.equal(run.body.data.lastStatus, "success");
+      assert.equal(run.body.data.totalRuns, 1);
+      assert.equal(typeof run.body.data.nextRunAt, "string");
+
+      assertFailure(await api("POST", "/api/admin/jobs/unknown/run"), 404);
+    });
+
+    after(() => {
+      delete process.env.ADMIN_EMAILS;
+    });
+  });
+
+  it("clears every transaction", async () => {
+    assertSuccess(await api("DELETE", "/api/transactions/clear-all"));
+
+    const list = await api<Transaction[]>("GET", "/api/transactions");
+    assert.equal(list.body.data.length, 0);
+  });
+});
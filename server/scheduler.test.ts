@@ -0,0 +1,147 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createJobScheduler, JobScheduler } from "./jobs";
+import { dailyAt } from "./jobs/JobScheduler";
+import { runWithUser } from "./utils/RequestContext";
+import { NotFoundError } from "./middleware/ErrorHandlingMiddleware";
+import { silenceConsole } from "./testing";
+
+// Relógio controlado pelo teste: cada cenário avança a data em vez de esperar por ela
+let now = new Date(2026, 2, 5, 10, 0);
+const clock = { now: () => now };
+
+const storage = new MemStorage();
+const scheduler = createJobScheduler(storage, clock);
+let userId: string;
+let cardId: string;
+
+const asUser = <T>(fn: () => Promise<T>) => runWithUser(userId, fn);
+
+async function cardInvoices() {
+  return asUser(() => storage.getCreditCardInvoicesByCard(cardId));
+}
+
+silenceConsole();
+
+before(async () => {
+  const user = await storage.createUser({ email: "jobs@example.com", passwordHash: "x" });
+  userId = user.id;
+
+  await asUser(async () => {
+    const card = await storage.createCreditCard({
+      name: "Cartão", brand: "visa", bank: "nubank", limit: "1000", closingDay: 10, dueDay: 20,
+    });
+    cardId = card.id;
+
+    await storage.createTransaction({ description: "Mercado", amount: "100", date: "2026-02-15", type: "expense", creditCardId: cardId });
+    await storage.createTransaction({ description: "Farmácia", amount: "50", date: "2026-03-08", type: "expense", creditCardId: cardId });
+    await storage.createTransaction({ description: "Próximo ciclo", amount: "70", date: "2026-03-11", type: "expense", creditCardId: cardId });
+    await storage.createTransaction({ description: "Aluguel", amount: "1500", date: "2026-01-31", type: "expense", isRecurring: true });
+  });
+});
+
+describe("JobScheduler", () => {
+  it("generates recurring occurrences ahead of time once, keeping the original day of month", async () => {
+    // Três meses de antecedência: de 05/03 até 05/06
+    const first = await scheduler.runJob("recurring-transactions");
+    assert.equal(first.lastStatus, "success");
+    assert.deepEqual(first.lastResult, { created: 4 });
+
+    const again = await scheduler.runJob("recurring-transactions");
+    assert.deepEqual(again.lastResult, { created: 0 });
+
+    now = new Date(2026, 3, 1, 10, 0);
+    await scheduler.runJob("recurring-transactions");
+
+    const rent = (await asUser(() => storage.getTransactions())).filter(t => t.description === "Aluguel");
+    assert.deepEqual(rent.map(t => t.date).sort(), ["2026-01-31", "2026-02-28", "2026-03-31", "2026-04-30", "2026-05-31", "2026-06-30"]);
+    assert.ok(rent.filter(t => t.date !== "2026-01-31").every(t => t.parentTransactionId === rent.find(r => r.date === "2026-01-31")!.id));
+
+    // Sem fontes de renda não há parcelas do 13º a agendar
+    assert.deepEqual((await scheduler.runJob("thirteenth-salary")).lastResult, { created: 0 });
+  });
+
+  it("closes the invoice after the closing day with the purchases of its period", async () => {
+    now = new Date(2026, 2, 10, 12, 0);
+    const onClosingDay = await scheduler.runJob("invoice-closing");
+    assert.deepEqual(onClosingDay.lastResult, { closed: 1 });
+    assert.deepEqual((await cardInvoices()).map(i => i.closingDate), ["2026-02-10"]);
+
+    now = new Date(2026, 2, 11, 0, 5);
+    const afterClosing = await scheduler.runJob("invoice-closing");
+    assert.deepEqual(afterClosing.lastResult, { closed: 1 });
+
+    const invoice = (await cardInvoices()).find(i => i.closingDate === "2026-03-10")!;
+    assert.equal(invoice.status, "closed");
+    assert.equal(invoice.totalAmount, "150.00");
+
+    const again = await scheduler.runJob("invoice-closing");
+    assert.deepEqual(again.lastResult, { closed: 0 });
+  });
+
+  it("marks unpaid invoices overdue only after the due date", async () => {
+    now = new Date(2026, 2, 20, 0, 10);
+    assert.deepEqual((await scheduler.runJob("invoice-overdue")).lastResult, { overdue: 0 });
+
+    now = new Date(2026, 2, 21, 0, 10);
+    assert.deepEqual((await scheduler.runJob("invoice-overdue")).lastResult, { overdue: 1 });
+    assert.deepEqual((await scheduler.runJob("invoice-overdue")).lastResult, { overdue: 0 });
+
+    const invoices = await cardInvoices();
+    assert.equal(invoices.find(i => i.closingDate === "2026-03-10")!.status, "overdue");
+    // Fatura zerada não fica vencida
+    assert.equal(invoices.find(i => i.closingDate === "2026-02-10")!.status, "closed");
+  });
+
+  it("persists the run state and only runs jobs when they are due", async () => {
+    const runsOf = async () => Object.fromEntries((await scheduler.listJobs()).map(j => [j.name, j.totalRuns]));
+
+    const closing = (await scheduler.listJobs()).find(j => j.name === "invoice-closing")!;
+    assert.equal(closing.totalRuns, 3);
+    assert.equal(closing.consecutiveFailures, 0);
+    assert.deepEqual(closing.lastResult, { closed: 0 });
+    assert.deepEqual(closing.nextRunAt, new Date(2026, 2, 12, 0, 5));
+
+    // Só o fechamento está atrasado; recorrências e vencimentos ainda não chegaram na próxima execução
+    const before = await runsOf();
+    now = new Date(2026, 2, 21, 23, 0);
+    await scheduler.tick();
+    assert.deepEqual(await runsOf(), { ...before, "invoice-closing": before["invoice-closing"] + 1 });
+
+    const afterTick = await runsOf();
+    await scheduler.tick();
+    assert.deepEqual(await runsOf(), afterTick);
+  });
+
+  it("records failures and resets the count on the next success", async () => {
+    let fail = true;
+    const flaky = new JobScheduler(storage, clock).register({
+      name: "flaky",
+      description: "Falha enquanto a flag estiver ligada",
+      nextRunAfter: dailyAt(3),
+      runForUser: async () => {
+        if (fail) throw new Error("boom");
+        return { done: 1 };
+      },
+    });
+
+    await flaky.runJob("flaky");
+    const failed = await flaky.runJob("flaky");
+    assert.equal(failed.lastStatus, "failed");
+    assert.equal(failed.consecutiveFailures, 2);
+    assert.match(failed.lastError!, /boom/);
+    assert.equal(failed.lastSuccessAt, null);
+
+    fail = false;
+    const recovered = await flaky.runJob("flaky");
+    assert.equal(recovered.lastStatus, "success");
+    assert.equal(recovered.consecutiveFailures, 0);
+    assert.equal(recovered.lastError, null);
+    assert.equal(recovered.totalRuns, 3);
+  });
+
+  it("rejects unknown jobs", async () => {
+    await assert.rejects(scheduler.runJob("missing"), NotFoundError);
+  });
+});
@@ -0,0 +1,241 @@
+import { IStorage } from '../storage';
+import { Money } from '@shared/money';
+import type { Account, AccountTransfer, ClearedStatus, InsertAccount, InsertAccountTransfer } from '@shared/schema';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/ErrorHandlingMiddleware';
+import { toDateKey } from '../utils/BillingCycle';
+import { Clock, systemClock } from '../utils/Clock';
+import { Clearable, assertUnlocked, clearedStatusOf } from './ReconciliationService';
+
+export type AccountEntryKind = 'income' | 'expense' | 'transfer_in' | 'transfer_out' | 'invoice_payment';
+
+/** A movement of an account statement; money in is positive */
+export interface AccountEntry {
+  /** Id of the transaction, transfer or invoice payment */
+  id: string;
+  kind: AccountEntryKind;
+  date: string;
+  description: string;
+  amount: Money;
+  /** Balance right after this movement */
+  balance: Money;
+  clearedStatus: ClearedStatus;
+  /** Completed reconciliation that locked this movement */
+  reconciliationId: string | null;
+}
+
+export interface AccountBalance extends Account {
+  /** Balance today (future-dated movements are not counted yet) */
+  balance: Money;
+}
+
+export interface AccountStatement {
+  account: Account;
+  startDate: string;
+  endDate: string;
+  /** Balance before the first movement of the period */
+  startingBalance: Money;
+  entries: AccountEntry[];
+  endingBalance: Money;
+}
+
+// Ordem das movimentações do mesmo dia: entradas antes das saídas
+const ENTRY_ORDER: Record<AccountEntryKind, number> = {
+  income: 0,
+  transfer_in: 1,
+  expense: 2,
+  transfer_out: 3,
+  invoice_payment: 4
+};
+
+function clearingOf(record: Clearable): Pick<AccountEntry, 'clearedStatus' | 'reconciliationId'> {
+  return { clearedStatus: clearedStatusOf(record), reconciliationId: record.reconciliationId ?? null };
+}
+
+/**
+ * Account that money can move in or out of: it must exist and not be archived
+ */
+export async function activeAccountOf(storage: IStorage, accountId: string): Promise<Account> {
+  const account = await storage.getAccountById(accountId);
+  if (!account) {
+    throw new NotFoundError('Account');
+  }
+  if (!account.isActive) {
+    throw new ValidationError('Conta inativa', [`Reative a conta "${account.name}" para movimentá-la`]);
+  }
+  return account;
+}
+
+/**
+ * Account Service
+ * Keeps bank accounts and wallets: the balance of each one is its opening balance plus the income and
+ * expenses linked to it, the transfers in and out and the card invoices paid from it
+ */
+export class AccountService {
+  constructor(private storage: IStorage, private clock: Clock = systemClock) {}
+
+  /**
+   * Every account with its balance today
+   */
+  async getAccounts(): Promise<AccountBalance[]> {
+    const todayKey = toDateKey(this.clock.now());
+    const accounts = await this.storage.getAccounts();
+    return Promise.all(accounts.map(async account => {
+      const entries = await this.entriesOf(account);
+      const past = entries.filter(entry => entry.date <= todayKey);
+      return { ...account, balance: past.length > 0 ? past[past.length - 1].balance : Money.from(account.openingBalance) };
+    }));
+  }
+
+  async createAccount(accountData: InsertAccount): Promise<Account> {
+    return this.storage.createAccount(accountData);
+  }
+
+  async updateAccount(id: string, accountData: Partial<InsertAccount>): Promise<Account> {
+    const updated = await this.storage.updateAccount(id, accountData);
+    if (!updated) {
+      throw new NotFoundError('Account');
+    }
+    return updated;
+  }
+
+  /**
+   * Delete an account that was never used; accounts with transactions, transfers or invoice payments are
+   * archived instead (isActive false), so their history stays in the reports and reconciled periods stay locked
+   */
+  async deleteAccount(id: string): Promise<void> {
+    const account = await this.storage.getAccountById(id);
+    if (!account) {
+      throw new NotFoundError('Account');
+    }
+
+    const transactions = (await this.storage.getTransactions()).filter(t => t.accountId === id);
+    const payments = (await this.storage.getCreditCardInvoicePayments()).filter(p => p.accountId === id);
+    const transfers = await this.storage.getAccountTransfers(id);
+    const movements = transactions.length + payments.length + transfers.length;
+    if (movements > 0) {
+      throw new ConflictError(`A conta "${account.name}" tem ${movements} movimentação(ões): desative-a em vez de excluir`);
+    }
+
+    await this.storage.deleteAccount(id);
+  }
+
+  /**
+   * Movements of an account between two dates (inclusive) with the running balance
+   * Without dates, the whole history from the opening date
+   */
+  async getStatement(accountId: string, startDate?: string, endDate?: string): Promise<AccountStatement> {
+    const account = await this.storage.getAccountById(accountId);
+    if (!account) {
+      throw new NotFoundError('Account');
+    }
+
+    const entries = await this.entriesOf(account);
+    const from = startDate && startDate > account.openingDate ? startDate : account.openingDate;
+    const to = endDate ?? entries[entries.length - 1]?.date ?? toDateKey(this.clock.now());
+    const before = entries.filter(entry => entry.date < from);
+    const inPeriod = entries.filter(entry => entry.date >= from && entry.date <= to);
+    const startingBalance = before.length > 0 ? before[before.length - 1].balance : Money.from(account.openingBalance);
+
+    return {
+      account,
+      startDate: from,
+      endDate: to,
+      startingBalance,
+      entries: inPeriod,
+      endingBalance: inPeriod.length > 0 ? inPeriod[inPeriod.length - 1].balance : startingBalance
+    };
+  }
+
+  /**
+   * Move money between two accounts; it is not income nor expense
+   */
+  async transfer(transferData: InsertAccountTransfer): Promise<AccountTransfer> {
+    if (transferData.fromAccountId === transferData.toAccountId) {
+      throw new ValidationError('Transferência inválida', ['As contas de origem e destino devem ser diferentes']);
+    }
+    await activeAccountOf(this.storage, transferData.fromAccountId);
+    await activeAccountOf(this.storage, transferData.toAccountId);
+    await assertUnlocked(this.storage, [
+      { date: transferData.date, accountId: transferData.fromAccountId },
+      { date: transferData.date, accountId: transferData.toAccountId }
+    ]);
+
+    return this.storage.createAccountTransfer({
+      ...transferData,
+      amount: Money.from(transferData.amount).toString(),
+      clearedStatus: 'uncleared',
+      reconciliationId: null
+    });
+  }
+
+  async deleteTransfer(id: string): Promise<void> {
+    const transfer = (await this.storage.getAccountTransfers()).find(t => t.id === id);
+    if (!transfer) {
+      throw new NotFoundError('Account transfer');
+    }
+    await assertUnlocked(this.storage, [
+      { date: transfer.date, accountId: transfer.fromAccountId },
+      { date: transfer.date, accountId: transfer.toAccountId }
+    ]);
+    await this.storage.deleteAccountTransfer(id);
+  }
+
+  // Movimentações desde a data de abertura, em ordem, com o saldo acumulado
+  private async entriesOf(account: Account): Promise<AccountEntry[]> {
+    const movements: Array<Omit<AccountEntry, 'balance'>> = [];
+
+    for (const transaction of await this.storage.getTransactions()) {
+      if (transaction.accountId !== account.id || transaction.creditCardId) continue;
+      if (transaction.type !== 'income' && transaction.type !== 'expense') continue;
+      const amount = Money.from(transaction.amount);
+      movements.push({
+        id: transaction.id,
+        kind: transaction.type,
+        date: transaction.date,
+        description: transaction.description,
+        amount: transaction.type === 'income' ? amount : amount.negate(),
+        ...clearingOf(transaction)
+      });
+    }
+
+    const accounts = new Map((await this.storage.getAccounts()).map(a => [a.id, a.name]));
+    for (const transfer of await this.storage.getAccountTransfers(account.id)) {
+      const incoming = transfer.toAccountId === account.id;
+      const other = accounts.get(incoming ? transfer.fromAccountId : transfer.toAccountId) ?? 'outra conta';
+      movements.push({
+        id: transfer.id,
+        kind: incoming ? 'transfer_in' : 'transfer_out',
+        date: transfer.date,
+        description: `${transfer.description} (${incoming ? 'de' : 'para'} ${other})`,
+        amount: incoming ? Money.from(transfer.amount) : Money.from(transfer.amount).negate(),
+        ...clearingOf(transfer)
+      });
+    }
+
+    const cards = new Map((await this.storage.getAllCreditCards()).map(c => [c.id, c.name]));
+    const invoices = new Map((await this.storage.getCreditCardInvoices()).map(i => [i.id, i]));
+    for (const payment of await this.storage.getCreditCardInvoicePayments()) {
+      if (payment.accountId !== account.id) continue;
+      const invoice = invoices.get(payment.invoiceId);
+      movements.push({
+        id: payment.id,
+        kind: 'invoice_payment',
+        date: payment.date,
+        description: invoice
+          ? `Fatura ${cards.get(invoice.creditCardId) ?? 'do cartão'} (fechamento ${invoice.closingDate})`
+          : 'Fatura do cartão',
+        amount: Money.from(payment.amount).negate(),
+        ...clearingOf(payment)
+      });
+    }
+
+    let balance = Money.from(account.openingBalance);
+    return movements
+      .filter(movement => movement.date >= account.openingDate)
+      .sort((a, b) => a.date.localeCompare(b.date) || ENTRY_ORDER[a.kind] - ENTRY_ORDER[b.kind])
+      .map(movement => {
+        balance = balance.plus(movement.amount);
+        return { ...movement, balance };
+      });
+  }
+}
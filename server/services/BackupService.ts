@@ -0,0 +1,741 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import {
+  insertCategorySchema,
+  insertTransactionSchema,
+  insertBudgetSchema,
+  insertSettingSchema,
+  insertCreditCardSchema,
+  insertAccountSchema,
+  insertAccountTransferSchema,
+  insertIncomeSourceSchema,
+  insertSubscriptionSchema,
+  insertCreditCardInvoiceSchema,
+  insertCreditCardInvoiceItemSchema,
+  insertCreditCardInvoicePaymentSchema,
+  insertReconciliationSchema,
+  insertImportProfileSchema,
+  insertExchangeRateSchema,
+  insertRewardProgramSchema,
+  insertRewardRedemptionSchema,
+  insertVacationSchema,
+  type InsertCategory,
+  type InsertTransaction,
+  type InsertBudget,
+  type InsertSetting,
+  type InsertCreditCard,
+  type InsertAccount,
+  type InsertAccountTransfer,
+  type InsertIncomeSource,
+  type InsertSubscription,
+  type InsertCreditCardInvoice,
+  type InsertCreditCardInvoiceItem,
+  type InsertCreditCardInvoicePayment,
+  type InsertReconciliation,
+  type InsertImportProfile,
+  type InsertExchangeRate,
+  type InsertRewardProgram,
+  type InsertRewardRedemption,
+  type InsertVacation,
+  type ClearedStatus
+} from '@shared/schema';
+import { Money } from '@shared/money';
+import { IStorage } from '../storage';
+import { ValidationError } from '../middleware/ErrorHandlingMiddleware';
+
+export const BACKUP_FORMAT = 'financeiro-backup';
+export const BACKUP_SCHEMA_VERSION = 2;
+
+// Ordem das coleções no arquivo; a restauração segue a ordem das dependências
+const ENTITIES = [
+  'categories',
+  'creditCards',
+  'accounts',
+  'accountTransfers',
+  'incomeSources',
+  'transactions',
+  'vacations',
+  'budgets',
+  'settings',
+  'subscriptions',
+  'creditCardInvoices',
+  'creditCardInvoiceItems',
+  'creditCardInvoicePayments',
+  'reconciliations',
+  'importProfiles',
+  'exchangeRates',
+  'rewardPrograms',
+  'rewardRedemptions'
+] as const;
+
+export type BackupEntity = typeof ENTITIES[number];
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  /** sha256 of the canonical JSON of `data` (object keys sorted) */
+  checksum: string;
+  data: Record<BackupEntity, Array<Record<string, unknown>>>;
+}
+
+export interface RestoreSummary {
+  mode: RestoreMode;
+  counts: Record<BackupEntity, { created: number; skipped: number }>;
+  warnings: string[];
+}
+
+const archiveEnvelopeSchema = z.object({
+  format: z.literal(BACKUP_FORMAT, { errorMap: () => ({ message: 'Arquivo não é um backup desta aplicação' }) }),
+  schemaVersion: z.number().int().positive(),
+  exportedAt: z.string(),
+  checksum: z.string(),
+  data: z.record(z.unknown())
+});
+
+// Campos gerados pelo servidor: nunca vêm do arquivo, o id antigo só serve para remapear referências
+const recordIdSchema = z.object({ id: z.string().min(1) }).passthrough();
+
+const MAX_REPORTED_ERRORS = 20;
+
+/**
+ * JSON with object keys sorted, so the checksum does not depend on key order
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function computeChecksum(data: unknown): string {
+  return `sha256:${createHash('sha256').update(canonicalJson(data)).digest('hex')}`;
+}
+
+interface ParsedRecord<T> {
+  oldId: string;
+  data: T;
+}
+
+interface ParsedArchive {
+  categories: ParsedRecord<InsertCategory>[];
+  creditCards: ParsedRecord<InsertCreditCard & { currentUsed: string }>[];
+  accounts: ParsedRecord<InsertAccount>[];
+  accountTransfers: ParsedRecord<InsertAccountTransfer>[];
+  incomeSources: ParsedRecord<InsertIncomeSource>[];
+  transactions: ParsedRecord<InsertTransaction>[];
+  vacations: ParsedRecord<InsertVacation>[];
+  budgets: ParsedRecord<InsertBudget>[];
+  settings: InsertSetting[];
+  subscriptions: ParsedRecord<InsertSubscription>[];
+  creditCardInvoices: ParsedRecord<InsertCreditCardInvoice>[];
+  creditCardInvoiceItems: ParsedRecord<InsertCreditCardInvoiceItem>[];
+  creditCardInvoicePayments: ParsedRecord<InsertCreditCardInvoicePayment>[];
+  reconciliations: ParsedRecord<InsertReconciliation>[];
+  importProfiles: ParsedRecord<InsertImportProfile>[];
+  exchangeRates: ParsedRecord<InsertExchangeRate>[];
+  rewardPrograms: ParsedRecord<InsertRewardProgram>[];
+  rewardRedemptions: ParsedRecord<InsertRewardRedemption>[];
+}
+
+// Lançamentos conciliados entram como conferidos; só voltam a "reconciled" se a conciliação for restaurada junto
+function unreconciled(record: { clearedStatus?: ClearedStatus }): { clearedStatus?: ClearedStatus; reconciliationId: null } {
+  return {
+    clearedStatus: record.clearedStatus === 'reconciled' ? 'cleared' : record.clearedStatus,
+    reconciliationId: null
+  };
+}
+
+function normalizeKey(...parts: Array<string | number | null | undefined>): string {
+  return parts.map(part => String(part ?? '').trim().toLowerCase()).join('|');
+}
+
+/**
+ * Backup Service
+ * Exports every entity of the current user to a versioned JSON archive and restores it
+ */
+export class BackupService {
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Dump all data of the current user. IDs are kept so references inside the archive stay consistent.
+   */
+  async exportArchive(): Promise<BackupArchive> {
+    const [categories, creditCards, accounts, accountTransfers, incomeSources, transactions, vacations, budgets, settings, subscriptions, creditCardInvoices, creditCardInvoiceItems, creditCardInvoicePayments, reconciliations, importProfiles, exchangeRates, rewardPrograms, rewardRedemptions] =
+      await Promise.all([
+        this.storage.getCategories(),
+        this.storage.getAllCreditCards(),
+        this.storage.getAccounts(),
+        this.storage.getAccountTransfers(),
+        this.storage.getIncomeSources(),
+        this.storage.getTransactions(),
+        this.storage.getVacations(),
+        this.storage.getBudgets(),
+        this.storage.getSettings(),
+        this.storage.getSubscriptions(),
+        this.storage.getCreditCardInvoices(),
+        this.storage.getCreditCardInvoiceItems(),
+        this.storage.getCreditCardInvoicePayments(),
+        this.storage.getReconciliations(),
+        this.storage.getImportProfiles(),
+        this.storage.getExchangeRates(),
+        this.storage.getRewardPrograms(),
+        this.storage.getRewardRedemptions()
+      ]);
+
+    const withoutOwner = <T extends { userId: string }>(records: T[]) =>
+      records.map(({ userId, ...record }) => record);
+
+    // Ida e volta pelo JSON para o checksum ver exatamente o que vai no arquivo (datas como texto)
+    const data = JSON.parse(JSON.stringify({
+      categories: withoutOwner(categories),
+      creditCards: withoutOwner(creditCards),
+      accounts: withoutOwner(accounts),
+      accountTransfers: withoutOwner(accountTransfers),
+      incomeSources: withoutOwner(incomeSources),
+      transactions: withoutOwner(transactions),
+      vacations: withoutOwner(vacations),
+      budgets: withoutOwner(budgets),
+      settings: withoutOwner(settings),
+      subscriptions: withoutOwner(subscriptions),
+      creditCardInvoices: withoutOwner(creditCardInvoices),
+      creditCardInvoiceItems: withoutOwner(creditCardInvoiceItems),
+      creditCardInvoicePayments: withoutOwner(creditCardInvoicePayments),
+      reconciliations: withoutOwner(reconciliations),
+      importProfiles: withoutOwner(importProfiles),
+      exchangeRates: withoutOwner(exchangeRates),
+      rewardPrograms: withoutOwner(rewardPrograms),
+      rewardRedemptions: withoutOwner(rewardRedemptions)
+    })) as BackupArchive['data'];
+
+    return {
+      format: BACKUP_FORMAT,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      checksum: computeChecksum(data),
+      data
+    };
+  }
+
+  /**
+   * Restore an archive. Everything is validated before the first write.
+   * - replace: deletes all current data of the user, then recreates the archive contents
+   * - merge: keeps current data and skips archive records that already exist
+   *   (same category name/type, card name/bank, transaction date/amount/description, ...)
+   * Every record gets a new ID; references between records are remapped.
+   */
+  async restoreArchive(raw: unknown, mode: RestoreMode): Promise<RestoreSummary> {
+    const archive = this.parseArchive(raw);
+    const warnings: string[] = [];
+    const counts = Object.fromEntries(ENTITIES.map(entity => [entity, { created: 0, skipped: 0 }])) as RestoreSummary['counts'];
+
+    if (mode === 'replace') {
+      await this.deleteAllData();
+    }
+
+    // Categorias
+    const categoryIds = new Map<string, string>();
+    const existingCategories = new Map(
+      (await this.storage.getCategories()).map(c => [normalizeKey(c.name, c.type), c.id])
+    );
+    for (const { oldId, data } of archive.categories) {
+      const match = existingCategories.get(normalizeKey(data.name, data.type));
+      if (match) {
+        categoryIds.set(oldId, match);
+        counts.categories.skipped++;
+        continue;
+      }
+      const created = await this.storage.createCategory(data);
+      categoryIds.set(oldId, created.id);
+      existingCategories.set(normalizeKey(data.name, data.type), created.id);
+      counts.categories.created++;
+    }
+
+    const mapOptional = (ids: Map<string, string>, oldId: string | null | undefined, label: string): string | null => {
+      if (!oldId) return null;
+      const newId = ids.get(oldId);
+      if (!newId) {
+        warnings.push(`${label}: referência ${oldId} não encontrada no backup, removida`);
+        return null;
+      }
+      return newId;
+    };
+
+    // Cartões de crédito, titulares antes dos virtuais e adicionais (o limite usado é restaurado depois da criação)
+    const creditCardIds = new Map<string, string>();
+    const existingCards = new Map(
+      (await this.storage.getAllCreditCards()).map(c => [normalizeKey(c.name, c.bank), c.id])
+    );
+    const orderedCards = [
+      ...archive.creditCards.filter(c => !c.data.parentCardId),
+      ...archive.creditCards.filter(c => c.data.parentCardId)
+    ];
+    for (const { oldId, data } of orderedCards) {
+      const match = existingCards.get(normalizeKey(data.name, data.bank));
+      if (match) {
+        creditCardIds.set(oldId, match);
+        counts.creditCards.skipped++;
+        continue;
+      }
+      const { currentUsed, ...cardData } = data;
+      const created = await this.storage.createCreditCard({
+        ...cardData,
+        parentCardId: mapOptional(creditCardIds, data.parentCardId, `Cartão "${data.name}"`)
+      });
+      await this.storage.updateCreditCard(created.id, { currentUsed: Money.from(currentUsed).toString() });
+      creditCardIds.set(oldId, created.id);
+      counts.creditCards.created++;
+    }
+
+    // Contas e, entre contas que estão no backup, as transferências
+    const accountIds = new Map<string, string>();
+    const restoredAccounts = new Set<string>();
+    const existingAccounts = new Map(
+      (await this.storage.getAccounts()).map(a => [normalizeKey(a.name, a.type), a.id])
+    );
+    for (const { oldId, data } of archive.accounts) {
+      const match = existingAccounts.get(normalizeKey(data.name, data.type));
+      if (match) {
+        accountIds.set(oldId, match);
+        counts.accounts.skipped++;
+        continue;
+      }
+      const created = await this.storage.createAccount(data);
+      accountIds.set(oldId, created.id);
+      restoredAccounts.add(created.id);
+      existingAccounts.set(normalizeKey(data.name, data.type), created.id);
+      counts.accounts.created++;
+    }
+    const existingTransfers = new Set(
+      (await this.storage.getAccountTransfers()).map(t => normalizeKey(t.fromAccountId, t.toAccountId, t.date, Money.from(t.amount).toString()))
+    );
+    const transferIds = new Map<string, string>();
+    for (const { oldId, data } of archive.accountTransfers) {
+      const fromAccountId = accountIds.get(data.fromAccountId);
+      const toAccountId = accountIds.get(data.toAccountId);
+      const key = normalizeKey(fromAccountId, toAccountId, data.date, Money.from(data.amount).toString());
+      if (!fromAccountId || !toAccountId || existingTransfers.has(key)) {
+        counts.accountTransfers.skipped++;
+        continue;
+      }
+      const created = await this.storage.createAccountTransfer({ ...data, ...unreconciled(data), fromAccountId, toAccountId });
+      transferIds.set(oldId, created.id);
+      existingTransfers.add(key);
+      counts.accountTransfers.created++;
+    }
+
+    // Fontes de renda; os contracheques (transações) voltam a apontar para elas
+    const incomeSourceIds = new Map<string, string>();
+    const existingSources = new Map((await this.storage.getIncomeSources()).map(s => [normalizeKey(s.name), s.id]));
+    for (const { oldId, data } of archive.incomeSources) {
+      const match = existingSources.get(normalizeKey(data.name));
+      if (match) {
+        incomeSourceIds.set(oldId, match);
+        counts.incomeSources.skipped++;
+        continue;
+      }
+      const created = await this.storage.createIncomeSource({
+        ...data,
+        accountId: mapOptional(accountIds, data.accountId, `Fonte de renda "${data.name}"`),
+        categoryId: mapOptional(categoryIds, data.categoryId, `Fonte de renda "${data.name}"`)
+      });
+      incomeSourceIds.set(oldId, created.id);
+      existingSources.set(normalizeKey(data.name), created.id);
+      counts.incomeSources.created++;
+    }
+
+    // Transações: primeiro as que não dependem de outra (parcela 1 / recorrência de origem), os estornos por último
+    const transactionIds = new Map<string, string>();
+    const archivedTransactionIds = new Set(archive.transactions.map(t => t.oldId));
+    const isArchived = (id?: string | null) => Boolean(id) && archivedTransactionIds.has(id!);
+    const existingTransactions = new Map(
+      (await this.storage.getTransactions()).map(t => [this.transactionKey(t), t.id])
+    );
+    const orderedTransactions = [
+      ...archive.transactions.filter(t => !isArchived(t.data.parentTransactionId) && !isArchived(t.data.refundOfTransactionId)),
+      ...archive.transactions.filter(t => isArchived(t.data.parentTransactionId) && !isArchived(t.data.refundOfTransactionId)),
+      ...archive.transactions.filter(t => isArchived(t.data.refundOfTransactionId))
+    ];
+    for (const { oldId, data } of orderedTransactions) {
+      const transaction: InsertTransaction = {
+        ...data,
+        ...unreconciled(data),
+        categoryId: mapOptional(categoryIds, data.categoryId, `Transação "${data.description}"`),
+        creditCardId: mapOptional(creditCardIds, data.creditCardId, `Transação "${data.description}"`),
+        accountId: mapOptional(accountIds, data.accountId, `Transação "${data.description}"`),
+        parentTransactionId: data.parentTransactionId ? transactionIds.get(data.parentTransactionId) ?? null : null,
+        refundOfTransactionId: data.refundOfTransactionId ? transactionIds.get(data.refundOfTransactionId) ?? null : null,
+        incomeSourceId: data.incomeSourceId ? incomeSourceIds.get(data.incomeSourceId) ?? null : null
+      };
+
+      const key = this.transactionKey(transaction);
+      const match = existingTransactions.get(key);
+      if (match) {
+        transactionIds.set(oldId, match);
+        counts.transactions.skipped++;
+        continue;
+      }
+      const created = await this.storage.createTransaction(transaction);
+      transactionIds.set(oldId, created.id);
+      existingTransactions.set(key, created.id);
+      counts.transactions.created++;
+    }
+
+    // Férias das fontes de renda restauradas, ligadas de novo ao pagamento
+    const existingVacations = new Set(
+      (await this.storage.getVacations()).map(v => normalizeKey(v.incomeSourceId, v.startDate))
+    );
+    for (const { data } of archive.vacations) {
+      const incomeSourceId = incomeSourceIds.get(data.incomeSourceId);
+      const key = normalizeKey(incomeSourceId, data.startDate);
+      if (!incomeSourceId || existingVacations.has(key)) {
+        counts.vacations.skipped++;
+        continue;
+      }
+      await this.storage.createVacation({
+        ...data,
+        incomeSourceId,
+        transactionId: data.transactionId ? transactionIds.get(data.transactionId) ?? null : null
+      });
+      existingVacations.add(key);
+      counts.vacations.created++;
+    }
+
+    // Orçamentos
+    const existingBudgets = new Set(
+      (await this.storage.getBudgets()).map(b => normalizeKey(b.categoryId, b.month, b.year))
+    );
+    for (const { data } of archive.budgets) {
+      const budget: InsertBudget = { ...data, categoryId: mapOptional(categoryIds, data.categoryId, 'Orçamento') };
+      const key = normalizeKey(budget.categoryId, budget.month, budget.year);
+      if (existingBudgets.has(key)) {
+        counts.budgets.skipped++;
+        continue;
+      }
+      await this.storage.createBudget(budget);
+      existingBudgets.add(key);
+      counts.budgets.created++;
+    }
+
+    // Configurações: no modo merge os valores atuais são mantidos
+    for (const setting of archive.settings) {
+      if (mode === 'merge' && await this.storage.getSettingByKey(setting.key)) {
+        counts.settings.skipped++;
+        continue;
+      }
+      await this.storage.createOrUpdateSetting(setting);
+      counts.settings.created++;
+    }
+
+    // Assinaturas
+    const existingSubscriptions = new Set(
+      (await this.storage.getSubscriptions()).map(s => normalizeKey(s.name, s.service))
+    );
+    for (const { data } of archive.subscriptions) {
+      const key = normalizeKey(data.name, data.service);
+      if (existingSubscriptions.has(key)) {
+        counts.subscriptions.skipped++;
+        continue;
+      }
+      await this.storage.createSubscription({
+        ...data,
+        categoryId: mapOptional(categoryIds, data.categoryId, `Assinatura "${data.name}"`),
+        creditCardId: mapOptional(creditCardIds, data.creditCardId, `Assinatura "${data.name}"`)
+      });
+      existingSubscriptions.add(key);
+      counts.subscriptions.created++;
+    }
+
+    // Faturas: a fatura de origem antes das parcelas do parcelamento
+    const invoiceIds = new Map<string, string>();
+    const restoredInvoices = new Set<string>();
+    const existingInvoices = new Map(
+      (await this.storage.getCreditCardInvoices()).map(i => [normalizeKey(i.creditCardId, i.closingDate, i.installmentNumber), i.id])
+    );
+    const orderedInvoices = [
+      ...archive.creditCardInvoices.filter(i => !i.data.parentInvoiceId),
+      ...archive.creditCardInvoices.filter(i => i.data.parentInvoiceId)
+    ];
+    for (const { oldId, data } of orderedInvoices) {
+      const creditCardId = creditCardIds.get(data.creditCardId);
+      if (!creditCardId) {
+        warnings.push(`Fatura ${data.closingDate}: cartão ${data.creditCardId} não está no backup, ignorada`);
+        counts.creditCardInvoices.skipped++;
+        continue;
+      }
+      const key = normalizeKey(creditCardId, data.closingDate, data.installmentNumber);
+      const match = existingInvoices.get(key);
+      if (match) {
+        invoiceIds.set(oldId, match);
+        counts.creditCardInvoices.skipped++;
+        continue;
+      }
+      const created = await this.storage.createCreditCardInvoice({
+        ...data,
+        creditCardId,
+        parentInvoiceId: data.parentInvoiceId ? invoiceIds.get(data.parentInvoiceId) ?? null : null
+      });
+      invoiceIds.set(oldId, created.id);
+      existingInvoices.set(key, created.id);
+      restoredInvoices.add(created.id);
+      counts.creditCardInvoices.created++;
+    }
+
+    // Itens das faturas (fotografia do fechamento e ajustes), só para as faturas criadas agora
+    for (const { data } of archive.creditCardInvoiceItems) {
+      const invoiceId = invoiceIds.get(data.invoiceId);
+      if (!invoiceId || !restoredInvoices.has(invoiceId)) {
+        counts.creditCardInvoiceItems.skipped++;
+        continue;
+      }
+      await this.storage.createCreditCardInvoiceItem({
+        ...data,
+        invoiceId,
+        transactionId: data.transactionId ? transactionIds.get(data.transactionId) ?? null : null,
+        creditCardId: data.creditCardId ? creditCardIds.get(data.creditCardId) ?? null : null
+      });
+      counts.creditCardInvoiceItems.created++;
+    }
+
+    // Pagamentos das faturas criadas agora
+    const paymentIds = new Map<string, string>();
+    for (const { oldId, data } of archive.creditCardInvoicePayments) {
+      const invoiceId = invoiceIds.get(data.invoiceId);
+      if (!invoiceId || !restoredInvoices.has(invoiceId)) {
+        counts.creditCardInvoicePayments.skipped++;
+        continue;
+      }
+      const created = await this.storage.createCreditCardInvoicePayment({
+        ...data,
+        ...unreconciled(data),
+        invoiceId,
+        accountId: mapOptional(accountIds, data.accountId, `Pagamento da fatura de ${data.date}`)
+      });
+      paymentIds.set(oldId, created.id);
+      counts.creditCardInvoicePayments.created++;
+    }
+
+    // Conciliações das contas e faturas criadas agora; os lançamentos que elas travaram voltam a apontar para elas
+    const reconciliationIds = new Map<string, string>();
+    for (const { oldId, data } of archive.reconciliations) {
+      const accountId = data.accountId ? accountIds.get(data.accountId) : undefined;
+      const invoiceId = data.invoiceId ? invoiceIds.get(data.invoiceId) : undefined;
+      if (!(accountId && restoredAccounts.has(accountId)) && !(invoiceId && restoredInvoices.has(invoiceId))) {
+        counts.reconciliations.skipped++;
+        continue;
+      }
+      const created = await this.storage.createReconciliation({ ...data, accountId: accountId ?? null, invoiceId: invoiceId ?? null });
+      reconciliationIds.set(oldId, created.id);
+      counts.reconciliations.created++;
+    }
+    const relock = <T extends { reconciliationId?: string | null }>(
+      records: ParsedRecord<T>[],
+      ids: Map<string, string>,
+      update: (id: string, changes: { clearedStatus: 'reconciled'; reconciliationId: string }) => Promise<unknown>
+    ) => Promise.all(records.map(({ oldId, data }) => {
+      const id = ids.get(oldId);
+      const reconciliationId = data.reconciliationId && reconciliationIds.get(data.reconciliationId);
+      return id && reconciliationId ? update(id, { clearedStatus: 'reconciled', reconciliationId }) : undefined;
+    }));
+    await relock(archive.transactions, transactionIds, (id, changes) => this.storage.updateTransaction(id, changes));
+    await relock(archive.accountTransfers, transferIds, (id, changes) => this.storage.updateAccountTransfer(id, changes));
+    await relock(archive.creditCardInvoicePayments, paymentIds, (id, changes) => this.storage.updateCreditCardInvoicePayment(id, changes));
+
+    // Perfis de importação CSV
+    const existingProfiles = new Set((await this.storage.getImportProfiles()).map(p => normalizeKey(p.name)));
+    for (const { data } of archive.importProfiles) {
+      if (existingProfiles.has(normalizeKey(data.name))) {
+        counts.importProfiles.skipped++;
+        continue;
+      }
+      await this.storage.createImportProfile(data);
+      existingProfiles.add(normalizeKey(data.name));
+      counts.importProfiles.created++;
+    }
+
+    // Cotações: a do backup só entra onde não há cotação da mesma moeda e data
+    const existingRates = new Set((await this.storage.getExchangeRates()).map(r => normalizeKey(r.currency, r.date)));
+    for (const { data } of archive.exchangeRates) {
+      if (existingRates.has(normalizeKey(data.currency, data.date))) {
+        counts.exchangeRates.skipped++;
+        continue;
+      }
+      await this.storage.saveExchangeRate(data);
+      existingRates.add(normalizeKey(data.currency, data.date));
+      counts.exchangeRates.created++;
+    }
+
+    // Programas de pontos (um por cartão; os multiplicadores apontam para categorias) e, só dos criados agora, os resgates
+    const programIds = new Map<string, string>();
+    const cardsWithProgram = new Set((await this.storage.getRewardPrograms()).map(p => p.creditCardId));
+    for (const { oldId, data } of archive.rewardPrograms) {
+      const creditCardId = creditCardIds.get(data.creditCardId);
+      if (!creditCardId || cardsWithProgram.has(creditCardId)) {
+        counts.rewardPrograms.skipped++;
+        continue;
+      }
+      const categoryMultipliers = Object.fromEntries(
+        Object.entries(data.categoryMultipliers ?? {})
+          .filter(([categoryId]) => categoryIds.has(categoryId))
+          .map(([categoryId, multiplier]) => [categoryIds.get(categoryId)!, multiplier])
+      );
+      const created = await this.storage.createRewardProgram({ ...data, creditCardId, categoryMultipliers });
+      programIds.set(oldId, created.id);
+      cardsWithProgram.add(creditCardId);
+      counts.rewardPrograms.created++;
+    }
+    for (const { data } of archive.rewardRedemptions) {
+      const programId = programIds.get(data.programId);
+      if (!programId) {
+        counts.rewardRedemptions.skipped++;
+        continue;
+      }
+      await this.storage.createRewardRedemption({ ...data, programId });
+      counts.rewardRedemptions.created++;
+    }
+
+    console.log(`💾 Backup restaurado (${mode}): ${ENTITIES.map(e => `${e}=${counts[e].created}`).join(', ')}`);
+
+    return { mode, counts, warnings };
+  }
+
+  /**
+   * Check format, version and checksum, then validate every record against the insert schemas
+   */
+  private parseArchive(raw: unknown): ParsedArchive {
+    const envelope = archiveEnvelopeSchema.safeParse(raw);
+    if (!envelope.success) {
+      throw new ValidationError('Arquivo de backup inválido', envelope.error.errors.map(e => `${e.path.join('.') || 'arquivo'}: ${e.message}`));
+    }
+
+    const { schemaVersion, checksum, data } = envelope.data;
+    if (schemaVersion > BACKUP_SCHEMA_VERSION) {
+      throw new ValidationError('Backup gerado por uma versão mais nova da aplicação', [
+        `Versão do arquivo: ${schemaVersion}. Versão suportada: ${BACKUP_SCHEMA_VERSION}`
+      ]);
+    }
+    if (computeChecksum(data) !== checksum) {
+      throw new ValidationError('Checksum do backup não confere', ['O arquivo foi alterado ou está corrompido']);
+    }
+
+    // Até a versão 1, o fechamento da fatura ficava no campo dueDate
+    if (schemaVersion < 2 && Array.isArray(data.creditCardInvoices)) {
+      data.creditCardInvoices = (data.creditCardInvoices as Array<Record<string, unknown>>)
+        .map(({ dueDate, ...invoice }) => ({ closingDate: dueDate, ...invoice }));
+    }
+
+    const errors: string[] = [];
+    const readList = (entity: BackupEntity): Array<Record<string, unknown>> => {
+      const list = data[entity] ?? [];
+      if (!Array.isArray(list)) {
+        errors.push(`${entity}: deveria ser uma lista`);
+        return [];
+      }
+      return list;
+    };
+
+    const parseRecords = <T>(entity: BackupEntity, schema: z.ZodType<T, z.ZodTypeDef, unknown>): ParsedRecord<T>[] => {
+      const parsed: ParsedRecord<T>[] = [];
+      readList(entity).forEach((record, index) => {
+        const withId = recordIdSchema.safeParse(record);
+        if (!withId.success) {
+          errors.push(`${entity}[${index}]: id ausente`);
+          return;
+        }
+        const { id, userId, createdAt, ...fields } = withId.data;
+        const result = schema.safeParse(fields);
+        if (!result.success) {
+          result.error.errors.forEach(e => errors.push(`${entity}[${index}].${e.path.join('.')}: ${e.message}`));
+          return;
+        }
+        parsed.push({ oldId: id, data: result.data });
+      });
+      return parsed;
+    };
+
+    const creditCardRecordSchema = insertCreditCardSchema.extend({ currentUsed: z.string().default('0') });
+    const reconciliationRecordSchema = insertReconciliationSchema.extend({
+      completedAt: z.string().datetime().nullable().optional().transform(value => (value ? new Date(value) : null))
+    });
+
+    const archive: ParsedArchive = {
+      categories: parseRecords('categories', insertCategorySchema),
+      creditCards: parseRecords('creditCards', creditCardRecordSchema),
+      accounts: parseRecords('accounts', insertAccountSchema),
+      accountTransfers: parseRecords('accountTransfers', insertAccountTransferSchema),
+      incomeSources: parseRecords('incomeSources', insertIncomeSourceSchema),
+      transactions: parseRecords('transactions', insertTransactionSchema.omit({ id: true, createdAt: true })),
+      vacations: parseRecords('vacations', insertVacationSchema),
+      budgets: parseRecords('budgets', insertBudgetSchema),
+      settings: parseRecords('settings', insertSettingSchema).map(record => record.data),
+      subscriptions: parseRecords('subscriptions', insertSubscriptionSchema),
+      creditCardInvoices: parseRecords('creditCardInvoices', insertCreditCardInvoiceSchema),
+      creditCardInvoiceItems: parseRecords('creditCardInvoiceItems', insertCreditCardInvoiceItemSchema),
+      creditCardInvoicePayments: parseRecords('creditCardInvoicePayments', insertCreditCardInvoicePaymentSchema),
+      reconciliations: parseRecords('reconciliations', reconciliationRecordSchema),
+      importProfiles: parseRecords('importProfiles', insertImportProfileSchema),
+      exchangeRates: parseRecords('exchangeRates', insertExchangeRateSchema),
+      rewardPrograms: parseRecords('rewardPrograms', insertRewardProgramSchema),
+      rewardRedemptions: parseRecords('rewardRedemptions', insertRewardRedemptionSchema)
+    };
+
+    if (errors.length > 0) {
+      const extra = errors.length > MAX_REPORTED_ERRORS ? [`... e mais ${errors.length - MAX_REPORTED_ERRORS} erro(s)`] : [];
+      throw new ValidationError('Backup contém registros inválidos', [...errors.slice(0, MAX_REPORTED_ERRORS), ...extra]);
+    }
+
+    return archive;
+  }
+
+  private transactionKey(t: Pick<InsertTransaction, 'date' | 'amount' | 'type' | 'description' | 'creditCardId' | 'installmentNumber'>): string {
+    return normalizeKey(t.date, Money.from(t.amount).toString(), t.type, t.description, t.creditCardId, t.installmentNumber ?? 1);
+  }
+
+  /**
+   * Delete everything owned by the current user, children before the rows they reference
+   */
+  private async deleteAllData(): Promise<void> {
+    for (const invoice of await this.storage.getCreditCardInvoices()) {
+      await this.storage.deleteCreditCardInvoice(invoice.id);
+    }
+    for (const subscription of await this.storage.getSubscriptions()) {
+      await this.storage.deleteSubscription(subscription.id);
+    }
+    await this.storage.clearAllTransactions();
+    for (const source of await this.storage.getIncomeSources()) {
+      await this.storage.deleteIncomeSource(source.id);
+    }
+    for (const budget of await this.storage.getBudgets()) {
+      await this.storage.deleteBudget(budget.id);
+    }
+    for (const program of await this.storage.getRewardPrograms()) {
+      await this.storage.deleteRewardProgram(program.id);
+    }
+    for (const card of await this.storage.getAllCreditCards()) {
+      await this.storage.deleteCreditCard(card.id);
+    }
+    for (const account of await this.storage.getAccounts()) {
+      await this.storage.deleteAccount(account.id);
+    }
+    for (const category of await this.storage.getCategories()) {
+      await this.storage.deleteCategory(category.id);
+    }
+    for (const profile of await this.storage.getImportProfiles()) {
+      await this.storage.deleteImportProfile(profile.id);
+    }
+    for (const rate of await this.storage.getExchangeRates()) {
+      await this.storage.deleteExchangeRate(rate.id);
+    }
+    for (const setting of await this.storage.getSettings()) {
+      await this.storage.deleteSetting(setting.key);
+    }
+  }
+}
@@ -1,12 +1,70 @@
+import { addDays, addMonths, differenceInCalendarDays, parseISO } from 'date-fns';
 import { CreditCardModel } from '../models/CreditCardModel';
 import { IStorage } from '../storage';
+import { Money } from '@shared/money';
+import type { CreditCard, InsertCreditCard, InvoiceStatus } from '@shared/schema';
+import { billingCardOf, cardChargeOf, cardFamilyOf, invoiceStatusOf } from './InvoiceService';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/ErrorHandlingMiddleware';
+import { billingPeriod, dueDateFor, invoiceClosingDateFor, lastClosedDate, toDateKey } from '../utils/BillingCycle';
+import { Clock, systemClock } from '../utils/Clock';
+
+// Janela do calendário de liberação de limite
+const LIMIT_RELEASE_MONTHS = 12;
+
+/** Limit given back when an invoice is paid on its due date */
+export interface LimitRelease {
+  closingDate: string;
+  dueDate: string;
+  amount: Money;
+  /** Installments of longer purchases billed on this invoice */
+  installments: number;
+}
+
+/**
+ * When to buy with a card: the day after closing ("melhor dia de compra") gives the longest time until
+ * the purchase is due, and committed purchases give their limit back as each invoice is paid
+ */
+export interface PurchaseCalendar {
+  creditCardId: string;
+  closingDay: number;
+  dueDay: number;
+  bestPurchaseDay: number;
+  nextBestPurchaseDate: string;
+  /** Days between a purchase made today and the due date of the invoice that bills it */
+  floatDaysToday: number;
+  /** Days of float of a purchase made on the next best day */
+  bestFloatDays: number;
+  /** Closing and due date of the invoice that bills purchases made today */
+  closingDate: string;
+  dueDate: string;
+  limitReleases: LimitRelease[];
+}
+
+// O que um cartão virtual ou adicional herda do titular (limite, ciclo de faturamento e encargos)
+const SHARED_CARD_SETTINGS = [
+  'limit',
+  'closingDay',
+  'dueDay',
+  'revolvingInterestRate',
+  'minimumPaymentRate',
+  'iofDailyRate',
+  'iofFixedRate',
+  'lateFeeRate',
+  'lateInterestRate',
+  'internationalIofRate',
+  'exchangeRateRule',
+] as const;
+
+function sharedSettingsOf(card: CreditCard): Pick<InsertCreditCard, typeof SHARED_CARD_SETTINGS[number]> {
+  return Object.fromEntries(SHARED_CARD_SETTINGS.map(key => [key, card[key]])) as Pick<InsertCreditCard, typeof SHARED_CARD_SETTINGS[number]>;
+}
 
 /**
  * Credit Card Service
  * Handles business logic for credit cards including limit management and invoice calculations
  */
 export class CreditCardService {
-  constructor(private storage: IStorage) {}
+  constructor(private storage: IStorage, private clock: Clock = systemClock) {}
 
   /**
    * Create a new credit card
@@ -46,23 +104,150 @@ export class CreditCardService {
   }
 
   /**
-   * Delete a credit card
+   * Create a card as POST /api/credit-cards does
+   * A virtual or additional card (with parentCardId) takes the limit, billing days and charges of its main card
    */
-  async deleteCreditCard(id: string): Promise<boolean> {
-    const existingCreditCard = await this.storage.getCreditCardById(id);
-    if (!existingCreditCard) {
-      throw new Error('Credit card not found');
+  async registerCreditCard(creditCardData: InsertCreditCard): Promise<CreditCard> {
+    if (!creditCardData.parentCardId) {
+      if (creditCardData.cardType && creditCardData.cardType !== 'main') {
+        throw new ValidationError('Cartão inválido', ['Cartões virtuais e adicionais precisam de um cartão titular']);
+      }
+      return this.storage.createCreditCard({ ...creditCardData, cardType: 'main' });
     }
 
-    // Check if credit card has associated transactions
-    const transactions = await this.storage.getTransactions();
-    const hasTransactions = transactions.some(t => t.creditCardId === id);
-    
-    if (hasTransactions) {
-      throw new Error('Cannot delete credit card with associated transactions');
+    const mainCard = await this.mainCardFor(creditCardData.parentCardId);
+    return this.storage.createCreditCard({
+      ...creditCardData,
+      ...sharedSettingsOf(mainCard),
+      cardType: creditCardData.cardType === 'additional' ? 'additional' : 'virtual',
+      parentCardId: mainCard.id
+    });
+  }
+
+  /**
+   * Update a card as PUT /api/credit-cards/:id does
+   * Changes to the limit, billing days and charges of a main card reach its virtual and additional cards;
+   * on those cards the same settings always follow the main card. A card cannot move to another main card
+   */
+  async changeCreditCard(id: string, creditCardData: Partial<InsertCreditCard>): Promise<CreditCard> {
+    const existing = await this.storage.getCreditCardById(id);
+    if (!existing) {
+      throw new NotFoundError('Credit card');
+    }
+    if (creditCardData.parentCardId !== undefined && (creditCardData.parentCardId || null) !== existing.parentCardId) {
+      throw new ValidationError('Cartão inválido', ['O cartão titular de um cartão virtual ou adicional não pode ser trocado']);
+    }
+    if (creditCardData.cardType && (creditCardData.cardType === 'main') !== !existing.parentCardId) {
+      throw new ValidationError('Cartão inválido', ['Um cartão titular não pode virar virtual ou adicional, nem o contrário']);
+    }
+
+    if (existing.parentCardId) {
+      const mainCard = await this.mainCardFor(existing.parentCardId);
+      const updated = await this.storage.updateCreditCard(id, { ...creditCardData, ...sharedSettingsOf(mainCard) });
+      return updated!;
+    }
+
+    const updated = await this.storage.updateCreditCard(id, creditCardData);
+    const [, ...children] = await cardFamilyOf(this.storage, updated!);
+    for (const child of children) {
+      await this.storage.updateCreditCard(child.id, sharedSettingsOf(updated!));
+    }
+    return updated!;
+  }
+
+  /**
+   * Delete a card as DELETE /api/credit-cards/:id does; a main card goes only after its virtual and additional cards,
+   * and a card with transactions or invoices is kept
+   */
+  async removeCreditCard(id: string): Promise<void> {
+    const existing = await this.storage.getCreditCardById(id);
+    if (!existing) {
+      throw new NotFoundError('Credit card');
+    }
+
+    const [, ...children] = await cardFamilyOf(this.storage, existing);
+    if (children.length > 0) {
+      throw new ConflictError(`Exclua antes os cartões virtuais e adicionais deste cartão (${children.map(c => c.name).join(', ')})`);
+    }
+
+    // Compras e faturas fazem parte do histórico: um cartão usado não pode sumir com elas
+    const transactions = (await this.storage.getTransactions()).filter(t => t.creditCardId === id);
+    const invoices = await this.storage.getCreditCardInvoicesByCard(id);
+    if (transactions.length > 0 || invoices.length > 0) {
+      throw new ConflictError(
+        `O cartão "${existing.name}" tem ${transactions.length} transação(ões) e ${invoices.length} fatura(s) e não pode ser excluído`
+      );
     }
 
-    return await this.storage.deleteCreditCard(id);
+    await this.storage.deleteCreditCard(id);
+  }
+
+  /**
+   * Best purchase day, float of a purchase made today and the limit each upcoming invoice gives back
+   * once paid (the last closed one while still unpaid, then the next ones up to 12 months ahead)
+   * Virtual and additional cards get the calendar of their main card, whose invoice bills them
+   */
+  async getPurchaseCalendar(creditCardId: string): Promise<PurchaseCalendar> {
+    const requestedCard = await this.storage.getCreditCardById(creditCardId);
+    if (!requestedCard) {
+      throw new NotFoundError('Credit card');
+    }
+    const card = await billingCardOf(this.storage, requestedCard);
+
+    const today = this.clock.now();
+    const todayKey = toDateKey(today);
+    const closingDate = invoiceClosingDateFor(today, card.closingDay);
+    const dueDate = dueDateFor(closingDate, card.dueDay);
+
+    // Melhor dia: o seguinte ao fechamento (hoje, se a fatura fechou ontem)
+    const afterLastClosing = addDays(lastClosedDate(today, card.closingDay), 1);
+    const nextBestPurchaseDate = toDateKey(afterLastClosing) === todayKey ? afterLastClosing : addDays(closingDate, 1);
+    const bestDueDate = dueDateFor(invoiceClosingDateFor(nextBestPurchaseDate, card.closingDay), card.dueDay);
+
+    const familyIds = new Set((await cardFamilyOf(this.storage, card)).map(c => c.id));
+    const charges = (await this.storage.getTransactions()).filter(t => familyIds.has(t.creditCardId ?? ''));
+    const releaseLimit = toDateKey(addMonths(today, LIMIT_RELEASE_MONTHS));
+
+    const limitReleases: LimitRelease[] = [];
+    let releaseClosing = lastClosedDate(today, card.closingDay);
+    for (;;) {
+      const closingKey = toDateKey(releaseClosing);
+      const releaseDueKey = toDateKey(dueDateFor(releaseClosing, card.dueDay));
+      if (releaseDueKey > releaseLimit) break;
+
+      const period = billingPeriod(releaseClosing, card.closingDay);
+      const periodCharges = charges.filter(t => t.date >= period.startDate && t.date <= period.endDate);
+      const invoice = await this.storage.getCreditCardInvoiceByCardAndDate(card.id, closingKey);
+      // Fechada: vale o total congelado; aberta ou futura: as compras do período
+      const billed = invoice && invoiceStatusOf(invoice) !== 'open'
+        ? Money.from(invoice.totalAmount)
+        : Money.sum(periodCharges.map(cardChargeOf));
+      const amount = billed.minus(invoice?.paidAmount).minus(invoice?.carriedAmount);
+
+      const isPastClosing = closingKey < todayKey;
+      if (!isPastClosing || (releaseDueKey >= todayKey && amount.isPositive())) {
+        limitReleases.push({
+          closingDate: closingKey,
+          dueDate: releaseDueKey,
+          amount,
+          installments: periodCharges.filter(t => (t.installments ?? 1) > 1).length
+        });
+      }
+      releaseClosing = invoiceClosingDateFor(addDays(releaseClosing, 1), card.closingDay);
+    }
+
+    return {
+      creditCardId: card.id,
+      closingDay: card.closingDay,
+      dueDay: card.dueDay,
+      bestPurchaseDay: nextBestPurchaseDate.getDate(),
+      nextBestPurchaseDate: toDateKey(nextBestPurchaseDate),
+      floatDaysToday: differenceInCalendarDays(dueDate, today),
+      bestFloatDays: differenceInCalendarDays(bestDueDate, nextBestPurchaseDate),
+      closingDate: toDateKey(closingDate),
+      dueDate: toDateKey(dueDate),
+      limitReleases
+    };
   }
 
   /**
@@ -141,22 +326,24 @@ export class CreditCardService {
       endDate.toISOString().split('T')[0]
     );
 
+    // Cartões virtuais e adicionais entram na fatura do titular
+    const familyIds = new Set(await this.familyIdsOf(creditCardId));
     const transactions = allTransactions.filter(t => 
-      t.creditCardId === creditCardId && t.type === 'expense'
+      familyIds.has(t.creditCardId ?? '') && (t.type === 'expense' || t.type === 'refund')
     );
 
-    // Calculate total amount (apenas transações reais)
-    const transactionsTotal = transactions.reduce((sum, t) => sum + parseFloat(t.amount), 0);
+    // Calculate total amount (apenas transações reais, estornos abatendo)
+    const transactionsTotal = Money.sum(transactions.map(t => cardChargeOf(t)));
     const totalAmount = transactionsTotal;
 
     console.log(`📊 Fatura calculada:`);
-    console.log(`   - Transações: R$ ${transactionsTotal.toFixed(2)}`);
-    console.log(`   - Total: R$ ${totalAmount.toFixed(2)}`);
+    console.log(`   - Transações: R$ ${transactionsTotal}`);
+    console.log(`   - Total: R$ ${totalAmount}`);
 
     return {
       transactions,
       subscriptions: [], // Não incluir assinaturas automaticamente
-      totalAmount,
+      totalAmount: totalAmount.toNumber(),
       creditCard
     };
   }
@@ -171,15 +358,17 @@ export class CreditCardService {
       throw new Error('Credit card not found');
     }
 
-    if (paymentAmount <= 0) {
+    const payment = Money.from(paymentAmount);
+    if (!payment.isPositive()) {
       throw new Error('Payment amount must be positive');
     }
 
     // 🔥 NOVA LÓGICA: Verificar se o pagamento é válido para a fatura atual
     const smartLimit = await this.calculateSmartLimit(creditCardId);
+    const invoiceAmount = Money.from(smartLimit.currentInvoiceAmount);
     
-    if (paymentAmount > smartLimit.remainingBalance) {
-      throw new Error(`Valor do pagamento (R$ ${paymentAmount}) não pode exceder o saldo restante da fatura (R$ ${smartLimit.remainingBalance})`);
+    if (payment.greaterThan(smartLimit.remainingBalance)) {
+      throw new Error(`Valor do pagamento (R$ ${payment}) não pode exceder o saldo restante da fatura (R$ ${Money.from(smartLimit.remainingBalance)})`);
     }
 
     // Processar o pagamento na fatura
@@ -204,14 +393,14 @@ export class CreditCardService {
     }
 
     const currentInvoice = creditCardInvoices.find(inv => {
-      const invoiceDate = new Date(inv.dueDate);
+      const invoiceDate = new Date(inv.closingDate);
       return invoiceDate >= invoiceStartDate && invoiceDate <= invoiceEndDate;
     });
 
     if (currentInvoice) {
       // Atualizar fatura existente
-      const newPaidAmount = parseFloat(currentInvoice.paidAmount || '0') + paymentAmount;
-      const newStatus = newPaidAmount >= smartLimit.currentInvoiceAmount ? 'paid' : 'partial';
+      const newPaidAmount = Money.from(currentInvoice.paidAmount).plus(payment);
+      const newStatus = newPaidAmount.greaterThanOrEqual(invoiceAmount) ? 'paid' : 'partial';
       
       await this.storage.updateCreditCardInvoice(currentInvoice.id, {
         paidAmount: newPaidAmount.toString(),
@@ -221,10 +410,10 @@ export class CreditCardService {
       // Criar nova fatura se não existir
       await this.storage.createCreditCardInvoice({
         creditCardId,
-        dueDate: invoiceEndDate.toISOString(),
-        totalAmount: smartLimit.currentInvoiceAmount.toString(),
-        paidAmount: paymentAmount.toString(),
-        status: paymentAmount >= smartLimit.currentInvoiceAmount ? 'paid' : 'partial'
+        closingDate: toDateKey(invoiceEndDate),
+        totalAmount: invoiceAmount.toString(),
+        paidAmount: payment.toString(),
+        status: payment.greaterThanOrEqual(invoiceAmount) ? 'paid' : 'partial'
       });
     }
 
@@ -250,56 +439,59 @@ export class CreditCardService {
     usagePercentage: number;
   }> {
     const creditCards = await this.getAllCreditCards();
+    // Cartões virtuais e adicionais usam o limite do titular: somá-los contaria o mesmo limite duas vezes
+    const childCardIds = new Set((await this.storage.getAllCreditCards()).filter(c => c.parentCardId).map(c => c.id));
     
     const activeCards = creditCards.filter(cc => cc.getIsActive()).length;
     const blockedCards = creditCards.filter(cc => cc.getIsBlocked()).length;
     
     // 🔥 NOVA LÓGICA: Calcular limites usando sistema inteligente
-    let totalLimit = 0;
-    let totalUsed = 0;
-    let totalAvailable = 0;
+    let totalLimit = Money.ZERO;
+    let totalUsed = Money.ZERO;
+    let totalAvailable = Money.ZERO;
 
     for (const card of creditCards) {
+      if (childCardIds.has(card.getId() ?? '')) continue;
       try {
         const cardId = card.getId();
         if (cardId) {
           const smartLimit = await this.calculateSmartLimit(cardId);
-          totalLimit += card.getLimit();
-          totalUsed += smartLimit.currentUsed;
-          totalAvailable += smartLimit.availableLimit;
+          totalLimit = totalLimit.plus(card.getLimit());
+          totalUsed = totalUsed.plus(smartLimit.currentUsed);
+          totalAvailable = totalAvailable.plus(smartLimit.availableLimit);
         } else {
           // Fallback se não tiver ID
-          totalLimit += card.getLimit();
-          totalUsed += card.getCurrentUsed();
-          totalAvailable += card.getAvailableLimit();
+          totalLimit = totalLimit.plus(card.getLimit());
+          totalUsed = totalUsed.plus(card.getCurrentUsed());
+          totalAvailable = totalAvailable.plus(card.getAvailableLimit());
         }
       } catch (error) {
         console.error(`Erro ao calcular limite inteligente para cartão ${card.getId()}:`, error);
         // Fallback para valores antigos
-        totalLimit += card.getLimit();
-        totalUsed += card.getCurrentUsed();
-        totalAvailable += card.getAvailableLimit();
+        totalLimit = totalLimit.plus(card.getLimit());
+        totalUsed = totalUsed.plus(card.getCurrentUsed());
+        totalAvailable = totalAvailable.plus(card.getAvailableLimit());
       }
     }
 
-    const usagePercentage = totalLimit > 0 ? (totalUsed / totalLimit) * 100 : 0;
+    const usagePercentage = totalLimit.isPositive() ? (totalUsed.cents / totalLimit.cents) * 100 : 0;
 
     return {
       totalCards: creditCards.length,
       activeCards,
       blockedCards,
-      totalLimit,
-      totalUsed,
-      totalAvailable,
+      totalLimit: totalLimit.toNumber(),
+      totalUsed: totalUsed.toNumber(),
+      totalAvailable: totalAvailable.toNumber(),
       usagePercentage
     };
   }
 
   /**
    * Validate if a purchase can be made with a credit card
-   * 🔥 ATUALIZADO: Agora usa a lógica de limite inteligente
+   * 🔥 ATUALIZADO: Agora usa a lógica de limite inteligente da fatura que recebe a compra feita em `date`
    */
-  async validatePurchase(creditCardId: string, amount: number): Promise<{
+  async validatePurchase(creditCardId: string, amount: number, date: Date = this.clock.now()): Promise<{
     canPurchase: boolean;
     reason?: string;
     availableLimit?: number;
@@ -317,10 +509,16 @@ export class CreditCardService {
       return { canPurchase: false, reason: 'Credit card is inactive' };
     }
 
+    // Cartão virtual ou adicional: o bloqueio do titular vale para ele também (o limite é o do titular)
+    const mainCard = await this.storage.getCreditCardById(creditCardId).then(card => card && billingCardOf(this.storage, card));
+    if (mainCard && mainCard.id !== creditCardId && mainCard.isBlocked) {
+      return { canPurchase: false, reason: 'Main credit card is blocked' };
+    }
+
     // 🔥 NOVA LÓGICA: Usar limite inteligente baseado na fatura atual
-    const smartLimit = await this.calculateSmartLimit(creditCardId);
+    const smartLimit = await this.calculateSmartLimit(creditCardId, date);
     
-    if (smartLimit.invoiceStatus === 'closed') {
+    if (smartLimit.invoiceStatus !== 'open') {
       return { 
         canPurchase: false, 
         reason: 'Fatura fechada. Limite disponível após pagamento da fatura atual.',
@@ -328,7 +526,7 @@ export class CreditCardService {
       };
     }
 
-    if (amount > smartLimit.availableLimit) {
+    if (Money.from(amount).greaterThan(smartLimit.availableLimit)) {
       return { 
         canPurchase: false, 
         reason: 'Valor excede o limite disponível para a fatura atual',
@@ -354,14 +552,34 @@ export class CreditCardService {
     return smartLimit.currentUsed;
   }
 
+  /**
+   * Recalculate the smart limit of every card and return the refreshed cards
+   * A card whose calculation fails is returned with its previous values
+   */
+  async refreshSmartLimits(): Promise<CreditCard[]> {
+    const creditCards = await this.storage.getCreditCards();
+
+    for (const card of creditCards) {
+      try {
+        await this.calculateSmartLimit(card.id);
+      } catch (error) {
+        console.error(`Erro ao calcular limite inteligente para cartão ${card.id}:`, error);
+      }
+    }
+
+    return this.storage.getCreditCards();
+  }
+
   /**
    * 🔥 NOVA FUNÇÃO: Calcular limite inteligente baseado no saldo da fatura atual
    * Esta função implementa a lógica de limite = saldo restante da fatura
+   * Cartões virtuais e adicionais devolvem o limite do titular, que inclui as compras de todos eles
+   * A fatura considerada é a que recebe as compras de `today` (por padrão, o dia do relógio)
    */
-  async calculateSmartLimit(creditCardId: string): Promise<{
+  async calculateSmartLimit(creditCardId: string, today: Date = this.clock.now()): Promise<{
     availableLimit: number;
     currentUsed: number;
-    invoiceStatus: 'open' | 'closed' | 'paid';
+    invoiceStatus: InvoiceStatus;
     currentInvoiceAmount: number;
     paidAmount: number;
     remainingBalance: number;
@@ -371,115 +589,52 @@ export class CreditCardService {
       throw new Error('Credit card not found');
     }
 
-    const today = new Date();
-    const currentMonth = today.getMonth();
-    const currentYear = today.getFullYear();
-    const closingDay = creditCard.getClosingDay();
-
-    // 🔥 CORREÇÃO: Calcular período da fatura atual corretamente
-    let invoiceStartDate: Date;
-    let invoiceEndDate: Date;
-
-    if (closingDay === 1) {
-      // Se fecha no dia 1, fatura atual é do mês atual
-      invoiceStartDate = new Date(currentYear, currentMonth, 1);
-      invoiceEndDate = new Date(currentYear, currentMonth + 1, 0);
-    } else {
-      // 🔥 LÓGICA CORRIGIDA: Para cartões que fecham no dia X
-      // A fatura atual é sempre a que está em aberto no momento
-      if (today.getDate() >= closingDay) {
-        // Se hoje é dia X ou depois, fatura atual vai do dia X do mês atual até dia X-1 do próximo mês
-        invoiceStartDate = new Date(currentYear, currentMonth, closingDay);
-        invoiceEndDate = new Date(currentYear, currentMonth + 1, closingDay - 1);
-      } else {
-        // Se hoje é antes do dia X, fatura atual vai do dia X do mês anterior até dia X-1 do mês atual
-        invoiceStartDate = new Date(currentYear, currentMonth - 1, closingDay);
-        invoiceEndDate = new Date(currentYear, currentMonth, closingDay - 1);
-      }
+    const storedCard = await this.storage.getCreditCardById(creditCardId);
+    if (storedCard?.parentCardId) {
+      return this.calculateSmartLimit(storedCard.parentCardId, today);
     }
 
-    // 🔥 CORREÇÃO ADICIONAL: Se a fatura calculada for futura, usar a fatura anterior
-    if (invoiceStartDate > today) {
-      // A fatura calculada é futura, usar a fatura anterior
-      if (closingDay === 1) {
-        invoiceStartDate = new Date(currentYear, currentMonth - 1, 1);
-        invoiceEndDate = new Date(currentYear, currentMonth, 0);
-      } else {
-        invoiceStartDate = new Date(currentYear, currentMonth - 1, closingDay);
-        invoiceEndDate = new Date(currentYear, currentMonth, closingDay - 1);
-      }
-      console.log(`🔄 Fatura calculada era futura, usando fatura anterior`);
-    }
+    // Fatura que recebe as compras feitas em `today`, com o mesmo ciclo usado pelas faturas
+    const closingDay = creditCard.getClosingDay();
+    const closingDate = toDateKey(invoiceClosingDateFor(today, closingDay));
+    const period = billingPeriod(parseISO(closingDate), closingDay);
 
     console.log(`🔥 Calculando fatura para ${creditCard.getName()}:`);
-    console.log(`   - Data atual: ${today.toISOString().split('T')[0]}`);
-    console.log(`   - Dia de fechamento: ${closingDay}`);
-    console.log(`   - Período da fatura: ${invoiceStartDate.toISOString().split('T')[0]} até ${invoiceEndDate.toISOString().split('T')[0]}`);
-    console.log(`   - Data atual é: ${today.getDate()}, dia de fechamento é: ${closingDay}`);
-    console.log(`   - Fatura fechou? ${today > invoiceEndDate ? 'SIM' : 'NÃO'}`);
-
-    // Verificar se a fatura atual já fechou
-    const hasClosed = today > invoiceEndDate;
-    
-    // Buscar faturas do cartão
-    const invoices = await this.storage.getCreditCardInvoices();
-    const creditCardInvoices = invoices.filter(inv => inv.creditCardId === creditCardId);
+    console.log(`   - Data: ${toDateKey(today)}`);
+    console.log(`   - Período da fatura: ${period.startDate} até ${period.endDate}`);
 
-    // Buscar fatura atual (em aberto ou fechada)
-    const currentInvoice = creditCardInvoices.find(inv => {
-      const invoiceDate = new Date(inv.dueDate);
-      return invoiceDate >= invoiceStartDate && invoiceDate <= invoiceEndDate;
-    });
+    const currentInvoice = (await this.storage.getCreditCardInvoicesByCard(creditCardId))
+      .find(inv => inv.closingDate === closingDate);
 
-    // Buscar transações da fatura atual
+    // Buscar transações da fatura atual (do cartão e dos seus cartões virtuais e adicionais)
+    const familyIds = new Set(await this.familyIdsOf(creditCardId));
     const transactions = await this.storage.getTransactions();
-    const currentInvoiceTransactions = transactions.filter(t => {
-      const transactionDate = new Date(t.date);
-      const isCorrectCard = t.creditCardId === creditCardId;
-      const isExpense = t.type === 'expense';
-      const isInPeriod = transactionDate >= invoiceStartDate && transactionDate <= invoiceEndDate;
-      
-      console.log(`🔍 Transação ${t.description}: cartão=${isCorrectCard}, período=${isInPeriod} (${t.date} >= ${invoiceStartDate.toISOString().split('T')[0]} && ${t.date} <= ${invoiceEndDate.toISOString().split('T')[0]})`);
-      
-      return isCorrectCard && isExpense && isInPeriod;
-    });
+    const currentInvoiceTransactions = transactions.filter(t =>
+      familyIds.has(t.creditCardId ?? '')
+      && (t.type === 'expense' || t.type === 'refund')
+      && t.date >= period.startDate && t.date <= period.endDate
+    );
 
     // Calcular valores da fatura atual (apenas transações reais)
-    const transactionsTotal = currentInvoiceTransactions.reduce((sum, t) => 
-      sum + parseFloat(t.amount), 0
-    );
+    const transactionsTotal = Money.sum(currentInvoiceTransactions.map(t => cardChargeOf(t)));
     
     const currentInvoiceAmount = transactionsTotal;
-    const paidAmount = currentInvoice ? parseFloat(currentInvoice.paidAmount || '0') : 0;
-    const remainingBalance = currentInvoiceAmount - paidAmount;
+    const paidAmount = Money.from(currentInvoice?.paidAmount);
+    const remainingBalance = currentInvoiceAmount.minus(paidAmount);
 
     console.log(`📊 Valores da fatura:`);
-    console.log(`   - Transações: R$ ${transactionsTotal.toFixed(2)}`);
-    console.log(`   - Total da fatura: R$ ${currentInvoiceAmount.toFixed(2)}`);
-    console.log(`   - Valor pago: R$ ${paidAmount.toFixed(2)}`);
-    console.log(`   - Saldo restante: R$ ${remainingBalance.toFixed(2)}`);
+    console.log(`   - Transações: R$ ${transactionsTotal}`);
+    console.log(`   - Total da fatura: R$ ${currentInvoiceAmount}`);
+    console.log(`   - Valor pago: R$ ${paidAmount}`);
+    console.log(`   - Saldo restante: R$ ${remainingBalance}`);
 
     // 🔥 LÓGICA DO LIMITE INTELIGENTE:
-    let availableLimit: number;
-    let invoiceStatus: 'open' | 'closed' | 'paid';
-
-    if (hasClosed) {
-      // Fatura fechou mas ainda não foi paga
-      if (remainingBalance > 0) {
-        invoiceStatus = 'closed';
-        // Limite = 0 (fatura fechada, não pode usar mais)
-        availableLimit = 0;
-      } else {
-        invoiceStatus = 'paid';
-        // Fatura foi paga, limite = próximo ciclo
-        availableLimit = creditCard.getLimit();
-      }
-    } else {
-      // Fatura ainda está em aberto
-      invoiceStatus = 'open';
-      // Limite = Saldo restante da fatura atual
-      availableLimit = Math.max(0, creditCard.getLimit() - remainingBalance);
-    }
+    const cardLimit = Money.from(creditCard.getLimit());
+    const invoiceStatus = currentInvoice ? invoiceStatusOf(currentInvoice) : 'open';
+    // Fatura fechada e não quitada: não aceita mais compras; aberta: o limite é o que sobra dela
+    const availableLimit = invoiceStatus === 'open'
+      ? Money.max(Money.ZERO, cardLimit.minus(remainingBalance))
+      : invoiceStatus === 'paid' ? cardLimit : Money.ZERO;
 
     // Atualizar o cartão com o limite usado atual
     const currentUsed = remainingBalance;
@@ -490,19 +645,37 @@ export class CreditCardService {
 
     console.log(`🔥 Limite Inteligente calculado para ${creditCard.getName()}:`);
     console.log(`   - Status da fatura: ${invoiceStatus}`);
-    console.log(`   - Valor da fatura: R$ ${currentInvoiceAmount.toFixed(2)}`);
-    console.log(`   - Valor pago: R$ ${paidAmount.toFixed(2)}`);
-    console.log(`   - Saldo restante: R$ ${remainingBalance.toFixed(2)}`);
-    console.log(`   - Limite disponível: R$ ${availableLimit.toFixed(2)}`);
-    console.log(`   - Limite total: R$ ${creditCard.getLimit().toFixed(2)}`);
+    console.log(`   - Valor da fatura: R$ ${currentInvoiceAmount}`);
+    console.log(`   - Valor pago: R$ ${paidAmount}`);
+    console.log(`   - Saldo restante: R$ ${remainingBalance}`);
+    console.log(`   - Limite disponível: R$ ${availableLimit}`);
+    console.log(`   - Limite total: R$ ${cardLimit}`);
 
     return {
-      availableLimit,
-      currentUsed,
+      availableLimit: availableLimit.toNumber(),
+      currentUsed: currentUsed.toNumber(),
       invoiceStatus,
-      currentInvoiceAmount,
-      paidAmount,
-      remainingBalance
+      currentInvoiceAmount: currentInvoiceAmount.toNumber(),
+      paidAmount: paidAmount.toNumber(),
+      remainingBalance: remainingBalance.toNumber()
     };
   }
-}
\ No newline at end of file
+
+  // Titular que recebe um cartão virtual ou adicional: precisa existir e não ser ele mesmo um cartão filho
+  private async mainCardFor(parentCardId: string): Promise<CreditCard> {
+    const mainCard = await this.storage.getCreditCardById(parentCardId);
+    if (!mainCard) {
+      throw new NotFoundError('Parent credit card');
+    }
+    if (mainCard.parentCardId) {
+      throw new ValidationError('Cartão inválido', ['O cartão titular não pode ser um cartão virtual ou adicional']);
+    }
+    return mainCard;
+  }
+
+  private async familyIdsOf(creditCardId: string): Promise<string[]> {
+    const card = await this.storage.getCreditCardById(creditCardId);
+    if (!card) return [creditCardId];
+    return (await cardFamilyOf(this.storage, await billingCardOf(this.storage, card))).map(c => c.id);
+  }
+}
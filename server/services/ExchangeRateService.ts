@@ -0,0 +1,126 @@
+import { IStorage } from '../storage';
+import { Money } from '@shared/money';
+import type { ExchangeRate, InsertExchangeRate } from '@shared/schema';
+import { NotFoundError, ValidationError } from '../middleware/ErrorHandlingMiddleware';
+import { parseCsvAmount, parseCsvDate, parseCsvRecords } from '../utils/CsvParser';
+
+export interface ExchangeRateImportResult {
+  imported: number;
+  skipped: number;
+  /** Lines that could not be read, numbered from 1 */
+  errors: Array<{ line: number; message: string }>;
+}
+
+/**
+ * Amount in reais of `originalAmount` units of a foreign currency at `rate` (BRL per unit), to the centavo
+ */
+export function convertToBrl(originalAmount: string | Money, rate: string | number): Money {
+  return Money.from(originalAmount).times(Number(rate));
+}
+
+// Data do boletim PTAX: DDMMAAAA no arquivo do Banco Central, DD/MM/AAAA quando editado à mão
+function parsePtaxDate(value: string): string | undefined {
+  const digits = value.trim();
+  if (/^\d{8}$/.test(digits)) {
+    return parseCsvDate(`${digits.slice(0, 2)}/${digits.slice(2, 4)}/${digits.slice(4)}`, 'DD/MM/YYYY');
+  }
+  return parseCsvDate(digits, 'DD/MM/YYYY');
+}
+
+/**
+ * Exchange Rate Service
+ * Keeps the user's table of exchange rates used to convert international card purchases into reais
+ */
+export class ExchangeRateService {
+  constructor(private storage: IStorage) {}
+
+  async getRates(currency?: string): Promise<ExchangeRate[]> {
+    return this.storage.getExchangeRates(currency?.toUpperCase());
+  }
+
+  /**
+   * Save the rate of a currency on a date, replacing the one already stored for that day
+   */
+  async saveRate(rate: InsertExchangeRate): Promise<ExchangeRate> {
+    return this.storage.saveExchangeRate(rate);
+  }
+
+  async deleteRate(id: string): Promise<void> {
+    const deleted = await this.storage.deleteExchangeRate(id);
+    if (!deleted) {
+      throw new NotFoundError('Exchange rate');
+    }
+  }
+
+  /**
+   * Rate in effect on `date`: the one of that day or, on weekends and holidays, the last one before it
+   */
+  async findRate(currency: string, date: string): Promise<ExchangeRate | undefined> {
+    return this.storage.getExchangeRateOn(currency.toUpperCase(), date);
+  }
+
+  /**
+   * Same as findRate, but a missing rate is a ValidationError
+   */
+  async rateFor(currency: string, date: string): Promise<ExchangeRate> {
+    const rate = await this.findRate(currency, date);
+    if (!rate) {
+      throw new ValidationError('Cotação não encontrada', [
+        `Cadastre a cotação de ${currency.toUpperCase()} para ${date} ou informe a cotação da compra`
+      ]);
+    }
+    return rate;
+  }
+
+  /**
+   * Import PTAX closing rates from a CSV downloaded from the Banco Central
+   * Lines follow the BCB layout (date;code;type;currency;buy;sell;...), whose sell rate is the one used
+   * for card purchases, or the short form date;currency;rate. Unreadable lines are reported, not fatal
+   */
+  async importPtaxCsv(content: string): Promise<ExchangeRateImportResult> {
+    const result: ExchangeRateImportResult = { imported: 0, skipped: 0, errors: [] };
+
+    const records = parseCsvRecords(content, ';');
+    for (let index = 0; index < records.length; index++) {
+      const line = index + 1;
+      const fields = records[index].map(field => field.trim());
+      const [dateField, currencyField, rateField] = fields.length >= 6
+        ? [fields[0], fields[3], fields[5]]
+        : [fields[0], fields[1], fields[2]];
+
+      const date = parsePtaxDate(dateField ?? '');
+      if (!date) {
+        // Cabeçalho (ex.: "Data;Cod Moeda;...") não é erro
+        if (index === 0) {
+          result.skipped++;
+        } else {
+          result.errors.push({ line, message: `Data inválida: "${dateField ?? ''}"` });
+        }
+        continue;
+      }
+
+      const currency = (currencyField ?? '').toUpperCase();
+      if (!/^[A-Z]{3}$/.test(currency)) {
+        result.errors.push({ line, message: `Moeda inválida: "${currencyField ?? ''}"` });
+        continue;
+      }
+      if (currency === 'BRL') {
+        result.skipped++;
+        continue;
+      }
+
+      const rate = parseCsvAmount(rateField ?? '', ',');
+      if (!rate || !(Number(rate) > 0)) {
+        result.errors.push({ line, message: `Cotação inválida: "${rateField ?? ''}"` });
+        continue;
+      }
+
+      await this.storage.saveExchangeRate({ currency, date, rate: Number(rate).toFixed(6), source: 'ptax' });
+      result.imported++;
+    }
+
+    console.log(`PTAX importada: ${result.imported} cotações, ${result.skipped} ignoradas, ${result.errors.length} com erro`);
+
+    return result;
+  }
+}
@@ -0,0 +1,402 @@
+import ExcelJS from 'exceljs';
+import { IStorage } from '../storage';
+import { Money } from '@shared/money';
+import type { Category, CreditCard, Transaction } from '@shared/schema';
+import { ValidationError } from '../middleware/ErrorHandlingMiddleware';
+import { FinancialSummaryService, type MonthlySummary } from './FinancialSummaryService';
+import { payrollKindLabels } from './IncomeSourceService';
+
+export type ExportFormat = 'csv' | 'xlsx';
+export type ExportLocale = 'pt-BR' | 'en-US';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** pt-BR: "1234,56" and dd/mm/yyyy; en-US: "1234.56" and ISO dates */
+  locale: ExportLocale;
+}
+
+/**
+ * Same filters as the transaction history screen; `year` restricts to one calendar year
+ * and, in XLSX, splits the workbook into one sheet per month
+ */
+export interface TransactionExportFilters {
+  period?: string;
+  type?: string;
+  categoryId?: string;
+  search?: string;
+  year?: number;
+}
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+type CellValue = string | number | Date | null;
+
+interface Sheet {
+  name: string;
+  columns: { header: string; width: number; money?: boolean; date?: boolean }[];
+  rows: CellValue[][];
+  /** Linhas de total, em negrito no XLSX e omitidas no CSV */
+  totals?: CellValue[][];
+}
+
+const MONTH_NAMES = [
+  'Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
+  'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro',
+];
+
+const TRANSACTION_TYPE_LABELS: Record<string, string> = {
+  income: 'Receita',
+  expense: 'Despesa',
+  refund: 'Estorno',
+};
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  dinheiro: 'Dinheiro',
+  debito: 'Débito',
+  credito: 'Crédito',
+  pix: 'PIX',
+  transferencia: 'Transferência',
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const TRANSACTION_COLUMNS: Sheet['columns'] = [
+  { header: 'Data', width: 12, date: true },
+  { header: 'Descrição', width: 40 },
+  { header: 'Tipo', width: 10 },
+  { header: 'Categoria', width: 22 },
+  { header: 'Forma de pagamento', width: 20 },
+  { header: 'Cartão', width: 20 },
+  { header: 'Parcela', width: 9 },
+  { header: 'Valor', width: 14, money: true },
+];
+
+// Datas locais em AAAA-MM-DD, comparáveis diretamente com transaction.date
+function toIsoDate(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Date range of a history period filter, accepting both spellings used by the client filters
+ */
+export function getPeriodRange(period: string, now: Date = new Date()): { start: string; end?: string } | null {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  const day = now.getDate();
+
+  switch (period) {
+    case 'all':
+      return null;
+    case 'last7':
+      return { start: toIsoDate(new Date(year, month, day - 7)) };
+    case 'last30':
+    case 'last-30-days':
+      return { start: toIsoDate(new Date(year, month, day - 30)) };
+    case 'last3months':
+    case 'last-3-months':
+      return { start: toIsoDate(new Date(year, month - 3, day)) };
+    case 'currentMonth':
+    case 'current-month':
+      return { start: toIsoDate(new Date(year, month, 1)), end: toIsoDate(new Date(year, month + 1, 0)) };
+    case 'lastMonth':
+    case 'last-month':
+      return { start: toIsoDate(new Date(year, month - 1, 1)), end: toIsoDate(new Date(year, month, 0)) };
+    case 'this-year':
+      return { start: `${year}-01-01`, end: `${year}-12-31` };
+    default:
+      throw new ValidationError('Período inválido', [`Período desconhecido: ${period}`]);
+  }
+}
+
+// Evita que descrições vindas de extratos sejam interpretadas como fórmula pelo Excel
+function sanitizeText(value: string): string {
+  return /^[=+\-@]/.test(value) ? `'${value}` : value;
+}
+
+// "2024-03-15" como data UTC, para o Excel não deslocar o dia pelo fuso do servidor
+function toExcelDate(isoDate: string): Date {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Export Service
+ * Generates CSV and XLSX spreadsheets of transactions and monthly summaries
+ */
+export class ExportService {
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Export the filtered transaction list, newest first
+   */
+  async exportTransactions(filters: TransactionExportFilters, options: ExportOptions): Promise<ExportFile> {
+    const transactions = this.filterTransactions(await this.storage.getTransactions(), filters);
+    const [categories, creditCards] = await Promise.all([
+      this.storage.getCategories(),
+      this.storage.getAllCreditCards(),
+    ]);
+
+    const toSheet = (name: string, items: Transaction[]) => this.buildTransactionSheet(name, items, categories, creditCards);
+
+    let sheets: Sheet[];
+    if (filters.year && options.format === 'xlsx') {
+      sheets = MONTH_NAMES.map((monthName, index) => {
+        const prefix = `${filters.year}-${(index + 1).toString().padStart(2, '0')}`;
+        return toSheet(monthName, transactions.filter(t => t.date.startsWith(prefix)));
+      });
+    } else {
+      sheets = [toSheet('Transações', transactions)];
+    }
+
+    const suffix = filters.year ? `${filters.year}` : toIsoDate(new Date());
+    return this.render(`transacoes-${suffix}`, sheets, options);
+  }
+
+  /**
+   * Export the financial summary of one month, or of a whole year with one sheet per month
+   */
+  async exportSummary(year: number, month: number | undefined, options: ExportOptions): Promise<ExportFile> {
+    const summaryService = new FinancialSummaryService(this.storage);
+    const categories = await this.storage.getCategories();
+
+    if (month) {
+      const summary = await summaryService.calculateMonthlySummary(year, month);
+      const sheet = this.buildSummarySheet(`${MONTH_NAMES[month - 1]} ${year}`, summary, categories);
+      return this.render(`resumo-${year}-${month.toString().padStart(2, '0')}`, [sheet], options);
+    }
+
+    const summaries: MonthlySummary[] = [];
+    for (let m = 1; m <= 12; m++) {
+      summaries.push(await summaryService.calculateMonthlySummary(year, m));
+    }
+
+    const overview: Sheet = {
+      name: `Resumo ${year}`,
+      columns: [
+        { header: 'Mês', width: 14 },
+        { header: 'Receitas', width: 14, money: true },
+        { header: 'Despesas', width: 14, money: true },
+        { header: 'Saldo', width: 14, money: true },
+      ],
+      rows: summaries.map(s => [
+        MONTH_NAMES[s.month - 1],
+        s.totalIncome.toNumber(),
+        s.totalExpenses.toNumber(),
+        s.currentBalance.toNumber(),
+      ]),
+      totals: [[
+        'Total',
+        Money.sum(summaries.map(s => s.totalIncome)).toNumber(),
+        Money.sum(summaries.map(s => s.totalExpenses)).toNumber(),
+        Money.sum(summaries.map(s => s.currentBalance)).toNumber(),
+      ]],
+    };
+
+    // No CSV só cabe uma tabela: o resumo anual
+    const sheets = options.format === 'xlsx'
+      ? [overview, ...summaries.map(s => this.buildSummarySheet(MONTH_NAMES[s.month - 1], s, categories))]
+      : [overview];
+
+    return this.render(`resumo-${year}`, sheets, options);
+  }
+
+  private filterTransactions(transactions: Transaction[], filters: TransactionExportFilters): Transaction[] {
+    const range = getPeriodRange(filters.period || 'all');
+    const search = filters.search?.trim().toLowerCase();
+
+    return transactions
+      .filter(transaction => {
+        if (range && (transaction.date < range.start || (range.end && transaction.date > range.end))) {
+          return false;
+        }
+        if (filters.year && !transaction.date.startsWith(`${filters.year}-`)) {
+          return false;
+        }
+        if (filters.type && filters.type !== 'all' && transaction.type !== filters.type) {
+          return false;
+        }
+        if (filters.categoryId && filters.categoryId !== 'all' && transaction.categoryId !== filters.categoryId) {
+          return false;
+        }
+        if (search && !transaction.description.toLowerCase().includes(search)) {
+          return false;
+        }
+        return true;
+      })
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  private buildTransactionSheet(
+    name: string,
+    transactions: Transaction[],
+    categories: Category[],
+    creditCards: CreditCard[]
+  ): Sheet {
+    const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+    const cardNames = new Map(creditCards.map(c => [c.id, c.name]));
+
+    const rows = transactions.map(t => {
+      const amount = Money.from(t.amount);
+      return [
+        t.date,
+        sanitizeText(t.description),
+        TRANSACTION_TYPE_LABELS[t.type] || 'Despesa',
+        t.categoryId ? categoryNames.get(t.categoryId) || 'Categoria não encontrada' : 'Sem categoria',
+        PAYMENT_METHOD_LABELS[t.paymentMethod || ''] || '',
+        t.creditCardId ? cardNames.get(t.creditCardId) || '' : '',
+        t.installments && t.installments > 1 ? `${t.installmentNumber}/${t.installments}` : '',
+        // Despesas negativas, para a coluna poder ser somada direto na planilha
+        (t.type === 'expense' ? amount.negate() : amount).toNumber(),
+      ];
+    });
+
+    const income = Money.sum(transactions.filter(t => t.type === 'income').map(t => t.amount));
+    // Estornos abatem as despesas
+    const expenses = Money.sum(transactions.filter(t => t.type === 'expense').map(t => t.amount))
+      .minus(Money.sum(transactions.filter(t => t.type === 'refund').map(t => t.amount)));
+
+    return {
+      name,
+      columns: TRANSACTION_COLUMNS,
+      rows,
+      totals: [
+        [null, 'Total de receitas', null, null, null, null, null, income.toNumber()],
+        [null, 'Total de despesas', null, null, null, null, null, expenses.negate().toNumber()],
+        [null, 'Saldo', null, null, null, null, null, income.minus(expenses).toNumber()],
+      ],
+    };
+  }
+
+  private buildSummarySheet(name: string, summary: MonthlySummary, categories: Category[]): Sheet {
+    const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+
+    const categoryRows: CellValue[][] = Object.entries(summary.expensesByCategory)
+      .sort(([, a], [, b]) => b.toNumber() - a.toNumber())
+      .map(([categoryId, amount]) => [
+        'Despesas por categoria',
+        categoryNames.get(categoryId) || 'Categoria não encontrada',
+        amount.toNumber(),
+      ]);
+
+    // Detalhamento de cada pagamento das fontes de renda no mês, dos proventos ao líquido depositado
+    const paycheckRows: CellValue[][] = summary.paychecks.flatMap(paycheck => {
+      const label = paycheck.kind === 'salary' ? paycheck.name : `${paycheck.name} - ${payrollKindLabels[paycheck.kind]}`;
+      const section = `${label} (${paycheck.payDate.split('-').reverse().join('/')})`;
+      const allowances: CellValue[][] = paycheck.kind === 'salary' ? [
+        [section, 'Desconto de vale-transporte', paycheck.transportDiscount.negate().toNumber()],
+        [section, `Vale-transporte (${paycheck.workingDays} dias úteis)`, paycheck.transportAllowance.toNumber()],
+        [section, `Vale-refeição (${paycheck.workingDays} dias úteis)`, paycheck.mealAllowance.toNumber()],
+      ] : [];
+      return [
+        ...paycheck.earnings.map((e): CellValue[] => [section, e.exempt ? `${e.description} (isento)` : e.description, e.amount.toNumber()]),
+        [section, 'INSS', paycheck.inss.negate().toNumber()],
+        [section, 'IRRF', paycheck.irrf.negate().toNumber()],
+        ...paycheck.deductions.map((d): CellValue[] => [section, d.description, d.amount.negate().toNumber()]),
+        ...allowances,
+        [section, 'Líquido depositado', paycheck.net.toNumber()],
+        [section, 'FGTS depositado pelo empregador', paycheck.fgts.toNumber()],
+      ];
+    });
+
+    return {
+      name,
+      columns: [
+        { header: 'Seção', width: 24 },
+        { header: 'Item', width: 32 },
+        { header: 'Valor', width: 14, money: true },
+      ],
+      rows: [
+        ['Receitas', 'Transações (salários pelo líquido)', summary.transactionIncome.toNumber()],
+        ['Despesas', 'Transações', summary.transactionExpenses.toNumber()],
+        ['Despesas', `Assinaturas (${summary.activeSubscriptions} ativas)`, summary.subscriptionExpenses.toNumber()],
+        ['Totais', 'Receitas', summary.totalIncome.toNumber()],
+        ['Totais', 'Despesas', summary.totalExpenses.toNumber()],
+        ['Totais', 'Saldo', summary.currentBalance.toNumber()],
+        ...categoryRows,
+        ...paycheckRows,
+      ],
+    };
+  }
+
+  private async render(basename: string, sheets: Sheet[], options: ExportOptions): Promise<ExportFile> {
+    const content = options.format === 'xlsx'
+      ? await this.renderXlsx(sheets, options.locale)
+      : this.renderCsv(sheets[0], options.locale);
+
+    return {
+      filename: `${basename}.${options.format}`,
+      contentType: CONTENT_TYPES[options.format],
+      content,
+    };
+  }
+
+  private renderCsv(sheet: Sheet, locale: ExportLocale): Buffer {
+    // Excel em português usa ";" como separador, já que a vírgula é o separador decimal
+    const delimiter = locale === 'pt-BR' ? ';' : ',';
+
+    const formatCell = (value: CellValue, column: Sheet['columns'][number]): string => {
+      if (value === null) return '';
+      if (typeof value === 'number') {
+        const text = value.toFixed(2);
+        return locale === 'pt-BR' ? text.replace('.', ',') : text;
+      }
+      const text = value instanceof Date ? value.toISOString().slice(0, 10) : value;
+      if (column.date && locale === 'pt-BR') {
+        const [year, month, day] = text.split('-');
+        return `${day}/${month}/${year}`;
+      }
+      return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = [
+      sheet.columns.map(column => column.header).join(delimiter),
+      ...sheet.rows.map(row => row.map((value, index) => formatCell(value, sheet.columns[index])).join(delimiter)),
+    ];
+
+    // BOM para o Excel reconhecer UTF-8 (acentos)
+    return Buffer.from('\uFEFF' + lines.join('\r\n') + '\r\n', 'utf-8');
+  }
+
+  private async renderXlsx(sheets: Sheet[], locale: ExportLocale): Promise<Buffer> {
+    const moneyFormat = locale === 'pt-BR' ? '"R$" #,##0.00;[Red]-"R$" #,##0.00' : '#,##0.00;[Red]-#,##0.00';
+    const dateFormat = locale === 'pt-BR' ? 'dd/mm/yyyy' : 'yyyy-mm-dd';
+
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+
+    for (const sheet of sheets) {
+      const worksheet = workbook.addWorksheet(sheet.name);
+      worksheet.columns = sheet.columns.map(column => ({
+        header: column.header,
+        width: column.width,
+        style: column.money ? { numFmt: moneyFormat } : column.date ? { numFmt: dateFormat } : {},
+      }));
+      worksheet.getRow(1).font = { bold: true };
+      worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+      sheet.rows.forEach(row => {
+        worksheet.addRow(row.map((value, index) =>
+          sheet.columns[index].date && typeof value === 'string' ? toExcelDate(value) : value
+        ));
+      });
+
+      if (sheet.totals) {
+        worksheet.addRow([]);
+        sheet.totals.forEach(row => {
+          worksheet.addRow(row).font = { bold: true };
+        });
+      }
+    }
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+}
@@ -0,0 +1,150 @@
+import { IStorage } from '../storage';
+import { Money } from '@shared/money';
+import type { PayrollKind, Transaction } from '@shared/schema';
+import type { Payroll } from '../utils/Payroll';
+import { cardChargeOf } from './InvoiceService';
+import { payrollKindOf, payrollOf } from './IncomeSourceService';
+
+/** A payment of an income source received in the month (paycheck, 13º installment or vacation pay), with its payroll breakdown */
+export interface MonthlyPaycheck extends Payroll {
+  kind: PayrollKind;
+  incomeSourceId: string;
+  name: string;
+  transactionId: string;
+}
+
+export interface MonthlySummary {
+  month: number;
+  year: number;
+  totalIncome: Money;
+  totalExpenses: Money;
+  currentBalance: Money;
+  expensesByCategory: Record<string, Money>;
+  paychecks: MonthlyPaycheck[];
+  transactionIncome: Money;
+  transactionExpenses: Money;
+  subscriptionExpenses: Money;
+  activeSubscriptions: number;
+  transactions: Transaction[];
+}
+
+/**
+ * Financial Summary Service
+ * Builds the monthly income/expense breakdown shown on the dashboard and used by the spreadsheet exports
+ */
+export class FinancialSummaryService {
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Calculate the summary of a month (1-12)
+   * Credit card purchases count in the invoice month and card subscriptions follow the card's billing cycle
+   */
+  async calculateMonthlySummary(year: number, month: number): Promise<MonthlySummary> {
+    const startDate = `${year}-${month.toString().padStart(2, '0')}-01`;
+    const endDate = new Date(year, month, 0).toISOString().split('T')[0];
+
+    const transactions = await this.storage.getTransactionsByDateRange(startDate, endDate);
+
+    const transactionIncome = Money.sum(
+      transactions.filter(t => t.type === 'income').map(t => t.amount)
+    );
+    const totalIncome = transactionIncome;
+
+    // Contracheques já estão nas receitas pelo líquido; o detalhamento (bruto, INSS, IRRF...) vem da fonte de renda
+    const incomeSources = await this.storage.getIncomeSources();
+    const vacations = await this.storage.getVacations();
+    const paychecks: MonthlyPaycheck[] = transactions.flatMap(t => {
+      const source = t.type === 'income' && incomeSources.find(s => s.id === t.incomeSourceId);
+      const payroll = source && payrollOf(source, vacations.filter(v => v.incomeSourceId === source.id), t);
+      if (!source || !payroll) return [];
+      return [{
+        ...payroll, kind: payrollKindOf(t), payDate: t.date, incomeSourceId: source.id, name: source.name, transactionId: t.id,
+      }];
+    });
+
+    // Despesas por categoria (incluindo cartões e assinaturas), preenchidas ao longo do cálculo
+    const expensesByCategory: Record<string, Money> = {};
+    const addCategoryExpense = (categoryId: string, amount: string | Money) => {
+      expensesByCategory[categoryId] = (expensesByCategory[categoryId] || Money.ZERO).plus(amount);
+    };
+
+    // Transações que NÃO são de cartão de crédito são contabilizadas normalmente
+    const nonCreditTransactions = transactions.filter(t => t.type === 'expense' && !t.creditCardId);
+    let transactionExpenses = Money.sum(nonCreditTransactions.map(t => t.amount));
+    nonCreditTransactions.forEach(t => {
+      if (t.categoryId) {
+        addCategoryExpense(t.categoryId, t.amount);
+      }
+    });
+
+    // Transações de cartão entram no mês da fatura, conforme o dia de fechamento; estornos abatem a despesa.
+    // Cartões desativados entram também: as compras feitas antes continuam sendo cobradas
+    const creditCards = await this.storage.getAllCreditCards();
+    for (const card of creditCards) {
+      const relevantCardTransactions = transactions.filter(t => {
+        if ((t.type !== 'expense' && t.type !== 'refund') || t.creditCardId !== card.id) return false;
+
+        const transactionDate = new Date(t.date);
+        const closingDay = card.closingDay || 1;
+
+        let invoiceMonth = transactionDate.getMonth() + 1;
+        let invoiceYear = transactionDate.getFullYear();
+
+        // Compra após o fechamento vai para a fatura seguinte
+        if (transactionDate.getDate() > closingDay) {
+          invoiceMonth += 1;
+        }
+
+        if (invoiceMonth > 12) {
+          invoiceMonth = 1;
+          invoiceYear += 1;
+        }
+
+        return invoiceMonth === month && invoiceYear === year;
+      });
+
+      const cardExpenses = Money.sum(relevantCardTransactions.map(t => cardChargeOf(t)));
+      transactionExpenses = transactionExpenses.plus(cardExpenses);
+
+      relevantCardTransactions.forEach(t => {
+        if (t.categoryId) {
+          addCategoryExpense(t.categoryId, cardChargeOf(t));
+        }
+      });
+    }
+
+    // Assinaturas ativas: todas entram no total e na categoria, pagas no cartão ou não
+    const subscriptions = await this.storage.getActiveSubscriptions();
+    let subscriptionExpenses = Money.ZERO;
+
+    for (const sub of subscriptions) {
+      const paidWithCard = sub.paymentMethod === 'credito' && sub.creditCardId;
+      if (paidWithCard && !creditCards.some(c => c.id === sub.creditCardId)) {
+        // Cartão removido ou inativo: a assinatura não aparece em nenhuma fatura
+        continue;
+      }
+
+      subscriptionExpenses = subscriptionExpenses.plus(sub.amount);
+      if (sub.categoryId) {
+        addCategoryExpense(sub.categoryId, sub.amount);
+      }
+    }
+
+    const totalExpenses = transactionExpenses.plus(subscriptionExpenses);
+
+    return {
+      month,
+      year,
+      totalIncome,
+      totalExpenses,
+      currentBalance: totalIncome.minus(totalExpenses),
+      expensesByCategory,
+      paychecks,
+      transactionIncome,
+      transactionExpenses,
+      subscriptionExpenses,
+      activeSubscriptions: subscriptions.length,
+      transactions,
+    };
+  }
+}
@@ -0,0 +1,498 @@
+import { addDays, addMonths, parseISO } from 'date-fns';
+import { IStorage } from '../storage';
+import type {
+  IncomeSource, InsertIncomeSource, InsertTransaction, InsertVacation, PayrollKind, Transaction, Vacation,
+} from '@shared/schema';
+import { Money } from '@shared/money';
+import { NotFoundError, ValidationError } from '../middleware/ErrorHandlingMiddleware';
+import { toDateKey } from '../utils/BillingCycle';
+import { calculateWorkingDays, nthWorkingDay, workingDayOnOrBefore } from '../utils/BusinessCalendar';
+import { Clock, systemClock } from '../utils/Clock';
+import {
+  DAYS_PER_MONTH, Payroll, calculatePayroll, calculateThirteenth, calculateVacationPay, fgtsYield,
+} from '../utils/Payroll';
+import { RECURRENCE_HORIZON_MONTHS, TransactionService } from './TransactionService';
+import { activeAccountOf } from './AccountService';
+import { assertUnlocked } from './ReconciliationService';
+
+export interface VacationView extends Vacation {
+  pay: Payroll;
+}
+
+export interface IncomeSourceView extends IncomeSource {
+  /** First paycheck from today on (or from the start date, for a job that has not started yet) */
+  nextPaycheck: Payroll;
+  vacations: VacationView[];
+}
+
+/** A payment an income source schedules: the month's salary, a 13º installment or a vacation pay */
+export interface PayrollEntry {
+  kind: PayrollKind;
+  payroll: Payroll;
+}
+
+export interface FgtsMonth {
+  month: string; // yyyy-MM
+  deposit: Money;
+  yield: Money;
+  balance: Money;
+}
+
+export interface FgtsProjection {
+  annualYield: string;
+  /** Estimated balance before the first projected month */
+  startingBalance: Money;
+  months: FgtsMonth[];
+}
+
+export const payrollKindLabels: Record<PayrollKind, string> = {
+  salary: 'Salário',
+  thirteenth_first: '13º salário (1ª parcela)',
+  thirteenth_second: '13º salário (2ª parcela)',
+  vacation: 'Férias',
+};
+
+// Lançamentos anteriores aos tipos de pagamento são todos contracheques
+export function payrollKindOf(transaction: Pick<Transaction, 'payrollKind'>): PayrollKind {
+  return (transaction.payrollKind as PayrollKind | null) ?? 'salary';
+}
+
+/**
+ * Days of rest of the vacations that fall in a month (1-12), at most the 30 days of a commercial month
+ */
+export function vacationDaysIn(vacations: Vacation[], year: number, month: number): number {
+  const first = toDateKey(new Date(year, month - 1, 1));
+  const last = toDateKey(new Date(year, month, 0));
+  let days = 0;
+  for (const vacation of vacations) {
+    for (let day = 0; day < vacation.days; day++) {
+      const date = toDateKey(addDays(parseISO(vacation.startDate), day));
+      if (date >= first && date <= last) days++;
+    }
+  }
+  return Math.min(DAYS_PER_MONTH, days);
+}
+
+/**
+ * Paycheck of an income source in a month (1-12), paid on its Nth working day for the work of the month before:
+ * the vacation days of that month were paid in advance with the vacation pay and are left out
+ */
+export function paycheckOf(source: IncomeSource, year: number, month: number, vacations: Vacation[] = []): Payroll {
+  const payDate = toDateKey(nthWorkingDay(year, month, source.payBusinessDay));
+  const [workYear, workMonth] = month === 1 ? [year - 1, 12] : [year, month - 1];
+  const salaryDays = DAYS_PER_MONTH - vacationDaysIn(vacations, workYear, workMonth);
+  return calculatePayroll(source, payDate, calculateWorkingDays(year, month), salaryDays);
+}
+
+/**
+ * Twelfths (avos) of the 13º of a year: the months worked in it, the first one counting only
+ * when at least 15 of its days were worked
+ */
+export function thirteenthMonthsOf(source: IncomeSource, year: number): number {
+  const start = parseISO(source.startDate);
+  if (start.getFullYear() < year) return 12;
+  if (start.getFullYear() > year) return 0;
+
+  const daysWorked = new Date(year, start.getMonth() + 1, 0).getDate() - start.getDate() + 1;
+  return 12 - start.getMonth() - (daysWorked >= 15 ? 0 : 1);
+}
+
+/**
+ * 13º installments of a year: the first up to November 30 and the second up to December 20, both moved back
+ * to a working day. Someone hired after the first payday receives the whole 13º in the second installment
+ */
+export function thirteenthOf(source: IncomeSource, year: number): PayrollEntry[] {
+  const months = thirteenthMonthsOf(source, year);
+  if (months === 0) return [];
+
+  const firstPayDate = toDateKey(workingDayOnOrBefore(new Date(year, 10, 30)));
+  const secondPayDate = toDateKey(workingDayOnOrBefore(new Date(year, 11, 20)));
+  const withAdvance = firstPayDate >= source.startDate;
+  const [first, second] = calculateThirteenth(source, months, firstPayDate, secondPayDate, withAdvance);
+  return withAdvance
+    ? [{ kind: 'thirteenth_first', payroll: first }, { kind: 'thirteenth_second', payroll: second }]
+    : [{ kind: 'thirteenth_second', payroll: second }];
+}
+
+/**
+ * Vacation pay, due 2 days before the vacation starts (on the working day before, when that is not one)
+ */
+export function vacationPayOf(source: IncomeSource, vacation: Pick<Vacation, 'startDate' | 'days' | 'soldDays'>): Payroll {
+  const payDate = toDateKey(workingDayOnOrBefore(addDays(parseISO(vacation.startDate), -2)));
+  return calculateVacationPay(source, vacation.days, vacation.soldDays, payDate);
+}
+
+/**
+ * Payroll breakdown of a payment of an income source (undefined when the transaction is not one of its entries)
+ */
+export function payrollOf(source: IncomeSource, vacations: Vacation[], transaction: Transaction): Payroll | undefined {
+  const kind = payrollKindOf(transaction);
+  const [year, month] = (transaction.occurrenceDate ?? transaction.date).split('-').map(Number);
+  switch (kind) {
+    case 'salary':
+      return paycheckOf(source, year, month, vacations);
+    case 'vacation': {
+      const vacation = vacations.find(v => v.transactionId === transaction.id);
+      return vacation && vacationPayOf(source, vacation);
+    }
+    default:
+      return thirteenthOf(source, year).find(entry => entry.kind === kind)?.payroll;
+  }
+}
+
+/**
+ * Net amount an income source deposits in the month of `date` (undefined once the source was deleted)
+ */
+export async function paycheckAmountOn(storage: IStorage, incomeSourceId: string, date: string): Promise<string | undefined> {
+  const source = await storage.getIncomeSourceById(incomeSourceId);
+  if (!source) return undefined;
+
+  const [year, month] = date.split('-').map(Number);
+  return paycheckOf(source, year, month, await storage.getVacations(incomeSourceId)).net.toString();
+}
+
+// Primeiro dia de pagamento na data ou depois dela
+function firstPaycheckFrom(source: IncomeSource, date: string, vacations: Vacation[] = []): Payroll {
+  const [year, month] = date.split('-').map(Number);
+  const paycheck = paycheckOf(source, year, month, vacations);
+  return paycheck.payDate >= date
+    ? paycheck
+    : paycheckOf(source, month === 12 ? year + 1 : year, month === 12 ? 1 : month + 1, vacations);
+}
+
+// Pagamentos previstos pelas regras num mês, do contracheque às férias (base dos depósitos do FGTS)
+function paymentsIn(source: IncomeSource, vacations: Vacation[], year: number, month: number): Payroll[] {
+  const monthKey = `${year}-${String(month).padStart(2, '0')}`;
+  const firstPayDate = firstPaycheckFrom(source, source.startDate).payDate;
+  const paycheck = paycheckOf(source, year, month, vacations);
+
+  return [
+    ...(paycheck.payDate >= firstPayDate ? [paycheck] : []),
+    ...thirteenthOf(source, year).map(entry => entry.payroll),
+    ...vacations.map(vacation => vacationPayOf(source, vacation)),
+  ].filter(payroll => payroll.payDate.startsWith(monthKey));
+}
+
+/**
+ * Income Source Service
+ * Keeps the salaries of the user. Each source owns a recurring income series on the business_day rule whose
+ * occurrences are the monthly paychecks, deposited net; changing a source re-plans the paychecks not yet paid
+ * Besides the paychecks a source schedules the 13º installments (within the same horizon as the recurring
+ * series) and the vacation pay of each vacation, and projects the FGTS balance the employer's deposits build up
+ */
+export class IncomeSourceService {
+  private transactionService: TransactionService;
+
+  constructor(private storage: IStorage, private clock: Clock = systemClock) {
+    this.transactionService = new TransactionService(storage, clock);
+  }
+
+  async getIncomeSources(): Promise<IncomeSourceView[]> {
+    const today = toDateKey(this.clock.now());
+    const sources = await this.storage.getIncomeSources();
+    const vacations = await this.storage.getVacations();
+    return sources.map(source => {
+      const ownVacations = vacations.filter(v => v.incomeSourceId === source.id);
+      return {
+        ...source,
+        nextPaycheck: firstPaycheckFrom(source, source.startDate > today ? source.startDate : today, ownVacations),
+        vacations: ownVacations.map(vacation => ({ ...vacation, pay: vacationPayOf(source, vacation) })),
+      };
+    });
+  }
+
+  /**
+   * Payroll breakdown of the paycheck of a month (1-12)
+   */
+  async getPaycheck(id: string, year: number, month: number): Promise<Payroll> {
+    return paycheckOf(await this.getIncomeSource(id), year, month, await this.storage.getVacations(id));
+  }
+
+  /**
+   * Both installments of the 13º of a year (only the second for someone hired after the first payday)
+   */
+  async getThirteenth(id: string, year: number): Promise<PayrollEntry[]> {
+    const source = await this.getIncomeSource(id);
+    const entries = thirteenthOf(source, year);
+    if (entries.length === 0) {
+      throw new ValidationError('13º salário indisponível', [`Não há meses trabalhados em ${year}`]);
+    }
+    return entries;
+  }
+
+  /**
+   * FGTS balance month by month, from the current month on: the informed balance grows with the yield at the
+   * source's yearly rate and the 8% the employer deposits over each payment the rules schedule
+   */
+  async getFgtsProjection(id: string, months: number): Promise<FgtsProjection> {
+    const source = await this.getIncomeSource(id);
+    const vacations = await this.storage.getVacations(id);
+    const balanceDate = source.fgtsBalanceDate ?? source.startDate;
+    const annualYield = Number(source.fgtsAnnualYield);
+    const current = this.clock.now();
+    const firstMonth = toDateKey(current).slice(0, 7);
+    const lastMonth = toDateKey(addMonths(current, months - 1)).slice(0, 7);
+
+    let balance = Money.from(source.fgtsBalance);
+    let startingBalance = balance;
+    const projection: FgtsMonth[] = [];
+
+    // Meses antes do atual só acumulam o saldo estimado até hoje
+    for (let month = parseISO(`${balanceDate.slice(0, 7)}-01`); toDateKey(month).slice(0, 7) <= lastMonth; month = addMonths(month, 1)) {
+      const key = toDateKey(month).slice(0, 7);
+      const monthYield = key === balanceDate.slice(0, 7) ? Money.ZERO : fgtsYield(balance, annualYield);
+      const deposit = Money.sum(paymentsIn(source, vacations, month.getFullYear(), month.getMonth() + 1)
+        .filter(payroll => payroll.payDate > balanceDate)
+        .map(payroll => payroll.fgts));
+
+      balance = balance.plus(monthYield).plus(deposit);
+      if (key < firstMonth) {
+        startingBalance = balance;
+      } else {
+        projection.push({ month: key, deposit, yield: monthYield, balance });
+      }
+    }
+
+    return { annualYield: source.fgtsAnnualYield, startingBalance, months: projection };
+  }
+
+  /**
+   * Create the source and its paycheck series, starting on the first payday on or after the start date,
+   * along with the 13º installments from the start date up to the recurrence horizon
+   */
+  async createIncomeSource(sourceData: InsertIncomeSource): Promise<IncomeSource> {
+    if (sourceData.accountId) {
+      await activeAccountOf(this.storage, sourceData.accountId);
+    }
+    const source = await this.storage.createIncomeSource({
+      ...sourceData,
+      categoryId: sourceData.categoryId ?? await this.salaryCategoryId(),
+    });
+
+    const paycheck = firstPaycheckFrom(source, source.startDate);
+    await this.transactionService.recordTransaction({
+      ...this.entryFields(source, 'salary'),
+      amount: paycheck.net.toString(),
+      date: paycheck.payDate,
+      type: 'income',
+      paymentMethod: 'transferencia',
+      isRecurring: true,
+      recurrenceFrequency: 'business_day',
+      recurrenceDay: source.payBusinessDay,
+    });
+    await this.scheduleThirteenth(source, source.startDate, this.horizonFrom(this.clock.now()));
+    return source;
+  }
+
+  /**
+   * Update the source; payments already made keep their amounts, the next paycheck and the following
+   * ones are generated again with the new salary, deductions and payday, and the upcoming 13º
+   * installments and vacation pays are recalculated
+   */
+  async updateIncomeSource(id: string, sourceData: Partial<InsertIncomeSource>): Promise<IncomeSource> {
+    const existing = await this.getIncomeSource(id);
+    if (sourceData.accountId && sourceData.accountId !== existing.accountId) {
+      await activeAccountOf(this.storage, sourceData.accountId);
+    }
+    // A data de início só vale para o primeiro contracheque, gerado na criação
+    const { startDate: _startDate, ...changes } = sourceData;
+    const source = (await this.storage.updateIncomeSource(id, changes))!;
+
+    await this.replanPaychecks(source);
+    await this.replanExtras(source);
+    return source;
+  }
+
+  /**
+   * Delete the source: its series ends today and the payments not made yet are removed,
+   * the ones already received stay in the history
+   */
+  async deleteIncomeSource(id: string): Promise<void> {
+    await this.getIncomeSource(id);
+    const today = toDateKey(this.clock.now());
+    const upcoming = await this.upcomingEntries(id);
+    await assertUnlocked(this.storage, upcoming);
+
+    const roots = (await this.storage.getTransactions())
+      .filter(t => t.incomeSourceId === id && t.isRecurring && !t.parentTransactionId && t.date <= today);
+    for (const root of roots) {
+      if (!root.recurrenceEndDate || root.recurrenceEndDate > today) {
+        await this.storage.updateTransaction(root.id, { recurrenceEndDate: today, recurrenceCount: null });
+      }
+    }
+    for (const entry of upcoming) {
+      await this.storage.deleteTransaction(entry.id);
+    }
+
+    await this.storage.deleteIncomeSource(id);
+  }
+
+  /**
+   * Schedule a vacation: its pay is recorded as an income of the source, and the paychecks for the
+   * months it covers are re-planned without the days already paid in advance
+   */
+  async createVacation(incomeSourceId: string, vacationData: Omit<InsertVacation, 'incomeSourceId' | 'transactionId'>): Promise<Vacation> {
+    const source = await this.getIncomeSource(incomeSourceId);
+    const soldDays = vacationData.soldDays ?? 0;
+    if (vacationData.days + soldDays > DAYS_PER_MONTH) {
+      throw new ValidationError('Férias inválidas', ['Dias de férias e vendidos somam mais de 30']);
+    }
+    if (vacationData.startDate < source.startDate) {
+      throw new ValidationError('Férias inválidas', ['As férias começam antes da data de início da fonte de renda']);
+    }
+    const vacations = await this.storage.getVacations(incomeSourceId);
+    const lastDay = toDateKey(addDays(parseISO(vacationData.startDate), vacationData.days - 1));
+    const overlapping = vacations.find(v =>
+      v.startDate <= lastDay && toDateKey(addDays(parseISO(v.startDate), v.days - 1)) >= vacationData.startDate);
+    if (overlapping) {
+      throw new ValidationError('Férias inválidas', [`Já há férias a partir de ${overlapping.startDate} nesse período`]);
+    }
+
+    const pay = vacationPayOf(source, { ...vacationData, soldDays });
+    const transaction = await this.transactionService.recordTransaction({
+      ...this.entryFields(source, 'vacation'),
+      amount: pay.net.toString(),
+      date: pay.payDate,
+      type: 'income',
+      paymentMethod: 'transferencia',
+    });
+    const vacation = await this.storage.createVacation({
+      ...vacationData,
+      soldDays,
+      incomeSourceId,
+      transactionId: transaction.id,
+    });
+
+    await this.replanPaychecks(source);
+    return vacation;
+  }
+
+  /**
+   * Cancel a vacation; its pay is removed while it has not been paid yet
+   */
+  async deleteVacation(id: string): Promise<void> {
+    const vacation = await this.storage.getVacationById(id);
+    if (!vacation) {
+      throw new NotFoundError('Vacation');
+    }
+    const today = toDateKey(this.clock.now());
+    const pay = vacation.transactionId ? await this.storage.getTransactionById(vacation.transactionId) : undefined;
+    if (pay && pay.date > today) {
+      await this.transactionService.deleteTransaction(pay.id);
+    }
+
+    await this.storage.deleteVacation(id);
+    const source = await this.storage.getIncomeSourceById(vacation.incomeSourceId);
+    if (source) {
+      await this.replanPaychecks(source);
+    }
+  }
+
+  /**
+   * Record the 13º installments that come within the recurrence horizon of `today`
+   * Returns how many transactions were created
+   */
+  async scheduleThirteenthInstallments(today: Date): Promise<number> {
+    let created = 0;
+    for (const source of await this.storage.getIncomeSources()) {
+      created += await this.scheduleThirteenth(source, toDateKey(today), this.horizonFrom(today));
+    }
+
+    if (created > 0) {
+      console.log(`Parcelas do 13º agendadas: ${created}`);
+    }
+    return created;
+  }
+
+  private async getIncomeSource(id: string): Promise<IncomeSource> {
+    const source = await this.storage.getIncomeSourceById(id);
+    if (!source) {
+      throw new NotFoundError('Income source');
+    }
+    return source;
+  }
+
+  // Lançamentos da fonte com data depois de hoje, do mais próximo ao mais distante
+  private async upcomingEntries(id: string): Promise<Transaction[]> {
+    const today = toDateKey(this.clock.now());
+    return (await this.storage.getTransactions())
+      .filter(t => t.incomeSourceId === id && t.date > today)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Gera de novo a série a partir do próximo contracheque, com o valor de cada mês
+  private async replanPaychecks(source: IncomeSource): Promise<void> {
+    const [next] = (await this.upcomingEntries(source.id)).filter(t => payrollKindOf(t) === 'salary');
+    if (!next) return;
+
+    const [year, month] = (next.occurrenceDate ?? next.date).split('-').map(Number);
+    const paycheck = paycheckOf(source, year, month, await this.storage.getVacations(source.id));
+    await this.transactionService.updateFollowingOccurrences(next.id, {
+      ...this.entryFields(source, 'salary'),
+      amount: paycheck.net.toString(),
+      date: paycheck.payDate,
+      recurrenceDay: source.payBusinessDay,
+    });
+  }
+
+  // Recalcula as parcelas do 13º e as férias ainda não pagas
+  private async replanExtras(source: IncomeSource): Promise<void> {
+    const vacations = await this.storage.getVacations(source.id);
+    const extras = (await this.upcomingEntries(source.id)).filter(t => payrollKindOf(t) !== 'salary');
+
+    for (const entry of extras) {
+      const payroll = payrollOf(source, vacations, entry);
+      if (!payroll) continue;
+      await this.transactionService.updateTransaction(entry.id, {
+        ...this.entryFields(source, payrollKindOf(entry)),
+        amount: payroll.net.toString(),
+        date: payroll.payDate,
+      });
+    }
+  }
+
+  // Lança as parcelas do 13º com data entre `from` e `until` que ainda não existem (uma de cada por ano)
+  private async scheduleThirteenth(source: IncomeSource, from: string, until: string): Promise<number> {
+    const recorded = (await this.storage.getTransactions())
+      .filter(t => t.incomeSourceId === source.id && payrollKindOf(t).startsWith('thirteenth'));
+    let created = 0;
+
+    for (let year = Number(from.slice(0, 4)); year <= Number(until.slice(0, 4)); year++) {
+      for (const { kind, payroll } of thirteenthOf(source, year)) {
+        if (payroll.payDate < from || payroll.payDate > until) continue;
+        if (recorded.some(t => t.payrollKind === kind && t.date.startsWith(`${year}-`))) continue;
+
+        await this.transactionService.recordTransaction({
+          ...this.entryFields(source, kind),
+          amount: payroll.net.toString(),
+          date: payroll.payDate,
+          type: 'income',
+          paymentMethod: 'transferencia',
+        });
+        created++;
+      }
+    }
+    return created;
+  }
+
+  private entryFields(source: IncomeSource, kind: PayrollKind): Pick<InsertTransaction,
+    'description' | 'accountId' | 'categoryId' | 'incomeSourceId' | 'payrollKind'> {
+    return {
+      description: kind === 'salary' ? source.name : `${source.name} - ${payrollKindLabels[kind]}`,
+      accountId: source.accountId,
+      categoryId: source.categoryId,
+      incomeSourceId: source.id,
+      payrollKind: kind,
+    };
+  }
+
+  private horizonFrom(today: Date): string {
+    return toDateKey(addMonths(today, RECURRENCE_HORIZON_MONTHS));
+  }
+
+  // Categoria padrão de receita "Salário", quando o usuário ainda a tem
+  private async salaryCategoryId(): Promise<string | null> {
+    const categories = await this.storage.getCategories();
+    return categories.find(c => c.type === 'income' && c.name === 'Salário')?.id ?? null;
+  }
+}
@@ -0,0 +1,734 @@
+import { IStorage } from '../storage';
+import { Money } from '@shared/money';
+import type {
+  CreditCard,
+  CreditCardInvoice,
+  CreditCardType,
+  CreditCardInvoiceItem,
+  InsertCreditCardInvoice,
+  InvoiceItemKind,
+  InvoiceStatus,
+  Transaction
+} from '@shared/schema';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/ErrorHandlingMiddleware';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Clock, systemClock } from '../utils/Clock';
+import {
+  billingPeriod,
+  dueDateFor,
+  invoiceClosingDateFor,
+  isClosingDate,
+  lastClosedDate,
+  toDateKey
+} from '../utils/BillingCycle';
+import {
+  RevolvingCharges,
+  calculateRevolvingCharges,
+  minimumPaymentOf,
+  revolvingRatesOf
+} from '../utils/RevolvingCredit';
+import { InstallmentPlan, calculateInstallmentPlan } from '../utils/InvoiceInstallments';
+import { convertToBrl } from './ExchangeRateService';
+import { annualFeeInstallmentOn, isAnnualFeeWaived } from '../utils/AnnualFee';
+import { activeAccountOf } from './AccountService';
+import { assertUnlocked } from './ReconciliationService';
+
+/** A line of an invoice: stored snapshot/adjustment items, or a preview of the purchases while it is open */
+export type InvoiceLine = Omit<CreditCardInvoiceItem, 'userId' | 'invoiceId' | 'createdAt'>;
+
+export interface InvoiceStatement extends CreditCardInvoice {
+  status: InvoiceStatus;
+  /** Payment due date: the card's dueDay after closingDate */
+  dueDate: string;
+  items: InvoiceLine[];
+  minimumPayment: Money;
+  /** What goes to the next invoice when only the minimum is paid on the due date (null when nothing is owed) */
+  minimumPaymentCost: RevolvingCharges | null;
+  /** Spending of the main card and each virtual/additional card on this invoice (charges without a card go to the main one) */
+  cardBreakdown: CardSpending[];
+}
+
+export interface CardSpending {
+  creditCardId: string;
+  name: string;
+  cardType: CreditCardType;
+  holderName: string | null;
+  total: Money;
+}
+
+export interface InvoicePaymentOptions {
+  /** Account the payment comes out of; null/omitted when paid from outside the tracked accounts */
+  accountId?: string | null;
+  /** Defaults to today */
+  date?: string;
+}
+
+export interface InstallmentPlanPreview extends InstallmentPlan {
+  invoiceId: string;
+  /** Invoices that bill each installment, starting with the card's open invoice */
+  schedule: Array<{ installmentNumber: number; closingDate: string; dueDate: string; amount: Money }>;
+}
+
+// Transições permitidas; pagamentos na mesma situação (ex.: parcial → parcial) não mudam o status
+const TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  open: ['closed', 'partial', 'paid'],
+  closed: ['partial', 'paid', 'overdue'],
+  partial: ['paid', 'overdue'],
+  overdue: ['paid'],
+  paid: [],
+};
+
+/**
+ * Lifecycle status of a stored invoice ("pending" is how open invoices were saved before the lifecycle existed)
+ */
+export function invoiceStatusOf(invoice: Pick<CreditCardInvoice, 'status'>): InvoiceStatus {
+  return invoice.status === 'pending' ? 'open' : invoice.status as InvoiceStatus;
+}
+
+// Saldo ainda devido nesta fatura: o que foi para o rotativo passa a ser cobrado na seguinte
+function remainingOf(invoice: CreditCardInvoice): Money {
+  return Money.from(invoice.totalAmount).minus(invoice.paidAmount).minus(invoice.carriedAmount);
+}
+
+function isCardCharge(transaction: Transaction): boolean {
+  return Boolean(transaction.creditCardId) && (transaction.type === 'expense' || transaction.type === 'refund');
+}
+
+/**
+ * What a transaction adds to its card's invoice and used limit: purchases charge, refunds credit back
+ */
+export function cardChargeOf(transaction: Pick<Transaction, 'type' | 'amount' | 'creditCardId'>): Money {
+  if (!transaction.creditCardId) return Money.ZERO;
+  if (transaction.type === 'expense') return Money.from(transaction.amount);
+  if (transaction.type === 'refund') return Money.from(transaction.amount).negate();
+  return Money.ZERO;
+}
+
+type ChargeLine = Omit<InvoiceLine, 'id' | 'kind'> & { kind: InvoiceItemKind };
+
+/**
+ * Card that owns the limit and the invoice of `card`: the card itself, or the main card of a virtual/additional one
+ */
+export async function billingCardOf(storage: IStorage, card: CreditCard): Promise<CreditCard> {
+  if (!card.parentCardId) return card;
+  return (await storage.getCreditCardById(card.parentCardId)) ?? card;
+}
+
+/**
+ * A main card followed by its virtual and additional cards (inactive ones included: their purchases still bill)
+ */
+export async function cardFamilyOf(storage: IStorage, mainCard: CreditCard): Promise<CreditCard[]> {
+  const children = (await storage.getAllCreditCards()).filter(c => c.parentCardId === mainCard.id);
+  return [mainCard, ...children];
+}
+
+// Linha da fatura para uma compra ou estorno do período
+function chargeLine(transaction: Transaction): ChargeLine {
+  return {
+    transactionId: transaction.id,
+    creditCardId: transaction.creditCardId,
+    kind: transaction.type === 'refund' ? 'refund' : 'purchase',
+    description: transaction.description,
+    amount: transaction.type === 'refund' ? cardChargeOf(transaction).toString() : transaction.amount,
+    date: transaction.date,
+    installmentNumber: transaction.isInstallment ? transaction.installmentNumber : null,
+    installments: transaction.isInstallment ? transaction.installments : null,
+  };
+}
+
+/**
+ * Invoice Service
+ * Runs the invoice lifecycle: open invoices follow the card's purchases, closing freezes a snapshot of the
+ * line items and total, and payments/due dates move it through paid, partial and overdue
+ */
+export class InvoiceService {
+  constructor(private storage: IStorage, private clock: Clock = systemClock) {}
+
+  /**
+   * Get the invoice that bills purchases made on `date` (usually its closing date), creating it when missing
+   * Open invoices are recalculated on every read; closed ones are returned exactly as they were frozen
+   * Virtual and additional cards have no invoice of their own: they get their main card's
+   */
+  async getInvoice(creditCardId: string, date: string): Promise<InvoiceStatement> {
+    const requestedCard = await this.storage.getCreditCardById(creditCardId);
+    if (!requestedCard) {
+      throw new NotFoundError('Credit card');
+    }
+    const card = await billingCardOf(this.storage, requestedCard);
+
+    const closingDate = toDateKey(invoiceClosingDateFor(parseISO(date), card.closingDay));
+    const dueDate = toDateKey(dueDateFor(parseISO(closingDate), card.dueDay));
+    let invoice = await this.findOrCreateInvoice(card.id, closingDate);
+    invoice = await this.closeIfDue(card, invoice);
+
+    if (invoiceStatusOf(invoice) !== 'open') {
+      const items = (await this.storage.getCreditCardInvoiceItemsByInvoice(invoice.id))
+        .map(({ userId, invoiceId, createdAt, ...line }) => line);
+      return {
+        ...invoice,
+        status: invoiceStatusOf(invoice),
+        dueDate,
+        items,
+        ...this.minimumPaymentProjection(card, invoice),
+        cardBreakdown: await this.cardBreakdownOf(card, items)
+      };
+    }
+
+    const charges = await this.periodCharges(card, closingDate);
+    const internationalLines = await this.internationalLines(card, closingDate, charges);
+    const adjustments = await this.storage.getCreditCardInvoiceItemsByInvoice(invoice.id);
+    const items: InvoiceLine[] = [
+      ...charges.map(t => ({ id: t.id, ...chargeLine(t) })),
+      ...internationalLines.map(line => ({ id: `${line.transactionId}-${line.kind}`, ...line })),
+      ...this.annualFeeLines(card, closingDate, charges).map(line => ({ id: `${closingDate}-${line.kind}`, ...line })),
+      ...adjustments.map(({ userId, invoiceId, createdAt, ...line }) => line)
+    ];
+
+    const totalAmount = Money.sum(items.map(i => i.amount));
+    if (!totalAmount.equals(invoice.totalAmount)) {
+      invoice = await this.storage.updateCreditCardInvoice(invoice.id, { totalAmount: totalAmount.toString() }) || invoice;
+    }
+
+    return {
+      ...invoice,
+      status: 'open',
+      dueDate,
+      items,
+      ...this.minimumPaymentProjection(card, invoice),
+      cardBreakdown: await this.cardBreakdownOf(card, items)
+    };
+  }
+
+  /**
+   * Register a payment on an invoice
+   * Paying an open invoice only accumulates the amount (it is settled when it closes); after closing the
+   * invoice becomes paid or partial, and an overdue invoice stays overdue until fully paid
+   */
+  async payInvoice(invoiceId: string, amount: string | number, options: InvoicePaymentOptions = {}): Promise<CreditCardInvoice> {
+    let invoice = await this.storage.getCreditCardInvoiceById(invoiceId);
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+
+    const creditCard = await this.storage.getCreditCardById(invoice.creditCardId);
+    if (!creditCard) {
+      throw new NotFoundError('Credit card');
+    }
+
+    const payment = Money.from(amount);
+    if (!payment.isPositive()) {
+      throw new ValidationError('Valor do pagamento inválido', ['O valor deve ser maior que zero']);
+    }
+
+    invoice = await this.closeIfDue(creditCard, invoice);
+    const status = invoiceStatusOf(invoice);
+    if (status === 'paid') {
+      throw new ConflictError('Fatura já está paga');
+    }
+    if (invoice.carriedToInvoiceId) {
+      throw new ConflictError('O saldo desta fatura foi para o rotativo: pague a fatura seguinte');
+    }
+    const paymentDate = options.date ?? toDateKey(this.clock.now());
+    if (options.accountId) {
+      await activeAccountOf(this.storage, options.accountId);
+      await assertUnlocked(this.storage, [{ date: paymentDate, accountId: options.accountId }]);
+    }
+
+    const newPaidAmount = Money.from(invoice.paidAmount).plus(payment);
+    const totalAmount = Money.from(invoice.totalAmount);
+
+    let newStatus: InvoiceStatus = status;
+    if (status !== 'open') {
+      if (newPaidAmount.greaterThanOrEqual(totalAmount)) {
+        newStatus = 'paid';
+      } else if (status !== 'overdue') {
+        newStatus = 'partial';
+      }
+    }
+
+    const updatedInvoice = await this.transition(invoice, newStatus, { paidAmount: newPaidAmount.toString() });
+    await this.storage.createCreditCardInvoicePayment({
+      invoiceId: invoice.id,
+      accountId: options.accountId || null,
+      amount: payment.toString(),
+      date: paymentDate
+    });
+
+    // O valor pago volta ao limite disponível, mesmo num pagamento parcial
+    await this.storage.updateCreditCard(invoice.creditCardId, {
+      currentUsed: Money.max(Money.ZERO, Money.from(creditCard.currentUsed).minus(payment)).toString()
+    });
+
+    return updatedInvoice;
+  }
+
+  /**
+   * Simulate splitting what is left to pay on a closed invoice into monthly installments
+   */
+  async simulateInstallmentPlan(invoiceId: string, installments: number, interestRate: number): Promise<InstallmentPlanPreview> {
+    const { card, invoice } = await this.installableInvoice(invoiceId);
+    return this.installmentPlanFor(card, invoice, installments, interestRate);
+  }
+
+  /**
+   * Split what is left to pay on a closed invoice into monthly installments
+   * Each installment becomes a line on one of the next invoices and the original invoice is settled as paid
+   */
+  async createInstallmentPlan(
+    invoiceId: string,
+    installments: number,
+    interestRate: number
+  ): Promise<{ invoice: CreditCardInvoice; plan: InstallmentPlanPreview }> {
+    const { card, invoice } = await this.installableInvoice(invoiceId);
+    const plan = this.installmentPlanFor(card, invoice, installments, interestRate);
+
+    const reference = format(parseISO(invoice.closingDate), 'dd/MM/yyyy');
+    for (const { installmentNumber, closingDate, amount } of plan.schedule) {
+      const target = await this.findOrCreateInvoice(card.id, closingDate);
+      await this.storage.createCreditCardInvoiceItem({
+        invoiceId: target.id,
+        kind: 'installment',
+        description: `Parcelamento da fatura de ${reference}`,
+        amount: amount.toString(),
+        date: closingDate,
+        installmentNumber,
+        installments,
+      });
+    }
+
+    const settled = await this.transition(invoice, 'paid', {
+      isInstallment: true,
+      installmentCount: installments,
+      carriedAmount: Money.from(invoice.carriedAmount).plus(plan.balance).toString()
+    });
+
+    console.log(`Fatura ${invoice.closingDate} do cartão ${card.name} parcelada em ${installments}x de R$ ${plan.installmentAmount} (CET ${plan.monthlyCet}% a.m.)`);
+
+    return { invoice: settled, plan };
+  }
+
+  /**
+   * Close the invoices whose closing date is over on `today`
+   * Invoices already closed are left alone, so running this again is harmless
+   * Returns how many invoices were closed
+   */
+  async closeInvoices(today: Date): Promise<number> {
+    const todayKey = toDateKey(today);
+    const creditCards = (await this.storage.getCreditCards()).filter(c => !c.parentCardId);
+    let closed = 0;
+
+    for (const card of creditCards) {
+      const invoices = await this.storage.getCreditCardInvoicesByCard(card.id);
+
+      // A última fatura fechada e as abertas que ficaram para trás (servidor parado no dia do fechamento)
+      const closingDates = new Set([toDateKey(lastClosedDate(today, card.closingDay))]);
+      invoices
+        .filter(i => invoiceStatusOf(i) === 'open' && i.closingDate < todayKey && isClosingDate(i.closingDate, card.closingDay))
+        .forEach(i => closingDates.add(i.closingDate));
+
+      for (const closingDate of Array.from(closingDates).sort()) {
+        const invoice = invoices.find(i => i.closingDate === closingDate)
+          ?? await this.findOrCreateInvoice(card.id, closingDate);
+        if (invoiceStatusOf(invoice) !== 'open') continue;
+
+        await this.closeInvoice(card, invoice);
+        closed++;
+      }
+    }
+
+    return closed;
+  }
+
+  /**
+   * Mark as overdue the closed invoices with an unpaid balance after their due date
+   * Returns how many invoices changed
+   */
+  async markOverdueInvoices(today: Date): Promise<number> {
+    const todayKey = toDateKey(today);
+    const creditCards = (await this.storage.getCreditCards()).filter(c => !c.parentCardId);
+    let marked = 0;
+
+    for (const card of creditCards) {
+      const invoices = await this.storage.getCreditCardInvoicesByCard(card.id);
+
+      for (const invoice of invoices) {
+        const status = invoiceStatusOf(invoice);
+        if (status !== 'closed' && status !== 'partial') continue;
+
+        const dueDate = toDateKey(dueDateFor(parseISO(invoice.closingDate), card.dueDay));
+        const remaining = remainingOf(invoice);
+        if (dueDate >= todayKey || !remaining.isPositive()) continue;
+
+        await this.transition(invoice, 'overdue');
+        marked++;
+
+        console.log(`Fatura ${invoice.closingDate} do cartão ${card.name} vencida em ${dueDate}: R$ ${remaining} em aberto`);
+      }
+    }
+
+    return marked;
+  }
+
+  /**
+   * Carry changes to card purchases that fall in an already closed invoice into the card's open invoice
+   * `before`/`after` are the affected transactions before and after the change (empty when created/deleted);
+   * the closed invoice is never rewritten, the difference becomes an adjustment line on the open one
+   * Returns how many adjustments were created
+   */
+  async recordLateChanges(before: Transaction[], after: Transaction[]): Promise<number> {
+    const changes = new Map<string, { transaction: Transaction; delta: Money }>();
+    const collect = (transactions: Transaction[], sign: 1 | -1) => {
+      for (const transaction of transactions.filter(isCardCharge)) {
+        const key = `${transaction.creditCardId}|${transaction.date}|${transaction.id}`;
+        const change = changes.get(key);
+        const amount = sign === 1 ? cardChargeOf(transaction) : cardChargeOf(transaction).negate();
+        changes.set(key, { transaction, delta: (change?.delta ?? Money.ZERO).plus(amount) });
+      }
+    };
+    collect(before, -1);
+    collect(after, 1);
+
+    const today = this.clock.now();
+    let created = 0;
+
+    for (const { transaction, delta } of Array.from(changes.values())) {
+      if (delta.isZero()) continue;
+
+      const purchaseCard = await this.storage.getCreditCardById(transaction.creditCardId!);
+      if (!purchaseCard) continue;
+      const card = await billingCardOf(this.storage, purchaseCard);
+
+      const billedOn = toDateKey(invoiceClosingDateFor(parseISO(transaction.date), card.closingDay));
+      const billedInvoice = await this.storage.getCreditCardInvoiceByCardAndDate(card.id, billedOn);
+      if (!billedInvoice || invoiceStatusOf(billedInvoice) === 'open') continue;
+
+      const target = await this.openInvoiceFor(card, today);
+      await this.storage.createCreditCardInvoiceItem({
+        invoiceId: target.id,
+        transactionId: transaction.id,
+        creditCardId: transaction.creditCardId,
+        kind: 'adjustment',
+        description: `Ajuste: ${transaction.description} (fatura de ${format(parseISO(billedOn), 'dd/MM/yyyy')})`,
+        amount: delta.toString(),
+        date: toDateKey(today),
+      });
+      created++;
+
+      console.log(`Ajuste de R$ ${delta} da fatura fechada ${billedOn} lançado na fatura ${target.closingDate}`);
+    }
+
+    return created;
+  }
+
+  private async findOrCreateInvoice(creditCardId: string, closingDate: string): Promise<CreditCardInvoice> {
+    const existing = await this.storage.getCreditCardInvoiceByCardAndDate(creditCardId, closingDate);
+    if (existing) return existing;
+
+    return this.storage.createCreditCardInvoice({
+      creditCardId,
+      closingDate,
+      totalAmount: "0",
+      paidAmount: "0",
+      status: "open"
+    });
+  }
+
+  // Fatura aberta que recebe lançamentos feitos hoje (a seguinte, se a de hoje já tiver sido fechada)
+  private async openInvoiceFor(card: CreditCard, today: Date): Promise<CreditCardInvoice> {
+    let closingDate = invoiceClosingDateFor(today, card.closingDay);
+    let invoice = await this.findOrCreateInvoice(card.id, toDateKey(closingDate));
+    while (invoiceStatusOf(invoice) !== 'open') {
+      closingDate = invoiceClosingDateFor(addDays(closingDate, 1), card.closingDay);
+      invoice = await this.findOrCreateInvoice(card.id, toDateKey(closingDate));
+    }
+    return invoice;
+  }
+
+  private async closeIfDue(card: CreditCard, invoice: CreditCardInvoice): Promise<CreditCardInvoice> {
+    const isOverdueForClosing = invoiceStatusOf(invoice) === 'open'
+      && invoice.closingDate < toDateKey(this.clock.now())
+      && isClosingDate(invoice.closingDate, card.closingDay);
+    return isOverdueForClosing ? this.closeInvoice(card, invoice) : invoice;
+  }
+
+  /**
+   * Freeze the invoice: copy the period's purchases and refunds as line items (plus IOF and exchange variation
+   * of the international ones), bill what earlier invoices left
+   * unpaid, and settle the total with the adjustments already attached and the payments made while it was open
+   */
+  private async closeInvoice(card: CreditCard, invoice: CreditCardInvoice): Promise<CreditCardInvoice> {
+    await this.carryUnpaidBalances(card, invoice);
+
+    const charges = await this.periodCharges(card, invoice.closingDate);
+    for (const t of charges) {
+      await this.storage.createCreditCardInvoiceItem({ invoiceId: invoice.id, ...chargeLine(t) });
+    }
+    for (const line of await this.internationalLines(card, invoice.closingDate, charges)) {
+      await this.storage.createCreditCardInvoiceItem({ invoiceId: invoice.id, ...line });
+    }
+    for (const line of this.annualFeeLines(card, invoice.closingDate, charges)) {
+      await this.storage.createCreditCardInvoiceItem({ invoiceId: invoice.id, ...line });
+    }
+
+    const items = await this.storage.getCreditCardInvoiceItemsByInvoice(invoice.id);
+    const totalAmount = Money.sum(items.map(i => i.amount));
+    const paidAmount = Money.from(invoice.paidAmount);
+
+    let status: InvoiceStatus = 'closed';
+    if (totalAmount.isPositive() && paidAmount.greaterThanOrEqual(totalAmount)) {
+      status = 'paid';
+    } else if (paidAmount.isPositive()) {
+      status = 'partial';
+    }
+
+    console.log(`Fatura ${invoice.closingDate} do cartão ${card.name} fechada: R$ ${totalAmount} (${status})`);
+
+    return this.transition(invoice, status, { totalAmount: totalAmount.toString() });
+  }
+
+  /**
+   * Move the unpaid balance of earlier invoices already past their due date into `invoice`, itemized
+   * with the revolving interest, IOF and, when not even the minimum was paid, late fee and mora
+   * Each balance is carried once; the earlier invoice keeps its status and records where the balance went
+   */
+  private async carryUnpaidBalances(card: CreditCard, invoice: CreditCardInvoice): Promise<void> {
+    const rates = revolvingRatesOf(card);
+    const closingDate = parseISO(invoice.closingDate);
+    const earlierInvoices = (await this.storage.getCreditCardInvoicesByCard(card.id))
+      .filter(i => i.closingDate < invoice.closingDate && !i.carriedToInvoiceId && invoiceStatusOf(i) !== 'open' && invoiceStatusOf(i) !== 'paid')
+      .sort((a, b) => a.closingDate.localeCompare(b.closingDate));
+
+    for (const earlier of earlierInvoices) {
+      const dueDate = dueDateFor(parseISO(earlier.closingDate), card.dueDay);
+      const balance = remainingOf(earlier);
+      if (toDateKey(dueDate) >= invoice.closingDate || !balance.isPositive()) continue;
+
+      const minimumPayment = minimumPaymentOf(Money.from(earlier.totalAmount), rates);
+      const late = Money.from(earlier.paidAmount).lessThan(minimumPayment);
+      const days = differenceInCalendarDays(closingDate, dueDate);
+      const charges = calculateRevolvingCharges(balance, days, rates, late);
+
+      const reference = format(parseISO(earlier.closingDate), 'dd/MM/yyyy');
+      const lines: Array<[InvoiceItemKind, string, Money]> = [
+        ['balance', `Saldo não pago da fatura de ${reference}`, charges.balance],
+        ['interest', `Juros do rotativo (${rates.interestRate}% a.m., ${days} dias)`, charges.interest],
+        ['iof', 'IOF sobre o saldo financiado', charges.iof],
+        ['late_fee', `Multa por atraso (${rates.lateFeeRate}%)`, charges.lateFee],
+        ['late_interest', `Juros de mora (${rates.lateInterestRate}% a.m.)`, charges.lateInterest],
+      ];
+      for (const [kind, description, amount] of lines) {
+        if (amount.isZero()) continue;
+        await this.storage.createCreditCardInvoiceItem({
+          invoiceId: invoice.id,
+          kind,
+          description,
+          amount: amount.toString(),
+          date: invoice.closingDate,
+        });
+      }
+
+      await this.storage.updateCreditCardInvoice(earlier.id, {
+        carriedAmount: Money.from(earlier.carriedAmount).plus(balance).toString(),
+        carriedToInvoiceId: invoice.id
+      });
+
+      console.log(`Rotativo: R$ ${balance} da fatura ${earlier.closingDate} levados para ${invoice.closingDate} com R$ ${charges.total.minus(balance)} de encargos`);
+    }
+  }
+
+  // Só o saldo de faturas fechadas, ainda não quitado nem levado ao rotativo, pode ser parcelado
+  private async installableInvoice(invoiceId: string): Promise<{ card: CreditCard; invoice: CreditCardInvoice }> {
+    let invoice = await this.storage.getCreditCardInvoiceById(invoiceId);
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+
+    const card = await this.storage.getCreditCardById(invoice.creditCardId);
+    if (!card) {
+      throw new NotFoundError('Credit card');
+    }
+
+    invoice = await this.closeIfDue(card, invoice);
+    const status = invoiceStatusOf(invoice);
+    if (status === 'open') {
+      throw new ConflictError('Só faturas fechadas podem ser parceladas');
+    }
+    if (status === 'paid') {
+      throw new ConflictError('Fatura já está paga');
+    }
+    if (invoice.carriedToInvoiceId) {
+      throw new ConflictError('O saldo desta fatura foi para o rotativo: pague a fatura seguinte');
+    }
+    if (!remainingOf(invoice).isPositive()) {
+      throw new ConflictError('Fatura sem saldo a parcelar');
+    }
+
+    return { card, invoice };
+  }
+
+  private installmentPlanFor(
+    card: CreditCard,
+    invoice: CreditCardInvoice,
+    installments: number,
+    interestRate: number
+  ): InstallmentPlanPreview {
+    const plan = calculateInstallmentPlan(remainingOf(invoice), installments, interestRate, revolvingRatesOf(card));
+
+    // A primeira parcela cai na fatura aberta hoje e as demais nas seguintes
+    let closingDate = invoiceClosingDateFor(this.clock.now(), card.closingDay);
+    const schedule: InstallmentPlanPreview['schedule'] = [];
+    for (let installmentNumber = 1; installmentNumber <= installments; installmentNumber++) {
+      schedule.push({
+        installmentNumber,
+        closingDate: toDateKey(closingDate),
+        dueDate: toDateKey(dueDateFor(closingDate, card.dueDay)),
+        amount: plan.installmentAmount
+      });
+      closingDate = invoiceClosingDateFor(addDays(closingDate, 1), card.closingDay);
+    }
+
+    return { ...plan, invoiceId: invoice.id, schedule };
+  }
+
+  // Pagando só o mínimo no vencimento, o restante vai para o rotativo até o fechamento seguinte
+  private minimumPaymentProjection(card: CreditCard, invoice: CreditCardInvoice): Pick<InvoiceStatement, 'minimumPayment' | 'minimumPaymentCost'> {
+    const rates = revolvingRatesOf(card);
+    const totalAmount = Money.from(invoice.totalAmount);
+    const minimumPayment = minimumPaymentOf(totalAmount, rates);
+    if (!totalAmount.isPositive()) {
+      return { minimumPayment, minimumPaymentCost: null };
+    }
+
+    const dueDate = dueDateFor(parseISO(invoice.closingDate), card.dueDay);
+    const nextClosing = invoiceClosingDateFor(addDays(dueDate, 1), card.closingDay);
+    const days = differenceInCalendarDays(nextClosing, dueDate);
+    return {
+      minimumPayment,
+      minimumPaymentCost: calculateRevolvingCharges(totalAmount.minus(minimumPayment), days, rates, false)
+    };
+  }
+
+  /**
+   * IOF and exchange variation lines of the international purchases among `charges`
+   * The invoice converts each purchase at the table rate of the card's rule date (purchase or closing date);
+   * when that final rate differs from the one the purchase was recorded with, the difference becomes an
+   * fx_adjustment line. IOF is charged on the converted amount. Without a table rate the recorded one stands
+   */
+  private async internationalLines(card: CreditCard, closingDate: string, charges: Transaction[]): Promise<ChargeLine[]> {
+    const lines: ChargeLine[] = [];
+    const iofRate = Number(card.internationalIofRate);
+
+    for (const t of charges) {
+      if (t.type !== 'expense' || !t.originalCurrency || !t.originalAmount) continue;
+
+      let billedAmount = Money.from(t.amount);
+      const rateDate = card.exchangeRateRule === 'closing_date' ? closingDate : t.date;
+      const finalRate = await this.storage.getExchangeRateOn(t.originalCurrency, rateDate);
+      if (finalRate && Number(finalRate.rate) !== Number(t.exchangeRate)) {
+        const convertedAmount = convertToBrl(t.originalAmount, finalRate.rate);
+        const variation = convertedAmount.minus(billedAmount);
+        if (!variation.isZero()) {
+          lines.push({
+            transactionId: t.id,
+            creditCardId: t.creditCardId,
+            kind: 'fx_adjustment',
+            description: `Variação cambial: ${t.description} (${t.originalCurrency} ${Number(finalRate.rate)} em ${format(parseISO(finalRate.date), 'dd/MM/yyyy')})`,
+            amount: variation.toString(),
+            date: closingDate,
+            installmentNumber: null,
+            installments: null,
+          });
+        }
+        billedAmount = convertedAmount;
+      }
+
+      const iof = billedAmount.times(iofRate / 100);
+      if (iof.isZero()) continue;
+      lines.push({
+        transactionId: t.id,
+        creditCardId: t.creditCardId,
+        kind: 'international_iof',
+        description: `IOF compra internacional: ${t.description} (${iofRate}%)`,
+        amount: iof.toString(),
+        date: t.date,
+        installmentNumber: t.isInstallment ? t.installmentNumber : null,
+        installments: t.isInstallment ? t.installments : null,
+      });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Annual fee installment of the invoice and, when the purchases net of refunds reach the card's waiver
+   * threshold, the credit that waives it (both dated on the closing date)
+   */
+  private annualFeeLines(card: CreditCard, closingDate: string, charges: Transaction[]): ChargeLine[] {
+    const fee = annualFeeInstallmentOn(card, closingDate);
+    if (!fee) return [];
+
+    const feeLine = {
+      transactionId: null,
+      creditCardId: card.id,
+      amount: fee.amount.toString(),
+      date: closingDate,
+      installmentNumber: fee.installmentNumber,
+      installments: fee.installments,
+    };
+    const lines: ChargeLine[] = [{ ...feeLine, kind: 'annual_fee', description: `Anuidade ${fee.installmentNumber}/${fee.installments}` }];
+
+    const spent = Money.sum(charges.map(cardChargeOf));
+    if (isAnnualFeeWaived(card, spent)) {
+      lines.push({
+        ...feeLine,
+        kind: 'annual_fee_waiver',
+        description: `Isenção da anuidade ${fee.installmentNumber}/${fee.installments} (gastos de R$ ${spent} na fatura)`,
+        amount: fee.amount.negate().toString(),
+      });
+    }
+    return lines;
+  }
+
+  // Compras e estornos do período feitos com o cartão ou com os seus cartões virtuais e adicionais
+  private async periodCharges(card: CreditCard, closingDate: string): Promise<Transaction[]> {
+    const period = billingPeriod(parseISO(closingDate), card.closingDay);
+    const familyIds = new Set((await cardFamilyOf(this.storage, card)).map(c => c.id));
+    const transactions = await this.storage.getTransactions();
+    return transactions
+      .filter(t => familyIds.has(t.creditCardId ?? '') && isCardCharge(t)
+        && t.date >= period.startDate && t.date <= period.endDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private async cardBreakdownOf(card: CreditCard, items: InvoiceLine[]): Promise<CardSpending[]> {
+    const family = await cardFamilyOf(this.storage, card);
+    return family
+      .map(c => ({
+        creditCardId: c.id,
+        name: c.name,
+        cardType: c.cardType as CreditCardType,
+        holderName: c.holderName,
+        total: Money.sum(items
+          .filter(i => (family.some(f => f.id === i.creditCardId) ? i.creditCardId : card.id) === c.id)
+          .map(i => i.amount))
+      }))
+      .filter(spending => spending.creditCardId === card.id || !spending.total.isZero());
+  }
+
+  private async transition(
+    invoice: CreditCardInvoice,
+    to: InvoiceStatus,
+    changes: Partial<InsertCreditCardInvoice> = {}
+  ): Promise<CreditCardInvoice> {
+    const from = invoiceStatusOf(invoice);
+    if (from !== to && !TRANSITIONS[from].includes(to)) {
+      throw new ConflictError(`Fatura não pode passar de ${from} para ${to}`);
+    }
+
+    const updated = await this.storage.updateCreditCardInvoice(invoice.id, { ...changes, status: to });
+    if (!updated) {
+      throw new NotFoundError('Invoice');
+    }
+    return updated;
+  }
+}
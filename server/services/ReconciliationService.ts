@@ -0,0 +1,370 @@
+import { IStorage } from '../storage';
+import { Money } from '@shared/money';
+import type { ClearedStatus, Reconciliation, Transaction } from '@shared/schema';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/ErrorHandlingMiddleware';
+import { parseISO } from 'date-fns';
+import { invoiceClosingDateFor, toDateKey } from '../utils/BillingCycle';
+import { Clock, systemClock } from '../utils/Clock';
+import { AccountService } from './AccountService';
+import { cardFamilyOf, invoiceStatusOf } from './InvoiceService';
+
+export type ReconciliationItemKind = 'transaction' | 'transfer' | 'invoice_payment';
+
+/** A transaction, transfer or invoice payment that can be ticked off against the statement */
+export interface ReconciliationItem {
+  kind: ReconciliationItemKind;
+  id: string;
+  date: string;
+  description: string;
+  /** Accounts: money in is positive; invoices: charges are positive and refunds negative */
+  amount: Money;
+  clearedStatus: ClearedStatus;
+}
+
+export interface ReconciliationView extends Reconciliation {
+  /**
+   * Accounts: the opening balance plus what earlier reconciliations locked
+   * Invoices: the lines the card itself generated (interest, IOF, fees, adjustments), which need no ticking
+   */
+  startingBalance: Money;
+  items: ReconciliationItem[];
+  clearedBalance: Money;
+  /** Statement balance minus the cleared balance; the reconciliation completes only at zero */
+  difference: Money;
+}
+
+export interface StartReconciliation {
+  accountId?: string | null;
+  invoiceId?: string | null;
+  /** Required for accounts; invoices always use their closing date */
+  statementDate?: string;
+  statementBalance: string;
+}
+
+export interface ReconciliationFilters {
+  accountId?: string;
+  invoiceId?: string;
+}
+
+/** Anything with a cleared status: transactions, account transfers and invoice payments */
+export interface Clearable {
+  clearedStatus?: string | null;
+  reconciliationId?: string | null;
+}
+
+/** Where a movement lands: the account it moves or the card whose invoice bills it */
+export type LockedMovement = Pick<Transaction, 'date'> & { accountId?: string | null; creditCardId?: string | null };
+
+/**
+ * Cleared status of a record ("uncleared" for records saved before reconciliation existed)
+ */
+export function clearedStatusOf(record: Clearable): ClearedStatus {
+  return (record.clearedStatus || 'uncleared') as ClearedStatus;
+}
+
+/**
+ * Throw a ConflictError when any of the movements falls in a period locked by a completed reconciliation:
+ * an account up to its statement date, or a reconciled card invoice
+ */
+export async function assertUnlocked(storage: IStorage, movements: LockedMovement[]): Promise<void> {
+  const completed = (await storage.getReconciliations()).filter(r => r.status === 'completed');
+  if (completed.length === 0 || movements.length === 0) return;
+
+  for (const reconciliation of completed) {
+    if (reconciliation.accountId) {
+      const locked = movements.find(m => m.accountId === reconciliation.accountId && m.date <= reconciliation.statementDate);
+      if (locked) {
+        throw new ConflictError(
+          `A conta está conciliada até ${reconciliation.statementDate}: desbloqueie a conciliação para alterar lançamentos de ${locked.date}`
+        );
+      }
+      continue;
+    }
+
+    const invoice = reconciliation.invoiceId && await storage.getCreditCardInvoiceById(reconciliation.invoiceId);
+    const card = invoice && await storage.getCreditCardById(invoice.creditCardId);
+    if (!invoice || !card) continue;
+
+    const familyIds = new Set((await cardFamilyOf(storage, card)).map(c => c.id));
+    const locked = movements.find(m => familyIds.has(m.creditCardId ?? '')
+      && toDateKey(invoiceClosingDateFor(parseISO(m.date), card.closingDay)) === invoice.closingDate);
+    if (locked) {
+      throw new ConflictError(
+        `A fatura de ${invoice.closingDate} está conciliada: desbloqueie a conciliação para alterar lançamentos de ${locked.date}`
+      );
+    }
+  }
+}
+
+/**
+ * Reconciliation Service
+ * Ticks transactions off against a bank statement: a reconciliation of an account (up to the statement date)
+ * or of a closed card invoice compares the statement balance with what was cleared, and completing it
+ * locks the period so that later edits need an explicit unlock
+ */
+export class ReconciliationService {
+  private accountService: AccountService;
+
+  constructor(private storage: IStorage, private clock: Clock = systemClock) {
+    this.accountService = new AccountService(storage, clock);
+  }
+
+  async getReconciliations(filters: ReconciliationFilters = {}): Promise<Reconciliation[]> {
+    return (await this.storage.getReconciliations()).filter(r =>
+      (!filters.accountId || r.accountId === filters.accountId) && (!filters.invoiceId || r.invoiceId === filters.invoiceId)
+    );
+  }
+
+  async getReconciliation(id: string): Promise<ReconciliationView> {
+    return this.viewOf(await this.reconciliationOf(id));
+  }
+
+  /**
+   * Start reconciling an account statement or a closed card invoice
+   * An account has at most one open reconciliation, and each new statement must end after the last one
+   */
+  async start(data: StartReconciliation): Promise<ReconciliationView> {
+    if (Boolean(data.accountId) === Boolean(data.invoiceId)) {
+      throw new ValidationError('Conciliação inválida', ['Concilie uma conta ou uma fatura de cartão']);
+    }
+    const existing = await this.getReconciliations({ accountId: data.accountId ?? undefined, invoiceId: data.invoiceId ?? undefined });
+
+    let statementDate: string;
+    if (data.accountId) {
+      const account = await this.storage.getAccountById(data.accountId);
+      if (!account) {
+        throw new NotFoundError('Account');
+      }
+      if (!data.statementDate) {
+        throw new ValidationError('Conciliação inválida', ['Informe a data do extrato']);
+      }
+      if (existing.some(r => r.status === 'open')) {
+        throw new ConflictError(`A conta "${account.name}" já tem uma conciliação em andamento`);
+      }
+      const lastCompleted = existing.find(r => r.status === 'completed');
+      if (data.statementDate < account.openingDate || (lastCompleted && data.statementDate <= lastCompleted.statementDate)) {
+        throw new ValidationError('Data do extrato inválida', [
+          `O extrato deve terminar depois de ${lastCompleted?.statementDate ?? account.openingDate}`
+        ]);
+      }
+      statementDate = data.statementDate;
+    } else {
+      const invoice = await this.storage.getCreditCardInvoiceById(data.invoiceId!);
+      if (!invoice) {
+        throw new NotFoundError('Invoice');
+      }
+      if (invoiceStatusOf(invoice) === 'open') {
+        throw new ValidationError('Fatura em aberto', ['Concilie a fatura depois do fechamento']);
+      }
+      if (existing.length > 0) {
+        throw new ConflictError('Esta fatura já tem uma conciliação');
+      }
+      statementDate = invoice.closingDate;
+    }
+
+    const reconciliation = await this.storage.createReconciliation({
+      accountId: data.accountId || null,
+      invoiceId: data.invoiceId || null,
+      statementDate,
+      statementBalance: Money.from(data.statementBalance).toString()
+    });
+    return this.viewOf(reconciliation);
+  }
+
+  /**
+   * Correct the statement balance (and, for accounts, the statement date) of an open reconciliation
+   */
+  async update(id: string, changes: { statementDate?: string; statementBalance?: string }): Promise<ReconciliationView> {
+    const reconciliation = await this.openReconciliationOf(id);
+    const updated = await this.storage.updateReconciliation(id, {
+      ...(changes.statementBalance !== undefined && { statementBalance: Money.from(changes.statementBalance).toString() }),
+      ...(changes.statementDate !== undefined && reconciliation.accountId && { statementDate: changes.statementDate })
+    });
+    return this.viewOf(updated ?? reconciliation);
+  }
+
+  /**
+   * Tick items off (or untick them) in an open reconciliation
+   */
+  async setCleared(
+    id: string,
+    items: Array<{ kind: ReconciliationItemKind; id: string }>,
+    cleared: boolean
+  ): Promise<ReconciliationView> {
+    const reconciliation = await this.openReconciliationOf(id);
+    const view = await this.viewOf(reconciliation);
+
+    for (const item of items) {
+      if (!view.items.some(i => i.kind === item.kind && i.id === item.id)) {
+        throw new ValidationError('Item inválido', [`O lançamento ${item.id} não faz parte desta conciliação`]);
+      }
+    }
+    for (const item of items) {
+      await this.setClearedStatus(item.kind, item.id, cleared ? 'cleared' : 'uncleared', null);
+    }
+
+    return this.viewOf(reconciliation);
+  }
+
+  /**
+   * Finish a reconciliation whose difference is zero: the cleared items become reconciled and the period locks
+   */
+  async complete(id: string): Promise<ReconciliationView> {
+    const reconciliation = await this.openReconciliationOf(id);
+    const view = await this.viewOf(reconciliation);
+    if (!view.difference.isZero()) {
+      throw new ValidationError('Conciliação com diferença', [
+        `Faltam R$ ${view.difference} entre o saldo do extrato e os lançamentos conferidos`
+      ]);
+    }
+
+    for (const item of view.items.filter(i => i.clearedStatus === 'cleared')) {
+      await this.setClearedStatus(item.kind, item.id, 'reconciled', id);
+    }
+    const completed = await this.storage.updateReconciliation(id, { status: 'completed', completedAt: this.clock.now() });
+    return this.viewOf(completed ?? reconciliation);
+  }
+
+  /**
+   * Reopen a completed reconciliation so that its period can be edited again; its items go back to cleared
+   * Only the latest reconciliation of an account can be unlocked, and not while a newer one is open
+   */
+  async unlock(id: string): Promise<ReconciliationView> {
+    const reconciliation = await this.reconciliationOf(id);
+    if (reconciliation.status !== 'completed') {
+      throw new ConflictError('A conciliação não está concluída');
+    }
+    if (reconciliation.accountId) {
+      const [latest] = await this.getReconciliations({ accountId: reconciliation.accountId });
+      if (latest.id !== id) {
+        throw new ConflictError('Só a conciliação mais recente da conta pode ser desbloqueada');
+      }
+    }
+
+    for (const item of await this.reconciledBy(id)) {
+      await this.setClearedStatus(item.kind, item.id, 'cleared', null);
+    }
+    const reopened = await this.storage.updateReconciliation(id, { status: 'open', completedAt: null });
+    return this.viewOf(reopened ?? reconciliation);
+  }
+
+  /**
+   * Discard an open reconciliation; items keep their cleared marks
+   */
+  async delete(id: string): Promise<void> {
+    await this.openReconciliationOf(id);
+    await this.storage.deleteReconciliation(id);
+  }
+
+  private async reconciliationOf(id: string): Promise<Reconciliation> {
+    const reconciliation = await this.storage.getReconciliationById(id);
+    if (!reconciliation) {
+      throw new NotFoundError('Reconciliation');
+    }
+    return reconciliation;
+  }
+
+  private async openReconciliationOf(id: string): Promise<Reconciliation> {
+    const reconciliation = await this.reconciliationOf(id);
+    if (reconciliation.status !== 'open') {
+      throw new ConflictError('Conciliação concluída: desbloqueie-a para alterar');
+    }
+    return reconciliation;
+  }
+
+  private async viewOf(reconciliation: Reconciliation): Promise<ReconciliationView> {
+    const { startingBalance, items } = reconciliation.accountId
+      ? await this.accountItems(reconciliation)
+      : await this.invoiceItems(reconciliation);
+
+    const clearedBalance = startingBalance.plus(Money.sum(
+      items.filter(item => item.clearedStatus !== 'uncleared').map(item => item.amount)
+    ));
+    return {
+      ...reconciliation,
+      startingBalance,
+      items,
+      clearedBalance,
+      difference: Money.from(reconciliation.statementBalance).minus(clearedBalance)
+    };
+  }
+
+  // Movimentações até a data do extrato que nenhuma outra conciliação travou
+  private async accountItems(reconciliation: Reconciliation): Promise<{ startingBalance: Money; items: ReconciliationItem[] }> {
+    const statement = await this.accountService.getStatement(reconciliation.accountId!);
+    const entries = statement.entries.filter(entry => entry.date <= reconciliation.statementDate);
+    const lockedElsewhere = entries.filter(entry =>
+      entry.clearedStatus === 'reconciled' && entry.reconciliationId !== reconciliation.id
+    );
+
+    return {
+      startingBalance: statement.startingBalance.plus(Money.sum(lockedElsewhere.map(entry => entry.amount))),
+      items: entries
+        .filter(entry => !lockedElsewhere.includes(entry))
+        .map(entry => ({
+          kind: entry.kind === 'transfer_in' || entry.kind === 'transfer_out' ? 'transfer'
+            : entry.kind === 'invoice_payment' ? 'invoice_payment' : 'transaction',
+          id: entry.id,
+          date: entry.date,
+          description: entry.description,
+          amount: entry.amount,
+          clearedStatus: entry.clearedStatus
+        }))
+    };
+  }
+
+  // Compras e estornos da fatura fechada; juros, IOF, tarifas e ajustes vêm do próprio cartão
+  private async invoiceItems(reconciliation: Reconciliation): Promise<{ startingBalance: Money; items: ReconciliationItem[] }> {
+    const lines = await this.storage.getCreditCardInvoiceItemsByInvoice(reconciliation.invoiceId!);
+    const transactions = new Map((await this.storage.getTransactions()).map(t => [t.id, t]));
+
+    const items: ReconciliationItem[] = [];
+    let generated = Money.ZERO;
+    for (const line of lines) {
+      const transaction = line.transactionId ? transactions.get(line.transactionId) : undefined;
+      if (!transaction || (line.kind !== 'purchase' && line.kind !== 'refund')) {
+        generated = generated.plus(line.amount);
+        continue;
+      }
+      items.push({
+        kind: 'transaction',
+        id: transaction.id,
+        date: line.date,
+        description: line.description,
+        amount: Money.from(line.amount),
+        clearedStatus: clearedStatusOf(transaction)
+      });
+    }
+
+    return { startingBalance: generated, items };
+  }
+
+  private async reconciledBy(id: string): Promise<Array<{ kind: ReconciliationItemKind; id: string }>> {
+    const [transactions, transfers, payments] = await Promise.all([
+      this.storage.getTransactions(),
+      this.storage.getAccountTransfers(),
+      this.storage.getCreditCardInvoicePayments()
+    ]);
+    return [
+      ...transactions.filter(t => t.reconciliationId === id).map(t => ({ kind: 'transaction' as const, id: t.id })),
+      ...transfers.filter(t => t.reconciliationId === id).map(t => ({ kind: 'transfer' as const, id: t.id })),
+      ...payments.filter(p => p.reconciliationId === id).map(p => ({ kind: 'invoice_payment' as const, id: p.id }))
+    ];
+  }
+
+  private async setClearedStatus(
+    kind: ReconciliationItemKind,
+    id: string,
+    clearedStatus: ClearedStatus,
+    reconciliationId: string | null
+  ): Promise<void> {
+    const changes = { clearedStatus, reconciliationId };
+    if (kind === 'transaction') {
+      await this.storage.updateTransaction(id, changes);
+    } else if (kind === 'transfer') {
+      await this.storage.updateAccountTransfer(id, changes);
+    } else {
+      await this.storage.updateCreditCardInvoicePayment(id, changes);
+    }
+  }
+}
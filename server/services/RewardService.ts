@@ -0,0 +1,272 @@
+import { addDays, addMonths, parseISO } from 'date-fns';
+import { IStorage } from '../storage';
+import { Money } from '@shared/money';
+import type {
+  CreditCard,
+  InsertRewardProgram,
+  InsertRewardRedemption,
+  RewardProgram,
+  RewardRedemption,
+  RewardType,
+  Transaction
+} from '@shared/schema';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/ErrorHandlingMiddleware';
+import { cardChargeOf, cardFamilyOf } from './InvoiceService';
+import { ExchangeRateService } from './ExchangeRateService';
+import { invoiceClosingDateFor, toDateKey } from '../utils/BillingCycle';
+import { Clock, systemClock } from '../utils/Clock';
+
+// Aviso de pontos que vencem nos próximos dias
+const EXPIRY_WARNING_DAYS = 90;
+
+/** What one invoice earned; amounts are whole points/miles, or reais for cashback */
+export interface RewardAccrual {
+  closingDate: string;
+  earned: string;
+  expiresAt: string | null;
+  /** The invoice is still open: shown, but only counted once it closes */
+  pending: boolean;
+  /** Purchases left out of a dollar-based program because there is no USD rate for their date */
+  missingRates: number;
+}
+
+export interface RewardSummary {
+  program: RewardProgram;
+  unit: RewardType;
+  accrued: string;
+  redeemed: string;
+  expired: string;
+  balance: string;
+  pending: string;
+  /** Balance that expires within the next 90 days, by expiration date */
+  expiring: Array<{ expiresAt: string; amount: string }>;
+  accruals: RewardAccrual[];
+  redemptions: RewardRedemption[];
+}
+
+// Lote de pontos de uma fatura, consumido pelos resgates do mais antigo para o mais novo
+interface RewardLot {
+  date: string;
+  expiresAt: string | null;
+  remaining: number;
+}
+
+/**
+ * Reward Service
+ * Accrues points, miles or cashback from the purchases billed on each closed invoice of a card (and of its
+ * virtual and additional cards), applies category multipliers and expiration, and keeps the redemptions.
+ * Internally balances are integers: whole points, or centavos of cashback
+ */
+export class RewardService {
+  private exchangeRateService: ExchangeRateService;
+
+  constructor(private storage: IStorage, private clock: Clock = systemClock) {
+    this.exchangeRateService = new ExchangeRateService(storage);
+  }
+
+  /**
+   * Create the reward program of a main card (purchases on its virtual and additional cards accrue there too)
+   */
+  async createProgram(programData: InsertRewardProgram): Promise<RewardProgram> {
+    await this.programCard(programData.creditCardId);
+    const existing = (await this.storage.getRewardPrograms()).find(p => p.creditCardId === programData.creditCardId);
+    if (existing) {
+      throw new ConflictError(`Este cartão já tem o programa "${existing.name}"`);
+    }
+    return this.storage.createRewardProgram(programData);
+  }
+
+  async updateProgram(id: string, programData: Partial<InsertRewardProgram>): Promise<RewardProgram> {
+    const existing = await this.storage.getRewardProgramById(id);
+    if (!existing) {
+      throw new NotFoundError('Reward program');
+    }
+    if (programData.creditCardId && programData.creditCardId !== existing.creditCardId) {
+      throw new ValidationError('Programa inválido', ['O cartão de um programa de pontos não pode ser trocado']);
+    }
+
+    const updated = await this.storage.updateRewardProgram(id, programData);
+    return updated!;
+  }
+
+  async deleteProgram(id: string): Promise<void> {
+    if (!(await this.storage.deleteRewardProgram(id))) {
+      throw new NotFoundError('Reward program');
+    }
+  }
+
+  /**
+   * Summaries of every program, for the card list
+   */
+  async getSummaries(): Promise<RewardSummary[]> {
+    const programs = await this.storage.getRewardPrograms();
+    return Promise.all(programs.map(program => this.summaryOf(program)));
+  }
+
+  async getSummary(programId: string): Promise<RewardSummary> {
+    const program = await this.storage.getRewardProgramById(programId);
+    if (!program) {
+      throw new NotFoundError('Reward program');
+    }
+    return this.summaryOf(program);
+  }
+
+  /**
+   * Record a redemption; it cannot take more than the current balance
+   */
+  async redeem(programId: string, redemption: Omit<InsertRewardRedemption, 'programId'>): Promise<RewardRedemption> {
+    const summary = await this.getSummary(programId);
+    const units = this.unitsOf(summary.unit, redemption.amount);
+    if (summary.unit !== 'cashback' && !Number.isInteger(Number(redemption.amount))) {
+      throw new ValidationError('Resgate inválido', ['Pontos e milhas são resgatados em quantidades inteiras']);
+    }
+    if (units > this.unitsOf(summary.unit, summary.balance)) {
+      throw new ValidationError('Saldo insuficiente', [`Saldo disponível: ${summary.balance}`]);
+    }
+
+    return this.storage.createRewardRedemption({ ...redemption, programId });
+  }
+
+  async deleteRedemption(id: string): Promise<void> {
+    if (!(await this.storage.deleteRewardRedemption(id))) {
+      throw new NotFoundError('Reward redemption');
+    }
+  }
+
+  private async summaryOf(program: RewardProgram): Promise<RewardSummary> {
+    const unit = program.rewardType as RewardType;
+    const todayKey = toDateKey(this.clock.now());
+    const card = await this.storage.getCreditCardById(program.creditCardId);
+    const accruals = card ? await this.accrualsOf(program, card, todayKey) : [];
+    const redemptions = await this.storage.getRewardRedemptions(program.id);
+
+    // Resgates consomem os lotes mais antigos ainda válidos na data do resgate
+    const lots: RewardLot[] = accruals
+      .filter(accrual => !accrual.pending)
+      .map(accrual => ({ date: accrual.closingDate, expiresAt: accrual.expiresAt, remaining: this.unitsOf(unit, accrual.earned) }));
+    for (const redemption of redemptions) {
+      let missing = this.unitsOf(unit, redemption.amount);
+      for (const lot of lots) {
+        if (missing === 0) break;
+        if (lot.date > redemption.date || (lot.expiresAt && lot.expiresAt <= redemption.date)) continue;
+        const taken = Math.min(missing, lot.remaining);
+        lot.remaining -= taken;
+        missing -= taken;
+      }
+    }
+
+    const isExpired = (lot: RewardLot) => lot.expiresAt !== null && lot.expiresAt <= todayKey;
+    const warningLimit = toDateKey(addDays(parseISO(todayKey), EXPIRY_WARNING_DAYS));
+    const expiring = new Map<string, number>();
+    for (const lot of lots) {
+      if (lot.remaining > 0 && lot.expiresAt && !isExpired(lot) && lot.expiresAt <= warningLimit) {
+        expiring.set(lot.expiresAt, (expiring.get(lot.expiresAt) ?? 0) + lot.remaining);
+      }
+    }
+
+    const total = (values: number[]) => this.format(unit, values.reduce((sum, value) => sum + value, 0));
+    return {
+      program,
+      unit,
+      accrued: total(accruals.filter(a => !a.pending).map(a => this.unitsOf(unit, a.earned))),
+      redeemed: total(redemptions.map(r => this.unitsOf(unit, r.amount))),
+      expired: total(lots.filter(isExpired).map(lot => lot.remaining)),
+      balance: total(lots.filter(lot => !isExpired(lot)).map(lot => lot.remaining)),
+      pending: total(accruals.filter(a => a.pending).map(a => this.unitsOf(unit, a.earned))),
+      expiring: Array.from(expiring, ([expiresAt, amount]) => ({ expiresAt, amount: this.format(unit, amount) }))
+        .sort((a, b) => a.expiresAt.localeCompare(b.expiresAt)),
+      accruals,
+      redemptions
+    };
+  }
+
+  // Pontos de cada fatura até a aberta hoje; as futuras (parcelas ainda não cobradas) não entram
+  private async accrualsOf(program: RewardProgram, card: CreditCard, todayKey: string): Promise<RewardAccrual[]> {
+    const openClosing = toDateKey(invoiceClosingDateFor(parseISO(todayKey), card.closingDay));
+    const familyIds = new Set((await cardFamilyOf(this.storage, card)).map(c => c.id));
+
+    const byInvoice = new Map<string, Transaction[]>();
+    for (const transaction of await this.storage.getTransactions()) {
+      if (!familyIds.has(transaction.creditCardId ?? '') || cardChargeOf(transaction).isZero()) continue;
+      const closingDate = toDateKey(invoiceClosingDateFor(parseISO(transaction.date), card.closingDay));
+      if (closingDate > openClosing) continue;
+      byInvoice.set(closingDate, [...(byInvoice.get(closingDate) ?? []), transaction]);
+    }
+
+    const accruals: RewardAccrual[] = [];
+    for (const closingDate of Array.from(byInvoice.keys()).sort()) {
+      const { units, missingRates } = await this.earnedOn(program, byInvoice.get(closingDate)!);
+      accruals.push({
+        closingDate,
+        earned: this.format(program.rewardType as RewardType, units),
+        expiresAt: program.expirationMonths
+          ? toDateKey(addMonths(parseISO(closingDate), program.expirationMonths))
+          : null,
+        pending: closingDate >= todayKey,
+        missingRates
+      });
+    }
+    return accruals;
+  }
+
+  // Estornos descontam; pontos são truncados por fatura, como fazem os emissores
+  private async earnedOn(program: RewardProgram, charges: Transaction[]): Promise<{ units: number; missingRates: number }> {
+    const multiplierOf = (t: Transaction) => (t.categoryId && program.categoryMultipliers[t.categoryId]) || 1;
+
+    if (program.rewardType === 'cashback') {
+      const cashback = Money.sum(charges.map(t =>
+        cardChargeOf(t).times(Number(program.cashbackRate) / 100 * multiplierOf(t))
+      ));
+      return { units: Math.max(0, cashback.cents), missingRates: 0 };
+    }
+
+    let points = 0;
+    let missingRates = 0;
+    for (const charge of charges) {
+      const spent = await this.spentIn(program.spendCurrency, charge);
+      if (spent === null) {
+        missingRates++;
+        continue;
+      }
+      points += spent * Number(program.pointsPerUnit) * multiplierOf(charge);
+    }
+    return { units: Math.max(0, Math.floor(points)), missingRates };
+  }
+
+  // Valor gasto na moeda do programa (com sinal: estornos negativos); null sem cotação do dólar
+  private async spentIn(currency: string, charge: Transaction): Promise<number | null> {
+    const amount = cardChargeOf(charge);
+    if (currency !== 'USD') {
+      return amount.cents / 100;
+    }
+
+    const sign = amount.isNegative() ? -1 : 1;
+    if (charge.originalCurrency === 'USD' && charge.originalAmount) {
+      return sign * Number(charge.originalAmount);
+    }
+    const rate = await this.exchangeRateService.findRate('USD', charge.date);
+    return rate ? amount.cents / 100 / Number(rate.rate) : null;
+  }
+
+  // Programa de pontos só no cartão titular
+  private async programCard(creditCardId: string): Promise<CreditCard> {
+    const card = await this.storage.getCreditCardById(creditCardId);
+    if (!card) {
+      throw new NotFoundError('Credit card');
+    }
+    if (card.parentCardId) {
+      throw new ValidationError('Programa inválido', [
+        'Cartões virtuais e adicionais acumulam no programa do cartão titular'
+      ]);
+    }
+    return card;
+  }
+
+  private unitsOf(unit: RewardType, amount: string): number {
+    return unit === 'cashback' ? Money.from(amount).cents : Math.floor(Number(amount));
+  }
+
+  private format(unit: RewardType, units: number): string {
+    return unit === 'cashback' ? Money.fromCents(units).toString() : String(units);
+  }
+}
@@ -0,0 +1,443 @@
+import { createHash } from 'crypto';
+import type { Category, Transaction } from '@shared/schema';
+import { Money } from '@shared/money';
+import { IStorage } from '../storage';
+import { TransactionService } from './TransactionService';
+import { NotFoundError, ValidationError } from '../middleware/ErrorHandlingMiddleware';
+import { activeAccountOf } from './AccountService';
+import { parseOfx, type OfxStatement, type OfxTransaction } from '../utils/OfxParser';
+import { parseCsv, type CsvLayout } from '../utils/CsvParser';
+
+/**
+ * A statement line mapped to the shape of a transaction, before it is saved
+ */
+export interface ImportCandidate {
+  fitId?: string | null;
+  date: string;
+  description: string;
+  /** Always positive; the direction is given by `type` */
+  amount: string;
+  type: 'income' | 'expense';
+  paymentMethod?: string | null;
+  categoryId?: string | null;
+}
+
+export interface ImportDuplicate {
+  reason: 'fitid' | 'fuzzy' | 'file';
+  transactionId?: string;
+  description?: string;
+  date?: string;
+  score?: number;
+}
+
+export interface ImportPreviewEntry extends ImportCandidate {
+  /** Stable identifier used by the client to select entries */
+  key: string;
+  duplicate: ImportDuplicate | null;
+  /** Where the suggested categoryId came from, if any */
+  categorySource?: 'history' | 'keyword' | null;
+}
+
+export interface ImportTarget {
+  creditCardId?: string | null;
+  /** Bank account or wallet of the statement (not used with a card) */
+  accountId?: string | null;
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  transactions: Transaction[];
+}
+
+export interface BuiltinImportProfile extends CsvLayout {
+  id: string;
+  name: string;
+  builtin: true;
+}
+
+// Layouts conhecidos de exportação CSV, disponíveis para todos os usuários sem precisar cadastrar
+export const BUILTIN_IMPORT_PROFILES: BuiltinImportProfile[] = [
+  {
+    id: 'builtin-nubank-cartao',
+    name: 'Nubank - Fatura do cartão',
+    builtin: true,
+    delimiter: ',',
+    decimalSeparator: '.',
+    dateFormat: 'YYYY-MM-DD',
+    signConvention: 'positive_expense',
+    hasHeader: true,
+    skipRows: 0,
+    columns: { date: 'date', description: 'title', amount: 'amount' }
+  },
+  {
+    id: 'builtin-nubank-conta',
+    name: 'Nubank - Extrato da conta',
+    builtin: true,
+    delimiter: ',',
+    decimalSeparator: '.',
+    dateFormat: 'DD/MM/YYYY',
+    signConvention: 'negative_expense',
+    hasHeader: true,
+    skipRows: 0,
+    columns: { date: 'Data', description: 'Descrição', amount: 'Valor' }
+  },
+  {
+    id: 'builtin-itau-extrato',
+    name: 'Itaú - Extrato',
+    builtin: true,
+    delimiter: ';',
+    decimalSeparator: ',',
+    dateFormat: 'DD/MM/YYYY',
+    signConvention: 'negative_expense',
+    hasHeader: false,
+    skipRows: 0,
+    columns: { date: '1', description: '2', amount: '3' }
+  }
+];
+
+// Janela e limiar da detecção aproximada de duplicados
+const FUZZY_DATE_WINDOW_DAYS = 3;
+const FUZZY_SIMILARITY_THRESHOLD = 0.6;
+
+// Num cartão, um crédito do extrato é o pagamento da fatura ou um estorno, registrados pela fatura e pela
+// compra original; importado, viraria uma receita no cartão
+const CARD_CREDIT_IGNORED = 'crédito no cartão (pagamento ou estorno) não importado';
+
+// Palavras-chave para sugerir categorias padrão quando o histórico não tem nada parecido
+const CATEGORY_KEYWORDS: Array<{ category: string; type: 'income' | 'expense'; pattern: RegExp }> = [
+  { category: 'Supermercado', type: 'expense', pattern: /supermerc|\bmercado\b(?! livre| pago)|carrefour|assai|atacad|pao de acucar|hortifruti/ },
+  { category: 'Alimentação', type: 'expense', pattern: /padaria|panificadora|lanchonete|acougue|sorveteria/ },
+  { category: 'Restaurantes', type: 'expense', pattern: /restaurante|ifood|burger|mcdonald|pizzaria|churrascaria/ },
+  { category: 'Uber/Taxi', type: 'expense', pattern: /\buber\b|99 ?app|99 ?pop|taxi|cabify/ },
+  { category: 'Combustível', type: 'expense', pattern: /posto|combustivel|shell|ipiranga|petrobras/ },
+  { category: 'Estacionamento', type: 'expense', pattern: /estacionamento|estapar|parking/ },
+  { category: 'Farmácia', type: 'expense', pattern: /farmacia|drogaria|droga raia|drogasil|pague menos/ },
+  { category: 'Energia', type: 'expense', pattern: /enel|cemig|copel|eletropaulo|coelba|celpe|energia eletrica/ },
+  { category: 'Água', type: 'expense', pattern: /sabesp|cedae|copasa|saneamento/ },
+  { category: 'Internet', type: 'expense', pattern: /internet|fibra|net virtua/ },
+  { category: 'Telefone', type: 'expense', pattern: /\bvivo\b|\bclaro\b|\btim\b|recarga/ },
+  { category: 'Academia', type: 'expense', pattern: /smart ?fit|academia|bluefit|wellhub|gympass/ },
+  { category: 'Cinema', type: 'expense', pattern: /cinema|cinemark|ingresso/ },
+  { category: 'Viagem', type: 'expense', pattern: /latam|gol linhas|azul linhas|airbnb|booking|decolar/ },
+  { category: 'Pets', type: 'expense', pattern: /petz|cobasi|pet ?shop/ },
+  { category: 'Salário', type: 'income', pattern: /salario|folha de pagamento|pagto salario/ },
+  { category: 'Investimentos', type: 'income', pattern: /rendimento|dividendo|resgate/ }
+];
+
+function normalizeDescription(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, ' ');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Dice coefficient over character bigrams (0 = nothing in common, 1 = identical)
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const left = normalizeDescription(a);
+  const right = normalizeDescription(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const counts = new Map<string, number>();
+  bigrams(left).forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+
+  let matches = 0;
+  const rightGrams = bigrams(right);
+  rightGrams.forEach(gram => {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      matches++;
+      counts.set(gram, count - 1);
+    }
+  });
+
+  return (2 * matches) / (bigrams(left).length + rightGrams.length);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (24 * 60 * 60 * 1000);
+}
+
+function entryKey(candidate: ImportCandidate, index: number): string {
+  if (candidate.fitId) return `fitid:${candidate.fitId}`;
+  const digest = createHash('sha1')
+    .update(`${candidate.date}|${candidate.amount}|${candidate.type}|${candidate.description}|${index}`)
+    .digest('hex')
+    .slice(0, 12);
+  return `row:${digest}`;
+}
+
+function ofxPaymentMethod(transaction: OfxTransaction, kind: OfxStatement['kind'], target: ImportTarget): string | null {
+  if (target.creditCardId || kind === 'creditcard') return 'credito';
+
+  const text = `${transaction.name} ${transaction.memo}`;
+  if (/\bpix\b/i.test(text)) return 'pix';
+
+  switch (transaction.trnType) {
+    case 'POS':
+    case 'DEBIT':
+      return 'debito';
+    case 'ATM':
+    case 'CASH':
+      return 'dinheiro';
+    case 'XFER':
+    case 'PAYMENT':
+    case 'DIRECTDEP':
+    case 'DIRECTDEBIT':
+      return 'transferencia';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Transaction Import Service
+ * Maps bank statement files to transactions and detects entries that were already imported
+ */
+export class TransactionImportService {
+  private transactionService: TransactionService;
+
+  constructor(private storage: IStorage) {
+    this.transactionService = new TransactionService(storage);
+  }
+
+  /**
+   * Parse an OFX file and flag entries already present by FITID or by amount/date/description.
+   * On a card, credits (invoice payments and refunds) are left out and listed in `ignored`.
+   */
+  async previewOfx(content: string, target: ImportTarget): Promise<{
+    statement: Omit<OfxStatement, 'transactions'> & { count: number };
+    ignored: string[];
+    entries: ImportPreviewEntry[];
+  }> {
+    await this.assertTarget(target);
+
+    const { transactions, ...statement } = parseOfx(content);
+    const ignored: string[] = [];
+    const candidates = transactions.flatMap<ImportCandidate>((transaction, index) => {
+      const amount = Money.from(transaction.amount);
+      if (target.creditCardId && amount.isPositive()) {
+        ignored.push(`Lançamento ${index + 1}: ${CARD_CREDIT_IGNORED}`);
+        return [];
+      }
+      const description = [transaction.name, transaction.memo]
+        .filter((part, index, parts) => part && parts.indexOf(part) === index)
+        .join(' - ');
+
+      return [{
+        fitId: transaction.fitId || null,
+        date: transaction.date,
+        description: description || transaction.trnType,
+        amount: amount.abs().toString(),
+        type: amount.isNegative() ? 'expense' : 'income',
+        paymentMethod: ofxPaymentMethod(transaction, statement.kind, target)
+      }];
+    });
+
+    return {
+      statement: { ...statement, count: transactions.length },
+      ignored,
+      entries: await this.suggestCategories(await this.flagDuplicates(candidates, target))
+    };
+  }
+
+  /**
+   * Parse a bank CSV export with a mapping profile, flag duplicates and suggest categories.
+   * On a card, credits (invoice payments and refunds) are left out and listed in `errors`.
+   */
+  async previewCsv(content: string, layout: CsvLayout, target: ImportTarget): Promise<{
+    headers: string[];
+    errors: string[];
+    entries: ImportPreviewEntry[];
+  }> {
+    await this.assertTarget(target);
+
+    const { headers, rows, errors } = parseCsv(content, layout);
+    const candidates = rows.flatMap<ImportCandidate>(row => {
+      if (target.creditCardId && row.type === 'income') {
+        errors.push(`Linha ${row.line}: ${CARD_CREDIT_IGNORED}`);
+        return [];
+      }
+      return [{
+        date: row.date,
+        description: row.description,
+        amount: row.amount,
+        type: row.type,
+        paymentMethod: target.creditCardId ? 'credito' : null
+      }];
+    });
+
+    return {
+      headers,
+      errors,
+      entries: await this.suggestCategories(await this.flagDuplicates(candidates, target))
+    };
+  }
+
+  /**
+   * Fill categoryId from the most similar categorized transaction of the same type,
+   * falling back to keyword rules over the default category names
+   */
+  async suggestCategories(entries: ImportPreviewEntry[]): Promise<ImportPreviewEntry[]> {
+    const [categories, transactions] = await Promise.all([
+      this.storage.getCategories(),
+      this.storage.getTransactions()
+    ]);
+    const categoryIds = new Set(categories.map(c => c.id));
+    const history = transactions.filter(t => t.categoryId && categoryIds.has(t.categoryId));
+
+    return entries.map(entry => {
+      if (entry.categoryId) return entry;
+
+      let best: { categoryId: string; score: number } | null = null;
+      for (const transaction of history) {
+        if (transaction.type !== entry.type) continue;
+        const score = descriptionSimilarity(transaction.description, entry.description);
+        if (score >= FUZZY_SIMILARITY_THRESHOLD && (!best || score > best.score)) {
+          best = { categoryId: transaction.categoryId!, score };
+        }
+      }
+      if (best) {
+        return { ...entry, categoryId: best.categoryId, categorySource: 'history' };
+      }
+
+      const category = this.matchCategoryKeyword(entry, categories);
+      return category
+        ? { ...entry, categoryId: category.id, categorySource: 'keyword' }
+        : { ...entry, categorySource: null };
+    });
+  }
+
+  /**
+   * Flag candidates that match existing transactions of the same target (card or account)
+   */
+  async flagDuplicates(candidates: ImportCandidate[], target: ImportTarget): Promise<ImportPreviewEntry[]> {
+    // Numa conta, também valem os lançamentos sem conta (importados antes de as contas existirem)
+    const existing = (await this.storage.getTransactions())
+      .filter(t => (t.creditCardId || null) === (target.creditCardId || null))
+      .filter(t => !target.accountId || !t.accountId || t.accountId === target.accountId);
+    const existingByFitId = new Map(existing.filter(t => t.fitId).map(t => [t.fitId as string, t]));
+    const seenFitIds = new Set<string>();
+
+    return candidates.map((candidate, index) => {
+      const entry: ImportPreviewEntry = { ...candidate, key: entryKey(candidate, index), duplicate: null };
+
+      if (candidate.fitId) {
+        const match = existingByFitId.get(candidate.fitId);
+        if (match) {
+          entry.duplicate = { reason: 'fitid', transactionId: match.id, description: match.description, date: match.date };
+          return entry;
+        }
+        if (seenFitIds.has(candidate.fitId)) {
+          entry.duplicate = { reason: 'file' };
+          return entry;
+        }
+        seenFitIds.add(candidate.fitId);
+      }
+
+      const amount = Money.from(candidate.amount);
+      let best: { transaction: Transaction; score: number } | null = null;
+
+      for (const transaction of existing) {
+        if (transaction.type !== candidate.type || !amount.equals(transaction.amount)) continue;
+        if (daysBetween(transaction.date, candidate.date) > FUZZY_DATE_WINDOW_DAYS) continue;
+
+        const score = descriptionSimilarity(transaction.description, candidate.description);
+        if (score >= FUZZY_SIMILARITY_THRESHOLD && (!best || score > best.score)) {
+          best = { transaction, score };
+        }
+      }
+
+      if (best) {
+        entry.duplicate = {
+          reason: 'fuzzy',
+          transactionId: best.transaction.id,
+          description: best.transaction.description,
+          date: best.transaction.date,
+          score: Math.round(best.score * 100) / 100
+        };
+      }
+
+      return entry;
+    });
+  }
+
+  /**
+   * Save the selected entries through the same flow as POST /api/transactions, so card limits
+   * stay correct. Entries whose FITID was already imported are always skipped; fuzzy matches
+   * are saved, since the user chose to keep them in the preview. Credits are never saved on a card.
+   */
+  async importEntries(entries: ImportCandidate[], target: ImportTarget): Promise<ImportResult> {
+    await this.assertTarget(target);
+
+    const flagged = await this.flagDuplicates(entries, target);
+    const toImport = flagged.filter(entry =>
+      entry.duplicate?.reason !== 'fitid' && entry.duplicate?.reason !== 'file'
+      && !(target.creditCardId && entry.type === 'income')
+    );
+
+    // Conferir o limite do lote inteiro antes de gravar, para não deixar a importação pela metade
+    if (target.creditCardId) {
+      const importedExpenses = Money.sum(toImport.filter(entry => entry.type === 'expense').map(entry => entry.amount));
+      await this.transactionService.assertAvailableLimit(target.creditCardId, importedExpenses);
+    }
+
+    const created: Transaction[] = [];
+    for (const entry of toImport) {
+      created.push(await this.transactionService.recordTransaction({
+        description: entry.description,
+        amount: Money.from(entry.amount).toString(),
+        date: entry.date,
+        type: entry.type,
+        categoryId: entry.categoryId || null,
+        paymentMethod: entry.paymentMethod || null,
+        creditCardId: target.creditCardId || null,
+        accountId: target.accountId || null,
+        fitId: entry.fitId || null
+      }));
+    }
+
+    console.log(`📥 Importação concluída: ${created.length} importadas, ${entries.length - created.length} ignoradas`);
+
+    return {
+      imported: created.length,
+      skipped: entries.length - created.length,
+      transactions: created
+    };
+  }
+
+  private matchCategoryKeyword(entry: ImportCandidate, categories: Category[]): Category | undefined {
+    const description = normalizeDescription(entry.description);
+    const rule = CATEGORY_KEYWORDS.find(r => r.type === entry.type && r.pattern.test(description));
+    if (!rule) return undefined;
+
+    const name = normalizeDescription(rule.category);
+    return categories.find(c => c.type === entry.type && normalizeDescription(c.name) === name);
+  }
+
+  private async assertTarget(target: ImportTarget): Promise<void> {
+    if (target.creditCardId && target.accountId) {
+      throw new ValidationError('Destino inválido', ['Importe o extrato para um cartão ou para uma conta, não os dois']);
+    }
+    if (target.creditCardId && !(await this.storage.getCreditCardById(target.creditCardId))) {
+      throw new NotFoundError('Credit card');
+    }
+    if (target.accountId) {
+      await activeAccountOf(this.storage, target.accountId);
+    }
+  }
+}
@@ -1,318 +1,896 @@
-import { TransactionModel } from '../models/TransactionModel';
-import { CreditCardModel } from '../models/CreditCardModel';
 import { IStorage } from '../storage';
+import { Money } from '@shared/money';
+import type { CreditCard, InsertTransaction, PayrollKind, RecurrenceOverride, Transaction } from '@shared/schema';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/ErrorHandlingMiddleware';
+import { addDays, addMonths, differenceInCalendarMonths, format, parseISO } from 'date-fns';
+import { invoiceClosingDateFor, toDateKey } from '../utils/BillingCycle';
+import { recurrenceRuleOf, recurrenceSchedule } from '../utils/Recurrence';
+import { Clock, systemClock } from '../utils/Clock';
+import { InvoiceService, billingCardOf, cardChargeOf } from './InvoiceService';
+import { ExchangeRateService, convertToBrl } from './ExchangeRateService';
+import { activeAccountOf } from './AccountService';
+import { assertUnlocked } from './ReconciliationService';
+import { paycheckAmountOn } from './IncomeSourceService';
+
+// Ocorrências de séries recorrentes ficam lançadas com esta antecedência
+export const RECURRENCE_HORIZON_MONTHS = 3;
+
+const recurrenceRuleFields = ['recurrenceFrequency', 'recurrenceInterval', 'recurrenceDay', 'recurrenceEndDate', 'recurrenceCount'] as const;
+
+// Data em que a regra previu a ocorrência; raízes e ocorrências antigas não guardam, usam a própria data
+const scheduledDateOf = (t: Pick<Transaction, 'date' | 'occurrenceDate'>) => t.occurrenceDate ?? t.date;
+
+// Compara as regras já normalizadas: "monthly" enviado para uma série antiga (sem frequência) não muda nada
+function changesRecurrenceRule(existing: Transaction, changes: Partial<InsertTransaction>): boolean {
+  const current = recurrenceRuleOf(existing);
+  const next = recurrenceRuleOf({ ...existing, ...changes } as Transaction);
+  return JSON.stringify(current) !== JSON.stringify(next);
+}
+
+export interface TransactionListFilters {
+  startDate?: string;
+  endDate?: string;
+  categoryId?: string;
+}
+
+export interface RefundOptions {
+  /** Defaults to everything not refunded yet; ignored for whole purchases */
+  amount?: string | number;
+  /** Defaults to today */
+  date?: string;
+  /** Refund every installment of the purchase instead of only this one */
+  wholePurchase?: boolean;
+}
+
+/**
+ * Early payoff of the future installments of a card purchase: each one is discounted at a monthly rate
+ * for the months between its invoice and the open one, and the sum is charged on the open invoice
+ */
+export interface InstallmentPayoff {
+  parentId: string;
+  description: string;
+  /** Monthly discount rate, % */
+  discountRate: number;
+  /** Closing date of the invoice that receives the payoff charge */
+  invoiceClosingDate: string;
+  installments: Array<{
+    id: string;
+    installmentNumber: number | null;
+    date: string;
+    amount: Money;
+    monthsAhead: number;
+    discountedAmount: Money;
+  }>;
+  originalAmount: Money;
+  payoffAmount: Money;
+  savings: Money;
+  explanation: string;
+}
 
 /**
  * Transaction Service
  * Handles business logic for transactions including installments and credit card integration
+ * Changes to purchases of already closed invoices become adjustments on the card's open invoice
  */
 export class TransactionService {
-  constructor(private storage: IStorage) {}
+  private invoiceService: InvoiceService;
+  private exchangeRateService: ExchangeRateService;
+
+  constructor(private storage: IStorage, private clock: Clock = systemClock) {
+    this.invoiceService = new InvoiceService(storage, clock);
+    this.exchangeRateService = new ExchangeRateService(storage);
+  }
 
   /**
-   * Create a new transaction with business logic validation
+   * List transactions, narrowed to a date range (both ends required) or to a category
    */
-  async createTransaction(transactionData: any): Promise<TransactionModel> {
-    // Pre-process the data to handle null values
-    const processedData = {
-      ...transactionData,
-      creditCardId: transactionData.creditCardId === null ? undefined : transactionData.creditCardId,
-      installments: transactionData.installments === null ? undefined : transactionData.installments,
-      installmentNumber: transactionData.installmentNumber === null ? undefined : transactionData.installmentNumber,
-      parentTransactionId: transactionData.parentTransactionId === null ? undefined : transactionData.parentTransactionId
-    };
-    
-    const transaction = new TransactionModel(processedData);
-    
-    // Validate transaction
-    const validation = transaction.validate();
-    if (!validation.isValid) {
-      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+  async getTransactions(filters: TransactionListFilters = {}): Promise<Transaction[]> {
+    if (filters.startDate && filters.endDate) {
+      return this.storage.getTransactionsByDateRange(filters.startDate, filters.endDate);
+    }
+    if (filters.categoryId) {
+      return this.storage.getTransactionsByCategory(filters.categoryId);
     }
+    return this.storage.getTransactions();
+  }
 
-    // Handle credit card transactions
-    if (transaction.getCreditCardId() && transaction.getType() === 'expense') {
-      await this.validateCreditCardTransaction(transaction);
+  /**
+   * Transactions of one credit card between two dates (inclusive), subscriptions not included
+   */
+  async getCreditCardTransactions(creditCardId: string, startDate: string, endDate: string): Promise<Transaction[]> {
+    const transactions = await this.storage.getTransactions();
+    return transactions.filter(t =>
+      t.creditCardId === creditCardId && t.date >= startDate && t.date <= endDate
+    );
+  }
+
+  /**
+   * Create a transaction as POST /api/transactions does: checks the card limit, splits
+   * installments to the centavo and adds the full purchase to the card's used limit.
+   * Purchases in a foreign currency are converted into reais at the given rate or the table's.
+   * Returns the first installment (or the single transaction).
+   */
+  async recordTransaction(transactionData: InsertTransaction): Promise<Transaction> {
+    if (transactionData.type === 'refund') {
+      throw new ValidationError('Estorno inválido', ['Estornos são registrados a partir da compra original']);
+    }
+    if (transactionData.originalCurrency && transactionData.installments && transactionData.installments > 1) {
+      throw new ValidationError('Compra internacional inválida', ['Compras internacionais não podem ser parceladas']);
+    }
+    await this.assertAccountLink(transactionData.accountId, transactionData.creditCardId);
+    this.assertClearedStatus(transactionData);
+    this.assertRecurrenceRule(transactionData);
+    await assertUnlocked(this.storage, [transactionData]);
+    transactionData = await this.convertInternational(transactionData);
+
+    const isCardExpense = Boolean(transactionData.creditCardId) && transactionData.type === 'expense';
+    const totalAmount = Money.from(transactionData.amount);
+
+    // Verificar limite do cartão de crédito antes de criar a transação
+    if (isCardExpense) {
+      await this.assertAvailableLimit(transactionData.creditCardId!, totalAmount);
     }
 
-    // Handle installment transactions
-    if (transaction.isInstallmentTransaction()) {
-      return await this.createInstallmentTransactions(transaction);
+    let created: Transaction;
+    let createdAll: Transaction[];
+
+    if (transactionData.installments && transactionData.installments > 1) {
+      // Centavos que sobram da divisão vão para as primeiras parcelas: R$ 500/3 = 166,67 + 166,67 + 166,66
+      const installmentAmounts = totalAmount.allocate(transactionData.installments);
+
+      created = await this.storage.createTransaction({
+        ...transactionData,
+        amount: installmentAmounts[0].toString(),
+        installmentNumber: 1,
+        isInstallment: true,
+        installments: transactionData.installments,
+      });
+
+      console.log(`PARCELA CRIADA: ${created.amount} (Total: ${totalAmount}, Parcelas: ${transactionData.installments})`);
+
+      const promises: Promise<Transaction>[] = [];
+      for (let i = 2; i <= transactionData.installments; i++) {
+        const installmentDate = new Date(transactionData.date);
+        installmentDate.setMonth(installmentDate.getMonth() + (i - 1));
+
+        promises.push(this.storage.createTransaction({
+          ...transactionData,
+          amount: installmentAmounts[i - 1].toString(),
+          date: installmentDate.toISOString().split('T')[0],
+          installmentNumber: i,
+          parentTransactionId: created.id,
+          isInstallment: true,
+          installments: transactionData.installments
+        }));
+      }
+
+      createdAll = [created, ...await Promise.all(promises)];
+    } else {
+      created = await this.storage.createTransaction(transactionData);
+      createdAll = [created];
     }
 
-    // Update credit card limit if applicable (before creating)
-    if (transaction.getCreditCardId() && transaction.getType() === 'expense') {
-      await this.updateCreditCardLimit(transaction.getCreditCardId()!, transaction.getAmount());
+    // ⚡️ Compras parceladas ocupam o limite pelo valor total
+    if (isCardExpense) {
+      const creditCard = await this.billingCard(transactionData.creditCardId!);
+      if (creditCard) {
+        await this.storage.updateCreditCard(creditCard.id, {
+          currentUsed: Money.from(creditCard.currentUsed).plus(totalAmount).toString()
+        });
+      }
     }
 
-    // Create single transaction
-    const created = await this.storage.createTransaction(transaction.toData() as any);
+    await this.invoiceService.recordLateChanges([], createdAll);
 
-    return TransactionModel.fromData(created);
+    if (created.isRecurring && !created.isInstallment) {
+      await this.materializeSeries(created, [], this.recurrenceHorizon());
+    }
+
+    return created;
   }
 
   /**
-   * Update an existing transaction
+   * Throw a ValidationError when the card (or the main card whose limit it shares) cannot take a purchase of `amount`
    */
-  async updateTransaction(id: string, updateData: any): Promise<TransactionModel> {
-    const existingTransaction = await this.storage.getTransactionById(id);
-    if (!existingTransaction) {
-      throw new Error('Transaction not found');
+  async assertAvailableLimit(creditCardId: string, amount: Money): Promise<void> {
+    const creditCard = await this.billingCard(creditCardId);
+    if (!creditCard) return;
+
+    const currentUsed = Money.from(creditCard.currentUsed);
+    const cardLimit = Money.from(creditCard.limit);
+    if (currentUsed.plus(amount).greaterThan(cardLimit)) {
+      throw new ValidationError('Limite do cartão insuficiente', [
+        `Limite disponível: R$ ${cardLimit.minus(currentUsed)}. Valor da transação: R$ ${amount}`
+      ]);
     }
+  }
 
-    const originalTransaction = TransactionModel.fromData(existingTransaction);
-    const updatedTransaction = new TransactionModel({ ...existingTransaction, ...updateData });
+  /**
+   * Update a transaction; for card expenses the amount difference moves to the card's used limit
+   * Changing the original amount, currency or rate of an international purchase converts it again
+   * A new amount on a single occurrence of a recurring series is kept as an override of that occurrence
+   */
+  async updateTransaction(id: string, transactionData: Partial<InsertTransaction>): Promise<Transaction> {
+    const originalTransaction = await this.storage.getTransactionById(id);
+    if (!originalTransaction) {
+      throw new NotFoundError('Transaction');
+    }
 
-    // Validate updated transaction
-    const validation = updatedTransaction.validate();
-    if (!validation.isValid) {
-      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    const inSeries = Boolean(originalTransaction.isRecurring && !originalTransaction.isInstallment);
+    if (inSeries && changesRecurrenceRule(originalTransaction, transactionData)) {
+      throw new ValidationError('Regra de recorrência inválida', [
+        'Para mudar a regra, edite esta e as próximas ocorrências ou todas as ocorrências da série'
+      ]);
     }
+    this.assertRecurrenceRule(transactionData, originalTransaction);
 
-    // Handle credit card limit adjustments
-    if (originalTransaction.getCreditCardId() && originalTransaction.getType() === 'expense') {
-      const originalAmount = originalTransaction.getAmount();
-      const newAmount = updatedTransaction.getAmount();
-      const difference = newAmount - originalAmount;
+    const updatedTransaction = await this.applyChanges(originalTransaction, transactionData);
 
-      if (difference !== 0) {
-        await this.updateCreditCardLimit(originalTransaction.getCreditCardId()!, difference);
-      }
+    if (inSeries && originalTransaction.parentTransactionId && !Money.from(updatedTransaction.amount).equals(originalTransaction.amount)) {
+      await this.overrideOccurrence(originalTransaction, { amount: updatedTransaction.amount });
+    }
+    if (!inSeries && updatedTransaction.isRecurring && !updatedTransaction.isInstallment && !updatedTransaction.parentTransactionId) {
+      await this.materializeSeries(updatedTransaction, [], this.recurrenceHorizon());
     }
 
-    const updated = await this.storage.updateTransaction(id, updatedTransaction.toData());
-    return TransactionModel.fromData(updated);
+    return updatedTransaction;
   }
 
   /**
-   * Delete a transaction with proper credit limit recalculation
+   * Delete a transaction; card expenses are released from the used limit (and credited back on the
+   * open invoice when their invoice is already closed), taking their refunds with them
+   * Deleting one occurrence of a recurring series skips it, so it is not generated again
    */
-  async deleteTransaction(id: string): Promise<boolean> {
-    const existingTransaction = await this.storage.getTransactionById(id);
-    if (!existingTransaction) {
-      throw new Error('Transaction not found');
+  async deleteTransaction(id: string): Promise<void> {
+    const transaction = await this.storage.getTransactionById(id);
+    if (!transaction) {
+      throw new NotFoundError('Transaction');
     }
 
-    const transaction = TransactionModel.fromData(existingTransaction);
-    let affectedCardId: string | null = null;
-
-    // Track affected credit card
-    if (transaction.getCreditCardId() && transaction.getType() === 'expense') {
-      affectedCardId = transaction.getCreditCardId()!;
+    const refunds = await this.getRefundsOf([transaction]);
+    await assertUnlocked(this.storage, [transaction, ...refunds]);
+    if (!(await this.storage.deleteTransaction(id))) {
+      throw new NotFoundError('Transaction');
     }
-
-    // Delete transaction first
-    const result = await this.storage.deleteTransaction(id);
-
-    // Recalculate limit for affected credit card to ensure accuracy
-    if (affectedCardId) {
-      const { CreditCardService } = await import('./CreditCardService');
-      const creditCardService = new CreditCardService(this.storage);
-      await creditCardService.recalculateLimit(affectedCardId);
+    for (const refund of refunds) {
+      await this.storage.deleteTransaction(refund.id);
+    }
+    if (transaction.isRecurring && transaction.parentTransactionId) {
+      await this.overrideOccurrence(transaction, { skip: true });
     }
 
-    return result;
+    const removed = [transaction, ...refunds];
+    const released = Money.sum(removed.map(t => cardChargeOf(t)));
+    if (transaction.creditCardId && (transaction.type === 'expense' || transaction.type === 'refund')) {
+      console.log(`Transação excluída: ${transaction.description} - R$ ${transaction.amount}`);
+      await this.adjustCardUsed(transaction.creditCardId, released.negate());
+      await this.invoiceService.recordLateChanges(removed, []);
+    }
   }
 
   /**
-   * Delete all recurring transactions with proper credit limit handling
+   * Refund (estorno) a card purchase, fully or partially, or every installment of it with `wholePurchase`
+   * The refund is a transaction of its own, linked to the purchase: it credits the invoice of its date,
+   * gives the amount back to the card's limit and nets out of the category spending
+   * Returns the refunds created (one per installment for whole purchases)
    */
-  async deleteRecurringTransactions(parentId: string): Promise<boolean> {
-    // Get all recurring transactions
-    const transactions = await this.storage.getTransactions();
-    const recurringTransactions = transactions.filter(t => 
-      t.parentTransactionId === parentId || t.id === parentId
-    );
+  async refundTransaction(id: string, options: RefundOptions = {}): Promise<Transaction[]> {
+    const transaction = await this.storage.getTransactionById(id);
+    if (!transaction) {
+      throw new NotFoundError('Transaction');
+    }
+    if (!transaction.creditCardId || transaction.type !== 'expense') {
+      throw new ValidationError('Estorno indisponível', ['Só compras no cartão de crédito podem ser estornadas']);
+    }
 
-    // Track credit card impact per card
-    const creditCardImpacts = new Map<string, number>();
+    const purchases = options.wholePurchase && transaction.isInstallment
+      ? await this.storage.getInstallmentTransactions(transaction.parentTransactionId || transaction.id)
+      : [transaction];
+    const refunds = await this.getRefundsOf(purchases);
+    const refundable = purchases
+      .map(purchase => ({
+        purchase,
+        amount: Money.from(purchase.amount).minus(Money.sum(
+          refunds.filter(r => r.refundOfTransactionId === purchase.id).map(r => r.amount)
+        ))
+      }))
+      .filter(({ amount }) => amount.isPositive());
+
+    if (refundable.length === 0) {
+      throw new ConflictError('Compra já foi totalmente estornada');
+    }
 
-    for (const transactionData of recurringTransactions) {
-      const transaction = TransactionModel.fromData(transactionData);
-      if (transaction.getCreditCardId() && transaction.getType() === 'expense') {
-        const cardId = transaction.getCreditCardId()!;
-        const currentImpact = creditCardImpacts.get(cardId) || 0;
-        creditCardImpacts.set(cardId, currentImpact + transaction.getAmount());
+    if (options.amount !== undefined && !options.wholePurchase) {
+      const requested = Money.from(options.amount);
+      if (!requested.isPositive() || requested.greaterThan(refundable[0].amount)) {
+        throw new ValidationError('Valor do estorno inválido', [
+          `Disponível para estorno: R$ ${refundable[0].amount}. Valor informado: R$ ${requested}`
+        ]);
       }
+      refundable[0].amount = requested;
     }
 
-    // Delete transactions first
-    const result = await this.storage.deleteRecurringTransactions(parentId);
-
-    // Recalculate limits for affected credit cards to ensure accuracy
-    for (const [cardId] of Array.from(creditCardImpacts.entries())) {
-      const { CreditCardService } = await import('./CreditCardService');
-      const creditCardService = new CreditCardService(this.storage);
-      await creditCardService.recalculateLimit(cardId);
+    const date = options.date || toDateKey(this.clock.now());
+    await assertUnlocked(this.storage, [{ date, creditCardId: transaction.creditCardId }]);
+    const created: Transaction[] = [];
+    for (const { purchase, amount } of refundable) {
+      const installmentLabel = purchase.isInstallment ? ` (${purchase.installmentNumber}/${purchase.installments})` : '';
+      created.push(await this.storage.createTransaction({
+        description: `Estorno: ${purchase.description}${installmentLabel}`,
+        amount: amount.toString(),
+        date,
+        type: 'refund',
+        categoryId: purchase.categoryId,
+        paymentMethod: purchase.paymentMethod,
+        creditCardId: purchase.creditCardId,
+        refundOfTransactionId: purchase.id,
+      }));
     }
 
-    return result;
+    const total = Money.sum(created.map(t => t.amount));
+    await this.adjustCardUsed(transaction.creditCardId, total.negate());
+    await this.invoiceService.recordLateChanges([], created);
+
+    console.log(`Estorno de R$ ${total} em ${created.length} lançamento(s) de ${transaction.description}`);
+
+    return created;
   }
 
   /**
-   * Delete all installment transactions with proper credit limit recalculation
+   * Delete an installment purchase (first installment and the ones pointing to it),
+   * releasing the whole purchase from the card's used limit
    */
-  async deleteInstallmentTransactions(parentId: string): Promise<boolean> {
-    // Get all installment transactions
+  async deleteInstallmentTransactions(parentId: string): Promise<void> {
     const transactions = await this.storage.getTransactions();
-    const installmentTransactions = transactions.filter(t => 
-      t.parentTransactionId === parentId || t.id === parentId
+    const installmentTransactions = transactions.filter(t =>
+      t.id === parentId || t.parentTransactionId === parentId
     );
 
-    // Track affected credit cards
-    const affectedCreditCards = new Set<string>();
+    if (installmentTransactions.length === 0) {
+      throw new NotFoundError('Installment transactions');
+    }
 
-    for (const transactionData of installmentTransactions) {
-      const transaction = TransactionModel.fromData(transactionData);
-      if (transaction.getCreditCardId() && transaction.getType() === 'expense') {
-        affectedCreditCards.add(transaction.getCreditCardId()!);
+    // A soma das parcelas é exatamente o valor total da compra (centavos distribuídos na criação),
+    // menos o que já foi estornado
+    const removed = [...installmentTransactions, ...await this.getRefundsOf(installmentTransactions)];
+    await assertUnlocked(this.storage, removed);
+    const releasedByCard = new Map<string, Money>();
+    for (const transaction of removed) {
+      if (transaction.creditCardId) {
+        const released = releasedByCard.get(transaction.creditCardId) || Money.ZERO;
+        releasedByCard.set(transaction.creditCardId, released.plus(cardChargeOf(transaction)));
       }
     }
 
-    // Delete installment transactions first
-    const result = await this.storage.deleteInstallmentTransactions(parentId);
+    for (const [creditCardId, released] of Array.from(releasedByCard.entries())) {
+      await this.adjustCardUsed(creditCardId, released.negate());
+    }
 
-    // Recalculate limits for affected credit cards to ensure accuracy
-    for (const cardId of Array.from(affectedCreditCards)) {
-      const { CreditCardService } = await import('./CreditCardService');
-      const creditCardService = new CreditCardService(this.storage);
-      await creditCardService.recalculateLimit(cardId);
+    for (const transaction of removed) {
+      await this.storage.deleteTransaction(transaction.id);
     }
+    await this.invoiceService.recordLateChanges(removed, []);
 
-    return result;
+    console.log(`Parcelas excluídas com sucesso: ${installmentTransactions.length}`);
   }
 
   /**
-   * Get transactions by date range
+   * Delete a recurring transaction and all of its occurrences
    */
-  async getTransactionsByDateRange(startDate: string, endDate: string): Promise<TransactionModel[]> {
-    const transactions = await this.storage.getTransactionsByDateRange(startDate, endDate);
-    return transactions.map(t => TransactionModel.fromData(t));
+  async deleteRecurringTransactions(parentId: string): Promise<void> {
+    const occurrences = await this.getRecurringOccurrences(parentId);
+    await assertUnlocked(this.storage, occurrences);
+    if (!(await this.storage.deleteRecurringTransactions(parentId))) {
+      throw new NotFoundError('Recurring transactions');
+    }
+    await this.releaseCardCharges(occurrences);
   }
 
   /**
-   * Get transactions by category
+   * Apply the same changes to a recurring transaction and all of its occurrences
+   * Each occurrence keeps its own date; a new rule regenerates the occurrences from the first one
    */
-  async getTransactionsByCategory(categoryId: string): Promise<TransactionModel[]> {
-    const transactions = await this.storage.getTransactionsByCategory(categoryId);
-    return transactions.map(t => TransactionModel.fromData(t));
+  async updateRecurringTransactions(parentId: string, transactionData: Partial<InsertTransaction>): Promise<void> {
+    const { date: _date, ...changes } = transactionData;
+    const root = await this.storage.getTransactionById(parentId);
+    if (root && changesRecurrenceRule(root, changes)) {
+      await this.updateFollowingOccurrences(parentId, changes);
+      return;
+    }
+    for (const field of recurrenceRuleFields) {
+      delete changes[field];
+    }
+
+    const occurrences = await this.getRecurringOccurrences(parentId);
+    this.assertClearedStatus(changes);
+    this.assertRecurrenceRule(changes);
+    await assertUnlocked(this.storage, [...occurrences, ...occurrences.map(t => ({ ...t, ...changes }))]);
+    if (!(await this.storage.updateRecurringTransactions(parentId, changes))) {
+      throw new NotFoundError('Recurring transactions');
+    }
+    // Um novo valor para a série substitui os valores ajustados em ocorrências avulsas
+    if (root?.recurrenceOverrides && changes.amount !== undefined) {
+      await this.storage.updateTransaction(root.id, { recurrenceOverrides: this.withoutAmounts(root.recurrenceOverrides) });
+    }
+    await this.invoiceService.recordLateChanges(occurrences, await this.getRecurringOccurrences(parentId));
   }
 
   /**
-   * Get all transactions
+   * "This and following": the series stops the day before this occurrence, which becomes the first
+   * occurrence of a new series with the changes (and rule) applied; the later occurrences are generated again.
+   * On the first occurrence it changes the whole series. Skipped occurrences stay skipped
    */
-  async getAllTransactions(): Promise<TransactionModel[]> {
-    const transactions = await this.storage.getTransactions();
-    return transactions.map(t => TransactionModel.fromData(t));
+  async updateFollowingOccurrences(id: string, transactionData: Partial<InsertTransaction>): Promise<Transaction> {
+    const occurrence = await this.storage.getTransactionById(id);
+    if (!occurrence) {
+      throw new NotFoundError('Transaction');
+    }
+    if (!occurrence.isRecurring || occurrence.isInstallment) {
+      throw new ValidationError('Transação não recorrente', ['Só ocorrências de uma série recorrente podem ser editadas com as próximas']);
+    }
+    const root = occurrence.parentTransactionId
+      ? await this.storage.getTransactionById(occurrence.parentTransactionId)
+      : occurrence;
+    if (!root) {
+      throw new NotFoundError('Recurring transactions');
+    }
+
+    const scheduledDate = scheduledDateOf(occurrence);
+    const following = (await this.getRecurringOccurrences(root.id))
+      .filter(t => t.id !== root.id && t.id !== occurrence.id && scheduledDateOf(t) > scheduledDate);
+    const rule = recurrenceRuleOf(root);
+    const changes: Partial<InsertTransaction> = {
+      ...Object.fromEntries(recurrenceRuleFields.map(field => [field, root[field]])),
+      ...transactionData,
+      isRecurring: true,
+      parentTransactionId: null,
+    };
+    // A nova série herda só o que faltava da quantidade de ocorrências
+    if (transactionData.recurrenceCount === undefined && rule.count !== null) {
+      const previousOccurrences = recurrenceSchedule(rule, root.date, scheduledDate).length - 1;
+      changes.recurrenceCount = Math.max(1, rule.count - previousOccurrences);
+    }
+
+    this.assertClearedStatus(transactionData);
+    this.assertRecurrenceRule(changes, occurrence);
+    await assertUnlocked(this.storage, [...following, occurrence, { ...occurrence, ...changes }]);
+
+    const overrides = Object.entries(root.recurrenceOverrides ?? {});
+    let movedOverrides = Object.fromEntries(overrides.filter(([date]) => date > scheduledDate));
+    if (transactionData.amount !== undefined) {
+      movedOverrides = this.withoutAmounts(movedOverrides);
+    }
+    if (occurrence.id !== root.id) {
+      await this.storage.updateTransaction(root.id, {
+        recurrenceEndDate: toDateKey(addDays(parseISO(scheduledDate), -1)),
+        recurrenceCount: null,
+        recurrenceOverrides: Object.fromEntries(overrides.filter(([date]) => date < scheduledDate)),
+      });
+    }
+
+    for (const t of following) {
+      await this.storage.deleteTransaction(t.id);
+    }
+    await this.releaseCardCharges(following);
+
+    const newRoot = await this.applyChanges(occurrence, { ...changes, occurrenceDate: null, recurrenceOverrides: movedOverrides });
+    await this.materializeSeries(newRoot, [], this.recurrenceHorizon());
+    return newRoot;
   }
 
   /**
-   * Validate credit card transaction
+   * Apply the same changes to every installment of a purchase. With `proportionalAmount` the
+   * amount is the new value of each installment and the card's used limit follows the new total.
    */
-  private async validateCreditCardTransaction(transaction: TransactionModel): Promise<void> {
-    const creditCardData = await this.storage.getCreditCardById(transaction.getCreditCardId()!);
-    if (!creditCardData) {
-      throw new Error('Credit card not found');
-    }
-
-    const creditCard = CreditCardModel.fromData(creditCardData);
-    
-    if (!creditCard.canAccommodatePurchase(transaction.getAmount())) {
-      const availableLimit = creditCard.getAvailableLimit();
-      throw new Error(
-        `Limite do cartão insuficiente. Limite disponível: ${creditCard.getFormattedAvailableLimit()}. ` +
-        `Valor da transação: ${transaction.getFormattedAmount()}`
-      );
+  async updateInstallmentTransactions(
+    parentId: string,
+    transactionData: Partial<InsertTransaction>,
+    proportionalAmount = false
+  ): Promise<void> {
+    const installmentTransactions = await this.storage.getInstallmentTransactions(parentId);
+    if (!installmentTransactions || installmentTransactions.length === 0) {
+      throw new NotFoundError('Installment transactions');
     }
+    this.assertClearedStatus(transactionData);
+    await assertUnlocked(this.storage, [
+      ...installmentTransactions,
+      ...installmentTransactions.map(t => ({ ...t, ...transactionData }))
+    ]);
+
+    if (proportionalAmount && transactionData.amount) {
+      const newAmount = Money.from(transactionData.amount);
+
+      const parentTransaction = installmentTransactions.find(t => t.id === parentId);
+      if (!parentTransaction) {
+        throw new NotFoundError('Parent transaction');
+      }
+
+      const totalOldAmount = Money.sum(installmentTransactions.map(t => t.amount));
+      const totalNewAmount = newAmount.times(installmentTransactions.length);
+
+      if (parentTransaction.creditCardId && parentTransaction.type === 'expense') {
+        const creditCard = await this.billingCard(parentTransaction.creditCardId);
+        if (creditCard) {
+          const currentUsed = Money.from(creditCard.currentUsed);
+          const newCurrentUsed = currentUsed.plus(totalNewAmount.minus(totalOldAmount));
+
+          const cardLimit = Money.from(creditCard.limit);
+          if (newCurrentUsed.greaterThan(cardLimit)) {
+            const availableLimit = cardLimit.minus(currentUsed.minus(totalOldAmount));
+            throw new ValidationError('Limite do cartão insuficiente para a alteração', [
+              `Limite disponível: R$ ${availableLimit}. Valor total das parcelas: R$ ${totalNewAmount}`
+            ]);
+          }
+
+          await this.storage.updateCreditCard(creditCard.id, {
+            currentUsed: newCurrentUsed.toString()
+          });
+        }
+      }
+
+      await Promise.all(installmentTransactions.map(t =>
+        this.storage.updateTransaction(t.id, { ...transactionData, amount: newAmount.toString() })
+      ));
+    } else {
+      await Promise.all(installmentTransactions.map(t =>
+        this.storage.updateTransaction(t.id, transactionData)
+      ));
+    }
+
+    await this.invoiceService.recordLateChanges(
+      installmentTransactions,
+      await this.storage.getInstallmentTransactions(parentId)
+    );
   }
 
   /**
-   * Create installment transactions
+   * Simulate paying off the future installments of a card purchase at `discountRate` % a month
    */
-  private async createInstallmentTransactions(parentTransaction: TransactionModel): Promise<TransactionModel> {
-    const installments = parentTransaction.getInstallments()!;
-    const installmentAmount = parentTransaction.getInstallmentAmount();
-
-    // ⚡️ DEFINIR isInstallment = true para parcelas de cartão de crédito
-    const parentData = parentTransaction.toData() as any;
-    if (parentTransaction.getPaymentMethod() === 'credito') {
-      parentData.isInstallment = true;
-    }
-
-    // Create parent transaction (first installment)
-    parentTransaction.setInstallmentNumber(1);
-    parentTransaction.setAmount(installmentAmount);
-    
-    const createdParent = await this.storage.createTransaction(parentData);
-    
-    // Create subsequent installments first
-    const promises: Promise<any>[] = [];
-    
-    for (let i = 2; i <= installments; i++) {
-      const installmentDate = new Date(parentTransaction.getDate());
-      installmentDate.setMonth(installmentDate.getMonth() + (i - 1));
-      
-      const installmentTransaction = new TransactionModel({
-        ...parentTransaction.toData(),
-        amount: installmentAmount,
-        date: installmentDate.toISOString().split('T')[0],
-        installmentNumber: i,
-        parentTransactionId: createdParent.id,
-        isInstallment: parentTransaction.getPaymentMethod() === 'credito', // ⚡️ DEFINIR para todas as parcelas
-      });
-      
-      promises.push(this.storage.createTransaction(installmentTransaction.toData() as any));
+  async previewInstallmentPayoff(parentId: string, discountRate: number): Promise<InstallmentPayoff> {
+    const installmentTransactions = await this.storage.getInstallmentTransactions(parentId);
+    if (installmentTransactions.length === 0) {
+      throw new NotFoundError('Installment transactions');
+    }
+
+    const parentTransaction = installmentTransactions[0];
+    if (!parentTransaction.creditCardId || parentTransaction.type !== 'expense') {
+      throw new ValidationError('Antecipação indisponível', ['Só parcelas de compras no cartão de crédito podem ser antecipadas']);
+    }
+
+    const creditCard = await this.billingCard(parentTransaction.creditCardId);
+    if (!creditCard) {
+      throw new NotFoundError('Credit card');
     }
-    
-    await Promise.all(promises);
 
-    // Update credit card limit with total installment amount (all installments at once)
-    if (parentTransaction.getCreditCardId()) {
-      const totalAmount = installmentAmount * installments;
-      await this.updateCreditCardLimit(parentTransaction.getCreditCardId()!, totalAmount);
+    // Parcelas de faturas posteriores à aberta hoje; as que já estão nela (ou em faturas fechadas) ficam como estão
+    const invoiceClosingDate = invoiceClosingDateFor(this.clock.now(), creditCard.closingDay);
+    const rate = discountRate / 100;
+    const installments = installmentTransactions
+      .map(t => ({ transaction: t, closingDate: invoiceClosingDateFor(parseISO(t.date), creditCard.closingDay) }))
+      .filter(({ closingDate }) => toDateKey(closingDate) > toDateKey(invoiceClosingDate))
+      .map(({ transaction, closingDate }) => {
+        const monthsAhead = differenceInCalendarMonths(closingDate, invoiceClosingDate);
+        const amount = Money.from(transaction.amount);
+        return {
+          id: transaction.id,
+          installmentNumber: transaction.installmentNumber,
+          date: transaction.date,
+          amount,
+          monthsAhead,
+          discountedAmount: amount.times(1 / Math.pow(1 + rate, monthsAhead))
+        };
+      });
+
+    if (installments.length === 0) {
+      throw new ConflictError('Não há parcelas futuras para antecipar');
     }
 
-    return TransactionModel.fromData(createdParent);
+    const originalAmount = Money.sum(installments.map(i => i.amount));
+    const payoffAmount = Money.sum(installments.map(i => i.discountedAmount));
+    const savings = originalAmount.minus(payoffAmount);
+    const first = installments[0].installmentNumber;
+    const last = installments[installments.length - 1].installmentNumber;
+
+    return {
+      parentId,
+      description: parentTransaction.description,
+      discountRate,
+      invoiceClosingDate: toDateKey(invoiceClosingDate),
+      installments,
+      originalAmount,
+      payoffAmount,
+      savings,
+      explanation: `Antecipando as parcelas ${first} a ${last} de ${parentTransaction.installments} (R$ ${originalAmount}) `
+        + `com desconto de ${discountRate}% a.m., a fatura de ${format(invoiceClosingDate, 'dd/MM/yyyy')} recebe R$ ${payoffAmount}: `
+        + `economia de R$ ${savings}, que volta ao limite do cartão agora; o restante é liberado com o pagamento da fatura`
+    };
   }
 
   /**
-   * Update credit card limit
+   * Pay off the future installments of a card purchase: they are replaced by a single discounted
+   * charge dated today, and the discount is released from the card's used limit
    */
-  private async updateCreditCardLimit(creditCardId: string, amountChange: number): Promise<void> {
-    const creditCardData = await this.storage.getCreditCardById(creditCardId);
-    if (!creditCardData) {
-      throw new Error('Credit card not found');
+  async payOffInstallments(parentId: string, discountRate: number): Promise<{ transaction: Transaction; payoff: InstallmentPayoff }> {
+    const payoff = await this.previewInstallmentPayoff(parentId, discountRate);
+    const installmentTransactions = await this.storage.getInstallmentTransactions(parentId);
+    const parentTransaction = installmentTransactions[0];
+    const paidOff = installmentTransactions.filter(t => payoff.installments.some(i => i.id === t.id));
+    await assertUnlocked(this.storage, [
+      ...paidOff,
+      { date: toDateKey(this.clock.now()), creditCardId: parentTransaction.creditCardId }
+    ]);
+
+    const numbers = payoff.installments.map(i => i.installmentNumber);
+    const transaction = await this.storage.createTransaction({
+      description: `Antecipação: ${payoff.description} (${numbers[0]}-${numbers[numbers.length - 1]}/${parentTransaction.installments})`,
+      amount: payoff.payoffAmount.toString(),
+      date: toDateKey(this.clock.now()),
+      type: 'expense',
+      categoryId: parentTransaction.categoryId,
+      paymentMethod: parentTransaction.paymentMethod,
+      creditCardId: parentTransaction.creditCardId,
+    });
+
+    for (const installment of paidOff) {
+      await this.storage.deleteTransaction(installment.id);
     }
+    await this.adjustCardUsed(parentTransaction.creditCardId!, payoff.savings.negate());
+    await this.invoiceService.recordLateChanges(paidOff, [transaction]);
 
-    const creditCard = CreditCardModel.fromData(creditCardData);
-    const newCurrentUsed = Math.max(0, creditCard.getCurrentUsed() + amountChange);
-    
-    await this.storage.updateCreditCard(creditCardId, {
-      currentUsed: newCurrentUsed.toString()
-    });
+    console.log(`Parcelas antecipadas: ${paidOff.length} de ${payoff.description}, R$ ${payoff.originalAmount} → R$ ${payoff.payoffAmount}`);
+
+    return { transaction, payoff };
   }
 
   /**
-   * Recalculate credit card limit based on existing transactions AND subscriptions
+   * Create the occurrences of recurring transactions that their rules schedule up to
+   * RECURRENCE_HORIZON_MONTHS after `today`, so upcoming bills are already in the month they fall in
+   * Occurrences point to the root through parentTransactionId; generation resumes after the latest one,
+   * so reruns create nothing and deleted (skipped) occurrences do not come back
+   * Returns how many transactions were created
    */
-  async recalculateCreditCardLimit(creditCardId: string): Promise<void> {
+  async materializeRecurringTransactions(today: Date): Promise<number> {
+    const until = toDateKey(addMonths(today, RECURRENCE_HORIZON_MONTHS));
     const transactions = await this.storage.getTransactions();
-    const creditCardTransactions = transactions.filter(t => 
-      t.creditCardId === creditCardId && t.type === 'expense'
-    );
+    const recurringRoots = transactions.filter(t => t.isRecurring && !t.parentTransactionId && !t.isInstallment);
+    let created = 0;
 
-    // ⚡️ INCLUIR ASSINATURAS ATIVAS NO CÁLCULO
-    const subscriptions = await this.storage.getActiveSubscriptions();
-    const creditCardSubscriptions = subscriptions.filter(s => 
-      s.creditCardId === creditCardId && s.paymentMethod === 'credito' && s.isActive
-    );
+    for (const root of recurringRoots) {
+      const occurrences = transactions.filter(t => t.parentTransactionId === root.id);
+      created += (await this.materializeSeries(root, occurrences, until)).length;
+    }
+
+    if (created > 0) {
+      console.log(`Transações recorrentes geradas: ${created}`);
+    }
+    return created;
+  }
+
+  /**
+   * Remove every transaction of the current user
+   */
+  async clearAllTransactions(): Promise<void> {
+    await this.storage.clearAllTransactions();
+  }
+
+  /**
+   * Fill in the amount in reais of a purchase made in a foreign currency: original amount times the rate
+   * informed with it or, when none is, the table rate of the purchase date
+   * Data that does not touch the international fields is returned as is
+   */
+  private async convertInternational<T extends Partial<InsertTransaction>>(transactionData: T, existing?: Transaction): Promise<T> {
+    const touched = transactionData.originalCurrency !== undefined
+      || transactionData.originalAmount !== undefined
+      || transactionData.exchangeRate !== undefined;
+    if (!touched) return transactionData;
+
+    const merged = { ...existing, ...transactionData };
+    const currency = merged.originalCurrency?.toUpperCase();
+    if (!currency && !merged.originalAmount) {
+      return { ...transactionData, originalCurrency: null, originalAmount: null, exchangeRate: null };
+    }
+    if (!currency || !merged.originalAmount) {
+      throw new ValidationError('Compra internacional inválida', ['Informe a moeda e o valor original da compra']);
+    }
+
+    // A cotação já gravada continua valendo se a moeda e a data não mudaram
+    const keepsRate = existing?.exchangeRate && existing.originalCurrency === currency && existing.date === merged.date;
+    const rate = transactionData.exchangeRate
+      ?? (keepsRate ? existing!.exchangeRate! : (await this.exchangeRateService.rateFor(currency, merged.date!)).rate);
+
+    return {
+      ...transactionData,
+      originalCurrency: currency,
+      originalAmount: merged.originalAmount,
+      exchangeRate: Number(rate).toFixed(6),
+      amount: convertToBrl(merged.originalAmount, rate).toString(),
+    };
+  }
+
+  // Grava as alterações já validadas, acertando o limite do cartão e as faturas fechadas
+  private async applyChanges(originalTransaction: Transaction, transactionData: Partial<InsertTransaction>): Promise<Transaction> {
+    const id = originalTransaction.id;
+    if (transactionData.accountId !== undefined || transactionData.creditCardId !== undefined) {
+      await this.assertAccountLink(
+        transactionData.accountId === undefined ? originalTransaction.accountId : transactionData.accountId,
+        transactionData.creditCardId === undefined ? originalTransaction.creditCardId : transactionData.creditCardId,
+        transactionData.accountId === undefined || transactionData.accountId === originalTransaction.accountId
+      );
+    }
+
+    this.assertClearedStatus(transactionData);
+
+    const changes = await this.convertInternational(transactionData, originalTransaction);
+    await assertUnlocked(this.storage, [originalTransaction, { ...originalTransaction, ...changes }]);
+    const updatedTransaction = await this.storage.updateTransaction(id, changes);
+    if (!updatedTransaction) {
+      throw new NotFoundError('Transaction');
+    }
+
+    if (originalTransaction.creditCardId) {
+      const delta = cardChargeOf({ ...updatedTransaction, creditCardId: originalTransaction.creditCardId })
+        .minus(cardChargeOf(originalTransaction));
+      if (!delta.isZero()) {
+        await this.adjustCardUsed(originalTransaction.creditCardId, delta);
+      }
+    }
+
+    await this.invoiceService.recordLateChanges([originalTransaction], [updatedTransaction]);
+
+    return updatedTransaction;
+  }
+
+  // Cria as ocorrências que a regra prevê depois da última existente, até `until`, com os ajustes de cada uma
+  private async materializeSeries(root: Transaction, occurrences: Transaction[], until: string): Promise<Transaction[]> {
+    const latest = occurrences.map(scheduledDateOf).reduce((max, date) => (date > max ? date : max), root.date);
+    const overrides = root.recurrenceOverrides ?? {};
+    const created: Transaction[] = [];
+
+    for (const date of recurrenceSchedule(recurrenceRuleOf(root), root.date, until)) {
+      if (date <= latest || overrides[date]?.skip) continue;
+
+      const amount = overrides[date]?.amount ?? await this.seriesAmountOn(root, date);
+      created.push(await this.storage.createTransaction({
+        description: root.description,
+        amount,
+        date,
+        type: root.type,
+        categoryId: root.categoryId,
+        paymentMethod: root.paymentMethod,
+        creditCardId: root.creditCardId,
+        accountId: root.accountId,
+        isRecurring: true,
+        parentTransactionId: root.id,
+        occurrenceDate: date,
+        incomeSourceId: root.incomeSourceId,
+        payrollKind: root.payrollKind as PayrollKind | null,
+      }));
+
+      if (root.creditCardId && root.type === 'expense') {
+        await this.adjustCardUsed(root.creditCardId, Money.from(amount));
+      }
+    }
+
+    // Ocorrência gerada com atraso (servidor parado) pode cair numa fatura já fechada
+    await this.invoiceService.recordLateChanges([], created);
+    return created;
+  }
+
+  // Contracheques seguem a fonte de renda: os dias úteis do mês e as tabelas vigentes mudam o líquido
+  private async seriesAmountOn(root: Transaction, date: string): Promise<string> {
+    const paycheck = root.incomeSourceId && await paycheckAmountOn(this.storage, root.incomeSourceId, date);
+    return paycheck || root.amount;
+  }
+
+  // Guarda na raiz da série o ajuste de uma ocorrência (pular ou outro valor)
+  private async overrideOccurrence(occurrence: Transaction, override: RecurrenceOverride): Promise<void> {
+    const root = await this.storage.getTransactionById(occurrence.parentTransactionId!);
+    if (!root) return;
+
+    const date = scheduledDateOf(occurrence);
+    const overrides = root.recurrenceOverrides ?? {};
+    await this.storage.updateTransaction(root.id, {
+      recurrenceOverrides: { ...overrides, [date]: { ...overrides[date], ...override } },
+    });
+  }
+
+  private withoutAmounts(overrides: Record<string, RecurrenceOverride>): Record<string, RecurrenceOverride> {
+    return Object.fromEntries(Object.entries(overrides)
+      .filter(([, override]) => override.skip)
+      .map(([date]) => [date, { skip: true }]));
+  }
+
+  // Libera do limite dos cartões as ocorrências removidas (e credita as de faturas já fechadas)
+  private async releaseCardCharges(removed: Transaction[]): Promise<void> {
+    for (const t of removed) {
+      const charge = cardChargeOf(t);
+      if (t.creditCardId && !charge.isZero()) {
+        await this.adjustCardUsed(t.creditCardId, charge.negate());
+      }
+    }
+    await this.invoiceService.recordLateChanges(removed, []);
+  }
+
+  private recurrenceHorizon(): string {
+    return toDateKey(addMonths(this.clock.now(), RECURRENCE_HORIZON_MONTHS));
+  }
+
+  // Compras no cartão não saem de uma conta: a conta é debitada no pagamento da fatura
+  private async assertAccountLink(accountId?: string | null, creditCardId?: string | null, unchanged = false): Promise<void> {
+    if (!accountId) return;
+    if (creditCardId) {
+      throw new ValidationError('Conta inválida', [
+        'Transações no cartão de crédito não são ligadas a uma conta: escolha a conta ao pagar a fatura'
+      ]);
+    }
+    if (!unchanged) {
+      await activeAccountOf(this.storage, accountId);
+    }
+  }
 
-    const transactionTotal = creditCardTransactions.reduce((sum, t) => sum + parseFloat(t.amount), 0);
-    const subscriptionTotal = creditCardSubscriptions.reduce((sum, s) => sum + parseFloat(s.amount), 0);
-    const totalUsed = transactionTotal + subscriptionTotal;
+  // Só a conciliação marca um lançamento como conciliado; conferir ("cleared") pode ser feito direto
+  private assertClearedStatus(transactionData: Partial<InsertTransaction>): void {
+    if (transactionData.clearedStatus === 'reconciled' || transactionData.reconciliationId) {
+      throw new ValidationError('Status de conciliação inválido', [
+        'Lançamentos ficam conciliados ao concluir a conciliação do extrato'
+      ]);
+    }
+  }
+
+  // A série (datas geradas e ajustes) é controlada pelo servidor; a regra precisa fazer sentido
+  private assertRecurrenceRule(transactionData: Partial<InsertTransaction>, existing?: Transaction): void {
+    if (transactionData.occurrenceDate !== undefined || transactionData.recurrenceOverrides !== undefined) {
+      throw new ValidationError('Série recorrente inválida', [
+        'As ocorrências são geradas pela regra: exclua uma ocorrência para pulá-la ou edite só o valor dela'
+      ]);
+    }
 
-    await this.storage.updateCreditCard(creditCardId, {
-      currentUsed: totalUsed.toString()
+    const merged = { ...existing, ...transactionData };
+    const errors: string[] = [];
+    if (merged.recurrenceFrequency && !merged.isRecurring) {
+      errors.push('Marque a transação como recorrente para definir a regra');
+    }
+    if (merged.recurrenceFrequency === 'business_day' && !(merged.recurrenceDay && merged.recurrenceDay <= 23)) {
+      errors.push('Informe qual dia útil do mês (1 a 23)');
+    }
+    if (merged.recurrenceEndDate && merged.date && merged.recurrenceEndDate < merged.date) {
+      errors.push('A data final da recorrência deve ser depois da primeira ocorrência');
+    }
+    if (errors.length > 0) {
+      throw new ValidationError('Regra de recorrência inválida', errors);
+    }
+  }
+
+  // Cartão dono do limite: o titular, para os cartões virtuais e adicionais
+  private async billingCard(creditCardId: string): Promise<CreditCard | undefined> {
+    const creditCard = await this.storage.getCreditCardById(creditCardId);
+    return creditCard && billingCardOf(this.storage, creditCard);
+  }
+
+  // Soma `delta` ao limite usado do cartão, sem deixar negativo
+  private async adjustCardUsed(creditCardId: string, delta: Money): Promise<void> {
+    const creditCard = await this.billingCard(creditCardId);
+    if (!creditCard) return;
+
+    const currentUsed = Money.from(creditCard.currentUsed);
+    const newCurrentUsed = Money.max(Money.ZERO, currentUsed.plus(delta));
+    await this.storage.updateCreditCard(creditCard.id, {
+      currentUsed: newCurrentUsed.toString()
     });
+
+    console.log(`Limite do cartão atualizado: R$ ${currentUsed} → R$ ${newCurrentUsed}`);
+  }
+
+  // Estornos lançados contra qualquer uma das transações
+  private async getRefundsOf(purchases: Transaction[]): Promise<Transaction[]> {
+    const ids = new Set(purchases.map(t => t.id));
+    const transactions = await this.storage.getTransactions();
+    return transactions.filter(t => t.type === 'refund' && t.refundOfTransactionId && ids.has(t.refundOfTransactionId));
+  }
+
+  // A transação de origem e todas as ocorrências geradas a partir dela
+  private async getRecurringOccurrences(parentId: string): Promise<Transaction[]> {
+    const transactions = await this.storage.getTransactions();
+    return transactions.filter(t => t.id === parentId || t.parentTransactionId === parentId);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,184 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { MemStorage, DatabaseStorage, type IStorage } from "./storage";
+import { runWithUser } from "./utils/RequestContext";
+import { Money } from "@shared/money";
+import { silenceConsole } from "./testing";
+
+silenceConsole();
+
+// Colunas decimal voltam do PostgreSQL com as casas da coluna ("200.00"): comparar pelo valor
+const amountOf = (value: string | null | undefined) => Money.from(value).toString();
+
+/**
+ * Behavior every IStorage implementation must share, as documented on the interface
+ * Runs against a database only when DATABASE_URL is set; each run uses fresh users so it never touches existing data
+ */
+function describeStorage(name: string, create: () => Promise<IStorage>, skip: string | false = false) {
+  describe(`${name} contract`, { skip }, () => {
+    let storage: IStorage;
+    let userId: string;
+    let otherUserId: string;
+    const asUser = <T>(fn: () => Promise<T>) => runWithUser(userId, fn);
+    const asOther = <T>(fn: () => Promise<T>) => runWithUser(otherUserId, fn);
+
+    before(async () => {
+      storage = await create();
+      const suffix = randomUUID();
+      userId = (await storage.createUser({ email: ` Contrato-${suffix}@Example.com `, passwordHash: "x" })).id;
+      otherUserId = (await storage.createUser({ email: `outro-${suffix}@example.com`, passwordHash: "x" })).id;
+    });
+
+    it("normalizes e-mails and seeds the default categories of a new user", async () => {
+      const user = await storage.getUser(userId);
+      assert.equal(user!.email, user!.email.trim().toLowerCase());
+      assert.equal((await storage.getUserByEmail(user!.email.toUpperCase()))!.id, userId);
+
+      const categories = await asUser(() => storage.getCategories());
+      assert.ok(categories.some(c => c.type === "income") && categories.some(c => c.type === "expense"));
+    });
+
+    it("only lets each user see and change their own rows", async () => {
+      const transaction = await asUser(() => storage.createTransaction({
+        description: "Mercado", amount: "200", date: "2027-03-02", type: "expense",
+      }));
+
+      assert.equal(await asOther(() => storage.getTransactionById(transaction.id)), undefined);
+      assert.ok(!(await asOther(() => storage.getTransactions())).some(t => t.id === transaction.id));
+      assert.equal(await asOther(() => storage.updateTransaction(transaction.id, { amount: "1" })), undefined);
+      assert.equal(await asOther(() => storage.deleteTransaction(transaction.id)), false);
+      assert.equal(amountOf((await asUser(() => storage.getTransactionById(transaction.id)))!.amount), "200.00");
+    });
+
+    it("filters transactions by an inclusive date range and links installments to their parent", async () => {
+      const parent = await asUser(() => storage.createTransaction({
+        description: "Sofá", amount: "100", date: "2027-04-01", type: "expense", installments: 2, installmentNumber: 1,
+      }));
+      await asUser(() => storage.createTransaction({
+        description: "Sofá", amount: "100", date: "2027-05-01", type: "expense", installments: 2, installmentNumber: 2,
+        parentTransactionId: parent.id,
+      }));
+
+      const april = await asUser(() => storage.getTransactionsByDateRange("2027-04-01", "2027-04-30"));
+      assert.deepEqual(april.map(t => t.id), [parent.id]);
+      const installments = await asUser(() => storage.getInstallmentTransactions(parent.id));
+      assert.deepEqual(installments.map(t => [t.installmentNumber, t.date]), [[1, "2027-04-01"], [2, "2027-05-01"]]);
+
+      assert.equal(await asUser(() => storage.deleteInstallmentTransactions(parent.id)), true);
+      assert.deepEqual(await asUser(() => storage.getInstallmentTransactions(parent.id)), []);
+    });
+
+    it("keeps one setting per key for each user", async () => {
+      await asUser(() => storage.createOrUpdateSetting({ key: "contrato", value: "1" }));
+      await asUser(() => storage.createOrUpdateSetting({ key: "contrato", value: "2" }));
+      await asOther(() => storage.createOrUpdateSetting({ key: "contrato", value: "3" }));
+
+      assert.equal((await asUser(() => storage.getSettingByKey("contrato")))!.value, "2");
+      assert.deepEqual((await asUser(() => storage.getSettings())).filter(s => s.key === "contrato").map(s => s.value), ["2"]);
+    });
+
+    it("lists only active subscriptions and toggles them", async () => {
+      const subscription = await asUser(() => storage.createSubscription({
+        name: "Streaming", service: "netflix", amount: "39.90", billingDate: 5, paymentMethod: "pix",
+      }));
+      assert.deepEqual((await asUser(() => storage.getActiveSubscriptions())).map(s => s.id), [subscription.id]);
+
+      assert.equal((await asUser(() => storage.toggleSubscription(subscription.id)))!.isActive, false);
+      assert.deepEqual(await asUser(() => storage.getActiveSubscriptions()), []);
+      assert.equal(await asOther(() => storage.toggleSubscription(subscription.id)), undefined);
+    });
+
+    it("lists account transfers oldest first with the account on either side", async () => {
+      const [checking, wallet, savings] = await Promise.all(["Conta", "Carteira", "Poupança"].map(name => asUser(() =>
+        storage.createAccount({ name, type: "checking", openingBalance: "0", openingDate: "2027-01-01" })
+      )));
+      await asUser(() => storage.createAccountTransfer({ fromAccountId: wallet.id, toAccountId: checking.id, amount: "20", date: "2027-02-10" }));
+      await asUser(() => storage.createAccountTransfer({ fromAccountId: checking.id, toAccountId: wallet.id, amount: "10", date: "2027-02-01" }));
+      await asUser(() => storage.createAccountTransfer({ fromAccountId: wallet.id, toAccountId: savings.id, amount: "5", date: "2027-02-05" }));
+
+      const transfers = await asUser(() => storage.getAccountTransfers(checking.id));
+      assert.deepEqual(transfers.map(t => [t.date, amountOf(t.amount)]), [["2027-02-01", "10.00"], ["2027-02-10", "20.00"]]);
+    });
+
+    it("deletes an invoice along with its items and payments", async () => {
+      const card = await asUser(() => storage.createCreditCard({
+        name: "Contrato", brand: "visa", bank: "itau", limit: "1000", closingDay: 10, dueDay: 20,
+      }));
+      const invoice = await asUser(() => storage.createCreditCardInvoice({
+        creditCardId: card.id, closingDate: "2027-03-10", totalAmount: "50", paidAmount: "0", status: "closed",
+      }));
+      assert.equal((await asUser(() => storage.getCreditCardInvoiceByCardAndDate(card.id, "2027-03-10")))!.id, invoice.id);
+      assert.equal(await asOther(() => storage.getCreditCardInvoiceByCardAndDate(card.id, "2027-03-10")), undefined);
+
+      await asUser(() => storage.createCreditCardInvoiceItem({
+        invoiceId: invoice.id, kind: "purchase", description: "Livro", amount: "50", date: "2027-03-01",
+      }));
+      await asUser(() => storage.createCreditCardInvoicePayment({ invoiceId: invoice.id, amount: "30", date: "2027-03-18" }));
+      await asUser(() => storage.createCreditCardInvoicePayment({ invoiceId: invoice.id, amount: "20", date: "2027-03-15" }));
+      const payments = await asUser(() => storage.getCreditCardInvoicePayments(invoice.id));
+      assert.deepEqual(payments.map(p => p.date), ["2027-03-15", "2027-03-18"]);
+
+      assert.equal(await asUser(() => storage.deleteCreditCardInvoice(invoice.id)), true);
+      assert.equal(await asUser(() => storage.getCreditCardInvoiceByCardAndDate(card.id, "2027-03-10")), undefined);
+      assert.deepEqual(await asUser(() => storage.getCreditCardInvoiceItemsByInvoice(invoice.id)), []);
+      assert.deepEqual(await asUser(() => storage.getCreditCardInvoicePayments(invoice.id)), []);
+    });
+
+    it("keeps one exchange rate per currency and day and finds the latest on or before a date", async () => {
+      await asUser(() => storage.saveExchangeRate({ currency: "USD", date: "2027-03-01", rate: "5.1", source: "ptax" }));
+      await asUser(() => storage.saveExchangeRate({ currency: "USD", date: "2027-03-03", rate: "5.2", source: "ptax" }));
+      await asUser(() => storage.saveExchangeRate({ currency: "USD", date: "2027-03-01", rate: "5.15", source: "manual" }));
+
+      const rates = await asUser(() => storage.getExchangeRates("USD"));
+      assert.deepEqual(rates.map(r => [r.date, Number(r.rate)]), [["2027-03-03", 5.2], ["2027-03-01", 5.15]]);
+      assert.equal((await asUser(() => storage.getExchangeRateOn("USD", "2027-03-02")))!.date, "2027-03-01");
+      assert.equal(await asUser(() => storage.getExchangeRateOn("USD", "2027-02-28")), undefined);
+      assert.equal(await asOther(() => storage.getExchangeRateOn("USD", "2027-03-03")), undefined);
+    });
+
+    it("orders reconciliations by the newest statement", async () => {
+      const account = await asUser(() => storage.createAccount({
+        name: "Conciliada", type: "checking", openingBalance: "0", openingDate: "2027-01-01",
+      }));
+      for (const statementDate of ["2027-01-31", "2027-03-31", "2027-02-28"]) {
+        await asUser(() => storage.createReconciliation({ accountId: account.id, statementDate, statementBalance: "0" }));
+      }
+      const reconciliations = (await asUser(() => storage.getReconciliations())).filter(r => r.accountId === account.id);
+      assert.deepEqual(reconciliations.map(r => r.statementDate), ["2027-03-31", "2027-02-28", "2027-01-31"]);
+    });
+
+    it("unlinks the paychecks and deletes the vacations of a deleted income source", async () => {
+      const source = await asUser(() => storage.createIncomeSource({ name: "Empresa", grossSalary: "3000", startDate: "2027-01-01" }));
+      const paycheck = await asUser(() => storage.createTransaction({
+        description: "Empresa", amount: "2700", date: "2027-02-05", type: "income", incomeSourceId: source.id,
+      }));
+      await asUser(() => storage.createVacation({ incomeSourceId: source.id, startDate: "2027-07-01", days: 30 }));
+
+      assert.equal(await asUser(() => storage.deleteIncomeSource(source.id)), true);
+      assert.equal((await asUser(() => storage.getTransactionById(paycheck.id)))!.incomeSourceId, null);
+      assert.deepEqual(await asUser(() => storage.getVacations(source.id)), []);
+    });
+
+    it("replaces the state of a job by its name", async () => {
+      const name = `contrato-${randomUUID()}`;
+      const state = {
+        name, lastRunAt: new Date(2027, 0, 1), lastSuccessAt: null, nextRunAt: new Date(2027, 0, 2),
+        lastStatus: "failed", lastError: "boom", lastResult: null, consecutiveFailures: 1, totalRuns: 1,
+      };
+      await storage.saveJobState(state);
+      await storage.saveJobState({ ...state, lastStatus: "success", lastError: null, lastResult: { created: 2 }, consecutiveFailures: 0, totalRuns: 2 });
+
+      const saved = (await storage.getJobStates()).filter(s => s.name === name);
+      assert.deepEqual(saved.map(s => [s.lastStatus, s.lastResult, s.totalRuns]), [["success", { created: 2 }, 2]]);
+      assert.equal(saved[0].nextRunAt!.getTime(), state.nextRunAt.getTime());
+    });
+  });
+}
+
+describeStorage("MemStorage", async () => new MemStorage());
+describeStorage(
+  "DatabaseStorage",
+  async () => new DatabaseStorage((await import("./db")).db!),
+  !process.env.DATABASE_URL && "DATABASE_URL não configurada",
+);
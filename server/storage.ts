@@ -9,14 +9,157 @@ import {
   type InsertSetting,
   type CreditCard,
   type InsertCreditCard,
+  type Account,
+  type InsertAccount,
+  type AccountTransfer,
+  type InsertAccountTransfer,
   type Subscription,
   type InsertSubscription,
   type CreditCardInvoice,
-  type InsertCreditCardInvoice
+  type InsertCreditCardInvoice,
+  type CreditCardInvoiceItem,
+  type InsertCreditCardInvoiceItem,
+  type CreditCardInvoicePayment,
+  type InsertCreditCardInvoicePayment,
+  type Reconciliation,
+  type InsertReconciliation,
+  type ImportProfile,
+  type InsertImportProfile,
+  type ExchangeRate,
+  type InsertExchangeRate,
+  type IncomeSource,
+  type InsertIncomeSource,
+  type Vacation,
+  type InsertVacation,
+  type RewardProgram,
+  type InsertRewardProgram,
+  type RewardRedemption,
+  type InsertRewardRedemption,
+  type JobState,
+  categories,
+  transactions,
+  budgets,
+  settings,
+  creditCards,
+  accounts,
+  accountTransfers,
+  subscriptions,
+  creditCardInvoices,
+  creditCardInvoiceItems,
+  creditCardInvoicePayments,
+  reconciliations,
+  importProfiles,
+  exchangeRates,
+  rewardPrograms,
+  incomeSources,
+  vacations,
+  rewardRedemptions,
+  jobStates
 } from "@shared/schema";
+import * as schema from "@shared/schema";
+import * as authSchema from "@shared/auth-schema";
+import { users, type User, type InsertUser } from "@shared/auth-schema";
+import { Money } from "@shared/money";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, getTableColumns, gte, is, lte, or } from "drizzle-orm";
+import { PgTable } from "drizzle-orm/pg-core";
+import { db } from "./db";
+import { FileJournal, type CollectionsSnapshot, type JournalMutation } from "./utils/FileJournal";
+import { getCurrentUserId } from "./utils/RequestContext";
+
+// Default income categories
+const incomeCategories: InsertCategory[] = [
+  { name: "Salário", icon: "💰", color: "#10B981", type: "income" },
+  { name: "Vale Transporte", icon: "🚇", color: "#2563EB", type: "income" },
+  { name: "Vale Refeição", icon: "🍽️", color: "#F59E0B", type: "income" },
+  { name: "Freelance", icon: "💻", color: "#8B5CF6", type: "income" },
+  { name: "Bônus", icon: "🎁", color: "#EC4899", type: "income" },
+  { name: "Investimentos", icon: "📈", color: "#059669", type: "income" },
+  { name: "Vendas", icon: "🏪", color: "#7C3AED", type: "income" },
+  { name: "Aluguel", icon: "🏘️", color: "#DC2626", type: "income" },
+  { name: "Pensão", icon: "👥", color: "#0891B2", type: "income" },
+  { name: "Restituição", icon: "🧾", color: "#CA8A04", type: "income" },
+  { name: "Outros", icon: "💵", color: "#6B7280", type: "income" },
+];
+
+// Default expense categories  
+const expenseCategories: InsertCategory[] = [
+  { name: "Alimentação", icon: "🍔", color: "#EF4444", type: "expense" },
+  { name: "Supermercado", icon: "🛒", color: "#DC2626", type: "expense" },
+  { name: "Restaurantes", icon: "🍽️", color: "#F59E0B", type: "expense" },
+  { name: "Transporte", icon: "🚗", color: "#F59E0B", type: "expense" },
+  { name: "Combustível", icon: "⛽", color: "#EF4444", type: "expense" },
+  { name: "Uber/Taxi", icon: "🚖", color: "#FCD34D", type: "expense" },
+  { name: "Estacionamento", icon: "🅿️", color: "#6B7280", type: "expense" },
+  { name: "Moradia", icon: "🏠", color: "#8B5CF6", type: "expense" },
+  { name: "Aluguel", icon: "🏘️", color: "#7C3AED", type: "expense" },
+  { name: "Financiamento", icon: "🏦", color: "#DC2626", type: "expense" },
+  { name: "Condomínio", icon: "🏢", color: "#6B7280", type: "expense" },
+  { name: "Energia", icon: "⚡", color: "#FCD34D", type: "expense" },
+  { name: "Água", icon: "💧", color: "#0891B2", type: "expense" },
+  { name: "Gás", icon: "🔥", color: "#F59E0B", type: "expense" },
+  { name: "Internet", icon: "📡", color: "#2563EB", type: "expense" },
+  { name: "Telefone", icon: "📞", color: "#059669", type: "expense" },
+  { name: "Saúde", icon: "🏥", color: "#10B981", type: "expense" },
+  { name: "Farmácia", icon: "💊", color: "#EF4444", type: "expense" },
+  { name: "Médico", icon: "👨‍⚕️", color: "#059669", type: "expense" },
+  { name: "Dentista", icon: "🦷", color: "#0891B2", type: "expense" },
+  { name: "Plano de Saúde", icon: "🩺", color: "#DC2626", type: "expense" },
+  { name: "Academia", icon: "💪", color: "#F59E0B", type: "expense" },
+  { name: "Educação", icon: "📚", color: "#2563EB", type: "expense" },
+  { name: "Cursos", icon: "🎓", color: "#7C3AED", type: "expense" },
+  { name: "Livros", icon: "📖", color: "#059669", type: "expense" },
+  { name: "Material Escolar", icon: "✏️", color: "#F59E0B", type: "expense" },
+  { name: "Lazer", icon: "🎭", color: "#EC4899", type: "expense" },
+  { name: "Cinema", icon: "🎬", color: "#DC2626", type: "expense" },
+  { name: "Viagem", icon: "✈️", color: "#0891B2", type: "expense" },
+  { name: "Hotel", icon: "🏨", color: "#7C3AED", type: "expense" },
+  { name: "Eventos", icon: "🎉", color: "#EC4899", type: "expense" },
+  { name: "Roupas", icon: "👕", color: "#06B6D4", type: "expense" },
+  { name: "Calçados", icon: "👞", color: "#92400E", type: "expense" },
+  { name: "Acessórios", icon: "💍", color: "#A855F7", type: "expense" },
+  { name: "Beleza", icon: "💄", color: "#EC4899", type: "expense" },
+  { name: "Cabelo", icon: "💇‍♀️", color: "#F59E0B", type: "expense" },
+  { name: "Tecnologia", icon: "📱", color: "#2563EB", type: "expense" },
+  { name: "Eletrônicos", icon: "💻", color: "#6B7280", type: "expense" },
+  { name: "Casa", icon: "🛋️", color: "#92400E", type: "expense" },
+  { name: "Ferramentas", icon: "🔧", color: "#6B7280", type: "expense" },
+  { name: "Pets", icon: "🐕", color: "#F59E0B", type: "expense" },
+  { name: "Veterinário", icon: "🩺", color: "#059669", type: "expense" },
+  { name: "Impostos", icon: "🧾", color: "#DC2626", type: "expense" },
+  { name: "Seguros", icon: "🛡️", color: "#6B7280", type: "expense" },
+  { name: "Bancos", icon: "🏦", color: "#374151", type: "expense" },
+  { name: "Investimentos", icon: "📊", color: "#059669", type: "expense" },
+  { name: "Doações", icon: "❤️", color: "#EC4899", type: "expense" },
+  { name: "Outros", icon: "📦", color: "#84CC16", type: "expense" },
+];
+
+// Default subscription categories
+const subscriptionCategories: InsertCategory[] = [
+  { name: "Streaming", icon: "📺", color: "#DC2626", type: "subscription" },
+  { name: "Música", icon: "🎵", color: "#059669", type: "subscription" },
+  { name: "Jogos", icon: "🎮", color: "#7C3AED", type: "subscription" },
+  { name: "Produtividade", icon: "💼", color: "#2563EB", type: "subscription" },
+  { name: "Armazenamento", icon: "☁️", color: "#0891B2", type: "subscription" },
+  { name: "Software", icon: "💻", color: "#6B7280", type: "subscription" },
+  { name: "Notícias", icon: "📰", color: "#92400E", type: "subscription" },
+  { name: "Fitness", icon: "🏃‍♀️", color: "#F59E0B", type: "subscription" },
+  { name: "Educação", icon: "🎓", color: "#8B5CF6", type: "subscription" },
+  { name: "Delivery", icon: "🚚", color: "#EF4444", type: "subscription" },
+  { name: "Design", icon: "🎨", color: "#EC4899", type: "subscription" },
+  { name: "Outros", icon: "📱", color: "#84CC16", type: "subscription" },
+];
+
+// Categorias padrão criadas em uma instalação nova (memória ou banco vazio)
+const defaultCategories: InsertCategory[] = [...incomeCategories, ...expenseCategories, ...subscriptionCategories];
 
 export interface IStorage {
+  // Users (not scoped: used by authentication before a user is known)
+  getUser(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined>;
+
   // Categories
   getCategories(): Promise<Category[]>;
   getCategoryById(id: string): Promise<Category | undefined>;
@@ -32,6 +175,7 @@ export interface IStorage {
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
   updateTransaction(id: string, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined>;
   deleteTransaction(id: string): Promise<boolean>;
+  clearAllTransactions(): Promise<void>;
   deleteRecurringTransactions(parentId: string): Promise<boolean>;
   updateRecurringTransactions(parentId: string, transaction: Partial<InsertTransaction>): Promise<boolean>;
   getInstallmentTransactions(parentId: string): Promise<Transaction[]>;
@@ -48,14 +192,27 @@ export interface IStorage {
   getSettings(): Promise<Setting[]>;
   getSettingByKey(key: string): Promise<Setting | undefined>;
   createOrUpdateSetting(setting: InsertSetting): Promise<Setting>;
+  deleteSetting(key: string): Promise<boolean>;
 
   // Credit Cards
   getCreditCards(): Promise<CreditCard[]>;
+  getAllCreditCards(): Promise<CreditCard[]>; // including inactive cards
   getCreditCardById(id: string): Promise<CreditCard | undefined>;
   createCreditCard(creditCard: InsertCreditCard): Promise<CreditCard>;
   updateCreditCard(id: string, creditCard: Partial<CreditCard>): Promise<CreditCard | undefined>;
   deleteCreditCard(id: string): Promise<boolean>;
 
+  // Bank accounts and wallets, and the transfers between them
+  getAccounts(): Promise<Account[]>; // including inactive accounts
+  getAccountById(id: string): Promise<Account | undefined>;
+  createAccount(account: InsertAccount): Promise<Account>;
+  updateAccount(id: string, account: Partial<InsertAccount>): Promise<Account | undefined>;
+  deleteAccount(id: string): Promise<boolean>; // along with its transfers and reconciliations
+  getAccountTransfers(accountId?: string): Promise<AccountTransfer[]>; // oldest first; accountId on either side
+  createAccountTransfer(transfer: InsertAccountTransfer): Promise<AccountTransfer>;
+  updateAccountTransfer(id: string, transfer: Partial<InsertAccountTransfer>): Promise<AccountTransfer | undefined>;
+  deleteAccountTransfer(id: string): Promise<boolean>;
+
   // Subscriptions
   getSubscriptions(): Promise<Subscription[]>;
   getActiveSubscriptions(): Promise<Subscription[]>;
@@ -68,176 +225,373 @@ export interface IStorage {
   // Credit Card Invoices
   getCreditCardInvoices(): Promise<CreditCardInvoice[]>;
   getCreditCardInvoiceById(id: string): Promise<CreditCardInvoice | undefined>;
+  getCreditCardInvoicesByCard(creditCardId: string): Promise<CreditCardInvoice[]>;
+  getCreditCardInvoiceByCardAndDate(creditCardId: string, closingDate: string): Promise<CreditCardInvoice | undefined>;
   createCreditCardInvoice(invoice: InsertCreditCardInvoice): Promise<CreditCardInvoice>;
   updateCreditCardInvoice(id: string, invoice: Partial<InsertCreditCardInvoice>): Promise<CreditCardInvoice | undefined>;
-  deleteCreditCardInvoice(id: string): Promise<boolean>;
+  deleteCreditCardInvoice(id: string): Promise<boolean>; // along with its items, payments and reconciliation
+
+  // Credit Card Invoice Items (snapshot lines and adjustments)
+  getCreditCardInvoiceItems(): Promise<CreditCardInvoiceItem[]>;
+  getCreditCardInvoiceItemsByInvoice(invoiceId: string): Promise<CreditCardInvoiceItem[]>;
+  createCreditCardInvoiceItem(item: InsertCreditCardInvoiceItem): Promise<CreditCardInvoiceItem>;
+
+  // Credit Card Invoice Payments
+  getCreditCardInvoicePayments(invoiceId?: string): Promise<CreditCardInvoicePayment[]>; // oldest first
+  createCreditCardInvoicePayment(payment: InsertCreditCardInvoicePayment): Promise<CreditCardInvoicePayment>;
+  updateCreditCardInvoicePayment(id: string, payment: Partial<InsertCreditCardInvoicePayment>): Promise<CreditCardInvoicePayment | undefined>;
+
+  // Statement reconciliations of accounts and card invoices
+  getReconciliations(): Promise<Reconciliation[]>; // newest statement first
+  getReconciliationById(id: string): Promise<Reconciliation | undefined>;
+  createReconciliation(reconciliation: InsertReconciliation): Promise<Reconciliation>;
+  updateReconciliation(id: string, reconciliation: Partial<InsertReconciliation>): Promise<Reconciliation | undefined>;
+  deleteReconciliation(id: string): Promise<boolean>;
+
+  // CSV Import Profiles
+  getImportProfiles(): Promise<ImportProfile[]>;
+  getImportProfileById(id: string): Promise<ImportProfile | undefined>;
+  createImportProfile(profile: InsertImportProfile): Promise<ImportProfile>;
+  updateImportProfile(id: string, profile: Partial<InsertImportProfile>): Promise<ImportProfile | undefined>;
+  deleteImportProfile(id: string): Promise<boolean>;
+
+  // Exchange rates (one per currency and date)
+  getExchangeRates(currency?: string): Promise<ExchangeRate[]>; // newest first
+  getExchangeRateOn(currency: string, date: string): Promise<ExchangeRate | undefined>; // latest on or before date
+  saveExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate>; // replaces the rate of the same day
+  deleteExchangeRate(id: string): Promise<boolean>;
+
+  // Card reward programs (one per card) and their redemptions
+  getRewardPrograms(): Promise<RewardProgram[]>;
+  getRewardProgramById(id: string): Promise<RewardProgram | undefined>;
+  createRewardProgram(program: InsertRewardProgram): Promise<RewardProgram>;
+  updateRewardProgram(id: string, program: Partial<InsertRewardProgram>): Promise<RewardProgram | undefined>;
+  deleteRewardProgram(id: string): Promise<boolean>; // along with its redemptions
+  getRewardRedemptions(programId?: string): Promise<RewardRedemption[]>; // oldest first
+  createRewardRedemption(redemption: InsertRewardRedemption): Promise<RewardRedemption>;
+  deleteRewardRedemption(id: string): Promise<boolean>;
+
+  // Income sources (salaries); their paychecks are recurring income transactions
+  getIncomeSources(): Promise<IncomeSource[]>;
+  getIncomeSourceById(id: string): Promise<IncomeSource | undefined>;
+  createIncomeSource(source: InsertIncomeSource): Promise<IncomeSource>;
+  updateIncomeSource(id: string, source: Partial<InsertIncomeSource>): Promise<IncomeSource | undefined>;
+  deleteIncomeSource(id: string): Promise<boolean>; // its paychecks stay, no longer linked to it; its vacations go with it
+  getVacations(incomeSourceId?: string): Promise<Vacation[]>; // by start date
+  getVacationById(id: string): Promise<Vacation | undefined>;
+  createVacation(vacation: InsertVacation): Promise<Vacation>;
+  deleteVacation(id: string): Promise<boolean>;
+
+  // Background jobs (not scoped: the scheduler runs outside of any request)
+  getUserIds(): Promise<string[]>;
+  getJobStates(): Promise<JobState[]>;
+  saveJobState(state: JobState): Promise<JobState>;
+}
+
+// Map que registra cada alteração no journal quando a persistência em arquivo está ativa
+class JournaledMap<V> extends Map<string, V> {
+  constructor(private collection: string, private onChange: (mutation: JournalMutation) => void) {
+    super();
+  }
+
+  set(id: string, value: V): this {
+    super.set(id, value);
+    this.onChange({ op: 'set', collection: this.collection, id, value });
+    return this;
+  }
+
+  delete(id: string): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.onChange({ op: 'delete', collection: this.collection, id });
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    super.clear();
+    this.onChange({ op: 'clear', collection: this.collection });
+  }
+
+  // Aplica um valor sem gerar registro (usado ao restaurar snapshot/journal)
+  restore(id: string, value: V): void {
+    super.set(id, value);
+  }
+
+  restoreDelete(id: string): void {
+    super.delete(id);
+  }
+
+  restoreClear(): void {
+    super.clear();
+  }
+}
+
+export interface MemStorageOptions {
+  /** Directory for the snapshot + journal files; omit to keep data in memory only */
+  dataDir?: string;
+  snapshotEvery?: number;
+  snapshotIntervalMs?: number;
+}
+
+// Colunas timestamp de todas as tabelas: no journal viram string e precisam voltar como Date
+const timestampFields = ([...Object.values(schema), ...Object.values(authSchema)] as unknown[])
+  .filter((value): value is PgTable => is(value, PgTable))
+  .flatMap(table => Object.entries(getTableColumns(table)))
+  .filter(([, column]) => column.dataType === "date")
+  .map(([field]) => field);
+
+// Campos renomeados no schema: snapshots e journals gravados antes ainda trazem o nome antigo
+const renamedFields: Record<string, Record<string, string>> = {
+  creditCardInvoices: { dueDate: "closingDate" }
+};
+
+function upgradeRecord(collection: string, value: unknown): unknown {
+  const renames = renamedFields[collection];
+  if (!renames || !value || typeof value !== "object") return value;
+
+  const upgraded: Record<string, unknown> = { ...value };
+  for (const [from, to] of Object.entries(renames)) {
+    if (from in upgraded && !(to in upgraded)) {
+      upgraded[to] = upgraded[from];
+      delete upgraded[from];
+    }
+  }
+  return upgraded;
 }
 
 export class MemStorage implements IStorage {
-  private categories: Map<string, Category> = new Map();
-  private transactions: Map<string, Transaction> = new Map();
-  private budgets: Map<string, Budget> = new Map();
-  private settings: Map<string, Setting> = new Map();
-  private creditCards: Map<string, CreditCard> = new Map();
-  private subscriptions: Map<string, Subscription> = new Map();
-  private creditCardInvoices: Map<string, CreditCardInvoice> = new Map();
-
-  constructor() {
-    this.initializeDefaultData();
-  }
-
-  private initializeDefaultData() {
-    // Default income categories
-    const incomeCategories: InsertCategory[] = [
-      { name: "Salário", icon: "💰", color: "#10B981", type: "income" },
-      { name: "Vale Transporte", icon: "🚇", color: "#2563EB", type: "income" },
-      { name: "Vale Refeição", icon: "🍽️", color: "#F59E0B", type: "income" },
-      { name: "Freelance", icon: "💻", color: "#8B5CF6", type: "income" },
-      { name: "Bônus", icon: "🎁", color: "#EC4899", type: "income" },
-      { name: "Investimentos", icon: "📈", color: "#059669", type: "income" },
-      { name: "Vendas", icon: "🏪", color: "#7C3AED", type: "income" },
-      { name: "Aluguel", icon: "🏘️", color: "#DC2626", type: "income" },
-      { name: "Pensão", icon: "👥", color: "#0891B2", type: "income" },
-      { name: "Restituição", icon: "🧾", color: "#CA8A04", type: "income" },
-      { name: "Outros", icon: "💵", color: "#6B7280", type: "income" },
-    ];
-
-    // Default expense categories  
-    const expenseCategories: InsertCategory[] = [
-      { name: "Alimentação", icon: "🍔", color: "#EF4444", type: "expense" },
-      { name: "Supermercado", icon: "🛒", color: "#DC2626", type: "expense" },
-      { name: "Restaurantes", icon: "🍽️", color: "#F59E0B", type: "expense" },
-      { name: "Transporte", icon: "🚗", color: "#F59E0B", type: "expense" },
-      { name: "Combustível", icon: "⛽", color: "#EF4444", type: "expense" },
-      { name: "Uber/Taxi", icon: "🚖", color: "#FCD34D", type: "expense" },
-      { name: "Estacionamento", icon: "🅿️", color: "#6B7280", type: "expense" },
-      { name: "Moradia", icon: "🏠", color: "#8B5CF6", type: "expense" },
-      { name: "Aluguel", icon: "🏘️", color: "#7C3AED", type: "expense" },
-      { name: "Financiamento", icon: "🏦", color: "#DC2626", type: "expense" },
-      { name: "Condomínio", icon: "🏢", color: "#6B7280", type: "expense" },
-      { name: "Energia", icon: "⚡", color: "#FCD34D", type: "expense" },
-      { name: "Água", icon: "💧", color: "#0891B2", type: "expense" },
-      { name: "Gás", icon: "🔥", color: "#F59E0B", type: "expense" },
-      { name: "Internet", icon: "📡", color: "#2563EB", type: "expense" },
-      { name: "Telefone", icon: "📞", color: "#059669", type: "expense" },
-      { name: "Saúde", icon: "🏥", color: "#10B981", type: "expense" },
-      { name: "Farmácia", icon: "💊", color: "#EF4444", type: "expense" },
-      { name: "Médico", icon: "👨‍⚕️", color: "#059669", type: "expense" },
-      { name: "Dentista", icon: "🦷", color: "#0891B2", type: "expense" },
-      { name: "Plano de Saúde", icon: "🩺", color: "#DC2626", type: "expense" },
-      { name: "Academia", icon: "💪", color: "#F59E0B", type: "expense" },
-      { name: "Educação", icon: "📚", color: "#2563EB", type: "expense" },
-      { name: "Cursos", icon: "🎓", color: "#7C3AED", type: "expense" },
-      { name: "Livros", icon: "📖", color: "#059669", type: "expense" },
-      { name: "Material Escolar", icon: "✏️", color: "#F59E0B", type: "expense" },
-      { name: "Lazer", icon: "🎭", color: "#EC4899", type: "expense" },
-      { name: "Cinema", icon: "🎬", color: "#DC2626", type: "expense" },
-      { name: "Viagem", icon: "✈️", color: "#0891B2", type: "expense" },
-      { name: "Hotel", icon: "🏨", color: "#7C3AED", type: "expense" },
-      { name: "Eventos", icon: "🎉", color: "#EC4899", type: "expense" },
-      { name: "Roupas", icon: "👕", color: "#06B6D4", type: "expense" },
-      { name: "Calçados", icon: "👞", color: "#92400E", type: "expense" },
-      { name: "Acessórios", icon: "💍", color: "#A855F7", type: "expense" },
-      { name: "Beleza", icon: "💄", color: "#EC4899", type: "expense" },
-      { name: "Cabelo", icon: "💇‍♀️", color: "#F59E0B", type: "expense" },
-      { name: "Tecnologia", icon: "📱", color: "#2563EB", type: "expense" },
-      { name: "Eletrônicos", icon: "💻", color: "#6B7280", type: "expense" },
-      { name: "Casa", icon: "🛋️", color: "#92400E", type: "expense" },
-      { name: "Ferramentas", icon: "🔧", color: "#6B7280", type: "expense" },
-      { name: "Pets", icon: "🐕", color: "#F59E0B", type: "expense" },
-      { name: "Veterinário", icon: "🩺", color: "#059669", type: "expense" },
-      { name: "Impostos", icon: "🧾", color: "#DC2626", type: "expense" },
-      { name: "Seguros", icon: "🛡️", color: "#6B7280", type: "expense" },
-      { name: "Bancos", icon: "🏦", color: "#374151", type: "expense" },
-      { name: "Investimentos", icon: "📊", color: "#059669", type: "expense" },
-      { name: "Doações", icon: "❤️", color: "#EC4899", type: "expense" },
-      { name: "Outros", icon: "📦", color: "#84CC16", type: "expense" },
-    ];
-
-    // Default subscription categories
-    const subscriptionCategories: InsertCategory[] = [
-      { name: "Streaming", icon: "📺", color: "#DC2626", type: "subscription" },
-      { name: "Música", icon: "🎵", color: "#059669", type: "subscription" },
-      { name: "Jogos", icon: "🎮", color: "#7C3AED", type: "subscription" },
-      { name: "Produtividade", icon: "💼", color: "#2563EB", type: "subscription" },
-      { name: "Armazenamento", icon: "☁️", color: "#0891B2", type: "subscription" },
-      { name: "Software", icon: "💻", color: "#6B7280", type: "subscription" },
-      { name: "Notícias", icon: "📰", color: "#92400E", type: "subscription" },
-      { name: "Fitness", icon: "🏃‍♀️", color: "#F59E0B", type: "subscription" },
-      { name: "Educação", icon: "🎓", color: "#8B5CF6", type: "subscription" },
-      { name: "Delivery", icon: "🚚", color: "#EF4444", type: "subscription" },
-      { name: "Design", icon: "🎨", color: "#EC4899", type: "subscription" },
-      { name: "Outros", icon: "📱", color: "#84CC16", type: "subscription" },
-    ];
+  private journal: FileJournal | null = null;
+  private users = this.collection<User>("users");
+  private categories = this.collection<Category>("categories");
+  private transactions = this.collection<Transaction>("transactions");
+  private budgets = this.collection<Budget>("budgets");
+  private settings = this.collection<Setting>("settings");
+  private creditCards = this.collection<CreditCard>("creditCards");
+  private accounts = this.collection<Account>("accounts");
+  private accountTransfers = this.collection<AccountTransfer>("accountTransfers");
+  private subscriptions = this.collection<Subscription>("subscriptions");
+  private creditCardInvoices = this.collection<CreditCardInvoice>("creditCardInvoices");
+  private creditCardInvoiceItems = this.collection<CreditCardInvoiceItem>("creditCardInvoiceItems");
+  private creditCardInvoicePayments = this.collection<CreditCardInvoicePayment>("creditCardInvoicePayments");
+  private reconciliations = this.collection<Reconciliation>("reconciliations");
+  private importProfiles = this.collection<ImportProfile>("importProfiles");
+  private exchangeRates = this.collection<ExchangeRate>("exchangeRates");
+  private rewardPrograms = this.collection<RewardProgram>("rewardPrograms");
+  private rewardRedemptions = this.collection<RewardRedemption>("rewardRedemptions");
+  private incomeSources = this.collection<IncomeSource>("incomeSources");
+  private vacations = this.collection<Vacation>("vacations");
+  private jobStates = this.collection<JobState>("jobStates");
+
+  constructor(options: MemStorageOptions = {}) {
+    if (options.dataDir) {
+      this.journal = new FileJournal(options.dataDir, {
+        snapshotEvery: options.snapshotEvery,
+        snapshotIntervalMs: options.snapshotIntervalMs,
+        dateFields: timestampFields
+      });
+
+      const state = this.journal.load();
+      this.journal.open(() => this.snapshotCollections());
+
+      if (state) {
+        this.restoreState(state.collections, state.records);
+        console.log(`💾 Dados restaurados de ${options.dataDir} (${state.records.length} registros do journal)`);
+      }
+    }
+  }
+
+  private collection<V>(name: string): JournaledMap<V> {
+    return new JournaledMap<V>(name, mutation => this.journal?.append(mutation));
+  }
+
+  private get collections(): Record<string, JournaledMap<unknown>> {
+    return {
+      users: this.users,
+      categories: this.categories,
+      transactions: this.transactions,
+      budgets: this.budgets,
+      settings: this.settings,
+      creditCards: this.creditCards,
+      accounts: this.accounts,
+      accountTransfers: this.accountTransfers,
+      subscriptions: this.subscriptions,
+      creditCardInvoices: this.creditCardInvoices,
+      creditCardInvoiceItems: this.creditCardInvoiceItems,
+      creditCardInvoicePayments: this.creditCardInvoicePayments,
+      reconciliations: this.reconciliations,
+      importProfiles: this.importProfiles,
+      exchangeRates: this.exchangeRates,
+      rewardPrograms: this.rewardPrograms,
+      rewardRedemptions: this.rewardRedemptions,
+      incomeSources: this.incomeSources,
+      vacations: this.vacations,
+      jobStates: this.jobStates
+    };
+  }
+
+  private snapshotCollections(): CollectionsSnapshot {
+    const snapshot: CollectionsSnapshot = {};
+    for (const [name, map] of Object.entries(this.collections)) {
+      snapshot[name] = Array.from(map.entries());
+    }
+    return snapshot;
+  }
+
+  private restoreState(snapshot: CollectionsSnapshot, records: Array<JournalMutation>): void {
+    const collections = this.collections;
+
+    for (const [name, entries] of Object.entries(snapshot)) {
+      const map = collections[name];
+      if (!map) continue;
+      entries.forEach(([id, value]) => map.restore(id, upgradeRecord(name, value)));
+    }
+
+    for (const record of records) {
+      const map = collections[record.collection];
+      if (!map) continue;
+
+      if (record.op === 'set' && record.id) {
+        map.restore(record.id, upgradeRecord(record.collection, record.value));
+      } else if (record.op === 'delete' && record.id) {
+        map.restoreDelete(record.id);
+      } else if (record.op === 'clear') {
+        map.restoreClear();
+      }
+    }
+  }
+
+  /**
+   * Write a snapshot and close the journal (no-op when running in memory only)
+   */
+  close(): void {
+    this.journal?.close();
+  }
+
+  // Todas as consultas ficam restritas ao usuário autenticado da requisição atual
+  private get userId(): string {
+    return getCurrentUserId();
+  }
 
+  private ownedValues<V extends { userId: string }>(map: Map<string, V>): V[] {
+    const userId = this.userId;
+    return Array.from(map.values()).filter(v => v.userId === userId);
+  }
+
+  private ownedEntries<V extends { userId: string }>(map: Map<string, V>): Array<[string, V]> {
+    const userId = this.userId;
+    return Array.from(map.entries()).filter(([, v]) => v.userId === userId);
+  }
+
+  private ownedById<V extends { userId: string }>(map: Map<string, V>, id: string): V | undefined {
+    const value = map.get(id);
+    return value && value.userId === this.userId ? value : undefined;
+  }
+
+  private deleteOwned<V extends { userId: string }>(map: Map<string, V>, id: string): boolean {
+    return this.ownedById(map, id) ? map.delete(id) : false;
+  }
+
+  private seedDefaultCategories(userId: string) {
     // Criar apenas as categorias básicas - sem dados de exemplo
-    [...incomeCategories, ...expenseCategories, ...subscriptionCategories].forEach(cat => {
+    defaultCategories.forEach(cat => {
       const id = randomUUID();
-      this.categories.set(id, { ...cat, id });
+      this.categories.set(id, { ...cat, id, userId });
     });
 
     // NÃO criar dados de exemplo - deixar o sistema zerado para o usuário cadastrar
-    // this.createSampleTransactions();
-    // this.createSampleCreditCards();
-    // this.createSampleSettings();
   }
 
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
 
-  
-
-  
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const normalized = email.trim().toLowerCase();
+    return Array.from(this.users.values()).find(u => u.email === normalized);
+  }
 
+  async createUser(user: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const newUser: User = {
+      ...user,
+      id,
+      email: user.email.trim().toLowerCase(),
+      firstName: user.firstName || null,
+      lastName: user.lastName || null,
+      profileImageUrl: user.profileImageUrl || null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.users.set(id, newUser);
+    this.seedDefaultCategories(id);
+    return newUser;
+  }
 
+  async updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
 
+    const updated: User = {
+      ...existing,
+      ...user,
+      id,
+      email: (user.email ?? existing.email).trim().toLowerCase(),
+      updatedAt: new Date()
+    };
+    this.users.set(id, updated);
+    return updated;
+  }
 
   // Categories
   async getCategories(): Promise<Category[]> {
-    return Array.from(this.categories.values());
+    return this.ownedValues(this.categories);
   }
 
   async getCategoryById(id: string): Promise<Category | undefined> {
-    return this.categories.get(id);
+    return this.ownedById(this.categories, id);
   }
 
   async createCategory(category: InsertCategory): Promise<Category> {
     const id = randomUUID();
-    const newCategory: Category = { ...category, id };
+    const newCategory: Category = { ...category, id, userId: this.userId };
     this.categories.set(id, newCategory);
     return newCategory;
   }
 
   async updateCategory(id: string, category: Partial<InsertCategory>): Promise<Category | undefined> {
-    const existing = this.categories.get(id);
+    const existing = this.ownedById(this.categories, id);
     if (!existing) return undefined;
     
-    const updated: Category = { ...existing, ...category };
+    const updated: Category = { ...existing, ...category, id: existing.id, userId: existing.userId };
     this.categories.set(id, updated);
     return updated;
   }
 
   async deleteCategory(id: string): Promise<boolean> {
-    return this.categories.delete(id);
+    return this.deleteOwned(this.categories, id);
   }
 
   // Transactions
   async getTransactions(): Promise<Transaction[]> {
-    return Array.from(this.transactions.values()).sort((a, b) => 
+    return this.ownedValues(this.transactions).sort((a, b) => 
       new Date(b.date).getTime() - new Date(a.date).getTime()
     );
   }
 
   async getTransactionById(id: string): Promise<Transaction | undefined> {
-    return this.transactions.get(id);
+    return this.ownedById(this.transactions, id);
   }
 
   async getTransactionsByDateRange(startDate: string, endDate: string): Promise<Transaction[]> {
-    return Array.from(this.transactions.values()).filter(t => 
+    return this.ownedValues(this.transactions).filter(t => 
       t.date >= startDate && t.date <= endDate
     );
   }
 
   async getTransactionsByCategory(categoryId: string): Promise<Transaction[]> {
-    return Array.from(this.transactions.values()).filter(t => 
+    return this.ownedValues(this.transactions).filter(t => 
       t.categoryId === categoryId
     );
   }
@@ -247,14 +601,32 @@ export class MemStorage implements IStorage {
     const newTransaction: Transaction = { 
       ...transaction, 
       id,
+      userId: this.userId,
       categoryId: transaction.categoryId || null,
       paymentMethod: transaction.paymentMethod || null,
       creditCardId: transaction.creditCardId || null,
+      accountId: transaction.accountId || null,
       isRecurring: transaction.isRecurring || null,
       installments: transaction.installments || null,
       installmentNumber: transaction.installmentNumber || null,
       parentTransactionId: transaction.parentTransactionId || null,
+      recurrenceFrequency: transaction.recurrenceFrequency || null,
+      recurrenceInterval: transaction.recurrenceInterval || 1,
+      recurrenceDay: transaction.recurrenceDay || null,
+      recurrenceEndDate: transaction.recurrenceEndDate || null,
+      recurrenceCount: transaction.recurrenceCount || null,
+      recurrenceOverrides: transaction.recurrenceOverrides || null,
+      occurrenceDate: transaction.occurrenceDate || null,
+      incomeSourceId: transaction.incomeSourceId || null,
+      payrollKind: transaction.payrollKind || null,
       isInstallment: transaction.isInstallment || null,
+      fitId: transaction.fitId || null,
+      refundOfTransactionId: transaction.refundOfTransactionId || null,
+      originalCurrency: transaction.originalCurrency || null,
+      originalAmount: transaction.originalAmount || null,
+      exchangeRate: transaction.exchangeRate || null,
+      clearedStatus: transaction.clearedStatus || "uncleared",
+      reconciliationId: transaction.reconciliationId || null,
       createdAt: new Date()
     };
     this.transactions.set(id, newTransaction);
@@ -298,21 +670,23 @@ export class MemStorage implements IStorage {
   // }
 
   async updateTransaction(id: string, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined> {
-    const existing = this.transactions.get(id);
+    const existing = this.ownedById(this.transactions, id);
     if (!existing) return undefined;
     
-    const updated: Transaction = { ...existing, ...transaction };
+    const updated: Transaction = { ...existing, ...transaction, id: existing.id, userId: existing.userId };
     this.transactions.set(id, updated);
     return updated;
   }
 
   async deleteTransaction(id: string): Promise<boolean> {
-    return this.transactions.delete(id);
+    return this.deleteOwned(this.transactions, id);
   }
 
   // ⚠️ MÉTODO DE EMERGÊNCIA: Limpar todas as transações
   async clearAllTransactions(): Promise<void> {
-    this.transactions.clear();
+    for (const [id] of this.ownedEntries(this.transactions)) {
+      this.transactions.delete(id);
+    }
     console.log('⚠️ Todas as transações foram removidas do sistema');
   }
 
@@ -320,12 +694,12 @@ export class MemStorage implements IStorage {
     let deleted = false;
     
     // Delete the parent transaction
-    if (this.transactions.delete(parentId)) {
+    if (this.deleteOwned(this.transactions, parentId)) {
       deleted = true;
     }
     
     // Delete all recurring instances (children)
-    const transactionEntries = Array.from(this.transactions.entries());
+    const transactionEntries = this.ownedEntries(this.transactions);
     for (const [id, transaction] of transactionEntries) {
       if (transaction.parentTransactionId === parentId) {
         this.transactions.delete(id);
@@ -340,18 +714,18 @@ export class MemStorage implements IStorage {
     let updated = false;
     
     // Update the parent transaction
-    const parentTransaction = this.transactions.get(parentId);
+    const parentTransaction = this.ownedById(this.transactions, parentId);
     if (parentTransaction) {
-      const updatedParent: Transaction = { ...parentTransaction, ...updates };
+      const updatedParent: Transaction = { ...parentTransaction, ...updates, id: parentTransaction.id, userId: parentTransaction.userId };
       this.transactions.set(parentId, updatedParent);
       updated = true;
     }
     
     // Update all recurring instances (children)
-    const transactionEntries = Array.from(this.transactions.entries());
+    const transactionEntries = this.ownedEntries(this.transactions);
     for (const [id, transaction] of transactionEntries) {
       if (transaction.parentTransactionId === parentId) {
-        const updatedChild: Transaction = { ...transaction, ...updates };
+        const updatedChild: Transaction = { ...transaction, ...updates, id: transaction.id, userId: transaction.userId };
         this.transactions.set(id, updatedChild);
         updated = true;
       }
@@ -364,13 +738,13 @@ export class MemStorage implements IStorage {
     const transactions: Transaction[] = [];
     
     // Get the parent transaction (first installment)
-    const parentTransaction = this.transactions.get(parentId);
+    const parentTransaction = this.ownedById(this.transactions, parentId);
     if (parentTransaction && (parentTransaction.installments || 0) > 1) {
       transactions.push(parentTransaction);
     }
     
     // Get all child transactions (subsequent installments)
-    const transactionEntries = Array.from(this.transactions.entries());
+    const transactionEntries = this.ownedEntries(this.transactions);
     for (const [id, transaction] of transactionEntries) {
       if (transaction.parentTransactionId === parentId) {
         transactions.push(transaction);
@@ -385,22 +759,20 @@ export class MemStorage implements IStorage {
     let deleted = false;
     
     // Delete the parent transaction (first installment)
-    const parentTransaction = this.transactions.get(parentId);
+    const parentTransaction = this.ownedById(this.transactions, parentId);
     if (parentTransaction && (parentTransaction.installments || 0) > 1) {
       
       // If this is a credit card transaction, adjust the limit
       if (parentTransaction.creditCardId && parentTransaction.type === 'expense') {
         const creditCard = await this.getCreditCardById(parentTransaction.creditCardId);
         if (creditCard) {
-          const currentUsed = parseFloat(creditCard.currentUsed || "0");
-          
           // For installments, calculate the total amount to release
           const installmentTransactions = await this.getInstallmentTransactions(parentId);
-          const totalAmount = installmentTransactions.reduce((sum, t) => sum + parseFloat(t.amount), 0);
+          const totalAmount = Money.sum(installmentTransactions.map(t => t.amount));
           
-          const newCurrentUsed = Math.max(0, currentUsed - totalAmount);
+          const newCurrentUsed = Money.max(Money.ZERO, Money.from(creditCard.currentUsed).minus(totalAmount));
           await this.updateCreditCard(parentTransaction.creditCardId, {
-            currentUsed: newCurrentUsed.toFixed(2)
+            currentUsed: newCurrentUsed.toString()
           });
         }
       }
@@ -410,7 +782,7 @@ export class MemStorage implements IStorage {
     }
     
     // Delete all child transactions (subsequent installments)
-    const transactionEntries = Array.from(this.transactions.entries());
+    const transactionEntries = this.ownedEntries(this.transactions);
     for (const [id, transaction] of transactionEntries) {
       if (transaction.parentTransactionId === parentId) {
         this.transactions.delete(id);
@@ -423,11 +795,11 @@ export class MemStorage implements IStorage {
 
   // Budgets
   async getBudgets(): Promise<Budget[]> {
-    return Array.from(this.budgets.values());
+    return this.ownedValues(this.budgets);
   }
 
   async getBudgetsByMonth(month: number, year: number): Promise<Budget[]> {
-    return Array.from(this.budgets.values()).filter(b => 
+    return this.ownedValues(this.budgets).filter(b => 
       b.month === month && b.year === year
     );
   }
@@ -437,6 +809,7 @@ export class MemStorage implements IStorage {
     const newBudget: Budget = { 
       ...budget, 
       id,
+      userId: this.userId,
       categoryId: budget.categoryId || null
     };
     this.budgets.set(id, newBudget);
@@ -444,25 +817,25 @@ export class MemStorage implements IStorage {
   }
 
   async updateBudget(id: string, budget: Partial<InsertBudget>): Promise<Budget | undefined> {
-    const existing = this.budgets.get(id);
+    const existing = this.ownedById(this.budgets, id);
     if (!existing) return undefined;
     
-    const updated: Budget = { ...existing, ...budget };
+    const updated: Budget = { ...existing, ...budget, id: existing.id, userId: existing.userId };
     this.budgets.set(id, updated);
     return updated;
   }
 
   async deleteBudget(id: string): Promise<boolean> {
-    return this.budgets.delete(id);
+    return this.deleteOwned(this.budgets, id);
   }
 
   // Settings
   async getSettings(): Promise<Setting[]> {
-    return Array.from(this.settings.values());
+    return this.ownedValues(this.settings);
   }
 
   async getSettingByKey(key: string): Promise<Setting | undefined> {
-    return Array.from(this.settings.values()).find(s => s.key === key);
+    return this.ownedValues(this.settings).find(s => s.key === key);
   }
 
   async createOrUpdateSetting(setting: InsertSetting): Promise<Setting> {
@@ -473,19 +846,28 @@ export class MemStorage implements IStorage {
       return updated;
     } else {
       const id = randomUUID();
-      const newSetting: Setting = { ...setting, id };
+      const newSetting: Setting = { ...setting, id, userId: this.userId };
       this.settings.set(id, newSetting);
       return newSetting;
     }
   }
 
+  async deleteSetting(key: string): Promise<boolean> {
+    const existing = await this.getSettingByKey(key);
+    return existing ? this.settings.delete(existing.id) : false;
+  }
+
   // Credit Cards
   async getCreditCards(): Promise<CreditCard[]> {
-    return Array.from(this.creditCards.values()).filter(c => c.isActive);
+    return this.ownedValues(this.creditCards).filter(c => c.isActive);
+  }
+
+  async getAllCreditCards(): Promise<CreditCard[]> {
+    return this.ownedValues(this.creditCards);
   }
 
   async getCreditCardById(id: string): Promise<CreditCard | undefined> {
-    return this.creditCards.get(id);
+    return this.ownedById(this.creditCards, id);
   }
 
   async createCreditCard(creditCard: InsertCreditCard): Promise<CreditCard> {
@@ -493,10 +875,26 @@ export class MemStorage implements IStorage {
     const newCreditCard: CreditCard = { 
       ...creditCard, 
       id,
+      userId: this.userId,
       color: creditCard.color || "#3B82F6",
       currentUsed: "0",
       isActive: true,
       isBlocked: creditCard.isBlocked || false,
+      revolvingInterestRate: creditCard.revolvingInterestRate ?? "0",
+      minimumPaymentRate: creditCard.minimumPaymentRate ?? "15",
+      iofDailyRate: creditCard.iofDailyRate ?? "0.0082",
+      iofFixedRate: creditCard.iofFixedRate ?? "0.38",
+      lateFeeRate: creditCard.lateFeeRate ?? "2",
+      lateInterestRate: creditCard.lateInterestRate ?? "1",
+      internationalIofRate: creditCard.internationalIofRate ?? "4.38",
+      exchangeRateRule: creditCard.exchangeRateRule ?? "purchase_date",
+      cardType: creditCard.cardType ?? "main",
+      parentCardId: creditCard.parentCardId || null,
+      holderName: creditCard.holderName || null,
+      annualFeeAmount: creditCard.annualFeeAmount ?? "0",
+      annualFeeInstallments: creditCard.annualFeeInstallments ?? 12,
+      annualFeeWaiverThreshold: creditCard.annualFeeWaiverThreshold || null,
+      annualFeeStartDate: creditCard.annualFeeStartDate || null,
       createdAt: new Date()
     };
     this.creditCards.set(id, newCreditCard);
@@ -504,29 +902,114 @@ export class MemStorage implements IStorage {
   }
 
   async updateCreditCard(id: string, creditCard: Partial<CreditCard>): Promise<CreditCard | undefined> {
-    const existing = this.creditCards.get(id);
+    const existing = this.ownedById(this.creditCards, id);
     if (!existing) return undefined;
     
-    const updated: CreditCard = { ...existing, ...creditCard };
+    const updated: CreditCard = { ...existing, ...creditCard, id: existing.id, userId: existing.userId };
     this.creditCards.set(id, updated);
     return updated;
   }
 
   async deleteCreditCard(id: string): Promise<boolean> {
-    return this.creditCards.delete(id);
+    return this.deleteOwned(this.creditCards, id);
+  }
+
+  // Bank accounts and wallets
+  async getAccounts(): Promise<Account[]> {
+    return this.ownedValues(this.accounts).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getAccountById(id: string): Promise<Account | undefined> {
+    return this.ownedById(this.accounts, id);
+  }
+
+  async createAccount(account: InsertAccount): Promise<Account> {
+    const id = randomUUID();
+    const newAccount: Account = {
+      ...account,
+      id,
+      userId: this.userId,
+      type: account.type || "checking",
+      bank: account.bank || null,
+      color: account.color || "#10B981",
+      openingBalance: account.openingBalance || "0",
+      isActive: account.isActive ?? true,
+      createdAt: new Date()
+    };
+    this.accounts.set(id, newAccount);
+    return newAccount;
+  }
+
+  async updateAccount(id: string, account: Partial<InsertAccount>): Promise<Account | undefined> {
+    const existing = this.ownedById(this.accounts, id);
+    if (!existing) return undefined;
+
+    const updated: Account = { ...existing, ...account, id: existing.id, userId: existing.userId };
+    this.accounts.set(id, updated);
+    return updated;
+  }
+
+  async deleteAccount(id: string): Promise<boolean> {
+    if (!this.deleteOwned(this.accounts, id)) return false;
+
+    for (const [transferId, transfer] of this.ownedEntries(this.accountTransfers)) {
+      if (transfer.fromAccountId === id || transfer.toAccountId === id) {
+        this.accountTransfers.delete(transferId);
+      }
+    }
+    for (const [reconciliationId, reconciliation] of this.ownedEntries(this.reconciliations)) {
+      if (reconciliation.accountId === id) {
+        this.reconciliations.delete(reconciliationId);
+      }
+    }
+    return true;
+  }
+
+  async getAccountTransfers(accountId?: string): Promise<AccountTransfer[]> {
+    return this.ownedValues(this.accountTransfers)
+      .filter(t => !accountId || t.fromAccountId === accountId || t.toAccountId === accountId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async createAccountTransfer(transfer: InsertAccountTransfer): Promise<AccountTransfer> {
+    const id = randomUUID();
+    const newTransfer: AccountTransfer = {
+      ...transfer,
+      id,
+      userId: this.userId,
+      description: transfer.description || "Transferência",
+      clearedStatus: transfer.clearedStatus || "uncleared",
+      reconciliationId: transfer.reconciliationId || null,
+      createdAt: new Date()
+    };
+    this.accountTransfers.set(id, newTransfer);
+    return newTransfer;
+  }
+
+  async updateAccountTransfer(id: string, transfer: Partial<InsertAccountTransfer>): Promise<AccountTransfer | undefined> {
+    const existing = this.ownedById(this.accountTransfers, id);
+    if (!existing) return undefined;
+
+    const updated: AccountTransfer = { ...existing, ...transfer, id: existing.id, userId: existing.userId };
+    this.accountTransfers.set(id, updated);
+    return updated;
+  }
+
+  async deleteAccountTransfer(id: string): Promise<boolean> {
+    return this.deleteOwned(this.accountTransfers, id);
   }
 
   // Subscriptions
   async getSubscriptions(): Promise<Subscription[]> {
-    return Array.from(this.subscriptions.values());
+    return this.ownedValues(this.subscriptions);
   }
 
   async getActiveSubscriptions(): Promise<Subscription[]> {
-    return Array.from(this.subscriptions.values()).filter(s => s.isActive);
+    return this.ownedValues(this.subscriptions).filter(s => s.isActive);
   }
 
   async getSubscriptionById(id: string): Promise<Subscription | undefined> {
-    return this.subscriptions.get(id);
+    return this.ownedById(this.subscriptions, id);
   }
 
   async createSubscription(subscription: InsertSubscription): Promise<Subscription> {
@@ -534,6 +1017,7 @@ export class MemStorage implements IStorage {
     const newSubscription: Subscription = { 
       ...subscription, 
       id,
+      userId: this.userId,
       categoryId: subscription.categoryId || null,
       isActive: subscription.isActive !== false,
       creditCardId: subscription.creditCardId || null,
@@ -549,25 +1033,25 @@ export class MemStorage implements IStorage {
   }
 
   async updateSubscription(id: string, subscription: Partial<InsertSubscription>): Promise<Subscription | undefined> {
-    const existing = this.subscriptions.get(id);
+    const existing = this.ownedById(this.subscriptions, id);
     if (!existing) return undefined;
     
     // ⚡️ CORREÇÃO: NÃO manipular limite automaticamente aqui
     // O limite será gerenciado pela lógica de faturas para evitar duplicação
     
-    const updated: Subscription = { ...existing, ...subscription };
+    const updated: Subscription = { ...existing, ...subscription, id: existing.id, userId: existing.userId };
     this.subscriptions.set(id, updated);
     return updated;
   }
 
   async deleteSubscription(id: string): Promise<boolean> {
     // ⚡️ NÃO MEXER NO LIMITE QUANDO DELETAR ASSINATURA
-    return this.subscriptions.delete(id);
+    return this.deleteOwned(this.subscriptions, id);
   }
 
   // 🔥 NOVA FUNÇÃO: Toggle para ativar/desativar assinatura
   async toggleSubscription(id: string): Promise<Subscription | undefined> {
-    const existing = this.subscriptions.get(id);
+    const existing = this.ownedById(this.subscriptions, id);
     if (!existing) return undefined;
     
     const updated: Subscription = { 
@@ -581,20 +1065,20 @@ export class MemStorage implements IStorage {
 
   // Credit Card Invoices
   async getCreditCardInvoices(): Promise<CreditCardInvoice[]> {
-    return Array.from(this.creditCardInvoices.values());
+    return this.ownedValues(this.creditCardInvoices);
   }
 
   async getCreditCardInvoiceById(id: string): Promise<CreditCardInvoice | undefined> {
-    return this.creditCardInvoices.get(id);
+    return this.ownedById(this.creditCardInvoices, id);
   }
 
   async getCreditCardInvoicesByCard(creditCardId: string): Promise<CreditCardInvoice[]> {
-    return Array.from(this.creditCardInvoices.values()).filter(i => i.creditCardId === creditCardId);
+    return this.ownedValues(this.creditCardInvoices).filter(i => i.creditCardId === creditCardId);
   }
 
-  async getCreditCardInvoiceByCardAndDate(creditCardId: string, dueDate: string): Promise<CreditCardInvoice | undefined> {
-    return Array.from(this.creditCardInvoices.values()).find(i => 
-      i.creditCardId === creditCardId && i.dueDate === dueDate
+  async getCreditCardInvoiceByCardAndDate(creditCardId: string, closingDate: string): Promise<CreditCardInvoice | undefined> {
+    return this.ownedValues(this.creditCardInvoices).find(i => 
+      i.creditCardId === creditCardId && i.closingDate === closingDate
     );
   }
 
@@ -603,9 +1087,12 @@ export class MemStorage implements IStorage {
     const newInvoice: CreditCardInvoice = { 
       ...invoice, 
       id,
-      status: invoice.status || "pending",
+      userId: this.userId,
+      status: invoice.status || "open",
       totalAmount: invoice.totalAmount || "0",
       paidAmount: invoice.paidAmount || "0",
+      carriedAmount: invoice.carriedAmount || "0",
+      carriedToInvoiceId: invoice.carriedToInvoiceId || null,
       isInstallment: invoice.isInstallment || false,
       installmentCount: invoice.installmentCount || null,
       installmentNumber: invoice.installmentNumber || null,
@@ -617,17 +1104,1082 @@ export class MemStorage implements IStorage {
   }
 
   async updateCreditCardInvoice(id: string, invoice: Partial<InsertCreditCardInvoice>): Promise<CreditCardInvoice | undefined> {
-    const existing = this.creditCardInvoices.get(id);
+    const existing = this.ownedById(this.creditCardInvoices, id);
     if (!existing) return undefined;
     
-    const updated: CreditCardInvoice = { ...existing, ...invoice };
+    const updated: CreditCardInvoice = { ...existing, ...invoice, id: existing.id, userId: existing.userId };
     this.creditCardInvoices.set(id, updated);
     return updated;
   }
 
   async deleteCreditCardInvoice(id: string): Promise<boolean> {
-    return this.creditCardInvoices.delete(id);
+    if (!this.deleteOwned(this.creditCardInvoices, id)) return false;
+
+    for (const [itemId, item] of this.ownedEntries(this.creditCardInvoiceItems)) {
+      if (item.invoiceId === id) {
+        this.creditCardInvoiceItems.delete(itemId);
+      }
+    }
+    for (const [paymentId, payment] of this.ownedEntries(this.creditCardInvoicePayments)) {
+      if (payment.invoiceId === id) {
+        this.creditCardInvoicePayments.delete(paymentId);
+      }
+    }
+    for (const [reconciliationId, reconciliation] of this.ownedEntries(this.reconciliations)) {
+      if (reconciliation.invoiceId === id) {
+        this.reconciliations.delete(reconciliationId);
+      }
+    }
+    return true;
+  }
+
+  // Credit Card Invoice Items
+  async getCreditCardInvoiceItems(): Promise<CreditCardInvoiceItem[]> {
+    return this.ownedValues(this.creditCardInvoiceItems);
+  }
+
+  async getCreditCardInvoiceItemsByInvoice(invoiceId: string): Promise<CreditCardInvoiceItem[]> {
+    return this.ownedValues(this.creditCardInvoiceItems)
+      .filter(i => i.invoiceId === invoiceId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async createCreditCardInvoiceItem(item: InsertCreditCardInvoiceItem): Promise<CreditCardInvoiceItem> {
+    const id = randomUUID();
+    const newItem: CreditCardInvoiceItem = {
+      ...item,
+      id,
+      userId: this.userId,
+      kind: item.kind || "purchase",
+      transactionId: item.transactionId || null,
+      creditCardId: item.creditCardId || null,
+      installmentNumber: item.installmentNumber ?? null,
+      installments: item.installments ?? null,
+      createdAt: new Date()
+    };
+    this.creditCardInvoiceItems.set(id, newItem);
+    return newItem;
+  }
+
+  // Credit Card Invoice Payments
+  async getCreditCardInvoicePayments(invoiceId?: string): Promise<CreditCardInvoicePayment[]> {
+    return this.ownedValues(this.creditCardInvoicePayments)
+      .filter(p => !invoiceId || p.invoiceId === invoiceId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async createCreditCardInvoicePayment(payment: InsertCreditCardInvoicePayment): Promise<CreditCardInvoicePayment> {
+    const id = randomUUID();
+    const newPayment: CreditCardInvoicePayment = {
+      ...payment,
+      id,
+      userId: this.userId,
+      accountId: payment.accountId || null,
+      clearedStatus: payment.clearedStatus || "uncleared",
+      reconciliationId: payment.reconciliationId || null,
+      createdAt: new Date()
+    };
+    this.creditCardInvoicePayments.set(id, newPayment);
+    return newPayment;
+  }
+
+  async updateCreditCardInvoicePayment(id: string, payment: Partial<InsertCreditCardInvoicePayment>): Promise<CreditCardInvoicePayment | undefined> {
+    const existing = this.ownedById(this.creditCardInvoicePayments, id);
+    if (!existing) return undefined;
+
+    const updated: CreditCardInvoicePayment = { ...existing, ...payment, id: existing.id, userId: existing.userId };
+    this.creditCardInvoicePayments.set(id, updated);
+    return updated;
+  }
+
+  // Reconciliations
+  async getReconciliations(): Promise<Reconciliation[]> {
+    return this.ownedValues(this.reconciliations).sort((a, b) => b.statementDate.localeCompare(a.statementDate));
+  }
+
+  async getReconciliationById(id: string): Promise<Reconciliation | undefined> {
+    return this.ownedById(this.reconciliations, id);
+  }
+
+  async createReconciliation(reconciliation: InsertReconciliation): Promise<Reconciliation> {
+    const id = randomUUID();
+    const newReconciliation: Reconciliation = {
+      ...reconciliation,
+      id,
+      userId: this.userId,
+      accountId: reconciliation.accountId || null,
+      invoiceId: reconciliation.invoiceId || null,
+      status: reconciliation.status || "open",
+      completedAt: reconciliation.completedAt || null,
+      createdAt: new Date()
+    };
+    this.reconciliations.set(id, newReconciliation);
+    return newReconciliation;
+  }
+
+  async updateReconciliation(id: string, reconciliation: Partial<InsertReconciliation>): Promise<Reconciliation | undefined> {
+    const existing = this.ownedById(this.reconciliations, id);
+    if (!existing) return undefined;
+
+    const updated: Reconciliation = { ...existing, ...reconciliation, id: existing.id, userId: existing.userId };
+    this.reconciliations.set(id, updated);
+    return updated;
+  }
+
+  async deleteReconciliation(id: string): Promise<boolean> {
+    return this.deleteOwned(this.reconciliations, id);
+  }
+
+  // CSV Import Profiles
+  async getImportProfiles(): Promise<ImportProfile[]> {
+    return this.ownedValues(this.importProfiles).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getImportProfileById(id: string): Promise<ImportProfile | undefined> {
+    return this.ownedById(this.importProfiles, id);
+  }
+
+  async createImportProfile(profile: InsertImportProfile): Promise<ImportProfile> {
+    const id = randomUUID();
+    const newProfile: ImportProfile = {
+      ...profile,
+      id,
+      userId: this.userId,
+      delimiter: profile.delimiter || ";",
+      decimalSeparator: profile.decimalSeparator || ",",
+      dateFormat: profile.dateFormat || "DD/MM/YYYY",
+      signConvention: profile.signConvention || "negative_expense",
+      hasHeader: profile.hasHeader !== false,
+      skipRows: profile.skipRows || 0,
+      createdAt: new Date()
+    };
+    this.importProfiles.set(id, newProfile);
+    return newProfile;
+  }
+
+  async updateImportProfile(id: string, profile: Partial<InsertImportProfile>): Promise<ImportProfile | undefined> {
+    const existing = this.ownedById(this.importProfiles, id);
+    if (!existing) return undefined;
+
+    const updated: ImportProfile = { ...existing, ...profile, id: existing.id, userId: existing.userId };
+    this.importProfiles.set(id, updated);
+    return updated;
+  }
+
+  async deleteImportProfile(id: string): Promise<boolean> {
+    return this.deleteOwned(this.importProfiles, id);
+  }
+
+  // Exchange rates
+  async getExchangeRates(currency?: string): Promise<ExchangeRate[]> {
+    return this.ownedValues(this.exchangeRates)
+      .filter(rate => !currency || rate.currency === currency)
+      .sort((a, b) => b.date.localeCompare(a.date) || a.currency.localeCompare(b.currency));
+  }
+
+  async getExchangeRateOn(currency: string, date: string): Promise<ExchangeRate | undefined> {
+    const rates = await this.getExchangeRates(currency);
+    return rates.find(rate => rate.date <= date);
+  }
+
+  async saveExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate> {
+    const existing = this.ownedValues(this.exchangeRates)
+      .find(r => r.currency === rate.currency && r.date === rate.date);
+    const saved: ExchangeRate = {
+      ...rate,
+      id: existing?.id ?? randomUUID(),
+      userId: this.userId,
+      source: rate.source || "manual",
+      createdAt: existing?.createdAt ?? new Date()
+    };
+    this.exchangeRates.set(saved.id, saved);
+    return saved;
+  }
+
+  async deleteExchangeRate(id: string): Promise<boolean> {
+    return this.deleteOwned(this.exchangeRates, id);
+  }
+
+  // Card reward programs
+  async getRewardPrograms(): Promise<RewardProgram[]> {
+    return this.ownedValues(this.rewardPrograms).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getRewardProgramById(id: string): Promise<RewardProgram | undefined> {
+    return this.ownedById(this.rewardPrograms, id);
+  }
+
+  async createRewardProgram(program: InsertRewardProgram): Promise<RewardProgram> {
+    const id = randomUUID();
+    const newProgram: RewardProgram = {
+      ...program,
+      id,
+      userId: this.userId,
+      rewardType: program.rewardType || "points",
+      pointsPerUnit: program.pointsPerUnit || "1",
+      spendCurrency: program.spendCurrency || "BRL",
+      cashbackRate: program.cashbackRate || "0",
+      categoryMultipliers: program.categoryMultipliers || {},
+      expirationMonths: program.expirationMonths ?? null,
+      createdAt: new Date()
+    };
+    this.rewardPrograms.set(id, newProgram);
+    return newProgram;
+  }
+
+  async updateRewardProgram(id: string, program: Partial<InsertRewardProgram>): Promise<RewardProgram | undefined> {
+    const existing = this.ownedById(this.rewardPrograms, id);
+    if (!existing) return undefined;
+
+    const updated: RewardProgram = { ...existing, ...program, id: existing.id, userId: existing.userId };
+    this.rewardPrograms.set(id, updated);
+    return updated;
+  }
+
+  async deleteRewardProgram(id: string): Promise<boolean> {
+    if (!this.deleteOwned(this.rewardPrograms, id)) return false;
+
+    for (const [redemptionId, redemption] of this.ownedEntries(this.rewardRedemptions)) {
+      if (redemption.programId === id) {
+        this.rewardRedemptions.delete(redemptionId);
+      }
+    }
+    return true;
+  }
+
+  async getRewardRedemptions(programId?: string): Promise<RewardRedemption[]> {
+    return this.ownedValues(this.rewardRedemptions)
+      .filter(r => !programId || r.programId === programId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async createRewardRedemption(redemption: InsertRewardRedemption): Promise<RewardRedemption> {
+    const id = randomUUID();
+    const newRedemption: RewardRedemption = { ...redemption, id, userId: this.userId, createdAt: new Date() };
+    this.rewardRedemptions.set(id, newRedemption);
+    return newRedemption;
+  }
+
+  async deleteRewardRedemption(id: string): Promise<boolean> {
+    return this.deleteOwned(this.rewardRedemptions, id);
+  }
+
+  // Income sources
+  async getIncomeSources(): Promise<IncomeSource[]> {
+    return this.ownedValues(this.incomeSources).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getIncomeSourceById(id: string): Promise<IncomeSource | undefined> {
+    return this.ownedById(this.incomeSources, id);
+  }
+
+  async createIncomeSource(source: InsertIncomeSource): Promise<IncomeSource> {
+    const id = randomUUID();
+    const newSource: IncomeSource = {
+      ...source,
+      id,
+      userId: this.userId,
+      payBusinessDay: source.payBusinessDay ?? 5,
+      dependents: source.dependents ?? 0,
+      deductions: source.deductions || [],
+      dailyTransportAllowance: source.dailyTransportAllowance || "0",
+      dailyMealAllowance: source.dailyMealAllowance || "0",
+      accountId: source.accountId || null,
+      categoryId: source.categoryId || null,
+      fgtsBalance: source.fgtsBalance || "0",
+      fgtsBalanceDate: source.fgtsBalanceDate || null,
+      fgtsAnnualYield: source.fgtsAnnualYield || "3",
+      createdAt: new Date()
+    };
+    this.incomeSources.set(id, newSource);
+    return newSource;
+  }
+
+  async updateIncomeSource(id: string, source: Partial<InsertIncomeSource>): Promise<IncomeSource | undefined> {
+    const existing = this.ownedById(this.incomeSources, id);
+    if (!existing) return undefined;
+
+    const updated: IncomeSource = { ...existing, ...source, id: existing.id, userId: existing.userId };
+    this.incomeSources.set(id, updated);
+    return updated;
+  }
+
+  async deleteIncomeSource(id: string): Promise<boolean> {
+    if (!this.deleteOwned(this.incomeSources, id)) return false;
+
+    for (const [transactionId, transaction] of this.ownedEntries(this.transactions)) {
+      if (transaction.incomeSourceId === id) {
+        this.transactions.set(transactionId, { ...transaction, incomeSourceId: null });
+      }
+    }
+    for (const [vacationId, vacation] of this.ownedEntries(this.vacations)) {
+      if (vacation.incomeSourceId === id) {
+        this.vacations.delete(vacationId);
+      }
+    }
+    return true;
+  }
+
+  async getVacations(incomeSourceId?: string): Promise<Vacation[]> {
+    return this.ownedValues(this.vacations)
+      .filter(v => !incomeSourceId || v.incomeSourceId === incomeSourceId)
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+
+  async getVacationById(id: string): Promise<Vacation | undefined> {
+    return this.ownedById(this.vacations, id);
+  }
+
+  async createVacation(vacation: InsertVacation): Promise<Vacation> {
+    const id = randomUUID();
+    const newVacation: Vacation = {
+      ...vacation,
+      id,
+      userId: this.userId,
+      soldDays: vacation.soldDays ?? 0,
+      transactionId: vacation.transactionId || null,
+      createdAt: new Date()
+    };
+    this.vacations.set(id, newVacation);
+    return newVacation;
+  }
+
+  async deleteVacation(id: string): Promise<boolean> {
+    return this.deleteOwned(this.vacations, id);
+  }
+
+  // Background jobs
+  async getUserIds(): Promise<string[]> {
+    return Array.from(this.users.keys());
+  }
+
+  async getJobStates(): Promise<JobState[]> {
+    return Array.from(this.jobStates.values());
+  }
+
+  async saveJobState(state: JobState): Promise<JobState> {
+    this.jobStates.set(state.name, state);
+    return state;
+  }
+}
+
+type Database = NonNullable<typeof db>;
+
+/**
+ * PostgreSQL-backed storage using the drizzle tables from @shared/schema.
+ * Selected automatically when DATABASE_URL is configured.
+ * Every query is filtered by the user_id of the authenticated request.
+ */
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  private get userId(): string {
+    return getCurrentUserId();
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email.trim().toLowerCase()));
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    return await this.db.transaction(async (tx) => {
+      const [newUser] = await tx.insert(users).values({
+        ...user,
+        email: user.email.trim().toLowerCase()
+      }).returning();
+
+      // Criar apenas as categorias básicas - sem dados de exemplo
+      await tx.insert(categories).values(defaultCategories.map(cat => ({ ...cat, userId: newUser.id })));
+      return newUser;
+    });
+  }
+
+  async updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined> {
+    const [updated] = await this.db.update(users).set({
+      ...user,
+      ...(user.email ? { email: user.email.trim().toLowerCase() } : {}),
+      updatedAt: new Date()
+    }).where(eq(users.id, id)).returning();
+    return updated;
+  }
+
+  // Categories
+  async getCategories(): Promise<Category[]> {
+    return await this.db.select().from(categories).where(eq(categories.userId, this.userId));
+  }
+
+  async getCategoryById(id: string): Promise<Category | undefined> {
+    const [category] = await this.db.select().from(categories).where(
+      and(eq(categories.id, id), eq(categories.userId, this.userId))
+    );
+    return category;
+  }
+
+  async createCategory(category: InsertCategory): Promise<Category> {
+    const [newCategory] = await this.db.insert(categories).values({ ...category, userId: this.userId }).returning();
+    return newCategory;
+  }
+
+  async updateCategory(id: string, category: Partial<InsertCategory>): Promise<Category | undefined> {
+    const [updated] = await this.db.update(categories).set({ ...category, userId: this.userId }).where(
+      and(eq(categories.id, id), eq(categories.userId, this.userId))
+    ).returning();
+    return updated;
+  }
+
+  async deleteCategory(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(categories).where(
+      and(eq(categories.id, id), eq(categories.userId, this.userId))
+    ).returning({ id: categories.id });
+    return deleted.length > 0;
+  }
+
+  // Transactions
+  async getTransactions(): Promise<Transaction[]> {
+    return await this.db.select().from(transactions)
+      .where(eq(transactions.userId, this.userId))
+      .orderBy(desc(transactions.date));
+  }
+
+  async getTransactionById(id: string): Promise<Transaction | undefined> {
+    const [transaction] = await this.db.select().from(transactions).where(
+      and(eq(transactions.id, id), eq(transactions.userId, this.userId))
+    );
+    return transaction;
+  }
+
+  async getTransactionsByDateRange(startDate: string, endDate: string): Promise<Transaction[]> {
+    return await this.db.select().from(transactions).where(
+      and(eq(transactions.userId, this.userId), gte(transactions.date, startDate), lte(transactions.date, endDate))
+    );
+  }
+
+  async getTransactionsByCategory(categoryId: string): Promise<Transaction[]> {
+    return await this.db.select().from(transactions).where(
+      and(eq(transactions.userId, this.userId), eq(transactions.categoryId, categoryId))
+    );
+  }
+
+  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
+    const [newTransaction] = await this.db.insert(transactions).values({
+      ...transaction,
+      userId: this.userId,
+      categoryId: transaction.categoryId || null,
+      paymentMethod: transaction.paymentMethod || null,
+      creditCardId: transaction.creditCardId || null,
+      parentTransactionId: transaction.parentTransactionId || null,
+    }).returning();
+    return newTransaction;
+  }
+
+  async updateTransaction(id: string, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined> {
+    const [updated] = await this.db.update(transactions).set({ ...transaction, userId: this.userId }).where(
+      and(eq(transactions.id, id), eq(transactions.userId, this.userId))
+    ).returning();
+    return updated;
+  }
+
+  async deleteTransaction(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(transactions).where(
+      and(eq(transactions.id, id), eq(transactions.userId, this.userId))
+    ).returning({ id: transactions.id });
+    return deleted.length > 0;
+  }
+
+  async clearAllTransactions(): Promise<void> {
+    await this.db.delete(transactions).where(eq(transactions.userId, this.userId));
+    console.log('⚠️ Todas as transações foram removidas do sistema');
+  }
+
+  async deleteRecurringTransactions(parentId: string): Promise<boolean> {
+    const deleted = await this.db.delete(transactions).where(and(
+      eq(transactions.userId, this.userId),
+      or(eq(transactions.id, parentId), eq(transactions.parentTransactionId, parentId))
+    )).returning({ id: transactions.id });
+    return deleted.length > 0;
+  }
+
+  async updateRecurringTransactions(parentId: string, updates: Partial<InsertTransaction>): Promise<boolean> {
+    const updated = await this.db.update(transactions).set({ ...updates, userId: this.userId }).where(and(
+      eq(transactions.userId, this.userId),
+      or(eq(transactions.id, parentId), eq(transactions.parentTransactionId, parentId))
+    )).returning({ id: transactions.id });
+    return updated.length > 0;
+  }
+
+  async getInstallmentTransactions(parentId: string): Promise<Transaction[]> {
+    const rows = await this.db.select().from(transactions).where(and(
+      eq(transactions.userId, this.userId),
+      or(eq(transactions.id, parentId), eq(transactions.parentTransactionId, parentId))
+    )).orderBy(asc(transactions.installmentNumber));
+
+    // O pai só faz parte do grupo quando realmente é uma compra parcelada
+    return rows.filter(t => t.id !== parentId || (t.installments || 0) > 1);
+  }
+
+  async deleteInstallmentTransactions(parentId: string): Promise<boolean> {
+    const parentTransaction = await this.getTransactionById(parentId);
+    const isInstallmentParent = !!parentTransaction && (parentTransaction.installments || 0) > 1;
+
+    if (parentTransaction && isInstallmentParent &&
+        parentTransaction.creditCardId && parentTransaction.type === 'expense') {
+      const creditCard = await this.getCreditCardById(parentTransaction.creditCardId);
+      if (creditCard) {
+        const installmentTransactions = await this.getInstallmentTransactions(parentId);
+        const totalAmount = Money.sum(installmentTransactions.map(t => t.amount));
+
+        const newCurrentUsed = Money.max(Money.ZERO, Money.from(creditCard.currentUsed).minus(totalAmount));
+        await this.updateCreditCard(parentTransaction.creditCardId, {
+          currentUsed: newCurrentUsed.toString()
+        });
+      }
+    }
+
+    const groupCondition = isInstallmentParent
+      ? or(eq(transactions.id, parentId), eq(transactions.parentTransactionId, parentId))
+      : eq(transactions.parentTransactionId, parentId);
+
+    const deleted = await this.db.delete(transactions).where(
+      and(eq(transactions.userId, this.userId), groupCondition)
+    ).returning({ id: transactions.id });
+    return deleted.length > 0;
+  }
+
+  // Budgets
+  async getBudgets(): Promise<Budget[]> {
+    return await this.db.select().from(budgets).where(eq(budgets.userId, this.userId));
+  }
+
+  async getBudgetsByMonth(month: number, year: number): Promise<Budget[]> {
+    return await this.db.select().from(budgets).where(
+      and(eq(budgets.userId, this.userId), eq(budgets.month, month), eq(budgets.year, year))
+    );
+  }
+
+  async createBudget(budget: InsertBudget): Promise<Budget> {
+    const [newBudget] = await this.db.insert(budgets).values({
+      ...budget,
+      userId: this.userId,
+      categoryId: budget.categoryId || null
+    }).returning();
+    return newBudget;
+  }
+
+  async updateBudget(id: string, budget: Partial<InsertBudget>): Promise<Budget | undefined> {
+    const [updated] = await this.db.update(budgets).set({ ...budget, userId: this.userId }).where(
+      and(eq(budgets.id, id), eq(budgets.userId, this.userId))
+    ).returning();
+    return updated;
+  }
+
+  async deleteBudget(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(budgets).where(
+      and(eq(budgets.id, id), eq(budgets.userId, this.userId))
+    ).returning({ id: budgets.id });
+    return deleted.length > 0;
+  }
+
+  // Settings
+  async getSettings(): Promise<Setting[]> {
+    return await this.db.select().from(settings).where(eq(settings.userId, this.userId));
+  }
+
+  async getSettingByKey(key: string): Promise<Setting | undefined> {
+    const [setting] = await this.db.select().from(settings).where(
+      and(eq(settings.userId, this.userId), eq(settings.key, key))
+    );
+    return setting;
+  }
+
+  async createOrUpdateSetting(setting: InsertSetting): Promise<Setting> {
+    const [saved] = await this.db.insert(settings).values({ ...setting, userId: this.userId }).onConflictDoUpdate({
+      target: [settings.userId, settings.key],
+      set: { value: setting.value }
+    }).returning();
+    return saved;
+  }
+
+  async deleteSetting(key: string): Promise<boolean> {
+    const deleted = await this.db.delete(settings).where(
+      and(eq(settings.userId, this.userId), eq(settings.key, key))
+    ).returning({ id: settings.id });
+    return deleted.length > 0;
+  }
+
+  // Credit Cards
+  async getCreditCards(): Promise<CreditCard[]> {
+    return await this.db.select().from(creditCards).where(
+      and(eq(creditCards.userId, this.userId), eq(creditCards.isActive, true))
+    );
+  }
+
+  async getAllCreditCards(): Promise<CreditCard[]> {
+    return await this.db.select().from(creditCards).where(eq(creditCards.userId, this.userId));
+  }
+
+  async getCreditCardById(id: string): Promise<CreditCard | undefined> {
+    const [creditCard] = await this.db.select().from(creditCards).where(
+      and(eq(creditCards.id, id), eq(creditCards.userId, this.userId))
+    );
+    return creditCard;
+  }
+
+  async createCreditCard(creditCard: InsertCreditCard): Promise<CreditCard> {
+    const [newCreditCard] = await this.db.insert(creditCards).values({
+      ...creditCard,
+      userId: this.userId,
+      color: creditCard.color || "#3B82F6",
+      currentUsed: "0",
+      isActive: true,
+      isBlocked: creditCard.isBlocked || false
+    }).returning();
+    return newCreditCard;
+  }
+
+  async updateCreditCard(id: string, creditCard: Partial<CreditCard>): Promise<CreditCard | undefined> {
+    const { id: _id, createdAt: _createdAt, ...updates } = creditCard;
+    const [updated] = await this.db.update(creditCards).set({ ...updates, userId: this.userId }).where(
+      and(eq(creditCards.id, id), eq(creditCards.userId, this.userId))
+    ).returning();
+    return updated;
+  }
+
+  async deleteCreditCard(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(creditCards).where(
+      and(eq(creditCards.id, id), eq(creditCards.userId, this.userId))
+    ).returning({ id: creditCards.id });
+    return deleted.length > 0;
+  }
+
+  // Bank accounts and wallets
+  async getAccounts(): Promise<Account[]> {
+    return await this.db.select().from(accounts)
+      .where(eq(accounts.userId, this.userId))
+      .orderBy(asc(accounts.name));
+  }
+
+  async getAccountById(id: string): Promise<Account | undefined> {
+    const [account] = await this.db.select().from(accounts).where(
+      and(eq(accounts.id, id), eq(accounts.userId, this.userId))
+    );
+    return account;
+  }
+
+  async createAccount(account: InsertAccount): Promise<Account> {
+    const [newAccount] = await this.db.insert(accounts).values({ ...account, userId: this.userId }).returning();
+    return newAccount;
+  }
+
+  async updateAccount(id: string, account: Partial<InsertAccount>): Promise<Account | undefined> {
+    const [updated] = await this.db.update(accounts).set({ ...account, userId: this.userId }).where(
+      and(eq(accounts.id, id), eq(accounts.userId, this.userId))
+    ).returning();
+    return updated;
+  }
+
+  async deleteAccount(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(accounts).where(
+      and(eq(accounts.id, id), eq(accounts.userId, this.userId))
+    ).returning({ id: accounts.id });
+    return deleted.length > 0;
+  }
+
+  async getAccountTransfers(accountId?: string): Promise<AccountTransfer[]> {
+    const owned = eq(accountTransfers.userId, this.userId);
+    return await this.db.select().from(accountTransfers)
+      .where(accountId
+        ? and(owned, or(eq(accountTransfers.fromAccountId, accountId), eq(accountTransfers.toAccountId, accountId)))
+        : owned)
+      .orderBy(asc(accountTransfers.date));
+  }
+
+  async createAccountTransfer(transfer: InsertAccountTransfer): Promise<AccountTransfer> {
+    const [newTransfer] = await this.db.insert(accountTransfers).values({ ...transfer, userId: this.userId }).returning();
+    return newTransfer;
+  }
+
+  async updateAccountTransfer(id: string, transfer: Partial<InsertAccountTransfer>): Promise<AccountTransfer | undefined> {
+    const [updated] = await this.db.update(accountTransfers).set({ ...transfer, userId: this.userId }).where(
+      and(eq(accountTransfers.id, id), eq(accountTransfers.userId, this.userId))
+    ).returning();
+    return updated;
+  }
+
+  async deleteAccountTransfer(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(accountTransfers).where(
+      and(eq(accountTransfers.id, id), eq(accountTransfers.userId, this.userId))
+    ).returning({ id: accountTransfers.id });
+    return deleted.length > 0;
+  }
+
+  // Subscriptions
+  async getSubscriptions(): Promise<Subscription[]> {
+    return await this.db.select().from(subscriptions).where(eq(subscriptions.userId, this.userId));
+  }
+
+  async getActiveSubscriptions(): Promise<Subscription[]> {
+    return await this.db.select().from(subscriptions).where(
+      and(eq(subscriptions.userId, this.userId), eq(subscriptions.isActive, true))
+    );
+  }
+
+  async getSubscriptionById(id: string): Promise<Subscription | undefined> {
+    const [subscription] = await this.db.select().from(subscriptions).where(
+      and(eq(subscriptions.id, id), eq(subscriptions.userId, this.userId))
+    );
+    return subscription;
+  }
+
+  async createSubscription(subscription: InsertSubscription): Promise<Subscription> {
+    const [newSubscription] = await this.db.insert(subscriptions).values({
+      ...subscription,
+      userId: this.userId,
+      categoryId: subscription.categoryId || null,
+      isActive: subscription.isActive !== false,
+      creditCardId: subscription.creditCardId || null
+    }).returning();
+    return newSubscription;
+  }
+
+  async updateSubscription(id: string, subscription: Partial<InsertSubscription>): Promise<Subscription | undefined> {
+    const [updated] = await this.db.update(subscriptions).set({ ...subscription, userId: this.userId }).where(
+      and(eq(subscriptions.id, id), eq(subscriptions.userId, this.userId))
+    ).returning();
+    return updated;
+  }
+
+  async deleteSubscription(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(subscriptions).where(
+      and(eq(subscriptions.id, id), eq(subscriptions.userId, this.userId))
+    ).returning({ id: subscriptions.id });
+    return deleted.length > 0;
+  }
+
+  async toggleSubscription(id: string): Promise<Subscription | undefined> {
+    const existing = await this.getSubscriptionById(id);
+    if (!existing) return undefined;
+
+    return await this.updateSubscription(id, { isActive: !existing.isActive });
+  }
+
+  // Credit Card Invoices
+  async getCreditCardInvoices(): Promise<CreditCardInvoice[]> {
+    return await this.db.select().from(creditCardInvoices).where(eq(creditCardInvoices.userId, this.userId));
+  }
+
+  async getCreditCardInvoiceById(id: string): Promise<CreditCardInvoice | undefined> {
+    const [invoice] = await this.db.select().from(creditCardInvoices).where(
+      and(eq(creditCardInvoices.id, id), eq(creditCardInvoices.userId, this.userId))
+    );
+    return invoice;
+  }
+
+  async getCreditCardInvoicesByCard(creditCardId: string): Promise<CreditCardInvoice[]> {
+    return await this.db.select().from(creditCardInvoices).where(
+      and(eq(creditCardInvoices.userId, this.userId), eq(creditCardInvoices.creditCardId, creditCardId))
+    );
+  }
+
+  async getCreditCardInvoiceByCardAndDate(creditCardId: string, closingDate: string): Promise<CreditCardInvoice | undefined> {
+    const [invoice] = await this.db.select().from(creditCardInvoices).where(and(
+      eq(creditCardInvoices.userId, this.userId),
+      eq(creditCardInvoices.creditCardId, creditCardId),
+      eq(creditCardInvoices.closingDate, closingDate)
+    ));
+    return invoice;
+  }
+
+  async createCreditCardInvoice(invoice: InsertCreditCardInvoice): Promise<CreditCardInvoice> {
+    const [newInvoice] = await this.db.insert(creditCardInvoices).values({ ...invoice, userId: this.userId }).returning();
+    return newInvoice;
+  }
+
+  async updateCreditCardInvoice(id: string, invoice: Partial<InsertCreditCardInvoice>): Promise<CreditCardInvoice | undefined> {
+    const [updated] = await this.db.update(creditCardInvoices).set({ ...invoice, userId: this.userId }).where(
+      and(eq(creditCardInvoices.id, id), eq(creditCardInvoices.userId, this.userId))
+    ).returning();
+    return updated;
+  }
+
+  async deleteCreditCardInvoice(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(creditCardInvoices).where(
+      and(eq(creditCardInvoices.id, id), eq(creditCardInvoices.userId, this.userId))
+    ).returning({ id: creditCardInvoices.id });
+    return deleted.length > 0;
+  }
+
+  // Credit Card Invoice Items
+  async getCreditCardInvoiceItems(): Promise<CreditCardInvoiceItem[]> {
+    return await this.db.select().from(creditCardInvoiceItems).where(eq(creditCardInvoiceItems.userId, this.userId));
+  }
+
+  async getCreditCardInvoiceItemsByInvoice(invoiceId: string): Promise<CreditCardInvoiceItem[]> {
+    return await this.db.select().from(creditCardInvoiceItems)
+      .where(and(eq(creditCardInvoiceItems.userId, this.userId), eq(creditCardInvoiceItems.invoiceId, invoiceId)))
+      .orderBy(asc(creditCardInvoiceItems.date));
+  }
+
+  async createCreditCardInvoiceItem(item: InsertCreditCardInvoiceItem): Promise<CreditCardInvoiceItem> {
+    const [newItem] = await this.db.insert(creditCardInvoiceItems).values({ ...item, userId: this.userId }).returning();
+    return newItem;
+  }
+
+  // Credit Card Invoice Payments
+  async getCreditCardInvoicePayments(invoiceId?: string): Promise<CreditCardInvoicePayment[]> {
+    const owned = eq(creditCardInvoicePayments.userId, this.userId);
+    return await this.db.select().from(creditCardInvoicePayments)
+      .where(invoiceId ? and(owned, eq(creditCardInvoicePayments.invoiceId, invoiceId)) : owned)
+      .orderBy(asc(creditCardInvoicePayments.date));
+  }
+
+  async createCreditCardInvoicePayment(payment: InsertCreditCardInvoicePayment): Promise<CreditCardInvoicePayment> {
+    const [newPayment] = await this.db.insert(creditCardInvoicePayments).values({ ...payment, userId: this.userId }).returning();
+    return newPayment;
+  }
+
+  async updateCreditCardInvoicePayment(id: string, payment: Partial<InsertCreditCardInvoicePayment>): Promise<CreditCardInvoicePayment | undefined> {
+    const [updated] = await this.db.update(creditCardInvoicePayments).set({ ...payment, userId: this.userId }).where(
+      and(eq(creditCardInvoicePayments.id, id), eq(creditCardInvoicePayments.userId, this.userId))
+    ).returning();
+    return updated;
+  }
+
+  // Reconciliations
+  async getReconciliations(): Promise<Reconciliation[]> {
+    return await this.db.select().from(reconciliations)
+      .where(eq(reconciliations.userId, this.userId))
+      .orderBy(desc(reconciliations.statementDate));
+  }
+
+  async getReconciliationById(id: string): Promise<Reconciliation | undefined> {
+    const [reconciliation] = await this.db.select().from(reconciliations).where(
+      and(eq(reconciliations.id, id), eq(reconciliations.userId, this.userId))
+    );
+    return reconciliation;
+  }
+
+  async createReconciliation(reconciliation: InsertReconciliation): Promise<Reconciliation> {
+    const [newReconciliation] = await this.db.insert(reconciliations).values({ ...reconciliation, userId: this.userId }).returning();
+    return newReconciliation;
+  }
+
+  async updateReconciliation(id: string, reconciliation: Partial<InsertReconciliation>): Promise<Reconciliation | undefined> {
+    const [updated] = await this.db.update(reconciliations).set({ ...reconciliation, userId: this.userId }).where(
+      and(eq(reconciliations.id, id), eq(reconciliations.userId, this.userId))
+    ).returning();
+    return updated;
+  }
+
+  async deleteReconciliation(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(reconciliations).where(
+      and(eq(reconciliations.id, id), eq(reconciliations.userId, this.userId))
+    ).returning({ id: reconciliations.id });
+    return deleted.length > 0;
+  }
+
+  // CSV Import Profiles
+  async getImportProfiles(): Promise<ImportProfile[]> {
+    return await this.db.select().from(importProfiles)
+      .where(eq(importProfiles.userId, this.userId))
+      .orderBy(asc(importProfiles.name));
+  }
+
+  async getImportProfileById(id: string): Promise<ImportProfile | undefined> {
+    const [profile] = await this.db.select().from(importProfiles).where(
+      and(eq(importProfiles.id, id), eq(importProfiles.userId, this.userId))
+    );
+    return profile;
+  }
+
+  async createImportProfile(profile: InsertImportProfile): Promise<ImportProfile> {
+    const [newProfile] = await this.db.insert(importProfiles).values({ ...profile, userId: this.userId }).returning();
+    return newProfile;
+  }
+
+  async updateImportProfile(id: string, profile: Partial<InsertImportProfile>): Promise<ImportProfile | undefined> {
+    const [updated] = await this.db.update(importProfiles).set({ ...profile, userId: this.userId }).where(
+      and(eq(importProfiles.id, id), eq(importProfiles.userId, this.userId))
+    ).returning();
+    return updated;
+  }
+
+  async deleteImportProfile(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(importProfiles).where(
+      and(eq(importProfiles.id, id), eq(importProfiles.userId, this.userId))
+    ).returning({ id: importProfiles.id });
+    return deleted.length > 0;
+  }
+
+  // Exchange rates
+  async getExchangeRates(currency?: string): Promise<ExchangeRate[]> {
+    const owned = eq(exchangeRates.userId, this.userId);
+    return await this.db.select().from(exchangeRates)
+      .where(currency ? and(owned, eq(exchangeRates.currency, currency)) : owned)
+      .orderBy(desc(exchangeRates.date), asc(exchangeRates.currency));
+  }
+
+  async getExchangeRateOn(currency: string, date: string): Promise<ExchangeRate | undefined> {
+    const [rate] = await this.db.select().from(exchangeRates).where(
+      and(eq(exchangeRates.userId, this.userId), eq(exchangeRates.currency, currency), lte(exchangeRates.date, date))
+    ).orderBy(desc(exchangeRates.date)).limit(1);
+    return rate;
+  }
+
+  async saveExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate> {
+    const [saved] = await this.db.insert(exchangeRates).values({ ...rate, userId: this.userId })
+      .onConflictDoUpdate({
+        target: [exchangeRates.userId, exchangeRates.currency, exchangeRates.date],
+        set: { rate: rate.rate, source: rate.source ?? "manual" }
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteExchangeRate(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(exchangeRates).where(
+      and(eq(exchangeRates.id, id), eq(exchangeRates.userId, this.userId))
+    ).returning({ id: exchangeRates.id });
+    return deleted.length > 0;
+  }
+
+  // Card reward programs
+  async getRewardPrograms(): Promise<RewardProgram[]> {
+    return await this.db.select().from(rewardPrograms)
+      .where(eq(rewardPrograms.userId, this.userId))
+      .orderBy(asc(rewardPrograms.name));
+  }
+
+  async getRewardProgramById(id: string): Promise<RewardProgram | undefined> {
+    const [program] = await this.db.select().from(rewardPrograms).where(
+      and(eq(rewardPrograms.id, id), eq(rewardPrograms.userId, this.userId))
+    );
+    return program;
+  }
+
+  async createRewardProgram(program: InsertRewardProgram): Promise<RewardProgram> {
+    const [newProgram] = await this.db.insert(rewardPrograms).values({ ...program, userId: this.userId }).returning();
+    return newProgram;
+  }
+
+  async updateRewardProgram(id: string, program: Partial<InsertRewardProgram>): Promise<RewardProgram | undefined> {
+    const [updated] = await this.db.update(rewardPrograms).set({ ...program, userId: this.userId }).where(
+      and(eq(rewardPrograms.id, id), eq(rewardPrograms.userId, this.userId))
+    ).returning();
+    return updated;
+  }
+
+  async deleteRewardProgram(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(rewardPrograms).where(
+      and(eq(rewardPrograms.id, id), eq(rewardPrograms.userId, this.userId))
+    ).returning({ id: rewardPrograms.id });
+    return deleted.length > 0;
+  }
+
+  async getRewardRedemptions(programId?: string): Promise<RewardRedemption[]> {
+    const owned = eq(rewardRedemptions.userId, this.userId);
+    return await this.db.select().from(rewardRedemptions)
+      .where(programId ? and(owned, eq(rewardRedemptions.programId, programId)) : owned)
+      .orderBy(asc(rewardRedemptions.date));
+  }
+
+  async createRewardRedemption(redemption: InsertRewardRedemption): Promise<RewardRedemption> {
+    const [newRedemption] = await this.db.insert(rewardRedemptions).values({ ...redemption, userId: this.userId }).returning();
+    return newRedemption;
+  }
+
+  async deleteRewardRedemption(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(rewardRedemptions).where(
+      and(eq(rewardRedemptions.id, id), eq(rewardRedemptions.userId, this.userId))
+    ).returning({ id: rewardRedemptions.id });
+    return deleted.length > 0;
+  }
+
+  // Income sources
+  async getIncomeSources(): Promise<IncomeSource[]> {
+    return await this.db.select().from(incomeSources)
+      .where(eq(incomeSources.userId, this.userId))
+      .orderBy(asc(incomeSources.name));
+  }
+
+  async getIncomeSourceById(id: string): Promise<IncomeSource | undefined> {
+    const [source] = await this.db.select().from(incomeSources).where(
+      and(eq(incomeSources.id, id), eq(incomeSources.userId, this.userId))
+    );
+    return source;
+  }
+
+  async createIncomeSource(source: InsertIncomeSource): Promise<IncomeSource> {
+    const [newSource] = await this.db.insert(incomeSources).values({ ...source, userId: this.userId }).returning();
+    return newSource;
+  }
+
+  async updateIncomeSource(id: string, source: Partial<InsertIncomeSource>): Promise<IncomeSource | undefined> {
+    const [updated] = await this.db.update(incomeSources).set({ ...source, userId: this.userId }).where(
+      and(eq(incomeSources.id, id), eq(incomeSources.userId, this.userId))
+    ).returning();
+    return updated;
+  }
+
+  async deleteIncomeSource(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(incomeSources).where(
+      and(eq(incomeSources.id, id), eq(incomeSources.userId, this.userId))
+    ).returning({ id: incomeSources.id });
+    return deleted.length > 0;
+  }
+
+  async getVacations(incomeSourceId?: string): Promise<Vacation[]> {
+    const owned = eq(vacations.userId, this.userId);
+    return await this.db.select().from(vacations)
+      .where(incomeSourceId ? and(owned, eq(vacations.incomeSourceId, incomeSourceId)) : owned)
+      .orderBy(asc(vacations.startDate));
+  }
+
+  async getVacationById(id: string): Promise<Vacation | undefined> {
+    const [vacation] = await this.db.select().from(vacations).where(
+      and(eq(vacations.id, id), eq(vacations.userId, this.userId))
+    );
+    return vacation;
+  }
+
+  async createVacation(vacation: InsertVacation): Promise<Vacation> {
+    const [newVacation] = await this.db.insert(vacations).values({ ...vacation, userId: this.userId }).returning();
+    return newVacation;
+  }
+
+  async deleteVacation(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(vacations).where(
+      and(eq(vacations.id, id), eq(vacations.userId, this.userId))
+    ).returning({ id: vacations.id });
+    return deleted.length > 0;
+  }
+
+  // Background jobs
+  async getUserIds(): Promise<string[]> {
+    const rows = await this.db.select({ id: users.id }).from(users);
+    return rows.map(row => row.id);
+  }
+
+  async getJobStates(): Promise<JobState[]> {
+    return await this.db.select().from(jobStates);
+  }
+
+  async saveJobState(state: JobState): Promise<JobState> {
+    const [saved] = await this.db.insert(jobStates).values(state)
+      .onConflictDoUpdate({ target: jobStates.name, set: state })
+      .returning();
+    return saved;
   }
 }
 
-export const storage = new MemStorage();
+// Usa o PostgreSQL quando DATABASE_URL está configurada; caso contrário, memória (também usada em testes).
+// DATA_DIR ativa a persistência em arquivo (snapshot + journal) para uso local sem PostgreSQL
+export const storage: IStorage = db
+  ? new DatabaseStorage(db)
+  : new MemStorage({ dataDir: process.env.DATA_DIR });
@@ -0,0 +1,44 @@
+import { before, after } from "node:test";
+import { MemStorage } from "./storage";
+import { runWithUser } from "./utils/RequestContext";
+import type { Clock } from "./utils/Clock";
+
+/** Clock the test moves forward by hand */
+export interface TestClock extends Clock {
+  set(date: Date): void;
+}
+
+const consoleMethods = { log: console.log, warn: console.warn, error: console.error };
+
+/** Silences the console while the enclosing describe (or the whole file, when called at the top level) runs */
+export function silenceConsole() {
+  before(() => {
+    // Os serviços registram bastante no console; silenciado para manter a saída do runner legível
+    console.log = console.warn = console.error = () => {};
+  });
+
+  after(() => {
+    Object.assign(console, consoleMethods);
+  });
+}
+
+/**
+ * Registers, on the enclosing describe, a fresh MemStorage with one user and a clock starting at
+ * `start`, so each feature's tests share state only with the tests of the same describe
+ */
+export function useFixture(start: Date) {
+  let now = start;
+  const clock: TestClock = { now: () => now, set: (date) => { now = date; } };
+  const storage = new MemStorage();
+  let userId: string;
+
+  const asUser = <T>(fn: () => Promise<T>) => runWithUser(userId, fn);
+
+  silenceConsole();
+
+  before(async () => {
+    userId = (await storage.createUser({ email: "testes@example.com", passwordHash: "x" })).id;
+  });
+
+  return { storage, clock, asUser };
+}
@@ -0,0 +1,45 @@
+import { differenceInCalendarMonths, parseISO } from 'date-fns';
+import { Money } from '@shared/money';
+import type { CreditCard } from '@shared/schema';
+import { invoiceClosingDateFor } from './BillingCycle';
+
+/**
+ * Card annual fee (anuidade) schedule
+ * The yearly amount is billed in installments on consecutive invoices, starting with the invoice that bills
+ * the start date, and the cycle restarts every 12 invoices (a fee in fewer than 12 installments leaves the
+ * rest of the year free). An invoice whose spending reaches the waiver threshold does not pay its installment
+ */
+
+export interface AnnualFeeInstallment {
+  installmentNumber: number;
+  installments: number;
+  amount: Money;
+}
+
+type AnnualFeeSettings = Pick<CreditCard, 'closingDay' | 'annualFeeAmount' | 'annualFeeInstallments' | 'annualFeeStartDate'>;
+
+/**
+ * Fee installment billed on the invoice that closes on `closingDate`, or null when it bills none
+ */
+export function annualFeeInstallmentOn(card: AnnualFeeSettings, closingDate: string): AnnualFeeInstallment | null {
+  const yearlyAmount = Money.from(card.annualFeeAmount);
+  if (!card.annualFeeStartDate || !yearlyAmount.isPositive()) return null;
+
+  const firstClosing = invoiceClosingDateFor(parseISO(card.annualFeeStartDate), card.closingDay);
+  const invoicesSinceStart = differenceInCalendarMonths(parseISO(closingDate), firstClosing);
+  if (invoicesSinceStart < 0) return null;
+
+  const installments = Math.min(12, Math.max(1, card.annualFeeInstallments));
+  const installmentNumber = invoicesSinceStart % 12 + 1;
+  if (installmentNumber > installments) return null;
+
+  return { installmentNumber, installments, amount: yearlyAmount.allocate(installments)[installmentNumber - 1] };
+}
+
+/**
+ * Whether spending of `spent` on an invoice waives its fee installment
+ */
+export function isAnnualFeeWaived(card: Pick<CreditCard, 'annualFeeWaiverThreshold'>, spent: Money): boolean {
+  const threshold = Money.from(card.annualFeeWaiverThreshold);
+  return threshold.isPositive() && spent.greaterThanOrEqual(threshold);
+}
@@ -0,0 +1,84 @@
+import { addDays, addMonths, format, getDaysInMonth, parseISO } from 'date-fns';
+
+/**
+ * Credit card billing cycle math
+ * An invoice is identified by its closing date (yyyy-MM-dd) and covers the purchases made after the
+ * previous closing up to and including the closing day; days past the end of a short month fall on its last day
+ */
+
+export interface BillingPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+export function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+function clampedDate(year: number, monthIndex: number, day: number): Date {
+  const lastDay = getDaysInMonth(new Date(year, monthIndex, 1));
+  return new Date(year, monthIndex, Math.min(day, lastDay));
+}
+
+/**
+ * Closing date of the invoice that closes in the given month
+ */
+export function closingDateIn(year: number, monthIndex: number, closingDay: number): Date {
+  return clampedDate(year, monthIndex, closingDay);
+}
+
+/**
+ * Closing date of the invoice that bills a purchase made on `date`
+ */
+export function invoiceClosingDateFor(date: Date, closingDay: number): Date {
+  const thisMonth = closingDateIn(date.getFullYear(), date.getMonth(), closingDay);
+  if (toDateKey(date) <= toDateKey(thisMonth)) {
+    return thisMonth;
+  }
+  const nextMonth = addMonths(new Date(date.getFullYear(), date.getMonth(), 1), 1);
+  return closingDateIn(nextMonth.getFullYear(), nextMonth.getMonth(), closingDay);
+}
+
+/**
+ * Whether a date key is a closing date of a card with this closing day
+ */
+export function isClosingDate(dateKey: string, closingDay: number): boolean {
+  const date = parseISO(dateKey);
+  return toDateKey(closingDateIn(date.getFullYear(), date.getMonth(), closingDay)) === dateKey;
+}
+
+/**
+ * Most recent closing date that is already over on `today` (the closing day itself still accepts purchases)
+ */
+export function lastClosedDate(today: Date, closingDay: number): Date {
+  const thisMonth = closingDateIn(today.getFullYear(), today.getMonth(), closingDay);
+  if (toDateKey(thisMonth) < toDateKey(today)) {
+    return thisMonth;
+  }
+  const previousMonth = addMonths(new Date(today.getFullYear(), today.getMonth(), 1), -1);
+  return closingDateIn(previousMonth.getFullYear(), previousMonth.getMonth(), closingDay);
+}
+
+/**
+ * Purchase dates (inclusive) billed on the invoice that closes on `closingDate`
+ */
+export function billingPeriod(closingDate: Date, closingDay: number): BillingPeriod {
+  const previousMonth = addMonths(new Date(closingDate.getFullYear(), closingDate.getMonth(), 1), -1);
+  const previousClosing = closingDateIn(previousMonth.getFullYear(), previousMonth.getMonth(), closingDay);
+  return {
+    startDate: toDateKey(addDays(previousClosing, 1)),
+    endDate: toDateKey(closingDate),
+  };
+}
+
+/**
+ * Due date of the invoice that closes on `closingDate`: in the same month when the due day comes
+ * after the closing day, otherwise in the following month
+ */
+export function dueDateFor(closingDate: Date, dueDay: number): Date {
+  if (dueDay > closingDate.getDate()) {
+    return clampedDate(closingDate.getFullYear(), closingDate.getMonth(), dueDay);
+  }
+  const nextMonth = addMonths(new Date(closingDate.getFullYear(), closingDate.getMonth(), 1), 1);
+  return clampedDate(nextMonth.getFullYear(), nextMonth.getMonth(), dueDay);
+}
@@ -0,0 +1,11 @@
+/**
+ * Source of the current time, injected where behavior depends on "today" (jobs, invoice closing)
+ * so tests can move time forward instead of waiting for it
+ */
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date()
+};
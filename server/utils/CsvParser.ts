@@ -0,0 +1,238 @@
+import type { CsvColumnMapping } from '@shared/schema';
+import { ValidationError } from '../middleware/ErrorHandlingMiddleware';
+
+/**
+ * The subset of an import profile needed to read a file
+ */
+export interface CsvLayout {
+  delimiter: string;
+  decimalSeparator: string;
+  dateFormat: string;
+  signConvention: string;
+  hasHeader?: boolean;
+  skipRows?: number;
+  columns: CsvColumnMapping;
+}
+
+/**
+ * A data row mapped through the layout: positive amount plus direction
+ */
+export interface CsvRow {
+  /** 1-based line of the row in the file, for error messages */
+  line: number;
+  date: string;
+  description: string;
+  amount: string;
+  type: 'income' | 'expense';
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: CsvRow[];
+  errors: string[];
+}
+
+/**
+ * Split CSV text into records. Handles quoted fields with embedded delimiters,
+ * line breaks and doubled quotes ("").
+ */
+export function parseCsvRecords(content: string, delimiter: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      inQuotes = true;
+      field = '';
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Linhas em branco (inclusive no fim do arquivo) não são lançamentos
+  return records.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parse a date in the profile format into YYYY-MM-DD
+ */
+export function parseCsvDate(value: string, format: string): string | undefined {
+  const parts = value.trim().split(/[\s T]/)[0].split(/[/.-]/);
+  const tokens = format.split(/[/.-]/);
+  if (parts.length !== tokens.length) return undefined;
+
+  let day = 0;
+  let month = 0;
+  let year = 0;
+  tokens.forEach((token, index) => {
+    const number = Number(parts[index]);
+    if (token === 'DD') day = number;
+    if (token === 'MM') month = number;
+    if (token === 'YYYY') year = number;
+    if (token === 'YY') year = 2000 + number;
+  });
+
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (!year || parsed.getUTCFullYear() !== year || parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+    return undefined;
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Normalize amounts like "1.234,56", "-R$ 10,00", "(45.90)" or "1,234.56" into a signed decimal string
+ */
+export function parseCsvAmount(value: string, decimalSeparator: string): string | undefined {
+  let normalized = value.trim();
+  if (normalized === '') return undefined;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(normalized)) {
+    negative = true;
+    normalized = normalized.slice(1, -1);
+  }
+  if (/-/.test(normalized)) {
+    negative = !negative;
+  }
+
+  normalized = normalized.replace(/R\$|[\s+-]/g, '');
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+  normalized = normalized.split(thousandsSeparator).join('');
+  if (decimalSeparator === ',') {
+    normalized = normalized.replace(',', '.');
+  }
+
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(normalized)) return undefined;
+  return negative ? `-${normalized}` : normalized;
+}
+
+function resolveColumn(reference: string | undefined, headers: string[]): number {
+  if (!reference) return -1;
+  const wanted = reference.trim().toLowerCase();
+  const byName = headers.findIndex(header => header.trim().toLowerCase() === wanted);
+  if (byName !== -1) return byName;
+  return /^\d+$/.test(wanted) ? Number(wanted) - 1 : -1;
+}
+
+/**
+ * Read a bank CSV export with the given layout
+ */
+export function parseCsv(content: string, layout: CsvLayout): CsvParseResult {
+  const delimiter = layout.delimiter || ';';
+  const decimalSeparator = layout.decimalSeparator || ',';
+  const records = parseCsvRecords(content, delimiter).slice(layout.skipRows || 0);
+  if (records.length === 0) {
+    throw new ValidationError('Arquivo CSV vazio');
+  }
+
+  const hasHeader = layout.hasHeader !== false;
+  const headers = hasHeader ? records[0].map(header => header.trim()) : [];
+  const firstDataLine = (layout.skipRows || 0) + (hasHeader ? 2 : 1);
+  const dataRecords = hasHeader ? records.slice(1) : records;
+
+  const columns = {
+    date: resolveColumn(layout.columns.date, headers),
+    description: resolveColumn(layout.columns.description, headers),
+    amount: resolveColumn(layout.columns.amount, headers),
+    debit: resolveColumn(layout.columns.debit, headers),
+    credit: resolveColumn(layout.columns.credit, headers)
+  };
+
+  const splitColumns = layout.signConvention === 'split_columns';
+  const missing = [
+    columns.date === -1 && layout.columns.date,
+    columns.description === -1 && layout.columns.description,
+    !splitColumns && columns.amount === -1 && (layout.columns.amount || 'valor'),
+    splitColumns && columns.debit === -1 && (layout.columns.debit || 'débito'),
+    splitColumns && columns.credit === -1 && (layout.columns.credit || 'crédito')
+  ].filter((name): name is string => Boolean(name));
+
+  if (missing.length > 0) {
+    throw new ValidationError('Colunas não encontradas no arquivo', missing.map(name => `Coluna "${name}"`));
+  }
+
+  const rows: CsvRow[] = [];
+  const errors: string[] = [];
+
+  dataRecords.forEach((record, index) => {
+    const line = firstDataLine + index;
+    const cell = (column: number) => (column >= 0 ? record[column] ?? '' : '');
+
+    const date = parseCsvDate(cell(columns.date), layout.dateFormat || 'DD/MM/YYYY');
+    const description = cell(columns.description).trim();
+
+    let signed: string | undefined;
+    if (splitColumns) {
+      const debit = parseCsvAmount(cell(columns.debit), decimalSeparator);
+      const credit = parseCsvAmount(cell(columns.credit), decimalSeparator);
+      if (debit && Number(debit) !== 0) {
+        signed = debit.startsWith('-') ? debit : `-${debit}`;
+      } else if (credit) {
+        signed = credit.replace(/^-/, '');
+      }
+    } else {
+      const amount = parseCsvAmount(cell(columns.amount), decimalSeparator);
+      if (amount !== undefined) {
+        // Faturas de cartão (ex.: Nubank) listam compras como valores positivos
+        const flip = layout.signConvention === 'positive_expense';
+        signed = flip ? (amount.startsWith('-') ? amount.slice(1) : `-${amount}`) : amount;
+      }
+    }
+
+    if (!date) {
+      errors.push(`Linha ${line}: data inválida "${cell(columns.date)}"`);
+      return;
+    }
+    if (signed === undefined || Number(signed) === 0) {
+      errors.push(`Linha ${line}: valor inválido`);
+      return;
+    }
+    if (!description) {
+      errors.push(`Linha ${line}: descrição vazia`);
+      return;
+    }
+
+    rows.push({
+      line,
+      date,
+      description,
+      amount: signed.replace(/^-/, ''),
+      type: signed.startsWith('-') ? 'expense' : 'income'
+    });
+  });
+
+  if (rows.length === 0) {
+    throw new ValidationError('Nenhum lançamento válido no arquivo CSV', errors);
+  }
+
+  return { headers, rows, errors };
+}
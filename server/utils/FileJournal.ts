@@ -0,0 +1,240 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * A single mutation recorded in the write-ahead journal
+ */
+export interface JournalRecord {
+  seq: number;
+  op: 'set' | 'delete' | 'clear';
+  collection: string;
+  id?: string;
+  value?: unknown;
+}
+
+export type JournalMutation = Omit<JournalRecord, 'seq'>;
+
+export type CollectionsSnapshot = Record<string, Array<[string, unknown]>>;
+
+interface SnapshotFile {
+  version: number;
+  seq: number;
+  createdAt: string;
+  collections: CollectionsSnapshot;
+}
+
+export interface FileJournalOptions {
+  /** Number of journal records after which a new snapshot is written */
+  snapshotEvery?: number;
+  /** Interval for periodic snapshots in milliseconds (0 disables the timer) */
+  snapshotIntervalMs?: number;
+  /** Fields stored as Date: JSON keeps them as strings, so they are revived on load */
+  dateFields?: Iterable<string>;
+}
+
+const SNAPSHOT_FILE = 'snapshot.json';
+const JOURNAL_FILE = 'journal.log';
+const SNAPSHOT_VERSION = 1;
+
+function dateReviver(dateFields: Set<string>) {
+  return (key: string, value: unknown): unknown => {
+    if (dateFields.has(key) && typeof value === 'string') {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? value : date;
+    }
+    return value;
+  };
+}
+
+function checksum(payload: string): string {
+  return createHash('sha256').update(payload).digest('hex').slice(0, 16);
+}
+
+/**
+ * File Journal
+ * Durable persistence for in-memory collections using a JSON snapshot plus an append-only journal.
+ * Each journal line is `<checksum> <json>`; a torn or corrupted last line is detected and truncated on load.
+ */
+export class FileJournal {
+  private readonly snapshotPath: string;
+  private readonly journalPath: string;
+  private readonly snapshotEvery: number;
+  private readonly snapshotIntervalMs: number;
+  private readonly reviveDates: (key: string, value: unknown) => unknown;
+  private seq = 0;
+  private recordsSinceSnapshot = 0;
+  private fd: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private provider: (() => CollectionsSnapshot) | null = null;
+
+  constructor(private dataDir: string, options: FileJournalOptions = {}) {
+    this.snapshotPath = path.join(dataDir, SNAPSHOT_FILE);
+    this.journalPath = path.join(dataDir, JOURNAL_FILE);
+    this.snapshotEvery = options.snapshotEvery ?? 1000;
+    this.snapshotIntervalMs = options.snapshotIntervalMs ?? 5 * 60 * 1000;
+    this.reviveDates = dateReviver(new Set(options.dateFields));
+  }
+
+  /**
+   * Read the last snapshot and the journal records written after it.
+   * Returns null when the data directory holds no previous state.
+   */
+  load(): { collections: CollectionsSnapshot; records: JournalRecord[] } | null {
+    fs.mkdirSync(this.dataDir, { recursive: true });
+
+    let collections: CollectionsSnapshot = {};
+    let snapshotSeq = 0;
+    const hasSnapshot = fs.existsSync(this.snapshotPath);
+
+    if (hasSnapshot) {
+      const snapshot = JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8'), this.reviveDates) as SnapshotFile;
+      if (snapshot.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version ${snapshot.version} in ${this.snapshotPath}`);
+      }
+      collections = snapshot.collections;
+      snapshotSeq = snapshot.seq;
+    }
+
+    const records = this.readJournal().filter(record => record.seq > snapshotSeq);
+    this.seq = records.length > 0 ? records[records.length - 1].seq : snapshotSeq;
+    this.recordsSinceSnapshot = records.length;
+
+    if (!hasSnapshot && records.length === 0) {
+      return null;
+    }
+
+    return { collections, records };
+  }
+
+  /**
+   * Open the journal for appending and start periodic snapshots
+   */
+  open(provider: () => CollectionsSnapshot): void {
+    this.provider = provider;
+    fs.mkdirSync(this.dataDir, { recursive: true });
+    this.fd = fs.openSync(this.journalPath, 'a');
+
+    if (this.snapshotIntervalMs > 0) {
+      this.timer = setInterval(() => {
+        if (this.recordsSinceSnapshot > 0) {
+          this.snapshot();
+        }
+      }, this.snapshotIntervalMs);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Append a mutation to the journal and flush it to disk
+   */
+  append(mutation: JournalMutation): void {
+    if (this.fd === null) return;
+
+    const record: JournalRecord = { seq: ++this.seq, ...mutation };
+    const payload = JSON.stringify(record);
+    fs.writeSync(this.fd, `${checksum(payload)} ${payload}\n`);
+    fs.fsyncSync(this.fd);
+
+    this.recordsSinceSnapshot++;
+    if (this.recordsSinceSnapshot >= this.snapshotEvery) {
+      this.snapshot();
+    }
+  }
+
+  /**
+   * Write a full snapshot atomically and truncate the journal
+   */
+  snapshot(): void {
+    if (!this.provider) return;
+
+    const snapshot: SnapshotFile = {
+      version: SNAPSHOT_VERSION,
+      seq: this.seq,
+      createdAt: new Date().toISOString(),
+      collections: this.provider()
+    };
+
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    const tmpFd = fs.openSync(tmpPath, 'w');
+    try {
+      fs.writeSync(tmpFd, JSON.stringify(snapshot));
+      fs.fsyncSync(tmpFd);
+    } finally {
+      fs.closeSync(tmpFd);
+    }
+    fs.renameSync(tmpPath, this.snapshotPath);
+
+    // Registros com seq <= snapshot.seq são ignorados no load, então truncar depois do rename é seguro
+    if (this.fd !== null) {
+      fs.ftruncateSync(this.fd, 0);
+      fs.fsyncSync(this.fd);
+    }
+    this.recordsSinceSnapshot = 0;
+  }
+
+  /**
+   * Stop the snapshot timer, write a final snapshot and release the journal file
+   */
+  close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.recordsSinceSnapshot > 0) {
+      this.snapshot();
+    }
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private readJournal(): JournalRecord[] {
+    if (!fs.existsSync(this.journalPath)) {
+      return [];
+    }
+
+    const content = fs.readFileSync(this.journalPath, 'utf8');
+    const records: JournalRecord[] = [];
+    let offset = 0;
+
+    while (offset < content.length) {
+      const newline = content.indexOf('\n', offset);
+      const line = newline === -1 ? content.slice(offset) : content.slice(offset, newline);
+      const record = newline === -1 ? null : this.parseLine(line);
+
+      if (!record) {
+        const isLastLine = newline === -1 || newline === content.length - 1;
+        if (!isLastLine) {
+          throw new Error(`Corrupted journal record at byte ${Buffer.byteLength(content.slice(0, offset))} in ${this.journalPath}`);
+        }
+
+        // Último registro incompleto (queda durante a escrita): descartar e seguir
+        console.warn(`⚠️ Registro final do journal incompleto foi descartado (${this.journalPath})`);
+        fs.truncateSync(this.journalPath, Buffer.byteLength(content.slice(0, offset)));
+        break;
+      }
+
+      records.push(record);
+      offset = newline + 1;
+    }
+
+    return records;
+  }
+
+  private parseLine(line: string): JournalRecord | null {
+    const separator = line.indexOf(' ');
+    if (separator === -1) return null;
+
+    const hash = line.slice(0, separator);
+    const payload = line.slice(separator + 1);
+    if (checksum(payload) !== hash) return null;
+
+    try {
+      return JSON.parse(payload, this.reviveDates) as JournalRecord;
+    } catch {
+      return null;
+    }
+  }
+}
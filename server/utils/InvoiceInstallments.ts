@@ -0,0 +1,99 @@
+import { Money } from '@shared/money';
+import type { RevolvingRates } from './RevolvingCredit';
+
+/**
+ * Invoice installment plan (parcelamento de fatura) math
+ * The balance is financed with fixed monthly installments (Price table) at the chosen monthly rate; IOF is
+ * charged on the amount financed (fixed rate plus daily rate over each installment's term, capped at 365
+ * days) and financed along with it. CET is the monthly rate that discounts the installments back to the balance
+ */
+
+const DAYS_PER_MONTH = 30;
+const IOF_MAX_DAYS = 365;
+
+export interface InstallmentPlan {
+  balance: Money;
+  installments: number;
+  /** Monthly interest rate, % */
+  interestRate: number;
+  iof: Money;
+  financedAmount: Money;
+  installmentAmount: Money;
+  totalAmount: Money;
+  /** Interest and IOF on top of the balance */
+  totalCost: Money;
+  /** Custo efetivo total, % per month and per year (2 decimals) */
+  monthlyCet: number;
+  annualCet: number;
+}
+
+// Parcela fixa da tabela Price
+function installmentFactor(rate: number, installments: number): number {
+  return rate === 0 ? 1 / installments : rate / (1 - Math.pow(1 + rate, -installments));
+}
+
+function iofOn(balance: Money, rate: number, installments: number, rates: RevolvingRates): Money {
+  // Amortização de cada parcela, tributada pelos dias até o seu vencimento
+  const payment = installmentFactor(rate, installments) * balance.toNumber();
+  let outstanding = balance.toNumber();
+  let dailyIof = 0;
+  for (let k = 1; k <= installments; k++) {
+    const amortization = payment - outstanding * rate;
+    outstanding -= amortization;
+    dailyIof += amortization * (rates.iofDailyRate / 100) * Math.min(k * DAYS_PER_MONTH, IOF_MAX_DAYS);
+  }
+  return balance.times(rates.iofFixedRate / 100).plus(Money.from(dailyIof.toFixed(2)));
+}
+
+// Taxa mensal que iguala o valor presente das parcelas ao saldo parcelado (bisseção)
+function monthlyRateOf(balance: Money, installmentAmount: Money, installments: number): number {
+  const presentValue = (rate: number) =>
+    Array.from({ length: installments }, (_, i) => installmentAmount.toNumber() / Math.pow(1 + rate, i + 1))
+      .reduce((sum, value) => sum + value, 0);
+
+  if (presentValue(0) <= balance.toNumber()) return 0;
+
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 100; i++) {
+    const middle = (low + high) / 2;
+    if (presentValue(middle) > balance.toNumber()) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+}
+
+const toPercentage = (rate: number) => Math.round(rate * 10000) / 100;
+
+/**
+ * Plan to pay `balance` in `installments` monthly installments at `interestRate` % a month
+ */
+export function calculateInstallmentPlan(
+  balance: Money,
+  installments: number,
+  interestRate: number,
+  rates: RevolvingRates
+): InstallmentPlan {
+  const rate = interestRate / 100;
+  const iof = iofOn(balance, rate, installments, rates);
+  const financedAmount = balance.plus(iof);
+  const installmentAmount = financedAmount.times(installmentFactor(rate, installments));
+  const totalAmount = installmentAmount.times(installments);
+  const monthlyCet = monthlyRateOf(balance, installmentAmount, installments);
+
+  return {
+    balance,
+    installments,
+    interestRate,
+    iof,
+    financedAmount,
+    installmentAmount,
+    totalAmount,
+    totalCost: totalAmount.minus(balance),
+    monthlyCet: toPercentage(monthlyCet),
+    annualCet: toPercentage(Math.pow(1 + monthlyCet, 12) - 1),
+  };
+}
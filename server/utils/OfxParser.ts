@@ -0,0 +1,143 @@
+import { ValidationError } from '../middleware/ErrorHandlingMiddleware';
+
+/**
+ * A single STMTTRN entry from an OFX statement
+ */
+export interface OfxTransaction {
+  fitId: string;
+  trnType: string;
+  /** Posting date as YYYY-MM-DD */
+  date: string;
+  /** Signed decimal string: negative for debits, positive for credits */
+  amount: string;
+  name: string;
+  memo: string;
+  checkNumber?: string;
+}
+
+export interface OfxStatement {
+  /** 'bank' for STMTRS (checking/savings), 'creditcard' for CCSTMTRS */
+  kind: 'bank' | 'creditcard';
+  version: 1 | 2;
+  currency?: string;
+  bankId?: string;
+  accountId?: string;
+  startDate?: string;
+  endDate?: string;
+  transactions: OfxTransaction[];
+}
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&nbsp;': ' '
+};
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&(amp|lt|gt|quot|apos|nbsp);/g, entity => ENTITIES[entity])
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+}
+
+/**
+ * Read the text of a leaf element. Works for both SGML (`<TAG>value`) and XML (`<TAG>value</TAG>`).
+ */
+function readLeaf(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  if (!match) return undefined;
+  const value = decodeEntities(match[1]).trim();
+  return value === '' ? undefined : value;
+}
+
+function readAggregates(content: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  const blocks: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+}
+
+/**
+ * OFX dates look like 20240115, 20240115120000 or 20240115120000.000[-3:BRT]
+ */
+function parseOfxDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!match) return undefined;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+/**
+ * Normalize amounts like "-1234.56", "1234,56" or "+10" (some Brazilian banks use a decimal comma)
+ */
+function parseOfxAmount(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  let normalized = value.replace(/\s/g, '');
+  if (normalized.includes(',') && !normalized.includes('.')) {
+    normalized = normalized.replace(',', '.');
+  } else {
+    normalized = normalized.replace(/,/g, '');
+  }
+  return /^[+-]?(\d+\.?\d*|\.\d+)$/.test(normalized) ? normalized.replace(/^\+/, '') : undefined;
+}
+
+/**
+ * Parse an OFX 1.x (SGML) or 2.x (XML) bank or credit card statement
+ */
+export function parseOfx(content: string): OfxStatement {
+  const ofxStart = content.search(/<OFX>/i);
+  if (ofxStart === -1) {
+    throw new ValidationError('Arquivo OFX inválido', ['Elemento <OFX> não encontrado']);
+  }
+
+  const header = content.slice(0, ofxStart);
+  const body = content.slice(ofxStart);
+  const version = /<\?OFX\b|<\?xml\b/i.test(header) ? 2 : 1;
+  const kind = /<CCSTMTRS>/i.test(body) ? 'creditcard' : 'bank';
+
+  const accountBlock = readAggregates(body, kind === 'creditcard' ? 'CCACCTFROM' : 'BANKACCTFROM')[0] || '';
+  const transactionList = readAggregates(body, 'BANKTRANLIST')[0] || body;
+
+  const errors: string[] = [];
+  const transactions: OfxTransaction[] = [];
+
+  readAggregates(transactionList, 'STMTTRN').forEach((block, index) => {
+    const date = parseOfxDate(readLeaf(block, 'DTPOSTED'));
+    const amount = parseOfxAmount(readLeaf(block, 'TRNAMT'));
+
+    if (!date || !amount) {
+      errors.push(`Lançamento ${index + 1}: data ou valor inválido`);
+      return;
+    }
+
+    transactions.push({
+      fitId: readLeaf(block, 'FITID') || '',
+      trnType: (readLeaf(block, 'TRNTYPE') || 'OTHER').toUpperCase(),
+      date,
+      amount,
+      name: readLeaf(block, 'NAME') || '',
+      memo: readLeaf(block, 'MEMO') || '',
+      checkNumber: readLeaf(block, 'CHECKNUM')
+    });
+  });
+
+  if (transactions.length === 0 && errors.length > 0) {
+    throw new ValidationError('Nenhum lançamento válido no arquivo OFX', errors);
+  }
+
+  return {
+    kind,
+    version,
+    currency: readLeaf(body, 'CURDEF'),
+    bankId: readLeaf(accountBlock, 'BANKID'),
+    accountId: readLeaf(accountBlock, 'ACCTID'),
+    startDate: parseOfxDate(readLeaf(transactionList, 'DTSTART')),
+    endDate: parseOfxDate(readLeaf(transactionList, 'DTEND')),
+    transactions
+  };
+}
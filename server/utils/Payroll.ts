@@ -0,0 +1,292 @@
+import { Money } from '@shared/money';
+
+/**
+ * Monthly payroll of a CLT salary: INSS and IRRF withheld with the progressive tables in force on
+ * the pay date, the VT discount (up to 6% of the gross salary) and the other payroll deductions
+ * Rates are percentages. INSS is charged bracket by bracket up to the ceiling; IRRF uses the larger of
+ * the legal deductions (INSS + dependents) and the simplified discount, and from 2026 on the
+ * Lei 15.270/2025 reduction zeroes the tax up to R$ 5.000,00 and phases out until R$ 7.350,00
+ * VT and VR are paid in cash with the salary and are not taxed
+ * The 13º salário and vacation pay are taxed on their own, apart from the month's paycheck; the employer's FGTS
+ * deposit (8%) is reported with each payment but is not part of what the employee receives
+ */
+
+interface InssTable {
+  effectiveFrom: string;
+  brackets: Array<{ upTo: string; rate: number }>;
+}
+
+interface IrrfTable {
+  effectiveFrom: string;
+  brackets: Array<{ upTo: string | null; rate: number; deduction: string }>;
+  dependentDeduction: string;
+  simplifiedDiscount: string;
+  reduction?: {
+    fullUpTo: string;
+    fullAmount: string;
+    phaseOutUpTo: string;
+    phaseOutBase: string;
+    phaseOutRate: number;
+  };
+}
+
+// Portaria Interministerial MPS/MF nº 6/2025 e reajuste de 2026
+const INSS_TABLES: InssTable[] = [
+  {
+    effectiveFrom: '2025-01-01',
+    brackets: [
+      { upTo: '1518.00', rate: 7.5 },
+      { upTo: '2793.88', rate: 9 },
+      { upTo: '4190.83', rate: 12 },
+      { upTo: '8157.41', rate: 14 },
+    ],
+  },
+  {
+    effectiveFrom: '2026-01-01',
+    brackets: [
+      { upTo: '1621.00', rate: 7.5 },
+      { upTo: '2902.84', rate: 9 },
+      { upTo: '4354.27', rate: 12 },
+      { upTo: '8475.55', rate: 14 },
+    ],
+  },
+];
+
+// Lei 15.191/2025 (tabela a partir de maio de 2025) e Lei 15.270/2025 (redução a partir de 2026)
+const IRRF_BRACKETS: IrrfTable['brackets'] = [
+  { upTo: '2428.80', rate: 0, deduction: '0' },
+  { upTo: '2826.65', rate: 7.5, deduction: '182.16' },
+  { upTo: '3751.05', rate: 15, deduction: '394.16' },
+  { upTo: '4664.68', rate: 22.5, deduction: '675.49' },
+  { upTo: null, rate: 27.5, deduction: '908.73' },
+];
+
+const IRRF_TABLES: IrrfTable[] = [
+  {
+    effectiveFrom: '2025-05-01',
+    brackets: IRRF_BRACKETS,
+    dependentDeduction: '189.59',
+    simplifiedDiscount: '607.20',
+  },
+  {
+    effectiveFrom: '2026-01-01',
+    brackets: IRRF_BRACKETS,
+    dependentDeduction: '189.59',
+    simplifiedDiscount: '607.20',
+    reduction: {
+      fullUpTo: '5000.00',
+      fullAmount: '312.89',
+      phaseOutUpTo: '7350.00',
+      phaseOutBase: '978.62',
+      phaseOutRate: 0.133145,
+    },
+  },
+];
+
+/** VT discount: up to this percentage of the gross salary, never more than the VT itself */
+export const TRANSPORT_DISCOUNT_RATE = 6;
+
+/** FGTS deposited by the employer over the taxable earnings of each payment */
+export const FGTS_RATE = 8;
+
+/** Salary days of a commercial month: a day of salary or vacation is 1/30 of the monthly salary */
+export const DAYS_PER_MONTH = 30;
+
+export interface PayrollInput {
+  grossSalary: Money | string;
+  dependents: number;
+  deductions: Array<{ description: string; amount: Money | string }>;
+  dailyTransportAllowance: Money | string;
+  dailyMealAllowance: Money | string;
+}
+
+export interface PayrollEarning {
+  description: string;
+  amount: Money;
+  /** Not subject to INSS, IRRF nor FGTS (abono pecuniário and its 1/3) */
+  exempt?: boolean;
+}
+
+export interface Payroll {
+  payDate: string;
+  workingDays: number;
+  earnings: PayrollEarning[];
+  /** Taxable earnings */
+  gross: Money;
+  inss: Money;
+  irrf: Money;
+  transportAllowance: Money;
+  mealAllowance: Money;
+  transportDiscount: Money;
+  deductions: Array<{ description: string; amount: Money }>;
+  /** Deposited on the pay date: the earnings minus every discount, plus VT and VR */
+  net: Money;
+  /** Employer's FGTS deposit over this payment */
+  fgts: Money;
+}
+
+// Percentual sobre os centavos com o arredondamento feito uma vez só (0.075 em ponto flutuante fica abaixo de 7,5%)
+function percentOf(amount: Money, rate: number): Money {
+  return Money.fromCents(Math.round(amount.cents * rate / 100));
+}
+
+// Tabela vigente na data: a última com início até ela (datas anteriores usam a mais antiga)
+function tableOn<T extends { effectiveFrom: string }>(tables: T[], date: string): T {
+  return tables.filter(t => t.effectiveFrom <= date).pop() ?? tables[0];
+}
+
+/**
+ * INSS withheld from a gross salary: each bracket's rate applied to the slice of salary inside it
+ */
+export function inssContribution(gross: Money, date: string): Money {
+  let floor = Money.ZERO;
+  let contributionCents = 0;
+
+  // Soma as faixas sem arredondar e arredonda o total, como a tabela oficial (teto de 2025: 951,63)
+  for (const { upTo, rate } of tableOn(INSS_TABLES, date).brackets) {
+    if (gross.lessThanOrEqual(floor)) break;
+    const slice = Money.min(gross, Money.from(upTo)).minus(floor);
+    contributionCents += slice.cents * rate / 100;
+    floor = Money.from(upTo);
+  }
+  return Money.fromCents(Math.round(contributionCents));
+}
+
+/**
+ * IRRF withheld from a gross salary after the INSS contribution
+ */
+export function irrfWithholding(gross: Money, inss: Money, dependents: number, date: string): Money {
+  const table = tableOn(IRRF_TABLES, date);
+  const legalDeductions = inss.plus(Money.from(table.dependentDeduction).times(dependents));
+  const base = Money.max(Money.ZERO, gross.minus(Money.max(legalDeductions, Money.from(table.simplifiedDiscount))));
+
+  const bracket = table.brackets.find(b => b.upTo === null || base.lessThanOrEqual(b.upTo))!;
+  let tax = Money.max(Money.ZERO, percentOf(base, bracket.rate).minus(bracket.deduction));
+
+  if (table.reduction) {
+    const { fullUpTo, fullAmount, phaseOutUpTo, phaseOutBase, phaseOutRate } = table.reduction;
+    const reduction = gross.lessThanOrEqual(fullUpTo)
+      ? Money.from(fullAmount)
+      : gross.lessThanOrEqual(phaseOutUpTo)
+        ? Money.from(phaseOutBase).minus(gross.times(phaseOutRate))
+        : Money.ZERO;
+    tax = Money.max(Money.ZERO, tax.minus(reduction));
+  }
+  return tax;
+}
+
+// Dias de salário ou de férias: 1/30 do salário por dia
+function daysOf(salary: Money | string, days: number): Money {
+  return Money.fromCents(Math.round(Money.from(salary).cents * days / DAYS_PER_MONTH));
+}
+
+// Um terço com arredondamento único (Money.times(1 / 3) acumularia o erro da dízima)
+function thirdOf(amount: Money): Money {
+  return Money.fromCents(Math.round(amount.cents / 3));
+}
+
+// Pagamento sem VT e VR: INSS e IRRF sobre os proventos tributáveis, isentos somados ao líquido
+function taxedPayment(
+  earnings: PayrollEarning[],
+  dependents: number,
+  payDate: string,
+  deductions: Payroll['deductions'] = []
+): Payroll {
+  const gross = Money.sum(earnings.filter(e => !e.exempt).map(e => e.amount));
+  const exempt = Money.sum(earnings.filter(e => e.exempt).map(e => e.amount));
+  const inss = inssContribution(gross, payDate);
+  const irrf = irrfWithholding(gross, inss, dependents, payDate);
+  const net = gross.plus(exempt).minus(Money.sum([inss, irrf, ...deductions.map(d => d.amount)]));
+
+  return {
+    payDate, workingDays: 0, earnings, gross, inss, irrf,
+    transportAllowance: Money.ZERO, mealAllowance: Money.ZERO, transportDiscount: Money.ZERO,
+    deductions, net, fgts: percentOf(gross, FGTS_RATE),
+  };
+}
+
+/**
+ * Paycheck of a month with `workingDays` working days, paid on `payDate` (yyyy-MM-dd)
+ * `salaryDays` below 30 pays only those days of salary (the others were paid in advance with the vacation pay)
+ */
+export function calculatePayroll(input: PayrollInput, payDate: string, workingDays: number, salaryDays = DAYS_PER_MONTH): Payroll {
+  const gross = salaryDays >= DAYS_PER_MONTH ? Money.from(input.grossSalary) : daysOf(input.grossSalary, Math.max(0, salaryDays));
+  const earnings = [{ description: salaryDays >= DAYS_PER_MONTH ? 'Salário' : `Salário (${Math.max(0, salaryDays)} dias)`, amount: gross }];
+  const inss = inssContribution(gross, payDate);
+  const irrf = irrfWithholding(gross, inss, input.dependents, payDate);
+
+  const transportAllowance = Money.from(input.dailyTransportAllowance).times(workingDays);
+  const mealAllowance = Money.from(input.dailyMealAllowance).times(workingDays);
+  const transportDiscount = Money.min(transportAllowance, percentOf(gross, TRANSPORT_DISCOUNT_RATE));
+  const deductions = input.deductions.map(d => ({ description: d.description, amount: Money.from(d.amount) }));
+
+  const net = gross
+    .minus(Money.sum([inss, irrf, transportDiscount, ...deductions.map(d => d.amount)]))
+    .plus(transportAllowance)
+    .plus(mealAllowance);
+
+  return {
+    payDate, workingDays, earnings, gross, inss, irrf,
+    transportAllowance, mealAllowance, transportDiscount, deductions, net, fgts: percentOf(gross, FGTS_RATE),
+  };
+}
+
+/**
+ * 13º salário of `months` twelfths (avos) of the monthly salary, in its two installments: the first is half of it,
+ * paid without withholding; the second pays the rest, with INSS and IRRF charged on the whole 13º
+ * Without `withAdvance` nothing was paid in advance and the second installment is the whole 13º
+ */
+export function calculateThirteenth(
+  input: PayrollInput,
+  months: number,
+  firstPayDate: string,
+  secondPayDate: string,
+  withAdvance = true
+): [Payroll, Payroll] {
+  const total = Money.fromCents(Math.round(Money.from(input.grossSalary).cents * months / 12));
+  const advance = withAdvance ? Money.fromCents(Math.round(total.cents / 2)) : Money.ZERO;
+  const description = `13º salário (${months}/12)`;
+
+  const first: Payroll = {
+    ...taxedPayment([{ description: `${description} - 1ª parcela`, amount: advance }], input.dependents, firstPayDate),
+    inss: Money.ZERO,
+    irrf: Money.ZERO,
+    net: advance,
+  };
+  const second = taxedPayment(
+    [{ description, amount: total }],
+    input.dependents,
+    secondPayDate,
+    withAdvance ? [{ description: 'Adiantamento (1ª parcela)', amount: advance }] : []
+  );
+  // O FGTS da 1ª parcela já foi depositado em novembro
+  return [first, { ...second, fgts: percentOf(total.minus(advance), FGTS_RATE) }];
+}
+
+/**
+ * Vacation pay for `days` days of rest plus the constitutional 1/3, and the abono pecuniário for the
+ * `soldDays` days sold (with its own 1/3), which is exempt. It is paid in advance, up to 2 days before the vacation
+ */
+export function calculateVacationPay(input: PayrollInput, days: number, soldDays: number, payDate: string): Payroll {
+  const vacation = daysOf(input.grossSalary, days);
+  const earnings: PayrollEarning[] = [
+    { description: `Férias (${days} dias)`, amount: vacation },
+    { description: '1/3 de férias', amount: thirdOf(vacation) },
+  ];
+  if (soldDays > 0) {
+    const abono = daysOf(input.grossSalary, soldDays);
+    earnings.push(
+      { description: `Abono pecuniário (${soldDays} dias)`, amount: abono, exempt: true },
+      { description: '1/3 do abono', amount: thirdOf(abono), exempt: true },
+    );
+  }
+  return taxedPayment(earnings, input.dependents, payDate);
+}
+
+/**
+ * Yield of a month over an FGTS balance, at the monthly rate equivalent to `annualRate` % a year
+ */
+export function fgtsYield(balance: Money, annualRate: number): Money {
+  const monthlyFactor = Math.pow(1 + annualRate / 100, 1 / 12) - 1;
+  return Money.fromCents(Math.round(balance.cents * monthlyFactor));
+}
@@ -0,0 +1,72 @@
+import { addWeeks, addYears, parseISO } from 'date-fns';
+import type { RecurrenceFrequency, Transaction } from '@shared/schema';
+import { closingDateIn, toDateKey } from './BillingCycle';
+import { nthWorkingDay } from './BusinessCalendar';
+
+/**
+ * Recurring transaction schedules
+ * The root transaction is occurrence 0 and holds the rule; occurrence i falls i * interval periods after it,
+ * always counted from the root so a day 31 that became the 30th in a short month goes back to the 31st.
+ * The series ends at its end date or after `count` occurrences (the root included), whichever comes first
+ */
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  day: number | null;
+  endDate: string | null;
+  count: number | null;
+}
+
+type RecurrenceSettings = Pick<Transaction,
+  'recurrenceFrequency' | 'recurrenceInterval' | 'recurrenceDay' | 'recurrenceEndDate' | 'recurrenceCount'>;
+
+// Séries criadas antes das regras não têm frequência: seguem mensais no dia da raiz
+export function recurrenceRuleOf(root: RecurrenceSettings): RecurrenceRule {
+  return {
+    frequency: (root.recurrenceFrequency as RecurrenceFrequency | null) ?? 'monthly',
+    interval: Math.max(1, root.recurrenceInterval ?? 1),
+    day: root.recurrenceDay ?? null,
+    endDate: root.recurrenceEndDate ?? null,
+    count: root.recurrenceCount ?? null,
+  };
+}
+
+/**
+ * Date (yyyy-MM-dd) of occurrence `index` of a series whose root falls on `startDate`
+ */
+export function occurrenceDateOf(rule: RecurrenceRule, startDate: string, index: number): string {
+  if (index === 0) return startDate;
+
+  const start = parseISO(startDate);
+  const periods = index * rule.interval;
+  switch (rule.frequency) {
+    case 'weekly':
+      return toDateKey(addWeeks(start, periods));
+    case 'yearly':
+      return toDateKey(addYears(start, periods));
+    case 'business_day': {
+      const month = new Date(start.getFullYear(), start.getMonth() + periods, 1);
+      return toDateKey(nthWorkingDay(month.getFullYear(), month.getMonth() + 1, rule.day ?? 1));
+    }
+    case 'monthly': {
+      const month = new Date(start.getFullYear(), start.getMonth() + periods, 1);
+      return toDateKey(closingDateIn(month.getFullYear(), month.getMonth(), rule.day ?? start.getDate()));
+    }
+  }
+}
+
+/**
+ * Every date the rule schedules from the root up to `untilDate` (inclusive), in order
+ */
+export function recurrenceSchedule(rule: RecurrenceRule, startDate: string, untilDate: string): string[] {
+  const lastDate = rule.endDate && rule.endDate < untilDate ? rule.endDate : untilDate;
+  const dates: string[] = [];
+
+  for (let index = 0; rule.count === null || index < rule.count; index++) {
+    const date = occurrenceDateOf(rule, startDate, index);
+    if (date > lastDate) break;
+    dates.push(date);
+  }
+  return dates;
+}
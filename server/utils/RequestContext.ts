@@ -0,0 +1,27 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { UnauthorizedError } from '../middleware/ErrorHandlingMiddleware';
+
+interface RequestContext {
+  userId: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with the given user as the owner of every storage query made inside it
+ */
+export function runWithUser<T>(userId: string, fn: () => T): T {
+  return requestContext.run({ userId }, fn);
+}
+
+/**
+ * Get the authenticated user for the current request
+ * Throws when called outside of an authenticated request (or runWithUser)
+ */
+export function getCurrentUserId(): string {
+  const context = requestContext.getStore();
+  if (!context) {
+    throw new UnauthorizedError('No authenticated user in the current context');
+  }
+  return context.userId;
+}
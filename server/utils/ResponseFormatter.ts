@@ -51,7 +51,7 @@ export class ResponseFormatter {
   /**
    * Format validation error response
    */
-  static validationError(errors: string[]) {
+  static validationError(errors: any[]) {
     return this.error('Dados inválidos', errors, 'VALIDATION_ERROR');
   }
 
@@ -0,0 +1,71 @@
+import { Money } from '@shared/money';
+import type { CreditCard } from '@shared/schema';
+
+/**
+ * Revolving credit (rotativo) charges on the unpaid balance of a credit card invoice
+ * Rates are percentages as configured on the card: interest and mora per month (30 days, interest
+ * compounded daily), IOF per day (capped at 365 days) plus a fixed IOF, and a one-off late fee
+ */
+
+const DAYS_PER_MONTH = 30;
+const IOF_MAX_DAYS = 365;
+
+export interface RevolvingRates {
+  interestRate: number;
+  minimumPaymentRate: number;
+  iofDailyRate: number;
+  iofFixedRate: number;
+  lateFeeRate: number;
+  lateInterestRate: number;
+}
+
+export interface RevolvingCharges {
+  balance: Money;
+  interest: Money;
+  iof: Money;
+  lateFee: Money;
+  lateInterest: Money;
+  /** Balance plus every charge: what lands on the next invoice */
+  total: Money;
+}
+
+// Cartões gravados antes dos encargos existirem não têm as colunas: valem os padrões do schema
+export function revolvingRatesOf(card: CreditCard): RevolvingRates {
+  return {
+    interestRate: Number(card.revolvingInterestRate ?? 0),
+    minimumPaymentRate: Number(card.minimumPaymentRate ?? 15),
+    iofDailyRate: Number(card.iofDailyRate ?? 0.0082),
+    iofFixedRate: Number(card.iofFixedRate ?? 0.38),
+    lateFeeRate: Number(card.lateFeeRate ?? 2),
+    lateInterestRate: Number(card.lateInterestRate ?? 1),
+  };
+}
+
+/**
+ * Minimum payment of an invoice total (nothing to pay when the total is zero or a credit)
+ */
+export function minimumPaymentOf(total: Money, rates: RevolvingRates): Money {
+  return total.isPositive() ? total.times(rates.minimumPaymentRate / 100) : Money.ZERO;
+}
+
+/**
+ * Charges on `balance` financed for `days`; `late` adds the fee and mora due when not even the
+ * minimum was paid
+ */
+export function calculateRevolvingCharges(balance: Money, days: number, rates: RevolvingRates, late: boolean): RevolvingCharges {
+  const financedDays = Math.max(0, days);
+  const interest = balance.times(Math.pow(1 + rates.interestRate / 100, financedDays / DAYS_PER_MONTH) - 1);
+  const iof = balance.times(rates.iofFixedRate / 100)
+    .plus(balance.times((rates.iofDailyRate / 100) * Math.min(financedDays, IOF_MAX_DAYS)));
+  const lateFee = late ? balance.times(rates.lateFeeRate / 100) : Money.ZERO;
+  const lateInterest = late ? balance.times((rates.lateInterestRate / 100) * financedDays / DAYS_PER_MONTH) : Money.ZERO;
+
+  return {
+    balance,
+    interest,
+    iof,
+    lateFee,
+    lateInterest,
+    total: Money.sum([balance, interest, iof, lateFee, lateInterest]),
+  };
+}
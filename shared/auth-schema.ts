@@ -6,15 +6,11 @@ import {
   timestamp,
   varchar,
   text,
-  decimal,
-  boolean,
-  integer,
-  uuid,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-// Session storage table for Replit Auth
+// Session storage table (express-session via connect-pg-simple)
 export const sessions = pgTable(
   "sessions",
   {
@@ -26,9 +22,11 @@ export const sessions = pgTable(
 );
 
 // User table for multi-user support
+// Every financial table in ./schema.ts references users.id through its user_id column
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: varchar("email").unique().notNull(),
+  passwordHash: text("password_hash").notNull(),
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
@@ -36,125 +34,34 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export type UpsertUser = typeof users.$inferInsert;
-export type User = typeof users.$inferSelect;
-
-// Categories with user association
-export const categories = pgTable("categories", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  userId: varchar("user_id").references(() => users.id).notNull(),
-  name: varchar("name", { length: 255 }).notNull(),
-  icon: varchar("icon", { length: 10 }).notNull(),
-  color: varchar("color", { length: 7 }).notNull(),
-  type: varchar("type", { length: 10 }).notNull(), // income or expense
-  createdAt: timestamp("created_at").defaultNow(),
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
-export type Category = typeof categories.$inferSelect;
-export type InsertCategory = typeof categories.$inferInsert;
-export const insertCategorySchema = createInsertSchema(categories).omit({ id: true, createdAt: true });
-
-// Transactions with user association
-export const transactions = pgTable("transactions", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  userId: varchar("user_id").references(() => users.id).notNull(),
-  description: varchar("description", { length: 255 }).notNull(),
-  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  date: timestamp("date").notNull(),
-  type: varchar("type", { length: 10 }).notNull(), // income or expense
-  categoryId: uuid("category_id").references(() => categories.id),
-  paymentMethod: varchar("payment_method", { length: 20 }),
-  creditCardId: uuid("credit_card_id"),
-  installments: integer("installments"),
-  installmentNumber: integer("installment_number"),
-  parentTransactionId: uuid("parent_transaction_id"),
-  isRecurring: boolean("is_recurring").default(false),
-  createdAt: timestamp("created_at").defaultNow(),
+export const registerUserSchema = z.object({
+  name: z.string().min(2, "Nome deve ter pelo menos 2 caracteres"),
+  email: z.string().email("Email inválido"),
+  password: z.string().min(6, "Senha deve ter pelo menos 6 caracteres"),
 });
 
-export type Transaction = typeof transactions.$inferSelect;
-export type InsertTransaction = typeof transactions.$inferInsert;
-export const insertTransactionSchema = createInsertSchema(transactions).omit({ id: true, createdAt: true });
+export const loginUserSchema = registerUserSchema.pick({ email: true, password: true });
 
-// Credit Cards with user association
-export const creditCards = pgTable("credit_cards", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  userId: varchar("user_id").references(() => users.id).notNull(),
-  name: varchar("name", { length: 255 }).notNull(),
-  brand: varchar("brand", { length: 50 }).notNull(),
-  bank: varchar("bank", { length: 50 }).notNull(),
-  limit: decimal("limit", { precision: 10, scale: 2 }).notNull(),
-  currentUsed: decimal("current_used", { precision: 10, scale: 2 }).default("0"),
-  color: varchar("color", { length: 7 }).notNull(),
-  closingDay: integer("closing_day").notNull(),
-  dueDay: integer("due_day").notNull(),
-  isBlocked: boolean("is_blocked").default(false),
-  createdAt: timestamp("created_at").defaultNow(),
+export const updateProfileSchema = z.object({
+  name: z.string().min(2, "Nome deve ter pelo menos 2 caracteres"),
+  email: z.string().email("Email inválido"),
+  profileImage: z.string().optional(),
 });
 
-export type CreditCard = typeof creditCards.$inferSelect;
-export type InsertCreditCard = typeof creditCards.$inferInsert;
-export const insertCreditCardSchema = createInsertSchema(creditCards).omit({ id: true, createdAt: true });
-
-// Subscriptions with user association
-export const subscriptions = pgTable("subscriptions", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  userId: varchar("user_id").references(() => users.id).notNull(),
-  name: varchar("name", { length: 255 }).notNull(),
-  service: varchar("service", { length: 100 }),
-  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  billingDate: integer("billing_date").notNull(),
-  paymentMethod: varchar("payment_method", { length: 20 }).notNull(),
-  creditCardId: uuid("credit_card_id"),
-  categoryId: uuid("category_id").references(() => categories.id),
-  isActive: boolean("is_active").default(true),
-  createdAt: timestamp("created_at").defaultNow(),
-});
-
-export type Subscription = typeof subscriptions.$inferSelect;
-export type InsertSubscription = typeof subscriptions.$inferInsert;
-export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({ id: true, createdAt: true });
-
-// Budgets with user association
-export const budgets = pgTable("budgets", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  userId: varchar("user_id").references(() => users.id).notNull(),
-  categoryId: uuid("category_id").references(() => categories.id).notNull(),
-  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  month: integer("month").notNull(),
-  year: integer("year").notNull(),
-  createdAt: timestamp("created_at").defaultNow(),
-});
-
-export type Budget = typeof budgets.$inferSelect;
-export type InsertBudget = typeof budgets.$inferInsert;
-export const insertBudgetSchema = createInsertSchema(budgets).omit({ id: true, createdAt: true });
-
-// Settings with user association
-export const settings = pgTable("settings", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  userId: varchar("user_id").references(() => users.id).notNull(),
-  key: varchar("key", { length: 255 }).notNull(),
-  value: text("value").notNull(),
-  createdAt: timestamp("created_at").defaultNow(),
-});
-
-export type Setting = typeof settings.$inferSelect;
-export type InsertSetting = typeof settings.$inferInsert;
-export const insertSettingSchema = createInsertSchema(settings).omit({ id: true, createdAt: true });
-
-// Credit Card Invoices with user association
-export const creditCardInvoices = pgTable("credit_card_invoices", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  userId: varchar("user_id").references(() => users.id).notNull(),
-  creditCardId: uuid("credit_card_id").references(() => creditCards.id).notNull(),
-  dueDate: timestamp("due_date").notNull(),
-  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
-  paidAmount: decimal("paid_amount", { precision: 10, scale: 2 }).default("0"),
-  status: varchar("status", { length: 20 }).default("pending"),
-  createdAt: timestamp("created_at").defaultNow(),
-});
-
-export type CreditCardInvoice = typeof creditCardInvoices.$inferSelect;
-export type InsertCreditCardInvoice = typeof creditCardInvoices.$inferInsert;
-export const insertCreditCardInvoiceSchema = createInsertSchema(creditCardInvoices).omit({ id: true, createdAt: true });
\ No newline at end of file
+export type UpsertUser = typeof users.$inferInsert;
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+
+// Shape returned to the client (never includes the password hash)
+export type PublicUser = {
+  id: string;
+  name: string;
+  email: string;
+  profileImage?: string;
+};
@@ -0,0 +1,186 @@
+// Monetary values stored as integer centavos so that sums, splits and limits always reconcile
+
+export type MoneyInput = Money | string | number | null | undefined;
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Convert a decimal string ("166.67", "-0.5", "1234") to integer cents.
+ * Digits beyond the second decimal place are rounded half away from zero.
+ */
+function parseCents(value: string): number {
+  const match = DECIMAL_PATTERN.exec(value.trim());
+  if (!match || (match[2] === "" && (match[3] ?? "") === "")) {
+    throw new Error(`Invalid monetary value: "${value}"`);
+  }
+
+  const [, sign, integerPart, fractionPart = ""] = match;
+  const fraction = fractionPart.padEnd(3, "0");
+  let cents = Number(integerPart || "0") * 100 + Number(fraction.slice(0, 2));
+  if (Number(fraction[2]) >= 5) {
+    cents += 1;
+  }
+
+  return sign === "-" ? -cents : cents;
+}
+
+/**
+ * Money
+ * Immutable amount in Brazilian Real backed by an integer number of centavos.
+ * Use it for every sum, split or comparison instead of parseFloat on decimal strings.
+ */
+export class Money {
+  private constructor(readonly cents: number) {}
+
+  static readonly ZERO = new Money(0);
+
+  static fromCents(cents: number): Money {
+    if (!Number.isSafeInteger(cents)) {
+      throw new Error(`Cents must be a safe integer, got ${cents}`);
+    }
+    return new Money(cents === 0 ? 0 : cents);
+  }
+
+  /**
+   * Build from a decimal column value, a JS number in reais, or another Money.
+   * null/undefined/empty string are treated as zero, matching the `|| "0"` fallbacks of the database columns.
+   */
+  static from(value: MoneyInput): Money {
+    if (value instanceof Money) return value;
+    if (value === null || value === undefined || value === "") return Money.ZERO;
+    if (typeof value === "number") {
+      if (!Number.isFinite(value)) {
+        throw new Error(`Invalid monetary value: ${value}`);
+      }
+      // toFixed evita erros de ponto flutuante como 1.005 * 100 = 100.49999
+      return Money.fromCents(parseCents(value.toFixed(8)));
+    }
+    return Money.fromCents(parseCents(value));
+  }
+
+  static sum(values: readonly MoneyInput[]): Money {
+    return Money.fromCents(values.reduce<number>((cents, value) => cents + Money.from(value).cents, 0));
+  }
+
+  static max(a: MoneyInput, b: MoneyInput): Money {
+    const left = Money.from(a);
+    const right = Money.from(b);
+    return left.cents >= right.cents ? left : right;
+  }
+
+  static min(a: MoneyInput, b: MoneyInput): Money {
+    const left = Money.from(a);
+    const right = Money.from(b);
+    return left.cents <= right.cents ? left : right;
+  }
+
+  plus(other: MoneyInput): Money {
+    return Money.fromCents(this.cents + Money.from(other).cents);
+  }
+
+  minus(other: MoneyInput): Money {
+    return Money.fromCents(this.cents - Money.from(other).cents);
+  }
+
+  /**
+   * Multiply by a factor (rates, percentages, quantities), rounding half away from zero
+   */
+  times(factor: number): Money {
+    const raw = this.cents * factor;
+    return Money.fromCents(Math.sign(raw) * Math.round(Math.abs(raw)));
+  }
+
+  negate(): Money {
+    return Money.fromCents(-this.cents);
+  }
+
+  abs(): Money {
+    return Money.fromCents(Math.abs(this.cents));
+  }
+
+  /**
+   * Split into `parts` amounts that add up exactly to this value.
+   * Leftover centavos go to the first parts: R$ 500,00 / 3 = [166,67, 166,67, 166,66].
+   */
+  allocate(parts: number): Money[] {
+    if (!Number.isInteger(parts) || parts < 1) {
+      throw new Error(`Cannot allocate into ${parts} parts`);
+    }
+
+    const base = Math.trunc(this.cents / parts);
+    const remainder = this.cents - base * parts;
+    const step = Math.sign(remainder);
+
+    return Array.from({ length: parts }, (_, index) =>
+      Money.fromCents(base + (index < Math.abs(remainder) ? step : 0))
+    );
+  }
+
+  isZero(): boolean {
+    return this.cents === 0;
+  }
+
+  isPositive(): boolean {
+    return this.cents > 0;
+  }
+
+  isNegative(): boolean {
+    return this.cents < 0;
+  }
+
+  equals(other: MoneyInput): boolean {
+    return this.cents === Money.from(other).cents;
+  }
+
+  greaterThan(other: MoneyInput): boolean {
+    return this.cents > Money.from(other).cents;
+  }
+
+  greaterThanOrEqual(other: MoneyInput): boolean {
+    return this.cents >= Money.from(other).cents;
+  }
+
+  lessThan(other: MoneyInput): boolean {
+    return this.cents < Money.from(other).cents;
+  }
+
+  lessThanOrEqual(other: MoneyInput): boolean {
+    return this.cents <= Money.from(other).cents;
+  }
+
+  /**
+   * Value in reais as a JS number, for JSON responses and charts only (never for further arithmetic)
+   */
+  toNumber(): number {
+    return this.cents / 100;
+  }
+
+  /**
+   * Decimal string with two places, the format of the `decimal(…, 2)` columns
+   */
+  toString(): string {
+    const sign = this.cents < 0 ? "-" : "";
+    const abs = Math.abs(this.cents);
+    return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, "0")}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  format(): string {
+    return formatCurrency(this);
+  }
+}
+
+/**
+ * Format currency value for display in Brazilian Real
+ * @param amount - Money, decimal string or number in reais
+ * @returns Formatted currency string
+ */
+export function formatCurrency(amount: MoneyInput): string {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL'
+  }).format(Money.from(amount).toNumber());
+}
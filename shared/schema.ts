@@ -1,35 +1,72 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, date, boolean, integer, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, date, boolean, integer, timestamp, unique, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { users } from "./auth-schema";
 
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   icon: text("icon").notNull(),
   color: text("color").notNull(),
   type: text("type").notNull(), // 'income' | 'expense' | 'subscription'
 });
 
+// Conciliação com o extrato: "cleared" foi conferido, "reconciled" entrou numa conciliação concluída (período travado)
+export const clearedStatuses = ["uncleared", "cleared", "reconciled"] as const;
+export type ClearedStatus = typeof clearedStatuses[number];
+
+// Regras de recorrência: todo mês no dia N, no N-ésimo dia útil, toda semana ou todo ano, a cada `interval` períodos
+export const recurrenceFrequencies = ["monthly", "business_day", "weekly", "yearly"] as const;
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+// Ajuste de uma única ocorrência da série, guardado pela data prevista na regra (AAAA-MM-DD)
+export interface RecurrenceOverride {
+  skip?: boolean;
+  amount?: string;
+}
+
 export const transactions = pgTable("transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   description: text("description").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   date: date("date").notNull(),
-  type: text("type").notNull(), // 'income' or 'expense'
+  type: text("type").notNull(), // 'income', 'expense' or 'refund' (estorno of a card purchase)
   categoryId: varchar("category_id").references(() => categories.id),
   paymentMethod: text("payment_method"), // 'dinheiro', 'debito', 'credito', 'pix', 'transferencia'
   creditCardId: varchar("credit_card_id").references(() => creditCards.id), // for credit card expenses
+  accountId: varchar("account_id").references(() => accounts.id), // bank account or wallet the money came from / went to
   isRecurring: boolean("is_recurring").default(false),
   isInstallment: boolean("is_installment").default(false), // ⚡️ NEW: Flag para identificar parcelas de cartão
   installments: integer("installments").default(1),
   installmentNumber: integer("installment_number").default(1),
-  parentTransactionId: varchar("parent_transaction_id"), // for installments
+  parentTransactionId: varchar("parent_transaction_id"), // first installment, or the root of a recurring series
+  // Regra da série, guardada na transação raiz (a primeira ocorrência); sem frequência, é mensal no dia da raiz
+  recurrenceFrequency: text("recurrence_frequency"), // one of recurrenceFrequencies
+  recurrenceInterval: integer("recurrence_interval").default(1), // every N weeks / months / years
+  recurrenceDay: integer("recurrence_day"), // day of month (monthly) or Nth business day (business_day)
+  recurrenceEndDate: date("recurrence_end_date"), // last day an occurrence may fall on
+  recurrenceCount: integer("recurrence_count"), // total occurrences, the root included
+  recurrenceOverrides: jsonb("recurrence_overrides").$type<Record<string, RecurrenceOverride>>(), // scheduled date → override
+  occurrenceDate: date("occurrence_date"), // date the rule scheduled this occurrence for (its date may have been moved)
+  incomeSourceId: varchar("income_source_id").references(() => incomeSources.id, { onDelete: "set null" }), // paychecks of an income source
+  payrollKind: text("payroll_kind"), // one of payrollKinds, for the payments of an income source
+  fitId: varchar("fit_id"), // OFX FITID of imported statement entries, used to skip re-imports
+  refundOfTransactionId: varchar("refund_of_transaction_id"), // purchase (or installment) a refund credits back
+  // Compras internacionais: valor na moeda original e cotação usada para chegar ao valor em reais
+  originalCurrency: varchar("original_currency", { length: 3 }), // ISO 4217 (USD, EUR...), null for purchases in BRL
+  originalAmount: decimal("original_amount", { precision: 12, scale: 2 }),
+  exchangeRate: decimal("exchange_rate", { precision: 12, scale: 6 }),
+  clearedStatus: varchar("cleared_status").notNull().default("uncleared"), // one of clearedStatuses
+  reconciliationId: varchar("reconciliation_id"), // completed reconciliation that locked it
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const budgets = pgTable("budgets", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   categoryId: varchar("category_id").references(() => categories.id),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   month: integer("month").notNull(),
@@ -38,12 +75,23 @@ export const budgets = pgTable("budgets", {
 
 export const settings = pgTable("settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  key: text("key").notNull().unique(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  key: text("key").notNull(),
   value: text("value").notNull(),
-});
+}, (table) => [unique("settings_user_key_unique").on(table.userId, table.key)]);
+
+// Main cards own the limit and the invoice; virtual and additional cards are children of a main card
+// that record their own purchases but share its limit, billing cycle and invoice
+export const creditCardTypes = ["main", "virtual", "additional"] as const;
+export type CreditCardType = typeof creditCardTypes[number];
+
+// Which day's rate converts an international purchase on the invoice
+export const exchangeRateRules = ["purchase_date", "closing_date"] as const;
+export type ExchangeRateRule = typeof exchangeRateRules[number];
 
 export const creditCards = pgTable("credit_cards", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   brand: text("brand").notNull(), // 'mastercard', 'visa', 'elo', 'american-express'
   bank: text("bank").notNull(), // 'nubank', 'itau', 'bradesco', 'santander', etc.
@@ -54,11 +102,63 @@ export const creditCards = pgTable("credit_cards", {
   dueDay: integer("due_day").notNull(),
   isActive: boolean("is_active").default(true),
   isBlocked: boolean("is_blocked").default(false),
+  // Encargos do rotativo, em % (juros e mora ao mês, IOF diário e fixo sobre o saldo financiado)
+  revolvingInterestRate: decimal("revolving_interest_rate", { precision: 7, scale: 4 }).notNull().default("0"),
+  minimumPaymentRate: decimal("minimum_payment_rate", { precision: 7, scale: 4 }).notNull().default("15"),
+  iofDailyRate: decimal("iof_daily_rate", { precision: 7, scale: 4 }).notNull().default("0.0082"),
+  iofFixedRate: decimal("iof_fixed_rate", { precision: 7, scale: 4 }).notNull().default("0.38"),
+  lateFeeRate: decimal("late_fee_rate", { precision: 7, scale: 4 }).notNull().default("2"),
+  lateInterestRate: decimal("late_interest_rate", { precision: 7, scale: 4 }).notNull().default("1"),
+  // Compras internacionais: IOF em % e cotação que vale na fatura (data da compra ou do fechamento)
+  internationalIofRate: decimal("international_iof_rate", { precision: 7, scale: 4 }).notNull().default("4.38"),
+  exchangeRateRule: varchar("exchange_rate_rule").notNull().default("purchase_date"), // one of exchangeRateRules
+  cardType: varchar("card_type").notNull().default("main"), // one of creditCardTypes
+  parentCardId: varchar("parent_card_id"), // main card whose limit and invoice a virtual/additional card shares
+  holderName: text("holder_name"), // family member who carries an additional card
+  // Anuidade: valor anual em parcelas a partir da fatura de annualFeeStartDate; a parcela da fatura é isenta
+  // quando os gastos dela chegam a annualFeeWaiverThreshold
+  annualFeeAmount: decimal("annual_fee_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  annualFeeInstallments: integer("annual_fee_installments").notNull().default(12),
+  annualFeeWaiverThreshold: decimal("annual_fee_waiver_threshold", { precision: 10, scale: 2 }),
+  annualFeeStartDate: date("annual_fee_start_date"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const accountTypes = ["checking", "savings", "wallet", "digital"] as const;
+export type AccountType = typeof accountTypes[number];
+
+// Bank accounts and cash wallets. The balance starts at openingBalance on openingDate and follows the linked
+// income and expenses, the transfers between accounts and the card invoices paid from the account
+export const accounts = pgTable("accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  type: varchar("type").notNull().default("checking"), // one of accountTypes
+  bank: text("bank"), // same ids as the cards ('nubank', 'itau'...), null for wallets
+  color: text("color").notNull().default("#10B981"),
+  openingBalance: decimal("opening_balance", { precision: 12, scale: 2 }).notNull().default("0"),
+  openingDate: date("opening_date").notNull(), // movements dated before it are already in the opening balance
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Money moved between two accounts of the user: neither income nor expense
+export const accountTransfers = pgTable("account_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  fromAccountId: varchar("from_account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  toAccountId: varchar("to_account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  date: date("date").notNull(),
+  description: text("description").notNull().default("Transferência"),
+  clearedStatus: varchar("cleared_status").notNull().default("uncleared"),
+  reconciliationId: varchar("reconciliation_id"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const subscriptions = pgTable("subscriptions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   service: text("service").notNull(), // 'spotify', 'netflix', 'amazon-prime', etc.
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
@@ -70,20 +170,207 @@ export const subscriptions = pgTable("subscriptions", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Invoice lifecycle: open until the closing day, then closed with a frozen snapshot and settled by payments
+// (open → closed | partial | paid; closed → partial | paid | overdue; partial → paid | overdue; overdue → paid)
+export const invoiceStatuses = ["open", "closed", "paid", "partial", "overdue"] as const;
+export type InvoiceStatus = typeof invoiceStatuses[number];
+
 export const creditCardInvoices = pgTable("credit_card_invoices", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   creditCardId: varchar("credit_card_id").notNull().references(() => creditCards.id, { onDelete: "cascade" }),
-  dueDate: varchar("due_date").notNull(),
+  closingDate: varchar("closing_date").notNull(), // yyyy-MM-dd closing date that identifies the invoice; it is due on the card's dueDay after it
   totalAmount: varchar("total_amount").notNull().default("0"),
   paidAmount: varchar("paid_amount").notNull().default("0"),
-  status: varchar("status").notNull().default("pending"), // pending, paid, partial, overdue
-  isInstallment: boolean("is_installment").default(false),
+  status: varchar("status").notNull().default("open"), // one of invoiceStatuses
+  carriedAmount: varchar("carried_amount").notNull().default("0"), // unpaid balance moved to later invoices (rotativo or parcelamento)
+  carriedToInvoiceId: varchar("carried_to_invoice_id"),
+  isInstallment: boolean("is_installment").default(false), // balance split into installmentCount installments on the next invoices
   installmentCount: integer("installment_count"),
   installmentNumber: integer("installment_number"),
   parentInvoiceId: varchar("parent_invoice_id"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Line items of an invoice. Purchases are copied from the transactions when the invoice closes;
+// adjustments carry late changes to an already closed period into the next open invoice, and the
+// revolving lines (balance, interest, iof, late_fee, late_interest) bill what was left unpaid on the previous one;
+// installments bill a parceled invoice over the following ones; refunds are credits (negative amounts);
+// international purchases get an IOF line and, when the invoice's rate differs from the purchase's, an fx_adjustment;
+// annual_fee bills an installment of the card's anuidade and annual_fee_waiver credits it back when waived
+export const invoiceItemKinds = [
+  "purchase", "refund", "adjustment", "balance", "interest", "iof", "late_fee", "late_interest", "installment",
+  "international_iof", "fx_adjustment", "annual_fee", "annual_fee_waiver"
+] as const;
+export type InvoiceItemKind = typeof invoiceItemKinds[number];
+
+export const creditCardInvoiceItems = pgTable("credit_card_invoice_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  invoiceId: varchar("invoice_id").notNull().references(() => creditCardInvoices.id, { onDelete: "cascade" }),
+  transactionId: varchar("transaction_id"), // no FK: the snapshot outlives the transaction
+  creditCardId: varchar("credit_card_id"), // card (main or child) that made the charge, for the per-card breakdown
+  kind: varchar("kind").notNull().default("purchase"), // one of invoiceItemKinds
+  description: text("description").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  date: date("date").notNull(),
+  installmentNumber: integer("installment_number"),
+  installments: integer("installments"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Payments of an invoice; accountId is the account debited, null when paid from outside the tracked accounts
+export const creditCardInvoicePayments = pgTable("credit_card_invoice_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  invoiceId: varchar("invoice_id").notNull().references(() => creditCardInvoices.id, { onDelete: "cascade" }),
+  accountId: varchar("account_id").references(() => accounts.id),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  date: date("date").notNull(),
+  clearedStatus: varchar("cleared_status").notNull().default("uncleared"),
+  reconciliationId: varchar("reconciliation_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const reconciliationStatuses = ["open", "completed"] as const;
+export type ReconciliationStatus = typeof reconciliationStatuses[number];
+
+// Statement reconciliation of an account (up to statementDate) or of a closed card invoice; exactly one of
+// accountId/invoiceId is set. Completing it locks the period until it is explicitly unlocked (reopened)
+export const reconciliations = pgTable("reconciliations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  accountId: varchar("account_id").references(() => accounts.id, { onDelete: "cascade" }),
+  invoiceId: varchar("invoice_id").references(() => creditCardInvoices.id, { onDelete: "cascade" }),
+  statementDate: date("statement_date").notNull(),
+  statementBalance: decimal("statement_balance", { precision: 12, scale: 2 }).notNull(),
+  status: varchar("status").notNull().default("open"), // one of reconciliationStatuses
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Column references are header names, or 1-based positions when the file has no header row
+export interface CsvColumnMapping {
+  date: string;
+  description: string;
+  amount?: string;  // single signed column
+  debit?: string;   // split layout: money out
+  credit?: string;  // split layout: money in
+}
+
+// Saved layouts for bank CSV exports (delimiter, decimal separator, date format and columns)
+export const importProfiles = pgTable("import_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  delimiter: text("delimiter").notNull().default(";"),
+  decimalSeparator: text("decimal_separator").notNull().default(","), // ',' | '.'
+  dateFormat: text("date_format").notNull().default("DD/MM/YYYY"), // 'DD/MM/YYYY' | 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YY'
+  signConvention: text("sign_convention").notNull().default("negative_expense"), // 'negative_expense' | 'positive_expense' | 'split_columns'
+  hasHeader: boolean("has_header").notNull().default(true),
+  skipRows: integer("skip_rows").notNull().default(0),
+  columns: jsonb("columns").$type<CsvColumnMapping>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Exchange rates (BRL per unit of the currency) kept by the user, typed in or imported from the BCB PTAX CSV
+export const exchangeRates = pgTable("exchange_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  date: date("date").notNull(),
+  rate: decimal("rate", { precision: 12, scale: 6 }).notNull(),
+  source: varchar("source").notNull().default("manual"), // 'manual' | 'ptax'
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("exchange_rates_user_currency_date_unique").on(table.userId, table.currency, table.date)]);
+
+export const rewardTypes = ["points", "miles", "cashback"] as const;
+export type RewardType = typeof rewardTypes[number];
+
+// Reward program of a card: points or miles per real/dollar spent, or cashback (%), accrued when each invoice closes
+export const rewardPrograms = pgTable("reward_programs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  creditCardId: varchar("credit_card_id").notNull().references(() => creditCards.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  rewardType: varchar("reward_type").notNull().default("points"),
+  pointsPerUnit: decimal("points_per_unit", { precision: 8, scale: 4 }).notNull().default("1"), // points/miles per unit of spendCurrency
+  spendCurrency: varchar("spend_currency", { length: 3 }).notNull().default("BRL"), // 'BRL' | 'USD'
+  cashbackRate: decimal("cashback_rate", { precision: 7, scale: 4 }).notNull().default("0"), // % of the spending
+  categoryMultipliers: jsonb("category_multipliers").$type<Record<string, number>>().notNull().default({}), // categoryId → multiplier
+  expirationMonths: integer("expiration_months"), // months after accrual; null never expires
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("reward_programs_user_card_unique").on(table.userId, table.creditCardId)]);
+
+// Points/miles (or reais of cashback) taken out of a reward program
+export const rewardRedemptions = pgTable("reward_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  programId: varchar("program_id").notNull().references(() => rewardPrograms.id, { onDelete: "cascade" }),
+  date: date("date").notNull(),
+  amount: decimal("amount", { precision: 14, scale: 2 }).notNull(), // points/miles, or R$ for cashback
+  description: text("description").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Pagamentos de uma fonte de renda: o salário do mês, as duas parcelas do 13º e as férias
+export const payrollKinds = ["salary", "thirteenth_first", "thirteenth_second", "vacation"] as const;
+export type PayrollKind = typeof payrollKinds[number];
+
+// Desconto em folha além de INSS e IRRF (plano de saúde, pensão, consignado...)
+export interface PayrollDeduction {
+  description: string;
+  amount: string;
+}
+
+// Salary paid by an employer: each month's paycheck is an income transaction of a business_day series
+// (the payBusinessDay-th working day), deposited net of INSS, IRRF, the VT discount and the other deductions
+export const incomeSources = pgTable("income_sources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  grossSalary: decimal("gross_salary", { precision: 12, scale: 2 }).notNull(),
+  payBusinessDay: integer("pay_business_day").notNull().default(5), // Nth working day of the month
+  dependents: integer("dependents").notNull().default(0), // IRRF dependents
+  deductions: jsonb("deductions").$type<PayrollDeduction[]>().notNull().default([]),
+  dailyTransportAllowance: decimal("daily_transport_allowance", { precision: 10, scale: 2 }).notNull().default("0"), // VT per working day
+  dailyMealAllowance: decimal("daily_meal_allowance", { precision: 10, scale: 2 }).notNull().default("0"), // VR per working day
+  accountId: varchar("account_id").references(() => accounts.id), // account the paycheck is deposited into
+  categoryId: varchar("category_id").references(() => categories.id),
+  startDate: date("start_date").notNull(), // first paycheck is the first payday on or after it
+  // Saldo do FGTS informado pelo usuário, base da projeção (sem data, é o saldo na data de início)
+  fgtsBalance: decimal("fgts_balance", { precision: 12, scale: 2 }).notNull().default("0"),
+  fgtsBalanceDate: date("fgts_balance_date"),
+  fgtsAnnualYield: decimal("fgts_annual_yield", { precision: 7, scale: 4 }).notNull().default("3"), // % a.a. (3% + TR and profit distribution)
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Vacation of an income source: `days` days of rest plus `soldDays` sold as abono pecuniário,
+// paid in advance by the vacation pay transaction
+export const vacations = pgTable("vacations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  incomeSourceId: varchar("income_source_id").notNull().references(() => incomeSources.id, { onDelete: "cascade" }),
+  startDate: date("start_date").notNull(),
+  days: integer("days").notNull(),
+  soldDays: integer("sold_days").notNull().default(0),
+  transactionId: varchar("transaction_id"), // vacation pay
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// State of the background jobs (shared by every user, so there is no user_id)
+export const jobStates = pgTable("job_states", {
+  name: varchar("name").primaryKey(),
+  lastRunAt: timestamp("last_run_at"),
+  lastSuccessAt: timestamp("last_success_at"),
+  nextRunAt: timestamp("next_run_at"),
+  lastStatus: varchar("last_status"), // 'success' | 'failed'
+  lastError: text("last_error"),
+  lastResult: jsonb("last_result").$type<Record<string, number>>(),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  totalRuns: integer("total_runs").notNull().default(0),
+});
+
 // Expanded icon options with more categories
 export const iconOptionsSchema = z.object({
   income: z.array(z.string()).default([
@@ -175,34 +462,226 @@ export const colorOptionsSchema = z.object({
 
 export const insertCategorySchema = createInsertSchema(categories).omit({
   id: true,
+  userId: true,
 });
 
-export const insertTransactionSchema = createInsertSchema(transactions).extend({
+const currencySchema = z.string().regex(/^[A-Z]{3}$/, "Moeda inválida (use o código ISO, ex.: USD)");
+const exchangeRateSchema = z.string().regex(/^\d{1,6}(\.\d{1,6})?$/, "Cotação inválida");
+
+export const insertTransactionSchema = createInsertSchema(transactions, {
+  clearedStatus: z.enum(clearedStatuses).optional(),
+  originalCurrency: currencySchema.optional().nullable(),
+  originalAmount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Valor original inválido").optional().nullable(),
+  exchangeRate: exchangeRateSchema.optional().nullable(),
+  recurrenceFrequency: z.enum(recurrenceFrequencies).optional().nullable(),
+  recurrenceInterval: z.number().int().min(1, "Intervalo inválido").max(99, "Intervalo inválido").optional().nullable(),
+  recurrenceDay: z.number().int().min(1, "Dia inválido").max(31, "Dia inválido").optional().nullable(),
+  recurrenceCount: z.number().int().min(1, "Número de ocorrências inválido").optional().nullable(),
+  payrollKind: z.enum(payrollKinds).optional().nullable(),
+}).omit({
+  userId: true,
+}).extend({
   creditCardId: z.string().optional().nullable(),
+  recurrenceOverrides: z.record(z.object({
+    skip: z.boolean().optional(),
+    amount: z.string().optional(),
+  })).optional().nullable(),
 });
 
 export const insertBudgetSchema = createInsertSchema(budgets).omit({
   id: true,
+  userId: true,
 });
 
 export const insertSettingSchema = createInsertSchema(settings).omit({
   id: true,
+  userId: true,
 });
 
-export const insertCreditCardSchema = createInsertSchema(creditCards).omit({
+// Percentual com até 4 casas decimais (ex.: "14.5", "0.0082")
+const percentageSchema = z.string().regex(/^\d{1,3}(\.\d{1,4})?$/, "Percentual inválido");
+
+export const insertCreditCardSchema = createInsertSchema(creditCards, {
+  revolvingInterestRate: percentageSchema.optional(),
+  minimumPaymentRate: percentageSchema.optional(),
+  iofDailyRate: percentageSchema.optional(),
+  iofFixedRate: percentageSchema.optional(),
+  lateFeeRate: percentageSchema.optional(),
+  lateInterestRate: percentageSchema.optional(),
+  internationalIofRate: percentageSchema.optional(),
+  exchangeRateRule: z.enum(exchangeRateRules).optional(),
+  cardType: z.enum(creditCardTypes).optional(),
+  annualFeeAmount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Valor da anuidade inválido").optional(),
+  annualFeeInstallments: z.number().int().min(1).max(12).optional(),
+  annualFeeWaiverThreshold: z.string().regex(/^\d+(\.\d{1,2})?$/, "Valor de isenção inválido").optional().nullable(),
+  annualFeeStartDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data deve estar no formato AAAA-MM-DD").optional().nullable(),
+}).omit({
   id: true,
+  userId: true,
   createdAt: true,
   currentUsed: true,
 });
 
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data deve estar no formato AAAA-MM-DD");
+
+export const insertAccountSchema = createInsertSchema(accounts, {
+  name: z.string().min(1, "Nome é obrigatório"),
+  type: z.enum(accountTypes).optional(),
+  openingBalance: z.string().regex(/^-?\d+(\.\d{1,2})?$/, "Saldo inicial inválido").optional(),
+  openingDate: dateSchema,
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertAccountTransferSchema = createInsertSchema(accountTransfers, {
+  amount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Valor inválido").refine(amount => Number(amount) > 0, "Valor deve ser maior que zero"),
+  date: dateSchema,
+  description: z.string().min(1).optional(),
+  clearedStatus: z.enum(clearedStatuses).optional(),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
 export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
   id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertCreditCardInvoiceSchema = createInsertSchema(creditCardInvoices, {
+  // Faturas gravadas antes do ciclo de vida usavam "pending" para a fatura em aberto
+  status: z.preprocess(status => (status === "pending" ? "open" : status), z.enum(invoiceStatuses)),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertCreditCardInvoiceItemSchema = createInsertSchema(creditCardInvoiceItems, {
+  kind: z.enum(invoiceItemKinds),
+}).omit({
+  id: true,
+  userId: true,
   createdAt: true,
 });
 
-export const insertCreditCardInvoiceSchema = createInsertSchema(creditCardInvoices).omit({
+export const insertCreditCardInvoicePaymentSchema = createInsertSchema(creditCardInvoicePayments, {
+  date: dateSchema,
+  clearedStatus: z.enum(clearedStatuses).optional(),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertReconciliationSchema = createInsertSchema(reconciliations, {
+  statementDate: dateSchema,
+  statementBalance: z.string().regex(/^-?\d+(\.\d{1,2})?$/, "Saldo do extrato inválido"),
+  status: z.enum(reconciliationStatuses).optional(),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates, {
+  currency: currencySchema,
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data deve estar no formato AAAA-MM-DD"),
+  rate: exchangeRateSchema.refine(rate => Number(rate) > 0, "Cotação deve ser maior que zero"),
+  source: z.enum(["manual", "ptax"]).optional(),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertRewardProgramSchema = createInsertSchema(rewardPrograms, {
+  name: z.string().min(1, "Nome é obrigatório"),
+  rewardType: z.enum(rewardTypes).optional(),
+  pointsPerUnit: z.string().regex(/^\d{1,4}(\.\d{1,4})?$/, "Pontos por unidade inválidos").optional(),
+  spendCurrency: z.enum(["BRL", "USD"]).optional(),
+  cashbackRate: percentageSchema.optional(),
+  categoryMultipliers: z.record(z.string(), z.number().positive().max(100)).optional(),
+  expirationMonths: z.number().int().min(1).max(120).optional().nullable(),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertRewardRedemptionSchema = createInsertSchema(rewardRedemptions, {
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data deve estar no formato AAAA-MM-DD"),
+  amount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Quantidade inválida").refine(amount => Number(amount) > 0, "Quantidade deve ser maior que zero"),
+  description: z.string().min(1, "Descrição é obrigatória"),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+const amountSchema = z.string().regex(/^\d+(\.\d{1,2})?$/, "Valor inválido");
+
+export const insertIncomeSourceSchema = createInsertSchema(incomeSources, {
+  name: z.string().min(1, "Nome é obrigatório"),
+  grossSalary: amountSchema.refine(amount => Number(amount) > 0, "Salário bruto deve ser maior que zero"),
+  payBusinessDay: z.number().int().min(1, "Dia útil inválido").max(23, "Dia útil inválido").optional(),
+  dependents: z.number().int().min(0, "Número de dependentes inválido").max(20, "Número de dependentes inválido").optional(),
+  deductions: z.array(z.object({
+    description: z.string().min(1, "Descrição do desconto é obrigatória"),
+    amount: amountSchema,
+  })).optional(),
+  dailyTransportAllowance: amountSchema.optional(),
+  dailyMealAllowance: amountSchema.optional(),
+  startDate: dateSchema,
+  fgtsBalance: amountSchema.optional(),
+  fgtsBalanceDate: dateSchema.optional().nullable(),
+  fgtsAnnualYield: percentageSchema.optional(),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+// Períodos de férias da CLT: ao menos 5 dias de descanso e até 1/3 dos 30 dias vendido como abono
+export const insertVacationSchema = createInsertSchema(vacations, {
+  startDate: dateSchema,
+  days: z.number().int().min(5, "Férias devem ter ao menos 5 dias").max(30, "Férias devem ter no máximo 30 dias"),
+  soldDays: z.number().int().min(0, "Dias vendidos inválidos").max(10, "No máximo 10 dias podem ser vendidos").optional(),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const csvColumnMappingSchema = z.object({
+  date: z.string().min(1, "Coluna de data é obrigatória"),
+  description: z.string().min(1, "Coluna de descrição é obrigatória"),
+  amount: z.string().optional(),
+  debit: z.string().optional(),
+  credit: z.string().optional(),
+});
+
+export const insertImportProfileSchema = createInsertSchema(importProfiles, {
+  name: z.string().min(1, "Nome é obrigatório"),
+  delimiter: z.enum([";", ",", "\t", "|"]),
+  decimalSeparator: z.enum([",", "."]),
+  dateFormat: z.enum(["DD/MM/YYYY", "DD/MM/YY", "YYYY-MM-DD", "MM/DD/YYYY"]),
+  signConvention: z.enum(["negative_expense", "positive_expense", "split_columns"]),
+  skipRows: z.number().int().min(0).max(50),
+  columns: csvColumnMappingSchema,
+}).omit({
   id: true,
+  userId: true,
   createdAt: true,
+}).refine((profile) => profile.signConvention === "split_columns"
+  ? Boolean(profile.columns.debit && profile.columns.credit)
+  : Boolean(profile.columns.amount), {
+  message: "Informe a coluna de valor (ou as colunas de débito e crédito)",
+  path: ["columns"],
 });
 
 export type Category = typeof categories.$inferSelect;
@@ -215,7 +694,30 @@ export type Setting = typeof settings.$inferSelect;
 export type InsertSetting = z.infer<typeof insertSettingSchema>;
 export type CreditCard = typeof creditCards.$inferSelect;
 export type InsertCreditCard = z.infer<typeof insertCreditCardSchema>;
+export type Account = typeof accounts.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type AccountTransfer = typeof accountTransfers.$inferSelect;
+export type InsertAccountTransfer = z.infer<typeof insertAccountTransferSchema>;
 export type Subscription = typeof subscriptions.$inferSelect;
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
 export type CreditCardInvoice = typeof creditCardInvoices.$inferSelect;
 export type InsertCreditCardInvoice = z.infer<typeof insertCreditCardInvoiceSchema>;
+export type CreditCardInvoiceItem = typeof creditCardInvoiceItems.$inferSelect;
+export type InsertCreditCardInvoiceItem = z.infer<typeof insertCreditCardInvoiceItemSchema>;
+export type CreditCardInvoicePayment = typeof creditCardInvoicePayments.$inferSelect;
+export type InsertCreditCardInvoicePayment = z.infer<typeof insertCreditCardInvoicePaymentSchema>;
+export type Reconciliation = typeof reconciliations.$inferSelect;
+export type InsertReconciliation = z.infer<typeof insertReconciliationSchema>;
+export type ImportProfile = typeof importProfiles.$inferSelect;
+export type InsertImportProfile = z.infer<typeof insertImportProfileSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type RewardProgram = typeof rewardPrograms.$inferSelect;
+export type InsertRewardProgram = z.infer<typeof insertRewardProgramSchema>;
+export type RewardRedemption = typeof rewardRedemptions.$inferSelect;
+export type InsertRewardRedemption = z.infer<typeof insertRewardRedemptionSchema>;
+export type IncomeSource = typeof incomeSources.$inferSelect;
+export type InsertIncomeSource = z.infer<typeof insertIncomeSourceSchema>;
+export type Vacation = typeof vacations.$inferSelect;
+export type InsertVacation = z.infer<typeof insertVacationSchema>;
+export type JobState = typeof jobStates.$inferSelect;